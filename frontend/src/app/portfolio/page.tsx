@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import Portfolio from '@/components/Portfolio';
+import LiquidityPositions from '@/components/LiquidityPositions';
 import { getAssetsByOwner } from '@/tools/helius/get_assets_by_owner';
 import { SolanaAgentKit } from 'solana-agent-kit';
 import logger from '@/utils/logger';
@@ -158,6 +159,10 @@ export default function PortfolioPage() {
           </p>
         </div>
       )}
+
+      <div className="mt-6">
+        <LiquidityPositions />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -82,38 +82,34 @@ const Analysis: React.FC<AnalysisProps> = ({
     try {
       // Initialize scoring wallet
       const wallet = new PublicKey(walletAddress);
-      await ScoringWalletKit.fetchTx(wallet, 1000); // Analyze last 1000 transactions
+      const scoring = new ScoringWalletKit(process.env.NEXT_PUBLIC_RPC_URL || 'https://api.mainnet-beta.solana.com');
+      await scoring.fetchTx(wallet, 1000); // Analyze last 1000 transactions
 
       // Get scores
       const analysisScores: AnalysisScore[] = [
         {
           category: 'Transaction Frequency',
-          score: ScoringWalletKit.calcTxFreq(),
+          score: scoring.calcTxFreq(),
           description: 'Measures trading activity frequency'
         },
         {
           category: 'Volume',
-          score: ScoringWalletKit.calcVol(),
+          score: scoring.calcVol(),
           description: 'Trading volume score'
         },
         {
           category: 'Profitability',
-          score: ScoringWalletKit.calcProfitability(),
+          score: scoring.calcProfitability(),
           description: 'Success rate of trades'
         },
         {
           category: 'DEX Diversity',
-          score: ScoringWalletKit.calcDexDiversity(),
+          score: scoring.calcDexDiversity(),
           description: 'Usage of different DEXes'
         },
-        {
-          category: 'Risk Profile',
-          score: ScoringWalletKit.calcRiskContract(),
-          description: 'Risk assessment based on trading patterns'
-        },
         {
           category: 'Final Score',
-          score: ScoringWalletKit.calcFinalScore(),
+          score: scoring.calcFinalScore(),
           description: 'Overall performance score'
         }
       ];
@@ -0,0 +1,160 @@
+//LiquidityPositions.tsx
+import { useState, useEffect } from 'react';
+import type { LPPositionSummary, LPSnapshot } from '@/types/portfolio';
+
+const AGENT_API_URL = process.env.NEXT_PUBLIC_AGENT_API_URL || 'http://localhost:3001';
+
+interface LiquidityPositionsProps {
+  onError?: (error: Error) => void;
+}
+
+const formatPct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Value of the position (fees included) relative to holding, over time
+function PnlSparkline({ history }: { history: LPSnapshot[] }) {
+  if (history.length < 2) return null;
+
+  const values = history.map(snapshot => snapshot.pnlVsHodl);
+  const min = Math.min(...values, 0);
+  const max = Math.max(...values, 0);
+  const span = max - min || 1;
+  const points = values
+    .map((value, index) => `${(index / (values.length - 1)) * 200},${40 - ((value - min) / span) * 40}`)
+    .join(' ');
+  const zero = 40 - ((0 - min) / span) * 40;
+  const last = values[values.length - 1];
+
+  return (
+    <svg viewBox="0 0 200 40" className="w-full h-10">
+      <line x1="0" y1={zero} x2="200" y2={zero} className="stroke-gray-300 dark:stroke-gray-600" strokeDasharray="2 2" />
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth="1.5"
+        className={last >= 0 ? 'stroke-green-500' : 'stroke-red-500'}
+      />
+    </svg>
+  );
+}
+
+export default function LiquidityPositions({ onError }: LiquidityPositionsProps) {
+  const [positions, setPositions] = useState<LPPositionSummary[]>([]);
+  const [histories, setHistories] = useState<Record<string, LPSnapshot[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPositions();
+  }, []);
+
+  const loadPositions = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${AGENT_API_URL}/liquidity/positions`);
+      if (!response.ok) {
+        throw new Error(`Failed to load LP positions (${response.status})`);
+      }
+      const summaries: LPPositionSummary[] = await response.json();
+
+      const entries = await Promise.all(
+        summaries.map(async summary => {
+          const historyResponse = await fetch(
+            `${AGENT_API_URL}/liquidity/positions/${summary.positionId}/history`
+          );
+          const history: LPSnapshot[] = historyResponse.ok ? await historyResponse.json() : [];
+          return [summary.positionId, history] as const;
+        })
+      );
+
+      setPositions(summaries.sort((a, b) => b.openedAt - a.openedAt));
+      setHistories(Object.fromEntries(entries));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load LP positions';
+      setError(message);
+      onError?.(error instanceof Error ? error : new Error(message));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-lg">
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+      <h3 className="text-lg font-medium mb-4">Liquidity Positions vs HODL</h3>
+      {positions.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">No LP positions tracked yet</p>
+      ) : (
+        <div className="space-y-4">
+          {positions.map(position => {
+            const latest = position.latest;
+            return (
+              <div
+                key={position.positionId}
+                className="p-3 border rounded-lg dark:border-gray-700"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <p className="font-medium">
+                      {position.tokenA.slice(0, 4)}/{position.tokenB.slice(0, 4)} · {position.protocol}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {position.positionId.slice(0, 8)}
+                      {position.closedAt ? ' · closed' : latest && !latest.inRange ? ' · out of range' : ''}
+                    </p>
+                  </div>
+                  {latest && (
+                    <p className={`font-medium ${latest.pnlVsHodl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {latest.pnlVsHodl >= 0 ? '+' : ''}{latest.pnlVsHodl.toFixed(4)} vs HODL
+                    </p>
+                  )}
+                </div>
+                {latest && (
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Value</p>
+                      <p>{(latest.positionValue + latest.fees).toFixed(4)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">HODL</p>
+                      <p>{latest.hodlValue.toFixed(4)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Fees</p>
+                      <p>{latest.fees.toFixed(4)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">IL</p>
+                      <p className="text-red-500">{formatPct(latest.impermanentLoss)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">APY (realized / advertised)</p>
+                      <p>{formatPct(latest.realizedApy)} / {formatPct(latest.advertisedApy)}</p>
+                    </div>
+                  </div>
+                )}
+                <PnlSparkline history={histories[position.positionId] || []} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
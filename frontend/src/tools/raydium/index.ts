@@ -1,3 +1,4 @@
 export * from "./raydium_create_ammV4";
 export * from "./raydium_create_clmm";
 export * from "./raydium_create_cpmm";
+export * from "./raydium_launch_token";
@@ -0,0 +1,83 @@
+// src/tools/raydium_launch_token.ts
+import { PublicKey } from "@solana/web3.js";
+import { SolanaAgentKit } from "solana-agent-kit";
+import {
+  RaydiumLaunchVenue,
+  createLaunchPipeline,
+} from "../../../../src/services/blockchain/defi/launchVenues.js";
+
+export interface RaydiumLaunchOptions {
+  /** SOL paired with the minted supply in the new CPMM pool */
+  initialLiquiditySOL?: number;
+  /** CPMM fee config, the standard 0.25% one by default */
+  configId?: PublicKey;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+}
+
+async function fetchImage(imageUrl: string): Promise<Buffer> {
+  const imageResponse = await fetch(imageUrl);
+  if (!imageResponse.ok) {
+    throw new Error(`Image download failed: ${imageResponse.statusText}`);
+  }
+  return Buffer.from(await imageResponse.arrayBuffer());
+}
+
+/**
+ * Mint a token and open a Raydium CPMM pool for it through the agent's launch
+ * pipeline, so a failed launch is recorded and can be resumed
+ * @param agent - SolanaAgentKit instance
+ * @param tokenName - Name of the token
+ * @param tokenTicker - Ticker of the token
+ * @param description - Description of the token
+ * @param imageUrl - URL of the token image
+ * @param options - Optional launch options (initialLiquiditySOL, configId, twitter, telegram, website)
+ * @returns - Signature of the create transaction, mint address and metadata URI
+ */
+export async function launchRaydiumToken(
+  agent: SolanaAgentKit,
+  tokenName: string,
+  tokenTicker: string,
+  description: string,
+  imageUrl: string,
+  options?: RaydiumLaunchOptions,
+): Promise<{ signature: string; mint: string; metadataUri?: string }> {
+  const pipeline = createLaunchPipeline({
+    connection: agent.connection,
+    deployer: agent.wallet,
+    venues: [
+      new RaydiumLaunchVenue(agent.connection, options?.configId?.toBase58()),
+    ],
+    content: {
+      generateMetadata: async () => {
+        throw new Error("Token metadata is required");
+      },
+      generateImage: () => fetchImage(imageUrl),
+    },
+  });
+
+  const launch = await pipeline.launch({
+    venue: "raydium",
+    metadata: {
+      name: tokenName,
+      symbol: tokenTicker,
+      description,
+      twitter: options?.twitter,
+      telegram: options?.telegram,
+      website: options?.website,
+    },
+    initialBuySol: options?.initialLiquiditySOL ?? 1,
+  });
+
+  if (launch.status !== "completed") {
+    console.error("Error in launchRaydiumToken:", launch.error);
+    throw new Error(`Launch ${launch.id} failed at ${launch.error}, it can be resumed`);
+  }
+
+  return {
+    signature: launch.createSignature!,
+    mint: launch.mint!,
+    metadataUri: launch.metadataUri,
+  };
+}
@@ -1,264 +1,2 @@
-import { 
-	Connection, 
-	ParsedTransactionWithMeta, 
-	PublicKey,
-	ConnectionConfig 
-  } from '@solana/web3.js';
- 
-  import { 
-	calc_dex_diversity,
-	calc_final_score,
-	calc_profitability,    
-	calc_risky_contract,
-	calc_stabel_token_vol,
-	calc_tx_freq,
-	calc_vol,
-	fetch_tx,
-  } from './helper';
-import logger from './logger';
-  
-  interface ScoringMetrics {
-	frequency: number;
-	volume: number;
-	profitability: number;
-	dexDiversity: number;
-	stablecoinActivity: number;
-	riskyContracts: number;
-	finalScore: number;
-  }
-  
-  export class ScoringWalletKit {
-  static fetchTx(wallet: PublicKey, arg1: number) {
-    throw new Error('Method not implemented.');
-  }
-  static calcTxFreq(): number {
-    throw new Error('Method not implemented.');
-  }
-  static calcVol(): number {
-    throw new Error('Method not implemented.');
-  }
-  static calcProfitability(): number {
-    throw new Error('Method not implemented.');
-  }
-  static calcDexDiversity(): number {
-    throw new Error('Method not implemented.');
-  }
-  static calcRiskContract(): number {
-    throw new Error('Method not implemented.');
-  }
-  static calcFinalScore(): number {
-    throw new Error('Method not implemented.');
-  }
-	public connection: Connection;
-	public transactions: (ParsedTransactionWithMeta | null)[] = [];
-  
-	// Scoring metrics
-	private metrics: ScoringMetrics = {
-	  frequency: 0,
-	  volume: 0,
-	  profitability: 0,
-	  dexDiversity: 0,
-	  stablecoinActivity: 0,
-	  riskyContracts: 0,
-	  finalScore: 0
-	};
-  
-	constructor(rpcUrl: string, config?: ConnectionConfig) {
-	  try {
-		this.connection = new Connection(rpcUrl, {
-		  commitment: 'confirmed',
-		  confirmTransactionInitialTimeout: 60000,
-		  ...config
-		});
-	  } catch (error) {
-		logger.error('Error initializing ScoringWalletKit:', error);
-		throw new Error('Failed to initialize wallet scoring connection');
-	  }
-	}
-  
-	/**
-	 * Fetch transactions for a wallet
-	 */
-	async fetchTx(walletAddress: PublicKey, amountOfTx?: number): Promise<never[] | undefined> {
-	  try {
-		this.validateState();
-		const count = await fetch_tx(this, walletAddress, amountOfTx);
-		await this.updateAllMetrics();
-		return count;
-	  } catch (error) {
-		logger.error('Error fetching transactions:', error);
-		throw new Error('Failed to fetch transactions');
-	  }
-	}
-  
-	/**
-	 * Calculate transaction frequency score
-	 */
-	calcTxFreq(): number {
-	  try {
-		this.validateState();
-		this.metrics.frequency = calc_tx_freq(this);
-		return this.metrics.frequency;
-	  } catch (error) {
-		logger.error('Error calculating transaction frequency:', error);
-		throw new Error('Failed to calculate transaction frequency');
-	  }
-	}
-  
-	/**
-	 * Calculate volume score
-	 */
-	calcVol(): number {
-	  try {
-		this.validateState();
-		this.metrics.volume = calc_vol(this);
-		return this.metrics.volume;
-	  } catch (error) {
-		logger.error('Error calculating volume:', error);
-		throw new Error('Failed to calculate volume');
-	  }
-	}
-  
-	/**
-	 * Calculate profitability score
-	 */
-	calcProfitability(): number {
-	  try {
-		this.validateState();
-		this.metrics.profitability = calc_profitability(this);
-		return this.metrics.profitability;
-	  } catch (error) {
-		logger.error('Error calculating profitability:', error);
-		throw new Error('Failed to calculate profitability');
-	  }
-	}
-  
-	/**
-	 * Calculate DEX diversity score
-	 */
-	calcDexDiversity(): number {
-	  try {
-		this.validateState();
-		this.metrics.dexDiversity = calc_dex_diversity(this);
-		return this.metrics.dexDiversity;
-	  } catch (error) {
-		logger.error('Error calculating DEX diversity:', error);
-		throw new Error('Failed to calculate DEX diversity');
-	  }
-	}
-  
-	/**
-	 * Calculate stable token volume score
-	 */
-	calcStableTokenVol(): number {
-	  try {
-		this.validateState();
-		this.metrics.stablecoinActivity = calc_stabel_token_vol(this);
-		return this.metrics.stablecoinActivity;
-	  } catch (error) {
-		logger.error('Error calculating stable token volume:', error);
-		throw new Error('Failed to calculate stable token volume');
-	  }
-	}
-  
-	/**
-	 * Calculate risk contract score
-	 */
-	calcRiskContract(): number {
-	  try {
-		this.validateState();
-		this.metrics.riskyContracts = calc_risky_contract(this);
-		return this.metrics.riskyContracts;
-	  } catch (error) {
-		logger.error('Error calculating risk contract score:', error);
-		throw new Error('Failed to calculate risk contract score');
-	  }
-	}
-  
-	/**
-	 * Calculate final composite score
-	 */
-	calcFinalScore(): number {
-	  try {
-		this.validateState();
-		this.metrics.finalScore = calc_final_score(this);
-		return this.metrics.finalScore;
-	  } catch (error) {
-		logger.error('Error calculating final score:', error);
-		throw new Error('Failed to calculate final score');
-	  }
-	}
-  
-	/**
-	 * Get all current metrics
-	 */
-	getMetrics(): ScoringMetrics {
-	  try {
-		this.validateState();
-		return { ...this.metrics };
-	  } catch (error) {
-		logger.error('Error getting metrics:', error);
-		throw new Error('Failed to get metrics');
-	  }
-	}
-  
-	/**
-	 * Update all metrics at once
-	 */
-	private async updateAllMetrics(): Promise<void> {
-	  try {
-		this.metrics.frequency = this.calcTxFreq();
-		this.metrics.volume = this.calcVol();
-		this.metrics.profitability = this.calcProfitability();
-		this.metrics.dexDiversity = this.calcDexDiversity();
-		this.metrics.stablecoinActivity = this.calcStableTokenVol();
-		this.metrics.riskyContracts = this.calcRiskContract();
-		this.metrics.finalScore = this.calcFinalScore();
-	  } catch (error) {
-		logger.error('Error updating metrics:', error);
-		throw new Error('Failed to update metrics');
-	  }
-	}
-  
-	/**
-	 * Clear all data and metrics
-	 */
-	public clearData(): void {
-	  this.transactions = [];
-	  this.metrics = {
-		frequency: 0,
-		volume: 0,
-		profitability: 0,
-		dexDiversity: 0,
-		stablecoinActivity: 0,
-		riskyContracts: 0,
-		finalScore: 0
-	  };
-	}
-  
-	/**
-	 * Validate wallet state
-	 */
-	private validateState(): void {
-	  if (!this.connection) {
-		throw new Error('Connection not initialized');
-	  }
-	}
-  
-	/**
-	 * Get transaction count
-	 */
-	public getTransactionCount(): number {
-	  return this.transactions.filter(tx => tx !== null).length;
-	}
-  
-	/**
-	 * Check if wallet has transactions
-	 */
-	public hasTransactions(): boolean {
-	  return this.transactions.length > 0;
-	}
-  }
-  
-  // Export types
-  export type { ScoringMetrics };
\ No newline at end of file
+export { ScoringWalletKit } from '../../../src/services/analysis/walletScoring.js';
+export type { ScoringMetrics } from '../../../src/services/analysis/walletScoring.js';
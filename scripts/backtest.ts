@@ -0,0 +1,57 @@
+import { Backtester } from '../src/services/blockchain/defi/backtester';
+import { loadPriceFixture } from '../src/services/blockchain/defi/priceFixtures';
+import { loadStrategies } from '../src/services/blockchain/defi/strategyLoader';
+
+// Usage: npx tsx scripts/backtest.ts <strategies.json> <prices.csv|prices.json> [strategyId]
+async function main() {
+  const [strategyFile, fixtureFile, strategyId] = process.argv.slice(2);
+  if (!strategyFile || !fixtureFile) {
+    console.error('Usage: npx tsx scripts/backtest.ts <strategies.json> <prices.csv|prices.json> [strategyId]');
+    process.exit(1);
+  }
+
+  const [strategies, candles] = await Promise.all([
+    loadStrategies(strategyFile),
+    loadPriceFixture(fixtureFile)
+  ]);
+
+  const selected = strategyId
+    ? strategies.filter(strategy => strategy.id === strategyId)
+    : strategies;
+  if (!selected.length) {
+    console.error(`Strategy ${strategyId} not found in ${strategyFile}`);
+    process.exit(1);
+  }
+
+  const backtester = new Backtester();
+  for (const strategy of selected) {
+    const report = backtester.run(strategy, candles);
+
+    console.log(`\n=== ${strategy.name} (${strategy.id}) ===`);
+    console.log(`Period:        ${new Date(report.startTime).toISOString()} -> ${new Date(report.endTime).toISOString()}`);
+    console.log(`PnL:           ${report.pnl.toFixed(2)} (${report.pnlPct.toFixed(2)}%)`);
+    console.log(`Max drawdown:  ${(report.maxDrawdown * 100).toFixed(2)}%`);
+    console.log(`Win rate:      ${(report.winRate * 100).toFixed(1)}%`);
+    console.log(`Sharpe:        ${report.sharpe.toFixed(2)}`);
+    console.log(`Fees paid:     ${report.totalFees.toFixed(4)}`);
+    console.log(`Trades:        ${report.trades.length} (${report.rejectedTrades} rejected on price impact)`);
+
+    if (report.trades.length) {
+      console.table(report.trades.map(trade => ({
+        time: new Date(trade.timestamp).toISOString(),
+        side: trade.side,
+        price: trade.marketPrice,
+        in: trade.inputAmount.toFixed(4),
+        out: trade.outputAmount.toFixed(4),
+        fee: trade.fee.toFixed(4),
+        pnl: trade.realizedPnl?.toFixed(4) ?? '',
+        equity: trade.equity.toFixed(2)
+      })));
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Backtest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import { BondingCurveAccount } from '../bondingCurveAccount.js';
+import { GlobalAccount } from '../globalAccount.js';
+import { BondingCurveSimulator } from '../curveSimulator.js';
+import { ValidationError } from '../../utils/error-handler.js';
+
+const LAMPORTS = BigInt(1_000_000_000);
+const TOKENS = BigInt(1_000_000);
+
+// A freshly created curve with the launch parameters and a 1% fee
+const createSimulator = () =>
+  new BondingCurveSimulator(
+    {
+      virtualTokenReserves: BigInt('1073000000000000'),
+      virtualSolReserves: BigInt(30) * LAMPORTS,
+      realTokenReserves: BigInt('793100000000000'),
+      realSolReserves: BigInt(0),
+      tokenTotalSupply: BigInt('1000000000000000'),
+      complete: false
+    } as BondingCurveAccount,
+    { feeBasisPoints: BigInt(100) } as GlobalAccount
+  );
+
+describe('BondingCurveSimulator', () => {
+  test('charges fees and moves reserves with each sequential trade', () => {
+    const simulator = createSimulator();
+    const buy = simulator.buy(BigInt(2) * LAMPORTS);
+
+    expect(buy.fee).toBeGreaterThan(BigInt(0));
+    expect(buy.solAmount).toBeLessThan(BigInt(2) * LAMPORTS + BigInt(1));
+    expect(buy.priceImpact).toBeGreaterThan(0);
+
+    // Selling the whole bag back returns less than was paid, by about both fees
+    const exit = simulator.clone().simulateExit(buy.tokenAmount, 1);
+    const lost = Number(buy.solAmount - exit.solReceived) / Number(buy.solAmount);
+    expect(lost).toBeCloseTo(0.02, 2);
+
+    // Each chunk sells into a lower price than the one before
+    const chunked = simulator.clone().simulateExit(buy.tokenAmount, 4);
+    expect(chunked.chunks).toHaveLength(4);
+    expect(chunked.chunks[3].averagePrice).toBeLessThan(chunked.chunks[0].averagePrice);
+    expect(chunked.tokenAmount).toBe(buy.tokenAmount);
+    expect(Number(chunked.solReceived)).toBeCloseTo(Number(exit.solReceived), -4);
+
+    // The clones did not touch the original
+    expect(simulator.realTokenReserves).toBe(BigInt('793100000000000') - buy.tokenAmount);
+  });
+
+  test('stops buys at the migration threshold and quotes price impact', () => {
+    const simulator = createSimulator();
+
+    const target = simulator.solForPriceImpact(0.1)!;
+    const quote = simulator.clone().buy(target);
+    expect(quote.priceImpact).toBeCloseTo(0.1, 4);
+    expect(Number(simulator.tokensForPriceDrop(0.1))).toBeGreaterThan(0);
+
+    // Near the migration threshold the curve completes before the price moves that far
+    const nearlyComplete = simulator.clone();
+    nearlyComplete.buy(BigInt(80) * LAMPORTS);
+    expect(nearlyComplete.solForPriceImpact(0.5)).toBeNull();
+
+    expect(() => simulator.solForPriceImpact(1)).toThrow(ValidationError);
+    expect(() => simulator.tokensForPriceDrop(1)).toThrow('between -1 and 1');
+
+    const buyout = simulator.buy(BigInt(500) * LAMPORTS);
+    expect(buyout.completesCurve).toBe(true);
+    expect(buyout.tokenAmount).toBe(BigInt('793100000000000'));
+    expect(buyout.solAmount).toBeLessThan(BigInt(100) * LAMPORTS);
+    expect(simulator.complete).toBe(true);
+    expect(() => simulator.sell(BigInt(1000) * TOKENS)).toThrow('Curve is complete');
+
+    const points = createSimulator().priceImpactCurve('sell', [BigInt(1_000_000) * TOKENS, BigInt(10_000_000) * TOKENS]);
+    expect(points[1].priceImpact).toBeLessThan(points[0].priceImpact);
+  });
+});
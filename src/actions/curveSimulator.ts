@@ -0,0 +1,373 @@
+import { Commitment, Connection, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { BondingCurveAccount } from "./bondingCurveAccount.js";
+import { GlobalAccount } from "./globalAccount.js";
+import { PUMP_FUN_PROGRAM_ID } from "./events.js";
+import { BONDING_CURVE_SEED, DEFAULT_DECIMALS, GLOBAL_ACCOUNT_SEED } from "./pumpfun.js";
+import { DEFAULT_COMMITMENT } from "./util.js";
+import { ValidationError } from "../utils/error-handler.js";
+
+const BPS = BigInt(10000);
+const TOKEN_UNIT = 10 ** DEFAULT_DECIMALS;
+
+export type CurveSide = "buy" | "sell";
+
+export type CurveQuote = {
+  side: CurveSide;
+  /** Lamports paid including the fee (buy) or received after the fee (sell) */
+  solAmount: bigint;
+  /** Token base units received (buy) or sold (sell) */
+  tokenAmount: bigint;
+  /** Fee in lamports */
+  fee: bigint;
+  /** SOL per whole token */
+  priceBefore: number;
+  priceAfter: number;
+  averagePrice: number;
+  /** Relative price move caused by the trade, negative for sells */
+  priceImpact: number;
+  /** The trade bought the last tokens and the curve migrates */
+  completesCurve: boolean;
+};
+
+export type ExitSimulation = {
+  chunks: CurveQuote[];
+  tokenAmount: bigint;
+  solReceived: bigint;
+  fees: bigint;
+  averagePrice: number;
+  priceImpact: number;
+};
+
+export type PriceImpactPoint = {
+  amount: bigint;
+  output: bigint;
+  averagePrice: number;
+  priceImpact: number;
+};
+
+/**
+ * Simulates sequential trades against a pump.fun bonding curve. Each trade
+ * moves the simulated reserves, so later quotes see the impact of earlier
+ * ones. Fees are charged on the SOL side as the program does, and buys stop
+ * at the migration threshold once the real token reserves are sold out.
+ */
+export class BondingCurveSimulator {
+  public virtualSolReserves: bigint;
+  public virtualTokenReserves: bigint;
+  public realSolReserves: bigint;
+  public realTokenReserves: bigint;
+  public complete: boolean;
+  public readonly tokenTotalSupply: bigint;
+  public readonly feeBasisPoints: bigint;
+
+  constructor(curve: BondingCurveAccount, global: GlobalAccount) {
+    this.virtualSolReserves = curve.virtualSolReserves;
+    this.virtualTokenReserves = curve.virtualTokenReserves;
+    this.realSolReserves = curve.realSolReserves;
+    this.realTokenReserves = curve.realTokenReserves;
+    this.complete = curve.complete;
+    this.tokenTotalSupply = curve.tokenTotalSupply;
+    this.feeBasisPoints = global.feeBasisPoints;
+  }
+
+  /** Spot price in SOL per whole token */
+  getPrice(): number {
+    if (this.virtualTokenReserves === BigInt(0)) {
+      return 0;
+    }
+    return (
+      Number(this.virtualSolReserves) / LAMPORTS_PER_SOL /
+      (Number(this.virtualTokenReserves) / TOKEN_UNIT)
+    );
+  }
+
+  /** Share of the sellable supply bought so far */
+  getProgress(initialRealTokenReserves: bigint): number {
+    if (initialRealTokenReserves === BigInt(0)) {
+      return 0;
+    }
+    return 1 - Number(this.realTokenReserves) / Number(initialRealTokenReserves);
+  }
+
+  clone(): BondingCurveSimulator {
+    return Object.assign(
+      Object.create(BondingCurveSimulator.prototype),
+      this
+    ) as BondingCurveSimulator;
+  }
+
+  /**
+   * Spend `solAmount` lamports, fee included. Buys that would pass the
+   * migration threshold only fill the remaining tokens and spend less.
+   */
+  buy(solAmount: bigint): CurveQuote {
+    this.assertOpen();
+    const priceBefore = this.getPrice();
+
+    let solIn = (solAmount * BPS) / (BPS + this.feeBasisPoints);
+    let tokenAmount = this.tokensOut(solIn);
+    let completesCurve = false;
+
+    if (tokenAmount >= this.realTokenReserves) {
+      tokenAmount = this.realTokenReserves;
+      solIn = this.solInFor(tokenAmount);
+      completesCurve = true;
+    }
+
+    const fee = (solIn * this.feeBasisPoints) / BPS;
+    this.virtualSolReserves += solIn;
+    this.virtualTokenReserves -= tokenAmount;
+    this.realSolReserves += solIn;
+    this.realTokenReserves -= tokenAmount;
+    this.complete = completesCurve;
+
+    return this.quote("buy", solIn + fee, tokenAmount, fee, priceBefore, completesCurve);
+  }
+
+  /**
+   * Sell `tokenAmount` base units, returning the SOL received after the fee.
+   */
+  sell(tokenAmount: bigint): CurveQuote {
+    this.assertOpen();
+    const priceBefore = this.getPrice();
+
+    if (tokenAmount <= BigInt(0)) {
+      return this.quote("sell", BigInt(0), BigInt(0), BigInt(0), priceBefore, false);
+    }
+
+    let solOut =
+      (tokenAmount * this.virtualSolReserves) /
+      (this.virtualTokenReserves + tokenAmount);
+    if (solOut > this.realSolReserves) {
+      solOut = this.realSolReserves;
+    }
+    const fee = (solOut * this.feeBasisPoints) / BPS;
+
+    this.virtualSolReserves -= solOut;
+    this.virtualTokenReserves += tokenAmount;
+    this.realSolReserves -= solOut;
+    this.realTokenReserves += tokenAmount;
+
+    return this.quote("sell", solOut - fee, tokenAmount, fee, priceBefore, false);
+  }
+
+  /**
+   * Sell `tokenAmount` in `chunks` equal sells, one after the other.
+   */
+  simulateExit(tokenAmount: bigint, chunks: number = 1): ExitSimulation {
+    const count = BigInt(Math.max(1, Math.floor(chunks)));
+    const priceBefore = this.getPrice();
+    const quotes: CurveQuote[] = [];
+
+    for (let i = BigInt(0); i < count; i++) {
+      // The last chunk takes the rounding remainder
+      const size = i === count - BigInt(1)
+        ? tokenAmount - (tokenAmount / count) * (count - BigInt(1))
+        : tokenAmount / count;
+      quotes.push(this.sell(size));
+    }
+
+    const solReceived = quotes.reduce((sum, q) => sum + q.solAmount, BigInt(0));
+    const fees = quotes.reduce((sum, q) => sum + q.fee, BigInt(0));
+    return {
+      chunks: quotes,
+      tokenAmount,
+      solReceived,
+      fees,
+      averagePrice: averagePrice(solReceived, tokenAmount),
+      priceImpact: priceBefore > 0 ? this.getPrice() / priceBefore - 1 : 0,
+    };
+  }
+
+  /**
+   * Lamports (fee included) a buy needs to lift the price by `impact`,
+   * e.g. 0.1 for +10%. Null when the curve completes first.
+   */
+  solForPriceImpact(impact: number): bigint | null {
+    this.assertOpen();
+    assertImpact(impact);
+    // price = vSol^2 / k on a constant product curve
+    const target = BigInt(
+      Math.ceil(Number(this.virtualSolReserves) * Math.sqrt(1 + impact))
+    );
+    const solIn = target - this.virtualSolReserves;
+    if (this.tokensOut(solIn) >= this.realTokenReserves) {
+      return null;
+    }
+    return solIn + (solIn * this.feeBasisPoints) / BPS;
+  }
+
+  /**
+   * Token base units a sell needs to push the price down by `impact`,
+   * e.g. 0.1 for -10%.
+   */
+  tokensForPriceDrop(impact: number): bigint {
+    this.assertOpen();
+    assertImpact(impact);
+    const k = this.virtualSolReserves * this.virtualTokenReserves;
+    const target = BigInt(
+      Math.floor(Number(this.virtualSolReserves) * Math.sqrt(1 - impact))
+    );
+    return k / target - this.virtualTokenReserves;
+  }
+
+  /**
+   * Independent quotes for each size from the current state: lamports for
+   * buys, token base units for sells.
+   */
+  priceImpactCurve(side: CurveSide, sizes: bigint[]): PriceImpactPoint[] {
+    return sizes.map((amount) => {
+      const quote = side === "buy" ? this.clone().buy(amount) : this.clone().sell(amount);
+      return {
+        amount,
+        output: side === "buy" ? quote.tokenAmount : quote.solAmount,
+        averagePrice: quote.averagePrice,
+        priceImpact: quote.priceImpact,
+      };
+    });
+  }
+
+  private tokensOut(solIn: bigint): bigint {
+    if (solIn <= BigInt(0)) {
+      return BigInt(0);
+    }
+    const k = this.virtualSolReserves * this.virtualTokenReserves;
+    return this.virtualTokenReserves - (k / (this.virtualSolReserves + solIn) + BigInt(1));
+  }
+
+  private solInFor(tokenAmount: bigint): bigint {
+    const k = this.virtualSolReserves * this.virtualTokenReserves;
+    const remaining = this.virtualTokenReserves - tokenAmount;
+    // Round up so the curve is never short changed
+    return (k + remaining - BigInt(1)) / remaining - this.virtualSolReserves;
+  }
+
+  private quote(
+    side: CurveSide,
+    solAmount: bigint,
+    tokenAmount: bigint,
+    fee: bigint,
+    priceBefore: number,
+    completesCurve: boolean
+  ): CurveQuote {
+    const priceAfter = this.getPrice();
+    return {
+      side,
+      solAmount,
+      tokenAmount,
+      fee,
+      priceBefore,
+      priceAfter,
+      averagePrice: averagePrice(solAmount, tokenAmount),
+      priceImpact: priceBefore > 0 ? priceAfter / priceBefore - 1 : 0,
+      completesCurve,
+    };
+  }
+
+  private assertOpen() {
+    if (this.complete) {
+      throw new Error("Curve is complete");
+    }
+  }
+}
+
+/**
+ * Impacts are fractions of the current price. A drop of 100% or more has no
+ * solution on the curve.
+ */
+function assertImpact(impact: number) {
+  if (!(impact > -1 && impact < 1)) {
+    throw new ValidationError(`Price impact must be between -1 and 1, got ${impact}`);
+  }
+}
+
+function averagePrice(solAmount: bigint, tokenAmount: bigint): number {
+  if (tokenAmount === BigInt(0)) {
+    return 0;
+  }
+  return Number(solAmount) / LAMPORTS_PER_SOL / (Number(tokenAmount) / TOKEN_UNIT);
+}
+
+/**
+ * Load the bonding curve and global accounts for `mint` without needing a
+ * wallet. Returns null when the mint has no bonding curve.
+ */
+export async function fetchCurveSimulator(
+  connection: Connection,
+  mint: PublicKey,
+  commitment: Commitment = DEFAULT_COMMITMENT
+): Promise<BondingCurveSimulator | null> {
+  const programId = new PublicKey(PUMP_FUN_PROGRAM_ID);
+  const [curvePDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from(BONDING_CURVE_SEED), mint.toBuffer()],
+    programId
+  );
+  const [globalPDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from(GLOBAL_ACCOUNT_SEED)],
+    programId
+  );
+
+  const [curveInfo, globalInfo] = await connection.getMultipleAccountsInfo(
+    [curvePDA, globalPDA],
+    commitment
+  );
+  if (!curveInfo || !globalInfo) {
+    return null;
+  }
+
+  return new BondingCurveSimulator(
+    BondingCurveAccount.fromBuffer(curveInfo.data),
+    GlobalAccount.fromBuffer(globalInfo.data)
+  );
+}
+
+const formatSol = (lamports: bigint) =>
+  (Number(lamports) / LAMPORTS_PER_SOL).toFixed(4);
+
+const formatPct = (value: number) =>
+  `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+/**
+ * One line per chunk plus a total, for chat replies.
+ */
+export function formatExitSimulation(exit: ExitSimulation): string {
+  const lines = exit.chunks.map(
+    (chunk, i) =>
+      `${i + 1}. sell ${(Number(chunk.tokenAmount) / TOKEN_UNIT).toLocaleString()} → ` +
+      `${formatSol(chunk.solAmount)} SOL (price ${formatPct(chunk.priceImpact)})`
+  );
+  lines.push(
+    `Total: ${formatSol(exit.solReceived)} SOL after ${formatSol(exit.fees)} SOL fees, ` +
+      `avg ${exit.averagePrice.toExponential(4)} SOL/token, price ${formatPct(exit.priceImpact)}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * SOL needed to lift the price by each of `impacts`, for chat replies.
+ */
+export function formatBuyImpact(simulator: BondingCurveSimulator, impacts: number[]): string {
+  return impacts
+    .map((impact) => {
+      const lamports = simulator.solForPriceImpact(impact);
+      return lamports === null
+        ? `${formatPct(impact)}: curve completes first`
+        : `${formatPct(impact)}: ${formatSol(lamports)} SOL`;
+    })
+    .join("\n");
+}
+
+/**
+ * Token base units of `mint` held by `owner` across its token accounts.
+ */
+export async function fetchTokenBalance(
+  connection: Connection,
+  owner: PublicKey,
+  mint: PublicKey
+): Promise<bigint> {
+  const accounts = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+  return accounts.value.reduce(
+    (sum, account) => sum + BigInt(account.account.data.parsed.info.tokenAmount.amount),
+    BigInt(0)
+  );
+}
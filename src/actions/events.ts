@@ -1,11 +1,16 @@
 import { PublicKey } from "@solana/web3.js";
+import { createHash } from "crypto";
 import {
   CompleteEvent,
   CreateEvent,
+  PumpFunEventHandlers,
+  PumpFunEventType,
   SetParamsEvent,
   TradeEvent,
 } from "./types.js";
 
+export const PUMP_FUN_PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+
 export function toCreateEvent(event: CreateEvent): CreateEvent {
   return {
     name: event.name,
@@ -51,3 +56,163 @@ export function toSetParamsEvent(event: SetParamsEvent): SetParamsEvent {
     feeBasisPoints: BigInt(event.feeBasisPoints),
   };
 }
+
+export type DecodedPumpFunEvent = {
+  [K in PumpFunEventType]: { type: K; event: PumpFunEventHandlers[K] };
+}[PumpFunEventType];
+
+const PROGRAM_DATA_PREFIX = "Program data: ";
+
+// Anchor prefixes event data with sha256("event:<Name>")[0..8]
+const eventDiscriminator = (name: string) =>
+  createHash("sha256").update(`event:${name}`).digest().subarray(0, 8);
+
+const EVENT_DISCRIMINATORS: Array<[PumpFunEventType, Buffer]> = [
+  ["createEvent", eventDiscriminator("CreateEvent")],
+  ["tradeEvent", eventDiscriminator("TradeEvent")],
+  ["completeEvent", eventDiscriminator("CompleteEvent")],
+  ["setParamsEvent", eventDiscriminator("SetParamsEvent")],
+];
+
+class BorshReader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  u64(): bigint {
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): bigint {
+    const value = this.buffer.readBigInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.buffer.readUInt8(this.offset++) !== 0;
+  }
+
+  publicKey(): PublicKey {
+    const key = new PublicKey(this.buffer.subarray(this.offset, this.offset + 32));
+    this.offset += 32;
+    return key;
+  }
+
+  string(): string {
+    const length = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    const value = this.buffer.toString("utf8", this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+/**
+ * Decode one Anchor event emitted by the pump.fun program. Returns null for
+ * unknown or truncated events. Fields appended by newer program versions are
+ * ignored.
+ */
+export function decodePumpFunEvent(data: Buffer): DecodedPumpFunEvent | null {
+  const match = EVENT_DISCRIMINATORS.find(([, discriminator]) =>
+    data.subarray(0, 8).equals(discriminator)
+  );
+  if (!match) {
+    return null;
+  }
+
+  const reader = new BorshReader(data.subarray(8));
+  try {
+    switch (match[0]) {
+      case "createEvent":
+        return {
+          type: "createEvent",
+          event: {
+            name: reader.string(),
+            symbol: reader.string(),
+            uri: reader.string(),
+            mint: reader.publicKey(),
+            bondingCurve: reader.publicKey(),
+            user: reader.publicKey(),
+          },
+        };
+      case "tradeEvent":
+        return {
+          type: "tradeEvent",
+          event: {
+            mint: reader.publicKey(),
+            solAmount: reader.u64(),
+            tokenAmount: reader.u64(),
+            isBuy: reader.bool(),
+            user: reader.publicKey(),
+            timestamp: Number(reader.i64()),
+            virtualSolReserves: reader.u64(),
+            virtualTokenReserves: reader.u64(),
+            realSolReserves: reader.u64(),
+            realTokenReserves: reader.u64(),
+          },
+        };
+      case "completeEvent":
+        return {
+          type: "completeEvent",
+          event: {
+            user: reader.publicKey(),
+            mint: reader.publicKey(),
+            bondingCurve: reader.publicKey(),
+            timestamp: Number(reader.i64()),
+          },
+        };
+      case "setParamsEvent":
+        return {
+          type: "setParamsEvent",
+          event: {
+            feeRecipient: reader.publicKey(),
+            initialVirtualTokenReserves: reader.u64(),
+            initialVirtualSolReserves: reader.u64(),
+            initialRealTokenReserves: reader.u64(),
+            tokenTotalSupply: reader.u64(),
+            feeBasisPoints: reader.u64(),
+          },
+        };
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the pump.fun events in a transaction's log messages, in order.
+ * Only `Program data:` lines emitted while the pump.fun program is the
+ * innermost invocation are considered.
+ */
+export function decodePumpFunLogs(
+  logs: string[],
+  programId: string = PUMP_FUN_PROGRAM_ID
+): DecodedPumpFunEvent[] {
+  const events: DecodedPumpFunEvent[] = [];
+  const stack: string[] = [];
+
+  for (const log of logs) {
+    const invoke = log.match(/^Program (\w+) invoke \[\d+\]$/);
+    if (invoke) {
+      stack.push(invoke[1]);
+      continue;
+    }
+    if (/^Program \w+ (success|failed)/.test(log)) {
+      stack.pop();
+      continue;
+    }
+    if (log.startsWith(PROGRAM_DATA_PREFIX) && stack[stack.length - 1] === programId) {
+      const decoded = decodePumpFunEvent(
+        Buffer.from(log.slice(PROGRAM_DATA_PREFIX.length), "base64")
+      );
+      if (decoded) {
+        events.push(decoded);
+      }
+    }
+  }
+
+  return events;
+}
@@ -5,3 +5,4 @@ export * from './events.js'
 export * from './globalAccount.js'
 export * from './bondingCurveAccount.js'
 export * from './amm.js'
+export * from './curveSimulator.js'
@@ -3,9 +3,9 @@ import {
   Connection,
   Finality,
   Keypair,
+  LAMPORTS_PER_SOL,
   PublicKey,
   Transaction,
-  VersionedTransaction,
 } from "@solana/web3.js";
 import { Program, Provider } from "@coral-xyz/anchor";
 import { setGlobalDispatcher, Agent } from "undici";
@@ -33,7 +33,6 @@ import { BN } from "bn.js";
 import {
   DEFAULT_COMMITMENT,
   DEFAULT_FINALITY,
-  buildTx,
   calculateWithSlippageBuy,
   calculateWithSlippageSell,
   sendTx,
@@ -43,9 +42,11 @@ import { fetch } from "undici";
 import { createAssociatedTokenAccountInstruction, getAccount, getAssociatedTokenAddress } from "@/utils/spl-token";
 import { IDL } from "pumpdotfun-sdk/dist/cjs/IDL/index.js";
 import { PumpFun } from "pumpdotfun-sdk/dist/cjs/IDL/pump-fun.js";
+import { riskEngine } from "../services/trading/riskEngine.js";
 
 
 const PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+const SOL_MINT = "So11111111111111111111111111111111111111112";
 const MPL_TOKEN_METADATA_PROGRAM_ID =
   "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
 
@@ -64,63 +65,6 @@ export class PumpFunSDK {
     this.connection = this.program.provider.connection;
   }
 
-  async createAndBuy(
-    creator: Keypair,
-    mint: Keypair,
-    buyers: Keypair[],
-    createTokenMetadata: CreateTokenMetadata,
-    buyAmountSol: bigint,
-    priorityFees?: PriorityFee,
-    commitment: Commitment = DEFAULT_COMMITMENT,
-    finality: Finality = DEFAULT_FINALITY
-  ) {
-    let tokenMetadata = await this.createTokenMetadata(createTokenMetadata) as { metadataUri: string };
-
-    let createTx = await this.getCreateInstructions(
-      creator.publicKey,
-      createTokenMetadata.name,
-      createTokenMetadata.symbol,
-      tokenMetadata.metadataUri,
-      mint
-    );
-
-    let newTx = new Transaction().add(createTx);
-    let buyTxs: VersionedTransaction[] = [];
-
-    await buildTx(
-      this.connection,
-      newTx,
-      creator.publicKey,
-      [creator, mint],
-      priorityFees,
-      commitment,
-      finality
-    );
-    if (buyAmountSol > 0) {
-      for (let i = 0; i < buyers.length; i++) {
-        // This is building buy transaction code
-        // If you need it, contact me.
-        const buyVersionedTx = await buildTx(
-          this.connection,
-          new Transaction(), // Add the appropriate transaction here
-          buyers[i].publicKey,
-          [buyers[i]],
-          priorityFees,
-          commitment,
-          finality
-        );
-
-        buyTxs.push(buyVersionedTx);
-      }
-    }
-    let result;
-    
-    // This is jito bundling code.
-    // If you need it, contact me.
-
-    return result;
-  }
-
   async buy(
     buyer: Keypair,
     mint: PublicKey,
@@ -130,6 +74,13 @@ export class PumpFunSDK {
     commitment: Commitment = DEFAULT_COMMITMENT,
     finality: Finality = DEFAULT_FINALITY
   ): Promise<TransactionResult> {
+    await riskEngine.checkTrade({
+      inputMint: SOL_MINT,
+      outputMint: mint.toBase58(),
+      amount: Number(buyAmountSol) / LAMPORTS_PER_SOL,
+      source: "pump.fun buy",
+    });
+
     let buyTx = await this.getBuyInstructionsBySolAmount(
       buyer.publicKey,
       mint,
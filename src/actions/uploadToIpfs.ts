@@ -7,7 +7,7 @@ import { TokenMetadata } from './metadata.js';
 
 dotenv.config();
 
-interface UploadMetadata {
+export interface UploadMetadata {
   name: string;
   symbol: string;
   description: string;
@@ -19,6 +19,8 @@ interface UploadMetadata {
   website?: string;
 }
 
+export const IPFS_GATEWAY = 'https://cf-ipfs.com/ipfs';
+
 const apiKey = process.env.FLEEK_API_KEY || '';
 const imageName = "./upload/bolt.jpg";
 const metadataName = "./upload/metadata.json";
@@ -32,36 +34,46 @@ export async function uploadFileToIPFS(filename: string, content: Buffer) {
   return result;
 }
 
+// Upload an image and return its gateway URL
+export async function uploadImageToIPFS(content: Buffer, filename: string = imageName): Promise<string> {
+  const imageUploadResult = await uploadFileToIPFS(filename, content);
+  console.log('Image uploaded to IPFS:', imageUploadResult);
+  console.log('IPFS URL:', `${IPFS_GATEWAY}/${imageUploadResult.hash}`);
+  return `${IPFS_GATEWAY}/${imageUploadResult.hash}`;
+}
+
+// Upload token metadata JSON whose image is already on IPFS and return its gateway URL
+export async function uploadMetadataToIPFS(metadata: UploadMetadata): Promise<string> {
+  const data: UploadMetadata = {
+    name: metadata.name,
+    symbol: metadata.symbol,
+    description: metadata.description,
+    image: metadata.image,
+    showName: metadata.showName,
+    createdOn: metadata.createdOn || new Date().toISOString(),
+    twitter: metadata.twitter,
+    telegram: metadata.telegram,
+    website: metadata.website
+  };
+
+  const metadataString = JSON.stringify(data);
+  const bufferContent = Buffer.from(metadataString, 'utf-8');
+  fs.writeFileSync(metadataName, bufferContent);
+  const metadataContent = fs.readFileSync(metadataName);
+
+  const metadataUploadResult = await uploadFileToIPFS(metadataName, metadataContent);
+  console.log('File uploaded to IPFS:', metadataUploadResult);
+  console.log('IPFS URL:', `${IPFS_GATEWAY}/${metadataUploadResult.hash}`);
+
+  return `${IPFS_GATEWAY}/${metadataUploadResult.hash}`;
+}
+
 export const getUploadedMetadataURI = async (metadata: UploadMetadata): Promise<string> => {
   const fileContent = fs.readFileSync(imageName);
 
   try {
-    const imageUploadResult = await uploadFileToIPFS(imageName, fileContent);
-    console.log('Image uploaded to IPFS:', imageUploadResult);
-    console.log('IPFS URL:', `https://cf-ipfs.com/ipfs/${imageUploadResult.hash}`);
-
-    const data: UploadMetadata = {
-      name: metadata.name,
-      symbol: metadata.symbol,
-      description: metadata.description,
-      image: `https://cf-ipfs.com/ipfs/${imageUploadResult.hash}`,
-      showName: metadata.showName,
-      createdOn: metadata.createdOn || new Date().toISOString(),
-      twitter: metadata.twitter,
-      telegram: metadata.telegram,
-      website: metadata.website
-    };
-
-    const metadataString = JSON.stringify(data);
-    const bufferContent = Buffer.from(metadataString, 'utf-8');
-    fs.writeFileSync(metadataName, bufferContent);
-    const metadataContent = fs.readFileSync(metadataName);
-
-    const metadataUploadResult = await uploadFileToIPFS(metadataName, metadataContent);
-    console.log('File uploaded to IPFS:', metadataUploadResult);
-    console.log('IPFS URL:', `https://cf-ipfs.com/ipfs/${metadataUploadResult.hash}`);
-    
-    return `https://cf-ipfs.com/ipfs/${metadataUploadResult.hash}`;
+    const image = await uploadImageToIPFS(fileContent);
+    return await uploadMetadataToIPFS({ ...metadata, image });
   } catch (error) {
     console.error('Error uploading to IPFS:', error);
     return "";
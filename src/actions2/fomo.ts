@@ -7,7 +7,6 @@ import {
 } from "@solana/web3.js";
 import { Fomo, PurchaseCurrency } from "fomo-sdk-solana";
 
-import bs58 from "bs58";
 import {
     settings,
     ActionExample,
@@ -23,13 +22,14 @@ import {
 } from "@elizaos/core";
 
 import { walletProvider } from "../providers/wallet.js";
+import {
+    FomoLaunchVenue,
+    createLaunchPipeline,
+} from "../services/blockchain/defi/launchVenues.js";
 import { getAssociatedTokenAddress } from "@/utils/spl-token";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 
-interface CreateTokenMetadata {
-    name: string;
-    symbol: string;
-    uri: string;
-}
+const SOL_MINT = "So11111111111111111111111111111111111111112";
 
 export interface CreateAndBuyContent extends Content {
     tokenMetadata: {
@@ -59,117 +59,6 @@ export function isCreateAndBuyContentForFomo(
     );
 }
 
-export const createAndBuyToken = async ({
-    deployer,
-    mint,
-    tokenMetadata,
-    buyAmountSol,
-    priorityFee,
-    requiredLiquidity = 85,
-    commitment = "finalized",
-    fomo,
-    connection,
-}: {
-    deployer: Keypair;
-    mint: Keypair;
-    tokenMetadata: CreateTokenMetadata;
-    buyAmountSol: bigint;
-    priorityFee: number;
-    requiredLiquidity: number;
-    commitment?:
-        | "processed"
-        | "confirmed"
-        | "finalized"
-        | "recent"
-        | "single"
-        | "singleGossip"
-        | "root"
-        | "max";
-    fomo: Fomo;
-    connection: Connection;
-    slippage: string;
-}) => {
-    const { transaction: versionedTx } = await fomo.createToken(
-        deployer.publicKey,
-        tokenMetadata.name,
-        tokenMetadata.symbol,
-        tokenMetadata.uri,
-        priorityFee,
-        bs58.encode(mint.secretKey),
-        requiredLiquidity,
-        Number(buyAmountSol) / 10 ** 9
-    );
-
-    const { blockhash, lastValidBlockHeight } =
-        await connection.getLatestBlockhash();
-    versionedTx.message.recentBlockhash = blockhash;
-    versionedTx.sign([mint]);
-
-    const serializedTransaction = versionedTx.serialize();
-    const serializedTransactionBase64 = Buffer.from(
-        serializedTransaction
-    ).toString("base64");
-
-    const deserializedTx = VersionedTransaction.deserialize(
-        Buffer.from(serializedTransactionBase64, "base64")
-    );
-
-    const txid = await connection.sendTransaction(deserializedTx, {
-        skipPreflight: false,
-        maxRetries: 3,
-        preflightCommitment: "confirmed",
-    });
-
-    console.log("Transaction sent:", txid);
-
-    // Confirm transaction using the blockhash
-    const confirmation = await connection.confirmTransaction(
-        {
-            signature: txid,
-            blockhash: blockhash,
-            lastValidBlockHeight: lastValidBlockHeight,
-        },
-        commitment
-    );
-
-    if (!confirmation.value.err) {
-        console.log(
-            "Success:",
-            `https://fomo.fund/token/${mint.publicKey.toBase58()}`
-        );
-        const ata = await getAssociatedTokenAddress(
-            mint.publicKey,
-            deployer.publicKey
-        );
-        const balance = await connection.getTokenAccountBalance(
-            ata,
-            "processed"
-        );
-        const amount = balance.value.uiAmount;
-        if (amount === null) {
-            console.log(
-                `${deployer.publicKey.toBase58()}:`,
-                "No Account Found"
-            );
-        } else {
-            console.log(`${deployer.publicKey.toBase58()}:`, amount);
-        }
-
-        return {
-            success: true,
-            ca: mint.publicKey.toBase58(),
-            creator: deployer.publicKey.toBase58(),
-        };
-    } else {
-        console.log("Create and Buy failed");
-        return {
-            success: false,
-            ca: mint.publicKey.toBase58(),
-            error: confirmation.value.err || "Transaction failed",
-        };
-    }
-};
-
 export const buyToken = async ({
     fomo,
     buyer,
@@ -467,56 +356,23 @@ export default {
         }
 
         const imageBuffer = Buffer.from(imageResult.data[0], "base64");
-        const formData = new FormData();
-        const blob = new Blob([imageBuffer], { type: "image/png" });
-        formData.append("file", blob, `${tokenMetadata.name}.png`);
-        formData.append("name", tokenMetadata.name);
-        formData.append("symbol", tokenMetadata.symbol);
-        formData.append("description", tokenMetadata.description);
-
-        // FIXME: does fomo.fund have an ipfs call?
-        const metadataResponse = await fetch("https://pump.fun/api/ipfs", {
-            method: "POST",
-            body: formData,
-        });
-        const metadataResponseJSON = (await metadataResponse.json()) as {
-            name: string;
-            symbol: string;
-            metadataUri: string | null;
-        };
-
-        if (!metadataResponseJSON.metadataUri) {
-            throw new Error("Metadata URI is null");
-        }
-
-        const fullTokenMetadata: CreateTokenMetadata = {
-            name: tokenMetadata.name,
-            symbol: tokenMetadata.symbol,
-            uri: metadataResponseJSON.metadataUri,
-        };
 
         // Default priority fee for high network load
         const priorityFee = {
             unitLimit: 100_000_000,
             unitPrice: 100_000,
         };
-        const slippage = "2000";
+        let activityId: string | undefined;
         try {
-            // Get private key from settings and create deployer keypair
-            const privateKeyString =
-                runtime.getSetting("SOLANA_PRIVATE_KEY") ??
-                runtime.getSetting("WALLET_PRIVATE_KEY");
-            if (!privateKeyString) {
-                throw new Error("Private key is null");
-            }
-            const secretKey = bs58.decode(privateKeyString);
-            const deployerKeypair = Keypair.fromSecretKey(secretKey);
-
-            // Generate new mint keypair
-            const mintKeypair = Keypair.generate();
-            console.log(
-                `Generated mint address: ${mintKeypair.publicKey.toBase58()}`
+            // The launch wallet signs, and the initial buy counts against its budget
+            const authorization = await walletRegistry.authorize(
+                "launch",
+                "launch",
+                { mint: SOL_MINT, amount: Number(buyAmountSol) },
+                "CREATE_AND_BUY_TOKEN"
             );
+            activityId = authorization.activityId;
+            const deployerKeypair = authorization.keypair;
 
             // Setup connection and SDK
             const connection = new Connection(settings.RPC_URL!, {
@@ -526,40 +382,58 @@ export default {
             });
 
             const sdk = new Fomo(connection, "devnet", deployerKeypair);
+            const pipeline = createLaunchPipeline({
+                connection,
+                deployer: deployerKeypair,
+                venues: [
+                    new FomoLaunchVenue(
+                        sdk,
+                        connection,
+                        Number(requiredLiquidity),
+                        priorityFee.unitPrice
+                    ),
+                ],
+                content: {
+                    generateMetadata: async () => tokenMetadata,
+                    generateImage: async () => imageBuffer,
+                },
+            });
             // const slippage = runtime.getSetting("SLIPPAGE");
 
             const createAndBuyConfirmation = await promptConfirmation();
             if (!createAndBuyConfirmation) {
                 console.log("Create and buy token canceled by user");
+                await walletRegistry.complete(activityId, {
+                    error: "Canceled by user",
+                });
                 return false;
             }
 
-            // Convert SOL to lamports (1 SOL = 1_000_000_000 lamports)
-            const lamports = Math.floor(Number(buyAmountSol) * 1_000_000_000);
-
-            console.log("Executing create and buy transaction...");
-            const result = await createAndBuyToken({
-                deployer: deployerKeypair,
-                mint: mintKeypair,
-                tokenMetadata: fullTokenMetadata,
-                buyAmountSol: BigInt(lamports),
-                priorityFee: priorityFee.unitPrice,
-                requiredLiquidity: Number(requiredLiquidity),
-
-                fomo: sdk,
-                connection,
-                slippage,
+            console.log("Executing token launch...");
+            const launch = await pipeline.launch({
+                venue: "fomo",
+                metadata: {
+                    name: tokenMetadata.name,
+                    symbol: tokenMetadata.symbol,
+                    description: tokenMetadata.description,
+                },
+                initialBuySol: Number(buyAmountSol),
             });
+            const success = launch.status === "completed";
+            await walletRegistry.complete(
+                activityId,
+                success ? {} : { error: launch.error || launch.status }
+            );
 
             if (callback) {
-                if (result.success) {
+                if (success) {
                     callback({
-                        text: `Token ${tokenMetadata.name} (${tokenMetadata.symbol}) created successfully!\nURL: https://fomo.fund/token/${result.ca}\nCreator: ${result.creator}\nView at: https://fomo.fund/token/${result.ca}`,
+                        text: `Token ${tokenMetadata.name} (${tokenMetadata.symbol}) created successfully!\nURL: https://fomo.fund/token/${launch.mint}\nCreator: ${deployerKeypair.publicKey.toBase58()}\nView at: https://fomo.fund/token/${launch.mint}`,
                         content: {
                             tokenInfo: {
                                 symbol: tokenMetadata.symbol,
-                                address: result.ca,
-                                creator: result.creator,
+                                address: launch.mint,
+                                creator: deployerKeypair.publicKey.toBase58(),
                                 name: tokenMetadata.name,
                                 description: tokenMetadata.description,
                                 timestamp: Date.now(),
@@ -568,27 +442,20 @@ export default {
                     });
                 } else {
                     callback({
-                        text: `Failed to create token: ${result.error}\nAttempted mint address: ${result.ca}`,
+                        text: `Failed to create token: ${launch.error}\nLaunch ${launch.id} can be resumed${launch.mint ? ` with mint ${launch.mint}` : ""}`,
                         content: {
-                            error: result.error,
-                            mintAddress: result.ca,
+                            error: launch.error,
+                            launchId: launch.id,
+                            mintAddress: launch.mint,
                         },
                     });
                 }
             }
-            //await trustScoreDb.addToken(tokenInfo);
-            /*
-                // Update runtime state
-                await runtime.updateState({
-                    ...state,
-                    lastCreatedToken: tokenInfo
-                });
-                */
-            // Log success message with token view URL
-            const successMessage = `Token created and purchased successfully! View at: https://fomo.fund/token/${mintKeypair.publicKey.toBase58()}`;
-            console.log(successMessage);
-            return result.success;
+            return success;
         } catch (error) {
+            if (activityId) {
+                await walletRegistry.complete(activityId, { error });
+            }
             if (callback) {
                 callback({
                     text: `Error during token creation: ${(error as Error).message}`,
@@ -1,8 +1,7 @@
-import { AnchorProvider } from "@coral-xyz/anchor";
-import { Wallet } from "@coral-xyz/anchor";
 import { generateImage } from "@elizaos/core";
 import { Connection, Keypair, PublicKey } from "@solana/web3.js";
-import { CreateTokenMetadata, PriorityFee, PumpFunSDK } from "pumpdotfun-sdk";
+import { PriorityFee, PumpFunSDK } from "pumpdotfun-sdk";
+import { createPumpFunLaunchPipeline } from "../services/blockchain/defi/launchVenues.js";
 
 import {
     settings,
@@ -19,6 +18,9 @@ import {
 } from "@elizaos/core";
 
 import { walletProvider } from "../providers/wallet.js";
+import { riskEngine } from "../services/trading/riskEngine.js";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
 
 
 export interface CreateAndBuyContent extends Content {
@@ -48,85 +50,6 @@ export function isCreateAndBuyContent(
     );
 }
 
-export const createAndBuyToken = async ({
-    deployer,
-    mint,
-    tokenMetadata,
-    buyAmountSol,
-    priorityFee,
-    commitment = "finalized",
-    sdk,
-    connection,
-    slippage,
-}: {
-    deployer: Keypair;
-    mint: Keypair;
-    tokenMetadata: CreateTokenMetadata;
-    buyAmountSol: bigint;
-    priorityFee: PriorityFee;
-    commitment?:
-        | "processed"
-        | "confirmed"
-        | "finalized"
-        | "recent"
-        | "single"
-        | "singleGossip"
-        | "root"
-        | "max";
-    sdk: PumpFunSDK;
-    connection: Connection;
-    slippage: string;
-}) => {
-    const createResults = await sdk.createAndBuy(
-        deployer,
-        mint,
-        tokenMetadata,
-        buyAmountSol,
-        BigInt(slippage),
-        priorityFee,
-        commitment
-    );
-
-    console.log("Create Results: ", createResults);
-
-    if (createResults.success) {
-        console.log(
-            "Success:",
-            `https://pump.fun/${mint.publicKey.toBase58()}`
-        );
-        const ata = await getAssociatedTokenAddress(
-            mint.publicKey,
-            deployer.publicKey
-        );
-        const balance = await connection.getTokenAccountBalance(
-            ata,
-            "processed"
-        );
-        const amount = balance.value.uiAmount;
-        if (amount === null) {
-            console.log(
-                `${deployer.publicKey.toBase58()}:`,
-                "No Account Found"
-            );
-        } else {
-            console.log(`${deployer.publicKey.toBase58()}:`, amount);
-        }
-
-        return {
-            success: true,
-            ca: mint.publicKey.toBase58(),
-            creator: deployer.publicKey.toBase58(),
-        };
-    } else {
-        console.log("Create and Buy failed");
-        return {
-            success: false,
-            ca: mint.publicKey.toBase58(),
-            error: createResults.error || "Transaction failed",
-        };
-    }
-};
-
 export const buyToken = async ({
     sdk,
     buyer,
@@ -144,6 +67,13 @@ export const buyToken = async ({
     slippage: string;
     connection: Connection;
 }) => {
+    await riskEngine.checkTrade({
+        inputMint: SOL_MINT,
+        outputMint: mint.toBase58(),
+        amount: Number(amount) / 1_000_000_000,
+        source: "pump.fun buy",
+    });
+
     const buyResults = await sdk.buy(
         buyer,
         mint,
@@ -228,10 +158,7 @@ const promptConfirmation = async (): Promise<boolean> => {
     return true;
 };
 
-// Save the base64 data to a file
-import * as fs from "fs";
-import * as path from "path";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 import { getAssociatedTokenAddress } from "@/utils/spl-token";
 
 const pumpfunTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
@@ -345,58 +272,28 @@ export default {
             throw new Error("Image generation failed");
         }
 
-        tokenMetadata.image_description = imageResult.data[0].replace(
-            /^data:image\/[a-z]+;base64,/,
-            ""
+        const image = Buffer.from(
+            imageResult.data[0].replace(/^data:image\/[a-z]+;base64,/, ""),
+            "base64"
         );
 
-        // Convert base64 string to Blob
-        const base64Data = tokenMetadata.image_description;
-        const outputPath = path.join(
-            process.cwd(),
-            `generated_image_${Date.now()}.txt`
-        );
-        fs.writeFileSync(outputPath, base64Data);
-        console.log(`Base64 data saved to: ${outputPath}`);
-
-        const byteCharacters = atob(base64Data);
-        const byteNumbers = new Array(byteCharacters.length);
-        for (let i = 0; i < byteCharacters.length; i++) {
-            byteNumbers[i] = byteCharacters.charCodeAt(i);
-        }
-        const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: "image/png" });
-
-        // Add the default decimals and convert file to Blob
-        const fullTokenMetadata: CreateTokenMetadata = {
-            name: tokenMetadata.name,
-            symbol: tokenMetadata.symbol,
-            description: tokenMetadata.description,
-            file: blob,
-        };
-
         // Default priority fee for high network load
         const priorityFee = {
             unitLimit: 100_000_000,
             unitPrice: 100_000,
         };
         const slippage = "2000";
+        let activityId: string | undefined;
         try {
-            // Get private key from settings and create deployer keypair
-            const { keypair: deployerKeypair } = await getWalletKey(
-                runtime,
-                true,
-                { requirePrivateKey: true, keyPath: '' }
-            );
-            if (!deployerKeypair) {
-                throw new Error("Deployer keypair is undefined");
-            }
-
-            // Generate new mint keypair
-            const mintKeypair = Keypair.generate();
-            console.log(
-                `Generated mint address: ${mintKeypair.publicKey.toBase58()}`
+            // The launch wallet signs, and the initial buy counts against its budget
+            const authorization = await walletRegistry.authorize(
+                "launch",
+                "launch",
+                { mint: SOL_MINT, amount: Number(buyAmountSol) },
+                "CREATE_AND_BUY_TOKEN"
             );
+            activityId = authorization.activityId;
+            const deployerKeypair = authorization.keypair;
 
             // Setup connection and SDK
             const connection = new Connection(settings.RPC_URL!, {
@@ -405,44 +302,52 @@ export default {
                 wsEndpoint: settings.RPC_URL!.replace("https", "wss"),
             });
 
-            const wallet = new Wallet(deployerKeypair);
-            const provider = new AnchorProvider(connection, wallet, {
-                commitment: "finalized",
+            const pipeline = createPumpFunLaunchPipeline({
+                connection,
+                deployer: deployerKeypair,
+                priorityFee,
+                slippageBps: BigInt(slippage),
+                content: {
+                    generateMetadata: async () => tokenMetadata,
+                    generateImage: async () => image,
+                },
             });
-            const sdk = new PumpFunSDK(provider);
             // const slippage = runtime.getSetting("SLIPPAGE");
 
             const createAndBuyConfirmation = await promptConfirmation();
             if (!createAndBuyConfirmation) {
                 console.log("Create and buy token canceled by user");
+                await walletRegistry.complete(activityId, {
+                    error: "Canceled by user",
+                });
                 return false;
             }
 
-            // Convert SOL to lamports (1 SOL = 1_000_000_000 lamports)
-            const lamports = Math.floor(Number(buyAmountSol) * 1_000_000_000);
-
-            console.log("Executing create and buy transaction...");
-            const result = await createAndBuyToken({
-                deployer: deployerKeypair,
-                mint: mintKeypair,
-                tokenMetadata: fullTokenMetadata,
-                buyAmountSol: BigInt(lamports),
-                priorityFee,
-
-                sdk,
-                connection,
-                slippage,
+            console.log("Executing token launch...");
+            const launch = await pipeline.launch({
+                venue: "pumpfun",
+                metadata: {
+                    name: tokenMetadata.name,
+                    symbol: tokenMetadata.symbol,
+                    description: tokenMetadata.description,
+                },
+                initialBuySol: Number(buyAmountSol),
             });
+            const success = launch.status === "completed";
+            await walletRegistry.complete(
+                activityId,
+                success ? {} : { error: launch.error || launch.status }
+            );
 
             if (callback) {
-                if (result.success) {
+                if (success) {
                     callback({
-                        text: `Token ${tokenMetadata.name} (${tokenMetadata.symbol}) created successfully!\nContract Address: ${result.ca}\nCreator: ${result.creator}\nView at: https://pump.fun/${result.ca}`,
+                        text: `Token ${tokenMetadata.name} (${tokenMetadata.symbol}) created successfully!\nContract Address: ${launch.mint}\nCreator: ${deployerKeypair.publicKey.toBase58()}\nView at: https://pump.fun/${launch.mint}`,
                         content: {
                             tokenInfo: {
                                 symbol: tokenMetadata.symbol,
-                                address: result.ca,
-                                creator: result.creator,
+                                address: launch.mint,
+                                creator: deployerKeypair.publicKey.toBase58(),
                                 name: tokenMetadata.name,
                                 description: tokenMetadata.description,
                                 timestamp: Date.now(),
@@ -451,27 +356,20 @@ export default {
                     });
                 } else {
                     callback({
-                        text: `Failed to create token: ${result.error}\nAttempted mint address: ${result.ca}`,
+                        text: `Failed to create token: ${launch.error}\nLaunch ${launch.id} can be resumed${launch.mint ? ` with mint ${launch.mint}` : ""}`,
                         content: {
-                            error: result.error,
-                            mintAddress: result.ca,
+                            error: launch.error,
+                            launchId: launch.id,
+                            mintAddress: launch.mint,
                         },
                     });
                 }
             }
-            //await trustScoreDb.addToken(tokenInfo);
-            /*
-                // Update runtime state
-                await runtime.updateState({
-                    ...state,
-                    lastCreatedToken: tokenInfo
-                });
-                */
-            // Log success message with token view URL
-            const successMessage = `Token created and purchased successfully! View at: https://pump.fun/${mintKeypair.publicKey.toBase58()}`;
-            console.log(successMessage);
-            return result.success;
+            return success;
         } catch (error) {
+            if (activityId) {
+                await walletRegistry.complete(activityId, { error });
+            }
             if (callback) {
                 callback({
                     text: `Error during token creation: ${(error as Error).message}`,
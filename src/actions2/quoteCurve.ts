@@ -0,0 +1,219 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import {
+    settings,
+    elizaLogger,
+    ActionExample,
+    Content,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    ModelClass,
+    State,
+    generateObjectDeprecated,
+    composeContext,
+    type Action,
+} from "@elizaos/core";
+
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
+import {
+    fetchCurveSimulator,
+    fetchTokenBalance,
+    formatBuyImpact,
+    formatExitSimulation,
+} from "../actions/curveSimulator.js";
+import { DEFAULT_DECIMALS } from "../actions/pumpfun.js";
+
+const BUY_IMPACTS = [0.05, 0.1, 0.25];
+
+export interface QuoteCurveContent extends Content {
+    tokenAddress: string;
+    sellPercent?: number | string | null;
+    tokenAmount?: number | string | null;
+    chunks?: number | string | null;
+}
+
+function isQuoteCurveContent(
+    _runtime: IAgentRuntime,
+    content: unknown
+): content is QuoteCurveContent {
+    elizaLogger.log("Content for curve quote", content);
+    return (
+        typeof content === "object" &&
+        content !== null &&
+        typeof (content as { tokenAddress?: unknown }).tokenAddress === "string"
+    );
+}
+
+const quoteCurveTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "tokenAddress": "BieefG47jAHCGZBxi2q87RDuHyGZyYC3vAzxpyu8pump",
+    "sellPercent": 40,
+    "tokenAmount": null,
+    "chunks": 1
+}
+\`\`\`
+
+{{recentMessages}}
+
+Given the recent messages, extract the following information about the requested pump.fun exit quote:
+- Token contract address
+- Percentage of the agent's balance to sell, if given
+- Amount of tokens to sell, if given instead of a percentage
+- Number of sells to split the exit into, if given
+
+Respond with a JSON markdown block containing only the extracted values.`;
+
+export default {
+    name: "QUOTE_PUMPFUN_EXIT",
+    similes: [
+        "QUOTE_PUMPFUN_CURVE",
+        "SIMULATE_PUMPFUN_SELL",
+        "QUOTE_EXIT",
+        "PRICE_IMPACT",
+    ],
+    validate: async (_runtime: IAgentRuntime, _message: Memory) => {
+        // Read only, nothing is signed
+        return true;
+    },
+    description:
+        "Simulate selling or buying a pump.fun token on its bonding curve and quote the SOL received and price impact before trading",
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: State,
+        _options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<boolean> => {
+        elizaLogger.log("Starting QUOTE_PUMPFUN_EXIT handler...");
+
+        // Initialize or update state
+        if (!state) {
+            state = (await runtime.composeState(message)) as State;
+        } else {
+            state = await runtime.updateRecentMessageState(state);
+        }
+
+        const quoteContext = composeContext({
+            state,
+            template: quoteCurveTemplate,
+        });
+
+        const content: unknown = await generateObjectDeprecated({
+            runtime,
+            context: quoteContext,
+            modelClass: ModelClass.SMALL,
+        });
+
+        if (!isQuoteCurveContent(runtime, content)) {
+            elizaLogger.error("Invalid content for QUOTE_PUMPFUN_EXIT action.");
+            if (callback) {
+                callback({
+                    text: "Unable to quote the curve. Invalid content provided.",
+                    content: { error: "Invalid curve quote content" },
+                });
+            }
+            return false;
+        }
+
+        try {
+            const connection = new Connection(settings.RPC_URL!);
+            const mint = new PublicKey(content.tokenAddress);
+
+            const simulator = await fetchCurveSimulator(connection, mint);
+            if (!simulator) {
+                throw new Error(`No pump.fun bonding curve found for ${content.tokenAddress}`);
+            }
+            if (simulator.complete) {
+                throw new Error("Curve is complete, the token trades on Raydium now");
+            }
+
+            let tokenAmount: bigint | null = null;
+            if (content.tokenAmount) {
+                tokenAmount = BigInt(
+                    Math.floor(Number(content.tokenAmount) * 10 ** DEFAULT_DECIMALS)
+                );
+            } else if (content.sellPercent) {
+                const publicKey = walletRegistry.getPublicKey("trading");
+                const balance = await fetchTokenBalance(connection, publicKey, mint);
+                const basisPoints = BigInt(Math.round(Number(content.sellPercent) * 100));
+                tokenAmount = (balance * basisPoints) / BigInt(10000);
+            }
+
+            const lines = [
+                `Price: ${simulator.getPrice().toExponential(4)} SOL per token`,
+                "SOL needed to move the price:",
+                formatBuyImpact(simulator, BUY_IMPACTS),
+            ];
+
+            let exit = null;
+            if (tokenAmount !== null) {
+                exit = simulator.clone().simulateExit(
+                    tokenAmount,
+                    Number(content.chunks) || 1
+                );
+                lines.push("Exit quote:", formatExitSimulation(exit));
+            }
+
+            if (callback) {
+                callback({
+                    text: lines.join("\n"),
+                    content: {
+                        success: true,
+                        tokenAddress: content.tokenAddress,
+                        price: simulator.getPrice(),
+                        solReceived: exit?.solReceived.toString(),
+                        priceImpact: exit?.priceImpact,
+                    },
+                });
+            }
+
+            return true;
+        } catch (error) {
+            elizaLogger.error("Error quoting bonding curve:", error);
+            if (callback) {
+                callback({
+                    text: `Error quoting bonding curve: ${(error as Error).message}`,
+                    content: { error: (error as Error).message },
+                });
+            }
+            return false;
+        }
+    },
+
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "What would I get for selling 40% of BieefG47jAHCGZBxi2q87RDuHyGZyYC3vAzxpyu8pump?",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Let me simulate that exit on the bonding curve",
+                    action: "QUOTE_PUMPFUN_EXIT",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Quote selling 2000000 of BieefG47jAHCGZBxi2q87RDuHyGZyYC3vAzxpyu8pump in 4 chunks",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Simulating four sells against the curve",
+                    action: "QUOTE_PUMPFUN_EXIT",
+                },
+            },
+        ],
+    ] as ActionExample[][],
+} as Action;
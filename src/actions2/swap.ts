@@ -12,10 +12,86 @@ import {
 } from "@elizaos/core";
 import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { BN } from "../utils/bignumber.js";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 import { walletProvider, WalletProvider } from "../providers/wallet.js";
 import { getTokenDecimals } from "./swapUtils.js";
 import { toBN, TEN } from "../utils/bignumber.js";
+import { isPaperTradingEnabled, paperTrading } from "../services/trading/paperTrading.js";
+import { TradeResult } from "../services/blockchain/defi/tradingEngine.js";
+import { riskEngine } from "../services/trading/riskEngine.js";
+import { RiskLimitError } from "../utils/error-handler.js";
+
+interface QuoteResponse {
+    error?: string;
+    inputMint: string;
+    outputMint: string;
+    inAmount: string;
+    outAmount: string;
+    amount: string;
+    otherAmountThreshold: string;
+    swapMode: string;
+    slippageBps: number;
+    platformFee: number;
+    priceImpactPct: number;
+    routePlan: Array<{
+        swapInfo: {
+            ammKey: string;
+            label?: string;
+            inputMint: string;
+            outputMint: string;
+            inAmount: string;
+            outAmount: string;
+            feeAmount: string;
+            feeMint: string;
+        };
+        percent: number;
+    }>;
+}
+
+async function fetchQuote(
+    connection: Connection,
+    inputTokenCA: string,
+    outputTokenCA: string,
+    amount: number
+): Promise<QuoteResponse> {
+    // Get the decimals for the input token
+    const decimals =
+        inputTokenCA === settings.SOL_ADDRESS
+            ? toBN(9)
+            : toBN(await getTokenDecimals(connection, inputTokenCA));
+
+    console.log("Decimals:", decimals.toString());
+
+    // Use BigNumber for adjustedAmount: amount * (10 ** decimals)
+    const amountBN = toBN(amount);
+    const adjustedAmount = amountBN.multipliedBy(
+        TEN.pow(decimals)
+    );
+
+    console.log("Fetching quote with params:", {
+        inputMint: inputTokenCA,
+        outputMint: outputTokenCA,
+        amount: adjustedAmount,
+    });
+
+    const quoteResponse = await fetch(
+        `https://quote-api.jup.ag/v6/quote?inputMint=${inputTokenCA}&outputMint=${outputTokenCA}&amount=${adjustedAmount}&slippageBps=50`
+    );
+
+    const quoteData = await quoteResponse.json() as QuoteResponse;
+
+    if (!quoteData) {
+        throw new Error("Failed to get quote: No response data");
+    }
+
+    if (quoteData.error) {
+        console.error("Quote error:", quoteData);
+        throw new Error(`Failed to get quote: ${quoteData.error}`);
+    }
+
+    console.log("Quote received:", quoteData);
+    return quoteData;
+}
 
 async function swapToken(
     connection: Connection,
@@ -25,45 +101,13 @@ async function swapToken(
     amount: number
 ): Promise<any> {
     try {
-        // Get the decimals for the input token
-        const decimals =
-            inputTokenCA === settings.SOL_ADDRESS
-                ? toBN(9)
-                : toBN(await getTokenDecimals(connection, inputTokenCA));
-
-        console.log("Decimals:", decimals.toString());
-
-        // Use BigNumber for adjustedAmount: amount * (10 ** decimals)
-        const amountBN = toBN(amount);
-        const adjustedAmount = amountBN.multipliedBy(
-            TEN.pow(decimals)
+        const quoteData = await fetchQuote(
+            connection,
+            inputTokenCA,
+            outputTokenCA,
+            amount
         );
 
-        console.log("Fetching quote with params:", {
-            inputMint: inputTokenCA,
-            outputMint: outputTokenCA,
-            amount: adjustedAmount,
-        });
-
-        const quoteResponse = await fetch(
-            `https://quote-api.jup.ag/v6/quote?inputMint=${inputTokenCA}&outputMint=${outputTokenCA}&amount=${adjustedAmount}&slippageBps=50`
-        );
-        interface QuoteResponse {
-            error?: string;
-            inputMint: string;
-            outputMint: string;
-            amount: string;
-            otherAmountThreshold: string;
-            swapMode: string;
-            slippageBps: number;
-            platformFee: number;
-            priceImpactPct: number;
-            routePlan: Array<{
-                swapInfo: any;
-                percent: number;
-            }>;
-        }
-
         interface SwapRequestBody {
             quoteResponse: QuoteResponse;
             userPublicKey: string;
@@ -72,19 +116,6 @@ async function swapToken(
             dynamicComputeUnitLimit: boolean;
         }
 
-        const quoteData = await quoteResponse.json() as QuoteResponse;
-
-        if (!quoteData) {
-            throw new Error("Failed to get quote: No response data");
-        }
-
-        if (quoteData.error) {
-            console.error("Quote error:", quoteData);
-            throw new Error(`Failed to get quote: ${quoteData.error}`);
-        }
-
-        console.log("Quote received:", quoteData);
-
         const swapRequestBody: SwapRequestBody = {
             quoteResponse: quoteData,
             userPublicKey: walletPublicKey.toString(),
@@ -127,6 +158,39 @@ async function swapToken(
     }
 }
 
+/**
+ * Settle the swap against virtual balances instead of signing a transaction.
+ * Uses the live Jupiter quote when available, otherwise current prices.
+ */
+async function paperSwap(
+    connection: Connection,
+    inputTokenCA: string,
+    outputTokenCA: string,
+    amount: number
+): Promise<TradeResult> {
+    let quote: QuoteResponse | null = null;
+    try {
+        quote = await fetchQuote(connection, inputTokenCA, outputTokenCA, amount);
+    } catch (error) {
+        console.warn("Paper swap quote unavailable, filling at market price:", error);
+    }
+
+    const outputDecimals = quote?.outAmount
+        ? await paperTrading.getDecimals(outputTokenCA)
+        : 0;
+
+    return paperTrading.fill({
+        inputMint: inputTokenCA,
+        outputMint: outputTokenCA,
+        amount,
+        expectedOutput: quote?.outAmount
+            ? Number(quote.outAmount) / 10 ** outputDecimals
+            : undefined,
+        priceImpact: Number(quote?.priceImpactPct) || 0,
+        route: quote?.routePlan?.map((step) => step.swapInfo.label ?? step.swapInfo.ammKey),
+    });
+}
+
 const swapTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
 
 Example response:
@@ -168,10 +232,7 @@ Respond with a JSON markdown block containing only the extracted values. Use nul
 
 // get all the tokens in the wallet using the wallet provider
 async function getTokensInWallet(runtime: IAgentRuntime) {
-    const { publicKey } = await getWalletKey(runtime, false, { requirePrivateKey: false, publicKeyString: '' });
-    if (!publicKey) {
-        throw new Error("Wallet public key is undefined");
-    }
+    const publicKey = walletRegistry.getPublicKey("trading");
     const walletProvider = new WalletProvider(
         new Connection("https://api.mainnet-beta.solana.com"),
         publicKey
@@ -313,91 +374,109 @@ export const executeSwap: Action = {
             return true;
         }
         try {
+            await riskEngine.checkTrade({
+                inputMint: response.inputTokenCA as string,
+                outputMint: response.outputTokenCA as string,
+                amount: Number(response.amount),
+                source: "EXECUTE_SWAP",
+            });
+
             const connection = new Connection(
                 "https://api.mainnet-beta.solana.com"
             );
-            const { publicKey: walletPublicKey } = await getWalletKey(
-                runtime,
-                false,
-                { requirePrivateKey: false, publicKeyString: '' }
-            );
-            if (!walletPublicKey) {
-                throw new Error("Wallet public key is undefined");
-            }
-
-            // const provider = new WalletProvider(connection, walletPublicKey);
-
-            console.log("Wallet Public Key:", walletPublicKey);
-            console.log("inputTokenSymbol:", response.inputTokenCA);
-            console.log("outputTokenSymbol:", response.outputTokenCA);
-            console.log("amount:", response.amount);
-
-            const swapResult = await swapToken(
-                connection,
-                walletPublicKey,
-                response.inputTokenCA as string,
-                response.outputTokenCA as string,
-                response.amount as number
-            );
 
-            console.log("Deserializing transaction...");
-            const transactionBuf = Buffer.from(
-                swapResult.swapTransaction,
-                "base64"
-            );
-            const transaction =
-                VersionedTransaction.deserialize(transactionBuf);
-
-            console.log("Preparing to sign transaction...");
-
-            const { keypair } = await getWalletKey(runtime, true, { requirePrivateKey: true, keyPath: '' });
-            if (!keypair) {
-                throw new Error("Keypair is undefined");
-            }
-            // Verify the public key matches what we expect
-            if (keypair.publicKey.toBase58() !== walletPublicKey.toBase58()) {
-                throw new Error(
-                    "Generated public key doesn't match expected public key"
+            if (
+                isPaperTradingEnabled() ||
+                runtime.getSetting("PAPER_TRADING") === "true"
+            ) {
+                const result = await paperSwap(
+                    connection,
+                    response.inputTokenCA as string,
+                    response.outputTokenCA as string,
+                    Number(response.amount)
                 );
-            }
 
-            console.log("Signing transaction...");
-            transaction.sign([keypair]);
+                console.log("Paper swap filled:", result);
 
-            console.log("Sending transaction...");
+                callback?.({
+                    text: `Paper swap completed: ${result.inputAmount} ${response.inputTokenSymbol || response.inputTokenCA} for ${result.outputAmount.toFixed(6)} ${response.outputTokenSymbol || response.outputTokenCA}. Simulated trade ID: ${result.id}`,
+                });
 
-            const latestBlockhash = await connection.getLatestBlockhash();
-
-            const txid = await connection.sendTransaction(transaction, {
-                skipPreflight: false,
-                maxRetries: 3,
-                preflightCommitment: "confirmed",
-            });
-
-            console.log("Transaction sent:", txid);
+                return true;
+            }
 
-            // Confirm transaction using the blockhash
-            const confirmation = await connection.confirmTransaction(
+            // Signed by the trading wallet, counted against its budget
+            const txid = await walletRegistry.useWallet(
+                "trading",
+                "swap",
                 {
-                    signature: txid,
-                    blockhash: latestBlockhash.blockhash,
-                    lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+                    mint: response.inputTokenCA as string,
+                    amount: Number(response.amount),
+                },
+                async (keypair) => {
+                    const walletPublicKey = keypair.publicKey;
+
+                    // const provider = new WalletProvider(connection, walletPublicKey);
+
+                    console.log("Wallet Public Key:", walletPublicKey);
+                    console.log("inputTokenSymbol:", response.inputTokenCA);
+                    console.log("outputTokenSymbol:", response.outputTokenCA);
+                    console.log("amount:", response.amount);
+
+                    const swapResult = await swapToken(
+                        connection,
+                        walletPublicKey,
+                        response.inputTokenCA as string,
+                        response.outputTokenCA as string,
+                        response.amount as number
+                    );
+
+                    console.log("Deserializing transaction...");
+                    const transactionBuf = Buffer.from(
+                        swapResult.swapTransaction,
+                        "base64"
+                    );
+                    const transaction =
+                        VersionedTransaction.deserialize(transactionBuf);
+
+                    console.log("Preparing to sign transaction...");
+
+                    console.log("Signing transaction...");
+                    transaction.sign([keypair]);
+
+                    console.log("Sending transaction...");
+
+                    const latestBlockhash = await connection.getLatestBlockhash();
+
+                    const txid = await connection.sendTransaction(transaction, {
+                        skipPreflight: false,
+                        maxRetries: 3,
+                        preflightCommitment: "confirmed",
+                    });
+
+                    console.log("Transaction sent:", txid);
+
+                    // Confirm transaction using the blockhash
+                    const confirmation = await connection.confirmTransaction(
+                        {
+                            signature: txid,
+                            blockhash: latestBlockhash.blockhash,
+                            lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+                        },
+                        "confirmed"
+                    );
+
+                    if (confirmation.value.err) {
+                        throw new Error(
+                            `Transaction failed: ${confirmation.value.err}`
+                        );
+                    }
+
+                    return txid;
                 },
-                "confirmed"
+                "EXECUTE_SWAP"
             );
 
-            if (confirmation.value.err) {
-                throw new Error(
-                    `Transaction failed: ${confirmation.value.err}`
-                );
-            }
-
-            if (confirmation.value.err) {
-                throw new Error(
-                    `Transaction failed: ${confirmation.value.err}`
-                );
-            }
-
             console.log("Swap completed successfully!");
             console.log(`Transaction ID: ${txid}`);
 
@@ -409,6 +488,13 @@ export const executeSwap: Action = {
 
             return true;
         } catch (error) {
+            if (error instanceof RiskLimitError) {
+                callback?.({
+                    text: `Swap blocked by risk limits: ${error.message}`,
+                    content: { limit: error.limit, details: error.details },
+                });
+                return false;
+            }
             console.error("Error during token swap:", error);
             return false;
         }
@@ -6,7 +6,7 @@ import {
 } from "@elizaos/core";
 import { Connection, Keypair, PublicKey, Transaction } from "@solana/web3.js";
 import { getQuote, QuoteData } from "./swapUtils.js";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 
 async function invokeSwapDao(
     connection: Connection,
@@ -69,27 +69,12 @@ export const executeSwapForDAO: Action = {
                 runtime.getSetting("RPC_URL") as string
             );
 
-            const { keypair: authority } = await getWalletKey(runtime, true, { requirePrivateKey: true, keyPath: '' });
-            if (!authority) {
-                throw new Error("Authority keypair is undefined");
-            }
-
             const daoMintSetting = runtime.getSetting("DAO_MINT");
             if (!daoMintSetting) {
                 throw new Error("DAO mint address is null");
             }
             const daoMint = new PublicKey(daoMintSetting); // DAO mint address
 
-            // Derive PDAs
-            const [statePDA] = await PublicKey.findProgramAddress(
-                [Buffer.from("state"), daoMint.toBuffer()],
-                authority.publicKey
-            );
-            const [walletPDA] = await PublicKey.findProgramAddress(
-                [Buffer.from("wallet"), daoMint.toBuffer()],
-                authority.publicKey
-            );
-
             const quoteData = (await getQuote(
                 connection as Connection,
                 inputToken as string,
@@ -109,21 +94,40 @@ export const executeSwapForDAO: Action = {
                 return false;
             }
 
-            // Prepare instruction data for swap
-            const instructionData = Buffer.from(
-                JSON.stringify({
-                    quote: quoteData,
-                    userPublicKey: authority.publicKey.toString(),
-                    wrapAndUnwrapSol: true,
-                })
-            );
-
-            const txid = await invokeSwapDao(
-                connection,
-                authority,
-                statePDA,
-                walletPDA,
-                instructionData
+            // Signed by the trading wallet, counted against its swap budget
+            const txid = await walletRegistry.useWallet(
+                "trading",
+                "swap",
+                { mint: inputToken as string, amount: Number(amount) },
+                async (authority) => {
+                    // Derive PDAs
+                    const [statePDA] = await PublicKey.findProgramAddress(
+                        [Buffer.from("state"), daoMint.toBuffer()],
+                        authority.publicKey
+                    );
+                    const [walletPDA] = await PublicKey.findProgramAddress(
+                        [Buffer.from("wallet"), daoMint.toBuffer()],
+                        authority.publicKey
+                    );
+
+                    // Prepare instruction data for swap
+                    const instructionData = Buffer.from(
+                        JSON.stringify({
+                            quote: quoteData,
+                            userPublicKey: authority.publicKey.toString(),
+                            wrapAndUnwrapSol: true,
+                        })
+                    );
+
+                    return invokeSwapDao(
+                        connection,
+                        authority,
+                        statePDA,
+                        walletPDA,
+                        instructionData
+                    );
+                },
+                "swapDao"
             );
 
             console.log("DAO Swap completed successfully!");
@@ -21,7 +21,7 @@ import {
     type Action,
 } from "@elizaos/core";
 import { composeContext } from "@elizaos/core";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 import { generateObjectDeprecated } from "@elizaos/core";
 import { createTransferInstruction, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction } from "@/utils/spl-token";
 
@@ -136,15 +136,20 @@ export default {
             return false;
         }
 
+        let activityId: string | undefined;
         try {
-            const { keypair: senderKeypair } = await getWalletKey(
-                runtime,
-                true,
-                { requirePrivateKey: true, keyPath: '' }
+            // Counted against the trading wallet's budget until it completes
+            const authorization = await walletRegistry.authorize(
+                "trading",
+                "transfer",
+                {
+                    mint: content.tokenAddress,
+                    amount: Number(content.amount),
+                },
+                "SEND_TOKEN"
             );
-            if (!senderKeypair) {
-                throw new Error("Sender keypair is undefined");
-            }
+            activityId = authorization.activityId;
+            const senderKeypair = authorization.keypair;
 
             const connection = new Connection(settings.RPC_URL!);
 
@@ -221,6 +226,7 @@ export default {
             const signature = await connection.sendTransaction(transaction);
 
             console.log("Transfer successful:", signature);
+            await walletRegistry.complete(activityId, { signature });
 
             if (callback) {
                 callback({
@@ -237,6 +243,9 @@ export default {
             return true;
         } catch (error) {
             console.error("Error during token transfer:", error);
+            if (activityId) {
+                await walletRegistry.complete(activityId, { error });
+            }
             if (callback) {
                 callback({
                     text: `Error transferring tokens: ${(error as Error).message}`,
@@ -0,0 +1,131 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+
+import { resolveTokenMint, tokenSymbols } from "../helper/tokenList.js";
+import {
+  createScheduleReport,
+  executionScheduler,
+  formatScheduleReport,
+} from "../services/trading/executionScheduler.js";
+
+const priceBandFields = {
+  minPrice: z
+    .number()
+    .optional()
+    .describe("Only execute while the token's USD price is at or above this"),
+  maxPrice: z
+    .number()
+    .optional()
+    .describe("Only execute while the token's USD price is at or below this"),
+};
+
+const toPriceBand = (minPrice?: number, maxPrice?: number) =>
+  minPrice === undefined && maxPrice === undefined
+    ? undefined
+    : { min: minPrice, max: maxPrice };
+
+const errorMessage = (error: unknown) =>
+  `Error: ${error instanceof Error ? error.message : String(error)}`;
+
+export const createDcaScheduleTool = tool(
+  async ({ inputToken, outputToken, amountPerOrder, intervalMinutes, orders, minPrice, maxPrice }) => {
+    try {
+      const schedule = await executionScheduler.createDca({
+        inputMint: resolveTokenMint(inputToken),
+        outputMint: resolveTokenMint(outputToken),
+        amountPerOrder,
+        intervalMinutes,
+        orders,
+        priceBand: toPriceBand(minPrice, maxPrice),
+        source: "transferSwapNode",
+      });
+      return `Created ${formatScheduleReport(createScheduleReport(schedule), tokenSymbols)}`;
+    } catch (error) {
+      return errorMessage(error);
+    }
+  },
+  {
+    name: "create_dca_schedule",
+    description:
+      "Dollar cost average: swap a fixed amount of the input token into the output token every N minutes for a number of orders",
+    schema: z.object({
+      inputToken: z.string().describe("Ticker or mint address of the token spent"),
+      outputToken: z.string().describe("Ticker or mint address of the token bought"),
+      amountPerOrder: z.number().describe("Amount of the input token per order"),
+      intervalMinutes: z.number().describe("Minutes between orders"),
+      orders: z.number().int().describe("Number of orders"),
+      ...priceBandFields,
+    }),
+  },
+);
+
+export const createTwapScheduleTool = tool(
+  async ({ inputToken, outputToken, totalAmount, durationMinutes, slices, minPrice, maxPrice }) => {
+    try {
+      const schedule = await executionScheduler.createTwap({
+        inputMint: resolveTokenMint(inputToken),
+        outputMint: resolveTokenMint(outputToken),
+        totalAmount,
+        durationMinutes,
+        slices,
+        priceBand: toPriceBand(minPrice, maxPrice),
+        source: "transferSwapNode",
+      });
+      return `Created ${formatScheduleReport(createScheduleReport(schedule), tokenSymbols)}`;
+    } catch (error) {
+      return errorMessage(error);
+    }
+  },
+  {
+    name: "create_twap_schedule",
+    description:
+      "Time weighted average price: split swapping a total amount of the input token into the output token evenly over a time window",
+    schema: z.object({
+      inputToken: z.string().describe("Ticker or mint address of the token spent"),
+      outputToken: z.string().describe("Ticker or mint address of the token bought"),
+      totalAmount: z.number().describe("Total amount of the input token to swap"),
+      durationMinutes: z.number().describe("Length of the window in minutes"),
+      slices: z.number().int().optional().describe("Number of swaps to split into"),
+      ...priceBandFields,
+    }),
+  },
+);
+
+export const manageExecutionScheduleTool = tool(
+  async ({ action, scheduleId }) => {
+    try {
+      if (action === "list") {
+        const schedules = await executionScheduler.list();
+        return schedules.length
+          ? schedules
+            .map((schedule) => formatScheduleReport(createScheduleReport(schedule), tokenSymbols))
+            .join("\n")
+          : "No DCA or TWAP schedules";
+      }
+      if (!scheduleId) {
+        return `Error: a schedule id is needed to ${action} a schedule`;
+      }
+      if (action !== "status") {
+        await executionScheduler[action](scheduleId);
+      }
+      return formatScheduleReport(await executionScheduler.getReport(scheduleId), tokenSymbols);
+    } catch (error) {
+      return errorMessage(error);
+    }
+  },
+  {
+    name: "manage_execution_schedule",
+    description:
+      "List DCA/TWAP schedules, or show the fills, average price and remaining amount of one, or pause, resume or cancel it",
+    schema: z.object({
+      action: z.enum(["list", "status", "pause", "resume", "cancel"]),
+      scheduleId: z.string().optional(),
+    }),
+  },
+);
+
+export const scheduleTools = [
+  createDcaScheduleTool,
+  createTwapScheduleTool,
+  manageExecutionScheduleTool,
+];
@@ -1,6 +1,7 @@
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
 import { SolanaTransferTool } from "solana-agent-kit/dist/langchain";
 import { transferSwapPrompt } from "../prompts/transferSwap.js";
+import { scheduleTools } from "./scheduleTools.js";
 
 
 import { agentKit } from "@/utils/solanaAgent.js";
@@ -12,7 +13,7 @@ const groq = new ChatGroq({ apiKey: process.env.GROQ_API_KEY! });
 const transferOrSwapAgent = createReactAgent({
   stateModifier: transferSwapPrompt,
   llm: groq,
-  tools: [new SolanaTransferTool(agentKit)],
+  tools: [new SolanaTransferTool(agentKit), ...scheduleTools],
 });
 
 export const transferSwapNode = async (
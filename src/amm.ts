@@ -5,13 +5,15 @@ import { ChatGroq } from "@langchain/groq"; // Updated import
 import * as dotenv from "dotenv";
 import * as fs from "fs";
 import * as readline from "readline";
-import { SolanaAgentKit, createSolanaTools } from "solana-agent-kit"; 
+import { createSolanaTools } from "solana-agent-kit";
+import { BudgetedSolanaAgentKit } from "./utils/solanaAgent.js";
 
 dotenv.config();
 
 function validateEnvironment(): void {
   const missingVars: string[] = [];
-  const requiredVars = ["GROQ_API_KEY", "RPC_URL", "SOLANA_PRIVATE_KEY"];
+  // The agent signs with the trading wallet from the wallet registry
+  const requiredVars = ["GROQ_API_KEY", "RPC_URL"];
 
   requiredVars.forEach((varName) => {
     if (!process.env[varName]) {
@@ -50,11 +52,7 @@ async function initializeAgent() {
       }
     }
 
-    const solanaAgentKitInstance = new SolanaAgentKit(
-      process.env.SOLANA_PRIVATE_KEY!,
-      process.env.RPC_URL!,
-      process.env.GROQ_API_KEY!
-    );
+    const solanaAgentKitInstance = new BudgetedSolanaAgentKit("trading", process.env.RPC_URL!);
     const tools = createSolanaTools(solanaAgentKitInstance);
 
     const memory = new MemorySaver();
@@ -15,7 +15,7 @@ import { TrustScoreManager } from "../providers/trustScoreProvider.js";
 import { TokenProvider } from "../providers/token.js";
 import { TrustScoreDatabase } from "@elizaos/plugin-trustdb";
 import { Connection } from "@solana/web3.js";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 import { WalletProvider } from "../../src/providers/wallet";
 
 const shouldProcessTemplate =
@@ -145,10 +145,7 @@ async function handler(runtime: IAgentRuntime, message: Memory) {
         );
     });
 
-    const { publicKey } = await getWalletKey(runtime, false, { requirePrivateKey: false, publicKeyString: '' });
-    if (!publicKey) {
-        throw new Error("Public key is undefined");
-    }
+    const publicKey = walletRegistry.getPublicKey("trading");
 
     for (const rec of filteredRecommendations) {
         // create the wallet provider and token provider
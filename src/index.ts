@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import type { Server } from 'http';
 import { TwitterApi } from 'twitter-api-v2';
 import { Client as DiscordClient, Message } from 'discord.js';
 import Groq from "groq-sdk";
@@ -15,6 +16,17 @@ import { StateGraph } from "@langchain/langgraph";
 import { SolanaAgentState, solanaAgentState } from "./utils/state.js";
 import { generalistNode } from "./agents/generalAgent.js";
 import { transferSwapNode } from "./agents/transferOrSwap.js";
+import { executionScheduler } from "./services/trading/executionScheduler.js";
+import { signalPerformance } from "./services/market/signals/signalPerformance.js";
+import { startStrategyTrading, StrategyEvaluator } from "./services/blockchain/defi/strategyEvaluator.js";
+import { TradingEngine, createTradingEngine } from "./services/blockchain/defi/tradingEngine.js";
+import { CopyTrader, startCopyTrading } from "./services/trading/copyTrader.js";
+import { PumpFunWatcher, startPumpFunWatcher } from "./services/blockchain/defi/pumpFunWatcher.js";
+import { PostQueue } from "./services/social/engagement/postQueue.js";
+import { PostQueueLaunchAnnouncer } from "./services/blockchain/defi/tokenLaunch.js";
+import { resumeLaunches, setLaunchAnnouncer } from "./services/blockchain/defi/launchVenues.js";
+import { LiquidityManager, createLiquidityManager } from "./services/blockchain/defi/liquidityManager.js";
+import { createServer } from "./server.js";
 import { managerNode } from "./agents/manager.js";
 import { readNode } from "./agents/readAgent.js";
 import { START, END } from "@langchain/langgraph";
@@ -48,6 +60,13 @@ interface ServiceConfig {
   jupiterPriceService?: JupiterPriceV2Service;
   jupiterPriceV2Service?: JupiterPriceV2Service;
   chatService?: any;
+  postQueue?: PostQueue;
+  tradingEngine?: TradingEngine;
+  strategyEvaluator?: StrategyEvaluator;
+  copyTrader?: CopyTrader;
+  pumpFunWatcher?: PumpFunWatcher;
+  liquidityManager?: LiquidityManager;
+  apiServer?: Server;
 }
 
 async function fetchTokenAddresses(): Promise<string[]> {
@@ -160,12 +179,15 @@ async function initializeServices() {
       }
     }, tokenProviderInstance, redisService as unknown as RedisService); // Remove the extra cache argument
 
+    // Shared so trading announcements go through the same approval queue as chat
+    const postQueue = new PostQueue({ aiService, twitterService });
+
     // Initialize ChatService
     const chatService = new ChatService(
       aiService,
       twitterService,
       jupiterPriceV2Service!,
-       // Add this argument
+      postQueue
     );
 
     return {
@@ -173,7 +195,8 @@ async function initializeServices() {
       aiService,
       twitterService,
       jupiterPriceV2Service,
-      chatService
+      chatService,
+      postQueue
     };
   } catch (error) {
     elizaLogger.error('Failed to initialize services:', error);
@@ -1382,7 +1405,60 @@ async function main(this: any) {
     // Initialize all services
     validateEnvironment();
     logConfiguration();
-    const services = await initializeServices();
+    const services: ServiceConfig = await initializeServices();
+
+    // DCA/TWAP schedules keep running in both modes
+    await executionScheduler.start();
+    // Scores emitted trading signals and re-weights new ones
+    signalPerformance.start();
+
+    // Rule based strategies and copy trading run in both modes and share
+    // one engine on the trading wallet
+    const strategyTrading = process.env.STRATEGY_TRADING_ENABLED === 'true';
+    const copyTrading = process.env.COPY_TRADING_ENABLED === 'true';
+    if (strategyTrading || copyTrading) {
+      services.tradingEngine = await createTradingEngine({
+        connection: new Connection(CONFIG.SOLANA.RPC_URL),
+        aiService: services.aiService,
+        dataProcessor: services.dataProcessor,
+        postQueue: services.postQueue
+      });
+    }
+    if (strategyTrading) {
+      services.strategyEvaluator = await startStrategyTrading({
+        engine: services.tradingEngine!,
+        aiService: services.aiService,
+        dataProcessor: services.dataProcessor
+      });
+    }
+    if (copyTrading) {
+      services.copyTrader = await startCopyTrading(services.tradingEngine!);
+    }
+    // New pump.fun curves, bought when PUMPFUN_SNIPE_AMOUNT_SOL is set
+    if (process.env.PUMPFUN_WATCHER_ENABLED === 'true') {
+      services.pumpFunWatcher = startPumpFunWatcher(new Connection(CONFIG.SOLANA.RPC_URL));
+    }
+
+    // LP positions of the trading wallet, served with their analytics over HTTP
+    if (process.env.API_SERVER_ENABLED === 'true') {
+      try {
+        services.liquidityManager = await createLiquidityManager(new Connection(CONFIG.SOLANA.RPC_URL));
+        const app = await createServer();
+        const port = parseInt(process.env.API_SERVER_PORT || '3001', 10);
+        services.apiServer = app.listen(port, () => elizaLogger.info(`API server listening on port ${port}`));
+      } catch (error) {
+        elizaLogger.error('Failed to start the API server:', error);
+      }
+    }
+
+    // Launches are announced through the post queue, and the ones a restart
+    // interrupted carry on in the background
+    if (services.postQueue) {
+      setLaunchAnnouncer(new PostQueueLaunchAnnouncer(services.postQueue));
+    }
+    resumeLaunches(new Connection(CONFIG.SOLANA.RPC_URL)).catch(error =>
+      elizaLogger.error('Failed to resume launches:', error)
+    );
 
     // Select and start mode
     const mode = await selectMode();
@@ -1516,6 +1592,14 @@ const cacheAdapter: ICacheAdapter = {
 
 async function cleanup(services: ServiceConfig) {
   try {
+    executionScheduler.stop();
+    signalPerformance.stop();
+    services.strategyEvaluator?.stop();
+    services.copyTrader?.stop();
+    await services.pumpFunWatcher?.stop();
+    services.tradingEngine?.stop();
+    services.liquidityManager?.stop();
+    services.apiServer?.close();
 
     if (services.chatService) {
       await services.chatService.stop();
@@ -0,0 +1,75 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface IArbitrageAudit extends Document {
+  opportunityId: string;
+  timestamp: Date;
+  tokenA: string;
+  tokenB: string;
+  amountIn: string;
+  buyDex: string;
+  sellDex: string;
+  buyOutAmount: string;
+  sellOutAmount: string;
+  grossProfit: string;
+  costs: {
+    networkFee: string;
+    priorityFee: string;
+  };
+  netProfit: string;
+  netProfitPct: number;
+  profitable: boolean;
+  dryRun: boolean;
+  status: 'DETECTED' | 'SKIPPED' | 'EXECUTED' | 'FAILED';
+  executionResult?: {
+    signature?: string;
+    error?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const arbitrageAuditSchema = new Schema<IArbitrageAudit>({
+  opportunityId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+    index: true
+  },
+  tokenA: String,
+  tokenB: String,
+  amountIn: String,
+  buyDex: String,
+  sellDex: String,
+  buyOutAmount: String,
+  sellOutAmount: String,
+  grossProfit: String,
+  costs: {
+    networkFee: String,
+    priorityFee: String
+  },
+  netProfit: String,
+  netProfitPct: Number,
+  profitable: Boolean,
+  dryRun: Boolean,
+  status: {
+    type: String,
+    enum: ['DETECTED', 'SKIPPED', 'EXECUTED', 'FAILED'],
+    default: 'DETECTED'
+  },
+  executionResult: {
+    signature: String,
+    error: String
+  }
+}, {
+  timestamps: true
+});
+
+arbitrageAuditSchema.index({ tokenA: 1, tokenB: 1, createdAt: -1 });
+arbitrageAuditSchema.index({ status: 1, createdAt: -1 });
+
+export const ArbitrageAudit = model<IArbitrageAudit>('ArbitrageAudit', arbitrageAuditSchema);
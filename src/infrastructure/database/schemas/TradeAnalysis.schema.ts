@@ -51,6 +51,7 @@ export interface ITradeAnalysis extends Document {
     error?: string;
     gasUsed?: number;
     actualSlippage?: number;
+    simulated?: boolean;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -134,7 +135,8 @@ const tradeAnalysisSchema = new Schema<ITradeAnalysis>({
     signature: String,
     error: String,
     gasUsed: Number,
-    actualSlippage: Number
+    actualSlippage: Number,
+    simulated: { type: Boolean, default: false }
   }
 }, {
   timestamps: true
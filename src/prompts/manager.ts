@@ -35,6 +35,7 @@ export const prompt = PromptTemplate.fromTemplate(
     - Solana Write Operations include:
       * Creating or updating programs
       * Sending tokens or SOL
+      * Creating, pausing, resuming or cancelling DCA/TWAP swap schedules
       * Minting NFTs
       * Creating accounts
       * Any transaction that modifies blockchain state
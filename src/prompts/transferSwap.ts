@@ -37,6 +37,12 @@ export const transferSwapPrompt = ChatPromptTemplate.fromMessages([
     If you say "0.01 SOL", I will use exactly 0.01 (not 0.010 or 0.0100)
     If you say "1.234 USDC", I will use exactly 1.234 (not 1.23 or 1.2340)
     For swaps, have the slippage be 200 bps
+
+    For scheduled swaps:
+    - Use create_dca_schedule when the user wants to buy a fixed amount repeatedly, e.g. "buy 0.5 SOL of BONK every hour, 10 times"
+    - Use create_twap_schedule when the user wants one larger order spread over a window, e.g. "swap 50 SOL to USDC over the next 2 hours"
+    - Pass a minPrice or maxPrice only when the user gives a price limit for the token
+    - Use manage_execution_schedule to list schedules, report fills, average price and remaining amount, or pause, resume and cancel them
     `,
   ],
   new MessagesPlaceholder("messages"),
@@ -11,7 +11,7 @@ import { IAgentRuntime } from "@elizaos/core";
 import { WalletProvider } from "./wallet.js";
 import * as amqp from "amqplib";
 import { ProcessedTokenData } from "../types/token.js";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 
 interface SellDetails {
     sell_amount: number;
@@ -195,10 +195,7 @@ export class SimulationSellingService {
      * If TEE mode is disabled, uses the provided Solana public key or wallet public key from settings.
      */
     private async initializeWalletProvider(): Promise<void> {
-        const { publicKey } = await getWalletKey(this.runtime, false, { requirePrivateKey: false, publicKeyString: '' });
-        if (!publicKey) {
-            throw new Error('Failed to get wallet public key');
-        }
+        const publicKey = walletRegistry.getPublicKey('trading');
         this.walletProvider = new WalletProvider(this.connection, publicKey);
     }
 
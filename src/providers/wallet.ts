@@ -2,7 +2,7 @@ import { IAgentRuntime, Memory, Provider, State } from "@elizaos/core";
 import { Connection, PublicKey } from "@solana/web3.js";
 import { toBN, BN } from "../utils/bignumber.js";
 import NodeCache from "node-cache";
-import { getWalletKey } from "../utils/keypairUtils.js";
+import { walletRegistry } from "../services/wallet/walletRegistry.js";
 
 // Provider configuration
 const PROVIDER_CONFIG = {
@@ -383,15 +383,12 @@ const walletProvider: Provider = {
         _state?: State
     ): Promise<string | null> => {
         try {
-            const { publicKey } = await getWalletKey(runtime, false, { requirePrivateKey: false, publicKeyString: '' });
+            const publicKey = walletRegistry.getPublicKey("trading");
 
             const connection = new Connection(
                 runtime.getSetting("RPC_URL") || PROVIDER_CONFIG.DEFAULT_RPC
             );
 
-            if (!publicKey) {
-                throw new Error("Wallet public key is required");
-            }
             const provider = new WalletProvider(connection, publicKey);
 
             return await provider.getFormattedPortfolio(runtime);
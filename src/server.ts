@@ -2,6 +2,7 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { AgentCoordinationService } from './infrastructure/database/services/AgentCoordinationService.js';
+import { lpAnalytics } from './services/blockchain/defi/lpAnalytics.js';
 import { logger } from './utils/logger.js';
 
 export async function createServer(): Promise<Express> {
@@ -69,5 +70,27 @@ export async function createServer(): Promise<Express> {
     }
   });
 
+  // LP analytics endpoints
+  app.get('/liquidity/positions', async (req: Request, res: Response) => {
+    try {
+      const positions = await lpAnalytics.getPositions();
+      res.json(positions);
+    } catch (error) {
+      logger.error('Error fetching LP positions:', error);
+      res.status(500).json({ error: 'Failed to fetch LP positions' });
+    }
+  });
+
+  app.get('/liquidity/positions/:positionId/history', async (req: Request, res: Response) => {
+    try {
+      const { positionId } = req.params;
+      const history = await lpAnalytics.getHistory(positionId);
+      res.json(history);
+    } catch (error) {
+      logger.error('Error fetching LP position history:', error);
+      res.status(500).json({ error: 'Failed to fetch LP position history' });
+    }
+  });
+
   return app;
 } 
\ No newline at end of file
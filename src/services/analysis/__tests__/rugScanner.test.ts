@@ -0,0 +1,236 @@
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { Connection, Keypair, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import {
+  CreatorHistory,
+  HoneypotResult,
+  JupiterHoneypotSimulator,
+  LiquidityPoolInfo,
+  RugRiskScanner
+} from '../rugScanner.js';
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeYrJZ9xEQPxrRxJdSV1r2Wc5DUKNiAAKm';
+const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const RAYDIUM_AMM_V4 = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const PUMP_FUN = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+const SOL = 'So11111111111111111111111111111111111111112';
+const address = () => Keypair.generate().publicKey.toBase58();
+const MINT = address();
+const POOL = address();
+const POOL_VAULT_OWNER = address();
+const DEV = address();
+
+interface Holding {
+  owner: string;
+  amount: number;
+}
+
+/**
+ * Just enough of a Connection for the scanner: one mint, its largest
+ * holders, optionally a Raydium pool whose LP has been burned and
+ * optionally an open pump.fun bonding curve.
+ */
+function createConnection(
+  mintInfo: Record<string, unknown>,
+  program: string,
+  holdings: Holding[],
+  bondingCurve = false
+): Connection {
+  const lpMintBytes = Buffer.alloc(32, 7);
+  const lpMint = new PublicKey(lpMintBytes).toBase58();
+  const poolData = Buffer.alloc(752);
+  lpMintBytes.copy(poolData, 464);
+
+  const mints: Record<string, { owner: string; info: Record<string, unknown> }> = {
+    [MINT]: { owner: program, info: mintInfo },
+    [lpMint]: { owner: TOKEN_PROGRAM, info: { supply: '0', decimals: 9, mintAuthority: null, freezeAuthority: null } }
+  };
+
+  const accounts = holdings.map(() => address());
+  const [curve] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), new PublicKey(MINT).toBuffer()],
+    new PublicKey(PUMP_FUN)
+  );
+
+  return {
+    getParsedAccountInfo: async (key: PublicKey) => {
+      const mint = mints[key.toBase58()];
+      return {
+        value: mint
+          ? { owner: new PublicKey(mint.owner), data: { parsed: { type: 'mint', info: mint.info } } }
+          : null
+      };
+    },
+    getTokenLargestAccounts: async () => ({
+      value: holdings.map((holding, i) => ({ address: new PublicKey(accounts[i]), amount: String(holding.amount) }))
+    }),
+    getMultipleParsedAccounts: async (keys: PublicKey[]) => ({
+      value: keys.map(key => ({ data: { parsed: { info: { owner: holdings[accounts.indexOf(key.toBase58())].owner } } } }))
+    }),
+    getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+      keys.map(key => ({ owner: new PublicKey(key.toBase58() === POOL_VAULT_OWNER ? RAYDIUM_AMM_V4 : SYSTEM_PROGRAM) })),
+    getAccountInfo: async (key: PublicKey) => {
+      if (key.toBase58() === POOL) return { owner: new PublicKey(RAYDIUM_AMM_V4), data: poolData };
+      if (bondingCurve && key.equals(curve)) return { owner: new PublicKey(PUMP_FUN), data: Buffer.alloc(49) };
+      return null;
+    }
+  } as unknown as Connection;
+}
+
+function createScanner(
+  connection: Connection,
+  pools: LiquidityPoolInfo[],
+  honeypot: HoneypotResult,
+  creator: CreatorHistory | null
+): RugRiskScanner {
+  return new RugRiskScanner(connection, {
+    poolSource: { findPools: async () => pools },
+    honeypotSimulator: { simulateSell: async () => honeypot },
+    creatorHistory: { getHistory: async () => creator }
+  });
+}
+
+describe('RugRiskScanner', () => {
+  test('scores a renounced token with burned LP and spread holders as low risk', async () => {
+    const holdings = [
+      { owner: POOL_VAULT_OWNER, amount: 600 },
+      ...Array.from({ length: 12 }, () => ({ owner: address(), amount: 20 }))
+    ];
+    const connection = createConnection(
+      { supply: '1000', decimals: 6, mintAuthority: null, freezeAuthority: null },
+      TOKEN_PROGRAM,
+      holdings
+    );
+    const scanner = createScanner(
+      connection,
+      [{ address: POOL, dexId: 'raydium', liquidityUsd: 50000 }],
+      { sellable: true, roundTripLoss: 0.02 },
+      { creator: address(), walletAgeDays: 200, transactionCount: 800, tokensCreated: 0, sampledTransactions: 50 }
+    );
+
+    const report = await scanner.scan(MINT);
+
+    expect(report.score).toBe(100);
+    expect(report.level).toBe('low');
+    expect(report.checks.every(check => check.status === 'pass')).toBe(true);
+    expect(report.checks.find(check => check.category === 'holders')?.message).toContain('20.0%');
+    expect(report.checks.find(check => check.category === 'liquidity')?.message).toContain('burned or locked');
+  });
+
+  test('flags authorities, Token-2022 extensions, concentration and blocked sells', async () => {
+    const connection = createConnection(
+      {
+        supply: '1000',
+        decimals: 6,
+        mintAuthority: DEV,
+        freezeAuthority: null,
+        extensions: [
+          { extension: 'permanentDelegate', state: { delegate: DEV } },
+          { extension: 'transferFeeConfig', state: { newerTransferFee: { transferFeeBasisPoints: 500 } } }
+        ]
+      },
+      TOKEN_2022_PROGRAM,
+      [{ owner: DEV, amount: 700 }, { owner: address(), amount: 100 }]
+    );
+    const scanner = createScanner(connection, [], { sellable: false, error: 'Simulated sell failed' }, null);
+
+    const report = await scanner.scan(MINT);
+    const byCategory = (category: string) => report.checks.filter(check => check.category === category);
+
+    expect(report.score).toBe(0);
+    expect(report.level).toBe('high');
+    expect(byCategory('mintAuthority')[0].status).toBe('fail');
+    expect(byCategory('token2022').map(check => check.penalty)).toEqual([40, 10]);
+    expect(byCategory('token2022')[0].message).toContain(`Permanent delegate ${DEV}`);
+    expect(byCategory('holders')[0]).toMatchObject({ status: 'fail', message: 'Top 10 wallets hold 80.0% of supply' });
+    expect(byCategory('honeypot')[0]).toMatchObject({ status: 'fail', message: 'Simulated sell failed' });
+    expect(byCategory('creator')[0].status).toBe('unknown');
+  });
+
+  test('does not count a missing Jupiter route against a bonding curve token', async () => {
+    const connection = createConnection(
+      { supply: '1000', decimals: 6, mintAuthority: null, freezeAuthority: null },
+      TOKEN_PROGRAM,
+      Array.from({ length: 12 }, () => ({ owner: address(), amount: 20 })),
+      true
+    );
+    const scanner = createScanner(
+      connection,
+      [],
+      { sellable: false, noRoute: true, error: 'No route to buy the token' },
+      { creator: address(), walletAgeDays: 200, transactionCount: 800, tokensCreated: 0, sampledTransactions: 50 }
+    );
+
+    const report = await scanner.scan(MINT);
+
+    expect(report.score).toBe(100);
+    expect(report.checks.find(check => check.category === 'liquidity')?.message).toContain('bonding curve');
+    expect(report.checks.find(check => check.category === 'honeypot')).toMatchObject({ status: 'unknown', penalty: 0 });
+  });
+});
+
+describe('JupiterHoneypotSimulator', () => {
+  const originalFetch = globalThis.fetch;
+  const OWNER = address();
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /**
+   * Jupiter that sells the token back at 5% under the buy, and a swap
+   * endpoint answering with `swapStatus`.
+   */
+  const mockJupiter = (swapStatus: number) => {
+    const sellAmounts: string[] = [];
+    const swapQuotes: Array<{ inAmount: string }> = [];
+    globalThis.fetch = (async (url: string, init?: { body?: string }) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/swap')) {
+        swapQuotes.push(JSON.parse(init!.body!).quoteResponse);
+        const message = new TransactionMessage({
+          payerKey: new PublicKey(OWNER),
+          recentBlockhash: address(),
+          instructions: []
+        }).compileToV0Message();
+        const swapTransaction = Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+        return { ok: swapStatus === 200, status: swapStatus, json: async () => ({ swapTransaction }) };
+      }
+      const amount = searchParams.get('amount')!;
+      if (searchParams.get('inputMint') === SOL) {
+        return { ok: true, json: async () => ({ inAmount: amount, outAmount: String(Number(amount) / 20000) }) };
+      }
+      sellAmounts.push(amount);
+      return { ok: true, json: async () => ({ inAmount: amount, outAmount: String(Number(amount) * 19000) }) };
+    }) as unknown as typeof fetch;
+    return { sellAmounts, swapQuotes };
+  };
+
+  const connection = {
+    simulateTransaction: async () => ({ value: { err: null, logs: [] } })
+  } as unknown as Connection;
+
+  test('simulates selling the probe amount rather than the holder balance', async () => {
+    const jupiter = mockJupiter(200);
+    const simulator = new JupiterHoneypotSimulator(connection, 100_000_000);
+
+    const result = await simulator.simulateSell(MINT, { owner: OWNER, amount: '900000000000' });
+
+    // 0.1 SOL buys 5000 base units, the holder sells those 5000 back
+    expect(result.sellable).toBe(true);
+    expect(result.roundTripLoss).toBeCloseTo(0.05, 10);
+    expect(jupiter.sellAmounts).toEqual(['5000']);
+    expect(jupiter.swapQuotes.map(quote => quote.inAmount)).toEqual(['5000']);
+
+    await simulator.simulateSell(MINT, { owner: OWNER, amount: '1200' });
+    expect(jupiter.swapQuotes.map(quote => quote.inAmount)).toEqual(['5000', '1200']);
+  });
+
+  test('reports a failing swap endpoint as a check that could not run', async () => {
+    mockJupiter(500);
+    const simulator = new JupiterHoneypotSimulator(connection);
+
+    await expect(simulator.simulateSell(MINT, { owner: OWNER, amount: '900000000000' }))
+      .rejects.toThrow('Jupiter swap error! status: 500');
+  });
+});
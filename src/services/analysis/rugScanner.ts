@@ -0,0 +1,614 @@
+// src/services/analysis/rugScanner.ts
+
+import { AccountInfo, Connection, ParsedAccountData, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { API_CONFIG } from '../../config/api-config.js';
+import { ValidationError } from '../../utils/error-handler.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+const RAYDIUM_AMM_V4_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const INCINERATOR = '1nc1nerator11111111111111111111111111111111';
+const RAYDIUM_AMM_V4_LP_MINT_OFFSET = 464;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RugCheckCategory =
+  | 'mintAuthority'
+  | 'freezeAuthority'
+  | 'token2022'
+  | 'holders'
+  | 'liquidity'
+  | 'honeypot'
+  | 'creator';
+
+export type RugCheckStatus = 'pass' | 'warn' | 'fail' | 'unknown';
+
+export interface RugCheck {
+  category: RugCheckCategory;
+  status: RugCheckStatus;
+  /** Points taken off the score of 100 */
+  penalty: number;
+  message: string;
+}
+
+export type RugRiskLevel = 'low' | 'medium' | 'high';
+
+export interface RugRiskReport {
+  mint: string;
+  score: number;
+  level: RugRiskLevel;
+  checks: RugCheck[];
+  tokenProgram: string;
+  decimals: number;
+  supply: string;
+  scannedAt: number;
+}
+
+export interface LiquidityPoolInfo {
+  address: string;
+  dexId: string;
+  liquidityUsd: number;
+}
+
+export interface PoolSource {
+  findPools(mint: string): Promise<LiquidityPoolInfo[]>;
+}
+
+export interface HoneypotResult {
+  sellable: boolean;
+  /** Share of SOL lost buying then selling straight back */
+  roundTripLoss?: number;
+  /** Jupiter has no route for the token, which says nothing about sells off Jupiter */
+  noRoute?: boolean;
+  error?: string;
+}
+
+export interface HoneypotSimulator {
+  /**
+   * Try selling a small amount from `holder`'s wallet when one is known, whose
+   * balance is `amount` base units. Throws when the simulation cannot run.
+   */
+  simulateSell(mint: string, holder?: { owner: string; amount: string }): Promise<HoneypotResult>;
+}
+
+/**
+ * The fields of jsonParsed Token-2022 extension states the scan reads. Each
+ * extension only carries its own.
+ */
+interface MintExtensionState {
+  delegate?: string | null;
+  olderTransferFee?: { transferFeeBasisPoints: number };
+  newerTransferFee?: { transferFeeBasisPoints: number };
+  transferFeeConfigAuthority?: string | null;
+  programId?: string | null;
+  accountState?: string;
+}
+
+interface MintExtension {
+  extension: string;
+  state?: MintExtensionState;
+}
+
+interface ParsedMint {
+  supply: string;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensions?: MintExtension[];
+}
+
+/**
+ * The `parsed` field of an account fetched with jsonParsed encoding, or
+ * undefined when the RPC returned raw bytes.
+ */
+function parsedAccount<T>(
+  account: AccountInfo<Buffer | ParsedAccountData> | null | undefined
+): { type?: string; info?: T } | undefined {
+  const data = account?.data;
+  return data && 'parsed' in data ? data.parsed : undefined;
+}
+
+export interface CreatorHistory {
+  creator: string;
+  walletAgeDays: number;
+  transactionCount: number;
+  /** Mints created among the sampled recent transactions */
+  tokensCreated: number;
+  sampledTransactions: number;
+}
+
+export interface CreatorHistorySource {
+  getHistory(mint: string): Promise<CreatorHistory | null>;
+}
+
+export class DexScreenerPoolSource implements PoolSource {
+  public async findPools(mint: string): Promise<LiquidityPoolInfo[]> {
+    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${mint}`);
+    if (!response.ok) {
+      throw new Error(`DexScreener error! status: ${response.status}`);
+    }
+    const data = await response.json() as { pairs?: Array<{ pairAddress: string; dexId: string; liquidity?: { usd?: number }; chainId: string }> };
+    return (data.pairs || [])
+      .filter(pair => pair.chainId === 'solana')
+      .map(pair => ({ address: pair.pairAddress, dexId: pair.dexId, liquidityUsd: pair.liquidity?.usd || 0 }));
+  }
+}
+
+/**
+ * Quotes a small buy and the sell straight back through Jupiter, then
+ * simulates selling the same small amount from a real holder's wallet.
+ * Tokens that block or tax sells fail one or the other.
+ */
+export class JupiterHoneypotSimulator implements HoneypotSimulator {
+  private readonly connection: Connection;
+  private readonly probeLamports: number;
+
+  constructor(connection: Connection, probeLamports: number = 100_000_000) {
+    this.connection = connection;
+    this.probeLamports = probeLamports;
+  }
+
+  public async simulateSell(mint: string, holder?: { owner: string; amount: string }): Promise<HoneypotResult> {
+    const buy = await this.quote(SOL_MINT, mint, String(this.probeLamports));
+    if (!buy) return { sellable: false, noRoute: true, error: 'No route to buy the token' };
+
+    const sell = await this.quote(mint, SOL_MINT, buy.outAmount);
+    if (!sell) return { sellable: false, noRoute: true, error: 'No route to sell the token' };
+    const roundTripLoss = 1 - Number(sell.outAmount) / this.probeLamports;
+
+    if (holder) {
+      // The probe's worth of tokens, a whale's whole balance would fail on price impact alone
+      const probeAmount = BigInt(buy.outAmount);
+      const balance = BigInt(holder.amount);
+      const amount = balance < probeAmount ? balance : probeAmount;
+      const holderSell = amount === probeAmount ? sell : await this.quote(mint, SOL_MINT, amount.toString());
+      if (!holderSell) return { sellable: false, roundTripLoss, error: 'No route to sell from a holder\'s wallet' };
+
+      const response = await fetch(`${API_CONFIG.JUPITER.BASE_URL}/swap`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          quoteResponse: holderSell,
+          userPublicKey: holder.owner,
+          wrapAndUnwrapSol: true
+        })
+      });
+      if (!response.ok) {
+        throw new Error(`Jupiter swap error! status: ${response.status}`);
+      }
+      const { swapTransaction } = await response.json() as { swapTransaction: string };
+      const transaction = VersionedTransaction.deserialize(Buffer.from(swapTransaction, 'base64'));
+      const simulation = await this.connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true
+      });
+      if (simulation.value.err) {
+        const logs = simulation.value.logs || [];
+        return {
+          sellable: false,
+          roundTripLoss,
+          error: `Simulated sell failed: ${JSON.stringify(simulation.value.err)}${logs.length ? ` (${logs[logs.length - 1]})` : ''}`
+        };
+      }
+    }
+
+    return { sellable: true, roundTripLoss };
+  }
+
+  private async quote(inputMint: string, outputMint: string, amount: string): Promise<{ outAmount: string } | null> {
+    const params = new URLSearchParams({ inputMint, outputMint, amount, slippageBps: '1000' });
+    const response = await fetch(`${API_CONFIG.JUPITER.BASE_URL}/quote?${params}`);
+    if (!response.ok) return null;
+    const quote = await response.json() as { outAmount?: string };
+    return quote.outAmount && quote.outAmount !== '0' ? (quote as { outAmount: string }) : null;
+  }
+}
+
+/**
+ * Finds the creator as the fee payer of the mint's first transaction and
+ * samples their recent activity. Mints with more history than
+ * `maxMintPages` pages of signatures are reported as unknown.
+ */
+export class RpcCreatorHistorySource implements CreatorHistorySource {
+  private readonly connection: Connection;
+  private readonly maxMintPages: number;
+  private readonly sampleSize: number;
+
+  constructor(connection: Connection, maxMintPages: number = 3, sampleSize: number = 50) {
+    this.connection = connection;
+    this.maxMintPages = maxMintPages;
+    this.sampleSize = sampleSize;
+  }
+
+  public async getHistory(mint: string): Promise<CreatorHistory | null> {
+    let before: string | undefined;
+    let oldest: string | undefined;
+    for (let page = 0; page < this.maxMintPages; page++) {
+      const signatures = await this.connection.getSignaturesForAddress(new PublicKey(mint), { before, limit: 1000 });
+      if (!signatures.length) break;
+      oldest = signatures[signatures.length - 1].signature;
+      if (signatures.length < 1000) {
+        before = undefined;
+        break;
+      }
+      before = oldest;
+    }
+    // Still more pages, the first transaction was not reached
+    if (!oldest || before) return null;
+
+    const creation = await this.connection.getParsedTransaction(oldest, { maxSupportedTransactionVersion: 0 });
+    const creator = creation?.transaction.message.accountKeys[0]?.pubkey.toBase58();
+    if (!creator) return null;
+
+    const signatures = await this.connection.getSignaturesForAddress(new PublicKey(creator), { limit: 1000 });
+    const firstSeen = signatures[signatures.length - 1]?.blockTime;
+    const sample = signatures.slice(0, this.sampleSize).map(s => s.signature);
+    const transactions = sample.length
+      ? await this.connection.getParsedTransactions(sample, { maxSupportedTransactionVersion: 0 })
+      : [];
+
+    const tokensCreated = transactions.filter(transaction => {
+      if (!transaction) return false;
+      const instructions = [
+        ...transaction.transaction.message.instructions,
+        ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+      ];
+      return instructions.some(instruction => {
+        const type = (instruction as { parsed?: { type?: string } }).parsed?.type;
+        return type === 'initializeMint' || type === 'initializeMint2';
+      });
+    }).length;
+
+    return {
+      creator,
+      walletAgeDays: firstSeen ? (Date.now() - firstSeen * 1000) / DAY_MS : 0,
+      transactionCount: signatures.length,
+      tokensCreated,
+      sampledTransactions: sample.length
+    };
+  }
+}
+
+export interface RugRiskScannerOptions {
+  poolSource?: PoolSource;
+  honeypotSimulator?: HoneypotSimulator;
+  creatorHistory?: CreatorHistorySource;
+}
+
+interface HolderAnalysis {
+  /** Largest accounts held by wallets, with pools and curves left out */
+  wallets: Array<{ owner: string; amount: bigint }>;
+  top10Share: number;
+}
+
+/**
+ * Scores how likely a token is to rug, starting at 100 and taking points
+ * off for each risk found. Every check explains its result, and a check that
+ * cannot run costs a few points rather than failing the scan.
+ */
+export class RugRiskScanner {
+  private readonly connection: Connection;
+  private readonly poolSource: PoolSource;
+  private readonly honeypotSimulator: HoneypotSimulator;
+  private readonly creatorHistory: CreatorHistorySource;
+  private readonly cache = new Map<string, RugRiskReport>();
+
+  private readonly CACHE_TTL = 300000; // 5 minutes
+  private readonly UNKNOWN_PENALTY = 5;
+
+  constructor(connection: Connection, options: RugRiskScannerOptions = {}) {
+    this.connection = connection;
+    this.poolSource = options.poolSource || new DexScreenerPoolSource();
+    this.honeypotSimulator = options.honeypotSimulator || new JupiterHoneypotSimulator(connection);
+    this.creatorHistory = options.creatorHistory || new RpcCreatorHistorySource(connection);
+  }
+
+  public async scan(mint: string, useCache: boolean = true): Promise<RugRiskReport> {
+    const cached = this.cache.get(mint);
+    if (useCache && cached && Date.now() - cached.scannedAt < this.CACHE_TTL) {
+      return cached;
+    }
+
+    const account = await this.connection.getParsedAccountInfo(new PublicKey(mint));
+    const parsed = parsedAccount<ParsedMint>(account.value);
+    if (!account.value || parsed?.type !== 'mint' || !parsed.info) {
+      throw new ValidationError(`${mint} is not a token mint`);
+    }
+    const info = parsed.info;
+    const tokenProgram = account.value.owner.toBase58();
+    const supply = BigInt(info.supply);
+
+    const holders = await this.analyzeHolders(mint, supply).catch(error => error as Error);
+    const topWallet = holders instanceof Error ? undefined : holders.wallets[0];
+    const bondingCurve = this.isOnBondingCurve(mint);
+
+    const [liquidity, honeypot, creator] = await Promise.all([
+      this.guard('liquidity', () => this.checkLiquidity(mint, bondingCurve)),
+      this.guard('honeypot', () => this.checkHoneypot(mint, bondingCurve, topWallet)),
+      this.guard('creator', () => this.checkCreator(mint, supply, holders instanceof Error ? null : holders))
+    ]);
+
+    const checks: RugCheck[] = [
+      this.checkAuthority('mintAuthority', info.mintAuthority,
+        'can mint more supply at any time', 'Mint authority is revoked, supply is fixed', 30),
+      this.checkAuthority('freezeAuthority', info.freezeAuthority,
+        'can freeze holder accounts and block sells', 'Freeze authority is revoked', 25),
+      ...this.checkToken2022(tokenProgram, info.extensions || []),
+      holders instanceof Error ? this.unknown('holders', holders) : this.checkHolders(holders),
+      ...liquidity,
+      ...honeypot,
+      ...creator
+    ];
+
+    const score = Math.max(0, 100 - checks.reduce((sum, check) => sum + check.penalty, 0));
+    const report: RugRiskReport = {
+      mint,
+      score,
+      level: score >= 70 ? 'low' : score >= 40 ? 'medium' : 'high',
+      checks,
+      tokenProgram,
+      decimals: info.decimals,
+      supply: supply.toString(),
+      scannedAt: Date.now()
+    };
+    this.cache.set(mint, report);
+    return report;
+  }
+
+  private checkAuthority(
+    category: 'mintAuthority' | 'freezeAuthority',
+    authority: string | null,
+    risk: string,
+    revoked: string,
+    penalty: number
+  ): RugCheck {
+    return authority
+      ? { category, status: 'fail', penalty, message: `${authority} ${risk}` }
+      : { category, status: 'pass', penalty: 0, message: revoked };
+  }
+
+  private checkToken2022(tokenProgram: string, extensions: MintExtension[]): RugCheck[] {
+    if (tokenProgram !== TOKEN_2022_PROGRAM_ID) {
+      return [{ category: 'token2022', status: 'pass', penalty: 0, message: 'Standard SPL token, no extensions' }];
+    }
+
+    const checks: RugCheck[] = [];
+    for (const { extension, state } of extensions) {
+      switch (extension) {
+        case 'permanentDelegate':
+          if (state?.delegate) {
+            checks.push({ category: 'token2022', status: 'fail', penalty: 40,
+              message: `Permanent delegate ${state.delegate} can move or burn anyone's tokens` });
+          }
+          break;
+        case 'transferFeeConfig': {
+          const bps = Math.max(
+            state?.olderTransferFee?.transferFeeBasisPoints || 0,
+            state?.newerTransferFee?.transferFeeBasisPoints || 0
+          );
+          if (bps > 0) {
+            checks.push({ category: 'token2022', status: bps >= 1000 ? 'fail' : 'warn', penalty: bps >= 1000 ? 25 : 10,
+              message: `Every transfer pays a ${(bps / 100).toFixed(2)}% fee${state?.transferFeeConfigAuthority ? ' the authority can raise' : ''}` });
+          }
+          break;
+        }
+        case 'transferHook':
+          if (state?.programId) {
+            checks.push({ category: 'token2022', status: 'warn', penalty: 15,
+              message: `Transfers run hook program ${state.programId}, which can block sells` });
+          }
+          break;
+        case 'defaultAccountState':
+          if (state?.accountState === 'frozen') {
+            checks.push({ category: 'token2022', status: 'fail', penalty: 30,
+              message: 'New token accounts start frozen' });
+          }
+          break;
+        case 'nonTransferable':
+          checks.push({ category: 'token2022', status: 'fail', penalty: 50, message: 'Token cannot be transferred' });
+          break;
+      }
+    }
+
+    return checks.length
+      ? checks
+      : [{ category: 'token2022', status: 'pass', penalty: 0, message: 'Token-2022 mint without risky extensions' }];
+  }
+
+  private async analyzeHolders(mint: string, supply: bigint): Promise<HolderAnalysis> {
+    const largest = await this.connection.getTokenLargestAccounts(new PublicKey(mint));
+    const accounts = await this.connection.getMultipleParsedAccounts(largest.value.map(account => account.address));
+    const holdings = largest.value.map((account, i) => ({
+      owner: parsedAccount<{ owner: string }>(accounts.value[i])?.info?.owner,
+      amount: BigInt(account.amount)
+    })).filter((holding): holding is { owner: string; amount: bigint } => !!holding.owner);
+
+    const kinds = await this.classifyOwners(holdings.map(holding => holding.owner));
+    const wallets = holdings.filter(holding => kinds.get(holding.owner) === 'wallet');
+    const top10 = wallets.slice(0, 10).reduce((sum, holding) => sum + holding.amount, BigInt(0));
+
+    return { wallets, top10Share: supply > BigInt(0) ? Number(top10) / Number(supply) : 0 };
+  }
+
+  private checkHolders(holders: HolderAnalysis): RugCheck {
+    const pct = (holders.top10Share * 100).toFixed(1);
+    if (holders.top10Share > 0.5) {
+      return { category: 'holders', status: 'fail', penalty: 25, message: `Top 10 wallets hold ${pct}% of supply` };
+    }
+    if (holders.top10Share > 0.3) {
+      return { category: 'holders', status: 'warn', penalty: 10, message: `Top 10 wallets hold ${pct}% of supply` };
+    }
+    return { category: 'holders', status: 'pass', penalty: 0, message: `Top 10 wallets hold ${pct}% of supply` };
+  }
+
+  /**
+   * Whether the token still trades on its pump.fun bonding curve.
+   */
+  private async isOnBondingCurve(mint: string): Promise<boolean> {
+    const [curve] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), new PublicKey(mint).toBuffer()],
+      new PublicKey(PUMP_FUN_PROGRAM_ID)
+    );
+    const curveAccount = await this.connection.getAccountInfo(curve);
+    // Byte 48 of the curve account is the `complete` flag
+    return !!curveAccount && curveAccount.data[48] === 0;
+  }
+
+  private async checkLiquidity(mint: string, bondingCurve: Promise<boolean>): Promise<RugCheck[]> {
+    if (await bondingCurve) {
+      return [{ category: 'liquidity', status: 'pass', penalty: 0,
+        message: 'Trades on the pump.fun bonding curve, there is no LP to pull' }];
+    }
+
+    const pools = (await this.poolSource.findPools(mint)).sort((a, b) => b.liquidityUsd - a.liquidityUsd);
+    if (!pools.length) {
+      return [{ category: 'liquidity', status: 'warn', penalty: 10, message: 'No liquidity pool found' }];
+    }
+
+    const pool = pools[0];
+    const poolAccount = await this.connection.getAccountInfo(new PublicKey(pool.address));
+    if (!poolAccount || poolAccount.owner.toBase58() !== RAYDIUM_AMM_V4_PROGRAM_ID) {
+      return [{ category: 'liquidity', status: 'unknown', penalty: this.UNKNOWN_PENALTY,
+        message: `LP status of the ${pool.dexId} pool can't be checked` }];
+    }
+
+    const lpMint = new PublicKey(poolAccount.data.subarray(RAYDIUM_AMM_V4_LP_MINT_OFFSET, RAYDIUM_AMM_V4_LP_MINT_OFFSET + 32));
+    const lpInfo = await this.connection.getParsedAccountInfo(lpMint);
+    const lpSupply = BigInt(parsedAccount<ParsedMint>(lpInfo.value)?.info?.supply || 0);
+
+    let unlocked = BigInt(0);
+    if (lpSupply > BigInt(0)) {
+      const largest = await this.connection.getTokenLargestAccounts(lpMint);
+      const accounts = await this.connection.getMultipleParsedAccounts(largest.value.map(account => account.address));
+      const holdings = largest.value.map((account, i) => ({
+        owner: parsedAccount<{ owner: string }>(accounts.value[i])?.info?.owner,
+        amount: BigInt(account.amount)
+      })).filter((holding): holding is { owner: string; amount: bigint } => !!holding.owner);
+      const kinds = await this.classifyOwners(holdings.map(holding => holding.owner));
+      unlocked = holdings
+        .filter(holding => kinds.get(holding.owner) === 'wallet')
+        .reduce((sum, holding) => sum + holding.amount, BigInt(0));
+    }
+
+    const unlockedShare = lpSupply > BigInt(0) ? Number(unlocked) / Number(lpSupply) : 0;
+    const pct = (unlockedShare * 100).toFixed(1);
+    if (unlockedShare <= 0.05) {
+      return [{ category: 'liquidity', status: 'pass', penalty: 0,
+        message: `LP of the ${pool.dexId} pool is burned or locked` }];
+    }
+    return [{
+      category: 'liquidity',
+      status: unlockedShare > 0.5 ? 'fail' : 'warn',
+      penalty: unlockedShare > 0.5 ? 25 : 10,
+      message: `${pct}% of the ${pool.dexId} pool's LP sits in wallets and can be pulled`
+    }];
+  }
+
+  private async checkHoneypot(
+    mint: string,
+    bondingCurve: Promise<boolean>,
+    holder?: { owner: string; amount: bigint }
+  ): Promise<RugCheck[]> {
+    const result = await this.honeypotSimulator.simulateSell(
+      mint,
+      holder && { owner: holder.owner, amount: holder.amount.toString() }
+    );
+    // Jupiter does not route every bonding curve token, that alone is no sign of a honeypot
+    if (!result.sellable && result.noRoute && await bondingCurve) {
+      return [{ category: 'honeypot', status: 'unknown', penalty: 0,
+        message: 'Trades on the pump.fun bonding curve, Jupiter has no route to simulate a sell' }];
+    }
+    if (!result.sellable) {
+      return [{ category: 'honeypot', status: 'fail', penalty: 50, message: result.error || 'Token cannot be sold' }];
+    }
+
+    const loss = result.roundTripLoss ?? 0;
+    const message = `Buying and selling back loses ${(loss * 100).toFixed(1)}%`;
+    if (loss > 0.3) return [{ category: 'honeypot', status: 'fail', penalty: 25, message }];
+    if (loss > 0.1) return [{ category: 'honeypot', status: 'warn', penalty: 10, message }];
+    return [{ category: 'honeypot', status: 'pass', penalty: 0, message: `Sells go through. ${message}` }];
+  }
+
+  private async checkCreator(mint: string, supply: bigint, holders: HolderAnalysis | null): Promise<RugCheck[]> {
+    const history = await this.creatorHistory.getHistory(mint);
+    if (!history) {
+      return [{ category: 'creator', status: 'unknown', penalty: this.UNKNOWN_PENALTY,
+        message: 'Creator could not be identified' }];
+    }
+
+    const checks: RugCheck[] = [];
+    if (history.tokensCreated >= 10) {
+      checks.push({ category: 'creator', status: 'fail', penalty: 20,
+        message: `Creator ${history.creator} made ${history.tokensCreated} tokens in their last ${history.sampledTransactions} transactions` });
+    } else if (history.tokensCreated >= 3) {
+      checks.push({ category: 'creator', status: 'warn', penalty: 10,
+        message: `Creator ${history.creator} made ${history.tokensCreated} tokens in their last ${history.sampledTransactions} transactions` });
+    }
+    if (history.walletAgeDays < 1) {
+      checks.push({ category: 'creator', status: 'warn', penalty: 10,
+        message: `Creator wallet is less than a day old` });
+    }
+
+    const held = holders?.wallets.find(holding => holding.owner === history.creator);
+    const heldShare = held && supply > BigInt(0) ? Number(held.amount) / Number(supply) : 0;
+    if (heldShare > 0.1) {
+      checks.push({ category: 'creator', status: 'warn', penalty: 10,
+        message: `Creator still holds ${(heldShare * 100).toFixed(1)}% of supply` });
+    }
+
+    return checks.length
+      ? checks
+      : [{ category: 'creator', status: 'pass', penalty: 0,
+        message: `Creator wallet is ${Math.floor(history.walletAgeDays)} days old with no pattern of serial launches` }];
+  }
+
+  /**
+   * Wallets are owned by the system program. Pools, curves and lockers are
+   * program accounts, and the incinerator holds burned tokens.
+   */
+  private async classifyOwners(owners: string[]): Promise<Map<string, 'wallet' | 'program' | 'burn'>> {
+    const unique = [...new Set(owners)];
+    const infos = unique.length
+      ? await this.connection.getMultipleAccountsInfo(unique.map(owner => new PublicKey(owner)))
+      : [];
+
+    return new Map(unique.map((owner, i) => {
+      if (owner === INCINERATOR) return [owner, 'burn'];
+      const info = infos[i];
+      return [owner, !info || info.owner.toBase58() === SYSTEM_PROGRAM_ID ? 'wallet' : 'program'];
+    }));
+  }
+
+  private async guard(category: RugCheckCategory, check: () => Promise<RugCheck[]>): Promise<RugCheck[]> {
+    try {
+      return await check();
+    } catch (error) {
+      return [this.unknown(category, error)];
+    }
+  }
+
+  private unknown(category: RugCheckCategory, error: unknown): RugCheck {
+    elizaLogger.warn(`Rug scan ${category} check failed:`, error);
+    return {
+      category,
+      status: 'unknown',
+      penalty: this.UNKNOWN_PENALTY,
+      message: `Could not check: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Report as chat lines, risks first.
+ */
+export function formatRugReport(report: RugRiskReport): string {
+  const order: Record<RugCheckStatus, number> = { fail: 0, warn: 1, unknown: 2, pass: 3 };
+  const icon: Record<RugCheckStatus, string> = { fail: '✗', warn: '!', unknown: '?', pass: '✓' };
+  const lines = [...report.checks]
+    .sort((a, b) => order[a.status] - order[b.status] || b.penalty - a.penalty)
+    .map(check => `${icon[check.status]} ${check.message}${check.penalty ? ` (-${check.penalty})` : ''}`);
+
+  return [`Rug risk score: ${report.score}/100 (${report.level} risk)`, ...lines].join('\n');
+}
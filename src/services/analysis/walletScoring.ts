@@ -0,0 +1,184 @@
+// src/services/analysis/walletScoring.ts
+
+import {
+  Connection,
+  ConnectionConfig,
+  ParsedTransactionWithMeta,
+  PublicKey
+} from '@solana/web3.js';
+
+export interface ScoringMetrics {
+  frequency: number;
+  volume: number;
+  profitability: number;
+  dexDiversity: number;
+  stablecoinActivity: number;
+  /** 0-1, weighted from the other metrics */
+  finalScore: number;
+}
+
+const STABLECOIN_MINTS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'  // USDT
+]);
+
+const SCORE_WEIGHTS = {
+  frequency: 0.125,
+  volume: 0.25,
+  profitability: 0.375,
+  dexDiversity: 0.125,
+  stablecoinActivity: 0.125
+};
+
+const emptyMetrics = (): ScoringMetrics => ({
+  frequency: 0,
+  volume: 0,
+  profitability: 0,
+  dexDiversity: 0,
+  stablecoinActivity: 0,
+  finalScore: 0
+});
+
+const normalize = (value: number, max: number): number => Math.min(Math.max(value / max, 0), 1);
+
+/** SOL balance change of the fee payer */
+const solChange = (tx: ParsedTransactionWithMeta): number =>
+  (tx.meta!.postBalances[0] - tx.meta!.preBalances[0]) / 1e9;
+
+const programIds = (tx: ParsedTransactionWithMeta): string[] =>
+  tx.transaction.message.instructions.map(ix => ix.programId.toBase58());
+
+/**
+ * Scores a wallet from its recent transactions: how often and how much it
+ * trades, whether it makes money, how many programs it uses and its
+ * stablecoin activity.
+ *
+ * Only depends on web3.js so the frontend's wallet analysis can use it too.
+ */
+export class ScoringWalletKit {
+  public readonly connection: Connection;
+  public transactions: ParsedTransactionWithMeta[] = [];
+  private metrics: ScoringMetrics = emptyMetrics();
+
+  constructor(rpcUrl: string, config?: ConnectionConfig) {
+    this.connection = new Connection(rpcUrl, {
+      commitment: 'confirmed',
+      confirmTransactionInitialTimeout: 60000,
+      ...config
+    });
+  }
+
+  /**
+   * Load the wallet's latest transactions and score them. Returns the number
+   * of transactions loaded.
+   */
+  public async fetchTx(wallet: PublicKey, amountOfTx = 10): Promise<number> {
+    try {
+      const signatures = await this.connection.getSignaturesForAddress(wallet, { limit: amountOfTx });
+      const transactions = signatures.length > 0
+        ? await this.connection.getParsedTransactions(
+          signatures.map(signature => signature.signature),
+          { maxSupportedTransactionVersion: 0 }
+        )
+        : [];
+      this.transactions = transactions.filter((tx): tx is ParsedTransactionWithMeta => tx !== null);
+    } catch (error) {
+      throw new Error(`Failed to fetch transactions of ${wallet.toBase58()}: ${error instanceof Error ? error.message : error}`);
+    }
+    this.updateAllMetrics();
+    return this.transactions.length;
+  }
+
+  /**
+   * Transactions per day, normalized against 100 a day
+   */
+  public calcTxFreq(): number {
+    const times = this.transactions
+      .map(tx => tx.blockTime)
+      .filter((time): time is number => typeof time === 'number')
+      .sort((a, b) => a - b);
+    let frequency = 0;
+    if (times.length > 1) {
+      const days = Math.max((times[times.length - 1] - times[0]) / 86400, 1 / 24);
+      frequency = normalize(this.transactions.length / days, 100);
+    }
+    return this.metrics.frequency = frequency;
+  }
+
+  /**
+   * SOL moved in or out, summed
+   */
+  public calcVol(): number {
+    return this.metrics.volume = this.transactions
+      .filter(tx => tx.meta)
+      .reduce((sum, tx) => sum + Math.abs(solChange(tx)), 0);
+  }
+
+  /**
+   * Net SOL change over the loaded transactions
+   */
+  public calcProfitability(): number {
+    return this.metrics.profitability = this.transactions
+      .filter(tx => tx.meta)
+      .reduce((sum, tx) => sum + solChange(tx), 0);
+  }
+
+  /**
+   * Number of distinct programs called
+   */
+  public calcDexDiversity(): number {
+    return this.metrics.dexDiversity = new Set(this.transactions.flatMap(programIds)).size;
+  }
+
+  /**
+   * USDC and USDT moved in or out, summed
+   */
+  public calcStableTokenVol(): number {
+    let volume = 0;
+    for (const tx of this.transactions) {
+      const post = tx.meta?.postTokenBalances || [];
+      for (const before of tx.meta?.preTokenBalances || []) {
+        const after = post.find(balance => balance.accountIndex === before.accountIndex);
+        if (!after || !STABLECOIN_MINTS.has(before.mint) || before.owner !== after.owner) continue;
+        volume += Math.abs(
+          (Number(after.uiTokenAmount.amount) - Number(before.uiTokenAmount.amount)) / 10 ** after.uiTokenAmount.decimals
+        );
+      }
+    }
+    return this.metrics.stablecoinActivity = volume;
+  }
+
+  /**
+   * Weighted score from 0 to 1
+   */
+  public calcFinalScore(): number {
+    return this.metrics.finalScore =
+      this.calcTxFreq() * SCORE_WEIGHTS.frequency +
+      normalize(this.calcVol(), 1000) * SCORE_WEIGHTS.volume +
+      normalize(this.calcProfitability(), 100) * SCORE_WEIGHTS.profitability +
+      normalize(this.calcDexDiversity(), 10) * SCORE_WEIGHTS.dexDiversity +
+      normalize(this.calcStableTokenVol(), 1000) * SCORE_WEIGHTS.stablecoinActivity;
+  }
+
+  public getMetrics(): ScoringMetrics {
+    return { ...this.metrics };
+  }
+
+  public clearData(): void {
+    this.transactions = [];
+    this.metrics = emptyMetrics();
+  }
+
+  public getTransactionCount(): number {
+    return this.transactions.length;
+  }
+
+  public hasTransactions(): boolean {
+    return this.transactions.length > 0;
+  }
+
+  private updateAllMetrics(): void {
+    // The final score computes every other metric on the way
+    this.calcFinalScore();
+  }
+}
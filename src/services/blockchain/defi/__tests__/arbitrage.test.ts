@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import { Connection, Keypair } from '@solana/web3.js';
+import {
+  ArbitrageAuditLog,
+  ArbitrageScanner,
+  DexQuote,
+  DexQuoteAdapter
+} from '../arbitrage.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+/**
+ * Quotes at a fixed rate per direction
+ */
+const fixedRateAdapter = (name: string, buyRate: number, sellRate: number): DexQuoteAdapter => ({
+  name,
+  async getQuote(inputMint, outputMint, amount) {
+    const rate = inputMint === SOL ? buyRate : sellRate;
+    return {
+      dex: name,
+      inputMint,
+      outputMint,
+      inAmount: amount,
+      outAmount: BigInt(Math.floor(Number(amount) * rate)),
+      priceImpactPct: 0,
+      raw: {}
+    } as DexQuote;
+  },
+  async getSwapInstructions() {
+    throw new Error('not used');
+  }
+});
+
+const createScanner = (adapters: DexQuoteAdapter[], statuses: string[]) => {
+  const auditLog: ArbitrageAuditLog = {
+    async record(_opportunity, status) {
+      statuses.push(status);
+    }
+  };
+  return new ArbitrageScanner({} as Connection, {} as Keypair, {
+    adapters,
+    auditLog,
+    config: { priorityFeeMicroLamports: 100000, computeUnitLimit: 600000, dryRun: true }
+  });
+};
+
+describe('ArbitrageScanner', () => {
+  test('finds the best round trip net of fees', async () => {
+    const statuses: string[] = [];
+    const scanner = createScanner([
+      fixedRateAdapter('Orca', 1000, 0.00099),
+      fixedRateAdapter('Raydium', 990, 0.00103)
+    ], statuses);
+
+    const amountIn = BigInt(1000000000); // 1 SOL
+    const opportunity = await scanner.scan(SOL, BONK, amountIn);
+
+    expect(opportunity?.buy.dex).toBe('Orca');
+    expect(opportunity?.sell.dex).toBe('Raydium');
+    expect(opportunity?.grossProfit).toBe(BigInt(30000000));
+    // 5000 lamports base fee + 0.1 lamports/CU * 600k CU
+    expect(opportunity?.netProfit).toBe(BigInt(30000000 - 5000 - 60000));
+    expect(opportunity?.profitable).toBe(true);
+    expect(statuses).toEqual(['DETECTED']);
+  });
+
+  test('audits unprofitable round trips as skipped', async () => {
+    const statuses: string[] = [];
+    const scanner = createScanner([
+      fixedRateAdapter('Orca', 1000, 0.001),
+      fixedRateAdapter('Raydium', 1000, 0.001)
+    ], statuses);
+
+    const opportunity = await scanner.scan(SOL, BONK, BigInt(1000000000));
+    expect(opportunity?.profitable).toBe(false);
+    expect(statuses).toEqual(['SKIPPED']);
+
+    const execution = await scanner.scanAndExecute(SOL, BONK, BigInt(1000000000));
+    expect(execution).toBeNull();
+  });
+
+  test('only reports in dry-run mode', async () => {
+    const scanner = createScanner([
+      fixedRateAdapter('Orca', 1000, 0.00099),
+      fixedRateAdapter('Raydium', 990, 0.00103)
+    ], []);
+
+    const execution = await scanner.scanAndExecute(SOL, BONK, BigInt(1000000000));
+    expect(execution?.status).toBe('DETECTED');
+    expect(execution?.signatures).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from '@jest/globals';
+import { Backtester, calculateMaxDrawdown } from '../backtester.js';
+import { parsePriceCsv } from '../priceFixtures.js';
+import { TradingStrategy } from '../tradingEngine.js';
+
+const TOKEN = 'So11111111111111111111111111111111111111112';
+const HOUR = 60 * 60 * 1000;
+
+const candles = [100, 90, 85, 95, 105, 110].map((close, i) => ({
+  price: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  timestamp: Date.UTC(2024, 0, 1) + i * HOUR
+}));
+
+const strategy: TradingStrategy = {
+  id: 'dip-buyer',
+  name: 'Dip buyer',
+  tokens: [TOKEN],
+  rules: [
+    {
+      condition: { type: 'momentum', operator: '<', value: -5 },
+      action: { type: 'buy', amount: 100, urgency: 'low' },
+      priority: 1
+    },
+    {
+      condition: { type: 'momentum', operator: '>', value: 5 },
+      action: { type: 'sell', amount: 'all', urgency: 'high' },
+      priority: 2
+    }
+  ],
+  config: {
+    maxSlippage: 100,
+    maxPriceImpact: 5,
+    minLiquidity: 0,
+    retryAttempts: 1,
+    useJitoBundles: false
+  },
+  status: 'paused'
+};
+
+describe('Backtester', () => {
+  test('replays rules against candles and reports results', () => {
+    const backtester = new Backtester({ initialBalance: 1000, lookback: 1 });
+    const report = backtester.run(strategy, { [TOKEN]: candles });
+
+    expect(report.trades.map(trade => trade.side)).toEqual(['buy', 'buy', 'sell']);
+    expect(report.trades[2].realizedPnl).toBeGreaterThan(0);
+    expect(report.winRate).toBe(1);
+    expect(report.pnl).toBeGreaterThan(0);
+    expect(report.totalFees).toBeGreaterThan(0);
+    expect(report.equityCurve).toHaveLength(candles.length);
+  });
+
+  test('charges slippage, impact and fees on every fill', () => {
+    const backtester = new Backtester({ lookback: 1, fillModel: { feeBps: 30, slippageBps: 20 } });
+    const [buy] = backtester.run(strategy, { [TOKEN]: candles }).trades;
+
+    expect(buy.fee).toBeCloseTo(100 * 0.003);
+    expect(buy.slippage).toBeCloseTo(0.002);
+    expect(buy.priceImpact).toBeGreaterThan(0);
+    expect(buy.outputAmount).toBeLessThan(100 / 90);
+  });
+
+  test('rejects fills above the strategy price impact limit', () => {
+    const backtester = new Backtester({ lookback: 1, fillModel: { liquidity: 500 } });
+    const report = backtester.run(strategy, { [TOKEN]: candles });
+
+    expect(report.trades).toHaveLength(0);
+    expect(report.rejectedTrades).toBeGreaterThan(0);
+  });
+});
+
+describe('calculateMaxDrawdown', () => {
+  test('measures the largest peak to trough decline', () => {
+    const curve = [100, 120, 90, 110, 60, 130].map((equity, i) => ({ timestamp: i, equity }));
+    expect(calculateMaxDrawdown(curve)).toBeCloseTo(0.5);
+  });
+});
+
+describe('parsePriceCsv', () => {
+  test('reads candles and normalizes unix seconds', () => {
+    const parsed = parsePriceCsv('timestamp,close,volume\n1704070800,2,10\n1704067200,1,5\n');
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ close: 1, price: 1, high: 1, low: 1, volume: 5, timestamp: 1704067200000 });
+  });
+});
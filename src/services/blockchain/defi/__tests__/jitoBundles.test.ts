@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { BundleOutcomeUnknownError, HttpBlockEngineClient, JitoBundleSubmitter } from '../jitoBundles.js';
+
+const TIP_ACCOUNT = '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5';
+
+/**
+ * Local stand-in for the block engine JSON-RPC API. Bundles report the
+ * queued statuses in order, then stay on the last one.
+ */
+const startMockBlockEngine = async (statuses: string[]) => {
+  const bundles: string[][] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      let result: unknown;
+      if (method === 'getTipAccounts') {
+        result = [TIP_ACCOUNT];
+      } else if (method === 'sendBundle') {
+        bundles.push(params[0]);
+        result = `bundle-${bundles.length}`;
+      } else if (method === 'getInflightBundleStatuses') {
+        const status = statuses.length > 1 ? statuses.shift() : statuses[0];
+        result = { value: [{ bundle_id: params[0][0], status, landed_slot: status === 'Landed' ? 42 : null }] };
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, bundles, url: `http://127.0.0.1:${port}` };
+};
+
+const createSwap = (wallet: Keypair) => new Transaction().add(
+  SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: new PublicKey(TIP_ACCOUNT), lamports: 1 })
+);
+
+describe('JitoBundleSubmitter', () => {
+  const wallet = Keypair.generate();
+  let chain: { status: { slot: number; err: null; confirmationStatus: string } | null; blockHeight: number };
+  const connection = {
+    getLatestBlockhash: async () => ({ blockhash: 'EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k', lastValidBlockHeight: 100 }),
+    getSignatureStatuses: async () => ({ value: [chain.status] }),
+    getBlockHeight: async () => chain.blockHeight++
+  } as unknown as Connection;
+
+  beforeEach(() => {
+    chain = { status: null, blockHeight: 90 };
+  });
+  let mock: Awaited<ReturnType<typeof startMockBlockEngine>>;
+
+  afterEach(async () => {
+    await new Promise(resolve => mock.server.close(resolve));
+  });
+
+  describe('when the bundle lands', () => {
+    beforeEach(async () => {
+      mock = await startMockBlockEngine(['Pending', 'Landed']);
+    });
+
+    test('submits the swap with a tip and waits for it to land', async () => {
+      const submitter = new JitoBundleSubmitter(connection, wallet, new HttpBlockEngineClient(mock.url), {
+        tipLamports: 5000,
+        pollInterval: 10
+      });
+      const events: string[] = [];
+      submitter.on('bundleSubmitted', () => events.push('bundleSubmitted'));
+      submitter.on('bundleLanded', () => events.push('bundleLanded'));
+
+      const submission = await submitter.submit(createSwap(wallet));
+
+      expect(submission.bundleId).toBe('bundle-1');
+      expect(submission.status).toBe('Landed');
+      expect(submission.landedSlot).toBe(42);
+      expect(mock.bundles[0]).toHaveLength(2);
+      expect(events).toEqual(['bundleSubmitted', 'bundleLanded']);
+    });
+  });
+
+  describe('when the bundle fails', () => {
+    beforeEach(async () => {
+      mock = await startMockBlockEngine(['Failed']);
+    });
+
+    test('throws so the caller can fall back to RPC', async () => {
+      const submitter = new JitoBundleSubmitter(connection, wallet, new HttpBlockEngineClient(mock.url), {
+        pollInterval: 10
+      });
+      let failed = false;
+      submitter.on('bundleFailed', () => { failed = true; });
+
+      await expect(submitter.submit(createSwap(wallet))).rejects.toThrow('Bundle bundle-1 failed');
+      expect(failed).toBe(true);
+    });
+  });
+
+  describe('when the block engine never reports an outcome', () => {
+    beforeEach(async () => {
+      mock = await startMockBlockEngine(['Pending']);
+    });
+
+    test('reports the swap as landed if it shows up on chain', async () => {
+      chain.status = { slot: 77, err: null, confirmationStatus: 'confirmed' };
+      const submitter = new JitoBundleSubmitter(connection, wallet, new HttpBlockEngineClient(mock.url), {
+        pollInterval: 5,
+        timeout: 30
+      });
+
+      const submission = await submitter.submit(createSwap(wallet));
+
+      expect(submission).toMatchObject({ bundleId: 'bundle-1', status: 'Landed', landedSlot: 77 });
+    });
+
+    test('only gives up once the blockhash has expired', async () => {
+      const submitter = new JitoBundleSubmitter(connection, wallet, new HttpBlockEngineClient(mock.url), {
+        pollInterval: 5,
+        timeout: 30
+      });
+
+      await expect(submitter.submit(createSwap(wallet))).rejects.toThrow('Bundle bundle-1 expired');
+      expect(chain.blockHeight).toBeGreaterThan(100);
+    });
+
+    test('refuses to fall back when the signature cannot be looked up', async () => {
+      const offline = {
+        ...connection,
+        getLatestBlockhash: connection.getLatestBlockhash,
+        getSignatureStatuses: async () => { throw new Error('RPC unavailable'); }
+      } as unknown as Connection;
+      const submitter = new JitoBundleSubmitter(offline, wallet, new HttpBlockEngineClient(mock.url), {
+        pollInterval: 5,
+        timeout: 30,
+        expiryTimeout: 50
+      });
+
+      await expect(submitter.submit(createSwap(wallet))).rejects.toThrow(BundleOutcomeUnknownError);
+    });
+  });
+});
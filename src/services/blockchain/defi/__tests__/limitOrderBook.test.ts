@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { JupiterPriceV2, TokenPrice } from '../jupiterPriceV2.js';
+import { LimitOrder, LimitOrderBook, LimitOrderStore } from '../limitOrderBook.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+class MemoryStore implements LimitOrderStore {
+  public saved: LimitOrder[] = [];
+
+  async load(): Promise<LimitOrder[]> {
+    return JSON.parse(JSON.stringify(this.saved));
+  }
+
+  async save(orders: LimitOrder[]): Promise<void> {
+    this.saved = JSON.parse(JSON.stringify(orders));
+  }
+}
+
+describe('LimitOrderBook', () => {
+  let prices: Record<string, number>;
+  let fills: Array<{ orderId: string; amount: number; rate: number }>;
+  let fillRatio: number;
+  let store: MemoryStore;
+  let books: LimitOrderBook[];
+
+  const jupiterPriceV2 = {
+    getPrices: async (tokens: string[]) => ({
+      data: Object.fromEntries(tokens.map(token => [token, { id: token, price: String(prices[token]) } as TokenPrice])),
+      timeTaken: 0
+    })
+  } as unknown as JupiterPriceV2;
+
+  const createBook = () => {
+    const book = new LimitOrderBook(
+      jupiterPriceV2,
+      async (order, amount, market) => {
+        fills.push({ orderId: order.id, amount, rate: market.rate });
+        return { tradeId: `trade-${fills.length}`, filledAmount: amount * fillRatio };
+      },
+      { store, pollInterval: 60000 }
+    );
+    books.push(book);
+    return book;
+  };
+
+  beforeEach(() => {
+    // 1 SOL buys 150 USDC
+    prices = { [SOL]: 150, [USDC]: 1 };
+    fills = [];
+    fillRatio = 1;
+    store = new MemoryStore();
+    books = [];
+  });
+
+  afterEach(() => {
+    books.forEach(book => book.stop());
+  });
+
+  test('fills an order only once the market reaches its limit', async () => {
+    const book = createBook();
+    const order = await book.place({ inputToken: SOL, outputToken: USDC, amount: 2, limitPrice: 160 });
+    const completion = book.waitForCompletion(order.id);
+
+    await book.processOrders();
+    expect(fills).toEqual([]);
+    expect(book.getOrder(order.id)!.status).toBe('pending');
+
+    prices[SOL] = 161;
+    await book.processOrders();
+    expect(fills).toEqual([{ orderId: order.id, amount: 2, rate: 161 }]);
+
+    const filled = await completion;
+    expect(filled).toMatchObject({ status: 'filled', filledAmount: 2 });
+    expect(filled.fills.map(fill => [fill.tradeId, fill.amount, fill.price])).toEqual([['trade-1', 2, 161]]);
+    expect(book.getOpenOrders()).toEqual([]);
+    expect(store.saved).toEqual([]);
+  });
+
+  test('keeps a partially filled order open and fills the remainder later', async () => {
+    const book = createBook();
+    const partial: string[] = [];
+    book.on('orderPartiallyFilled', (order: LimitOrder) => partial.push(order.id));
+    const order = await book.place({ inputToken: SOL, outputToken: USDC, amount: 4, limitPrice: 140 });
+
+    fillRatio = 0.25;
+    await book.processOrders();
+    expect(partial).toEqual([order.id]);
+    expect(book.getOrder(order.id)).toMatchObject({ status: 'partially_filled', filledAmount: 1 });
+    expect(store.saved.map(saved => [saved.id, saved.filledAmount])).toEqual([[order.id, 1]]);
+
+    fillRatio = 1;
+    await book.processOrders();
+    expect(fills.map(fill => fill.amount)).toEqual([4, 3]);
+    expect(book.getOrder(order.id)).toMatchObject({ status: 'filled', filledAmount: 4 });
+  });
+
+  test('restores open orders after a restart and matches them again', async () => {
+    const first = createBook();
+    const order = await first.place({ inputToken: SOL, outputToken: USDC, amount: 1, limitPrice: 200 });
+    const cancelled = await first.place({ inputToken: SOL, outputToken: USDC, amount: 1, limitPrice: 200 });
+    await first.cancel(cancelled.id);
+    first.stop();
+    expect(store.saved.map(saved => saved.id)).toEqual([order.id]);
+
+    const restarted = createBook();
+    await restarted.initialize();
+    expect(restarted.getOpenOrders().map(open => open.id)).toEqual([order.id]);
+
+    prices[SOL] = 210;
+    await restarted.processOrders();
+    expect(fills).toEqual([{ orderId: order.id, amount: 1, rate: 210 }]);
+    expect(restarted.getOrder(order.id)!.status).toBe('filled');
+  });
+
+  test('stores an order as executing before its swap and does not match it again after a crash', async () => {
+    const book = createBook();
+    const order = await book.place({ inputToken: SOL, outputToken: USDC, amount: 1, limitPrice: 200 });
+
+    // The swap lands but the process dies before the fill is stored
+    let storedDuringSwap: LimitOrder[] = [];
+    const crashed = new LimitOrderBook(
+      jupiterPriceV2,
+      async () => {
+        storedDuringSwap = await store.load();
+        store.save = async () => { throw new Error('process exited'); };
+        return { tradeId: 'trade-lost', filledAmount: 1 };
+      },
+      { store, pollInterval: 60000 }
+    );
+    books.push(crashed);
+    await crashed.initialize();
+    prices[SOL] = 210;
+    await crashed.processOrders();
+    expect(storedDuringSwap.map(saved => saved.status)).toEqual(['executing']);
+    store.save = MemoryStore.prototype.save;
+
+    const restarted = createBook();
+    await restarted.initialize();
+    await restarted.processOrders();
+    expect(fills).toEqual([]);
+    expect(restarted.getOrder(order.id)!.status).toBe('executing');
+    await restarted.cancel(order.id);
+    expect(store.saved).toEqual([]);
+
+    // Orders are not restored over a store that cannot be read
+    store.load = async () => { throw new Error('Redis unavailable'); };
+    await expect(createBook().initialize()).rejects.toThrow('Redis unavailable');
+  });
+
+  test('expires orders past their deadline and rejects invalid ones', async () => {
+    const book = createBook();
+    const deadline = Date.now() + 1000;
+    const order = await book.place({ inputToken: SOL, outputToken: USDC, amount: 1, limitPrice: 200, deadline });
+    const completion = book.waitForCompletion(order.id);
+
+    const now = Date.now;
+    Date.now = () => deadline + 1;
+    try {
+      await book.processOrders();
+    } finally {
+      Date.now = now;
+    }
+
+    await expect(completion).rejects.toThrow(`Order ${order.id} expired`);
+    expect(fills).toEqual([]);
+    expect(store.saved).toEqual([]);
+    await expect(book.cancel(order.id)).rejects.toThrow('already expired');
+    await expect(book.place({ inputToken: SOL, outputToken: USDC, amount: 1, limitPrice: 0 })).rejects.toThrow('Limit price required');
+  });
+});
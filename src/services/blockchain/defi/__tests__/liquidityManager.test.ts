@@ -0,0 +1,152 @@
+import { describe, test, expect } from '@jest/globals';
+import { Connection, Keypair } from '@solana/web3.js';
+import type { WhirlpoolClient } from '@orca-so/whirlpools-sdk';
+import { DlmmFactory } from '../liquidityAdapters.js';
+import {
+  LiquidityManager,
+  LiquidityPool,
+  LiquidityProtocolAdapter,
+  LPPosition,
+  LPPositionStore,
+  PositionAmounts,
+  calculateImpermanentLoss
+} from '../liquidityManager.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+/**
+ * Single SOL/USDC pool whose price and position amounts are set by the test
+ */
+const createAdapter = (state: { price: number; amounts: PositionAmounts; openFailures?: number }) => {
+  let opened = 0;
+  const pool = (): LiquidityPool => ({
+    address: 'pool',
+    protocol: 'orca',
+    tokenA: SOL,
+    tokenB: USDC,
+    price: state.price,
+    metrics: { tvl: 1000000, volume24h: 500000, fees24h: 1500, apy: 0.4, volatility: 0, utilization: 0.5 }
+  });
+  const adapter: LiquidityProtocolAdapter = {
+    protocol: 'orca',
+    findPool: async () => pool(),
+    getPool: async () => pool(),
+    openPosition: async (_pool, amountA, amountB, range) => {
+      if (state.openFailures && state.openFailures-- > 0) throw new Error('blockhash expired');
+      return { positionAddress: `position-${++opened}`, amountA, amountB, range, signatures: [] };
+    },
+    getPositionAmounts: async () => state.amounts,
+    collectFees: async () => ({ amountA: 0, amountB: 0, feesA: state.amounts.feesA, feesB: state.amounts.feesB, signatures: [] }),
+    removeLiquidity: async () => ({ ...state.amounts, signatures: [] })
+  };
+  return adapter;
+};
+
+const memoryStore = () => {
+  let saved: LPPosition[] = [];
+  const store: LPPositionStore = {
+    load: async () => JSON.parse(JSON.stringify(saved)),
+    save: async positions => { saved = JSON.parse(JSON.stringify(positions)); }
+  };
+  return { store, saved: () => saved };
+};
+
+const createManager = (adapter: LiquidityProtocolAdapter, store: LPPositionStore) => {
+  const manager = new LiquidityManager({} as Connection, {} as WhirlpoolClient, {} as DlmmFactory, {} as Keypair, {
+    adapters: { orca: adapter },
+    store,
+    analytics: null
+  });
+  manager.addStrategy({
+    id: 'sol-usdc',
+    tokenPair: [SOL, USDC],
+    targetRatio: 0.5,
+    rangeWidth: 0.2,
+    rebalanceThreshold: 0.05,
+    minApy: 0,
+    maxSlippage: 0.01
+  });
+  return manager;
+};
+
+describe('LiquidityManager', () => {
+  test('measures impermanent loss against holding', () => {
+    // Constant product position after a 4x move: 2·√4/(1+4) - 1 = -20%
+    const result = calculateImpermanentLoss(1, 100, 0.5, 200, 400);
+    expect(result.hodlValue).toBe(500);
+    expect(result.positionValue).toBe(400);
+    expect(result.impermanentLoss).toBeCloseTo(-0.2, 6);
+  });
+
+  test('tracks fees and IL and rebalances once the price leaves the range', async () => {
+    const state = { price: 100, amounts: { amountA: 1, amountB: 100, feesA: 0, feesB: 0 } };
+    const manager = createManager(createAdapter(state), memoryStore().store);
+
+    const positionId = await manager.addLiquidity('orca', SOL, USDC, 1, 100);
+    const [position] = manager.getPositions();
+    expect(position.range?.lower).toBeCloseTo(90, 6);
+    expect(position.range?.upper).toBeCloseTo(110, 6);
+
+    // Price runs above the range: the position is all USDC plus some fees
+    state.price = 120;
+    state.amounts = { amountA: 0, amountB: 210, feesA: 0.01, feesB: 2 };
+    const updated = await manager.updatePosition(position);
+    expect(updated.inRange).toBe(false);
+    expect(updated.hodlValue).toBe(220);
+    expect(updated.impermanentLoss).toBeCloseTo(210 / 220 - 1, 6);
+    expect(updated.fees).toBeCloseTo(3.2, 6);
+
+    const rebalanced: Array<{ positionId: string; newPositionId: string }> = [];
+    manager.on('positionRebalanced', event => rebalanced.push(event));
+    await manager.rebalancePosition(positionId);
+
+    expect(rebalanced).toHaveLength(1);
+    expect(rebalanced[0].positionId).toBe(positionId);
+    const positions = manager.getPositions();
+    expect(positions).toHaveLength(1);
+    expect(positions[0].id).toBe(rebalanced[0].newPositionId);
+    expect(positions[0].range?.lower).toBeCloseTo(108, 6);
+    expect(positions[0].range?.upper).toBeCloseTo(132, 6);
+
+    // IL is still measured against the first deposit, the reinvested fees count as deposited
+    expect(positions[0]).toMatchObject({
+      rebalancedFrom: positionId,
+      entryPrice: 100,
+      entryAmountA: 1.01,
+      entryAmountB: 102,
+      collectedFeesA: 0.01,
+      collectedFeesB: 2,
+      timestamp: position.timestamp
+    });
+    expect(positions[0].impermanentLoss).toBeCloseTo(213.2 / 223.2 - 1, 6);
+    expect(positions[0].positionValue + positions[0].fees - positions[0].hodlValue)
+      .toBeCloseTo(updated.positionValue + updated.fees - updated.hodlValue, 6);
+  });
+
+  test('keeps the old position until a failed rebalance has re-added the liquidity', async () => {
+    const state = { price: 100, amounts: { amountA: 1, amountB: 100, feesA: 0, feesB: 0 }, openFailures: 0 };
+    const { store, saved } = memoryStore();
+    const manager = createManager(createAdapter(state), store);
+    const positionId = await manager.addLiquidity('orca', SOL, USDC, 1, 100);
+
+    state.price = 120;
+    state.amounts = { amountA: 0, amountB: 210, feesA: 0, feesB: 0 };
+    state.openFailures = 1;
+    await expect(manager.rebalancePosition(positionId)).rejects.toThrow('blockhash expired');
+
+    // The withdrawn tokens are on record, nothing is lost
+    expect(saved().map(position => [position.id, position.pendingRebalance])).toEqual([
+      [positionId, { amountA: 0, amountB: 210, feesA: 0, feesB: 0 }]
+    ]);
+
+    // Back in range, the retry still finishes the rebalance without withdrawing again
+    state.price = 100;
+    state.amounts = { amountA: 5, amountB: 5, feesA: 0, feesB: 0 };
+    await manager.rebalancePosition(positionId);
+    const [position] = saved();
+    expect(saved()).toHaveLength(1);
+    expect(position).toMatchObject({ rebalancedFrom: positionId, amountA: 0, amountB: 210 });
+    expect(position.pendingRebalance).toBe(undefined);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect } from '@jest/globals';
+import { LPAnalyticsService, LPAnalyticsStore, LPPositionSummary, LPSnapshot, createSnapshot } from '../lpAnalytics.js';
+import { LPPosition } from '../liquidityManager.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const memoryStore = (): LPAnalyticsStore => {
+  let summaries: LPPositionSummary[] = [];
+  const series = new Map<string, LPSnapshot[]>();
+  return {
+    loadSummaries: async () => summaries.map(summary => ({ ...summary })),
+    saveSummaries: async saved => { summaries = saved; },
+    loadSeries: async id => [...(series.get(id) || [])],
+    saveSeries: async (id, saved) => { series.set(id, saved); }
+  };
+};
+
+const createPosition = (overrides: Partial<LPPosition> = {}): LPPosition => ({
+  id: 'position-1',
+  protocol: 'orca',
+  poolAddress: 'pool',
+  tokenA: 'SOL',
+  tokenB: 'USDC',
+  amountA: 1,
+  amountB: 100,
+  fees: 0,
+  feesA: 0,
+  feesB: 0,
+  collectedFeesA: 0,
+  collectedFeesB: 0,
+  apy: 0.5,
+  range: { lower: 90, upper: 110 },
+  entryPrice: 100,
+  entryAmountA: 1,
+  entryAmountB: 100,
+  currentPrice: 100,
+  hodlValue: 200,
+  positionValue: 200,
+  impermanentLoss: 0,
+  inRange: true,
+  timestamp: Date.now(),
+  updatedAt: Date.now(),
+  ...overrides
+});
+
+describe('LPAnalyticsService', () => {
+  test('compares the position with holding and annualizes the fee yield', () => {
+    const openedAt = Date.now() - 10 * DAY;
+    const snapshot = createSnapshot(createPosition({
+      timestamp: openedAt,
+      hodlValue: 210,
+      positionValue: 205,
+      impermanentLoss: 205 / 210 - 1,
+      fees: 4
+    }), 0.5, openedAt + 10 * DAY);
+
+    expect(snapshot.pnlVsHodl).toBe(-1);
+    // 2% of the 200 deposit in 10 days
+    expect(snapshot.realizedApy).toBeCloseTo(0.02 * 36.5, 6);
+  });
+
+  test('keeps a time series per position with the advertised APY from opening', async () => {
+    const analytics = new LPAnalyticsService(memoryStore());
+    const position = createPosition();
+
+    await analytics.record(position);
+    await analytics.record({ ...position, apy: 0.2, fees: 1, positionValue: 198 });
+
+    const [summary] = await analytics.getPositions();
+    expect(summary.advertisedApy).toBe(0.5);
+    expect(summary.latest?.pnlVsHodl).toBe(-1);
+
+    const history = await analytics.getHistory(position.id);
+    expect(history).toHaveLength(2);
+    expect(history[1].advertisedApy).toBe(0.5);
+  });
+
+  test('continues the history of a rebalanced position', async () => {
+    const analytics = new LPAnalyticsService(memoryStore());
+    const position = createPosition();
+    await analytics.record(position);
+    await analytics.record({ ...position, impermanentLoss: -0.05, inRange: false });
+
+    await analytics.record(createPosition({ id: 'position-2', rebalancedFrom: 'position-1', apy: 0.3, impermanentLoss: -0.04 }));
+
+    const history = await analytics.getHistory('position-2');
+    expect(history.map(snapshot => snapshot.impermanentLoss)).toEqual([0, -0.05, -0.04]);
+    const summary = (await analytics.getPositions()).find(s => s.positionId === 'position-2');
+    expect(summary).toMatchObject({ rebalancedFrom: 'position-1', advertisedApy: 0.5 });
+  });
+});
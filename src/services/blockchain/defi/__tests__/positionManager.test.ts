@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import {
+  ExitReason,
+  ManagedPosition,
+  PositionManager,
+  PositionStore,
+  postPositionEvents
+} from '../positionManager.js';
+import type { NewPost } from '../../../social/engagement/postQueue.js';
+import { TradeResult } from '../tradingEngine.js';
+
+const TOKEN = 'So11111111111111111111111111111111111111112';
+
+class MemoryStore implements PositionStore {
+  public saved: ManagedPosition[] = [];
+
+  async load(): Promise<ManagedPosition[]> {
+    return JSON.parse(JSON.stringify(this.saved));
+  }
+
+  async save(positions: ManagedPosition[]): Promise<void> {
+    this.saved = JSON.parse(JSON.stringify(positions));
+  }
+}
+
+describe('PositionManager', () => {
+  let store: MemoryStore;
+  let exits: Array<{ amount: number; reason: ExitReason }>;
+  let manager: PositionManager;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    exits = [];
+    manager = new PositionManager(
+      async (position, amount, reason) => {
+        exits.push({ amount, reason });
+        return { id: `exit-${exits.length}` } as TradeResult;
+      },
+      async () => 100,
+      { store, pollInterval: 60000 }
+    );
+  });
+
+  test('sells the take-profit ladder and moves the stop to break-even', async () => {
+    const stopMoves: number[] = [];
+    manager.on('stopMoved', event => stopMoves.push(event.position.stopPrice));
+
+    const position = await manager.open({
+      token: TOKEN,
+      entryPrice: 100,
+      size: 100,
+      plan: {
+        stopLossPct: 0.1,
+        takeProfits: [
+          { gainPct: 1, sellPct: 0.25 },
+          { gainPct: 0.5, sellPct: 0.25 }
+        ],
+        breakEvenAfterFirstTp: true
+      }
+    });
+    manager.stop();
+
+    await manager.update(position, 160);
+    expect(exits).toEqual([{ amount: 25, reason: 'takeProfit' }]);
+    expect(position.size).toBe(75);
+    expect(stopMoves).toEqual([100]);
+
+    await manager.update(position, 210);
+    expect(exits[1]).toEqual({ amount: 25, reason: 'takeProfit' });
+
+    await manager.update(position, 100);
+    expect(exits[2]).toEqual({ amount: 50, reason: 'breakEven' });
+    expect(position.status).toBe('closed');
+  });
+
+  test('trails the stop behind the highest price', async () => {
+    const position = await manager.open({
+      token: TOKEN,
+      entryPrice: 100,
+      size: 10,
+      plan: { stopLossPct: 0.05, trailingStopPct: 0.1 }
+    });
+    manager.stop();
+
+    await manager.update(position, 150);
+    expect(position.stopPrice).toBeCloseTo(135);
+
+    await manager.update(position, 140);
+    expect(exits).toEqual([]);
+
+    await manager.update(position, 134);
+    expect(exits).toEqual([{ amount: 10, reason: 'trailingStop' }]);
+  });
+
+  test('exits after the maximum holding time', async () => {
+    const position = await manager.open({
+      token: TOKEN,
+      entryPrice: 100,
+      size: 10,
+      plan: { stopLossPct: 0.05, maxHoldMs: 1000 }
+    });
+    manager.stop();
+
+    position.openedAt -= 2000;
+    await manager.update(position, 101);
+    expect(exits).toEqual([{ amount: 10, reason: 'timeExit' }]);
+  });
+
+  test('restores open positions from the store', async () => {
+    await manager.open({ token: TOKEN, entryPrice: 100, size: 10 });
+    manager.stop();
+    expect(store.saved).toHaveLength(1);
+
+    const restored = new PositionManager(
+      async () => ({ id: 'exit' } as TradeResult),
+      async () => 100,
+      { store, pollInterval: 60000 }
+    );
+    await restored.initialize();
+    restored.stop();
+
+    expect(restored.getOpenPositions()).toHaveLength(1);
+    expect(restored.getOpenPositions()[0].stopPrice).toBeCloseTo(95);
+  });
+
+  test('throws when the store cannot be loaded or a manual close fails', async () => {
+    const failing = new PositionManager(
+      async () => { throw new Error('swap failed'); },
+      async () => 100,
+      { store, pollInterval: 60000 }
+    );
+    store.load = async () => { throw new Error('store down'); };
+    await expect(failing.initialize()).rejects.toThrow('store down');
+
+    const position = await failing.open({ token: TOKEN, entryPrice: 100, size: 10 });
+    failing.stop();
+
+    await expect(failing.close(position.id)).rejects.toThrow('swap failed');
+    expect(position.status).toBe('open');
+    expect(position.size).toBe(10);
+  });
+
+  test('rejects ladders that sell more than the position', async () => {
+    await expect(manager.open({
+      token: TOKEN,
+      entryPrice: 100,
+      size: 10,
+      plan: { takeProfits: [{ gainPct: 0.5, sellPct: 0.6 }, { gainPct: 1, sellPct: 0.6 }] }
+    })).rejects.toThrow('Take-profit levels');
+  });
+
+  test('queues a post for each position update', async () => {
+    const posts: NewPost[] = [];
+    postPositionEvents(manager, {
+      addToQueue: async post => {
+        posts.push(post);
+        return `post-${posts.length}`;
+      }
+    });
+
+    const position = await manager.open({
+      token: TOKEN,
+      entryPrice: 100,
+      size: 10,
+      plan: { stopLossPct: 0.1, takeProfits: [{ gainPct: 0.5, sellPct: 0.5 }] }
+    });
+    manager.stop();
+    await manager.update(position, 150);
+    await manager.update(position, 80);
+
+    expect(posts.map(post => post.content)).toEqual([
+      `Opened a position in ${TOKEN} at 100`,
+      `Took profit on ${TOKEN} at +50.0%, sold 5`,
+      `Closed ${TOKEN} (stopLoss) at -20.0%`
+    ]);
+    expect(posts.map(post => post.idempotencyKey)).toEqual([
+      `position:${position.id}:positionOpened:0`,
+      `position:${position.id}:takeProfitHit:1`,
+      `position:${position.id}:positionClosed:2`
+    ]);
+  });
+});
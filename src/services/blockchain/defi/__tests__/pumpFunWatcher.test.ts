@@ -0,0 +1,170 @@
+import { describe, test, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { Connection, Keypair, Logs, PublicKey } from '@solana/web3.js';
+import { decodePumpFunLogs } from '../../../../actions/events.js';
+import { CurveState, PumpFunWatcher } from '../pumpFunWatcher.js';
+import type { PumpFunSDK } from '../../../../actions/pumpfun.js';
+import { RiskEngine, TradeRiskRequest } from '../../../trading/riskEngine.js';
+import { RiskLimitError } from '../../../../utils/error-handler.js';
+import { WalletRegistry, WalletSpend } from '../../../wallet/walletRegistry.js';
+
+interface RecordedTransaction {
+  signature: string;
+  slot: number;
+  err: unknown;
+  logs: string[];
+}
+
+const fixture: {
+  mint: string;
+  creator: string;
+  buyers: string[];
+  transactions: RecordedTransaction[];
+  completion: RecordedTransaction;
+} = JSON.parse(
+  fs.readFileSync(path.resolve(process.cwd(), 'src/services/blockchain/defi/__tests__/fixtures/pumpfun-logs.json'), 'utf-8')
+);
+
+const replay = (watcher: PumpFunWatcher, transaction: RecordedTransaction) =>
+  watcher.handleLogs(
+    { signature: transaction.signature, err: transaction.err, logs: transaction.logs } as Logs,
+    transaction.slot
+  );
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PumpFunWatcher', () => {
+  test('decodes create and trade events from recorded logs', () => {
+    const [create, devBuy] = decodePumpFunLogs(fixture.transactions[0].logs);
+
+    expect(create.type).toBe('createEvent');
+    if (create.type !== 'createEvent') return;
+    expect(create.event.symbol).toBe('AGM');
+    expect(create.event.mint.toBase58()).toBe(fixture.mint);
+    expect(create.event.user.toBase58()).toBe(fixture.creator);
+
+    expect(devBuy.type).toBe('tradeEvent');
+    if (devBuy.type !== 'tradeEvent') return;
+    expect(devBuy.event.isBuy).toBe(true);
+    expect(devBuy.event.solAmount).toBe(BigInt(1_500_000_000));
+
+    // Data logged by another program is not a pump.fun event
+    const unrelated = fixture.transactions[fixture.transactions.length - 1];
+    expect(decodePumpFunLogs(unrelated.logs)).toHaveLength(0);
+  });
+
+  test('tracks curve state, signals entries and reports completion and migration', async () => {
+    const connection = {
+      getParsedTransaction: async () => ({
+        meta: { postTokenBalances: [{ mint: fixture.mint }, { mint: 'So11111111111111111111111111111111111111112' }] }
+      })
+    } as unknown as Connection;
+    const watcher = new PumpFunWatcher(connection, {
+      fetchSocials: async () => ({ twitter: 'https://x.com/agentmeme' })
+    });
+
+    const entries: CurveState[] = [];
+    const completed: CurveState[] = [];
+    const migrated: CurveState[] = [];
+    watcher.on('entrySignal', ({ curve }) => entries.push(curve));
+    watcher.on('curveCompleted', ({ curve }) => completed.push(curve));
+    watcher.on('curveMigrated', ({ curve }) => migrated.push(curve));
+
+    fixture.transactions.slice(0, 10).forEach(transaction => replay(watcher, transaction));
+    await flush();
+
+    const curve = watcher.getCurve(fixture.mint)!;
+    expect(curve.creator).toBe(fixture.creator);
+    expect(curve.buyers).toHaveLength(10);
+    expect(entries).toHaveLength(0);
+    expect(watcher.evaluateEntry(curve).reasons).toEqual(['9/10 buyers']);
+
+    // The tenth buyer, then a failed transaction that must not count
+    fixture.transactions.slice(10).forEach(transaction => replay(watcher, transaction));
+    expect(curve.buyers).toHaveLength(11);
+    expect(entries).toHaveLength(1);
+
+    const decision = watcher.evaluateEntry(curve);
+    expect(decision.devHoldingPct).toBeGreaterThan(0.04);
+    expect(decision.devHoldingPct).toBeLessThan(0.1);
+    expect(curve.progress).toBeGreaterThan(0);
+    expect(curve.progress).toBeLessThan(0.5);
+
+    replay(watcher, fixture.completion);
+    expect(completed).toHaveLength(1);
+    expect(curve.complete).toBe(true);
+    expect(curve.progress).toBe(1);
+    expect(curve.realTokenReserves).toBe(BigInt(0));
+
+    await watcher.handleMigrationLogs({
+      signature: 'migration',
+      err: null,
+      logs: ['Program log: initialize2: InitializeInstruction2 { nonce: 254 }']
+    } as Logs, 300000200);
+    expect(migrated).toHaveLength(1);
+    expect(curve.migrated).toBe(true);
+  });
+
+  test('snipes entries through the risk engine and the registry wallet', async () => {
+    const signer = Keypair.generate();
+    const checks: TradeRiskRequest[] = [];
+    const spends: Array<WalletSpend | undefined> = [];
+    const buys: Array<{ buyer: string; mint: string; lamports: number }> = [];
+    let rejectMint: string | undefined;
+
+    const sniper = {
+      sdk: {
+        buy: async (buyer: Keypair, mint: PublicKey, lamports: bigint) => {
+          buys.push({ buyer: buyer.publicKey.toBase58(), mint: mint.toBase58(), lamports: Number(lamports) });
+          return { success: true, signature: 'snipe-1' };
+        }
+      } as unknown as PumpFunSDK,
+      buyAmountSol: 0.5,
+      minTokenScore: 60,
+      risk: {
+        checkTrade: async (request: TradeRiskRequest) => {
+          checks.push(request);
+          if (request.outputMint === rejectMint) {
+            throw new RiskLimitError(`${request.outputMint} scored 20/100, minimum is 60`, 'tokenSafety');
+          }
+        }
+      } as unknown as RiskEngine,
+      registry: {
+        useWallet: async <T>(_role: string, _action: string, spend: WalletSpend | undefined, task: (keypair: Keypair) => Promise<T>) => {
+          spends.push(spend);
+          return task(signer);
+        }
+      } as unknown as WalletRegistry
+    };
+    const entries = () => {
+      const watcher = new PumpFunWatcher({} as Connection, {
+        fetchSocials: async () => ({ twitter: 'https://x.com/agentmeme' }),
+        sniper
+      });
+      const sniped: string[] = [];
+      const failed: unknown[] = [];
+      watcher.on('sniped', ({ signature }) => sniped.push(signature));
+      watcher.on('snipeFailed', ({ error }) => failed.push(error));
+      fixture.transactions.forEach(transaction => replay(watcher, transaction));
+      return { sniped, failed };
+    };
+
+    const bought = entries();
+    await flush();
+    expect(checks).toHaveLength(1);
+    expect(checks[0]).toMatchObject({ outputMint: fixture.mint, amount: 0.5, minTokenScore: 60 });
+    expect(spends).toEqual([{ mint: 'So11111111111111111111111111111111111111112', amount: 0.5 }]);
+    expect(buys).toEqual([{ buyer: signer.publicKey.toBase58(), mint: fixture.mint, lamports: 500_000_000 }]);
+    expect(bought.sniped).toEqual(['snipe-1']);
+
+    // A rug scan rejection stops the buy before the wallet is used
+    rejectMint = fixture.mint;
+    const rejected = entries();
+    await flush();
+    expect(buys).toHaveLength(1);
+    expect(spends).toHaveLength(1);
+    expect(rejected.sniped).toEqual([]);
+    expect(rejected.failed[0]).toBeInstanceOf(RiskLimitError);
+  });
+});
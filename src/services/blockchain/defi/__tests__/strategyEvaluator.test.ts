@@ -0,0 +1,246 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { StrategyEvaluator } from '../strategyEvaluator.js';
+import { TradeConfig, TradeParams, TradeResult, TradeRule, TradingEngine, TradingStrategy } from '../tradingEngine.js';
+import { MarketData, MarketDataProcessor } from '../../../market/data/DataProcessor.js';
+import { SignalTimeframe, SignalType, TradingSignal, TradingSignalGenerator } from '../../../market/signals/tradingSignals.js';
+import { SignalPerformanceTracker } from '../../../market/signals/signalPerformance.js';
+import { AIService } from '../../../ai/ai.js';
+import { PriceData } from '../../../../types/market.js';
+import { PriceMonitor } from '../../../market/analysis/priceMonitor.js';
+import { computeIndicators } from '../../../market/signals/indicators.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL = 'So11111111111111111111111111111111111111112';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const config: TradeConfig = {
+  maxSlippage: 80,
+  maxPriceImpact: 1,
+  minLiquidity: 0,
+  retryAttempts: 1,
+  useJitoBundles: false
+};
+
+const rule = (
+  condition: TradeRule['condition'],
+  action: TradeRule['action'],
+  priority: number
+): TradeRule => ({ condition, action, priority });
+
+const createStrategy = (rules: TradeRule[], status: TradingStrategy['status'] = 'active'): TradingStrategy => ({
+  id: 'bonk',
+  name: 'BONK swings',
+  tokens: [BONK],
+  rules,
+  config,
+  status
+});
+
+// An accelerating rally
+const rally = (): PriceData[] => Array.from({ length: 60 }, (_, i) => {
+  const price = 0.00002 * Math.exp(0.0004 * i * i);
+  return { price, high: price * 1.01, low: price * 0.99, close: price, volume: 1e6, timestamp: i * 3600000 };
+});
+
+const createSignal = (action: TradingSignal['action'], strength: number, token?: string): TradingSignal => ({
+  id: `signal-${Math.random()}`,
+  type: SignalType.TECHNICAL,
+  action,
+  strength,
+  confidence: 1,
+  timeframe: SignalTimeframe.INTRADAY,
+  indicators: [],
+  metadata: token ? { token } : {},
+  timestamp: Date.now()
+});
+
+describe('StrategyEvaluator', () => {
+  let strategies: TradingStrategy[];
+  let trades: TradeParams[];
+  let balances: Record<string, number>;
+  let momentum: number;
+  let signals: TradingSignal[];
+  let tradeError: Error | undefined;
+  let history: PriceData[];
+  let engine: TradingEngine;
+  let dataProcessor: MarketDataProcessor;
+  let evaluator: StrategyEvaluator;
+
+  beforeEach(() => {
+    strategies = [];
+    trades = [];
+    balances = {};
+    momentum = 0;
+    signals = [];
+    tradeError = undefined;
+    history = [];
+
+    engine = {
+      getStrategies: () => strategies,
+      getTokenBalance: async (mint: string) => balances[mint] || 0,
+      executeTrade: async (params: TradeParams) => {
+        if (tradeError) throw tradeError;
+        trades.push(params);
+        return { id: `trade-${trades.length}` } as TradeResult;
+      }
+    } as unknown as TradingEngine;
+    dataProcessor = {
+      getMarketData: async () => ({ price: 0.00002, volume24h: 1e6, priceChange24h: momentum }) as MarketData,
+      getHistoricalPrices: async () => history,
+      getCandleResolution: () => '1h'
+    } as unknown as MarketDataProcessor;
+    const signalGenerator = {
+      getActiveSignals: () => signals,
+      generateSignals: async () => []
+    } as unknown as TradingSignalGenerator;
+
+    evaluator = new StrategyEvaluator(engine, dataProcessor, signalGenerator, { cooldown: 60000 });
+  });
+
+  test('runs only the highest priority matching rule and then cools down', async () => {
+    strategies = [createStrategy([
+      rule({ type: 'momentum', operator: '<', value: -8 }, { type: 'buy', amount: 25, urgency: 'medium' }, 10),
+      rule({ type: 'volume', operator: '>', value: 1000 }, { type: 'sell', amount: 5, urgency: 'low' }, 5)
+    ])];
+    momentum = -10;
+
+    const results = await evaluator.evaluate();
+
+    // Medium urgency slippage is capped at the strategy's 80 bps
+    expect(results.map(result => result.id)).toEqual(['trade-1']);
+    expect(trades).toEqual([{
+      inputToken: USDC,
+      outputToken: BONK,
+      amount: 25,
+      type: 'market',
+      slippageBps: 80,
+      priorityFeeMicroLamports: 100000
+    }]);
+
+    await evaluator.evaluate();
+    expect(trades).toHaveLength(1);
+  });
+
+  test('sells the whole balance and skips tokens it does not hold', async () => {
+    strategies = [createStrategy([
+      rule({ type: 'momentum', operator: '>', value: 15 }, { type: 'sell', amount: 'all', urgency: 'high' }, 20)
+    ])];
+    momentum = 20;
+
+    await evaluator.evaluate();
+    expect(trades).toEqual([]);
+
+    balances[BONK] = 1234;
+    strategies = [{ ...strategies[0], id: 'bonk-2' }];
+    await evaluator.evaluate();
+    expect(trades).toMatchObject([{ inputToken: BONK, outputToken: USDC, amount: 1234, slippageBps: 80 }]);
+  });
+
+  test('scores only the signals issued for the strategy token', async () => {
+    strategies = [createStrategy([
+      rule({ type: 'signal', operator: 'between', value: [0.5, 2] }, { type: 'buy', amount: 10, urgency: 'low' }, 5)
+    ])];
+    signals = [
+      createSignal('buy', 0.8, BONK),
+      createSignal('buy', 3, SOL),
+      // Signals without a token are not about BONK either
+      createSignal('sell', 1)
+    ];
+
+    const [match] = await evaluator.findMatches();
+    expect(match.observed).toBeCloseTo(0.8, 10);
+  });
+
+  test('trades signal rules on signals generated from the latest candles', async () => {
+    const recorded: TradingSignal[] = [];
+    const performance = {
+      getWeights: () => ({ types: {}, indicators: {} }),
+      record: async (signal: TradingSignal) => { recorded.push(signal); return null; }
+    } as unknown as SignalPerformanceTracker;
+    const generator = new TradingSignalGenerator({} as AIService, performance);
+    evaluator = new StrategyEvaluator(engine, dataProcessor, generator, { cooldown: 60000 });
+    strategies = [createStrategy([
+      rule({ type: 'signal', operator: '>', value: 0.3 }, { type: 'buy', amount: 10, urgency: 'low' }, 5)
+    ])];
+
+    // Nothing to score before there are candles
+    expect(await evaluator.findMatches()).toEqual([]);
+
+    history = rally();
+
+    const [result] = await evaluator.evaluate();
+    expect(result.id).toBe('trade-1');
+    expect(trades).toMatchObject([{ inputToken: USDC, outputToken: BONK, amount: 10 }]);
+    expect(recorded.length).toBeGreaterThan(0);
+    expect(recorded.every(signal => signal.metadata.token === BONK && signal.action === 'buy')).toBe(true);
+
+    // The next round replaces the signals instead of adding to them, and
+    // repeats are not scored twice
+    const active = generator.getActiveSignals().length;
+    await evaluator.findMatches();
+    expect(generator.getActiveSignals()).toHaveLength(active);
+    expect(recorded).toHaveLength(active);
+
+    // A reversal is a new call
+    history = rally().reverse().map((bar, i) => ({ ...bar, timestamp: i * 3600000 }));
+    await evaluator.findMatches();
+    const reversed = recorded.slice(active);
+    expect(reversed.length).toBeGreaterThan(0);
+    expect(reversed.every(signal => signal.action === 'sell')).toBe(true);
+  });
+
+  test('generates signals from the indicators of the tokens it monitors', async () => {
+    const monitored: string[] = [];
+    const monitor = Object.assign(new EventEmitter(), {
+      live: new Map<string, ReturnType<typeof computeIndicators>>(),
+      startMonitoring: async (token: string) => { monitored.push(token); },
+      stopMonitoring: (token: string) => { monitored.splice(monitored.indexOf(token), 1); },
+      getIndicators(token: string) { return this.live.get(token) || null; }
+    });
+    const performance = {
+      getWeights: () => ({ types: {}, indicators: {} }),
+      record: async () => null
+    } as unknown as SignalPerformanceTracker;
+    const generator = new TradingSignalGenerator({} as AIService, performance);
+    evaluator = new StrategyEvaluator(engine, dataProcessor, generator, {
+      priceMonitor: monitor as unknown as PriceMonitor
+    });
+    strategies = [createStrategy([
+      rule({ type: 'signal', operator: '>', value: 0.3 }, { type: 'buy', amount: 10, urgency: 'low' }, 5)
+    ])];
+
+    evaluator.start();
+    expect(monitored).toEqual([BONK]);
+
+    // Candle history is not needed once the monitor has indicators
+    const indicators = computeIndicators(rally());
+    monitor.live.set(BONK, indicators);
+    monitor.emit('indicatorsUpdated', { tokenAddress: BONK, indicators });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(generator.getActiveSignals().length).toBeGreaterThan(0);
+    expect(generator.getActiveSignals().every(signal => signal.action === 'buy')).toBe(true);
+
+    const [match] = await evaluator.findMatches();
+    expect(match.observed).toBeGreaterThan(0.3);
+
+    evaluator.stop();
+    expect(monitored).toEqual([]);
+    expect(monitor.listenerCount('indicatorsUpdated')).toBe(0);
+  });
+
+  test('leaves paused strategies alone and reports failed trades', async () => {
+    const buy = rule({ type: 'momentum', operator: '<', value: 0 }, { type: 'buy', amount: 1, urgency: 'low' }, 1);
+    strategies = [createStrategy([buy], 'paused')];
+    momentum = -1;
+    expect(await evaluator.findMatches()).toEqual([]);
+
+    const failures: Error[] = [];
+    evaluator.on('ruleFailed', event => failures.push(event.error));
+    strategies = [createStrategy([buy])];
+    tradeError = new Error('Risk limit');
+
+    expect(await evaluator.evaluate()).toEqual([]);
+    expect(failures.map(error => error.message)).toEqual(['Risk limit']);
+  });
+});
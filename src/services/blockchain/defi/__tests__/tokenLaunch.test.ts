@@ -0,0 +1,184 @@
+import { describe, test, expect } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import bs58 from 'bs58';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  LaunchAnnouncer,
+  LaunchRecord,
+  LaunchStore,
+  LaunchVenue,
+  TokenLaunchPipeline
+} from '../tokenLaunch.js';
+
+const memoryStore = (): LaunchStore => {
+  let launches: LaunchRecord[] = [];
+  return {
+    loadLaunches: async () => JSON.parse(JSON.stringify(launches)),
+    saveLaunches: async saved => { launches = saved; }
+  };
+};
+
+const createVenue = (overrides: Partial<LaunchVenue> = {}) => {
+  const minted = new Set<string>();
+  const calls = { create: [] as string[], buy: [] as string[], secretKeys: [] as Uint8Array[] };
+  let bought = false;
+  const venue: LaunchVenue = {
+    name: 'pumpfun',
+    bundlesInitialBuy: false,
+    createToken: async ({ mint }) => {
+      calls.create.push(mint.publicKey.toBase58());
+      calls.secretKeys.push(mint.secretKey);
+      minted.add(mint.publicKey.toBase58());
+      return `create-${calls.create.length}`;
+    },
+    tokenExists: async mint => minted.has(mint.toBase58()),
+    initialBuyLanded: async () => bought,
+    buy: async () => {
+      calls.buy.push('buy');
+      bought = true;
+      return `buy-${calls.buy.length}`;
+    },
+    tokenUrl: mint => `https://pump.fun/${mint}`,
+    ...overrides
+  };
+  return { venue, minted, calls };
+};
+
+const createPipeline = (venue: LaunchVenue, options: { store?: LaunchStore; announcer?: LaunchAnnouncer } = {}) =>
+  new TokenLaunchPipeline({
+    connection: {} as Connection,
+    deployer: Keypair.generate(),
+    venues: [venue],
+    store: options.store || memoryStore(),
+    content: {
+      generateMetadata: async () => ({ name: 'Agent Meme', symbol: 'AGM', description: 'An agent made this' }),
+      generateImage: async () => Buffer.from('png')
+    },
+    uploader: {
+      uploadImage: async () => 'ipfs://image',
+      uploadMetadata: async metadata => `ipfs://${metadata.symbol}`
+    },
+    announcer: options.announcer,
+    imageDir: path.join(os.tmpdir(), 'launch-test')
+  });
+
+describe('TokenLaunchPipeline', () => {
+  test('resumes a failed launch without creating a second mint', async () => {
+    const { venue, minted, calls } = createVenue();
+    // The first create never reaches the chain, the second lands but its confirmation times out
+    const createErrors = ['rpc unavailable', 'confirmation timed out'];
+    const createToken = venue.createToken;
+    venue.createToken = async params => {
+      const error = createErrors.shift();
+      if (error === 'rpc unavailable') {
+        calls.secretKeys.push(params.mint.secretKey);
+        throw new Error(error);
+      }
+      const signature = await createToken(params);
+      if (error) throw new Error(error);
+      return signature;
+    };
+
+    const announced: string[] = [];
+    const pipeline = createPipeline(venue, {
+      announcer: { announce: async (_launch, url) => { announced.push(url); return 'post-1'; } }
+    });
+
+    const failed = await pipeline.launch({ venue: 'pumpfun', concept: 'agents', initialBuySol: 0.5 });
+    expect(failed.status).toBe('failed');
+    expect(failed.steps.upload.status).toBe('completed');
+    expect(failed.steps.mint.status).toBe('failed');
+    expect(failed.metadataUri).toBe('ipfs://AGM');
+
+    // The mint key is stored, but never in the clear
+    const [secretKey] = calls.secretKeys;
+    expect(failed.encryptedMintKey).toBeTruthy();
+    expect(failed.encryptedMintKey).not.toContain(bs58.encode(secretKey));
+    expect(failed.encryptedMintKey).not.toContain(Buffer.from(secretKey).toString('base64'));
+
+    // The retry signs with the stored mint key
+    expect((await pipeline.resume(failed.id)).status).toBe('failed');
+    expect(calls.secretKeys[1]).toEqual(secretKey);
+
+    const resumed = await pipeline.resume(failed.id);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.mint).toBe(failed.mint);
+    expect(calls.create).toHaveLength(1);
+    expect(minted.size).toBe(1);
+    expect(resumed.encryptedMintKey).toBe(undefined);
+    expect(resumed.steps.mint.attempts).toBe(3);
+    expect(resumed.steps.initialBuy.status).toBe('completed');
+    expect(resumed.buySignature).toBe('buy-1');
+    expect(resumed.steps.vesting.status).toBe('skipped');
+    expect(resumed.announcementId).toBe('post-1');
+    expect(announced).toEqual([`https://pump.fun/${failed.mint}`]);
+
+    // Completed launches are left alone
+    await pipeline.resume(failed.id);
+    expect(calls.buy).toHaveLength(1);
+  });
+
+  test('does not buy twice when a failed buy already landed and fails vesting without a locker', async () => {
+    let buyFailures = 1;
+    const store = memoryStore();
+    const { venue, calls } = createVenue();
+    const buy = venue.buy;
+    const attemptsSeen: number[] = [];
+    venue.buy = async (creator, mint, lamports) => {
+      const [stored] = await store.loadLaunches();
+      attemptsSeen.push(stored.steps.initialBuy.attempts);
+      const signature = await buy(creator, mint, lamports);
+      if (buyFailures-- > 0) throw new Error('blockhash expired');
+      return signature;
+    };
+    const pipeline = createPipeline(venue, { store });
+
+    const failed = await pipeline.launch({
+      venue: 'pumpfun',
+      metadata: { name: 'Agent Meme', symbol: 'AGM', description: 'An agent made this' },
+      initialBuySol: 1,
+      vesting: { percent: 50, unlockAt: Date.now() + 86400000 }
+    });
+    expect(failed.steps.initialBuy.status).toBe('failed');
+
+    // The attempt is on record before the buy is sent
+    expect(attemptsSeen).toEqual([1]);
+
+    const resumed = await pipeline.resume(failed.id);
+    expect(calls.buy).toHaveLength(1);
+    expect(resumed.steps.initialBuy.status).toBe('completed');
+    expect(resumed.status).toBe('failed');
+    expect(resumed.error).toBe('vesting: Vesting was requested but no token locker is configured');
+    expect(resumed.steps.announcement.status).toBe('pending');
+
+    await expect(pipeline.launch({ venue: 'fomo', concept: 'x', initialBuySol: 0 })).rejects.toThrow('not configured');
+    expect(new PublicKey(resumed.mint!).toBase58()).toBe(resumed.mint);
+  });
+
+  test('lists the launches a restart should resume until their attempts run out', async () => {
+    const store = memoryStore();
+    const { venue } = createVenue();
+    const createToken = venue.createToken;
+    let createFailures = 3;
+    venue.createToken = async params => {
+      if (createFailures-- > 0) throw new Error('rpc unavailable');
+      return createToken(params);
+    };
+    const pipeline = createPipeline(venue, { store });
+
+    const failed = await pipeline.launch({ venue: 'pumpfun', concept: 'agents', initialBuySol: 0 });
+    expect((await pipeline.listResumable()).map(launch => launch.id)).toEqual([failed.id]);
+
+    // Another deployer cannot open the mint key
+    expect(await createPipeline(venue, { store }).listResumable()).toEqual([]);
+
+    await pipeline.resume(failed.id);
+    const exhausted = await pipeline.resume(failed.id);
+    expect(exhausted.steps.mint.attempts).toBe(3);
+    expect(await pipeline.listResumable()).toEqual([]);
+
+    // Still resumable by hand
+    expect((await pipeline.resume(failed.id)).status).toBe('completed');
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { Jupiter } from '@jup-ag/core';
+import JSBI from 'jsbi';
+import { TradeConfig, TradingEngine, TradingEngineServices } from '../tradingEngine.js';
+import { ManagedPosition, PositionStore } from '../positionManager.js';
+import { JupiterPriceV2, TokenPrice } from '../jupiterPriceV2.js';
+import { AMMHealthChecker } from '../ammHealth.js';
+import { MarketDataProcessor } from '../../../market/data/DataProcessor.js';
+import { VolatilityManager } from '../../../market/volatility/VolatilityManager.js';
+import { MarketSentimentAnalyzer } from '../../../market/signals/marketSentiment.js';
+import { PaperRawFillRequest, PaperTradingBackend } from '../../../trading/paperTrading.js';
+import { RiskEngine } from '../../../trading/riskEngine.js';
+import { WalletRegistry, WalletSpend } from '../../../wallet/walletRegistry.js';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const SOL = 'So11111111111111111111111111111111111111112';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+class MemoryStore implements PositionStore {
+  public saved: ManagedPosition[] = [];
+
+  async load(): Promise<ManagedPosition[]> {
+    return JSON.parse(JSON.stringify(this.saved));
+  }
+
+  async save(positions: ManagedPosition[]): Promise<void> {
+    this.saved = JSON.parse(JSON.stringify(positions));
+  }
+}
+
+const config: TradeConfig = {
+  maxSlippage: 50,
+  maxPriceImpact: 0.05,
+  minLiquidity: 0,
+  retryAttempts: 1,
+  useJitoBundles: false
+};
+
+describe('TradingEngine', () => {
+  let prices: Record<string, number>;
+  let swaps: Array<{ inputMint: string; outputMint: string; amount: number }>;
+  let jupiter: Jupiter;
+  let services: TradingEngineServices;
+  let engine: TradingEngine;
+
+  beforeEach(() => {
+    prices = { [USDC]: 1, [USDT]: 1, [SOL]: 200, [BONK]: 0.5 };
+    swaps = [];
+
+    // Routes convert at the current prices, amounts stay in raw units
+    jupiter = {
+      computeRoutes: async ({ inputMint, outputMint, amount }: { inputMint: PublicKey; outputMint: PublicKey; amount: JSBI }) => {
+        const inAmount = JSBI.toNumber(amount);
+        const outAmount = Math.floor(inAmount * prices[inputMint.toBase58()] / prices[outputMint.toBase58()]);
+        return {
+          routesInfos: [{
+            inAmount: amount,
+            outAmount: JSBI.BigInt(outAmount),
+            priceImpactPct: 0,
+            slippageBps: 50,
+            marketInfos: [{ inputMint, outputMint, label: 'Mock' }]
+          }]
+        };
+      }
+    } as unknown as Jupiter;
+
+    const paperTrading = {
+      fillRaw: async (request: PaperRawFillRequest) => {
+        swaps.push({ inputMint: request.inputMint, outputMint: request.outputMint, amount: request.inAmount });
+        return {
+          id: `paper-${swaps.length}`,
+          inputToken: request.inputMint,
+          outputToken: request.outputMint,
+          inputAmount: request.inAmount,
+          outputAmount: request.outAmount,
+          executionPrice: request.outAmount / request.inAmount,
+          slippage: 0,
+          priceImpact: 0,
+          fee: 0,
+          route: request.route || [],
+          timestamp: Date.now()
+        };
+      }
+    } as unknown as PaperTradingBackend;
+
+    services = {
+      dataProcessor: { getTokenPrice: async (token: string) => prices[token] } as unknown as MarketDataProcessor,
+      jupiterPriceV2: {
+        getPrice: async (token: string) => ({ id: token, price: String(prices[token]) }) as TokenPrice
+      } as unknown as JupiterPriceV2,
+      volatilityManager: { adjustPosition: async (amount: number) => amount } as unknown as VolatilityManager,
+      ammHealthChecker: { checkHealth: async () => ({}) } as unknown as AMMHealthChecker,
+      positionStore: new MemoryStore()
+    };
+
+    engine = new TradingEngine(
+      {} as Connection,
+      jupiter,
+      config,
+      { analyzeSentiment: async () => ({ overall: 0 }) } as unknown as MarketSentimentAnalyzer,
+      Keypair.generate(),
+      paperTrading,
+      { checkTrade: async () => undefined } as unknown as RiskEngine,
+      undefined,
+      services
+    );
+  });
+
+  afterEach(() => {
+    engine.stop();
+  });
+
+  test('opens a position on a buy and sells all of it on exit', async () => {
+    const buy = await engine.executeTrade({
+      inputToken: USDC,
+      outputToken: BONK,
+      amount: 100,
+      exitPlan: { stopLossPct: 0.1 }
+    });
+    expect(buy.outputAmount).toBe(200);
+
+    const [position] = engine.getOpenPositions();
+    expect(position).toMatchObject({ token: BONK, entryPrice: 0.5, tradeId: buy.id });
+
+    const closed = await engine.closePosition(position.id);
+
+    // The exit swaps exactly what the buy received
+    expect(swaps[1]).toEqual({ inputMint: BONK, outputMint: USDC, amount: buy.outputAmount });
+    expect(closed).toMatchObject({ status: 'closed', size: 0, exitReason: 'manual' });
+    expect(engine.getOpenPositions()).toEqual([]);
+  });
+
+  test('treats sells into SOL, USDC or USDT as exits of the managed position', async () => {
+    await engine.executeTrade({ inputToken: USDC, outputToken: BONK, amount: 100, exitPlan: { stopLossPct: 0.1 } });
+    const [position] = engine.getOpenPositions();
+    const closed: string[] = [];
+    engine.on('positionClosed', event => closed.push(event.position.id));
+
+    // Half of the 200 raw BONK back to SOL
+    await engine.executeTrade({ inputToken: BONK, outputToken: SOL, amount: 200 });
+    expect(swaps[1]).toMatchObject({ inputMint: BONK, outputMint: SOL, amount: 100 });
+    expect(engine.getOpenPositions().map(open => [open.id, open.size])).toEqual([[position.id, 200]]);
+
+    await engine.executeTrade({ inputToken: BONK, outputToken: USDT, amount: 200 });
+    expect(engine.getOpenPositions()).toEqual([]);
+    expect(closed).toEqual([position.id]);
+    expect(position.exits.map(exit => exit.amount)).toEqual([200, 200]);
+  });
+
+  test('only waits on limit orders that have a deadline', async () => {
+    await expect(engine.executeTrade({
+      inputToken: USDC,
+      outputToken: BONK,
+      amount: 100,
+      type: 'limit',
+      limitPrice: 2
+    })).rejects.toThrow('Limit orders need a deadline');
+    expect(engine.getOpenOrders()).toEqual([]);
+    expect(swaps).toEqual([]);
+  });
+
+  test('signs live swaps with the registry wallet against its swap budget', async () => {
+    const signer = Keypair.generate();
+    const spends: Array<{ role: string; action: string; spend?: WalletSpend; source?: string }> = [];
+    const sent: Array<{ payer: string; signers: string[] }> = [];
+    const registry = {
+      useWallet: async <T>(
+        role: string,
+        action: string,
+        spend: WalletSpend | undefined,
+        task: (keypair: Keypair) => Promise<T>,
+        source?: string
+      ) => {
+        spends.push({ role, action, spend, source });
+        return task(signer);
+      }
+    } as unknown as WalletRegistry;
+    const connection = {
+      getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58() }),
+      sendTransaction: async (transaction: Transaction, signers: Keypair[]) => {
+        sent.push({
+          payer: transaction.feePayer!.toBase58(),
+          signers: signers.map(keypair => keypair.publicKey.toBase58())
+        });
+        return 'live-1';
+      },
+      confirmTransaction: async () => ({ value: { err: null } })
+    } as unknown as Connection;
+
+    const live = new TradingEngine(
+      connection,
+      { ...jupiter, exchange: async () => ({ swapTransaction: new Transaction() }) } as unknown as Jupiter,
+      config,
+      { analyzeSentiment: async () => ({ overall: 0 }) } as unknown as MarketSentimentAnalyzer,
+      Keypair.generate(),
+      undefined,
+      { checkTrade: async () => undefined } as unknown as RiskEngine,
+      undefined,
+      { ...services, walletRegistry: registry }
+    );
+
+    try {
+      const result = await live.executeTrade({
+        inputToken: USDC,
+        outputToken: BONK,
+        amount: 100,
+        exitPlan: { stopLossPct: 0.1 }
+      });
+      expect(result.id).toBe('live-1');
+      expect(spends).toEqual([
+        { role: 'trading', action: 'swap', spend: { mint: USDC, amount: 100 }, source: 'TradingEngine' }
+      ]);
+      expect(sent).toEqual([{ payer: signer.publicKey.toBase58(), signers: [signer.publicKey.toBase58()] }]);
+    } finally {
+      live.stop();
+    }
+  });
+});
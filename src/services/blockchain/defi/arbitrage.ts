@@ -0,0 +1,495 @@
+// src/services/blockchain/defi/arbitrage.ts
+
+import { EventEmitter } from 'events';
+import axios from 'axios';
+import mongoose from 'mongoose';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { Logger } from '../../../utils/logger.js';
+import { ArbitrageAudit } from '../../../infrastructure/database/schemas/ArbitrageAudit.schema.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const JUPITER_API = 'https://quote-api.jup.ag/v6';
+
+export interface DexQuote {
+  dex: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: bigint;
+  outAmount: bigint;
+  priceImpactPct: number;
+  /** Raw quote response, passed back untouched to build the swap instructions */
+  raw: unknown;
+}
+
+export interface SwapInstructions {
+  setupInstructions: TransactionInstruction[];
+  swapInstruction: TransactionInstruction;
+  cleanupInstruction?: TransactionInstruction;
+  addressLookupTableAddresses: string[];
+}
+
+/**
+ * Quotes and swap instructions restricted to a single venue.
+ */
+export interface DexQuoteAdapter {
+  readonly name: string;
+  getQuote(inputMint: string, outputMint: string, amount: bigint, slippageBps: number): Promise<DexQuote | null>;
+  getSwapInstructions(quote: DexQuote, user: PublicKey): Promise<SwapInstructions>;
+}
+
+/** Instruction as serialized by Jupiter's swap-instructions endpoint */
+interface JupiterInstruction {
+  programId: string;
+  accounts: Array<{ pubkey: string; isSigner: boolean; isWritable: boolean }>;
+  /** Base64 */
+  data: string;
+}
+
+interface JupiterSwapInstructionsResponse {
+  error?: string;
+  setupInstructions?: JupiterInstruction[];
+  swapInstruction: JupiterInstruction;
+  cleanupInstruction?: JupiterInstruction;
+  addressLookupTableAddresses?: string[];
+}
+
+/**
+ * Venue adapter on top of the Jupiter quote API. Restricting `dexes` pins the
+ * route to one AMM family, which gives comparable per-DEX quotes and swap
+ * instructions that can be combined into a single transaction.
+ */
+export class JupiterDexAdapter implements DexQuoteAdapter {
+  public readonly name: string;
+  private readonly dexes?: string[];
+  private readonly baseUrl: string;
+
+  constructor(name: string, dexes?: string[], baseUrl: string = JUPITER_API) {
+    this.name = name;
+    this.dexes = dexes;
+    this.baseUrl = baseUrl;
+  }
+
+  public async getQuote(
+    inputMint: string,
+    outputMint: string,
+    amount: bigint,
+    slippageBps: number
+  ): Promise<DexQuote | null> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/quote`, {
+        params: {
+          inputMint,
+          outputMint,
+          amount: amount.toString(),
+          slippageBps,
+          ...(this.dexes ? { dexes: this.dexes.join(',') } : {})
+        }
+      });
+
+      const data = response.data;
+      if (!data?.outAmount || !data.routePlan?.length) return null;
+
+      return {
+        dex: this.name,
+        inputMint,
+        outputMint,
+        inAmount: BigInt(data.inAmount),
+        outAmount: BigInt(data.outAmount),
+        priceImpactPct: Number(data.priceImpactPct) || 0,
+        raw: data
+      };
+    } catch (error) {
+      elizaLogger.warn(`No ${this.name} quote for ${inputMint} -> ${outputMint}:`, error);
+      return null;
+    }
+  }
+
+  public async getSwapInstructions(quote: DexQuote, user: PublicKey): Promise<SwapInstructions> {
+    const response = await axios.post<JupiterSwapInstructionsResponse>(`${this.baseUrl}/swap-instructions`, {
+      quoteResponse: quote.raw,
+      userPublicKey: user.toBase58(),
+      wrapAndUnwrapSol: true
+    });
+
+    const data = response.data;
+    if (data.error) {
+      throw new Error(`Failed to get ${this.name} swap instructions: ${data.error}`);
+    }
+
+    return {
+      setupInstructions: (data.setupInstructions || []).map(toInstruction),
+      swapInstruction: toInstruction(data.swapInstruction),
+      cleanupInstruction: data.cleanupInstruction ? toInstruction(data.cleanupInstruction) : undefined,
+      addressLookupTableAddresses: data.addressLookupTableAddresses || []
+    };
+  }
+}
+
+function toInstruction(instruction: JupiterInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(instruction.programId),
+    keys: instruction.accounts.map(account => ({
+      pubkey: new PublicKey(account.pubkey),
+      isSigner: account.isSigner,
+      isWritable: account.isWritable
+    })),
+    data: Buffer.from(instruction.data, 'base64')
+  });
+}
+
+export function createDefaultDexAdapters(): DexQuoteAdapter[] {
+  return [
+    new JupiterDexAdapter('Jupiter'),
+    new JupiterDexAdapter('Orca', ['Whirlpool']),
+    new JupiterDexAdapter('Raydium', ['Raydium', 'Raydium CLMM', 'Raydium CP'])
+  ];
+}
+
+export interface ArbitrageConfig {
+  minProfitThreshold: number; // Net profit as a fraction of amountIn
+  slippageBps: number;
+  priorityFeeMicroLamports: number;
+  computeUnitLimit: number;
+  atomic: boolean; // Both legs in one transaction, so a failed leg reverts the other
+  dryRun: boolean; // Only detect and report, never send
+}
+
+export interface ArbitrageOpportunity {
+  id: string;
+  tokenA: string;
+  tokenB: string;
+  amountIn: bigint;
+  buy: DexQuote;
+  sell: DexQuote;
+  grossProfit: bigint;
+  costs: {
+    networkFee: bigint;
+    priorityFee: bigint;
+  };
+  netProfit: bigint;
+  netProfitPct: number;
+  profitable: boolean;
+  timestamp: number;
+}
+
+export type ArbitrageStatus = 'DETECTED' | 'SKIPPED' | 'EXECUTED' | 'FAILED';
+
+export interface ArbitrageExecution {
+  opportunity: ArbitrageOpportunity;
+  status: ArbitrageStatus;
+  signatures: string[];
+  error?: string;
+}
+
+export interface ArbitrageAuditLog {
+  record(opportunity: ArbitrageOpportunity, status: ArbitrageStatus, dryRun: boolean, result?: {
+    signature?: string;
+    error?: string;
+  }): Promise<void>;
+}
+
+/**
+ * Writes every opportunity to the log files and, when MongoDB is connected,
+ * to the ArbitrageAudit collection.
+ */
+export class MongoArbitrageAuditLog implements ArbitrageAuditLog {
+  private readonly logger = new Logger('arbitrage');
+
+  public async record(
+    opportunity: ArbitrageOpportunity,
+    status: ArbitrageStatus,
+    dryRun: boolean,
+    result?: { signature?: string; error?: string }
+  ): Promise<void> {
+    const entry = {
+      opportunityId: opportunity.id,
+      timestamp: new Date(opportunity.timestamp),
+      tokenA: opportunity.tokenA,
+      tokenB: opportunity.tokenB,
+      amountIn: opportunity.amountIn.toString(),
+      buyDex: opportunity.buy.dex,
+      sellDex: opportunity.sell.dex,
+      buyOutAmount: opportunity.buy.outAmount.toString(),
+      sellOutAmount: opportunity.sell.outAmount.toString(),
+      grossProfit: opportunity.grossProfit.toString(),
+      costs: {
+        networkFee: opportunity.costs.networkFee.toString(),
+        priorityFee: opportunity.costs.priorityFee.toString()
+      },
+      netProfit: opportunity.netProfit.toString(),
+      netProfitPct: opportunity.netProfitPct,
+      profitable: opportunity.profitable,
+      dryRun,
+      status,
+      executionResult: result
+    };
+
+    this.logger.info(`Arbitrage ${status}: ${opportunity.buy.dex} -> ${opportunity.sell.dex}`, entry);
+
+    if (mongoose.connection.readyState !== 1) return;
+    try {
+      await ArbitrageAudit.findOneAndUpdate(
+        { opportunityId: opportunity.id },
+        entry,
+        { upsert: true }
+      );
+    } catch (error) {
+      elizaLogger.error('Failed to write arbitrage audit entry:', error);
+    }
+  }
+}
+
+export const DEFAULT_ARBITRAGE_CONFIG: ArbitrageConfig = {
+  minProfitThreshold: 0.005, // 0.5% net of fees
+  slippageBps: 10,
+  priorityFeeMicroLamports: 100000,
+  computeUnitLimit: 600000, // Two swaps in one transaction
+  atomic: true,
+  dryRun: true
+};
+
+/**
+ * Finds round trips tokenA -> tokenB -> tokenA across DEXes and executes the
+ * profitable ones.
+ *
+ * All amounts are raw base units of tokenA. Costs (base fee plus priority fee,
+ * paid in SOL) are converted to tokenA before comparing net profit against
+ * minProfitThreshold.
+ */
+export class ArbitrageScanner extends EventEmitter {
+  private readonly connection: Connection;
+  private readonly wallet: Keypair;
+  private readonly adapters: DexQuoteAdapter[];
+  private readonly auditLog: ArbitrageAuditLog;
+  private readonly config: ArbitrageConfig;
+
+  private readonly BASE_FEE_LAMPORTS = BigInt(5000); // Per signature
+
+  constructor(
+    connection: Connection,
+    wallet: Keypair,
+    options: {
+      adapters?: DexQuoteAdapter[];
+      auditLog?: ArbitrageAuditLog;
+      config?: Partial<ArbitrageConfig>;
+    } = {}
+  ) {
+    super();
+    this.connection = connection;
+    this.wallet = wallet;
+    this.adapters = options.adapters || createDefaultDexAdapters();
+    this.auditLog = options.auditLog || new MongoArbitrageAuditLog();
+    this.config = { ...DEFAULT_ARBITRAGE_CONFIG, ...options.config };
+  }
+
+  public isDryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  /**
+   * Quote every buy/sell venue pair and return the best round trip, profitable
+   * or not. The result is always written to the audit log.
+   */
+  public async scan(tokenA: string, tokenB: string, amountIn: bigint): Promise<ArbitrageOpportunity | null> {
+    const buyQuotes = (await Promise.all(
+      this.adapters.map(adapter => adapter.getQuote(tokenA, tokenB, amountIn, this.config.slippageBps))
+    )).filter((quote): quote is DexQuote => quote !== null && quote.outAmount > BigInt(0));
+
+    if (!buyQuotes.length) return null;
+
+    const pairs = await Promise.all(buyQuotes.flatMap(buy =>
+      this.adapters
+        .filter(adapter => adapter.name !== buy.dex)
+        .map(async adapter => {
+          const sell = await adapter.getQuote(tokenB, tokenA, buy.outAmount, this.config.slippageBps);
+          return sell ? { buy, sell } : null;
+        })
+    ));
+
+    const best = pairs
+      .filter((pair): pair is { buy: DexQuote; sell: DexQuote } => pair !== null)
+      .sort((a, b) => (b.sell.outAmount > a.sell.outAmount ? 1 : b.sell.outAmount < a.sell.outAmount ? -1 : 0))[0];
+    if (!best) return null;
+
+    const costs = await this.estimateCosts(tokenA);
+    const grossProfit = best.sell.outAmount - amountIn;
+    const netProfit = grossProfit - costs.networkFee - costs.priorityFee;
+    const netProfitPct = Number(netProfit) / Number(amountIn);
+
+    const opportunity: ArbitrageOpportunity = {
+      id: `arb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      tokenA,
+      tokenB,
+      amountIn,
+      buy: best.buy,
+      sell: best.sell,
+      grossProfit,
+      costs,
+      netProfit,
+      netProfitPct,
+      profitable: netProfitPct > this.config.minProfitThreshold,
+      timestamp: Date.now()
+    };
+
+    await this.auditLog.record(
+      opportunity,
+      opportunity.profitable ? 'DETECTED' : 'SKIPPED',
+      this.config.dryRun
+    );
+    if (opportunity.profitable) {
+      this.emit('opportunityDetected', opportunity);
+    }
+
+    return opportunity;
+  }
+
+  /**
+   * Scan and, outside dry-run mode, execute the opportunity if profitable.
+   */
+  public async scanAndExecute(
+    tokenA: string,
+    tokenB: string,
+    amountIn: bigint
+  ): Promise<ArbitrageExecution | null> {
+    const opportunity = await this.scan(tokenA, tokenB, amountIn);
+    if (!opportunity || !opportunity.profitable) return null;
+
+    if (this.config.dryRun) {
+      elizaLogger.info(
+        `[dry run] Arbitrage ${opportunity.buy.dex} -> ${opportunity.sell.dex} ` +
+        `would net ${(opportunity.netProfitPct * 100).toFixed(3)}%`
+      );
+      return { opportunity, status: 'DETECTED', signatures: [] };
+    }
+
+    return this.execute(opportunity);
+  }
+
+  public async execute(opportunity: ArbitrageOpportunity): Promise<ArbitrageExecution> {
+    if (this.config.dryRun) {
+      throw new Error('Arbitrage scanner is in dry-run mode');
+    }
+
+    try {
+      const buyAdapter = this.getAdapter(opportunity.buy.dex);
+      const sellAdapter = this.getAdapter(opportunity.sell.dex);
+      const [buyLeg, sellLeg] = await Promise.all([
+        buyAdapter.getSwapInstructions(opportunity.buy, this.wallet.publicKey),
+        sellAdapter.getSwapInstructions(opportunity.sell, this.wallet.publicKey)
+      ]);
+
+      const signatures: string[] = [];
+      if (this.config.atomic) {
+        // The sell leg spends exactly what the buy leg quoted, so if the buy
+        // fills short the sell fails and the whole transaction reverts.
+        // The buy leg's cleanup (unwrapping SOL) is dropped so the sell leg
+        // can reuse the wrapped account.
+        signatures.push(await this.send([
+          ...buyLeg.setupInstructions,
+          buyLeg.swapInstruction,
+          ...sellLeg.setupInstructions,
+          sellLeg.swapInstruction,
+          ...(sellLeg.cleanupInstruction ? [sellLeg.cleanupInstruction] : [])
+        ], [...buyLeg.addressLookupTableAddresses, ...sellLeg.addressLookupTableAddresses]));
+      } else {
+        for (const leg of [buyLeg, sellLeg]) {
+          signatures.push(await this.send([
+            ...leg.setupInstructions,
+            leg.swapInstruction,
+            ...(leg.cleanupInstruction ? [leg.cleanupInstruction] : [])
+          ], leg.addressLookupTableAddresses));
+        }
+      }
+
+      await this.auditLog.record(opportunity, 'EXECUTED', false, { signature: signatures.join(',') });
+      this.emit('arbitrageExecuted', { opportunity, signatures });
+      return { opportunity, status: 'EXECUTED', signatures };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      elizaLogger.error(`Arbitrage ${opportunity.id} failed:`, error);
+      await this.auditLog.record(opportunity, 'FAILED', false, { error: message });
+      this.emit('arbitrageFailed', { opportunity, error });
+      return { opportunity, status: 'FAILED', signatures: [], error: message };
+    }
+  }
+
+  /**
+   * Fees for one execution, converted to raw units of tokenA.
+   */
+  private async estimateCosts(tokenA: string): Promise<ArbitrageOpportunity['costs']> {
+    const signatures = BigInt(this.config.atomic ? 1 : 2);
+    const networkLamports = this.BASE_FEE_LAMPORTS * signatures;
+    const priorityLamports = (BigInt(this.config.priorityFeeMicroLamports) *
+      BigInt(this.config.computeUnitLimit) * signatures) / BigInt(1000000);
+
+    if (tokenA === SOL_MINT) {
+      return { networkFee: networkLamports, priorityFee: priorityLamports };
+    }
+
+    const [networkFee, priorityFee] = await Promise.all(
+      [networkLamports, priorityLamports].map(lamports => this.convertLamports(lamports, tokenA))
+    );
+    return { networkFee, priorityFee };
+  }
+
+  private async convertLamports(lamports: bigint, tokenA: string): Promise<bigint> {
+    if (lamports === BigInt(0)) return lamports;
+    const quote = await this.adapters[0].getQuote(SOL_MINT, tokenA, lamports, this.config.slippageBps);
+    if (!quote) {
+      throw new Error(`Cannot price transaction costs in ${tokenA}`);
+    }
+    return quote.outAmount;
+  }
+
+  private getAdapter(name: string): DexQuoteAdapter {
+    const adapter = this.adapters.find(candidate => candidate.name === name);
+    if (!adapter) {
+      throw new Error(`Unknown DEX adapter ${name}`);
+    }
+    return adapter;
+  }
+
+  private async send(instructions: TransactionInstruction[], lookupTableAddresses: string[]): Promise<string> {
+    const lookupTables = (await Promise.all(
+      Array.from(new Set(lookupTableAddresses)).map(async address =>
+        (await this.connection.getAddressLookupTable(new PublicKey(address))).value
+      )
+    )).filter((table): table is AddressLookupTableAccount => table !== null);
+
+    const latestBlockhash = await this.connection.getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: this.wallet.publicKey,
+      recentBlockhash: latestBlockhash.blockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: this.config.computeUnitLimit }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: this.config.priorityFeeMicroLamports }),
+        ...instructions
+      ]
+    }).compileToV0Message(lookupTables);
+
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([this.wallet]);
+
+    const signature = await this.connection.sendTransaction(transaction, { skipPreflight: false });
+    const confirmation = await this.connection.confirmTransaction({
+      signature,
+      blockhash: latestBlockhash.blockhash,
+      lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
+    }, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    return signature;
+  }
+}
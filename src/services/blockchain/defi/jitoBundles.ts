@@ -0,0 +1,294 @@
+// src/services/blockchain/defi/jitoBundles.ts
+
+import { EventEmitter } from 'events';
+import bs58 from 'bs58';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { ApiError, TransactionError } from '../../../utils/error-handler.js';
+
+/** 'Unknown' means polling timed out before the block engine reported an outcome */
+export type BundleStatus = 'Pending' | 'Landed' | 'Failed' | 'Invalid' | 'Unknown';
+
+export interface BundleStatusResult {
+  bundleId: string;
+  status: BundleStatus;
+  landedSlot?: number;
+}
+
+/**
+ * Minimal block-engine API used for bundle submission. Implemented over
+ * JSON-RPC by HttpBlockEngineClient; tests can point that at a local server.
+ */
+export interface BlockEngineClient {
+  getTipAccounts(): Promise<string[]>;
+  /** Transactions are base64 encoded, the tip transaction last */
+  sendBundle(transactions: string[]): Promise<string>;
+  getBundleStatus(bundleId: string): Promise<BundleStatusResult | null>;
+}
+
+export class HttpBlockEngineClient implements BlockEngineClient {
+  private readonly endpoint: string;
+  private requestId = 0;
+
+  constructor(endpoint: string = process.env.JITO_BLOCK_ENGINE_URL || 'https://mainnet.block-engine.jito.wtf') {
+    this.endpoint = endpoint.replace(/\/$/, '');
+  }
+
+  public async getTipAccounts(): Promise<string[]> {
+    return this.call<string[]>('getTipAccounts', []);
+  }
+
+  public async sendBundle(transactions: string[]): Promise<string> {
+    return this.call<string>('sendBundle', [transactions, { encoding: 'base64' }]);
+  }
+
+  public async getBundleStatus(bundleId: string): Promise<BundleStatusResult | null> {
+    const result = await this.call<{ value: Array<{ bundle_id: string; status: BundleStatus; landed_slot: number | null }> }>(
+      'getInflightBundleStatuses',
+      [[bundleId]]
+    );
+    const status = result?.value?.[0];
+    if (!status) return null;
+
+    return {
+      bundleId: status.bundle_id,
+      status: status.status,
+      landedSlot: status.landed_slot ?? undefined
+    };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await fetch(`${this.endpoint}/api/v1/bundles`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params })
+    });
+
+    if (!response.ok) {
+      throw new ApiError(`Block engine ${method} failed`, response.status);
+    }
+
+    const body = await response.json() as { result?: T; error?: { message: string } };
+    if (body.error) {
+      throw new ApiError(`Block engine ${method} failed: ${body.error.message}`, response.status, body.error);
+    }
+    return body.result as T;
+  }
+}
+
+export interface JitoBundleOptions {
+  tipLamports?: number;
+  pollInterval?: number;
+  timeout?: number;
+  /** How long to wait for an unresolved swap's blockhash to expire */
+  expiryTimeout?: number;
+}
+
+export interface BundleSubmission {
+  bundleId: string;
+  signature: string;
+  status: BundleStatus;
+  landedSlot?: number;
+}
+
+/**
+ * Thrown when neither the block engine nor the RPC node could tell whether
+ * the swap landed before its blockhash expired. Resending it could execute
+ * the swap twice, so callers must not fall back to another submission path.
+ */
+export class BundleOutcomeUnknownError extends TransactionError {}
+
+/**
+ * Sends swaps as Jito bundles: the swap followed by a tip transfer to one of
+ * the block engine's tip accounts, then polls until the bundle lands, fails
+ * or times out. A bundle without a definite outcome is resolved through the
+ * swap signature: it either shows up on chain or its blockhash expires.
+ * Callers fall back to plain RPC submission when this throws anything but
+ * BundleOutcomeUnknownError.
+ */
+export class JitoBundleSubmitter extends EventEmitter {
+  private readonly connection: Connection;
+  private readonly wallet: Keypair;
+  private readonly client: BlockEngineClient;
+  private readonly tipLamports: number;
+  private readonly pollInterval: number;
+  private readonly timeout: number;
+  private readonly expiryTimeout: number;
+  private tipAccounts: string[] = [];
+
+  private readonly DEFAULT_TIP_LAMPORTS = 100000; // 0.0001 SOL
+  private readonly DEFAULT_POLL_INTERVAL = 2000; // 2 seconds
+  private readonly DEFAULT_TIMEOUT = 60000; // 1 minute
+  private readonly DEFAULT_EXPIRY_TIMEOUT = 120000; // blockhashes live ~150 blocks, about a minute
+
+  constructor(
+    connection: Connection,
+    wallet: Keypair,
+    client: BlockEngineClient = new HttpBlockEngineClient(),
+    options: JitoBundleOptions = {}
+  ) {
+    super();
+    this.connection = connection;
+    this.wallet = wallet;
+    this.client = client;
+    this.tipLamports = options.tipLamports ?? (Number(process.env.JITO_TIP_LAMPORTS) || this.DEFAULT_TIP_LAMPORTS);
+    this.pollInterval = options.pollInterval ?? this.DEFAULT_POLL_INTERVAL;
+    this.timeout = options.timeout ?? this.DEFAULT_TIMEOUT;
+    this.expiryTimeout = options.expiryTimeout ?? this.DEFAULT_EXPIRY_TIMEOUT;
+  }
+
+  /**
+   * Sign `transaction` with the wallet, bundle it with a tip and wait for the
+   * bundle to land. Throws once the swap can no longer land, or
+   * BundleOutcomeUnknownError if that can't be determined.
+   */
+  public async submit(transaction: Transaction | VersionedTransaction): Promise<BundleSubmission> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const tipTransaction = await this.buildTipTransaction(blockhash);
+
+    let swapTransaction: VersionedTransaction;
+    if (transaction instanceof VersionedTransaction) {
+      swapTransaction = transaction;
+      swapTransaction.message.recentBlockhash = blockhash;
+    } else {
+      transaction.feePayer = this.wallet.publicKey;
+      transaction.recentBlockhash = blockhash;
+      swapTransaction = new VersionedTransaction(transaction.compileMessage());
+    }
+    swapTransaction.sign([this.wallet]);
+
+    const signature = bs58.encode(swapTransaction.signatures[0]);
+    let bundleId: string;
+    let result: Omit<BundleStatusResult, 'bundleId'>;
+    try {
+      bundleId = await this.client.sendBundle([
+        Buffer.from(swapTransaction.serialize()).toString('base64'),
+        Buffer.from(tipTransaction.serialize()).toString('base64')
+      ]);
+      elizaLogger.info(`Submitted Jito bundle ${bundleId} for ${signature}`);
+      this.emit('bundleSubmitted', { bundleId, signature });
+      result = await this.waitForBundle(bundleId);
+    } catch (error) {
+      // The block engine may have accepted the bundle before the request failed
+      elizaLogger.warn(`Failed to submit Jito bundle for ${signature}:`, error);
+      bundleId = 'unknown';
+      result = { status: 'Unknown' };
+    }
+
+    if (result.status !== 'Landed') {
+      // Rejected bundles can't land later, anything else has to run out its blockhash
+      const onChain = await this.resolveSignature(
+        signature,
+        result.status === 'Unknown' ? lastValidBlockHeight : undefined
+      );
+      if (onChain.status === 'Landed') {
+        result = onChain;
+      } else {
+        const submission: BundleSubmission = { bundleId, signature, ...onChain };
+        this.emit('bundleFailed', submission);
+        if (onChain.status === 'Unknown') {
+          throw new BundleOutcomeUnknownError(`Bundle ${bundleId} outcome unknown`, signature);
+        }
+        const outcome = result.status === 'Unknown' ? 'expired' : result.status.toLowerCase();
+        throw new TransactionError(`Bundle ${bundleId} ${outcome}`, signature);
+      }
+    }
+
+    const submission: BundleSubmission = { bundleId, signature, ...result };
+    this.emit('bundleLanded', submission);
+    return submission;
+  }
+
+  public async waitForBundle(bundleId: string): Promise<Omit<BundleStatusResult, 'bundleId'>> {
+    const startedAt = Date.now();
+
+    while (Date.now() - startedAt < this.timeout) {
+      try {
+        const status = await this.client.getBundleStatus(bundleId);
+        if (status && status.status !== 'Pending') {
+          return { status: status.status, landedSlot: status.landedSlot };
+        }
+      } catch (error) {
+        // Status lookups are best effort, keep polling until the timeout
+        elizaLogger.warn(`Failed to fetch status of bundle ${bundleId}:`, error);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+
+    return { status: 'Unknown' };
+  }
+
+  /**
+   * Look the swap up on chain. Without `lastValidBlockHeight` this checks
+   * once; with it, polls until the swap confirms or the blockhash expires.
+   * Resolves to 'Landed', 'Failed' when it can no longer land, or 'Unknown'.
+   */
+  private async resolveSignature(
+    signature: string,
+    lastValidBlockHeight?: number
+  ): Promise<Omit<BundleStatusResult, 'bundleId'>> {
+    const startedAt = Date.now();
+
+    while (true) {
+      try {
+        const { value: [status] } = await this.connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: true
+        });
+        if (status && !status.err && status.confirmationStatus && status.confirmationStatus !== 'processed') {
+          return { status: 'Landed', landedSlot: status.slot };
+        }
+        if (status?.err) {
+          return { status: 'Failed' };
+        }
+        if (lastValidBlockHeight === undefined) {
+          return { status: 'Failed' };
+        }
+        if (!status && await this.connection.getBlockHeight('confirmed') > lastValidBlockHeight) {
+          return { status: 'Failed' };
+        }
+      } catch (error) {
+        elizaLogger.warn(`Failed to fetch status of ${signature}:`, error);
+      }
+
+      if (lastValidBlockHeight === undefined || Date.now() - startedAt >= this.expiryTimeout) {
+        return { status: 'Unknown' };
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+  }
+
+  private async buildTipTransaction(blockhash: string): Promise<VersionedTransaction> {
+    if (!this.tipAccounts.length) {
+      this.tipAccounts = await this.client.getTipAccounts();
+      if (!this.tipAccounts.length) {
+        throw new ApiError('Block engine returned no tip accounts');
+      }
+    }
+    // Spread tips over the accounts to avoid write-lock contention
+    const tipAccount = this.tipAccounts[Math.floor(Math.random() * this.tipAccounts.length)];
+
+    const message = new TransactionMessage({
+      payerKey: this.wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey: this.wallet.publicKey,
+          toPubkey: new PublicKey(tipAccount),
+          lamports: this.tipLamports
+        })
+      ]
+    }).compileToV0Message();
+
+    const tipTransaction = new VersionedTransaction(message);
+    tipTransaction.sign([this.wallet]);
+    return tipTransaction;
+  }
+}
@@ -0,0 +1,448 @@
+// src/services/blockchain/defi/launchVenues.ts
+
+import bs58 from 'bs58';
+import BN from 'bn.js';
+import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  sendAndConfirmTransaction
+} from '@solana/web3.js';
+import { Fomo } from 'fomo-sdk-solana';
+import { ICluster, SolanaStreamClient, buildLockParams } from '@streamflow/stream';
+import { elizaLogger } from "@ai16z/eliza";
+import {
+  ApiCpmmConfigInfo,
+  CREATE_CPMM_POOL_FEE_ACC,
+  CREATE_CPMM_POOL_PROGRAM,
+  Raydium,
+  TxVersion,
+  getPdaPoolId
+} from '@raydium-io/raydium-sdk-v2';
+import { PumpFunSDK } from '../../../actions/pumpfun.js';
+import { PriorityFee } from '../../../actions/types.js';
+import { sendTx } from '../../../actions/util.js';
+import {
+  AuthorityType,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountInstruction,
+  createInitializeMintInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  getAssociatedTokenAddress
+} from '../../../utils/spl-token/index.js';
+import { MINT_SIZE } from '../../../utils/spl-token/constants.js';
+import { fetchTokenBalance } from '../../../actions/curveSimulator.js';
+import { ConfigurationError, TransactionError } from '../../../utils/error-handler.js';
+import { WalletRegistry, walletRegistry } from '../../wallet/walletRegistry.js';
+import {
+  CreateLaunchTokenParams,
+  DevTokenLocker,
+  LaunchAnnouncer,
+  LaunchVenue,
+  TokenLaunchPipeline,
+  TokenLaunchPipelineOptions
+} from './tokenLaunch.js';
+
+const DEFAULT_PRIORITY_FEE: PriorityFee = {
+  unitLimit: 100_000_000,
+  unitPrice: 100_000
+};
+
+/** Raydium's standard 0.25% CPMM fee config */
+const DEFAULT_CPMM_FEE_CONFIG = 'D4FPEruKEHrG5TenZ2mpDGEfu1iUvTiqBxvpU8HLBvC2';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+let launchAnnouncer: LaunchAnnouncer | undefined;
+
+/**
+ * pump.fun bonding curve launches. The create and the initial buy are
+ * separate transactions so each can be retried on its own.
+ */
+export class PumpFunLaunchVenue implements LaunchVenue {
+  public readonly name = 'pumpfun' as const;
+  public readonly bundlesInitialBuy = false;
+  private readonly sdk: PumpFunSDK;
+  private readonly priorityFee: PriorityFee;
+  private readonly slippageBps: bigint;
+
+  constructor(sdk: PumpFunSDK, priorityFee: PriorityFee = DEFAULT_PRIORITY_FEE, slippageBps: bigint = BigInt(2000)) {
+    this.sdk = sdk;
+    this.priorityFee = priorityFee;
+    this.slippageBps = slippageBps;
+  }
+
+  public async createToken(params: CreateLaunchTokenParams): Promise<string> {
+    const createTx = await this.sdk.getCreateInstructions(
+      params.creator.publicKey,
+      params.metadata.name,
+      params.metadata.symbol,
+      params.metadataUri,
+      params.mint
+    );
+
+    const result = await sendTx(
+      this.sdk.connection,
+      createTx,
+      params.creator.publicKey,
+      [params.creator, params.mint],
+      this.priorityFee
+    );
+    if (!result.success || !result.signature) {
+      throw new TransactionError(`pump.fun create failed: ${String(result.error)}`, result.signature);
+    }
+    return result.signature;
+  }
+
+  public async tokenExists(mint: PublicKey): Promise<boolean> {
+    return (await this.sdk.getBondingCurveAccount(mint)) !== null;
+  }
+
+  /**
+   * The create leaves the curve empty and the creator without tokens, both
+   * change only once a buy lands
+   */
+  public async initialBuyLanded(creator: PublicKey, mint: PublicKey): Promise<boolean> {
+    const curve = await this.sdk.getBondingCurveAccount(mint);
+    if (!curve || curve.realSolReserves === BigInt(0)) return false;
+    return (await fetchTokenBalance(this.sdk.connection, creator, mint)) > BigInt(0);
+  }
+
+  public async buy(creator: Keypair, mint: PublicKey, lamports: bigint): Promise<string> {
+    const result = await this.sdk.buy(creator, mint, lamports, this.slippageBps, this.priorityFee);
+    if (!result.success || !result.signature) {
+      throw new TransactionError(`pump.fun buy failed: ${String(result.error)}`, result.signature);
+    }
+    return result.signature;
+  }
+
+  public tokenUrl(mint: string): string {
+    return `https://pump.fun/${mint}`;
+  }
+}
+
+/**
+ * fomo.fund launches. Fomo takes the initial buy as part of the create
+ * transaction.
+ */
+export class FomoLaunchVenue implements LaunchVenue {
+  public readonly name = 'fomo' as const;
+  public readonly bundlesInitialBuy = true;
+  private readonly fomo: Fomo;
+  private readonly connection: Connection;
+  private readonly requiredLiquidity: number;
+  private readonly priorityFee: number;
+
+  constructor(fomo: Fomo, connection: Connection, requiredLiquidity: number = 85, priorityFee: number = 0.00005) {
+    this.fomo = fomo;
+    this.connection = connection;
+    this.requiredLiquidity = requiredLiquidity;
+    this.priorityFee = priorityFee;
+  }
+
+  public async createToken(params: CreateLaunchTokenParams): Promise<string> {
+    const { transaction } = await this.fomo.createToken(
+      params.creator.publicKey,
+      params.metadata.name,
+      params.metadata.symbol,
+      params.metadataUri,
+      this.priorityFee,
+      bs58.encode(params.mint.secretKey),
+      this.requiredLiquidity,
+      Number(params.initialBuyLamports) / LAMPORTS_PER_SOL
+    );
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    transaction.message.recentBlockhash = blockhash;
+    transaction.sign([params.creator, params.mint]);
+
+    const signature = await this.connection.sendTransaction(transaction, {
+      skipPreflight: false,
+      maxRetries: 3,
+      preflightCommitment: 'confirmed'
+    });
+    const confirmation = await this.connection.confirmTransaction(
+      { signature, blockhash, lastValidBlockHeight },
+      'confirmed'
+    );
+    if (confirmation.value.err) {
+      throw new TransactionError(`Fomo create failed: ${JSON.stringify(confirmation.value.err)}`, signature);
+    }
+    return signature;
+  }
+
+  public async tokenExists(mint: PublicKey): Promise<boolean> {
+    return (await this.connection.getAccountInfo(mint)) !== null;
+  }
+
+  public async initialBuyLanded(_creator: PublicKey, mint: PublicKey): Promise<boolean> {
+    return this.tokenExists(mint);
+  }
+
+  public async buy(): Promise<string> {
+    throw new TransactionError('Fomo buys are part of the create transaction');
+  }
+
+  public tokenUrl(mint: string): string {
+    return `https://fomo.fund/token/${mint}`;
+  }
+}
+
+/**
+ * Plain SPL launches paired with SOL in a Raydium CPMM pool. The full supply
+ * is minted to the creator and the mint authority is revoked. The initial
+ * buy seeds the pool with that much SOL and `poolShare` of the supply. The
+ * metadata URI is not written on chain, since that needs the Metaplex
+ * program.
+ */
+export class RaydiumLaunchVenue implements LaunchVenue {
+  public readonly name = 'raydium' as const;
+  public readonly bundlesInitialBuy = false;
+  private readonly connection: Connection;
+  private readonly supply: bigint;
+  private readonly decimals: number;
+  private readonly poolShare: number;
+  private readonly feeConfigId: string;
+
+  constructor(
+    connection: Connection,
+    feeConfigId: string = process.env.RAYDIUM_CPMM_FEE_CONFIG_ID || DEFAULT_CPMM_FEE_CONFIG,
+    supply: bigint = BigInt(1_000_000_000),
+    decimals: number = 6,
+    poolShare: number = 0.8
+  ) {
+    this.connection = connection;
+    this.feeConfigId = feeConfigId;
+    this.supply = supply;
+    this.decimals = decimals;
+    this.poolShare = poolShare;
+  }
+
+  public async createToken(params: CreateLaunchTokenParams): Promise<string> {
+    const { creator, mint } = params;
+    const ata = await getAssociatedTokenAddress(mint.publicKey, creator.publicKey);
+    const lamports = await this.connection.getMinimumBalanceForRentExemption(MINT_SIZE);
+
+    const transaction = new Transaction().add(
+      SystemProgram.createAccount({
+        fromPubkey: creator.publicKey,
+        newAccountPubkey: mint.publicKey,
+        lamports,
+        space: MINT_SIZE,
+        programId: TOKEN_PROGRAM_ID
+      }),
+      createInitializeMintInstruction(mint.publicKey, this.decimals, creator.publicKey, null),
+      createAssociatedTokenAccountInstruction(creator.publicKey, ata, creator.publicKey, mint.publicKey),
+      createMintToInstruction(mint.publicKey, ata, creator.publicKey, this.supply * BigInt(10) ** BigInt(this.decimals)),
+      createSetAuthorityInstruction(mint.publicKey, creator.publicKey, null, AuthorityType.MintTokens)
+    );
+
+    return sendAndConfirmTransaction(this.connection, transaction, [creator, mint]);
+  }
+
+  public async tokenExists(mint: PublicKey): Promise<boolean> {
+    return (await this.connection.getAccountInfo(mint)) !== null;
+  }
+
+  /**
+   * The creator holds the whole supply from the create, so only the pool
+   * account shows the buy landed
+   */
+  public async initialBuyLanded(_creator: PublicKey, mint: PublicKey): Promise<boolean> {
+    return (await this.connection.getAccountInfo(this.poolId(mint))) !== null;
+  }
+
+  public async buy(creator: Keypair, mint: PublicKey, lamports: bigint): Promise<string> {
+    const raydium = await Raydium.load({ owner: creator, connection: this.connection });
+    const tokenAmount = BigInt(Math.floor(Number(this.supply) * this.poolShare)) * BigInt(10) ** BigInt(this.decimals);
+    const feeConfig = await this.feeConfig(raydium);
+
+    const { execute } = await raydium.cpmm.createPool({
+      programId: CREATE_CPMM_POOL_PROGRAM,
+      poolFeeAccount: CREATE_CPMM_POOL_FEE_ACC,
+      mintA: this.mintInfo(mint, this.decimals),
+      mintB: this.mintInfo(NATIVE_MINT, 9),
+      mintAAmount: new BN(tokenAmount.toString()),
+      mintBAmount: new BN(lamports.toString()),
+      startTime: new BN(0),
+      feeConfig,
+      associatedOnly: false,
+      ownerInfo: { useSOLBalance: true },
+      txVersion: TxVersion.V0
+    });
+
+    const { txId } = await execute({ sendAndConfirm: true });
+    return txId;
+  }
+
+  public tokenUrl(mint: string): string {
+    return `https://raydium.io/swap/?inputMint=sol&outputMint=${mint}`;
+  }
+
+  private async feeConfig(raydium: Raydium): Promise<ApiCpmmConfigInfo> {
+    const configs = await raydium.api.getCpmmConfigs();
+    const config = configs.find(candidate => candidate.id === this.feeConfigId);
+    if (!config) {
+      throw new ConfigurationError(`Raydium CPMM fee config ${this.feeConfigId} not found`);
+    }
+    return config;
+  }
+
+  /**
+   * The pool address the SDK derives, it orders the two mints by their bytes
+   */
+  private poolId(mint: PublicKey): PublicKey {
+    const [mintA, mintB] = Buffer.compare(mint.toBuffer(), NATIVE_MINT.toBuffer()) > 0
+      ? [NATIVE_MINT, mint]
+      : [mint, NATIVE_MINT];
+    return getPdaPoolId(CREATE_CPMM_POOL_PROGRAM, new PublicKey(this.feeConfigId), mintA, mintB).publicKey;
+  }
+
+  private mintInfo(mint: PublicKey, decimals: number) {
+    return {
+      chainId: 101,
+      address: mint.toBase58(),
+      programId: TOKEN_PROGRAM_ID.toBase58(),
+      logoURI: '',
+      symbol: '',
+      name: '',
+      decimals,
+      tags: [],
+      extensions: {}
+    };
+  }
+}
+
+/**
+ * Dev token locks as Streamflow token locks: the deployer streams the tokens
+ * to itself with everything unlocking at `unlockAt`.
+ */
+export class StreamflowTokenLocker implements DevTokenLocker {
+  private readonly client: Pick<SolanaStreamClient, 'create'>;
+
+  constructor(client: Pick<SolanaStreamClient, 'create'>) {
+    this.client = client;
+  }
+
+  public async lock(params: {
+    mint: PublicKey;
+    owner: Keypair;
+    amount: bigint;
+    unlockAt: number;
+  }): Promise<{ lockId: string; signature: string }> {
+    const { metadataId, txId } = await this.client.create(
+      buildLockParams({
+        recipient: params.owner.publicKey.toBase58(),
+        tokenId: params.mint.toBase58(),
+        amount: new BN(params.amount.toString()),
+        unlockDate: Math.floor(params.unlockAt / 1000),
+        name: 'Dev token lock'
+      }),
+      { sender: params.owner }
+    );
+    return { lockId: metadataId, signature: txId };
+  }
+}
+
+/**
+ * Announce the launches of every pipeline built here, main sets this to the
+ * agent's post queue
+ */
+export function setLaunchAnnouncer(announcer: LaunchAnnouncer | undefined): void {
+  launchAnnouncer = announcer;
+}
+
+/**
+ * A launch pipeline with the shared announcer and a Streamflow locker for
+ * dev token vesting, unless the options bring their own
+ */
+export function createLaunchPipeline(options: TokenLaunchPipelineOptions): TokenLaunchPipeline {
+  return new TokenLaunchPipeline({
+    announcer: launchAnnouncer,
+    locker: new StreamflowTokenLocker(
+      new SolanaStreamClient({ connection: options.connection, cluster: ICluster.Mainnet })
+    ),
+    ...options
+  });
+}
+
+/**
+ * Every venue, signing with the deployer
+ */
+export function createLaunchVenues(connection: Connection, deployer: Keypair): LaunchVenue[] {
+  const provider = new AnchorProvider(connection, new Wallet(deployer), { commitment: 'finalized' });
+  return [
+    new PumpFunLaunchVenue(new PumpFunSDK(provider)),
+    new FomoLaunchVenue(new Fomo(connection, 'devnet', deployer), connection),
+    new RaydiumLaunchVenue(connection)
+  ];
+}
+
+/**
+ * Continue the launch wallet's launches that a restart interrupted or that
+ * failed with attempts left. Initial buys still to be made count against the
+ * wallet's budget.
+ */
+export async function resumeLaunches(
+  connection: Connection,
+  registry: WalletRegistry = walletRegistry
+): Promise<void> {
+  if (!registry.has('launch')) {
+    return;
+  }
+  const deployer = registry.getKeypair('launch');
+  const pipeline = createLaunchPipeline({
+    connection,
+    deployer,
+    venues: createLaunchVenues(connection, deployer)
+  });
+
+  for (const launch of await pipeline.listResumable()) {
+    const buy = launch.steps.initialBuy.status;
+    const buyPending = launch.request.initialBuySol > 0 && (buy === 'pending' || buy === 'failed');
+    try {
+      await registry.useWallet(
+        'launch',
+        'launch',
+        buyPending ? { mint: SOL_MINT, amount: launch.request.initialBuySol } : undefined,
+        async () => {
+          const resumed = await pipeline.resume(launch.id);
+          if (resumed.status !== 'completed') {
+            throw new TransactionError(`Launch ${launch.id} failed: ${resumed.error}`, resumed.createSignature);
+          }
+          return resumed;
+        },
+        `launch:${launch.id}`
+      );
+      elizaLogger.info(`Resumed launch ${launch.id} of ${launch.mint}`);
+    } catch (error) {
+      elizaLogger.warn(`Could not resume launch ${launch.id}:`, error);
+    }
+  }
+}
+
+export interface PumpFunLaunchPipelineOptions extends Omit<TokenLaunchPipelineOptions, 'venues'> {
+  priorityFee?: PriorityFee;
+  slippageBps?: bigint;
+}
+
+/**
+ * The pipeline every pump.fun launch goes through, with the deployer as the
+ * Anchor wallet
+ */
+export function createPumpFunLaunchPipeline(options: PumpFunLaunchPipelineOptions): TokenLaunchPipeline {
+  const { priorityFee, slippageBps, ...pipelineOptions } = options;
+  const provider = new AnchorProvider(options.connection, new Wallet(options.deployer), {
+    commitment: 'finalized'
+  });
+  return createLaunchPipeline({
+    ...pipelineOptions,
+    venues: [new PumpFunLaunchVenue(new PumpFunSDK(provider), priorityFee, slippageBps)]
+  });
+}
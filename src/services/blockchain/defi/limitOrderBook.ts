@@ -0,0 +1,366 @@
+// src/services/blockchain/defi/limitOrderBook.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import { JupiterPriceV2 } from './jupiterPriceV2.js';
+
+/**
+ * `executing` is stored before a fill is sent. An order still executing after
+ * a restart may have filled, so it is left alone until it is cancelled or
+ * expires.
+ */
+export type LimitOrderStatus = 'pending' | 'executing' | 'partially_filled' | 'filled' | 'expired' | 'cancelled';
+
+export interface LimitOrderRequest {
+  inputToken: string;
+  outputToken: string;
+  amount: number;
+  limitPrice: number;
+  slippageBps?: number;
+  priorityFeeMicroLamports?: number;
+  deadline?: number;
+}
+
+export interface LimitOrderFill {
+  tradeId: string;
+  amount: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface LimitOrder extends LimitOrderRequest {
+  id: string;
+  filledAmount: number;
+  status: LimitOrderStatus;
+  fills: LimitOrderFill[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MarketRate {
+  inputPrice: number;
+  outputPrice: number;
+  rate: number;
+}
+
+/**
+ * Executes (part of) an order at market. Returns the trade id and how much of
+ * the requested amount was actually filled, in order units.
+ */
+export type LimitOrderExecutor = (
+  order: LimitOrder,
+  amount: number,
+  market: MarketRate
+) => Promise<{ tradeId: string; filledAmount: number }>;
+
+export interface LimitOrderStore {
+  load(): Promise<LimitOrder[]>;
+  save(orders: LimitOrder[]): Promise<void>;
+}
+
+export interface LimitOrderBookOptions {
+  store?: LimitOrderStore;
+  pollInterval?: number;
+}
+
+/**
+ * Keeps open limit orders in Redis so they survive a restart.
+ */
+export class RedisLimitOrderStore implements LimitOrderStore {
+  private readonly key: string;
+
+  constructor(key = 'trading:limitOrders') {
+    this.key = key;
+  }
+
+  public async load(): Promise<LimitOrder[]> {
+    return (await redisService.get<LimitOrder[]>(this.key)) || [];
+  }
+
+  public async save(orders: LimitOrder[]): Promise<void> {
+    await redisService.set(this.key, orders);
+  }
+}
+
+/**
+ * Keeps pending limit orders and fills them once the market crosses their limit.
+ *
+ * Prices are expressed like TradeResult.executionPrice: units of outputToken
+ * received per unit of inputToken. An order is marketable when the current
+ * rate is at least its limitPrice.
+ */
+export class LimitOrderBook extends EventEmitter {
+  private readonly orders: Map<string, LimitOrder> = new Map();
+  private readonly jupiterPriceV2: JupiterPriceV2;
+  private readonly executor: LimitOrderExecutor;
+  private readonly store: LimitOrderStore;
+  private readonly pollInterval: number;
+  private pollTimer?: NodeJS.Timeout;
+  private isProcessing = false;
+
+  private readonly DEFAULT_POLL_INTERVAL = 10000; // 10 seconds
+  private readonly MIN_FILL_RATIO = 0.000001; // Remainders below this are treated as filled
+
+  constructor(
+    jupiterPriceV2: JupiterPriceV2,
+    executor: LimitOrderExecutor,
+    options: LimitOrderBookOptions = {}
+  ) {
+    super();
+    this.jupiterPriceV2 = jupiterPriceV2;
+    this.executor = executor;
+    this.store = options.store || new RedisLimitOrderStore();
+    this.pollInterval = options.pollInterval ?? this.DEFAULT_POLL_INTERVAL;
+  }
+
+  /**
+   * Restore open orders saved by a previous run and resume matching them.
+   * Load errors propagate; starting empty would let the next save drop every
+   * stored order.
+   */
+  public async initialize(): Promise<void> {
+    const saved = await this.store.load();
+    saved
+      .filter(order => this.isOpen(order))
+      .forEach(order => this.orders.set(order.id, order));
+
+    saved
+      .filter(order => order.status === 'executing')
+      .forEach(order => elizaLogger.warn(
+        `Limit order ${order.id} was executing when the last run stopped and may have filled, ` +
+        'it is not matched again until it is cancelled'
+      ));
+
+    if (this.orders.size) {
+      elizaLogger.info(`Restored ${this.orders.size} open limit orders`);
+      this.ensurePolling();
+    }
+  }
+
+  public async place(request: LimitOrderRequest): Promise<LimitOrder> {
+    if (!request.limitPrice || request.limitPrice <= 0) {
+      throw new Error('Limit price required for limit order');
+    }
+    if (request.deadline && request.deadline <= Date.now()) {
+      throw new Error('Order deadline has already passed');
+    }
+
+    const now = Date.now();
+    const order: LimitOrder = {
+      ...request,
+      id: `order-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      filledAmount: 0,
+      status: 'pending',
+      fills: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.orders.set(order.id, order);
+    await this.persist();
+    this.emit('orderPlaced', order);
+    this.ensurePolling();
+
+    return order;
+  }
+
+  public async cancel(orderId: string): Promise<LimitOrder> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (!this.isOpen(order)) {
+      throw new Error(`Order ${orderId} is already ${order.status}`);
+    }
+
+    this.close(order, 'cancelled');
+    await this.persist();
+    this.emit('orderCancelled', order);
+    return order;
+  }
+
+  public getOrder(orderId: string): LimitOrder | undefined {
+    return this.orders.get(orderId);
+  }
+
+  public getOpenOrders(): LimitOrder[] {
+    return Array.from(this.orders.values()).filter(order => this.isOpen(order));
+  }
+
+  /**
+   * Resolves once the order is completely filled, rejects if it expires or is
+   * cancelled first.
+   */
+  public waitForCompletion(orderId: string): Promise<LimitOrder> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      return Promise.reject(new Error(`Order ${orderId} not found`));
+    }
+    if (order.status === 'filled') {
+      return Promise.resolve(order);
+    }
+    if (!this.isOpen(order)) {
+      return Promise.reject(new Error(`Order ${orderId} ${order.status}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onFilled = (filled: LimitOrder) => {
+        if (filled.id !== orderId) return;
+        cleanup();
+        resolve(filled);
+      };
+      const onClosed = (closed: LimitOrder) => {
+        if (closed.id !== orderId) return;
+        cleanup();
+        reject(new Error(`Order ${orderId} ${closed.status}`));
+      };
+      const cleanup = () => {
+        this.off('orderFilled', onFilled);
+        this.off('orderExpired', onClosed);
+        this.off('orderCancelled', onClosed);
+      };
+
+      this.on('orderFilled', onFilled);
+      this.on('orderExpired', onClosed);
+      this.on('orderCancelled', onClosed);
+    });
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Run a single matching pass. Called on every poll tick.
+   */
+  public async processOrders(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const now = Date.now();
+      const expired = this.getOpenOrders().filter(order => order.deadline && order.deadline <= now);
+      if (expired.length) {
+        expired.forEach(order => this.close(order, 'expired'));
+        await this.persist();
+        expired.forEach(order => this.emit('orderExpired', order));
+      }
+
+      if (!this.getOpenOrders().length) {
+        this.stop();
+        return;
+      }
+      const openOrders = this.getOpenOrders().filter(order => order.status !== 'executing');
+      if (!openOrders.length) return;
+
+      const tokens = Array.from(new Set(
+        openOrders.flatMap(order => [order.inputToken, order.outputToken])
+      ));
+      const { data } = await this.jupiterPriceV2.getPrices(tokens);
+
+      for (const order of openOrders) {
+        const inputPrice = Number(data[order.inputToken]?.price);
+        const outputPrice = Number(data[order.outputToken]?.price);
+        if (!inputPrice || !outputPrice) {
+          elizaLogger.warn(`Missing price data for order ${order.id}, skipping this round`);
+          continue;
+        }
+
+        const market: MarketRate = {
+          inputPrice,
+          outputPrice,
+          rate: inputPrice / outputPrice
+        };
+
+        if (market.rate >= order.limitPrice) {
+          await this.fill(order, market);
+        }
+      }
+    } catch (error) {
+      elizaLogger.error('Error processing limit orders:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async fill(order: LimitOrder, market: MarketRate): Promise<void> {
+    const remaining = order.amount - order.filledAmount;
+    const previousStatus = order.status;
+
+    order.status = 'executing';
+    order.updatedAt = Date.now();
+    if (!(await this.persist())) {
+      // Without the marker a crash mid swap could fill the order twice
+      order.status = previousStatus;
+      return;
+    }
+
+    try {
+      const { tradeId, filledAmount } = await this.executor(order, remaining, market);
+      // The order may have been cancelled while the swap was in flight; the fill still counts
+      const filled = Math.min(remaining, Math.max(0, filledAmount));
+
+      order.fills.push({
+        tradeId,
+        amount: filled,
+        price: market.rate,
+        timestamp: Date.now()
+      });
+      order.filledAmount += filled;
+      order.updatedAt = Date.now();
+
+      if (order.status !== 'executing') {
+        await this.persist();
+        return;
+      }
+
+      if (order.amount - order.filledAmount <= order.amount * this.MIN_FILL_RATIO) {
+        this.close(order, 'filled');
+        await this.persist();
+        this.emit('orderFilled', order);
+      } else {
+        order.status = 'partially_filled';
+        await this.persist();
+        this.emit('orderPartiallyFilled', order);
+      }
+    } catch (error) {
+      // Leave the order open, the next tick will try again
+      elizaLogger.error(`Failed to fill order ${order.id}:`, error);
+      if (order.status === 'executing') {
+        order.status = previousStatus;
+        await this.persist();
+      }
+    }
+  }
+
+  private close(order: LimitOrder, status: 'filled' | 'expired' | 'cancelled'): void {
+    order.status = status;
+    order.updatedAt = Date.now();
+  }
+
+  private async persist(): Promise<boolean> {
+    try {
+      // Closed orders are dropped from storage, they are only kept in memory
+      await this.store.save(this.getOpenOrders());
+      return true;
+    } catch (error) {
+      elizaLogger.error('Failed to persist limit orders:', error);
+      return false;
+    }
+  }
+
+  private isOpen(order: LimitOrder): boolean {
+    return order.status === 'pending' || order.status === 'executing' || order.status === 'partially_filled';
+  }
+
+  private ensurePolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.processOrders();
+    }, this.pollInterval);
+  }
+}
@@ -0,0 +1,449 @@
+// src/services/blockchain/defi/liquidityAdapters.ts
+
+import axios from 'axios';
+import Decimal from 'decimal.js';
+import { BN } from '@coral-xyz/anchor';
+import { Connection, Keypair, PublicKey, Transaction, sendAndConfirmTransaction } from '@solana/web3.js';
+import { DecimalUtil, Percentage } from '@orca-so/common-sdk';
+import {
+  IGNORE_CACHE,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  PDAUtil,
+  PoolUtil,
+  PriceMath,
+  TickArrayUtil,
+  TokenExtensionUtil,
+  collectFeesQuote,
+  decreaseLiquidityQuoteByLiquidity,
+  increaseLiquidityQuoteByInputToken
+} from '@orca-so/whirlpools-sdk';
+import type { WhirlpoolClient } from '@orca-so/whirlpools-sdk';
+import DLMM, { StrategyType } from '@meteora-ag/dlmm';
+import type {
+  LiquidityPool,
+  LiquidityProtocolAdapter,
+  LPPosition,
+  OpenedPosition,
+  PositionAmounts,
+  PriceRange,
+  WithdrawResult
+} from './liquidityManager.js';
+
+const ORCA_API = 'https://api.mainnet.orca.so/v1';
+const METEORA_API = 'https://dlmm-api.meteora.ag';
+const POOL_LIST_TTL = 300000; // 5 minutes
+
+/**
+ * Entry of the Orca API whirlpool list, only the fields used here
+ */
+interface OrcaApiWhirlpool {
+  address: string;
+  tokenA: { mint: string };
+  tokenB: { mint: string };
+  tvl?: number;
+  lpFeeRate?: number;
+  volume?: { day?: number };
+  priceRange?: { day?: { min: number; max: number } };
+  totalApr?: { day?: number };
+}
+
+/**
+ * Pair as listed by the Meteora DLMM API. Amounts come back as strings or
+ * numbers depending on the field.
+ */
+interface MeteoraApiPair {
+  address: string;
+  mint_x: string;
+  mint_y: string;
+  liquidity: string;
+  trade_volume_24h?: number;
+  fees_24h?: number;
+  apr?: number;
+}
+
+/**
+ * DLMM SDK entry point, loads a pair by address
+ */
+export type DlmmFactory = Pick<typeof DLMM, 'create'>;
+
+const toBaseUnits = (amount: number, decimals: number): BN =>
+  new BN(new Decimal(amount).mul(new Decimal(10).pow(decimals)).floor().toFixed());
+
+const fromBaseUnits = (amount: BN | string | number, decimals: number): number =>
+  new Decimal(amount.toString()).div(new Decimal(10).pow(decimals)).toNumber();
+
+/**
+ * Orca Whirlpools positions through the Whirlpool client. Pool discovery and
+ * advertised metrics come from the Orca API, prices and amounts from chain.
+ */
+export class OrcaWhirlpoolAdapter implements LiquidityProtocolAdapter {
+  public readonly protocol = 'orca' as const;
+  private readonly client: WhirlpoolClient;
+  private readonly apiUrl: string;
+  private poolList: { pools: OrcaApiWhirlpool[]; fetchedAt: number } | null = null;
+
+  constructor(whirlpoolClient: WhirlpoolClient, apiUrl: string = ORCA_API) {
+    this.client = whirlpoolClient;
+    this.apiUrl = apiUrl;
+  }
+
+  public async findPool(tokenA: string, tokenB: string): Promise<LiquidityPool | null> {
+    const candidates = (await this.listPools()).filter(pool =>
+      (pool.tokenA.mint === tokenA && pool.tokenB.mint === tokenB) ||
+      (pool.tokenA.mint === tokenB && pool.tokenB.mint === tokenA)
+    );
+    if (!candidates.length) return null;
+
+    // Deepest pool gives the best fills and fee share per unit of liquidity
+    const best = candidates.reduce((a, b) => (Number(b.tvl) > Number(a.tvl) ? b : a));
+    return this.getPool(best.address);
+  }
+
+  public async getPool(address: string): Promise<LiquidityPool> {
+    const whirlpool = await this.client.getPool(address, IGNORE_CACHE);
+    const data = whirlpool.getData();
+    const tokenA = whirlpool.getTokenAInfo();
+    const tokenB = whirlpool.getTokenBInfo();
+    const price = PriceMath.sqrtPriceX64ToPrice(data.sqrtPrice, tokenA.decimals, tokenB.decimals).toNumber();
+    const listed = (await this.listPools()).find(pool => pool.address === address);
+
+    const tvl = Number(listed?.tvl) || 0;
+    const volume24h = Number(listed?.volume?.day) || 0;
+    const dayRange = listed?.priceRange?.day;
+
+    return {
+      address,
+      protocol: this.protocol,
+      tokenA: tokenA.mint.toBase58(),
+      tokenB: tokenB.mint.toBase58(),
+      price,
+      metrics: {
+        tvl,
+        volume24h,
+        fees24h: volume24h * (Number(listed?.lpFeeRate) || 0),
+        apy: Number(listed?.totalApr?.day) || 0,
+        volatility: dayRange && price > 0 ? (dayRange.max - dayRange.min) / price : 0,
+        utilization: tvl > 0 ? volume24h / tvl : 0
+      }
+    };
+  }
+
+  public async openPosition(
+    pool: LiquidityPool,
+    amountA: number,
+    amountB: number,
+    range: PriceRange,
+    slippageBps: number
+  ): Promise<OpenedPosition> {
+    const whirlpool = await this.client.getPool(pool.address, IGNORE_CACHE);
+    const data = whirlpool.getData();
+    const tokenA = whirlpool.getTokenAInfo();
+    const tokenB = whirlpool.getTokenBInfo();
+    const tokenExtensions = await TokenExtensionUtil.buildTokenExtensionContext(this.client.getFetcher(), data);
+    const slippage = Percentage.fromFraction(slippageBps, 10000);
+
+    const tickLower = PriceMath.priceToInitializableTickIndex(
+      new Decimal(range.lower), tokenA.decimals, tokenB.decimals, data.tickSpacing
+    );
+    let tickUpper = PriceMath.priceToInitializableTickIndex(
+      new Decimal(range.upper), tokenA.decimals, tokenB.decimals, data.tickSpacing
+    );
+    if (tickUpper <= tickLower) {
+      tickUpper = tickLower + data.tickSpacing;
+    }
+
+    // Size the deposit by token A unless that would need more token B than we hold
+    let quote = increaseLiquidityQuoteByInputToken(
+      tokenA.mint, new Decimal(amountA), tickLower, tickUpper, slippage, whirlpool, tokenExtensions
+    );
+    if (fromBaseUnits(quote.tokenEstB, tokenB.decimals) > amountB) {
+      quote = increaseLiquidityQuoteByInputToken(
+        tokenB.mint, new Decimal(amountB), tickLower, tickUpper, slippage, whirlpool, tokenExtensions
+      );
+    }
+
+    const { positionMint, tx } = await whirlpool.openPosition(tickLower, tickUpper, quote);
+    const signature = await tx.buildAndExecute();
+
+    return {
+      positionAddress: PDAUtil.getPosition(ORCA_WHIRLPOOL_PROGRAM_ID, positionMint).publicKey.toBase58(),
+      amountA: DecimalUtil.fromBN(quote.tokenEstA, tokenA.decimals).toNumber(),
+      amountB: DecimalUtil.fromBN(quote.tokenEstB, tokenB.decimals).toNumber(),
+      range: {
+        lower: PriceMath.tickIndexToPrice(tickLower, tokenA.decimals, tokenB.decimals).toNumber(),
+        upper: PriceMath.tickIndexToPrice(tickUpper, tokenA.decimals, tokenB.decimals).toNumber()
+      },
+      signatures: [signature]
+    };
+  }
+
+  public async getPositionAmounts(position: LPPosition): Promise<PositionAmounts> {
+    const whirlpool = await this.client.getPool(position.poolAddress, IGNORE_CACHE);
+    const orcaPosition = await this.client.getPosition(position.id, IGNORE_CACHE);
+    const poolData = whirlpool.getData();
+    const positionData = orcaPosition.getData();
+    const decimalsA = whirlpool.getTokenAInfo().decimals;
+    const decimalsB = whirlpool.getTokenBInfo().decimals;
+
+    const amounts = PoolUtil.getTokenAmountsFromLiquidity(
+      positionData.liquidity,
+      poolData.sqrtPrice,
+      PriceMath.tickIndexToSqrtPriceX64(positionData.tickLowerIndex),
+      PriceMath.tickIndexToSqrtPriceX64(positionData.tickUpperIndex),
+      false
+    );
+
+    const fetcher = this.client.getFetcher();
+    const [tickLower, tickUpper] = await Promise.all(
+      [positionData.tickLowerIndex, positionData.tickUpperIndex].map(async (tickIndex: number) => {
+        const tickArray = await fetcher.getTickArray(
+          PDAUtil.getTickArrayFromTickIndex(
+            tickIndex, poolData.tickSpacing, new PublicKey(position.poolAddress), ORCA_WHIRLPOOL_PROGRAM_ID
+          ).publicKey
+        );
+        if (!tickArray) {
+          throw new Error(`Tick array for tick ${tickIndex} of pool ${position.poolAddress} not found`);
+        }
+        return TickArrayUtil.getTickFromArray(tickArray, tickIndex, poolData.tickSpacing);
+      })
+    );
+    const fees = collectFeesQuote({
+      whirlpool: poolData,
+      position: positionData,
+      tickLower,
+      tickUpper,
+      tokenExtensionCtx: await TokenExtensionUtil.buildTokenExtensionContext(fetcher, poolData)
+    });
+
+    return {
+      amountA: fromBaseUnits(amounts.tokenA, decimalsA),
+      amountB: fromBaseUnits(amounts.tokenB, decimalsB),
+      feesA: fromBaseUnits(fees.feeOwedA, decimalsA),
+      feesB: fromBaseUnits(fees.feeOwedB, decimalsB)
+    };
+  }
+
+  public async collectFees(position: LPPosition): Promise<WithdrawResult> {
+    const { feesA, feesB } = await this.getPositionAmounts(position);
+    const orcaPosition = await this.client.getPosition(position.id);
+    const tx = await orcaPosition.collectFees(true);
+    const signature = await tx.buildAndExecute();
+
+    return { amountA: 0, amountB: 0, feesA, feesB, signatures: [signature] };
+  }
+
+  public async removeLiquidity(
+    position: LPPosition,
+    percentage: number,
+    slippageBps: number
+  ): Promise<WithdrawResult> {
+    const before = await this.getPositionAmounts(position);
+    const slippage = Percentage.fromFraction(slippageBps, 10000);
+    const whirlpool = await this.client.getPool(position.poolAddress);
+
+    if (percentage >= 100) {
+      // Closing collects fees and rewards and burns the position NFT
+      const txs = await whirlpool.closePosition(new PublicKey(position.id), slippage);
+      const signatures: string[] = [];
+      for (const tx of txs) {
+        signatures.push(await tx.buildAndExecute());
+      }
+      return { ...before, signatures };
+    }
+
+    const orcaPosition = await this.client.getPosition(position.id);
+    const liquidity = orcaPosition.getData().liquidity
+      .muln(Math.round(percentage * 100))
+      .divn(10000);
+    const tokenExtensions = await TokenExtensionUtil.buildTokenExtensionContext(
+      this.client.getFetcher(), whirlpool.getData()
+    );
+    const quote = decreaseLiquidityQuoteByLiquidity(liquidity, slippage, orcaPosition, whirlpool, tokenExtensions);
+    const tx = await orcaPosition.decreaseLiquidity(quote);
+    const signature = await tx.buildAndExecute();
+
+    return {
+      amountA: before.amountA * percentage / 100,
+      amountB: before.amountB * percentage / 100,
+      feesA: 0,
+      feesB: 0,
+      signatures: [signature]
+    };
+  }
+
+  private async listPools(): Promise<OrcaApiWhirlpool[]> {
+    if (!this.poolList || Date.now() - this.poolList.fetchedAt > POOL_LIST_TTL) {
+      const response = await axios.get<{ whirlpools?: OrcaApiWhirlpool[] }>(`${this.apiUrl}/whirlpool/list`);
+      this.poolList = { pools: response.data?.whirlpools || [], fetchedAt: Date.now() };
+    }
+    return this.poolList.pools;
+  }
+}
+
+/**
+ * Meteora DLMM positions. `dlmm` is the SDK entry point whose `create`
+ * loads a pair; ranges map to the bins between the range prices.
+ */
+export class MeteoraDlmmAdapter implements LiquidityProtocolAdapter {
+  public readonly protocol = 'meteora' as const;
+  private readonly connection: Connection;
+  private readonly wallet: Keypair;
+  private readonly dlmm: DlmmFactory;
+  private readonly apiUrl: string;
+  private readonly pairs: Map<string, DLMM> = new Map();
+  private pairList: { pairs: MeteoraApiPair[]; fetchedAt: number } | null = null;
+
+  constructor(connection: Connection, wallet: Keypair, dlmm: DlmmFactory, apiUrl: string = METEORA_API) {
+    this.connection = connection;
+    this.wallet = wallet;
+    this.dlmm = dlmm;
+    this.apiUrl = apiUrl;
+  }
+
+  public async findPool(tokenA: string, tokenB: string): Promise<LiquidityPool | null> {
+    const candidates = (await this.listPairs()).filter(pair =>
+      (pair.mint_x === tokenA && pair.mint_y === tokenB) ||
+      (pair.mint_x === tokenB && pair.mint_y === tokenA)
+    );
+    if (!candidates.length) return null;
+
+    const best = candidates.reduce((a, b) => (Number(b.liquidity) > Number(a.liquidity) ? b : a));
+    return this.getPool(best.address);
+  }
+
+  public async getPool(address: string): Promise<LiquidityPool> {
+    const pair = await this.getPair(address);
+    const activeBin = await pair.getActiveBin();
+    const price = Number(pair.fromPricePerLamport(Number(activeBin.price)));
+
+    const response = await axios.get<Partial<MeteoraApiPair>>(`${this.apiUrl}/pair/${address}`);
+    const listed = response.data || {};
+    const tvl = Number(listed.liquidity) || 0;
+    const volume24h = Number(listed.trade_volume_24h) || 0;
+
+    return {
+      address,
+      protocol: this.protocol,
+      tokenA: pair.tokenX.publicKey.toBase58(),
+      tokenB: pair.tokenY.publicKey.toBase58(),
+      price,
+      metrics: {
+        tvl,
+        volume24h,
+        fees24h: Number(listed.fees_24h) || 0,
+        // The API reports APR in percent
+        apy: (Number(listed.apr) || 0) / 100,
+        volatility: 0,
+        utilization: tvl > 0 ? volume24h / tvl : 0
+      }
+    };
+  }
+
+  public async openPosition(
+    pool: LiquidityPool,
+    amountA: number,
+    amountB: number,
+    range: PriceRange,
+    slippageBps: number
+  ): Promise<OpenedPosition> {
+    const pair = await this.getPair(pool.address);
+    const minBinId = pair.getBinIdFromPrice(Number(pair.toPricePerLamport(range.lower)), true);
+    const maxBinId = pair.getBinIdFromPrice(Number(pair.toPricePerLamport(range.upper)), false);
+    const positionKeypair = Keypair.generate();
+
+    const tx = await pair.initializePositionAndAddLiquidityByStrategy({
+      positionPubKey: positionKeypair.publicKey,
+      user: this.wallet.publicKey,
+      totalXAmount: toBaseUnits(amountA, pair.tokenX.mint.decimals),
+      totalYAmount: toBaseUnits(amountB, pair.tokenY.mint.decimals),
+      strategy: { minBinId, maxBinId, strategyType: StrategyType.Spot },
+      slippage: slippageBps / 100
+    });
+    const signature = await sendAndConfirmTransaction(this.connection, tx, [this.wallet, positionKeypair]);
+
+    return {
+      positionAddress: positionKeypair.publicKey.toBase58(),
+      amountA,
+      amountB,
+      range,
+      signatures: [signature]
+    };
+  }
+
+  public async getPositionAmounts(position: LPPosition): Promise<PositionAmounts> {
+    const pair = await this.getPair(position.poolAddress);
+    const { positionData } = await pair.getPosition(new PublicKey(position.id));
+
+    return {
+      amountA: fromBaseUnits(positionData.totalXAmount, pair.tokenX.mint.decimals),
+      amountB: fromBaseUnits(positionData.totalYAmount, pair.tokenY.mint.decimals),
+      feesA: fromBaseUnits(positionData.feeX, pair.tokenX.mint.decimals),
+      feesB: fromBaseUnits(positionData.feeY, pair.tokenY.mint.decimals)
+    };
+  }
+
+  public async collectFees(position: LPPosition): Promise<WithdrawResult> {
+    const { feesA, feesB } = await this.getPositionAmounts(position);
+    const pair = await this.getPair(position.poolAddress);
+    const lbPosition = await pair.getPosition(new PublicKey(position.id));
+    const txs = await pair.claimSwapFee({ owner: this.wallet.publicKey, position: lbPosition });
+
+    return { amountA: 0, amountB: 0, feesA, feesB, signatures: await this.sendAll(txs) };
+  }
+
+  public async removeLiquidity(
+    position: LPPosition,
+    percentage: number,
+    slippageBps: number
+  ): Promise<WithdrawResult> {
+    const before = await this.getPositionAmounts(position);
+    const pair = await this.getPair(position.poolAddress);
+    const lbPosition = await pair.getPosition(new PublicKey(position.id));
+    const closing = percentage >= 100;
+
+    const txs = await pair.removeLiquidity({
+      position: new PublicKey(position.id),
+      user: this.wallet.publicKey,
+      fromBinId: lbPosition.positionData.lowerBinId,
+      toBinId: lbPosition.positionData.upperBinId,
+      bps: new BN(Math.round(Math.min(percentage, 100) * 100)),
+      // Claiming on close returns the fees with the liquidity
+      shouldClaimAndClose: closing
+    });
+
+    return {
+      amountA: before.amountA * Math.min(percentage, 100) / 100,
+      amountB: before.amountB * Math.min(percentage, 100) / 100,
+      feesA: closing ? before.feesA : 0,
+      feesB: closing ? before.feesB : 0,
+      signatures: await this.sendAll(txs)
+    };
+  }
+
+  private async getPair(address: string): Promise<DLMM> {
+    let pair = this.pairs.get(address);
+    if (!pair) {
+      pair = await this.dlmm.create(this.connection, new PublicKey(address));
+      this.pairs.set(address, pair);
+    } else {
+      await pair.refetchStates();
+    }
+    return pair;
+  }
+
+  private async listPairs(): Promise<MeteoraApiPair[]> {
+    if (!this.pairList || Date.now() - this.pairList.fetchedAt > POOL_LIST_TTL) {
+      const response = await axios.get<MeteoraApiPair[]>(`${this.apiUrl}/pair/all`);
+      this.pairList = { pairs: response.data || [], fetchedAt: Date.now() };
+    }
+    return this.pairList.pairs;
+  }
+
+  private async sendAll(txs: Transaction[]): Promise<string[]> {
+    const signatures: string[] = [];
+    for (const tx of txs) {
+      signatures.push(await sendAndConfirmTransaction(this.connection, tx, [this.wallet]));
+    }
+    return signatures;
+  }
+}
@@ -1,27 +1,68 @@
 // src/services/blockchain/defi/liquidityManager.ts
 
-import { Connection, PublicKey, Transaction } from '@solana/web3.js';
-import { WhirlpoolClient } from '@orca-so/whirlpool-sdk';
-import { MeteoraClient } from '@meteora/sdk';
+import { Connection, Keypair } from '@solana/web3.js';
+import { Wallet } from '@coral-xyz/anchor';
+import {
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  WhirlpoolClient,
+  WhirlpoolContext,
+  buildWhirlpoolClient
+} from '@orca-so/whirlpools-sdk';
+import DLMM from '@meteora-ag/dlmm';
 import { EventEmitter } from 'events';
+import { redisService } from '../../redis/redis-service.js';
+import { walletRegistry } from '../../wallet/walletRegistry.js';
+import { DlmmFactory, MeteoraDlmmAdapter, OrcaWhirlpoolAdapter } from './liquidityAdapters.js';
+import { LPAnalyticsService, lpAnalytics } from './lpAnalytics.js';
 
-interface LPPosition {
+export type LiquidityProtocol = 'orca' | 'meteora';
+
+export interface PriceRange {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Amounts are in UI units and prices are token B per token A, in the pool's
+ * own token order.
+ */
+export interface LPPosition {
+  /** Position account address */
   id: string;
-  protocol: 'orca' | 'meteora';
+  protocol: LiquidityProtocol;
+  poolAddress: string;
   tokenA: string;
   tokenB: string;
   amountA: number;
   amountB: number;
+  /** Collected plus unclaimed fees, valued in token B */
   fees: number;
+  feesA: number;
+  feesB: number;
+  collectedFeesA: number;
+  collectedFeesB: number;
   apy: number;
-  range?: {
-    lower: number;
-    upper: number;
-  };
+  range?: PriceRange;
+  entryPrice: number;
+  entryAmountA: number;
+  entryAmountB: number;
+  currentPrice: number;
+  /** Value of the deposited amounts had we just held them, in token B */
+  hodlValue: number;
+  /** Value of the liquidity excluding fees, in token B */
+  positionValue: number;
+  /** positionValue / hodlValue - 1, negative when LPing lost against holding */
+  impermanentLoss: number;
+  inRange: boolean;
+  /** Position this one replaced in a rebalance, its IL history continues here */
+  rebalancedFrom?: string;
+  /** Tokens withdrawn by a rebalance that are not in a new position yet, fees included */
+  pendingRebalance?: { amountA: number; amountB: number; feesA: number; feesB: number };
   timestamp: number;
+  updatedAt: number;
 }
 
-interface PoolMetrics {
+export interface PoolMetrics {
   tvl: number;
   volume24h: number;
   fees24h: number;
@@ -30,28 +71,143 @@ interface PoolMetrics {
   utilization: number;
 }
 
-interface LiquidityStrategy {
+export interface LiquidityStrategy {
   id: string;
   tokenPair: [string, string];
+  /** Share of the position value to hold in the pool's token A */
   targetRatio: number;
+  /** Total range width as a fraction of the price, e.g. 0.2 for ±10% */
   rangeWidth: number;
+  /** How far past a range edge, as a fraction, the price may move before rebalancing */
   rebalanceThreshold: number;
   minApy: number;
   maxSlippage: number;
 }
 
+export interface LiquidityPool {
+  address: string;
+  protocol: LiquidityProtocol;
+  tokenA: string;
+  tokenB: string;
+  price: number;
+  metrics: PoolMetrics;
+}
+
+export interface OpenedPosition {
+  positionAddress: string;
+  amountA: number;
+  amountB: number;
+  /** Range actually used, after snapping to ticks or bins */
+  range: PriceRange;
+  signatures: string[];
+}
+
+export interface PositionAmounts {
+  amountA: number;
+  amountB: number;
+  /** Unclaimed fees */
+  feesA: number;
+  feesB: number;
+}
+
+export interface WithdrawResult extends PositionAmounts {
+  signatures: string[];
+}
+
+/**
+ * Concentrated liquidity operations for a single protocol.
+ */
+export interface LiquidityProtocolAdapter {
+  readonly protocol: LiquidityProtocol;
+  findPool(tokenA: string, tokenB: string): Promise<LiquidityPool | null>;
+  getPool(address: string): Promise<LiquidityPool>;
+  openPosition(
+    pool: LiquidityPool,
+    amountA: number,
+    amountB: number,
+    range: PriceRange,
+    slippageBps: number
+  ): Promise<OpenedPosition>;
+  getPositionAmounts(position: LPPosition): Promise<PositionAmounts>;
+  collectFees(position: LPPosition): Promise<WithdrawResult>;
+  removeLiquidity(position: LPPosition, percentage: number, slippageBps: number): Promise<WithdrawResult>;
+}
+
+/**
+ * Swaps `amount` of `inputMint` and resolves with the output amount, both in
+ * UI units. Used to restore the target ratio when rebalancing.
+ */
+export type LiquiditySwapper = (inputMint: string, outputMint: string, amount: number) => Promise<number>;
+
+export interface LPPositionStore {
+  load(): Promise<LPPosition[]>;
+  save(positions: LPPosition[]): Promise<void>;
+}
+
+export class RedisLPPositionStore implements LPPositionStore {
+  private readonly key: string;
+
+  constructor(key = 'liquidity:positions') {
+    this.key = key;
+  }
+
+  public async load(): Promise<LPPosition[]> {
+    return (await redisService.get<LPPosition[]>(this.key)) || [];
+  }
+
+  public async save(positions: LPPosition[]): Promise<void> {
+    await redisService.set(this.key, positions);
+  }
+}
+
+export interface LiquidityManagerOptions {
+  adapters?: Partial<Record<LiquidityProtocol, LiquidityProtocolAdapter>>;
+  store?: LPPositionStore;
+  swapper?: LiquiditySwapper;
+  /** Records the performance time series, `null` disables it */
+  analytics?: LPAnalyticsService | null;
+}
+
+/**
+ * Value of the position against holding the deposited tokens, both valued in
+ * token B at `price`. Fees are left out so the result is the pure IL.
+ */
+export function calculateImpermanentLoss(
+  entryAmountA: number,
+  entryAmountB: number,
+  amountA: number,
+  amountB: number,
+  price: number
+): { hodlValue: number; positionValue: number; impermanentLoss: number } {
+  const hodlValue = entryAmountA * price + entryAmountB;
+  const positionValue = amountA * price + amountB;
+  return {
+    hodlValue,
+    positionValue,
+    impermanentLoss: hodlValue > 0 ? positionValue / hodlValue - 1 : 0
+  };
+}
+
 export class LiquidityManager extends EventEmitter {
   private connection: Connection;
-  private whirlpoolClient: InstanceType<typeof WhirlpoolClient>;
-  private meteoraClient: InstanceType<typeof MeteoraClient>;
+  private whirlpoolClient: WhirlpoolClient;
+  private meteoraClient: DlmmFactory;
   private positions: Map<string, LPPosition>;
   private strategies: Map<string, LiquidityStrategy>;
+  private readonly adapters: Record<LiquidityProtocol, LiquidityProtocolAdapter>;
+  private readonly store: LPPositionStore;
+  private readonly swapper?: LiquiditySwapper;
+  private monitorTimer: NodeJS.Timeout | null = null;
   private readonly UPDATE_INTERVAL = 300000; // 5 minutes
+  private readonly DEFAULT_RANGE_WIDTH = 0.2; // ±10% around the price
+  private readonly DEFAULT_SLIPPAGE = 0.01; // 1%
 
   constructor(
     connection: Connection,
-    whirlpoolClient: InstanceType<typeof WhirlpoolClient>,
-    meteoraClient: InstanceType<typeof MeteoraClient>
+    whirlpoolClient: WhirlpoolClient,
+    meteoraClient: DlmmFactory,
+    wallet: Keypair,
+    options: LiquidityManagerOptions = {}
   ) {
     super();
     this.connection = connection;
@@ -59,95 +215,128 @@ export class LiquidityManager extends EventEmitter {
     this.meteoraClient = meteoraClient;
     this.positions = new Map();
     this.strategies = new Map();
+    this.adapters = {
+      orca: options.adapters?.orca || new OrcaWhirlpoolAdapter(whirlpoolClient),
+      meteora: options.adapters?.meteora || new MeteoraDlmmAdapter(connection, wallet, meteoraClient)
+    };
+    this.store = options.store || new RedisLPPositionStore();
+    this.swapper = options.swapper;
+    const analytics = options.analytics === undefined ? lpAnalytics : options.analytics;
+    analytics?.attach(this);
+  }
+
+  /**
+   * Restore persisted positions and start monitoring them.
+   */
+  public async initialize(): Promise<void> {
+    const positions = await this.store.load();
+    positions.forEach(position => this.positions.set(position.id, position));
     this.startMonitoring();
   }
 
+  public stop(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = null;
+    }
+  }
+
   private startMonitoring(): void {
-    setInterval(() => {
+    this.stop();
+    this.monitorTimer = setInterval(() => {
       this.monitorPositions();
     }, this.UPDATE_INTERVAL);
   }
 
   public async addLiquidity(
-    protocol: 'orca' | 'meteora',
+    protocol: LiquidityProtocol,
     tokenA: string,
     tokenB: string,
     amountA: number,
     amountB: number,
-    range?: { lower: number; upper: number }
+    range?: PriceRange
   ): Promise<string> {
     try {
-      let positionId: string;
-
-      if (protocol === 'orca') {
-        positionId = await this.addOrcaLiquidity(
-          tokenA,
-          tokenB,
-          amountA,
-          amountB,
-          range
-        );
-      } else {
-        positionId = await this.addMeteoraLiquidity(
-          tokenA,
-          tokenB,
-          amountA,
-          amountB
-        );
-      }
-
-      const position: LPPosition = {
-        id: positionId,
-        protocol,
-        tokenA,
-        tokenB,
-        amountA,
-        amountB,
-        fees: 0,
-        apy: 0,
-        range,
-        timestamp: Date.now()
-      };
-
-      this.positions.set(positionId, position);
-      this.emit('liquidityAdded', position);
-
-      return positionId;
+      return await this.openPosition(protocol, tokenA, tokenB, amountA, amountB, range);
     } catch (error) {
       console.error('Error adding liquidity:', error);
       throw error;
     }
   }
 
-  private async addOrcaLiquidity(
+  /**
+   * Open a position and start tracking it. A position opened by a rebalance
+   * keeps its predecessor's entry, so IL is still measured against the
+   * original deposit, with the reinvested fees counted as deposited.
+   */
+  private async openPosition(
+    protocol: LiquidityProtocol,
     tokenA: string,
     tokenB: string,
     amountA: number,
     amountB: number,
-    range?: { lower: number; upper: number }
+    range?: PriceRange,
+    predecessor?: LPPosition
   ): Promise<string> {
-    try {
-      // Implement Orca Whirlpool liquidity addition
-      return 'position-id';
-    } catch (error) {
-      console.error('Error adding Orca liquidity:', error);
-      throw error;
+    const adapter = this.adapters[protocol];
+    const pool = await adapter.findPool(tokenA, tokenB);
+    if (!pool) {
+      throw new Error(`No ${protocol} pool for ${tokenA}/${tokenB}`);
     }
-  }
 
-  private async addMeteoraLiquidity(
-    tokenA: string,
-    tokenB: string,
-    amountA: number,
-    amountB: number
-  ): Promise<string> {
-    try {
-      // Implement Meteora liquidity addition
-      return 'position-id';
-    } catch (error) {
-      console.error('Error adding Meteora liquidity:', error);
-      throw error;
+    // Positions are kept in the pool's token order
+    if (pool.tokenA !== tokenA) {
+      [amountA, amountB] = [amountB, amountA];
+      range = range && { lower: 1 / range.upper, upper: 1 / range.lower };
     }
+
+    const strategy = this.getStrategyForPool(pool.tokenA, pool.tokenB);
+    const opened = await adapter.openPosition(
+      pool,
+      amountA,
+      amountB,
+      range || this.calculateOptimalRange(pool.price, pool.metrics, strategy),
+      this.getSlippageBps(strategy)
+    );
+
+    const reinvested = predecessor?.pendingRebalance;
+    const entryAmountA = predecessor ? predecessor.entryAmountA + (reinvested?.feesA || 0) : opened.amountA;
+    const entryAmountB = predecessor ? predecessor.entryAmountB + (reinvested?.feesB || 0) : opened.amountB;
+    const collectedFeesA = predecessor ? predecessor.collectedFeesA + (reinvested?.feesA || 0) : 0;
+    const collectedFeesB = predecessor ? predecessor.collectedFeesB + (reinvested?.feesB || 0) : 0;
+
+    const now = Date.now();
+    const position: LPPosition = {
+      id: opened.positionAddress,
+      protocol,
+      poolAddress: pool.address,
+      tokenA: pool.tokenA,
+      tokenB: pool.tokenB,
+      amountA: opened.amountA,
+      amountB: opened.amountB,
+      fees: collectedFeesA * pool.price + collectedFeesB,
+      feesA: collectedFeesA,
+      feesB: collectedFeesB,
+      collectedFeesA,
+      collectedFeesB,
+      apy: pool.metrics.apy,
+      range: opened.range,
+      entryPrice: predecessor?.entryPrice ?? pool.price,
+      entryAmountA,
+      entryAmountB,
+      currentPrice: pool.price,
+      ...calculateImpermanentLoss(entryAmountA, entryAmountB, opened.amountA, opened.amountB, pool.price),
+      inRange: this.isInRange(opened.range, pool.price),
+      rebalancedFrom: predecessor?.id,
+      timestamp: predecessor?.timestamp ?? now,
+      updatedAt: now
+    };
+
+    this.positions.set(position.id, position);
+    await this.persist();
+    this.emit('liquidityAdded', { ...position, signatures: opened.signatures });
+
+    return position.id;
   }
 
   public async removeLiquidity(
@@ -164,25 +353,37 @@ export class LiquidityManager extends EventEmitter {
     }
 
     try {
-      let result;
-      if (position.protocol === 'orca') {
-        result = await this.removeOrcaLiquidity(position, percentage);
-      } else {
-        result = await this.removeMeteoraLiquidity(position, percentage);
-      }
+      const withdrawn = await this.adapters[position.protocol].removeLiquidity(
+        position,
+        percentage,
+        this.getSlippageBps(this.getStrategyForPosition(position))
+      );
+      const result = {
+        tokenA: withdrawn.amountA + withdrawn.feesA,
+        tokenB: withdrawn.amountB + withdrawn.feesB,
+        fees: withdrawn.feesA * position.currentPrice + withdrawn.feesB
+      };
 
-      if (percentage === 100) {
+      if (percentage >= 100) {
         this.positions.delete(positionId);
       } else {
-        position.amountA *= (100 - percentage) / 100;
-        position.amountB *= (100 - percentage) / 100;
+        // Scale the entry amounts too so IL keeps comparing like for like
+        const remaining = (100 - percentage) / 100;
+        position.amountA *= remaining;
+        position.amountB *= remaining;
+        position.entryAmountA *= remaining;
+        position.entryAmountB *= remaining;
+        position.collectedFeesA += withdrawn.feesA;
+        position.collectedFeesB += withdrawn.feesB;
         this.positions.set(positionId, position);
       }
+      await this.persist();
 
       this.emit('liquidityRemoved', {
         positionId,
         percentage,
-        result
+        result,
+        signatures: withdrawn.signatures
       });
 
       return result;
@@ -192,36 +393,32 @@ export class LiquidityManager extends EventEmitter {
     }
   }
 
-  private async removeOrcaLiquidity(
-    position: LPPosition,
-    percentage: number
-  ): Promise<{ tokenA: number; tokenB: number; fees: number }> {
-    try {
-      // Implement Orca Whirlpool liquidity removal
-      return {
-        tokenA: 0,
-        tokenB: 0,
-        fees: 0
-      };
-    } catch (error) {
-      console.error('Error removing Orca liquidity:', error);
-      throw error;
+  /**
+   * Claim the fees accrued by a position without touching its liquidity.
+   */
+  public async collectFees(positionId: string): Promise<{ tokenA: number; tokenB: number }> {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error('Position not found');
     }
-  }
 
-  private async removeMeteoraLiquidity(
-    position: LPPosition,
-    percentage: number
-  ): Promise<{ tokenA: number; tokenB: number; fees: number }> {
     try {
-      // Implement Meteora liquidity removal
-      return {
-        tokenA: 0,
-        tokenB: 0,
-        fees: 0
-      };
+      const collected = await this.adapters[position.protocol].collectFees(position);
+      position.collectedFeesA += collected.feesA;
+      position.collectedFeesB += collected.feesB;
+      this.positions.set(positionId, position);
+      await this.persist();
+
+      this.emit('feesCollected', {
+        positionId,
+        tokenA: collected.feesA,
+        tokenB: collected.feesB,
+        signatures: collected.signatures
+      });
+
+      return { tokenA: collected.feesA, tokenB: collected.feesB };
     } catch (error) {
-      console.error('Error removing Meteora liquidity:', error);
+      console.error('Error collecting fees:', error);
       throw error;
     }
   }
@@ -238,10 +435,11 @@ export class LiquidityManager extends EventEmitter {
     }
 
     try {
-      const poolMetrics = await this.getPoolMetrics(position);
-      
-      if (this.needsRebalancing(position, poolMetrics, strategy)) {
-        await this.executeRebalance(position, poolMetrics, strategy);
+      const pool = await this.adapters[position.protocol].getPool(position.poolAddress);
+
+      // A rebalance that withdrew but never re-added is finished regardless of the price
+      if (position.pendingRebalance || this.needsRebalancing(position, pool.price, strategy)) {
+        await this.executeRebalance(position, pool, strategy);
       }
     } catch (error) {
       console.error('Error rebalancing position:', error);
@@ -251,122 +449,233 @@ export class LiquidityManager extends EventEmitter {
 
   private async executeRebalance(
     position: LPPosition,
-    metrics: PoolMetrics,
+    pool: LiquidityPool,
     strategy: LiquidityStrategy
   ): Promise<void> {
+    const oldAmounts = {
+      tokenA: position.amountA,
+      tokenB: position.amountB
+    };
+
+    // Remove existing liquidity, fees included. The record stays, noting what
+    // was withdrawn, until the new position exists, so a failed re-add can be
+    // finished on the next attempt.
+    if (!position.pendingRebalance) {
+      const withdrawn = await this.adapters[position.protocol].removeLiquidity(
+        position,
+        100,
+        this.getSlippageBps(strategy)
+      );
+      position.pendingRebalance = {
+        amountA: withdrawn.amountA + withdrawn.feesA,
+        amountB: withdrawn.amountB + withdrawn.feesB,
+        feesA: withdrawn.feesA,
+        feesB: withdrawn.feesB
+      };
+      position.amountA = 0;
+      position.amountB = 0;
+      position.updatedAt = Date.now();
+      await this.persist();
+
+      this.emit('liquidityRemoved', {
+        positionId: position.id,
+        percentage: 100,
+        result: {
+          tokenA: position.pendingRebalance.amountA,
+          tokenB: position.pendingRebalance.amountB,
+          fees: withdrawn.feesA * position.currentPrice + withdrawn.feesB
+        },
+        signatures: withdrawn.signatures
+      });
+    }
+
     // Calculate optimal amounts
-    const optimalAmounts = this.calculateOptimalAmounts(
+    const optimalAmounts = await this.calculateOptimalAmounts(
       position,
-      metrics,
+      position.pendingRebalance.amountA,
+      position.pendingRebalance.amountB,
+      pool.price,
       strategy
     );
-
-    // Remove existing liquidity
-    await this.removeLiquidity(position.id);
+    // Swapped tokens stay swapped if the re-add fails
+    position.pendingRebalance.amountA = optimalAmounts.amountA;
+    position.pendingRebalance.amountB = optimalAmounts.amountB;
+    await this.persist();
 
     // Add new liquidity with optimal amounts
-    await this.addLiquidity(
+    const newPositionId = await this.openPosition(
       position.protocol,
       position.tokenA,
       position.tokenB,
       optimalAmounts.amountA,
       optimalAmounts.amountB,
-      this.calculateOptimalRange(metrics, strategy)
+      this.calculateOptimalRange(pool.price, pool.metrics, strategy),
+      position
     );
 
+    this.positions.delete(position.id);
+    await this.persist();
+
     this.emit('positionRebalanced', {
       positionId: position.id,
-      oldAmounts: {
-        tokenA: position.amountA,
-        tokenB: position.amountB
-      },
+      newPositionId,
+      impermanentLoss: position.impermanentLoss,
+      oldAmounts,
       newAmounts: optimalAmounts
     });
   }
 
-  private calculateOptimalAmounts(
+  /**
+   * Split the withdrawn tokens according to the strategy's target ratio,
+   * swapping the excess when a swapper is configured.
+   */
+  private async calculateOptimalAmounts(
     position: LPPosition,
-    metrics: PoolMetrics,
+    amountA: number,
+    amountB: number,
+    price: number,
     strategy: LiquidityStrategy
-  ): { amountA: number; amountB: number } {
-    // Implement optimal amount calculation based on strategy
-    return {
-      amountA: position.amountA,
-      amountB: position.amountB
-    };
+  ): Promise<{ amountA: number; amountB: number }> {
+    if (!this.swapper || price <= 0) {
+      return { amountA, amountB };
+    }
+
+    const totalValue = amountA * price + amountB;
+    const targetA = totalValue * strategy.targetRatio / price;
+
+    if (amountA > targetA) {
+      const received = await this.swapper(position.tokenA, position.tokenB, amountA - targetA);
+      return { amountA: targetA, amountB: amountB + received };
+    }
+
+    const targetB = totalValue * (1 - strategy.targetRatio);
+    if (amountB > targetB) {
+      const received = await this.swapper(position.tokenB, position.tokenA, amountB - targetB);
+      return { amountA: amountA + received, amountB: targetB };
+    }
+
+    return { amountA, amountB };
   }
 
+  /**
+   * Range centred on the price, widened for volatile pools so the position
+   * isn't pushed out of range by normal daily moves.
+   */
   private calculateOptimalRange(
+    price: number,
     metrics: PoolMetrics,
-    strategy: LiquidityStrategy
-  ): { lower: number; upper: number } {
-    // Implement range calculation based on volatility and strategy
+    strategy: LiquidityStrategy | null
+  ): PriceRange {
+    const width = Math.max(strategy?.rangeWidth || this.DEFAULT_RANGE_WIDTH, metrics.volatility);
     return {
-      lower: 0,
-      upper: 0
+      lower: price * Math.max(1 - width / 2, 0.01),
+      upper: price * (1 + width / 2)
     };
   }
 
   private async monitorPositions(): Promise<void> {
-    for (const position of this.positions.values()) {
+    for (const position of Array.from(this.positions.values())) {
       try {
-        // Update position metrics
-        const metrics = await this.getPoolMetrics(position);
-        
+        // Withdrawn for a rebalance, there is nothing left to update
+        if (position.pendingRebalance) {
+          await this.rebalancePosition(position.id);
+          continue;
+        }
+
+        await this.updatePosition(position);
+
         // Check if rebalancing is needed
         const strategy = this.getStrategyForPosition(position);
-        if (strategy && this.needsRebalancing(position, metrics, strategy)) {
+        if (strategy && this.needsRebalancing(position, position.currentPrice, strategy)) {
           this.emit('rebalanceNeeded', {
             positionId: position.id,
-            metrics
+            price: position.currentPrice,
+            range: position.range
           });
+          await this.rebalancePosition(position.id);
         }
-
-        // Update position data
-        position.apy = metrics.apy;
-        position.fees = await this.getAccumulatedFees(position);
-        this.positions.set(position.id, position);
-
       } catch (error) {
         console.error(`Error monitoring position ${position.id}:`, error);
       }
     }
   }
 
-  private async getPoolMetrics(position: LPPosition): Promise<PoolMetrics> {
-    // Implement pool metrics fetching
-    return {
-      tvl: 0,
-      volume24h: 0,
-      fees24h: 0,
-      apy: 0,
-      volatility: 0,
-      utilization: 0
-    };
+  /**
+   * Refresh amounts, fees and IL against HODL from the pool.
+   */
+  public async updatePosition(position: LPPosition): Promise<LPPosition> {
+    const adapter = this.adapters[position.protocol];
+    const pool = await adapter.getPool(position.poolAddress);
+    const amounts = await adapter.getPositionAmounts(position);
+
+    position.amountA = amounts.amountA;
+    position.amountB = amounts.amountB;
+    position.currentPrice = pool.price;
+    position.apy = pool.metrics.apy;
+    position.inRange = !position.range || this.isInRange(position.range, pool.price);
+    position.feesA = position.collectedFeesA + amounts.feesA;
+    position.feesB = position.collectedFeesB + amounts.feesB;
+    position.fees = this.getAccumulatedFees(position);
+    Object.assign(position, calculateImpermanentLoss(
+      position.entryAmountA,
+      position.entryAmountB,
+      amounts.amountA,
+      amounts.amountB,
+      pool.price
+    ));
+    position.updatedAt = Date.now();
+
+    this.positions.set(position.id, position);
+    await this.persist();
+    this.emit('positionUpdated', position);
+
+    return position;
   }
 
-  private async getAccumulatedFees(position: LPPosition): Promise<number> {
-    // Implement fee calculation
-    return 0;
+  private getAccumulatedFees(position: LPPosition): number {
+    return position.feesA * position.currentPrice + position.feesB;
   }
 
   private needsRebalancing(
     position: LPPosition,
-    metrics: PoolMetrics,
+    price: number,
     strategy: LiquidityStrategy
   ): boolean {
-    // Check if rebalancing is needed based on strategy parameters
-    return false;
+    if (!position.range) return false;
+
+    const threshold = strategy.rebalanceThreshold;
+    return price < position.range.lower * (1 - threshold) ||
+      price > position.range.upper * (1 + threshold);
+  }
+
+  private isInRange(range: PriceRange, price: number): boolean {
+    return price >= range.lower && price <= range.upper;
+  }
+
+  private getSlippageBps(strategy: LiquidityStrategy | null): number {
+    return Math.round((strategy?.maxSlippage || this.DEFAULT_SLIPPAGE) * 10000);
   }
 
   private getStrategyForPosition(position: LPPosition): LiquidityStrategy | null {
+    return this.getStrategyForPool(position.tokenA, position.tokenB);
+  }
+
+  private getStrategyForPool(tokenA: string, tokenB: string): LiquidityStrategy | null {
     return Array.from(this.strategies.values())
-      .find(s => 
-        s.tokenPair[0] === position.tokenA &&
-        s.tokenPair[1] === position.tokenB
+      .find(s =>
+        (s.tokenPair[0] === tokenA && s.tokenPair[1] === tokenB) ||
+        (s.tokenPair[0] === tokenB && s.tokenPair[1] === tokenA)
       ) || null;
   }
 
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(Array.from(this.positions.values()));
+    } catch (error) {
+      console.error('Error saving LP positions:', error);
+    }
+  }
+
   public addStrategy(strategy: LiquidityStrategy): void {
     this.strategies.set(strategy.id, strategy);
     this.emit('strategyAdded', strategy);
@@ -384,4 +693,20 @@ export class LiquidityManager extends EventEmitter {
   public getStrategies(): LiquidityStrategy[] {
     return Array.from(this.strategies.values());
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Manage liquidity from the trading wallet on Orca and Meteora, with the
+ * persisted positions restored and monitored.
+ */
+export async function createLiquidityManager(
+  connection: Connection,
+  options: LiquidityManagerOptions = {}
+): Promise<LiquidityManager> {
+  const wallet = walletRegistry.getKeypair('trading');
+  const context = WhirlpoolContext.from(connection, new Wallet(wallet), ORCA_WHIRLPOOL_PROGRAM_ID);
+
+  const manager = new LiquidityManager(connection, buildWhirlpoolClient(context), DLMM, wallet, options);
+  await manager.initialize();
+  return manager;
+}
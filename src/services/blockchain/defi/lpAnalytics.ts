@@ -0,0 +1,213 @@
+// src/services/blockchain/defi/lpAnalytics.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import type { LiquidityManager, LiquidityProtocol, LPPosition } from './liquidityManager.js';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Point-in-time performance of an LP position. Values are in the pool's
+ * token B.
+ */
+export interface LPSnapshot {
+  timestamp: number;
+  price: number;
+  /** Value had we just held the deposited tokens */
+  hodlValue: number;
+  /** Value of the liquidity, excluding fees */
+  positionValue: number;
+  fees: number;
+  impermanentLoss: number;
+  /** positionValue + fees - hodlValue, positive when LPing beats holding */
+  pnlVsHodl: number;
+  /** Fee yield on the deposit, annualized over the position's age */
+  realizedApy: number;
+  /** Pool APY advertised when the position was opened */
+  advertisedApy: number;
+  inRange: boolean;
+}
+
+export interface LPPositionSummary {
+  positionId: string;
+  protocol: LiquidityProtocol;
+  poolAddress: string;
+  tokenA: string;
+  tokenB: string;
+  entryValue: number;
+  advertisedApy: number;
+  openedAt: number;
+  closedAt?: number;
+  /** Position replaced by this one in a rebalance, its series continues here */
+  rebalancedFrom?: string;
+  latest?: LPSnapshot;
+}
+
+export interface LPAnalyticsStore {
+  loadSummaries(): Promise<LPPositionSummary[]>;
+  saveSummaries(summaries: LPPositionSummary[]): Promise<void>;
+  loadSeries(positionId: string): Promise<LPSnapshot[]>;
+  saveSeries(positionId: string, series: LPSnapshot[]): Promise<void>;
+}
+
+export class RedisLPAnalyticsStore implements LPAnalyticsStore {
+  private readonly prefix: string;
+
+  constructor(prefix = 'liquidity:analytics') {
+    this.prefix = prefix;
+  }
+
+  public async loadSummaries(): Promise<LPPositionSummary[]> {
+    return (await redisService.get<LPPositionSummary[]>(`${this.prefix}:positions`)) || [];
+  }
+
+  public async saveSummaries(summaries: LPPositionSummary[]): Promise<void> {
+    await redisService.set(`${this.prefix}:positions`, summaries);
+  }
+
+  public async loadSeries(positionId: string): Promise<LPSnapshot[]> {
+    return (await redisService.get<LPSnapshot[]>(`${this.prefix}:series:${positionId}`)) || [];
+  }
+
+  public async saveSeries(positionId: string, series: LPSnapshot[]): Promise<void> {
+    await redisService.set(`${this.prefix}:series:${positionId}`, series);
+  }
+}
+
+/**
+ * Compute one snapshot from a position, as recorded by the LiquidityManager.
+ */
+export function createSnapshot(
+  position: LPPosition,
+  advertisedApy: number,
+  timestamp: number = Date.now()
+): LPSnapshot {
+  const entryValue = position.entryAmountA * position.entryPrice + position.entryAmountB;
+  const age = Math.max(timestamp - position.timestamp, 0);
+
+  return {
+    timestamp,
+    price: position.currentPrice,
+    hodlValue: position.hodlValue,
+    positionValue: position.positionValue,
+    fees: position.fees,
+    impermanentLoss: position.impermanentLoss,
+    pnlVsHodl: position.positionValue + position.fees - position.hodlValue,
+    realizedApy: entryValue > 0 && age > 0 ? (position.fees / entryValue) * (YEAR_MS / age) : 0,
+    advertisedApy,
+    inRange: position.inRange
+  };
+}
+
+/**
+ * Keeps a time series per LP position so we can tell whether providing
+ * liquidity beats holding. Fed by LiquidityManager events.
+ */
+export class LPAnalyticsService extends EventEmitter {
+  private readonly store: LPAnalyticsStore;
+  private readonly MAX_SNAPSHOTS = 2016; // one week of 5 minute updates
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(store: LPAnalyticsStore = new RedisLPAnalyticsStore()) {
+    super();
+    this.store = store;
+  }
+
+  public attach(manager: LiquidityManager): void {
+    manager.on('liquidityAdded', (position: LPPosition) => this.record(position));
+    manager.on('positionUpdated', (position: LPPosition) => this.record(position));
+    manager.on('liquidityRemoved', (event: { positionId: string; percentage: number }) => {
+      if (event.percentage >= 100) {
+        this.markClosed(event.positionId);
+      }
+    });
+  }
+
+  /**
+   * Append a snapshot of the position. The APY seen on the first snapshot is
+   * kept as the advertised APY. A position opened by a rebalance starts from
+   * its predecessor's series and advertised APY.
+   */
+  public record(position: LPPosition): Promise<LPSnapshot | null> {
+    return this.serialize(() => this.append(position));
+  }
+
+  private async append(position: LPPosition): Promise<LPSnapshot | null> {
+    try {
+      const summaries = await this.store.loadSummaries();
+      let summary = summaries.find(s => s.positionId === position.id);
+      let series = await this.store.loadSeries(position.id);
+      if (!summary) {
+        const previous = position.rebalancedFrom
+          ? summaries.find(s => s.positionId === position.rebalancedFrom)
+          : undefined;
+        summary = {
+          positionId: position.id,
+          protocol: position.protocol,
+          poolAddress: position.poolAddress,
+          tokenA: position.tokenA,
+          tokenB: position.tokenB,
+          entryValue: position.entryAmountA * position.entryPrice + position.entryAmountB,
+          advertisedApy: previous?.advertisedApy ?? position.apy,
+          openedAt: position.timestamp,
+          rebalancedFrom: position.rebalancedFrom
+        };
+        summaries.push(summary);
+
+        if (previous && !series.length) {
+          series = await this.store.loadSeries(previous.positionId);
+        }
+      }
+
+      const snapshot = createSnapshot(position, summary.advertisedApy);
+      series.push(snapshot);
+      await this.store.saveSeries(position.id, series.slice(-this.MAX_SNAPSHOTS));
+
+      summary.latest = snapshot;
+      await this.store.saveSummaries(summaries);
+
+      this.emit('snapshotRecorded', { positionId: position.id, snapshot });
+      return snapshot;
+    } catch (error) {
+      elizaLogger.error(`Failed to record LP analytics for ${position.id}:`, error);
+      return null;
+    }
+  }
+
+  public async getPositions(): Promise<LPPositionSummary[]> {
+    return this.store.loadSummaries();
+  }
+
+  public async getHistory(positionId: string): Promise<LPSnapshot[]> {
+    return this.store.loadSeries(positionId);
+  }
+
+  private markClosed(positionId: string): Promise<void> {
+    return this.serialize(() => this.close(positionId));
+  }
+
+  private async close(positionId: string): Promise<void> {
+    try {
+      const summaries = await this.store.loadSummaries();
+      const summary = summaries.find(s => s.positionId === positionId);
+      if (summary && !summary.closedAt) {
+        summary.closedAt = Date.now();
+        await this.store.saveSummaries(summaries);
+      }
+    } catch (error) {
+      elizaLogger.error(`Failed to close LP analytics for ${positionId}:`, error);
+    }
+  }
+
+  /**
+   * Summaries are a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const lpAnalytics = new LPAnalyticsService();
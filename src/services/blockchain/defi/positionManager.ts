@@ -0,0 +1,493 @@
+// src/services/blockchain/defi/positionManager.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import { Platform } from '../../../personality/traits/responsePatterns.js';
+import type { PostQueue } from '../../social/engagement/postQueue.js';
+import { TradeResult } from './tradingEngine.js';
+
+export type ExitReason = 'stopLoss' | 'trailingStop' | 'breakEven' | 'takeProfit' | 'timeExit' | 'manual';
+
+export interface TakeProfitLevel {
+  gainPct: number; // Gain over entry, e.g. 0.5 for +50%
+  sellPct: number; // Share of the initial size to sell, e.g. 0.25
+  filled?: boolean;
+}
+
+export interface ExitPlan {
+  stopLossPct: number;
+  trailingStopPct?: number;
+  takeProfits?: TakeProfitLevel[];
+  maxHoldMs?: number;
+  breakEvenAfterFirstTp?: boolean;
+}
+
+export interface OpenPositionRequest {
+  token: string;
+  entryPrice: number;
+  size: number;
+  tradeId?: string;
+  plan?: Partial<ExitPlan>;
+}
+
+export interface ManagedPosition {
+  id: string;
+  token: string;
+  tradeId?: string;
+  entryPrice: number;
+  currentPrice: number;
+  highestPrice: number;
+  initialSize: number;
+  size: number;
+  stopPrice: number;
+  plan: ExitPlan;
+  status: 'open' | 'closed';
+  exitReason?: ExitReason;
+  exits: Array<{ tradeId: string; amount: number; price: number; reason: ExitReason; timestamp: number }>;
+  openedAt: number;
+  lastUpdate: number;
+}
+
+export interface PositionEvent {
+  position: ManagedPosition;
+  price: number;
+  pnlPct: number;
+  amount?: number;
+  reason?: ExitReason;
+  tradeId?: string;
+}
+
+/**
+ * Sells `amount` of the position's token at market.
+ */
+export type PositionExitExecutor = (
+  position: ManagedPosition,
+  amount: number,
+  reason: ExitReason
+) => Promise<TradeResult>;
+
+/**
+ * Returns the current price of a token, in the same unit as entryPrice.
+ */
+export type PositionPriceFetcher = (token: string) => Promise<number>;
+
+export interface PositionStore {
+  load(): Promise<ManagedPosition[]>;
+  save(positions: ManagedPosition[]): Promise<void>;
+}
+
+export interface PositionManagerOptions {
+  store?: PositionStore;
+  pollInterval?: number;
+  defaultPlan?: Partial<ExitPlan>;
+}
+
+/**
+ * Keeps open positions in Redis so exits survive a restart.
+ */
+export class RedisPositionStore implements PositionStore {
+  private readonly key: string;
+
+  constructor(key = 'trading:positions') {
+    this.key = key;
+  }
+
+  public async load(): Promise<ManagedPosition[]> {
+    return (await redisService.get<ManagedPosition[]>(this.key)) || [];
+  }
+
+  public async save(positions: ManagedPosition[]): Promise<void> {
+    await redisService.set(this.key, positions);
+  }
+}
+
+export const DEFAULT_EXIT_PLAN: ExitPlan = {
+  stopLossPct: 0.05, // 5% below entry
+  takeProfits: [],
+  breakEvenAfterFirstTp: false
+};
+
+/**
+ * Manages exits for open positions: fixed or trailing stops, a take-profit
+ * ladder, time-based exits and moving the stop to break-even after the first
+ * take-profit.
+ *
+ * Events (payload: PositionEvent): positionOpened, takeProfitHit, stopMoved,
+ * positionClosed, exitFailed. They carry enough context for the social layer
+ * to post about them, see postPositionEvents.
+ */
+export class PositionManager extends EventEmitter {
+  private readonly positions: Map<string, ManagedPosition> = new Map();
+  private readonly executor: PositionExitExecutor;
+  private readonly priceFetcher: PositionPriceFetcher;
+  private readonly store: PositionStore;
+  private readonly pollInterval: number;
+  private readonly defaultPlan: ExitPlan;
+  private pollTimer?: NodeJS.Timeout;
+  private isProcessing = false;
+
+  private readonly DEFAULT_POLL_INTERVAL = 15000; // 15 seconds
+  private readonly MIN_SIZE_RATIO = 0.000001; // Remainders below this close the position
+
+  constructor(
+    executor: PositionExitExecutor,
+    priceFetcher: PositionPriceFetcher,
+    options: PositionManagerOptions = {}
+  ) {
+    super();
+    this.executor = executor;
+    this.priceFetcher = priceFetcher;
+    this.store = options.store || new RedisPositionStore();
+    this.pollInterval = options.pollInterval ?? this.DEFAULT_POLL_INTERVAL;
+    this.defaultPlan = { ...DEFAULT_EXIT_PLAN, ...options.defaultPlan };
+  }
+
+  /**
+   * Restore open positions saved by a previous run. Load errors propagate;
+   * starting empty would let the next save drop every stored position.
+   */
+  public async initialize(): Promise<void> {
+    const saved = await this.store.load();
+    saved
+      .filter(position => position.status === 'open')
+      .forEach(position => this.positions.set(position.id, position));
+
+    if (this.positions.size) {
+      elizaLogger.info(`Restored ${this.positions.size} open positions`);
+      this.ensurePolling();
+    }
+  }
+
+  public async open(request: OpenPositionRequest): Promise<ManagedPosition> {
+    if (!(request.entryPrice > 0) || !(request.size > 0)) {
+      throw new Error('Position needs a positive entry price and size');
+    }
+
+    const plan = this.resolvePlan(request.plan);
+    const now = Date.now();
+    const position: ManagedPosition = {
+      id: `position-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      token: request.token,
+      tradeId: request.tradeId,
+      entryPrice: request.entryPrice,
+      currentPrice: request.entryPrice,
+      highestPrice: request.entryPrice,
+      initialSize: request.size,
+      size: request.size,
+      stopPrice: request.entryPrice * (1 - plan.stopLossPct),
+      plan,
+      status: 'open',
+      exits: [],
+      openedAt: now,
+      lastUpdate: now
+    };
+
+    this.positions.set(position.id, position);
+    await this.persist();
+    this.emit('positionOpened', this.toEvent(position, position.entryPrice));
+    this.ensurePolling();
+
+    return position;
+  }
+
+  /**
+   * Sell the whole position now. Unlike automatic exits, a failed sell is
+   * thrown to the caller instead of being left for the next tick.
+   */
+  public async close(positionId: string): Promise<ManagedPosition> {
+    const position = this.positions.get(positionId);
+    if (!position || position.status !== 'open') {
+      throw new Error(`Position ${positionId} is not open`);
+    }
+
+    const price = await this.priceFetcher(position.token);
+    try {
+      await this.sell(position, position.size, price, 'manual');
+    } catch (error) {
+      this.emit('exitFailed', { ...this.toEvent(position, price, { amount: position.size, reason: 'manual' }), error });
+      throw error;
+    }
+    return position;
+  }
+
+  /**
+   * Record a sell of `token` made outside the manager, such as a manual swap
+   * back to SOL. Open positions in the token are reduced oldest first and
+   * closed once sold out. Resolves to the positions that were touched.
+   */
+  public async recordSell(token: string, amount: number, price: number, tradeId: string): Promise<ManagedPosition[]> {
+    const reduced: ManagedPosition[] = [];
+    let remaining = amount;
+
+    const positions = this.getOpenPositions()
+      .filter(position => position.token === token)
+      .sort((a, b) => a.openedAt - b.openedAt);
+    for (const position of positions) {
+      if (!(remaining > 0)) break;
+      const sold = Math.min(position.size, remaining);
+      remaining -= sold;
+      this.applyExit(position, sold, price, 'manual', tradeId);
+      reduced.push(position);
+    }
+
+    if (reduced.length) {
+      await this.persist();
+    }
+    return reduced;
+  }
+
+  public getPosition(positionId: string): ManagedPosition | undefined {
+    return this.positions.get(positionId);
+  }
+
+  public getOpenPositions(): ManagedPosition[] {
+    return Array.from(this.positions.values()).filter(position => position.status === 'open');
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Price every open position and run whatever exits are due. Called on every
+   * poll tick.
+   */
+  public async checkPositions(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const openPositions = this.getOpenPositions();
+      if (!openPositions.length) {
+        this.stop();
+        return;
+      }
+
+      for (const position of openPositions) {
+        try {
+          const price = await this.priceFetcher(position.token);
+          if (!(price > 0)) {
+            elizaLogger.warn(`Missing price for position ${position.id}, skipping this round`);
+            continue;
+          }
+          await this.update(position, price);
+        } catch (error) {
+          elizaLogger.error(`Error checking position ${position.id}:`, error);
+        }
+      }
+
+      await this.persist();
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Apply a new price to a position. Exits are checked in this order: time
+   * exit, stop (fixed, trailing or break-even), then take-profit levels.
+   */
+  public async update(position: ManagedPosition, price: number): Promise<void> {
+    const { plan } = position;
+    position.currentPrice = price;
+    position.lastUpdate = Date.now();
+
+    if (price > position.highestPrice) {
+      position.highestPrice = price;
+      if (plan.trailingStopPct) {
+        const trailed = price * (1 - plan.trailingStopPct);
+        if (trailed > position.stopPrice) {
+          position.stopPrice = trailed;
+        }
+      }
+    }
+
+    if (plan.maxHoldMs && Date.now() - position.openedAt >= plan.maxHoldMs) {
+      await this.exit(position, position.size, price, 'timeExit');
+      return;
+    }
+
+    if (price <= position.stopPrice) {
+      await this.exit(position, position.size, price, this.stopReason(position));
+      return;
+    }
+
+    for (const level of plan.takeProfits || []) {
+      if (level.filled || price < position.entryPrice * (1 + level.gainPct)) continue;
+
+      const isFirst = !(plan.takeProfits || []).some(other => other.filled);
+      const amount = Math.min(position.size, position.initialSize * level.sellPct);
+      level.filled = true;
+      const sold = await this.exit(position, amount, price, 'takeProfit');
+      if (!sold) {
+        level.filled = false;
+        return;
+      }
+      this.emit('takeProfitHit', this.toEvent(position, price, { amount, reason: 'takeProfit' }));
+
+      if (position.status !== 'open') return;
+
+      if (isFirst && plan.breakEvenAfterFirstTp && position.stopPrice < position.entryPrice) {
+        position.stopPrice = position.entryPrice;
+        this.emit('stopMoved', this.toEvent(position, price, { reason: 'breakEven' }));
+      }
+    }
+  }
+
+  private async exit(
+    position: ManagedPosition,
+    amount: number,
+    price: number,
+    reason: ExitReason
+  ): Promise<boolean> {
+    try {
+      await this.sell(position, amount, price, reason);
+      return true;
+    } catch (error) {
+      // Keep the position open, the next tick will try again
+      elizaLogger.error(`Failed to exit position ${position.id}:`, error);
+      this.emit('exitFailed', { ...this.toEvent(position, price, { amount, reason }), error });
+      return false;
+    }
+  }
+
+  private async sell(
+    position: ManagedPosition,
+    amount: number,
+    price: number,
+    reason: ExitReason
+  ): Promise<void> {
+    const result = await this.executor(position, amount, reason);
+    this.applyExit(position, amount, price, reason, result.id);
+    await this.persist();
+  }
+
+  private applyExit(
+    position: ManagedPosition,
+    amount: number,
+    price: number,
+    reason: ExitReason,
+    tradeId: string
+  ): void {
+    position.exits.push({ tradeId, amount, price, reason, timestamp: Date.now() });
+    position.size -= amount;
+    position.lastUpdate = Date.now();
+
+    if (position.size <= position.initialSize * this.MIN_SIZE_RATIO) {
+      position.size = 0;
+      position.status = 'closed';
+      position.exitReason = reason;
+      this.emit('positionClosed', this.toEvent(position, price, { amount, reason, tradeId }));
+    }
+  }
+
+  private stopReason(position: ManagedPosition): ExitReason {
+    const initialStop = position.entryPrice * (1 - position.plan.stopLossPct);
+    if (position.stopPrice === position.entryPrice) return 'breakEven';
+    return position.stopPrice > initialStop ? 'trailingStop' : 'stopLoss';
+  }
+
+  private resolvePlan(plan: Partial<ExitPlan> = {}): ExitPlan {
+    const resolved: ExitPlan = { ...this.defaultPlan, ...plan };
+    if (!(resolved.stopLossPct > 0 && resolved.stopLossPct < 1)) {
+      throw new Error('stopLossPct must be between 0 and 1');
+    }
+    if (resolved.trailingStopPct !== undefined && !(resolved.trailingStopPct > 0 && resolved.trailingStopPct < 1)) {
+      throw new Error('trailingStopPct must be between 0 and 1');
+    }
+
+    const takeProfits = (resolved.takeProfits || [])
+      .map(level => ({ ...level, filled: level.filled || false }))
+      .sort((a, b) => a.gainPct - b.gainPct);
+    const totalSell = takeProfits.reduce((sum, level) => sum + level.sellPct, 0);
+    if (takeProfits.some(level => level.gainPct <= 0 || level.sellPct <= 0) || totalSell > 1 + 1e-9) {
+      throw new Error('Take-profit levels need positive gains and sell shares adding up to at most 100%');
+    }
+
+    return { ...resolved, takeProfits };
+  }
+
+  private toEvent(
+    position: ManagedPosition,
+    price: number,
+    extra: Partial<PositionEvent> = {}
+  ): PositionEvent {
+    return {
+      position,
+      price,
+      pnlPct: ((price - position.entryPrice) / position.entryPrice) * 100,
+      ...extra
+    };
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      // Closed positions are dropped from storage, they are only kept in memory
+      await this.store.save(this.getOpenPositions());
+    } catch (error) {
+      elizaLogger.error('Failed to persist positions:', error);
+    }
+  }
+
+  private ensurePolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.checkPositions();
+    }, this.pollInterval);
+  }
+}
+
+/**
+ * Short human readable description of a position event, suitable for a post.
+ */
+export function formatPositionEvent(type: string, event: PositionEvent): string {
+  const pnl = `${event.pnlPct >= 0 ? '+' : ''}${event.pnlPct.toFixed(1)}%`;
+  const token = event.position.token;
+
+  switch (type) {
+    case 'positionOpened':
+      return `Opened a position in ${token} at ${event.price}`;
+    case 'takeProfitHit':
+      return `Took profit on ${token} at ${pnl}, sold ${event.amount}`;
+    case 'stopMoved':
+      return `Moved the stop on ${token} to break-even, this trade can't lose anymore`;
+    case 'positionClosed':
+      return `Closed ${token} (${event.reason}) at ${pnl}`;
+    default:
+      return `${token}: ${type} at ${pnl}`;
+  }
+}
+
+/** Position events worth a post, exit failures are left to the logs */
+export const POSTED_POSITION_EVENTS = ['positionOpened', 'takeProfitHit', 'stopMoved', 'positionClosed'];
+
+/**
+ * Queue a post for every position event `source` emits. Works with a
+ * PositionManager or anything re-emitting its events, like TradingEngine.
+ */
+export function postPositionEvents(
+  source: Pick<EventEmitter, 'on'>,
+  queue: Pick<PostQueue, 'addToQueue'>
+): void {
+  POSTED_POSITION_EVENTS.forEach(type => {
+    source.on(type, (event: PositionEvent) => {
+      const { position } = event;
+      queue.addToQueue({
+        content: formatPositionEvent(type, event),
+        platform: Platform.TWITTER,
+        priority: type === 'positionClosed' ? 6 : 5,
+        scheduledTime: Date.now(),
+        // Take-profit fires once per level, so key on the exits made so far
+        idempotencyKey: `position:${position.id}:${type}:${position.exits.length}`,
+        metadata: {
+          type: 'trade_update',
+          category: 'position',
+          tags: [position.token]
+        }
+      }).catch(error => elizaLogger.error(`Failed to queue ${type} post for ${position.id}:`, error));
+    });
+  });
+}
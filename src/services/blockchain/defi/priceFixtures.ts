@@ -0,0 +1,129 @@
+// src/services/blockchain/defi/priceFixtures.ts
+
+import fs from 'fs';
+import path from 'path';
+import { PriceData } from '../../../types/market.js';
+
+export class PriceFixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceFixtureError';
+  }
+}
+
+/**
+ * Load historical candles from a CSV or JSON file.
+ *
+ * CSV files need a header row with at least `timestamp` and `close`; `high`,
+ * `low`, `volume` and `price` are optional. JSON files hold either a
+ * PriceData[] or an object keyed by token mint.
+ */
+export async function loadPriceFixture(filePath: string): Promise<Record<string, PriceData[]>> {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(resolvedPath, 'utf-8');
+  } catch (error) {
+    throw new PriceFixtureError(
+      `Failed to read price fixture: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (path.extname(resolvedPath).toLowerCase() === '.csv') {
+    const token = path.basename(resolvedPath, path.extname(resolvedPath));
+    return { [token]: parsePriceCsv(contents) };
+  }
+
+  return parsePriceJson(JSON.parse(contents));
+}
+
+export function parsePriceCsv(contents: string): PriceData[] {
+  const lines = contents.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) {
+    throw new PriceFixtureError('CSV fixture needs a header and at least one row');
+  }
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  if (column('timestamp') === -1 || column('close') === -1) {
+    throw new PriceFixtureError('CSV fixture needs timestamp and close columns');
+  }
+
+  return sortCandles(lines.slice(1).map((line, index) => {
+    const values = line.split(',').map(value => value.trim());
+    const read = (name: string): string | undefined => {
+      const i = column(name);
+      return i === -1 ? undefined : values[i];
+    };
+
+    const close = Number(read('close'));
+    if (!Number.isFinite(close)) {
+      throw new PriceFixtureError(`Invalid close price on CSV row ${index + 2}`);
+    }
+
+    return toCandle({
+      timestamp: read('timestamp'),
+      price: read('price'),
+      high: read('high'),
+      low: read('low'),
+      close,
+      volume: read('volume')
+    });
+  }));
+}
+
+export function parsePriceJson(contents: unknown): Record<string, PriceData[]> {
+  if (Array.isArray(contents)) {
+    return { default: sortCandles(contents.map(toCandle)) };
+  }
+
+  if (!contents || typeof contents !== 'object') {
+    throw new PriceFixtureError('JSON fixture must be an array of candles or an object keyed by token');
+  }
+
+  const candles: Record<string, PriceData[]> = {};
+  for (const [token, series] of Object.entries(contents as Record<string, unknown>)) {
+    if (!Array.isArray(series)) {
+      throw new PriceFixtureError(`Candles for ${token} must be an array`);
+    }
+    candles[token] = sortCandles(series.map(toCandle));
+  }
+  return candles;
+}
+
+type RawCandle = Partial<Record<'timestamp' | 'price' | 'high' | 'low' | 'close' | 'volume', unknown>>;
+
+function toCandle(value: unknown): PriceData {
+  const raw: RawCandle = value && typeof value === 'object' ? value : {};
+  const close = Number(raw.close ?? raw.price);
+  if (!Number.isFinite(close) || close <= 0) {
+    throw new PriceFixtureError(`Invalid candle: ${JSON.stringify(value)}`);
+  }
+
+  return {
+    price: Number(raw.price ?? close),
+    high: Number(raw.high ?? close),
+    low: Number(raw.low ?? close),
+    close,
+    volume: Number(raw.volume ?? 0),
+    timestamp: toTimestamp(raw.timestamp)
+  };
+}
+
+function toTimestamp(value: unknown): number {
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    // Treat small values as unix seconds
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new PriceFixtureError(`Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+function sortCandles(candles: PriceData[]): PriceData[] {
+  return candles.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,488 @@
+// src/services/blockchain/defi/pumpFunWatcher.ts
+
+import { EventEmitter } from 'events';
+import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
+import { Connection, LAMPORTS_PER_SOL, Logs, PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { DecodedPumpFunEvent, PUMP_FUN_PROGRAM_ID, decodePumpFunLogs } from '../../../actions/events.js';
+import type { CompleteEvent, CreateEvent, SetParamsEvent, TradeEvent } from '../../../actions/types.js';
+import { PumpFunSDK } from '../../../actions/pumpfun.js';
+import { RiskEngine, riskEngine } from '../../trading/riskEngine.js';
+import { WalletRegistry, walletRegistry } from '../../wallet/walletRegistry.js';
+
+/** Wallet pump.fun uses to seed the Raydium pool of a completed curve */
+export const PUMP_FUN_MIGRATION_ACCOUNT = '39azUYFWPz3VHgKCf3VChUwbpURdCHRxjWVowf5jUJjg';
+
+const TOKEN_DECIMALS = 1e6;
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type SocialLink = 'twitter' | 'telegram' | 'website';
+
+export interface CurveParams {
+  initialVirtualSolReserves: bigint;
+  initialVirtualTokenReserves: bigint;
+  initialRealTokenReserves: bigint;
+  tokenTotalSupply: bigint;
+}
+
+/** Program defaults until a SetParamsEvent says otherwise */
+export const DEFAULT_CURVE_PARAMS: CurveParams = {
+  initialVirtualSolReserves: BigInt(30_000_000_000),
+  initialVirtualTokenReserves: BigInt(1_073_000_000_000_000),
+  initialRealTokenReserves: BigInt(793_100_000_000_000),
+  tokenTotalSupply: BigInt(1_000_000_000_000_000)
+};
+
+export interface CurveState {
+  mint: string;
+  bondingCurve?: string;
+  name?: string;
+  symbol?: string;
+  uri?: string;
+  /** Unknown when the curve was created before we started watching */
+  creator?: string;
+  createdAt: number;
+  lastTradeAt?: number;
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realSolReserves: bigint;
+  realTokenReserves: bigint;
+  /** Share of the sellable supply already bought, 1 at completion */
+  progress: number;
+  priceSol: number;
+  marketCapSol: number;
+  volumeSol: number;
+  trades: number;
+  /** Buyers in order of their first buy */
+  buyers: string[];
+  /** Net tokens (base units) bought per wallet */
+  holdings: Map<string, bigint>;
+  /** Undefined until the metadata has been fetched */
+  socials?: Partial<Record<SocialLink, string>>;
+  complete: boolean;
+  completedAt?: number;
+  migrated: boolean;
+  migrationSignature?: string;
+  entered: boolean;
+}
+
+export interface PumpFunEntryFilters {
+  /** Max share of the supply held by the creator */
+  maxDevHoldingPct: number;
+  /** Number of earliest buyers checked for concentration */
+  firstBuyers: number;
+  /** Max share of the supply the first buyers may hold together */
+  maxFirstBuyersPct: number;
+  /** Buyers needed before a curve is judged */
+  minBuyers: number;
+  /** Skip curves that are already this close to completion */
+  maxProgress: number;
+  /** Links that must be present in the token metadata */
+  requiredSocials: SocialLink[];
+}
+
+export const DEFAULT_ENTRY_FILTERS: PumpFunEntryFilters = {
+  maxDevHoldingPct: 0.1,
+  firstBuyers: 10,
+  maxFirstBuyersPct: 0.3,
+  minBuyers: 10,
+  maxProgress: 0.5,
+  requiredSocials: ['twitter']
+};
+
+export interface EntryDecision {
+  passed: boolean;
+  reasons: string[];
+  devHoldingPct: number;
+  firstBuyersPct: number;
+}
+
+export type SocialsFetcher = (uri: string) => Promise<Partial<Record<SocialLink, string>>>;
+
+export interface PumpFunSniperConfig {
+  sdk: PumpFunSDK;
+  buyAmountSol: number;
+  slippageBasisPoints?: number;
+  /** Rug scan score a curve needs before it is bought, overriding the risk engine's limit */
+  minTokenScore?: number;
+  risk?: Pick<RiskEngine, 'checkTrade'>;
+  /** Buys are signed by its trading wallet and count against the swap budget */
+  registry?: Pick<WalletRegistry, 'useWallet'>;
+}
+
+export interface PumpFunWatcherOptions {
+  filters?: Partial<PumpFunEntryFilters>;
+  fetchSocials?: SocialsFetcher;
+  /** Buy every curve that passes the filters */
+  sniper?: PumpFunSniperConfig;
+}
+
+/**
+ * Read twitter/telegram/website from the token's metadata JSON.
+ */
+export const fetchMetadataSocials: SocialsFetcher = async (uri: string) => {
+  const url = uri.startsWith('ipfs://') ? `https://ipfs.io/ipfs/${uri.slice('ipfs://'.length)}` : uri;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 5000);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) return {};
+    const metadata = await response.json() as Record<string, unknown>;
+    const socials: Partial<Record<SocialLink, string>> = {};
+    for (const link of ['twitter', 'telegram', 'website'] as SocialLink[]) {
+      const value = metadata[link];
+      if (typeof value === 'string' && value.trim()) socials[link] = value.trim();
+    }
+    return socials;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Streams pump.fun program logs, keeps live state for every bonding curve
+ * and signals curves that pass the entry filters. Also reports curves that
+ * complete and, once pump.fun seeds the Raydium pool, migrate.
+ */
+export class PumpFunWatcher extends EventEmitter {
+  private readonly connection: Connection;
+  private readonly filters: PumpFunEntryFilters;
+  private readonly fetchSocials: SocialsFetcher;
+  private readonly sniper?: PumpFunSniperConfig;
+  private readonly curves: Map<string, CurveState> = new Map();
+  private params: CurveParams = { ...DEFAULT_CURVE_PARAMS };
+  private subscriptions: number[] = [];
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  private readonly CURVE_TTL = 6 * 60 * 60 * 1000; // 6 hours without trades
+  private readonly PRUNE_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+  constructor(connection: Connection, options: PumpFunWatcherOptions = {}) {
+    super();
+    this.connection = connection;
+    this.filters = { ...DEFAULT_ENTRY_FILTERS, ...options.filters };
+    this.fetchSocials = options.fetchSocials || fetchMetadataSocials;
+    this.sniper = options.sniper;
+  }
+
+  public start(): void {
+    if (this.subscriptions.length) return;
+
+    this.subscriptions.push(
+      this.connection.onLogs(
+        new PublicKey(PUMP_FUN_PROGRAM_ID),
+        (logs, context) => this.handleLogs(logs, context.slot),
+        'confirmed'
+      ),
+      this.connection.onLogs(
+        new PublicKey(PUMP_FUN_MIGRATION_ACCOUNT),
+        (logs, context) => this.handleMigrationLogs(logs, context.slot),
+        'confirmed'
+      )
+    );
+    this.pruneTimer = setInterval(() => this.pruneCurves(), this.PRUNE_INTERVAL);
+    elizaLogger.info('Pump.fun watcher started');
+  }
+
+  public async stop(): Promise<void> {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    const subscriptions = this.subscriptions;
+    this.subscriptions = [];
+    await Promise.all(subscriptions.map(id => this.connection.removeOnLogsListener(id)));
+  }
+
+  /**
+   * Apply every pump.fun event in a transaction's logs. Failed transactions
+   * are ignored.
+   */
+  public handleLogs(logs: Logs, slot: number): void {
+    if (logs.err) return;
+
+    for (const decoded of decodePumpFunLogs(logs.logs)) {
+      this.applyEvent(decoded, slot, logs.signature);
+    }
+  }
+
+  public async handleMigrationLogs(logs: Logs, slot: number): Promise<void> {
+    if (logs.err || !logs.logs.some(log => log.includes('initialize2'))) return;
+
+    try {
+      const transaction = await this.connection.getParsedTransaction(logs.signature, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed'
+      });
+      const mints = new Set<string>(
+        (transaction?.meta?.postTokenBalances || []).map(balance => balance.mint)
+      );
+
+      for (const mint of mints) {
+        const curve = this.curves.get(mint);
+        if (!curve || curve.migrated) continue;
+
+        curve.migrated = true;
+        curve.migrationSignature = logs.signature;
+        this.emit('curveMigrated', { curve, signature: logs.signature, slot });
+      }
+    } catch (error) {
+      elizaLogger.warn(`Failed to inspect migration ${logs.signature}:`, error);
+    }
+  }
+
+  public getCurve(mint: string): CurveState | undefined {
+    return this.curves.get(mint);
+  }
+
+  public getCurves(): CurveState[] {
+    return Array.from(this.curves.values());
+  }
+
+  public evaluateEntry(curve: CurveState): EntryDecision {
+    const supply = Number(this.params.tokenTotalSupply);
+    const reasons: string[] = [];
+
+    const devHoldingPct = curve.creator
+      ? Number(curve.holdings.get(curve.creator) || BigInt(0)) / supply
+      : 0;
+    // The creator's own buys are judged by the dev holding limit
+    const buyers = curve.buyers.filter(buyer => buyer !== curve.creator);
+    const firstBuyersPct = buyers
+      .slice(0, this.filters.firstBuyers)
+      .reduce((sum, buyer) => sum + Number(curve.holdings.get(buyer) || BigInt(0)), 0) / supply;
+
+    if (curve.complete) reasons.push('curve complete');
+    if (curve.progress > this.filters.maxProgress) {
+      reasons.push(`progress ${(curve.progress * 100).toFixed(1)}% above limit`);
+    }
+    if (!curve.creator) reasons.push('creator unknown');
+    if (devHoldingPct > this.filters.maxDevHoldingPct) {
+      reasons.push(`dev holds ${(devHoldingPct * 100).toFixed(1)}%`);
+    }
+    if (buyers.length < this.filters.minBuyers) {
+      reasons.push(`${buyers.length}/${this.filters.minBuyers} buyers`);
+    }
+    if (firstBuyersPct > this.filters.maxFirstBuyersPct) {
+      reasons.push(`first ${this.filters.firstBuyers} buyers hold ${(firstBuyersPct * 100).toFixed(1)}%`);
+    }
+    if (!curve.socials) {
+      reasons.push('metadata pending');
+    } else {
+      const missing = this.filters.requiredSocials.filter(link => !curve.socials![link]);
+      if (missing.length) reasons.push(`missing ${missing.join(', ')}`);
+    }
+
+    return { passed: reasons.length === 0, reasons, devHoldingPct, firstBuyersPct };
+  }
+
+  private applyEvent(decoded: DecodedPumpFunEvent, slot: number, signature: string): void {
+    switch (decoded.type) {
+      case 'createEvent':
+        this.onCreate(decoded.event, slot, signature);
+        break;
+      case 'tradeEvent':
+        this.onTrade(decoded.event, slot, signature);
+        break;
+      case 'completeEvent':
+        this.onComplete(decoded.event, slot, signature);
+        break;
+      case 'setParamsEvent':
+        this.onSetParams(decoded.event);
+        break;
+    }
+  }
+
+  private onCreate(event: CreateEvent, slot: number, signature: string): void {
+    const mint = event.mint.toBase58();
+    const curve = this.getOrCreateCurve(mint);
+    curve.bondingCurve = event.bondingCurve.toBase58();
+    curve.name = event.name;
+    curve.symbol = event.symbol;
+    curve.uri = event.uri;
+    curve.creator = event.user.toBase58();
+
+    this.emit('curveCreated', { curve, slot, signature });
+
+    // Socials arrive later and may complete the entry checks on their own
+    this.fetchSocials(event.uri)
+      .catch(error => {
+        elizaLogger.warn(`Failed to fetch metadata for ${mint}:`, error);
+        return {};
+      })
+      .then(socials => {
+        curve.socials = socials;
+        this.checkEntry(curve);
+      });
+  }
+
+  private onTrade(event: TradeEvent, slot: number, signature: string): void {
+    const curve = this.getOrCreateCurve(event.mint.toBase58());
+    const user = event.user.toBase58();
+
+    curve.virtualSolReserves = event.virtualSolReserves;
+    curve.virtualTokenReserves = event.virtualTokenReserves;
+    curve.realSolReserves = event.realSolReserves;
+    curve.realTokenReserves = event.realTokenReserves;
+    this.updatePricing(curve);
+
+    const held = curve.holdings.get(user) || BigInt(0);
+    curve.holdings.set(user, event.isBuy ? held + event.tokenAmount : held - event.tokenAmount);
+    if (event.isBuy && !curve.buyers.includes(user)) {
+      curve.buyers.push(user);
+    }
+    curve.volumeSol += Number(event.solAmount) / LAMPORTS_PER_SOL;
+    curve.trades++;
+    curve.lastTradeAt = event.timestamp * 1000;
+
+    this.emit('curveUpdated', { curve, trade: event, slot, signature });
+    this.checkEntry(curve);
+  }
+
+  private onComplete(event: CompleteEvent, slot: number, signature: string): void {
+    const curve = this.getOrCreateCurve(event.mint.toBase58());
+    curve.complete = true;
+    curve.completedAt = event.timestamp * 1000;
+    curve.progress = 1;
+
+    this.emit('curveCompleted', { curve, slot, signature });
+  }
+
+  private onSetParams(event: SetParamsEvent): void {
+    this.params = {
+      initialVirtualSolReserves: event.initialVirtualSolReserves,
+      initialVirtualTokenReserves: event.initialVirtualTokenReserves,
+      initialRealTokenReserves: event.initialRealTokenReserves,
+      tokenTotalSupply: event.tokenTotalSupply
+    };
+  }
+
+  private getOrCreateCurve(mint: string): CurveState {
+    let curve = this.curves.get(mint);
+    if (!curve) {
+      curve = {
+        mint,
+        createdAt: Date.now(),
+        virtualSolReserves: this.params.initialVirtualSolReserves,
+        virtualTokenReserves: this.params.initialVirtualTokenReserves,
+        realSolReserves: BigInt(0),
+        realTokenReserves: this.params.initialRealTokenReserves,
+        progress: 0,
+        priceSol: 0,
+        marketCapSol: 0,
+        volumeSol: 0,
+        trades: 0,
+        buyers: [],
+        holdings: new Map(),
+        complete: false,
+        migrated: false,
+        entered: false
+      };
+      this.updatePricing(curve);
+      this.curves.set(mint, curve);
+    }
+    return curve;
+  }
+
+  private updatePricing(curve: CurveState): void {
+    const initial = Number(this.params.initialRealTokenReserves);
+    curve.progress = Math.min(1, Math.max(0, 1 - Number(curve.realTokenReserves) / initial));
+    curve.priceSol = curve.virtualTokenReserves > BigInt(0)
+      ? (Number(curve.virtualSolReserves) / LAMPORTS_PER_SOL) /
+        (Number(curve.virtualTokenReserves) / TOKEN_DECIMALS)
+      : 0;
+    curve.marketCapSol = curve.priceSol * Number(this.params.tokenTotalSupply) / TOKEN_DECIMALS;
+  }
+
+  private checkEntry(curve: CurveState): void {
+    if (curve.entered) return;
+
+    const decision = this.evaluateEntry(curve);
+    if (!decision.passed) return;
+
+    curve.entered = true;
+    this.emit('entrySignal', { curve, decision });
+    if (this.sniper) {
+      this.snipe(curve);
+    }
+  }
+
+  /**
+   * Buy a curve that passed the entry filters. The buy goes through the risk
+   * engine, including its rug scan, like any other trade.
+   */
+  private async snipe(curve: CurveState): Promise<void> {
+    const sniper = this.sniper!;
+    try {
+      await (sniper.risk || riskEngine).checkTrade({
+        inputMint: SOL_MINT,
+        outputMint: curve.mint,
+        amount: sniper.buyAmountSol,
+        source: 'PumpFunWatcher',
+        minTokenScore: sniper.minTokenScore
+      });
+
+      const signature = await (sniper.registry || walletRegistry).useWallet(
+        'trading',
+        'swap',
+        { mint: SOL_MINT, amount: sniper.buyAmountSol },
+        async buyer => {
+          const result = await sniper.sdk.buy(
+            buyer,
+            new PublicKey(curve.mint),
+            BigInt(Math.floor(sniper.buyAmountSol * LAMPORTS_PER_SOL)),
+            BigInt(sniper.slippageBasisPoints ?? 500)
+          );
+          if (!result.success) {
+            throw result.error instanceof Error ? result.error : new Error(String(result.error));
+          }
+          return result.signature;
+        },
+        'PumpFunWatcher'
+      );
+      this.emit('sniped', { curve, signature });
+    } catch (error) {
+      elizaLogger.error(`Failed to snipe ${curve.mint}:`, error);
+      this.emit('snipeFailed', { curve, error });
+    }
+  }
+
+  private pruneCurves(): void {
+    const cutoff = Date.now() - this.CURVE_TTL;
+    for (const [mint, curve] of this.curves) {
+      // Migration follows completion within minutes, so idle curves are done
+      if ((curve.lastTradeAt || curve.createdAt) < cutoff) {
+        this.curves.delete(mint);
+      }
+    }
+  }
+}
+
+/**
+ * Start a watcher from the PUMPFUN_* settings. Curves that pass the entry
+ * filters are bought with the trading wallet when PUMPFUN_SNIPE_AMOUNT_SOL is
+ * set, otherwise they are only signalled.
+ */
+export function startPumpFunWatcher(
+  connection: Connection,
+  env: NodeJS.ProcessEnv = process.env
+): PumpFunWatcher {
+  const buyAmountSol = Number(env.PUMPFUN_SNIPE_AMOUNT_SOL) || 0;
+  const readNumber = (name: string): number | undefined =>
+    env[name] && Number.isFinite(Number(env[name])) ? Number(env[name]) : undefined;
+
+  const sniper: PumpFunSniperConfig | undefined = buyAmountSol > 0
+    ? {
+      sdk: new PumpFunSDK(
+        new AnchorProvider(connection, new Wallet(walletRegistry.getKeypair('trading')), { commitment: 'confirmed' })
+      ),
+      buyAmountSol,
+      slippageBasisPoints: readNumber('PUMPFUN_SNIPE_SLIPPAGE_BPS'),
+      minTokenScore: readNumber('PUMPFUN_SNIPE_MIN_TOKEN_SCORE')
+    }
+    : undefined;
+
+  const watcher = new PumpFunWatcher(connection, { sniper });
+  watcher.start();
+  return watcher;
+}
@@ -0,0 +1,357 @@
+// src/services/blockchain/defi/strategyEvaluator.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { AIService } from '../../ai/ai.js';
+import { MarketDataProcessor, MarketData } from '../../market/data/DataProcessor.js';
+import { SignalTimeframe, TradingSignalGenerator } from '../../market/signals/tradingSignals.js';
+import { IndicatorValues, indicatorWarmup } from '../../market/signals/indicators.js';
+import { PriceMonitor } from '../../market/analysis/priceMonitor.js';
+import { PriceData } from '../../../types/market.js';
+import { loadStrategies } from './strategyLoader.js';
+import { TradeParams, TradeResult, TradeRule, TradingEngine, TradingStrategy } from './tradingEngine.js';
+import {
+  DEFAULT_URGENCY_PROFILES,
+  ExecutionProfile,
+  Urgency,
+  matchesCondition,
+  resolveExecutionProfile
+} from './strategyRules.js';
+
+export interface StrategyEvaluatorOptions {
+  quoteToken?: string;
+  interval?: number;
+  cooldown?: number;
+  urgencyProfiles?: Partial<Record<Urgency, ExecutionProfile>>;
+  /** Monitors the tokens of signal rules and generates their signals from live indicators */
+  priceMonitor?: PriceMonitor;
+}
+
+export interface RuleMatch {
+  strategy: TradingStrategy;
+  token: string;
+  rule: TradeRule;
+  observed: number;
+}
+
+export interface StrategyTradingOptions {
+  /** Usually from createTradingEngine */
+  engine: TradingEngine;
+  aiService: AIService;
+  dataProcessor: MarketDataProcessor;
+  /** Defaults to TRADING_STRATEGIES_FILE, then the bundled strategy file */
+  strategiesFile?: string;
+  evaluator?: StrategyEvaluatorOptions;
+}
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const DEFAULT_STRATEGIES_FILE = 'src/config/tradingStrategies.json';
+
+/**
+ * Periodically evaluates the rules of every active TradingStrategy registered
+ * on the engine and executes the matching actions.
+ *
+ * Higher `priority` wins. For each strategy/token pair only the highest
+ * priority matching rule is executed per evaluation round, so a buy and a sell
+ * rule can never fire against each other in the same round.
+ */
+export class StrategyEvaluator extends EventEmitter {
+  private readonly engine: TradingEngine;
+  private readonly dataProcessor: MarketDataProcessor;
+  private readonly signalGenerator: TradingSignalGenerator;
+  private readonly quoteToken: string;
+  private readonly interval: number;
+  private readonly cooldown: number;
+  private readonly urgencyProfiles: Record<Urgency, ExecutionProfile>;
+  private readonly lastExecution: Map<string, number> = new Map();
+  private readonly priceMonitor?: PriceMonitor;
+  private readonly monitoredTokens: Set<string> = new Set();
+  private readonly signalsGeneratedAt: Map<string, number> = new Map();
+  private timer?: NodeJS.Timeout;
+  private isEvaluating = false;
+
+  constructor(
+    engine: TradingEngine,
+    dataProcessor: MarketDataProcessor,
+    signalGenerator: TradingSignalGenerator,
+    options: StrategyEvaluatorOptions = {}
+  ) {
+    super();
+    this.engine = engine;
+    this.dataProcessor = dataProcessor;
+    this.signalGenerator = signalGenerator;
+    this.quoteToken = options.quoteToken || USDC_MINT;
+    this.interval = options.interval || 60000; // 1 minute
+    this.cooldown = options.cooldown || 300000; // 5 minutes
+    this.urgencyProfiles = { ...DEFAULT_URGENCY_PROFILES, ...options.urgencyProfiles };
+    this.priceMonitor = options.priceMonitor;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.evaluate();
+    }, this.interval);
+    this.startSignalMonitoring();
+    elizaLogger.info(`Strategy evaluator started with ${this.interval}ms interval`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.priceMonitor?.off('indicatorsUpdated', this.onIndicatorsUpdated);
+      this.monitoredTokens.forEach(token => this.priceMonitor?.stopMonitoring(token));
+      this.monitoredTokens.clear();
+      elizaLogger.info('Strategy evaluator stopped');
+    }
+  }
+
+  /**
+   * Follow the tokens of active signal rules on the price monitor, whose
+   * indicator updates generate their signals between rounds
+   */
+  private startSignalMonitoring(): void {
+    if (!this.priceMonitor) return;
+    this.priceMonitor.on('indicatorsUpdated', this.onIndicatorsUpdated);
+
+    for (const strategy of this.engine.getStrategies()) {
+      if (strategy.status !== 'active' || !strategy.rules.some(rule => rule.condition.type === 'signal')) continue;
+      for (const token of strategy.tokens) {
+        if (this.monitoredTokens.has(token)) continue;
+        this.monitoredTokens.add(token);
+        this.priceMonitor.startMonitoring(token).catch(error => {
+          this.monitoredTokens.delete(token);
+          elizaLogger.warn(`Could not monitor ${token} for signal rules:`, error);
+        });
+      }
+    }
+  }
+
+  private readonly onIndicatorsUpdated = ({ tokenAddress, indicators }: {
+    tokenAddress: string;
+    indicators: IndicatorValues;
+  }): void => {
+    // At most once per round, ticks arrive far more often
+    if (!this.monitoredTokens.has(tokenAddress) || !this.signalsDue(tokenAddress)) return;
+    this.generateSignals(tokenAddress, indicators).catch(error => {
+      elizaLogger.warn(`Signals unavailable for ${tokenAddress}:`, error);
+    });
+  };
+
+  /**
+   * Run one evaluation round and execute the matched rules.
+   */
+  public async evaluate(): Promise<TradeResult[]> {
+    if (this.isEvaluating) return [];
+    this.isEvaluating = true;
+
+    try {
+      const matches = await this.findMatches();
+      const results: TradeResult[] = [];
+
+      for (const match of matches) {
+        try {
+          const result = await this.executeMatch(match);
+          if (result) results.push(result);
+        } catch (error) {
+          elizaLogger.error(`Error executing rule for strategy ${match.strategy.id}:`, error);
+          this.emit('ruleFailed', { ...match, error });
+        }
+      }
+
+      return results;
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * Resolve every rule of every active strategy and return the ones that
+   * should run, highest priority first.
+   */
+  public async findMatches(): Promise<RuleMatch[]> {
+    const matches: RuleMatch[] = [];
+    const marketCache = new Map<string, MarketData | null>();
+    const signalsRefreshed = new Set<string>();
+
+    for (const strategy of this.engine.getStrategies()) {
+      if (strategy.status !== 'active' || !strategy.rules.length) continue;
+      const hasSignalRules = strategy.rules.some(rule => rule.condition.type === 'signal');
+
+      for (const token of strategy.tokens) {
+        if (!marketCache.has(token)) {
+          marketCache.set(token, await this.fetchMarketData(token));
+        }
+        const marketData = marketCache.get(token) || null;
+        if (hasSignalRules && !signalsRefreshed.has(token)) {
+          signalsRefreshed.add(token);
+          await this.refreshSignals(token);
+        }
+
+        const rules = [...strategy.rules].sort((a, b) => b.priority - a.priority);
+        for (const rule of rules) {
+          const observed = this.resolveCondition(rule, token, marketData);
+          if (observed === null || !matchesCondition(observed, rule.condition)) continue;
+
+          if (!this.isCoolingDown(strategy, token, rule)) {
+            matches.push({ strategy, token, rule, observed });
+          }
+          break;
+        }
+      }
+    }
+
+    return matches.sort((a, b) => b.rule.priority - a.rule.priority);
+  }
+
+  private async executeMatch(match: RuleMatch): Promise<TradeResult | null> {
+    const { strategy, token, rule } = match;
+    const isBuy = rule.action.type === 'buy';
+    const inputToken = isBuy ? this.quoteToken : token;
+    const outputToken = isBuy ? token : this.quoteToken;
+
+    const amount = rule.action.amount === 'all'
+      ? await this.engine.getTokenBalance(inputToken)
+      : rule.action.amount;
+    if (amount <= 0) {
+      elizaLogger.warn(`Skipping rule for strategy ${strategy.id}: no ${inputToken} balance`);
+      return null;
+    }
+
+    const params: TradeParams = {
+      inputToken,
+      outputToken,
+      amount,
+      type: 'market',
+      ...this.getExecutionProfile(rule.action.urgency, strategy)
+    };
+
+    this.lastExecution.set(this.ruleKey(strategy, token, rule), Date.now());
+    this.emit('ruleMatched', { ...match, params });
+
+    const result = await this.engine.executeTrade(params);
+    this.emit('ruleExecuted', { ...match, result });
+    return result;
+  }
+
+  public getExecutionProfile(urgency: Urgency, strategy: TradingStrategy): ExecutionProfile {
+    return resolveExecutionProfile(urgency, strategy, this.urgencyProfiles);
+  }
+
+  private resolveCondition(rule: TradeRule, token: string, marketData: MarketData | null): number | null {
+    switch (rule.condition.type) {
+      case 'price':
+        return marketData ? marketData.price : null;
+      case 'volume':
+        return marketData ? marketData.volume24h : null;
+      case 'momentum':
+        return marketData ? marketData.priceChange24h : null;
+      case 'signal':
+        return this.getSignalScore(token);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Net score of active signals for a token: buys count positive, sells
+   * negative, each weighted by strength and confidence.
+   */
+  private getSignalScore(token: string): number {
+    return this.signalGenerator.getActiveSignals()
+      .filter(signal => signal.metadata.token === token)
+      .reduce((score, signal) => {
+        const direction = signal.action === 'buy' ? 1 : signal.action === 'sell' ? -1 : 0;
+        return score + direction * signal.strength * signal.confidence;
+      }, 0);
+  }
+
+  /**
+   * Run the signal generator over the token's live indicators, or its latest
+   * candles when it is not monitored, so signal rules score signals from
+   * this round.
+   */
+  private async refreshSignals(token: string): Promise<void> {
+    try {
+      const live = this.priceMonitor?.getIndicators(token);
+      if (live) {
+        if (this.signalsDue(token)) {
+          await this.generateSignals(token, live);
+        }
+        return;
+      }
+
+      const history = await this.dataProcessor.getHistoricalPrices(
+        token,
+        indicatorWarmup() + 1,
+        this.dataProcessor.getCandleResolution()
+      );
+      if (history.length) {
+        await this.generateSignals(token, null, history);
+      }
+    } catch (error) {
+      elizaLogger.warn(`Signals unavailable for ${token}, scoring the previous ones:`, error);
+    }
+  }
+
+  private signalsDue(token: string): boolean {
+    const generatedAt = this.signalsGeneratedAt.get(token);
+    return generatedAt === undefined || Date.now() - generatedAt >= this.interval;
+  }
+
+  private async generateSignals(token: string, indicators: IndicatorValues | null, history?: PriceData[]): Promise<void> {
+    const latest = history?.[history.length - 1];
+    this.signalsGeneratedAt.set(token, Date.now());
+    await this.signalGenerator.generateSignals({
+      price: indicators ? indicators.price : latest!.price,
+      volume: latest ? latest.volume : 0,
+      timestamp: indicators ? indicators.timestamp : latest!.timestamp,
+      indicators: {},
+      token,
+      history,
+      indicatorValues: indicators
+    }, SignalTimeframe.INTRADAY);
+  }
+
+  private async fetchMarketData(token: string): Promise<MarketData | null> {
+    try {
+      return await this.dataProcessor.getMarketData(token);
+    } catch (error) {
+      elizaLogger.warn(`Market data unavailable for ${token}, skipping its rules:`, error);
+      return null;
+    }
+  }
+
+  private isCoolingDown(strategy: TradingStrategy, token: string, rule: TradeRule): boolean {
+    const last = this.lastExecution.get(this.ruleKey(strategy, token, rule));
+    return last !== undefined && Date.now() - last < this.cooldown;
+  }
+
+  private ruleKey(strategy: TradingStrategy, token: string, rule: TradeRule): string {
+    return `${strategy.id}:${token}:${strategy.rules.indexOf(rule)}`;
+  }
+}
+
+/**
+ * Register the strategies from the strategy file on the engine and start
+ * evaluating their rules. Strategies only trade once their status is active.
+ */
+export async function startStrategyTrading(options: StrategyTradingOptions): Promise<StrategyEvaluator> {
+  const { engine, aiService, dataProcessor } = options;
+
+  const strategiesFile = options.strategiesFile || process.env.TRADING_STRATEGIES_FILE || DEFAULT_STRATEGIES_FILE;
+  const strategies = await loadStrategies(strategiesFile);
+  strategies.forEach(strategy => engine.addStrategy(strategy));
+  elizaLogger.info(
+    `Loaded ${strategies.length} trading strategies from ${strategiesFile}, ` +
+    `${strategies.filter(strategy => strategy.status === 'active').length} active`
+  );
+
+  const evaluator = new StrategyEvaluator(engine, dataProcessor, new TradingSignalGenerator(aiService), {
+    priceMonitor: new PriceMonitor(dataProcessor, aiService),
+    ...options.evaluator
+  });
+  evaluator.start();
+  return evaluator;
+}
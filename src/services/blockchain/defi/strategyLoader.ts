@@ -0,0 +1,94 @@
+// src/services/blockchain/defi/strategyLoader.ts
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { TradingStrategy } from './tradingEngine.js';
+
+export const STRATEGY_FILE_VERSION = '1.0.0';
+
+const TradeRuleSchema = z.object({
+  condition: z.object({
+    type: z.enum(['price', 'volume', 'momentum', 'signal']),
+    operator: z.enum(['>', '<', '==', 'between']),
+    value: z.union([z.number(), z.tuple([z.number(), z.number()])])
+  }),
+  action: z.object({
+    type: z.enum(['buy', 'sell']),
+    amount: z.union([z.number().positive(), z.literal('all')]),
+    urgency: z.enum(['low', 'medium', 'high'])
+  }),
+  priority: z.number()
+}).refine(
+  rule => (rule.condition.operator === 'between') === Array.isArray(rule.condition.value),
+  { message: "'between' conditions need a [min, max] value, other operators a single number" }
+);
+
+const TradingStrategySchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  tokens: z.array(z.string()),
+  rules: z.array(TradeRuleSchema),
+  config: z.object({
+    maxSlippage: z.number(),
+    maxPriceImpact: z.number(),
+    minLiquidity: z.number(),
+    retryAttempts: z.number(),
+    useJitoBundles: z.boolean()
+  }),
+  status: z.enum(['active', 'paused'])
+});
+
+const StrategyFileSchema = z.object({
+  version: z.string(),
+  strategies: z.array(TradingStrategySchema)
+});
+
+export class StrategyLoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StrategyLoadError';
+  }
+}
+
+export function parseStrategies(contents: unknown): TradingStrategy[] {
+  const result = StrategyFileSchema.safeParse(contents);
+  if (!result.success) {
+    throw new StrategyLoadError(`Invalid strategy configuration: ${result.error.message}`);
+  }
+
+  const ids = new Set<string>();
+  for (const strategy of result.data.strategies) {
+    if (ids.has(strategy.id)) {
+      throw new StrategyLoadError(`Duplicate strategy id: ${strategy.id}`);
+    }
+    ids.add(strategy.id);
+  }
+
+  return result.data.strategies as TradingStrategy[];
+}
+
+export async function loadStrategies(filePath: string): Promise<TradingStrategy[]> {
+  try {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+    const fileContents = await fs.promises.readFile(resolvedPath, 'utf-8');
+    return parseStrategies(JSON.parse(fileContents));
+  } catch (error) {
+    if (error instanceof StrategyLoadError) {
+      throw error;
+    }
+    throw new StrategyLoadError(
+      `Failed to load strategies: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export async function saveStrategies(filePath: string, strategies: TradingStrategy[]): Promise<void> {
+  // Validate before writing so we never persist a file we can't load back
+  const contents = { version: STRATEGY_FILE_VERSION, strategies };
+  parseStrategies(contents);
+
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+  await fs.promises.mkdir(path.dirname(resolvedPath), { recursive: true });
+  await fs.promises.writeFile(resolvedPath, `${JSON.stringify(contents, null, 2)}\n`, 'utf-8');
+}
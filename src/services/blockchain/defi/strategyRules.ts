@@ -0,0 +1,60 @@
+// src/services/blockchain/defi/strategyRules.ts
+
+import type { TradeRule, TradingStrategy } from './tradingEngine.js';
+
+export type Urgency = TradeRule['action']['urgency'];
+
+export interface ExecutionProfile {
+  slippageBps: number;
+  priorityFeeMicroLamports: number;
+}
+
+/**
+ * Check an observed value against a rule condition. Shared by the evaluator
+ * and the backtester so live and simulated runs agree on what a match is.
+ */
+export function matchesCondition(observed: number, condition: TradeRule['condition']): boolean {
+  const { operator, value } = condition;
+
+  if (operator === 'between') {
+    if (!Array.isArray(value)) return false;
+    const [min, max] = value;
+    return observed >= Math.min(min, max) && observed <= Math.max(min, max);
+  }
+
+  if (Array.isArray(value)) return false;
+
+  switch (operator) {
+    case '>':
+      return observed > value;
+    case '<':
+      return observed < value;
+    case '==':
+      return Math.abs(observed - value) <= Math.abs(value) * 1e-9;
+    default:
+      return false;
+  }
+}
+
+export const DEFAULT_URGENCY_PROFILES: Record<Urgency, ExecutionProfile> = {
+  low: { slippageBps: 50, priorityFeeMicroLamports: 1000 },
+  medium: { slippageBps: 100, priorityFeeMicroLamports: 100000 },
+  high: { slippageBps: 300, priorityFeeMicroLamports: 1000000 }
+};
+
+/**
+ * Map rule urgency to slippage and priority fee. Slippage never exceeds the
+ * strategy's own maxSlippage.
+ */
+export function resolveExecutionProfile(
+  urgency: Urgency,
+  strategy: TradingStrategy,
+  profiles: Record<Urgency, ExecutionProfile> = DEFAULT_URGENCY_PROFILES
+): ExecutionProfile {
+  const profile = profiles[urgency];
+  const maxSlippage = strategy.config.maxSlippage;
+  return {
+    slippageBps: maxSlippage > 0 ? Math.min(profile.slippageBps, maxSlippage) : profile.slippageBps,
+    priorityFeeMicroLamports: profile.priorityFeeMicroLamports
+  };
+}
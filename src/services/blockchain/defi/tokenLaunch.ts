@@ -0,0 +1,641 @@
+// src/services/blockchain/defi/tokenLaunch.ts
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import { IAIService } from '../../ai/types.js';
+import type { PostQueue } from '../../social/engagement/postQueue.js';
+import { Platform } from '../../../personality/traits/responsePatterns.js';
+import { fetchTokenBalance } from '../../../actions/curveSimulator.js';
+import { UploadMetadata, uploadImageToIPFS, uploadMetadataToIPFS } from '../../../actions/uploadToIpfs.js';
+import { ConfigurationError, ValidationError } from '../../../utils/error-handler.js';
+
+export type LaunchVenueName = 'pumpfun' | 'fomo' | 'raydium';
+
+/** Steps run in this order, each one recorded before the next starts */
+export const LAUNCH_STEPS = ['metadata', 'image', 'upload', 'mint', 'initialBuy', 'vesting', 'announcement'] as const;
+export type LaunchStep = typeof LAUNCH_STEPS[number];
+
+export type LaunchStatus = 'pending' | 'running' | 'failed' | 'completed';
+
+export interface LaunchMetadata {
+  name: string;
+  symbol: string;
+  description: string;
+  twitter?: string;
+  telegram?: string;
+  website?: string;
+}
+
+export interface LaunchRequest {
+  venue: LaunchVenueName;
+  /** Idea to generate metadata from, when `metadata` is not given */
+  concept?: string;
+  metadata?: LaunchMetadata;
+  /** Existing image, otherwise one is generated */
+  imagePath?: string;
+  /** SOL spent by the deployer right after creation. On Raydium this seeds the pool */
+  initialBuySol: number;
+  /** Lock part of the deployer's tokens until `unlockAt` (ms) */
+  vesting?: { percent: number; unlockAt: number };
+  /** Defaults to true when an announcer is configured */
+  announce?: boolean;
+  announcementDelayMs?: number;
+}
+
+export interface LaunchStepRecord {
+  status: 'pending' | 'completed' | 'skipped' | 'failed';
+  attempts: number;
+  completedAt?: number;
+  error?: string;
+}
+
+export interface LaunchRecord {
+  id: string;
+  venue: LaunchVenueName;
+  /** Only a pipeline with this deployer can open the mint key and resume the launch */
+  deployer?: string;
+  status: LaunchStatus;
+  request: LaunchRequest;
+  steps: Record<LaunchStep, LaunchStepRecord>;
+  metadata?: LaunchMetadata;
+  imagePath?: string;
+  imageUri?: string;
+  metadataUri?: string;
+  mint?: string;
+  /**
+   * Mint secret key sealed with a key derived from the deployer, kept until
+   * the mint exists so a retry signs with the same mint
+   */
+  encryptedMintKey?: string;
+  createSignature?: string;
+  buySignature?: string;
+  lock?: { lockId: string; signature: string; amount: string; unlockAt: number };
+  announcementId?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateLaunchTokenParams {
+  creator: Keypair;
+  mint: Keypair;
+  metadata: LaunchMetadata;
+  metadataUri: string;
+  initialBuyLamports: bigint;
+}
+
+/**
+ * A place tokens can be launched. Venues that buy inside the create
+ * transaction set `bundlesInitialBuy`.
+ */
+export interface LaunchVenue {
+  readonly name: LaunchVenueName;
+  readonly bundlesInitialBuy: boolean;
+  createToken(params: CreateLaunchTokenParams): Promise<string>;
+  tokenExists(mint: PublicKey): Promise<boolean>;
+  /** Whether the creator's initial buy is already on chain, checked before retrying it */
+  initialBuyLanded(creator: PublicKey, mint: PublicKey): Promise<boolean>;
+  buy(creator: Keypair, mint: PublicKey, lamports: bigint): Promise<string>;
+  tokenUrl(mint: string): string;
+}
+
+export interface LaunchContentGenerator {
+  generateMetadata(concept: string): Promise<LaunchMetadata>;
+  generateImage(metadata: LaunchMetadata): Promise<Buffer>;
+}
+
+export interface LaunchUploader {
+  uploadImage(image: Buffer, filename: string): Promise<string>;
+  uploadMetadata(metadata: UploadMetadata): Promise<string>;
+}
+
+export interface DevTokenLocker {
+  lock(params: {
+    mint: PublicKey;
+    owner: Keypair;
+    amount: bigint;
+    unlockAt: number;
+  }): Promise<{ lockId: string; signature: string }>;
+}
+
+export interface LaunchAnnouncer {
+  /** Schedule the launch post and return its id */
+  announce(launch: LaunchRecord, url: string, delayMs: number): Promise<string>;
+}
+
+export interface LaunchStore {
+  loadLaunches(): Promise<LaunchRecord[]>;
+  saveLaunches(launches: LaunchRecord[]): Promise<void>;
+}
+
+export class RedisLaunchStore implements LaunchStore {
+  private readonly key: string;
+
+  constructor(key = 'launch:records') {
+    this.key = key;
+  }
+
+  public async loadLaunches(): Promise<LaunchRecord[]> {
+    return (await redisService.get<LaunchRecord[]>(this.key)) || [];
+  }
+
+  public async saveLaunches(launches: LaunchRecord[]): Promise<void> {
+    await redisService.set(this.key, launches);
+  }
+}
+
+const ipfsUploader: LaunchUploader = {
+  uploadImage: (image, filename) => uploadImageToIPFS(image, filename),
+  uploadMetadata: metadata => uploadMetadataToIPFS(metadata)
+};
+
+/**
+ * Metadata from the AI service. Images come from `imageGenerator` when one is
+ * given, otherwise the default upload image is used.
+ */
+export class AILaunchContentGenerator implements LaunchContentGenerator {
+  private readonly aiService: IAIService;
+  private readonly imageGenerator?: (prompt: string) => Promise<Buffer>;
+  private readonly fallbackImage: string;
+
+  constructor(
+    aiService: IAIService,
+    imageGenerator?: (prompt: string) => Promise<Buffer>,
+    fallbackImage: string = './upload/bolt.jpg'
+  ) {
+    this.aiService = aiService;
+    this.imageGenerator = imageGenerator;
+    this.fallbackImage = fallbackImage;
+  }
+
+  public async generateMetadata(concept: string): Promise<LaunchMetadata> {
+    const response = await this.aiService.generateResponse({
+      content: `Create a memecoin for this idea: ${concept}
+Respond with only a JSON object: {"name": "...", "symbol": "...", "description": "..."}.
+The name is at most 32 characters, the symbol 3 to 10 uppercase letters and the description one or two sentences.`,
+      author: 'launch',
+      platform: 'launch',
+      contentType: 'meme'
+    });
+
+    const json = response.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new ValidationError('AI response did not contain token metadata');
+    }
+    const parsed = JSON.parse(json[0]);
+    return {
+      name: String(parsed.name || '').trim(),
+      symbol: String(parsed.symbol || '').replace(/^\$/, '').trim().toUpperCase(),
+      description: String(parsed.description || '').trim()
+    };
+  }
+
+  public async generateImage(metadata: LaunchMetadata): Promise<Buffer> {
+    if (!this.imageGenerator) {
+      return fs.promises.readFile(this.fallbackImage);
+    }
+    return this.imageGenerator(
+      `logo for ${metadata.name} (${metadata.symbol}) token - ${metadata.description}`
+    );
+  }
+}
+
+/**
+ * Announces launches through the social post queue.
+ */
+export class PostQueueLaunchAnnouncer implements LaunchAnnouncer {
+  private readonly queue: Pick<PostQueue, 'addToQueue'>;
+
+  constructor(queue: Pick<PostQueue, 'addToQueue'>) {
+    this.queue = queue;
+  }
+
+  public async announce(launch: LaunchRecord, url: string, delayMs: number): Promise<string> {
+    const { name, symbol, description } = launch.metadata!;
+    let content = `$${symbol} is live! ${name}: ${description}`;
+    // Keep room for the link and a separator
+    const room = 280 - url.length - 1;
+    if (content.length > room) {
+      content = `${content.slice(0, room - 1)}…`;
+    }
+
+    return this.queue.addToQueue({
+      content: `${content}\n${url}`,
+      platform: Platform.TWITTER,
+      priority: 10,
+      scheduledTime: Date.now() + delayMs,
+      // A resumed launch must not announce itself twice
+      idempotencyKey: `launch:${launch.id}`,
+      metadata: {
+        type: 'announcement',
+        category: 'token_launch',
+        tags: [symbol],
+        campaign: `launch:${launch.id}`
+      }
+    });
+  }
+}
+
+export interface TokenLaunchPipelineOptions {
+  connection: Connection;
+  deployer: Keypair;
+  venues: LaunchVenue[];
+  store?: LaunchStore;
+  content?: LaunchContentGenerator;
+  uploader?: LaunchUploader;
+  locker?: DevTokenLocker;
+  announcer?: LaunchAnnouncer;
+  /** Where generated images are kept until they are uploaded */
+  imageDir?: string;
+}
+
+/**
+ * Launches tokens on any venue through the same steps: metadata, image,
+ * IPFS upload, mint creation, initial buy, optional dev token lock and the
+ * announcement. Every step is recorded, so a launch that fails can be resumed
+ * from the failed step and never creates a second mint.
+ */
+export class TokenLaunchPipeline extends EventEmitter {
+  private readonly connection: Connection;
+  private readonly deployer: Keypair;
+  private readonly venues: Map<LaunchVenueName, LaunchVenue>;
+  private readonly store: LaunchStore;
+  private readonly content?: LaunchContentGenerator;
+  private readonly uploader: LaunchUploader;
+  private readonly locker?: DevTokenLocker;
+  private readonly announcer?: LaunchAnnouncer;
+  private readonly imageDir: string;
+  private readonly running = new Set<string>();
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private readonly DEFAULT_ANNOUNCEMENT_DELAY = 300000; // 5 minutes
+  private readonly MAX_STEP_ATTEMPTS = 3; // Failed launches are not resumed after this
+
+  constructor(options: TokenLaunchPipelineOptions) {
+    super();
+    this.connection = options.connection;
+    this.deployer = options.deployer;
+    this.venues = new Map(options.venues.map(venue => [venue.name, venue]));
+    this.store = options.store || new RedisLaunchStore();
+    this.content = options.content;
+    this.uploader = options.uploader || ipfsUploader;
+    this.locker = options.locker;
+    this.announcer = options.announcer;
+    this.imageDir = options.imageDir || './upload/launches';
+  }
+
+  /**
+   * Record a new launch and run it. Failures are recorded on the returned
+   * launch rather than thrown, so it can be resumed.
+   */
+  public async launch(request: LaunchRequest): Promise<LaunchRecord> {
+    this.validateRequest(request);
+
+    const now = Date.now();
+    const launch: LaunchRecord = {
+      id: `launch-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      venue: request.venue,
+      deployer: this.deployer.publicKey.toBase58(),
+      status: 'pending',
+      request,
+      steps: Object.fromEntries(
+        LAUNCH_STEPS.map(step => [step, { status: 'pending', attempts: 0 }])
+      ) as Record<LaunchStep, LaunchStepRecord>,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.save(launch);
+    this.emit('launchStarted', launch);
+
+    return this.run(launch);
+  }
+
+  /**
+   * Continue a failed or interrupted launch from its first unfinished step.
+   */
+  public async resume(id: string): Promise<LaunchRecord> {
+    const launch = await this.getLaunch(id);
+    if (!launch) {
+      throw new ValidationError(`Launch ${id} not found`);
+    }
+    if (launch.status === 'completed') {
+      return launch;
+    }
+    return this.run(launch);
+  }
+
+  /**
+   * Launches of this deployer that a restart interrupted, and failed ones
+   * whose failing step has attempts left.
+   */
+  public async listResumable(): Promise<LaunchRecord[]> {
+    const deployer = this.deployer.publicKey.toBase58();
+    return (await this.store.loadLaunches()).filter(launch => {
+      if (launch.deployer !== deployer || !this.venues.has(launch.venue) || this.running.has(launch.id)) {
+        return false;
+      }
+      if (launch.status === 'pending' || launch.status === 'running') return true;
+      return launch.status === 'failed' && LAUNCH_STEPS.every(step =>
+        launch.steps[step].status !== 'failed' || launch.steps[step].attempts < this.MAX_STEP_ATTEMPTS
+      );
+    });
+  }
+
+  public async getLaunch(id: string): Promise<LaunchRecord | null> {
+    return (await this.store.loadLaunches()).find(launch => launch.id === id) || null;
+  }
+
+  public async listLaunches(): Promise<LaunchRecord[]> {
+    return this.store.loadLaunches();
+  }
+
+  private validateRequest(request: LaunchRequest): void {
+    if (!this.venues.has(request.venue)) {
+      throw new ValidationError(`Launch venue ${request.venue} is not configured`);
+    }
+    if (!request.metadata && !request.concept) {
+      throw new ValidationError('A launch needs metadata or a concept to generate it from');
+    }
+    if (!(request.initialBuySol >= 0)) {
+      throw new ValidationError('Initial buy must be zero or more SOL');
+    }
+    if (request.vesting && !(request.vesting.percent > 0 && request.vesting.percent <= 100)) {
+      throw new ValidationError('Vesting percent must be between 0 and 100');
+    }
+  }
+
+  private async run(launch: LaunchRecord): Promise<LaunchRecord> {
+    if (this.running.has(launch.id)) {
+      throw new ValidationError(`Launch ${launch.id} is already running`);
+    }
+    this.running.add(launch.id);
+
+    try {
+      launch.status = 'running';
+      await this.save(launch);
+
+      for (const step of LAUNCH_STEPS) {
+        const record = launch.steps[step];
+        if (record.status === 'completed' || record.status === 'skipped') continue;
+
+        // Counted before the step runs, a crash mid step still shows it was tried
+        record.attempts++;
+        await this.save(launch);
+        try {
+          record.status = await this.execute(step, launch);
+          record.completedAt = Date.now();
+          delete record.error;
+          await this.save(launch);
+          this.emit('stepCompleted', { launch, step });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          elizaLogger.error(`Launch ${launch.id} failed at ${step}:`, error);
+          record.status = 'failed';
+          record.error = message;
+          launch.status = 'failed';
+          launch.error = `${step}: ${message}`;
+          await this.save(launch);
+          this.emit('launchFailed', { launch, step, error });
+          return launch;
+        }
+      }
+
+      launch.status = 'completed';
+      delete launch.error;
+      await this.save(launch);
+      this.emit('launchCompleted', launch);
+      return launch;
+    } finally {
+      this.running.delete(launch.id);
+    }
+  }
+
+  private async execute(step: LaunchStep, launch: LaunchRecord): Promise<'completed' | 'skipped'> {
+    const venue = this.venues.get(launch.venue);
+    if (!venue) {
+      throw new ConfigurationError(`Launch venue ${launch.venue} is not configured`);
+    }
+
+    switch (step) {
+      case 'metadata':
+        return this.prepareMetadata(launch);
+      case 'image':
+        return this.prepareImage(launch);
+      case 'upload':
+        return this.upload(launch);
+      case 'mint':
+        return this.createMint(launch, venue);
+      case 'initialBuy':
+        return this.initialBuy(launch, venue);
+      case 'vesting':
+        return this.lockDevTokens(launch);
+      case 'announcement':
+        return this.announce(launch, venue);
+    }
+  }
+
+  private async prepareMetadata(launch: LaunchRecord): Promise<'completed'> {
+    let metadata = launch.request.metadata;
+    if (!metadata) {
+      if (!this.content) {
+        throw new ConfigurationError('No content generator configured to create metadata');
+      }
+      metadata = await this.content.generateMetadata(launch.request.concept!);
+    }
+
+    if (!metadata.name || metadata.name.length > 32) {
+      throw new ValidationError('Token name must be 1 to 32 characters');
+    }
+    if (!/^[A-Za-z0-9]{1,10}$/.test(metadata.symbol)) {
+      throw new ValidationError('Token symbol must be 1 to 10 letters or digits');
+    }
+
+    launch.metadata = metadata;
+    return 'completed';
+  }
+
+  private async prepareImage(launch: LaunchRecord): Promise<'completed'> {
+    if (launch.request.imagePath) {
+      launch.imagePath = launch.request.imagePath;
+      return 'completed';
+    }
+    if (!this.content) {
+      throw new ConfigurationError('No content generator configured to create an image');
+    }
+
+    const image = await this.content.generateImage(launch.metadata!);
+    await fs.promises.mkdir(this.imageDir, { recursive: true });
+    launch.imagePath = path.join(this.imageDir, `${launch.id}.png`);
+    await fs.promises.writeFile(launch.imagePath, image);
+    return 'completed';
+  }
+
+  private async upload(launch: LaunchRecord): Promise<'completed'> {
+    const metadata = launch.metadata!;
+
+    if (!launch.imageUri) {
+      const image = await fs.promises.readFile(launch.imagePath!);
+      launch.imageUri = await this.uploader.uploadImage(image, path.basename(launch.imagePath!));
+      await this.save(launch);
+    }
+
+    launch.metadataUri = await this.uploader.uploadMetadata({
+      name: metadata.name,
+      symbol: metadata.symbol,
+      description: metadata.description,
+      image: launch.imageUri,
+      showName: true,
+      createdOn: new Date(launch.createdAt).toISOString(),
+      twitter: metadata.twitter,
+      telegram: metadata.telegram,
+      website: metadata.website
+    });
+    return 'completed';
+  }
+
+  private async createMint(launch: LaunchRecord, venue: LaunchVenue): Promise<'completed'> {
+    // The mint keypair is stored before anything is sent, a retry reuses it
+    if (!launch.mint) {
+      const mint = Keypair.generate();
+      launch.mint = mint.publicKey.toBase58();
+      launch.encryptedMintKey = this.sealMintKey(mint.secretKey);
+      await this.save(launch);
+    }
+
+    const mint = new PublicKey(launch.mint);
+    if (await venue.tokenExists(mint)) {
+      elizaLogger.info(`Mint ${launch.mint} already exists, not creating it again`);
+    } else {
+      if (!launch.encryptedMintKey) {
+        throw new ValidationError(`Mint ${launch.mint} is missing and its key was discarded`);
+      }
+      launch.createSignature = await venue.createToken({
+        creator: this.deployer,
+        mint: Keypair.fromSecretKey(this.openMintKey(launch.encryptedMintKey)),
+        metadata: launch.metadata!,
+        metadataUri: launch.metadataUri!,
+        initialBuyLamports: this.initialBuyLamports(launch)
+      });
+    }
+
+    delete launch.encryptedMintKey;
+    return 'completed';
+  }
+
+  private async initialBuy(launch: LaunchRecord, venue: LaunchVenue): Promise<'completed' | 'skipped'> {
+    const lamports = this.initialBuyLamports(launch);
+    if (lamports === BigInt(0)) return 'skipped';
+    if (venue.bundlesInitialBuy) {
+      launch.buySignature = launch.createSignature;
+      return 'completed';
+    }
+
+    // A previous attempt may have landed before it was recorded
+    const mint = new PublicKey(launch.mint!);
+    if (launch.steps.initialBuy.attempts > 1 && await venue.initialBuyLanded(this.deployer.publicKey, mint)) {
+      return 'completed';
+    }
+
+    launch.buySignature = await venue.buy(this.deployer, mint, lamports);
+    return 'completed';
+  }
+
+  private async lockDevTokens(launch: LaunchRecord): Promise<'completed' | 'skipped'> {
+    const vesting = launch.request.vesting;
+    if (!vesting) return 'skipped';
+    if (launch.lock) return 'completed';
+    if (!this.locker) {
+      throw new ConfigurationError('Vesting was requested but no token locker is configured');
+    }
+
+    const mint = new PublicKey(launch.mint!);
+    const balance = await fetchTokenBalance(this.connection, this.deployer.publicKey, mint);
+    const amount = (balance * BigInt(Math.round(vesting.percent * 100))) / BigInt(10000);
+    if (amount === BigInt(0)) {
+      throw new ValidationError('The deployer holds no tokens to lock');
+    }
+
+    const { lockId, signature } = await this.locker.lock({
+      mint,
+      owner: this.deployer,
+      amount,
+      unlockAt: vesting.unlockAt
+    });
+    launch.lock = { lockId, signature, amount: amount.toString(), unlockAt: vesting.unlockAt };
+    return 'completed';
+  }
+
+  private async announce(launch: LaunchRecord, venue: LaunchVenue): Promise<'completed' | 'skipped'> {
+    if (launch.request.announce === false || !this.announcer) return 'skipped';
+    if (launch.announcementId) return 'completed';
+
+    launch.announcementId = await this.announcer.announce(
+      launch,
+      venue.tokenUrl(launch.mint!),
+      launch.request.announcementDelayMs ?? this.DEFAULT_ANNOUNCEMENT_DELAY
+    );
+    return 'completed';
+  }
+
+  private initialBuyLamports(launch: LaunchRecord): bigint {
+    return BigInt(Math.floor(launch.request.initialBuySol * LAMPORTS_PER_SOL));
+  }
+
+  /**
+   * AES-256-GCM under a key derived from the deployer's secret key, so the
+   * stored record alone cannot sign for the mint
+   */
+  private sealMintKey(secretKey: Uint8Array): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.mintKeyCipherKey(), iv);
+    const sealed = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+    return [iv, cipher.getAuthTag(), sealed].map(part => part.toString('base64')).join('.');
+  }
+
+  private openMintKey(encrypted: string): Uint8Array {
+    const parts = encrypted.split('.');
+    if (parts.length !== 3) {
+      throw new ValidationError('Stored mint key is malformed');
+    }
+    const [iv, tag, sealed] = parts.map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.mintKeyCipherKey(), iv);
+    decipher.setAuthTag(tag);
+    return Uint8Array.from(Buffer.concat([decipher.update(sealed), decipher.final()]));
+  }
+
+  private mintKeyCipherKey(): Buffer {
+    return crypto.createHash('sha256')
+      .update('launch-mint-key')
+      .update(this.deployer.secretKey)
+      .digest();
+  }
+
+  private save(launch: LaunchRecord): Promise<void> {
+    launch.updatedAt = Date.now();
+    const snapshot: LaunchRecord = JSON.parse(JSON.stringify(launch));
+    return this.serialize(async () => {
+      const launches = await this.store.loadLaunches();
+      const index = launches.findIndex(l => l.id === snapshot.id);
+      if (index === -1) {
+        launches.push(snapshot);
+      } else {
+        launches[index] = snapshot;
+      }
+      await this.store.saveLaunches(launches);
+    });
+  }
+
+  /**
+   * Launches are read-modify-write records, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -4,15 +4,31 @@ import { Connection, PublicKey, Transaction, Keypair, VersionedTransaction } fro
 import { Jupiter, RouteInfo, SwapMode } from '@jup-ag/core';
 import { EventEmitter } from 'events';
 import JSBI from 'jsbi';
-import axios from 'axios';
 import { VolatilityManager } from '../../market/volatility/VolatilityManager.js';
 import { MarketDataProcessor } from '../../market/data/DataProcessor';
 import { MarketSentimentAnalyzer, SentimentSource } from '../../market/signals/marketSentiment.js';
 import { retry } from '../../../utils/common.js';
 import { JupiterPriceV2 } from './jupiterPriceV2.js';
 import { AMMHealthChecker } from './ammHealth.js';
-
-interface TradeConfig {
+import { LimitOrder, LimitOrderBook, LimitOrderStore, MarketRate } from './limitOrderBook.js';
+import { ArbitrageExecution, ArbitrageOpportunity, ArbitrageScanner } from './arbitrage.js';
+import { BundleOutcomeUnknownError, BundleSubmission, JitoBundleSubmitter } from './jitoBundles.js';
+import {
+  ExitPlan,
+  ManagedPosition,
+  PositionEvent,
+  PositionManager,
+  PositionStore,
+  postPositionEvents
+} from './positionManager.js';
+import { PaperTradingBackend, isPaperTradingEnabled, paperTrading } from '../../trading/paperTrading.js';
+import { RiskEngine, riskEngine } from '../../trading/riskEngine.js';
+import { WalletRegistry, walletRegistry } from '../../wallet/walletRegistry.js';
+import type { AIService } from '../../ai/ai.js';
+import type { PostQueue } from '../../social/engagement/postQueue.js';
+import type { CopyTradeExecutor } from '../../trading/copyTrader.js';
+
+export interface TradeConfig {
   maxSlippage: number;
   maxPriceImpact: number;
   minLiquidity: number;
@@ -20,29 +36,38 @@ interface TradeConfig {
   useJitoBundles: boolean;
 }
 
-interface TradeParams {
+/**
+ * Market data and storage the engine otherwise builds itself
+ */
+export interface TradingEngineServices {
+  dataProcessor?: MarketDataProcessor;
+  jupiterPriceV2?: JupiterPriceV2;
+  volatilityManager?: VolatilityManager;
+  ammHealthChecker?: AMMHealthChecker;
+  positionStore?: PositionStore;
+  orderStore?: LimitOrderStore;
+  /** Post position updates through the social queue */
+  postQueue?: Pick<PostQueue, 'addToQueue'>;
+  /** Sign live swaps through the registry so they count against its budgets */
+  walletRegistry?: Pick<WalletRegistry, 'useWallet'>;
+}
+
+export interface TradeParams {
   inputToken: string;
   outputToken: string;
   amount: number;
   type?: 'market' | 'limit';
   limitPrice?: number;
   slippageBps?: number;
+  priorityFeeMicroLamports?: number;
   deadline?: number;
+  exitPlan?: Partial<ExitPlan>;
+  /** Rug scan score the output token needs, overriding the risk engine's limit */
+  minTokenScore?: number;
+  source?: string;
 }
 
-interface Position {
-  id: string;
-  token: string;
-  entryPrice: number;
-  currentPrice: number;
-  size: number;
-  stopLossPrice: number;
-  stopLossThreshold: number;
-  timestamp: number;
-  lastUpdate: number;
-}
-
-interface TradeResult {
+export interface TradeResult {
   id: string;
   inputToken: string;
   outputToken: string;
@@ -65,7 +90,7 @@ export interface TradingStrategy {
   status: 'active' | 'paused';
 }
 
-interface TradeRule {
+export interface TradeRule {
   condition: {
     type: 'price' | 'volume' | 'momentum' | 'signal';
     operator: '>' | '<' | '==' | 'between';
@@ -79,7 +104,24 @@ interface TradeRule {
   priority: number;
 }
 
-export class TradingEngine extends EventEmitter {
+export interface TradingEngineSetup {
+  connection: Connection;
+  aiService: AIService;
+  dataProcessor: MarketDataProcessor;
+  /** Announce opened and closed positions */
+  postQueue?: Pick<PostQueue, 'addToQueue'>;
+  config?: TradeConfig;
+}
+
+export const DEFAULT_TRADE_CONFIG: TradeConfig = {
+  maxSlippage: 100,
+  maxPriceImpact: 1,
+  minLiquidity: 100000,
+  retryAttempts: 3,
+  useJitoBundles: false
+};
+
+export class TradingEngine extends EventEmitter implements CopyTradeExecutor {
   private connection: Connection;
   private jupiter: Jupiter;
   private config: TradeConfig;
@@ -90,31 +132,66 @@ export class TradingEngine extends EventEmitter {
   private dataProcessor: MarketDataProcessor;
   private wallet: Keypair;
   private readonly MIN_PROFIT_THRESHOLD = 0.005; // 0.5% minimum profit threshold
-  private readonly DEX_ENDPOINTS = {
-    JUPITER: 'https://quote-api.jup.ag/v6',
-    JUPITER_PRICE: 'https://price.jup.ag/v2',
-    ORCA: 'https://api.orca.so',
-    RAYDIUM: 'https://api.raydium.io/v2'
-  };
+  private readonly arbitrageScanner: ArbitrageScanner;
   private sentimentAnalyzer: MarketSentimentAnalyzer;
-  private openPositions: Map<string, Position> = new Map();
+  private readonly positionManager: PositionManager;
   private readonly DEFAULT_STOP_LOSS = 0.05; // 5% default stop loss
-  private readonly MAX_POSITION_SIZE = 0.1; // 10% of total portfolio
   private readonly jupiterPriceV2: JupiterPriceV2;
   private readonly ammHealthChecker: AMMHealthChecker;
+  private readonly orderBook: LimitOrderBook;
+  private readonly ORDER_EVENTS = [
+    'orderPlaced',
+    'orderPartiallyFilled',
+    'orderFilled',
+    'orderExpired',
+    'orderCancelled'
+  ];
+  private readonly POSITION_EVENTS = [
+    'positionOpened',
+    'takeProfitHit',
+    'stopMoved',
+    'positionClosed',
+    'exitFailed'
+  ];
+  private readonly BUNDLE_EVENTS = ['bundleSubmitted', 'bundleLanded', 'bundleFailed'];
+  private readonly bundleSubmitter?: JitoBundleSubmitter;
+  private readonly USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  // Selling into these closes exposure rather than opening it
+  private readonly EXIT_TOKENS = new Set([
+    'So11111111111111111111111111111111111111112', // SOL
+    'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+    'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB' // USDT
+  ]);
+  private readonly paperTrading?: PaperTradingBackend;
+  private readonly riskEngine: RiskEngine;
+  private readonly walletRegistry?: Pick<WalletRegistry, 'useWallet'>;
 
   constructor(
     connection: Connection,
     jupiter: Jupiter,
     config: TradeConfig,
     sentimentAnalyzer: MarketSentimentAnalyzer,
-    wallet: Keypair
+    wallet: Keypair,
+    paperTradingBackend?: PaperTradingBackend,
+    risk: RiskEngine = riskEngine,
+    bundleSubmitter?: JitoBundleSubmitter,
+    services: TradingEngineServices = {}
   ) {
     super();
     this.connection = connection;
     this.jupiter = jupiter;
     this.config = config;
     this.wallet = wallet;
+    // Routes still come from Jupiter in paper mode, only settlement is simulated
+    this.paperTrading = paperTradingBackend || (isPaperTradingEnabled() ? paperTrading : undefined);
+    this.riskEngine = risk;
+    this.walletRegistry = services.walletRegistry;
+    if (config.useJitoBundles) {
+      this.bundleSubmitter = bundleSubmitter || new JitoBundleSubmitter(connection, wallet);
+      this.BUNDLE_EVENTS.forEach(event => {
+        this.bundleSubmitter!.on(event, (submission: BundleSubmission) => this.emit(event, submission));
+      });
+    }
     this.strategies = new Map<string, TradingStrategy>();
     this.tradeHistory = new Map();
     
@@ -130,17 +207,95 @@ export class TradingEngine extends EventEmitter {
     this.strategies.set(defaultStrategy.id, defaultStrategy);
     const heliusApiKey = process.env.HELIUS_API_KEY!; // Use API key from .env
     const publicKeyString = process.env.SOLANA_PUBLIC_KEY!; // Use public key from .env
-    this.dataProcessor = new MarketDataProcessor(heliusApiKey, 'https://tokens.jup.ag/tokens?tags=verified', publicKeyString);
-    this.volatilityManager = new VolatilityManager(this.dataProcessor);
+    this.dataProcessor = services.dataProcessor ||
+      new MarketDataProcessor(heliusApiKey, 'https://tokens.jup.ag/tokens?tags=verified', publicKeyString);
+    this.volatilityManager = services.volatilityManager || new VolatilityManager(this.dataProcessor);
     this.sentimentAnalyzer = sentimentAnalyzer;
-    this.jupiterPriceV2 = new JupiterPriceV2();
-    this.ammHealthChecker = new AMMHealthChecker();
+    this.jupiterPriceV2 = services.jupiterPriceV2 || new JupiterPriceV2();
+    this.ammHealthChecker = services.ammHealthChecker || new AMMHealthChecker();
+    this.orderBook = new LimitOrderBook(
+      this.jupiterPriceV2,
+      (order, amount, market) => this.fillLimitOrder(order, amount, market),
+      { store: services.orderStore }
+    );
+    this.ORDER_EVENTS.forEach(event => {
+      this.orderBook.on(event, (order: LimitOrder) => this.emit(event, order));
+    });
+
+    this.arbitrageScanner = new ArbitrageScanner(connection, wallet, {
+      config: {
+        minProfitThreshold: this.MIN_PROFIT_THRESHOLD,
+        // Virtual balances can't settle a real two-leg transaction
+        dryRun: process.env.ARBITRAGE_DRY_RUN !== 'false' || !!this.paperTrading,
+        atomic: process.env.ARBITRAGE_ATOMIC !== 'false'
+      }
+    });
+    this.arbitrageScanner.on('opportunityDetected', (opportunity: ArbitrageOpportunity) => {
+      this.emit('arbitrageDetected', {
+        buyDex: opportunity.buy.dex,
+        sellDex: opportunity.sell.dex,
+        tokenA: opportunity.tokenA,
+        tokenB: opportunity.tokenB,
+        profitRatio: 1 + opportunity.netProfitPct,
+        opportunity,
+        timestamp: opportunity.timestamp
+      });
+    });
+
+    this.positionManager = new PositionManager(
+      (position, amount) => this.executeMarketTrade({
+        inputToken: position.token,
+        outputToken: this.USDC_MINT,
+        amount,
+        type: 'market',
+        source: 'PositionManager'
+      }, false),
+      token => this.dataProcessor.getTokenPrice(token),
+      { defaultPlan: { stopLossPct: this.DEFAULT_STOP_LOSS }, store: services.positionStore }
+    );
+    this.POSITION_EVENTS.forEach(event => {
+      this.positionManager.on(event, (payload: PositionEvent) => this.emit(event, payload));
+    });
+    if (services.postQueue) {
+      postPositionEvents(this.positionManager, services.postQueue);
+    }
+    this.positionManager.on('positionClosed', (event: PositionEvent) => {
+      if (event.reason === 'stopLoss' || event.reason === 'trailingStop') {
+        this.emit('stopLossTriggered', {
+          positionId: event.position.id,
+          token: event.position.token,
+          loss: event.pnlPct,
+          timestamp: Date.now()
+        });
+      }
+    });
+  }
+
+  /**
+   * Restore positions and limit orders persisted by a previous run and resume
+   * managing them.
+   */
+  public async initialize(): Promise<void> {
+    await this.positionManager.initialize();
+    await this.orderBook.initialize();
+  }
+
+  /**
+   * Stop polling limit orders and open positions.
+   */
+  public stop(): void {
+    this.orderBook.stop();
+    this.positionManager.stop();
   }
 
   public async executeTrade(params: TradeParams): Promise<TradeResult> {
     try {
       // Validate trade parameters
       this.validateTradeParams(params);
+      // Waiting on a limit order that never expires would never return
+      if (params.type === 'limit' && !params.deadline) {
+        throw new Error('Limit orders need a deadline here, use placeLimitOrder for open ended orders');
+      }
 
       // Check market sentiment
       const analysis = await this.sentimentAnalyzer.analyzeSentiment({
@@ -161,29 +316,185 @@ export class TradingEngine extends EventEmitter {
         console.log('Positive market sentiment detected, maintaining position size');
       }
 
-      // Get best route
-      const route = await this.findBestRoute(params);
-      if (!route) {
-        throw new Error('No valid route found');
-      }
-
-      // Check if route meets constraints
-      this.validateRoute(route);
-
-      // Execute trade
-      const result = await this.executeRoute(route);
+      // Portfolio limits, throws a RiskLimitError naming the limit hit
+      await this.riskEngine.checkTrade({
+        inputMint: params.inputToken,
+        outputMint: params.outputToken,
+        amount: params.amount,
+        source: params.source || 'TradingEngine',
+        minTokenScore: params.minTokenScore
+      });
 
-      // Store trade result
-      this.addToHistory(result);
+      if (params.type === 'limit') {
+        const order = await this.placeLimitOrder(params);
+        const completed = await this.orderBook.waitForCompletion(order.id);
+        return this.summarizeLimitOrder(completed);
+      }
 
-      this.emit('tradeExecuted', result);
-      return result;
+      return await this.executeMarketTrade(params);
     } catch (error) {
       console.error('Error executing trade:', error);
       throw error;
     }
   }
 
+  /**
+   * Place a limit order without waiting for it to fill. Progress is reported
+   * through the order* events.
+   */
+  public async placeLimitOrder(params: TradeParams): Promise<LimitOrder> {
+    this.validateTradeParams({ ...params, type: 'limit' });
+    return this.orderBook.place({
+      inputToken: params.inputToken,
+      outputToken: params.outputToken,
+      amount: params.amount,
+      limitPrice: params.limitPrice!,
+      slippageBps: params.slippageBps,
+      priorityFeeMicroLamports: params.priorityFeeMicroLamports,
+      deadline: params.deadline
+    });
+  }
+
+  public async cancelLimitOrder(orderId: string): Promise<LimitOrder> {
+    return this.orderBook.cancel(orderId);
+  }
+
+  public getOpenOrders(): LimitOrder[] {
+    return this.orderBook.getOpenOrders();
+  }
+
+  public addStrategy(strategy: TradingStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+    this.emit('strategyAdded', strategy);
+  }
+
+  public removeStrategy(strategyId: string): void {
+    this.strategies.delete(strategyId);
+    this.emit('strategyRemoved', strategyId);
+  }
+
+  public getStrategies(): TradingStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  public isPaperTrading(): boolean {
+    return !!this.paperTrading;
+  }
+
+  /**
+   * Wallet balance of a token in UI units
+   */
+  public async getTokenBalance(mint: string): Promise<number> {
+    if (this.paperTrading) {
+      return this.paperTrading.getBalance(mint);
+    }
+
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(
+      this.wallet.publicKey,
+      { mint: new PublicKey(mint) }
+    );
+    return accounts.value.reduce(
+      (sum, account) => sum + (account.account.data.parsed.info.tokenAmount.uiAmount || 0),
+      0
+    );
+  }
+
+  public getOpenPositions(): ManagedPosition[] {
+    return this.positionManager.getOpenPositions();
+  }
+
+  public async closePosition(positionId: string): Promise<ManagedPosition> {
+    return this.positionManager.close(positionId);
+  }
+
+  private async executeMarketTrade(params: TradeParams, openPosition = true): Promise<TradeResult> {
+    // Get best route
+    const route = await this.findBestRoute(params);
+    if (!route) {
+      throw new Error('No valid route found');
+    }
+
+    // Check if route meets constraints
+    this.validateRoute(route);
+
+    // Route discovery can take a while, re-check the deadline before sending
+    if (params.deadline && params.deadline <= Date.now()) {
+      throw new Error('Trade deadline passed before execution');
+    }
+
+    // Execute trade
+    const result = await this.executeRoute(route, params);
+
+    // Store trade result
+    this.addToHistory(result);
+
+    if (openPosition) {
+      if (this.EXIT_TOKENS.has(result.outputToken)) {
+        await this.reducePositions(result);
+      } else {
+        await this.trackPosition(result, params.exitPlan);
+      }
+    }
+
+    this.emit('tradeExecuted', result);
+    return result;
+  }
+
+  private async fillLimitOrder(
+    order: LimitOrder,
+    amount: number,
+    market: MarketRate
+  ): Promise<{ tradeId: string; filledAmount: number }> {
+    // Limits may have tightened since the order was placed; a rejection
+    // leaves the order open for the next tick
+    await this.riskEngine.checkTrade({
+      inputMint: order.inputToken,
+      outputMint: order.outputToken,
+      amount,
+      source: 'LimitOrderBook'
+    });
+
+    const result = await this.executeMarketTrade({
+      inputToken: order.inputToken,
+      outputToken: order.outputToken,
+      amount,
+      slippageBps: order.slippageBps,
+      priorityFeeMicroLamports: order.priorityFeeMicroLamports,
+      deadline: order.deadline,
+      source: 'LimitOrderBook'
+    });
+
+    // findBestRoute sizes the swap in quote value and may scale it down for
+    // volatility, so convert back to order units to see what was filled
+    return {
+      tradeId: result.id,
+      filledAmount: Math.min(amount, result.inputAmount / market.inputPrice)
+    };
+  }
+
+  private summarizeLimitOrder(order: LimitOrder): TradeResult {
+    const trades = order.fills
+      .map(fill => this.tradeHistory.get(fill.tradeId))
+      .filter((trade): trade is TradeResult => !!trade);
+
+    const inputAmount = trades.reduce((sum, trade) => sum + trade.inputAmount, 0);
+    const outputAmount = trades.reduce((sum, trade) => sum + trade.outputAmount, 0);
+
+    return {
+      id: order.id,
+      inputToken: order.inputToken,
+      outputToken: order.outputToken,
+      inputAmount,
+      outputAmount,
+      executionPrice: inputAmount > 0 ? outputAmount / inputAmount : 0,
+      slippage: Math.max(0, ...trades.map(trade => trade.slippage)),
+      priceImpact: Math.max(0, ...trades.map(trade => trade.priceImpact)),
+      fee: trades.reduce((sum, trade) => sum + trade.fee, 0),
+      route: Array.from(new Set(trades.flatMap(trade => trade.route))),
+      timestamp: order.updatedAt
+    };
+  }
+
   private validateTradeParams(params: TradeParams): void {
     if (!params.inputToken || !params.outputToken) {
       throw new Error('Invalid tokens');
@@ -196,6 +507,10 @@ export class TradingEngine extends EventEmitter {
     if (params.type === 'limit' && !params.limitPrice) {
       throw new Error('Limit price required for limit order');
     }
+
+    if (params.deadline && params.deadline <= Date.now()) {
+      throw new Error('Trade deadline has already passed');
+    }
   }
 
   private async findBestRoute(params: TradeParams): Promise<RouteInfo | null> {
@@ -204,11 +519,10 @@ export class TradingEngine extends EventEmitter {
         return null;
       }
       // Get price data with confidence check and retry mechanism
-      // Get price data with confidence check and retry mechanism
       // Validate prices through Jupiter Price V2 service
       const [inputPrice, outputPrice] = await Promise.all([
-        retry(() => this.jupiterPriceV2.getPrice(params.inputToken)),
-        retry(() => this.jupiterPriceV2.getPrice(params.outputToken))
+        this.getRoutePrice(params.inputToken),
+        this.getRoutePrice(params.outputToken)
       ]);
       
       if (!inputPrice || !outputPrice) {
@@ -217,7 +531,7 @@ export class TradingEngine extends EventEmitter {
       }
       
       // Calculate base amount with price
-      const baseAmount = params.amount * Number(inputPrice);
+      const baseAmount = params.amount * inputPrice;
 
       // Adjust position size based on volatility and price confidence
       const adjustedAmount = await this.volatilityManager.adjustPosition(
@@ -260,95 +574,28 @@ export class TradingEngine extends EventEmitter {
   }
 
   /**
-   * Detect arbitrage opportunities across DEXes
+   * Price findBestRoute sizes swaps with: order amounts times this price
+   * give the raw swap amount.
    */
-  public async detectArbitrage(tokenA: string, tokenB: string): Promise<void> {
-    try {
-      const amount = BigInt(1000000); // Base amount for comparison
-      
-      // Get quotes from different DEXes
-      const [jupiterRoute, orcaRoute, raydiumRoute] = await Promise.all([
-        this.findBestRoute({ inputToken: tokenA, outputToken: tokenB, amount: Number(amount) }),
-        this.getOrcaQuote(tokenA, tokenB, amount),
-        this.getRaydiumQuote(tokenA, tokenB, amount)
-      ]);
-
-      // Compare routes to find arbitrage opportunities
-      const routes = [
-        { dex: 'Jupiter', route: jupiterRoute },
-        { dex: 'Orca', route: orcaRoute },
-        { dex: 'Raydium', route: raydiumRoute }
-      ].filter(r => r.route !== null);
-
-      if (routes.length < 2) return; // Need at least 2 DEXes for arbitrage
-
-      // Find best buy and sell prices
-      const bestBuy = routes.reduce((min, curr) => {
-        if (!curr.route || !min.route) return min;
-        return curr.route.outAmount < min.route.outAmount ? curr : min;
-      });
-      const bestSell = routes.reduce((max, curr) => {
-        if (!curr.route || !max.route) return max;
-        return curr.route.outAmount > max.route.outAmount ? curr : max;
-      });
-
-      // Calculate potential profit
-      const profitRatio = bestBuy.route && bestSell.route 
-        ? JSBI.toNumber(bestSell.route.outAmount) / JSBI.toNumber(bestBuy.route.outAmount)
-        : 0;
-      
-      if (profitRatio > 1 + this.MIN_PROFIT_THRESHOLD) {
-        // Emit arbitrage opportunity event
-        this.emit('arbitrageDetected', {
-          buyDex: bestBuy.dex,
-          sellDex: bestSell.dex,
-          tokenA,
-          tokenB,
-          profitRatio,
-          timestamp: Date.now()
-        });
-      }
-    } catch (error) {
-      console.error('Error detecting arbitrage:', error);
-    }
+  private async getRoutePrice(token: string): Promise<number> {
+    const price = await retry(() => this.jupiterPriceV2.getPrice(token));
+    return Number(price.price);
   }
 
   /**
-   * Get quote from Orca DEX
+   * Detect arbitrage opportunities across DEXes. `amount` is in raw base units
+   * of tokenA. Profitable round trips are executed unless the scanner is in
+   * dry-run mode (the default, see ARBITRAGE_DRY_RUN).
    */
-  private async getOrcaQuote(tokenA: string, tokenB: string, amount: bigint): Promise<RouteInfo | null> {
+  public async detectArbitrage(
+    tokenA: string,
+    tokenB: string,
+    amount: bigint = BigInt(1000000)
+  ): Promise<ArbitrageExecution | null> {
     try {
-      const response = await axios.get(`${this.DEX_ENDPOINTS.ORCA}/quote`, {
-        params: {
-          inputMint: tokenA,
-          outputMint: tokenB,
-          amount: amount.toString(),
-          slippage: this.config.maxSlippage
-        }
-      });
-      return response.data;
+      return await this.arbitrageScanner.scanAndExecute(tokenA, tokenB, amount);
     } catch (error) {
-      console.error('Error getting Orca quote:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Get quote from Raydium DEX
-   */
-  private async getRaydiumQuote(tokenA: string, tokenB: string, amount: bigint): Promise<RouteInfo | null> {
-    try {
-      const response = await axios.get(`${this.DEX_ENDPOINTS.RAYDIUM}/quote`, {
-        params: {
-          inputMint: tokenA,
-          outputMint: tokenB,
-          amount: amount.toString(),
-          slippage: this.config.maxSlippage
-        }
-      });
-      return response.data;
-    } catch (error) {
-      console.error('Error getting Raydium quote:', error);
+      console.error('Error detecting arbitrage:', error);
       return null;
     }
   }
@@ -357,41 +604,32 @@ export class TradingEngine extends EventEmitter {
     // Implement route validation logic
   }
 
-  private async executeRoute(route: RouteInfo): Promise<TradeResult> {
+  private async executeRoute(route: RouteInfo, params: TradeParams): Promise<TradeResult> {
     try {
+      if (this.paperTrading) {
+        const result = await this.paperTrading.fillRaw({
+          inputMint: route.marketInfos[0].inputMint.toBase58(),
+          outputMint: route.marketInfos[route.marketInfos.length - 1].outputMint.toBase58(),
+          inAmount: JSBI.toNumber(route.inAmount),
+          outAmount: JSBI.toNumber(route.outAmount),
+          priceImpact: route.priceImpactPct || 0,
+          route: route.marketInfos.map((info: any) => info.label)
+        });
+        return result;
+      }
+
       // Execute the trade using Jupiter SDK
       let txid: string;
       try {
-        const { swapTransaction } = await this.jupiter.exchange({
-          routeInfo: route,
-          userPublicKey: this.wallet.publicKey
-        });
-        
-        // Send transaction using Solana connection
-        let transaction: Transaction;
-        if (swapTransaction instanceof VersionedTransaction) {
-          // Convert VersionedTransaction to legacy Transaction if needed
-          const serializedMessage = swapTransaction.message.serialize();
-          transaction = Transaction.from(serializedMessage);
-        } else {
-          transaction = swapTransaction as Transaction;
-        }
-        
-        // Sign and send transaction
-        transaction.feePayer = this.wallet.publicKey;
-        transaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
-        
-        txid = await this.connection.sendTransaction(
-          transaction,
-          [this.wallet],
-          { skipPreflight: false }
-        );
-        
-        // Wait for confirmation
-        const confirmation = await this.connection.confirmTransaction(txid, 'confirmed');
-        if (confirmation.value.err) {
-          throw new Error(`Transaction failed: ${confirmation.value.err}`);
-        }
+        txid = this.walletRegistry
+          ? await this.walletRegistry.useWallet(
+            'trading',
+            'swap',
+            { mint: params.inputToken, amount: params.amount },
+            signer => this.sendRoute(route, signer, params.priorityFeeMicroLamports),
+            params.source || 'TradingEngine'
+          )
+          : await this.sendRoute(route, this.wallet, params.priorityFeeMicroLamports);
         
         console.log(`Trade executed successfully: ${txid}`);
       } catch (error: unknown) {
@@ -422,23 +660,6 @@ export class TradingEngine extends EventEmitter {
         timestamp: Date.now()
       };
 
-      // Update position tracking
-      const position: Position = {
-        id: txid,
-        token: outputToken,
-        entryPrice: executionPrice,
-        currentPrice: executionPrice,
-        size: outputAmount,
-        stopLossPrice: executionPrice * (1 - this.DEFAULT_STOP_LOSS),
-        stopLossThreshold: this.DEFAULT_STOP_LOSS,
-        timestamp: Date.now(),
-        lastUpdate: Date.now()
-      };
-      this.openPositions.set(position.id, position);
-
-      // Run risk management checks
-      await this.handleRiskManagement();
-
       return result;
     } catch (error) {
       console.error('Error executing trade:', error);
@@ -446,45 +667,118 @@ export class TradingEngine extends EventEmitter {
     }
   }
 
-  private async handleRiskManagement(): Promise<void> {
-    for (const [id, position] of this.openPositions.entries()) {
-      try {
-        // Get latest volatility metrics
-        const volatility = await this.volatilityManager.getVolatilityMetrics(position.token);
-        
-        // Adjust stop loss based on volatility
-        const adjustedStopLoss = this.DEFAULT_STOP_LOSS * (1 + volatility.adjustmentFactor);
-        
-        // Update position price
-        const currentPrice = await this.dataProcessor.getTokenPrice(position.token);
-        position.currentPrice = currentPrice;
-        position.lastUpdate = Date.now();
-        
-        // Calculate unrealized loss
-        const loss = (position.currentPrice - position.entryPrice) / position.entryPrice;
-        
-        // Execute stop loss if threshold breached
-        if (Math.abs(loss) >= adjustedStopLoss) {
-          console.log(`Executing stop loss for position ${id} at ${loss * 100}% loss`);
-          await this.executeTrade({
-            inputToken: position.token,
-            outputToken: 'USDC',
-            amount: position.size,
-            type: 'market'
-          });
-          this.openPositions.delete(id);
-          
-          // Emit stop loss event
-          this.emit('stopLossTriggered', {
-            positionId: id,
-            token: position.token,
-            loss: loss * 100,
-            timestamp: Date.now()
-          });
-        }
-      } catch (error) {
-        console.error(`Error in risk management for position ${id}:`, error);
+  /**
+   * Build the route's swap for `signer`, send it and wait for confirmation.
+   */
+  private async sendRoute(route: RouteInfo, signer: Keypair, priorityFeeMicroLamports?: number): Promise<string> {
+    const { swapTransaction } = await this.jupiter.exchange({
+      routeInfo: route,
+      userPublicKey: signer.publicKey,
+      computeUnitPriceMicroLamports: priorityFeeMicroLamports
+    });
+    
+    // Send transaction using Solana connection
+    let transaction: Transaction;
+    if (swapTransaction instanceof VersionedTransaction) {
+      // Convert VersionedTransaction to legacy Transaction if needed
+      const serializedMessage = swapTransaction.message.serialize();
+      transaction = Transaction.from(serializedMessage);
+    } else {
+      transaction = swapTransaction as Transaction;
+    }
+    
+    const bundled = await this.sendAsBundle(transaction);
+    if (bundled) {
+      return bundled.signature;
+    }
+
+    // Sign and send transaction
+    transaction.feePayer = signer.publicKey;
+    transaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
+
+    const txid = await this.connection.sendTransaction(
+      transaction,
+      [signer],
+      { skipPreflight: false }
+    );
+
+    // Wait for confirmation
+    const confirmation = await this.connection.confirmTransaction(txid, 'confirmed');
+    if (confirmation.value.err) {
+      throw new Error(`Transaction failed: ${confirmation.value.err}`);
+    }
+    return txid;
+  }
+
+  /**
+   * Submit through the Jito block engine when bundles are enabled. Returns
+   * null when disabled or when the swap can no longer land, so the caller
+   * falls back to the regular RPC path. An unresolved bundle is rethrown
+   * since resending could execute the swap twice.
+   */
+  private async sendAsBundle(transaction: Transaction): Promise<BundleSubmission | null> {
+    if (!this.bundleSubmitter) return null;
+
+    try {
+      return await this.bundleSubmitter.submit(transaction);
+    } catch (error) {
+      if (error instanceof BundleOutcomeUnknownError) throw error;
+      console.warn('Jito bundle submission failed, falling back to RPC:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Hand a filled buy to the position manager. The stop is widened for
+   * volatile tokens unless the caller passed an explicit exit plan.
+   */
+  private async trackPosition(result: TradeResult, exitPlan: Partial<ExitPlan> = {}): Promise<void> {
+    try {
+      const entryPrice = await this.dataProcessor.getTokenPrice(result.outputToken);
+      // The exit executor goes back through findBestRoute, so keep the size
+      // in order units rather than the raw amount the swap returned
+      const routePrice = await this.getRoutePrice(result.outputToken);
+      if (!(routePrice > 0)) {
+        throw new Error(`Missing price for ${result.outputToken}`);
+      }
+      let stopLossPct = exitPlan.stopLossPct;
+      if (stopLossPct === undefined) {
+        const volatility = await this.volatilityManager.getVolatilityMetrics(result.outputToken);
+        stopLossPct = Math.min(this.DEFAULT_STOP_LOSS * (1 + volatility.adjustmentFactor), 0.5);
       }
+
+      await this.positionManager.open({
+        token: result.outputToken,
+        entryPrice,
+        size: result.outputAmount / routePrice,
+        tradeId: result.id,
+        plan: { ...exitPlan, stopLossPct }
+      });
+    } catch (error) {
+      // The trade itself went through, don't fail it over bookkeeping
+      console.error(`Error opening position for trade ${result.id}:`, error);
+    }
+  }
+
+  /**
+   * Take a sell made outside the position manager off the positions held in
+   * the sold token.
+   */
+  private async reducePositions(result: TradeResult): Promise<void> {
+    if (this.EXIT_TOKENS.has(result.inputToken)) return;
+
+    try {
+      const [routePrice, price] = await Promise.all([
+        this.getRoutePrice(result.inputToken),
+        this.dataProcessor.getTokenPrice(result.inputToken)
+      ]);
+      if (!(routePrice > 0)) {
+        throw new Error(`Missing price for ${result.inputToken}`);
+      }
+      await this.positionManager.recordSell(result.inputToken, result.inputAmount / routePrice, price, result.id);
+    } catch (error) {
+      // The trade itself went through, don't fail it over bookkeeping
+      console.error(`Error reducing positions for trade ${result.id}:`, error);
     }
   }
 
@@ -498,3 +792,26 @@ export class TradingEngine extends EventEmitter {
     this.tradeHistory.set(result.id, result);
   }
 }
+
+/**
+ * Build and initialize a TradingEngine on the trading wallet. Strategy and
+ * copy trading share one engine so their positions and risk checks add up.
+ */
+export async function createTradingEngine(setup: TradingEngineSetup): Promise<TradingEngine> {
+  const wallet = walletRegistry.getKeypair('trading');
+  const jupiter = await Jupiter.load({ connection: setup.connection, cluster: 'mainnet-beta', user: wallet });
+
+  const engine = new TradingEngine(
+    setup.connection,
+    jupiter,
+    setup.config || DEFAULT_TRADE_CONFIG,
+    new MarketSentimentAnalyzer(setup.aiService),
+    wallet,
+    undefined,
+    undefined,
+    undefined,
+    { dataProcessor: setup.dataProcessor, postQueue: setup.postQueue, walletRegistry }
+  );
+  await engine.initialize();
+  return engine;
+}
@@ -20,6 +20,7 @@ import {
   getAssociatedTokenAddress,
   TokenAccount
 } from '../../utils/spl-token/index.js';
+import { WalletRole, walletRegistry } from '../wallet/walletRegistry.js';
   
   interface TokenConfig {
     name: string;
@@ -38,11 +39,12 @@ import {
     private connection: Connection;
     private payer: Keypair;
   
-    constructor() {
+    /**
+     * @param role Registry wallet that pays for and signs transactions
+     */
+    constructor(role: WalletRole = 'launch') {
       this.connection = new Connection(CONFIG.SOLANA.RPC_URL, 'confirmed');
-      this.payer = Keypair.fromSecretKey(
-        Buffer.from(CONFIG.SOLANA.PRIVATE_KEY, 'base64')
-      );
+      this.payer = walletRegistry.getKeypair(role);
     }
   
     /**
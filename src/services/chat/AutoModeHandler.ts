@@ -6,6 +6,9 @@ import { elizaLogger } from "@ai16z/eliza";
 import { MarketAction } from '../../config/constants.js';
 import { MarketData, MarketUpdateData } from '@/types/market.js';
 import { MarketAlertCriteria } from './AutoTypes.js'; // Ensure this import
+import { chartService, ChartService } from '../market/charts/chartService.js';
+import { resolveTokenMint } from '../../helper/tokenList.js';
+import { PublicKey } from '@solana/web3.js';
 
 interface AutoModeConfig {
   postInterval?: number;
@@ -36,7 +39,8 @@ export class AutoModeHandler {
     private twitterService: TwitterService,
     private aiService: AIService,
     private jupiterService: JupiterPriceV2Service,
-    config?: Partial<AutoModeConfig>
+    config?: Partial<AutoModeConfig>,
+    private charts: ChartService = chartService
   ) {
     if (config) {
       this.postInterval = config.postInterval ?? this.postInterval;
@@ -91,7 +95,8 @@ export class AutoModeHandler {
         }
 
         const content = await this.generateMarketUpdateContent(validMarketData[0]);
-        await this.twitterService.postTweet(content);
+        const chart = await this.renderChart(validMarketData[0].symbol);
+        await this.twitterService.postTweet(content, chart ? { mediaUrls: [chart] } : undefined);
         this.lastPostTime = new Date();
         elizaLogger.info('Successfully posted autonomous update');
 
@@ -146,6 +151,30 @@ export class AutoModeHandler {
     setInterval(checkMarket, this.marketCheckInterval);
   }
 
+  private async renderChart(symbol: string): Promise<string | null> {
+    // Candles are recorded per mint address, the configured tokens may be tickers
+    const mint = resolveTokenMint(symbol);
+    if (!this.isMintAddress(mint)) {
+      elizaLogger.warn(`No mint address known for ${symbol}, posting text only`);
+      return null;
+    }
+    try {
+      return await this.charts.renderTokenChart(mint, { title: `$${symbol} 1h` });
+    } catch (error) {
+      elizaLogger.warn(`Failed to render ${symbol} chart, posting text only:`, error);
+      return null;
+    }
+  }
+
+  private isMintAddress(value: string): boolean {
+    try {
+      new PublicKey(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private async generateMarketUpdateContent(marketData: MarketUpdateData): Promise<string> {
     try {
       const content = await this.aiService.generateMarketUpdate({
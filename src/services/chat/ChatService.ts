@@ -10,6 +10,7 @@ import { ServiceMarketAnalysis, CommandResult } from '@/types/chat.js';
 import { TwitterCommands } from './TwitterCommands.js';
 import { TwitterService } from '../social/twitter.js';
 import { JupiterPriceV2Service } from '../blockchain/defi/JupiterPriceV2Service.js';
+import { PostQueue } from '../social/engagement/postQueue.js';
 
 
 type MessageRole = 'user' | 'assistant' | 'system';
@@ -34,7 +35,8 @@ export class ChatService {
   constructor(
     aiService: AIService,
     twitterService: TwitterService,
-    jupiterService: JupiterPriceV2Service
+    jupiterService: JupiterPriceV2Service,
+    postQueue: PostQueue = new PostQueue({ aiService, twitterService })
   ) {
     this.aiService = aiService;
     this.twitterService = twitterService;
@@ -56,7 +58,8 @@ export class ChatService {
       this,
       twitterService,
       jupiterService,
-      aiService
+      aiService,
+      postQueue
     );
     
     this.initializeModes();
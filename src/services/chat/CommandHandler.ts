@@ -2,6 +2,32 @@ import { Mode, Command, CommandResult } from '@/types/chat.js';
 import { ModeManager } from './ModeManager.js';
 import { elizaLogger } from "@ai16z/eliza";
 import { JupiterPriceV2Service } from '../blockchain/defi/JupiterPriceV2Service.js';
+import { lpAnalytics, LPAnalyticsService } from '../blockchain/defi/lpAnalytics.js';
+import { signalPerformance, SignalPerformanceTracker } from '../market/signals/signalPerformance.js';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  fetchCurveSimulator,
+  fetchTokenBalance,
+  formatBuyImpact,
+  formatExitSimulation
+} from '../../actions/curveSimulator.js';
+import { RugRiskScanner, formatRugReport } from '../analysis/rugScanner.js';
+import {
+  ExecutionScheduler,
+  PriceBand,
+  ScheduleAlgorithm,
+  createScheduleReport,
+  executionScheduler,
+  formatScheduleReport
+} from '../trading/executionScheduler.js';
+import {
+  WALLET_ROLES,
+  WalletRegistry,
+  WalletRole,
+  formatWalletReport,
+  walletRegistry
+} from '../wallet/walletRegistry.js';
+import { resolveTokenMint, tokenSymbols } from '../../helper/tokenList.js';
 import { TwitterService } from '../social/index.js';
 import { AIService } from '../ai/ai.js';
 
@@ -12,16 +38,33 @@ export class CommandHandler {
   private twitterService: TwitterService;
   private jupiterService: JupiterPriceV2Service; 
   private aiService: AIService;
+  private lpAnalytics: LPAnalyticsService;
+  private signalPerformance: SignalPerformanceTracker;
+  private connection: Connection;
+  private rugScanner: RugRiskScanner;
+  private scheduler: ExecutionScheduler;
+  private wallets: WalletRegistry;
 
   constructor(
     twitterService: TwitterService,
     jupiterService: JupiterPriceV2Service,
-    aiService: AIService
+    aiService: AIService,
+    lpAnalyticsService: LPAnalyticsService = lpAnalytics,
+    signalPerformanceTracker: SignalPerformanceTracker = signalPerformance,
+    connection: Connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'),
+    scheduler: ExecutionScheduler = executionScheduler,
+    wallets: WalletRegistry = walletRegistry
   ) {
     this.commands = new Map();
     this.twitterService = twitterService;
     this.jupiterService = jupiterService;
     this.aiService = aiService;
+    this.lpAnalytics = lpAnalyticsService;
+    this.signalPerformance = signalPerformanceTracker;
+    this.connection = connection;
+    this.rugScanner = new RugRiskScanner(connection);
+    this.scheduler = scheduler;
+    this.wallets = wallets;
 
     // Initialize ModeManager with required services
     this.modeManager = new ModeManager(
@@ -62,7 +105,16 @@ export class CommandHandler {
             'mode - Switch mode (chat|auto|market)',
             'exit - Exit the application',
             'clear - Clear the console',
-            'status - Show current status'
+            'status - Show current status',
+            'lp [position] - Show LP performance versus holding',
+            'signals stats - Show which signals and indicators predicted price moves',
+            'curve <mint> [sell <amount|percent%> [chunks]] - Quote pump.fun exits and price impact',
+            'scan <mint> - Score a token\'s rug risk',
+            'dca <from> <to> <amount> <everyMinutes> <orders> [min=<usd>] [max=<usd>] - Buy in fixed slices on a timer',
+            'twap <from> <to> <amount> <minutes> [slices] [min=<usd>] [max=<usd>] - Spread an order over a window',
+            'dca|twap list|status|pause|resume|cancel [id] - Manage execution schedules',
+            'wallets [role] - Show balances and budget use per wallet',
+            'wallets activity [role] - Show recent wallet activity'
           ];
 
           const modeCommands = config.commands
@@ -222,6 +274,392 @@ export class CommandHandler {
         }
       }
     });
+
+    this.registerCommand({
+      name: 'lp',
+      description: 'Show LP performance versus holding',
+      execute: async (args: string[]): Promise<CommandResult> => {
+        try {
+          const positions = await this.lpAnalytics.getPositions();
+          if (!positions.length) {
+            return {
+              success: true,
+              data: [],
+              message: 'No LP positions tracked yet'
+            };
+          }
+
+          const requested = args[0];
+          if (requested) {
+            const position = positions.find(p => p.positionId.toLowerCase() === requested.toLowerCase());
+            if (!position) {
+              return {
+                success: false,
+                message: `LP position ${requested} not found`
+              };
+            }
+
+            const history = await this.lpAnalytics.getHistory(position.positionId);
+            console.log(`\nLP position ${position.positionId} (${position.protocol}):`);
+            history.slice(-10).forEach(snapshot => {
+              console.log(
+                `${new Date(snapshot.timestamp).toISOString()}  ` +
+                `value ${(snapshot.positionValue + snapshot.fees).toFixed(4)}  ` +
+                `hodl ${snapshot.hodlValue.toFixed(4)}  ` +
+                `IL ${(snapshot.impermanentLoss * 100).toFixed(2)}%  ` +
+                `fees ${snapshot.fees.toFixed(4)}  ` +
+                `APY ${(snapshot.realizedApy * 100).toFixed(1)}%` +
+                (snapshot.inRange ? '' : '  (out of range)')
+              );
+            });
+
+            return {
+              success: true,
+              data: { position, history },
+              message: 'LP history retrieved successfully'
+            };
+          }
+
+          console.log('\nLP Positions:');
+          positions.forEach(position => {
+            const latest = position.latest;
+            if (!latest) return;
+            const verdict = latest.pnlVsHodl >= 0 ? 'beats HODL' : 'trails HODL';
+            console.log(
+              `${position.positionId.slice(0, 8)} ${position.protocol}${position.closedAt ? ' (closed)' : ''}: ` +
+              `value ${(latest.positionValue + latest.fees).toFixed(4)} vs hodl ${latest.hodlValue.toFixed(4)} ` +
+              `(${verdict} by ${Math.abs(latest.pnlVsHodl).toFixed(4)}), ` +
+              `IL ${(latest.impermanentLoss * 100).toFixed(2)}%, fees ${latest.fees.toFixed(4)}, ` +
+              `APY ${(latest.realizedApy * 100).toFixed(1)}% realized / ${(latest.advertisedApy * 100).toFixed(1)}% advertised`
+            );
+          });
+
+          return {
+            success: true,
+            data: positions,
+            message: 'LP positions retrieved successfully'
+          };
+        } catch (error) {
+          elizaLogger.error('Error fetching LP analytics:', error);
+          return {
+            success: false,
+            message: 'Error retrieving LP analytics'
+          };
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'signals',
+      description: 'Show which signals and indicators predicted price moves',
+      execute: async (args: string[]): Promise<CommandResult> => {
+        try {
+          if (args[0]?.toLowerCase() !== 'stats') {
+            return {
+              success: false,
+              message: 'Usage: signals stats'
+            };
+          }
+
+          const leaderboard = await this.signalPerformance.getLeaderboard();
+          if (!leaderboard.length) {
+            return {
+              success: true,
+              data: [],
+              message: 'No signal outcomes recorded yet'
+            };
+          }
+
+          const print = (title: string, kind: 'type' | 'indicator') => {
+            console.log(`\n${title}:`);
+            leaderboard
+              .filter(stats => stats.kind === kind)
+              .forEach((stats, index) => {
+                console.log(
+                  `${index + 1}. ${stats.key.padEnd(20)} ` +
+                  `hit rate ${(stats.hitRate * 100).toFixed(1)}%  ` +
+                  `expectancy ${(stats.expectancy * 100).toFixed(2)}%  ` +
+                  `weight ${stats.weight.toFixed(2)}  ` +
+                  `(${stats.samples} signals)`
+                );
+              });
+          };
+          print('Signal Types', 'type');
+          print('Indicators', 'indicator');
+
+          return {
+            success: true,
+            data: leaderboard,
+            message: 'Signal stats retrieved successfully'
+          };
+        } catch (error) {
+          elizaLogger.error('Error fetching signal stats:', error);
+          return {
+            success: false,
+            message: 'Error retrieving signal stats'
+          };
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'curve',
+      description: 'Quote pump.fun exits and price impact',
+      execute: async (args: string[]): Promise<CommandResult> => {
+        try {
+          const [mintArg, action, amountArg, chunksArg] = args;
+          if (!mintArg) {
+            return {
+              success: false,
+              message: 'Usage: curve <mint> [sell <amount|percent%> [chunks]]'
+            };
+          }
+
+          const mint = new PublicKey(mintArg);
+          const simulator = await fetchCurveSimulator(this.connection, mint);
+          if (!simulator) {
+            return {
+              success: false,
+              message: `No pump.fun bonding curve found for ${mintArg}`
+            };
+          }
+          if (simulator.complete) {
+            return {
+              success: false,
+              message: 'Curve is complete, the token trades on Raydium now'
+            };
+          }
+
+          if (action?.toLowerCase() === 'sell') {
+            if (!amountArg) {
+              return {
+                success: false,
+                message: 'Specify an amount of tokens or a percentage of the wallet balance'
+              };
+            }
+
+            let tokenAmount: bigint;
+            if (amountArg.endsWith('%')) {
+              if (!this.wallets.has('trading')) {
+                return {
+                  success: false,
+                  message: 'A trading wallet is needed to sell a percentage of the bag'
+                };
+              }
+              const balance = await fetchTokenBalance(this.connection, this.wallets.getPublicKey('trading'), mint);
+              const basisPoints = BigInt(Math.round(parseFloat(amountArg) * 100));
+              tokenAmount = (balance * basisPoints) / BigInt(10000);
+            } else {
+              tokenAmount = BigInt(Math.floor(parseFloat(amountArg) * 1e6));
+            }
+
+            const exit = simulator.simulateExit(tokenAmount, parseInt(chunksArg || '1', 10) || 1);
+            console.log(`\nExit quote for ${mintArg}:`);
+            console.log(formatExitSimulation(exit));
+
+            return {
+              success: true,
+              data: exit,
+              message: 'Exit simulated successfully'
+            };
+          }
+
+          console.log(`\n${mintArg} bonding curve:`);
+          console.log(`Price: ${simulator.getPrice().toExponential(4)} SOL`);
+          console.log(`Real SOL reserves: ${(Number(simulator.realSolReserves) / LAMPORTS_PER_SOL).toFixed(2)} SOL`);
+          console.log('SOL needed to move the price:');
+          console.log(formatBuyImpact(simulator, [0.1, 0.25, 0.5, 0.75]));
+
+          return {
+            success: true,
+            data: simulator,
+            message: 'Curve quoted successfully'
+          };
+        } catch (error) {
+          elizaLogger.error(`Error quoting curve for ${args[0]}:`, error);
+          return {
+            success: false,
+            message: `Error quoting curve: ${error instanceof Error ? error.message : 'Unknown error'}`
+          };
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'scan',
+      description: 'Score a token\'s rug risk',
+      execute: async (args: string[]): Promise<CommandResult> => {
+        try {
+          if (!args[0]) {
+            return {
+              success: false,
+              message: 'Usage: scan <mint>'
+            };
+          }
+
+          const report = await this.rugScanner.scan(new PublicKey(args[0]).toBase58());
+          console.log(`\n${args[0]}`);
+          console.log(formatRugReport(report));
+
+          return {
+            success: true,
+            data: report,
+            message: 'Token scanned successfully'
+          };
+        } catch (error) {
+          elizaLogger.error(`Error scanning ${args[0]}:`, error);
+          return {
+            success: false,
+            message: `Error scanning token: ${error instanceof Error ? error.message : 'Unknown error'}`
+          };
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'wallets',
+      description: 'Show balances, budgets and activity per wallet',
+      execute: async (args: string[]): Promise<CommandResult> => {
+        try {
+          const showActivity = args[0]?.toLowerCase() === 'activity';
+          const roleArg = (showActivity ? args[1] : args[0])?.toLowerCase();
+          if (roleArg && !WALLET_ROLES.includes(roleArg as WalletRole)) {
+            return {
+              success: false,
+              message: `Unknown wallet role ${roleArg}, expected ${WALLET_ROLES.join(', ')}`
+            };
+          }
+          const role = roleArg as WalletRole | undefined;
+
+          if (showActivity) {
+            const activity = await this.wallets.getActivity(role);
+            console.log('\nWallet activity:');
+            activity.forEach(entry => console.log(
+              `${new Date(entry.timestamp).toISOString()} ${entry.role} ${entry.action} [${entry.status}]` +
+              `${entry.amount !== undefined ? ` ${entry.amount} ${tokenSymbols[entry.mint || ''] || entry.mint}` : ''}` +
+              ` $${entry.valueUsd.toFixed(2)}${entry.signature ? ` ${entry.signature}` : ''}${entry.error ? ` - ${entry.error}` : ''}`
+            ));
+            return {
+              success: true,
+              data: activity,
+              message: activity.length ? 'Wallet activity retrieved successfully' : 'No wallet activity yet'
+            };
+          }
+
+          const reports = await this.wallets.getReport(role);
+          console.log('\nWallets:');
+          reports.forEach(report => console.log(formatWalletReport(report)));
+          return {
+            success: true,
+            data: reports,
+            message: reports.length ? 'Wallets retrieved successfully' : 'No wallets configured'
+          };
+        } catch (error) {
+          elizaLogger.error('Error reporting wallets:', error);
+          return {
+            success: false,
+            message: `Error reporting wallets: ${error instanceof Error ? error.message : 'Unknown error'}`
+          };
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'dca',
+      description: 'Buy in fixed slices on a timer',
+      execute: (args: string[]) => this.executeScheduleCommand('dca', args)
+    });
+
+    this.registerCommand({
+      name: 'twap',
+      description: 'Spread an order over a window',
+      execute: (args: string[]) => this.executeScheduleCommand('twap', args)
+    });
+  }
+
+  private async executeScheduleCommand(algorithm: ScheduleAlgorithm, args: string[]): Promise<CommandResult> {
+    const usage = algorithm === 'dca'
+      ? 'Usage: dca <from> <to> <amount> <everyMinutes> <orders> [min=<usd>] [max=<usd>]'
+      : 'Usage: twap <from> <to> <amount> <minutes> [slices] [min=<usd>] [max=<usd>]';
+
+    try {
+      const action = args[0]?.toLowerCase();
+
+      if (action === 'list') {
+        const schedules = (await this.scheduler.list()).filter(schedule => schedule.algorithm === algorithm);
+        console.log(`\n${algorithm.toUpperCase()} schedules:`);
+        schedules.forEach(schedule => console.log(formatScheduleReport(createScheduleReport(schedule), tokenSymbols)));
+        return {
+          success: true,
+          data: schedules,
+          message: schedules.length ? 'Schedules retrieved successfully' : 'No schedules yet'
+        };
+      }
+
+      if (action === 'status' || action === 'pause' || action === 'resume' || action === 'cancel') {
+        if (!args[1]) {
+          return { success: false, message: `Usage: ${algorithm} ${action} <id>` };
+        }
+        if (action !== 'status') {
+          await this.scheduler[action](args[1]);
+        }
+        const report = await this.scheduler.getReport(args[1]);
+        console.log(formatScheduleReport(report, tokenSymbols));
+        return {
+          success: true,
+          data: report,
+          message: action === 'status' ? 'Schedule retrieved successfully' : `Schedule ${report.status}`
+        };
+      }
+
+      const options = Object.fromEntries(
+        args.filter(arg => arg.includes('=')).map(arg => arg.toLowerCase().split('=') as [string, string])
+      );
+      const [from, to, amountArg, minutesArg, countArg] = args.filter(arg => !arg.includes('='));
+      if (!from || !to || !amountArg || !minutesArg || (algorithm === 'dca' && !countArg)) {
+        return { success: false, message: usage };
+      }
+
+      const priceBand: PriceBand | undefined = options.min || options.max
+        ? {
+          min: options.min ? parseFloat(options.min) : undefined,
+          max: options.max ? parseFloat(options.max) : undefined
+        }
+        : undefined;
+
+      const common = {
+        inputMint: resolveTokenMint(from),
+        outputMint: resolveTokenMint(to),
+        priceBand,
+        source: 'CommandHandler'
+      };
+      const schedule = algorithm === 'dca'
+        ? await this.scheduler.createDca({
+          ...common,
+          amountPerOrder: parseFloat(amountArg),
+          intervalMinutes: parseFloat(minutesArg),
+          orders: parseInt(countArg, 10)
+        })
+        : await this.scheduler.createTwap({
+          ...common,
+          totalAmount: parseFloat(amountArg),
+          durationMinutes: parseFloat(minutesArg),
+          slices: countArg ? parseInt(countArg, 10) : undefined
+        });
+
+      console.log(formatScheduleReport(createScheduleReport(schedule), tokenSymbols));
+      return {
+        success: true,
+        data: schedule,
+        message: `${algorithm.toUpperCase()} schedule ${schedule.id} created`
+      };
+    } catch (error) {
+      elizaLogger.error(`Error handling ${algorithm} command:`, error);
+      return {
+        success: false,
+        message: `Error handling ${algorithm} command: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
   }
 
   // Add request timeout handling
@@ -239,7 +677,9 @@ private async executeWithTimeout<T>(
 // Improve command execution
 public async handleCommand(input: string): Promise<boolean> {
   try {
-    const [commandName, ...args] = input.trim().toLowerCase().split(' ');
+    // Arguments keep their case, token mints are case sensitive
+    const [rawCommand, ...args] = input.trim().split(/\s+/);
+    const commandName = rawCommand.toLowerCase();
     const resolvedCommand = this.aliases.get(commandName) || commandName;
     const command = this.commands.get(resolvedCommand);
 
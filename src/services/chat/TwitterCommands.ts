@@ -4,6 +4,8 @@ import { JupiterPriceV2Service } from '../blockchain/defi/JupiterPriceV2Service'
 import { AIService } from '../ai/ai';
 import { elizaLogger } from "@ai16z/eliza";
 import { ModeConfig } from './types';
+import { Approver, PostQueue, PostStatus, QueuedPost } from '../social/engagement/postQueue';
+import { ThreadPublisher, composeThread, createTwitterServicePoster } from '../social/engagement/threadComposer';
 
 // Add interfaces for market data
 interface MarketMetrics {
@@ -24,13 +26,37 @@ interface MarketMetrics {
   }
   
   export class TwitterCommands {
+    private readonly approver: Approver = { id: process.env.USER || 'cli', channel: 'cli' };
+    private threadPublisher?: ThreadPublisher;
+
     constructor(
       private chatService: ChatService,
       private twitterService: TwitterService,
       private jupiterService: JupiterPriceV2Service,
-      private aiService: AIService
+      private aiService: AIService,
+      private postQueue?: PostQueue
     ) {}
   
+    private formatPost(post: QueuedPost): string {
+      const when = new Date(post.scheduledTime).toLocaleString();
+      return `${post.id} [${post.status}] ${when} (${post.metadata.category})\n  ${post.content || '<generated when due>'}`;
+    }
+  
+    private async decide(action: string, task: (queue: PostQueue) => Promise<QueuedPost>): Promise<void> {
+      if (!this.postQueue) {
+        console.log('Post queue is not configured');
+        return;
+      }
+      try {
+        const post = await task(this.postQueue);
+        console.log(`Post ${post.id} ${action}:`);
+        console.log(this.formatPost(post));
+      } catch (error) {
+        elizaLogger.error(`Failed to ${action} post:`, error instanceof Error ? error.message : String(error));
+        console.log(error instanceof Error ? error.message : String(error));
+      }
+    }
+  
     public getTwitterCommands(): Partial<ModeConfig> {
       return {
         commands: [
@@ -154,40 +180,128 @@ interface MarketMetrics {
           },
           {
             name: 'tweet-thread',
-            description: 'Post a thread of tweets. Usage: tweet-thread <message1> | <message2> | ...',
+            description: 'Post a thread of tweets. Usage: tweet-thread <message1> | <message2> | ... or tweet-thread resume <threadId>',
             execute: async (args: string[]): Promise<void> => {
               try {
-                const thread = args.join(' ').split('|').map(tweet => tweet.trim());
-                
-                if (thread.length < 2) {
-                  console.log('Please provide at least 2 tweets separated by |');
-                  return;
-                }
+                this.threadPublisher = this.threadPublisher ||
+                  new ThreadPublisher(createTwitterServicePoster(this.twitterService));
   
-                for (const tweet of thread) {
-                  if (tweet.length > 280) {
-                    console.log(`Tweet exceeds 280 characters: "${tweet.substring(0, 50)}..."`);
+                if (args[0] === 'resume') {
+                  if (!args[1]) {
+                    console.log('Please provide the id of the thread to resume');
                     return;
                   }
+                  const resumed = await this.threadPublisher.resume(args[1]);
+                  elizaLogger.success(`Thread ${resumed.id} is ${resumed.status}`);
+                  return;
                 }
   
-                console.log(`Posting thread of ${thread.length} tweets...`);
-  
-                for (let i = 0; i < thread.length; i++) {
-                  await this.twitterService.postTweetWithRetry(thread[i]);
-                  elizaLogger.success(`Posted tweet ${i + 1}/${thread.length}`);
-                  
-                  if (i < thread.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 2000));
-                  }
+                // Blocks are split on sentence boundaries when they do not fit a tweet
+                const blocks = args.join(' ').split('|').map(tweet => tweet.trim()).filter(Boolean);
+                if (!blocks.length) {
+                  console.log('Please provide the thread content, with parts separated by |');
+                  return;
                 }
   
-                elizaLogger.success('Thread posted successfully!');
+                const parts = composeThread(blocks);
+                console.log(`Posting thread of ${parts.length} tweets...`);
+  
+                this.threadPublisher.on('partPosted', ({ index }) => elizaLogger.success(`Posted tweet ${index + 1}/${parts.length}`));
+                const thread = await this.threadPublisher.publish(parts).finally(() =>
+                  this.threadPublisher!.removeAllListeners('partPosted')
+                );
+                elizaLogger.success(`Thread ${thread.id} posted successfully!`);
   
               } catch (error) {
                 elizaLogger.error('Failed to post thread:', error instanceof Error ? error.message : String(error));
-                console.log('Failed to post thread. Please try again.');
+                const [failed] = (await this.threadPublisher?.getFailedThreads()) || [];
+                console.log(failed
+                  ? `Failed to post thread. Run "tweet-thread resume ${failed.id}" to continue from the failed part.`
+                  : 'Failed to post thread. Please try again.');
+              }
+            }
+          },
+          {
+            name: 'queue',
+            description: 'List queued posts. Usage: queue [awaiting_approval|scheduled|failed|...]',
+            execute: async (args: string[]): Promise<void> => {
+              if (!this.postQueue) {
+                console.log('Post queue is not configured');
+                return;
+              }
+              const status = (args[0] || PostStatus.AWAITING_APPROVAL) as PostStatus;
+              if (!Object.values(PostStatus).includes(status)) {
+                console.log(`Unknown status. Use one of: ${Object.values(PostStatus).join(', ')}`);
+                return;
+              }
+              const posts = await this.postQueue.getPostsByStatus(status);
+              if (!posts.length) {
+                console.log(`No ${status} posts`);
+                return;
+              }
+              posts.forEach(post => console.log(this.formatPost(post)));
+            }
+          },
+          {
+            name: 'approve',
+            description: 'Approve a queued post. Usage: approve <postId> [note]',
+            execute: async (args: string[]): Promise<void> => {
+              const [postId, ...note] = args;
+              if (!postId) {
+                console.log('Please provide a post id');
+                return;
               }
+              await this.decide('approved', queue =>
+                queue.approve(postId, this.approver, { note: note.join(' ') || undefined })
+              );
+            }
+          },
+          {
+            name: 'edit-post',
+            description: 'Rewrite a post awaiting approval. Usage: edit-post <postId> <new text>',
+            execute: async (args: string[]): Promise<void> => {
+              const [postId, ...content] = args;
+              if (!postId || !content.length) {
+                console.log('Please provide a post id and the new text');
+                return;
+              }
+              await this.decide('edited', queue => queue.edit(postId, this.approver, content.join(' ')));
+            }
+          },
+          {
+            name: 'reject',
+            description: 'Reject a queued post. Usage: reject <postId> [reason]',
+            execute: async (args: string[]): Promise<void> => {
+              const [postId, ...reason] = args;
+              if (!postId) {
+                console.log('Please provide a post id');
+                return;
+              }
+              await this.decide('rejected', queue =>
+                queue.reject(postId, this.approver, reason.join(' ') || undefined)
+              );
+            }
+          },
+          {
+            name: 'approval-audit',
+            description: 'Show approval decisions. Usage: approval-audit [postId]',
+            execute: async (args: string[]): Promise<void> => {
+              if (!this.postQueue) {
+                console.log('Post queue is not configured');
+                return;
+              }
+              const entries = await this.postQueue.getAuditTrail({ postId: args[0], limit: 20 });
+              if (!entries.length) {
+                console.log('No approval decisions recorded');
+                return;
+              }
+              entries.forEach(entry => {
+                const note = entry.note ? ` - ${entry.note}` : '';
+                console.log(`${new Date(entry.timestamp).toLocaleString()} ${entry.postId} ${entry.action} by ${entry.actor} (${entry.channel})${note}`);
+                if (entry.action === 'edited') {
+                  console.log(`  was: ${entry.previousContent}\n  now: ${entry.content}`);
+                }
+              });
             }
           }
         ]
@@ -200,13 +314,15 @@ interface MarketMetrics {
     chatService: ChatService, 
     twitterService: TwitterService,
     jupiterService: JupiterPriceV2Service,
-    aiService: AIService
+    aiService: AIService,
+    postQueue?: PostQueue
   ): void {
     const twitterCommands = new TwitterCommands(
       chatService,
       twitterService,
       jupiterService,
-      aiService
+      aiService,
+      postQueue
     );
     
     chatService.addCommands(twitterCommands.getTwitterCommands().commands || []);
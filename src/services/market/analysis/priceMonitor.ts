@@ -3,6 +3,9 @@ import { EventEmitter } from 'events';
 import { PublicKey } from '@solana/web3.js';
 import { AIService } from '../../ai/ai.js';
 import { MarketDataProcessor } from '../data/DataProcessor';
+import { Candle, CandleResolution, CandleStore, candleStore } from '../data/candleStore.js';
+import { PriceData } from '../../../types/market.js';
+import { IndicatorStream, IndicatorValues, indicatorWarmup } from '../signals/indicators.js';
 import { elizaLogger } from "@ai16z/eliza";
 
 export interface PricePoint {
@@ -45,6 +48,9 @@ export class PriceMonitor extends EventEmitter {
   private alerts: Map<string, PriceAlert>;
   private monitoredTokens: Set<string>;
   private updateIntervals: Map<string, NodeJS.Timeout>;
+  private candles: CandleStore;
+  private indicatorStreams: Map<string, IndicatorStream>;
+  private liveIndicators: Map<string, IndicatorValues>;
 
   private readonly PRICE_HISTORY_LIMIT = 1000;
   private readonly DEFAULT_UPDATE_INTERVAL = 10000; // 10 seconds
@@ -54,7 +60,8 @@ export class PriceMonitor extends EventEmitter {
 
   constructor(
     dataProcessor: MarketDataProcessor,
-    aiService: AIService
+    aiService: AIService,
+    candles: CandleStore = candleStore
   ) {
     super();
     this.dataProcessor = dataProcessor;
@@ -63,6 +70,24 @@ export class PriceMonitor extends EventEmitter {
     this.alerts = new Map();
     this.monitoredTokens = new Set();
     this.updateIntervals = new Map();
+    // Every observed price feeds the OHLCV candles
+    this.candles = candles;
+    this.candles.attachPriceMonitor(this);
+    // Indicators advance one closed candle at a time and are previewed on ticks
+    this.indicatorStreams = new Map();
+    this.liveIndicators = new Map();
+    this.candles.on('candleClosed', ({ token, resolution, candle }: {
+      token: string;
+      resolution: CandleResolution;
+      candle: Candle;
+    }) => {
+      const stream = this.indicatorStreams.get(token);
+      if (stream && resolution === this.dataProcessor.getCandleResolution()) {
+        stream.update(this.toBar(candle));
+        // The last preview ran before this candle was committed
+        this.liveIndicators.delete(token);
+      }
+    });
   }
 
   public async startMonitoring(
@@ -75,6 +100,10 @@ export class PriceMonitor extends EventEmitter {
         return;
       }
 
+      // Fill candle gaps left while we weren't running
+      await this.candles.backfill(tokenAddress);
+      await this.seedIndicators(tokenAddress);
+
       // Initialize with current data
       await this.addToken(tokenAddress);
       this.monitoredTokens.add(tokenAddress);
@@ -99,6 +128,8 @@ export class PriceMonitor extends EventEmitter {
       clearInterval(interval);
       this.updateIntervals.delete(tokenAddress);
       this.monitoredTokens.delete(tokenAddress);
+      this.indicatorStreams.delete(tokenAddress);
+      this.liveIndicators.delete(tokenAddress);
       elizaLogger.info(`Stopped monitoring ${tokenAddress}`);
     }
   }
@@ -165,6 +196,8 @@ export class PriceMonitor extends EventEmitter {
     // Analyze significant movements
     await this.analyzeMovement(tokenAddress, pricePoint);
 
+    this.updateIndicators(tokenAddress, pricePoint);
+
     // Emit update event
     this.emit('priceUpdated', { tokenAddress, pricePoint });
   }
@@ -299,6 +332,60 @@ export class PriceMonitor extends EventEmitter {
     };
   }
 
+  /**
+   * Indicator values including the latest tick, or null before the token
+   * has been seeded.
+   */
+  public getIndicators(tokenAddress: string): IndicatorValues | null {
+    return this.liveIndicators.get(tokenAddress) ||
+      this.indicatorStreams.get(tokenAddress)?.current() ||
+      null;
+  }
+
+  private async seedIndicators(tokenAddress: string): Promise<void> {
+    const stream = new IndicatorStream();
+    try {
+      const bars = await this.dataProcessor.getHistoricalPrices(
+        tokenAddress,
+        indicatorWarmup() + 1,
+        this.dataProcessor.getCandleResolution()
+      );
+      // The newest candle is still open; ticks preview it instead
+      bars.slice(0, -1).forEach(bar => stream.update(bar));
+    } catch (error) {
+      elizaLogger.warn(`Failed to seed indicators for ${tokenAddress}:`, error);
+    }
+    this.indicatorStreams.set(tokenAddress, stream);
+  }
+
+  private updateIndicators(tokenAddress: string, pricePoint: PricePoint): void {
+    const stream = this.indicatorStreams.get(tokenAddress);
+    if (!stream) return;
+
+    // PricePoint.volume is a 24h figure, so the forming bar carries none
+    const indicators = stream.preview({
+      price: pricePoint.price,
+      high: pricePoint.price,
+      low: pricePoint.price,
+      close: pricePoint.price,
+      volume: 0,
+      timestamp: pricePoint.timestamp
+    });
+    this.liveIndicators.set(tokenAddress, indicators);
+    this.emit('indicatorsUpdated', { tokenAddress, indicators });
+  }
+
+  private toBar(candle: Candle): PriceData {
+    return {
+      price: candle.close,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      timestamp: candle.timestamp
+    };
+  }
+
   private getPreviousPrice(tokenAddress: string): number | null {
     const history = this.priceHistory.get(tokenAddress);
     if (!history || history.length < 2) return null;
@@ -316,6 +403,8 @@ export class PriceMonitor extends EventEmitter {
     this.updateIntervals.forEach(interval => clearInterval(interval));
     this.updateIntervals.clear();
     this.monitoredTokens.clear();
+    this.indicatorStreams.clear();
+    this.liveIndicators.clear();
     elizaLogger.info('Price monitor cleaned up');
   }
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { inflateSync } from 'zlib';
+import { Candle } from '../../data/candleStore.js';
+import { DEFAULT_CHART_THEME, formatPrice, renderCandlestickChart, renderPieChart } from '../chartRenderer.js';
+
+const HOUR = 60 * 60 * 1000;
+
+// Decode the 8 bit RGB PNGs the renderer writes
+const decodePng = (png: Buffer) => {
+  expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  const chunks: Record<string, Buffer[]> = {};
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    (chunks[type] = chunks[type] || []).push(png.subarray(offset + 8, offset + 8 + length));
+    offset += length + 12;
+  }
+  const width = chunks.IHDR[0].readUInt32BE(0);
+  const height = chunks.IHDR[0].readUInt32BE(4);
+  const data = inflateSync(Buffer.concat(chunks.IDAT));
+  const pixel = (x: number, y: number) => {
+    const offset = y * (width * 3 + 1) + 1 + x * 3;
+    return '#' + [0, 1, 2].map(i => data[offset + i].toString(16).padStart(2, '0')).join('');
+  };
+  return { width, height, pixel, colors: (y: number) => new Set(Array.from({ length: width }, (_, x) => pixel(x, y))) };
+};
+
+const candles: Candle[] = Array.from({ length: 24 }, (_, i) => {
+  const open = 100 + i;
+  const close = i % 3 === 2 ? open - 2 : open + 1.5;
+  return { timestamp: i * HOUR, open, close, high: Math.max(open, close) + 1, low: Math.min(open, close) - 1, volume: 1000 + i * 50 };
+});
+
+describe('chartRenderer', () => {
+  test('renders candles, volume and markers as a PNG', () => {
+    const png = renderCandlestickChart({
+      title: 'SOL 1h',
+      candles,
+      markers: [
+        { timestamp: 5 * HOUR, type: 'buy', price: 104 },
+        { timestamp: 20 * HOUR, type: 'sell' }
+      ],
+      width: 800,
+      height: 450
+    });
+
+    const image = decodePng(png);
+    expect([image.width, image.height]).toEqual([800, 450]);
+    expect(image.pixel(0, 0)).toBe(DEFAULT_CHART_THEME.background);
+
+    // Up and down candles, their volume bars and both markers are drawn
+    const drawn = new Set(Array.from({ length: image.height }, (_, y) => [...image.colors(y)]).flat());
+    for (const color of ['up', 'down', 'buy', 'sell'] as const) {
+      expect(drawn.has(DEFAULT_CHART_THEME[color])).toBe(true);
+    }
+    expect(drawn.size).toBeGreaterThan(8);
+  });
+
+  test('renders a portfolio pie and rejects empty input', () => {
+    const image = decodePng(renderPieChart({
+      slices: [
+        { label: 'SOL', value: 750, color: '#ff0000' },
+        { label: 'BONK', value: 250, color: '#0000ff' },
+        { label: 'dust', value: 0 }
+      ],
+      width: 600,
+      height: 400
+    }));
+
+    // Slices go clockwise from twelve o'clock, 75% is the right three quarters
+    const cy = Math.round(64 + (400 - 64 - 36) / 2);
+    const radius = Math.floor(Math.min(400 - 64 - 36, (600 - 20 - 120) / 2) / 2) - 8;
+    const cx = 20 + radius + 24;
+    expect(image.pixel(cx + Math.round(radius / 2), cy)).toBe('#ff0000');
+    expect(image.pixel(cx - Math.round(radius / 2), cy - 10)).toBe('#0000ff');
+
+    expect(() => renderCandlestickChart({ candles: [] })).toThrow('at least one candle');
+    expect(() => renderPieChart({ slices: [{ label: 'SOL', value: 0 }] })).toThrow('positive slice');
+    expect([formatPrice(0.00001234), formatPrice(152.456), formatPrice(2_500_000)]).toEqual(['0.00001234', '152.46', '2.50M']);
+  });
+});
@@ -0,0 +1,381 @@
+// src/services/market/charts/chartRenderer.ts
+
+import type { Candle } from '../data/candleStore.js';
+import { ValidationError } from '../../../utils/error-handler.js';
+import { Color, Raster, mixColor } from './raster.js';
+
+export interface ChartTheme {
+  background: Color;
+  grid: Color;
+  text: Color;
+  mutedText: Color;
+  up: Color;
+  down: Color;
+  buy: Color;
+  sell: Color;
+  signal: Color;
+  /** Line series and pie slices without their own color, in order */
+  palette: Color[];
+}
+
+export const DEFAULT_CHART_THEME: ChartTheme = {
+  background: '#0d1117',
+  grid: '#21262d',
+  text: '#e6edf3',
+  mutedText: '#7d8590',
+  up: '#26a69a',
+  down: '#ef5350',
+  buy: '#3fb950',
+  sell: '#f85149',
+  signal: '#d29922',
+  palette: ['#58a6ff', '#f778ba', '#d29922', '#3fb950', '#a371f7', '#ff7b72', '#79c0ff', '#ffa657']
+};
+
+export type ChartMarkerType = 'buy' | 'sell' | 'signal';
+
+/**
+ * A trade, position entry or signal drawn on top of a price chart.
+ */
+export interface ChartMarker {
+  timestamp: number;
+  type: ChartMarkerType;
+  /** Defaults to the low of the bar for buys, the high for sells and the close for signals */
+  price?: number;
+  label?: string;
+}
+
+export interface ChartOptions {
+  title?: string;
+  width?: number;
+  height?: number;
+  theme?: Partial<ChartTheme>;
+}
+
+export interface CandlestickChartOptions extends ChartOptions {
+  candles: Candle[];
+  markers?: ChartMarker[];
+  /** Volume bars under the candles, on by default */
+  showVolume?: boolean;
+}
+
+export interface LineSeries {
+  label: string;
+  points: Array<{ timestamp: number; value: number }>;
+  color?: Color;
+}
+
+export interface LineChartOptions extends ChartOptions {
+  series: LineSeries[];
+  markers?: ChartMarker[];
+}
+
+export interface PieSlice {
+  label: string;
+  value: number;
+  color?: Color;
+}
+
+export interface PieChartOptions extends ChartOptions {
+  slices: PieSlice[];
+}
+
+// 16:9 renders without cropping in the timeline
+const DEFAULT_WIDTH = 1200;
+const DEFAULT_HEIGHT = 675;
+const PADDING = 20;
+const HEADER_HEIGHT = 64;
+const AXIS_WIDTH = 120;
+const TIME_AXIS_HEIGHT = 36;
+const GRID_LINES = 5;
+const TIME_LABELS = 6;
+const MARKER_SIZE = 10;
+
+interface Plot {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface Frame {
+  raster: Raster;
+  theme: ChartTheme;
+  plot: Plot;
+}
+
+/**
+ * Candlesticks with optional volume bars and trade or signal markers, as a PNG.
+ */
+export function renderCandlestickChart(options: CandlestickChartOptions): Buffer {
+  const candles = [...options.candles].sort((a, b) => a.timestamp - b.timestamp);
+  if (!candles.length) {
+    throw new ValidationError('A candlestick chart needs at least one candle');
+  }
+
+  const { raster, theme, plot } = createFrame(options);
+  const last = candles[candles.length - 1];
+  const change = candles[0].open ? ((last.close - candles[0].open) / candles[0].open) * 100 : 0;
+  const trend = last.close >= candles[0].open ? theme.up : theme.down;
+  drawHeadline(raster, theme, `$${formatPrice(last.close)}  ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`, trend);
+
+  const showVolume = (options.showVolume ?? true) && candles.some(candle => candle.volume > 0);
+  const volumeHeight = showVolume ? Math.round(plot.height * 0.2) : 0;
+  const pricePlot = { ...plot, height: plot.height - (showVolume ? volumeHeight + 8 : 0) };
+
+  const markers = (options.markers || []).filter(marker => marker.price === undefined || marker.price > 0);
+  const { min, max } = priceRange([
+    ...candles.flatMap(candle => [candle.low, candle.high]),
+    ...markers.map(marker => marker.price).filter((price): price is number => price !== undefined)
+  ]);
+  const yOf = scale(min, max, pricePlot);
+  drawPriceAxis(raster, theme, pricePlot, min, max);
+
+  const slot = plot.width / candles.length;
+  const bodyWidth = Math.max(1, Math.floor(slot * 0.6));
+  const xOf = (index: number) => plot.left + slot * (index + 0.5);
+
+  if (showVolume) {
+    const maxVolume = Math.max(...candles.map(candle => candle.volume));
+    const bottom = plot.top + plot.height;
+    candles.forEach((candle, i) => {
+      const height = Math.max(1, (candle.volume / maxVolume) * volumeHeight);
+      const color = mixColor(candle.close >= candle.open ? theme.up : theme.down, theme.background, 0.55);
+      raster.fillRect(Math.round(xOf(i) - bodyWidth / 2), bottom - height, bodyWidth, height, color);
+    });
+  }
+
+  candles.forEach((candle, i) => {
+    const color = candle.close >= candle.open ? theme.up : theme.down;
+    const x = Math.round(xOf(i));
+    raster.line(x, yOf(candle.high), x, yOf(candle.low), color);
+    const top = yOf(Math.max(candle.open, candle.close));
+    const bottom = yOf(Math.min(candle.open, candle.close));
+    raster.fillRect(Math.round(x - bodyWidth / 2), top, bodyWidth, Math.max(1, bottom - top), color);
+  });
+
+  drawTimeAxis(raster, theme, plot, candles.map(candle => candle.timestamp), xOf);
+  drawLastPrice(raster, theme, pricePlot, yOf(last.close), last.close, trend);
+
+  const interval = candles.length > 1 ? candles[1].timestamp - candles[0].timestamp : 0;
+  for (const marker of markers) {
+    if (marker.timestamp < candles[0].timestamp || marker.timestamp > last.timestamp + interval) continue;
+    const index = nearestIndex(candles.map(candle => candle.timestamp), marker.timestamp);
+    const candle = candles[index];
+    const price = marker.price ?? (marker.type === 'buy' ? candle.low : marker.type === 'sell' ? candle.high : candle.close);
+    drawMarker(raster, theme, marker, xOf(index), yOf(price));
+  }
+
+  return raster.toPng();
+}
+
+/**
+ * One or more series on a shared price scale, as a PNG.
+ */
+export function renderLineChart(options: LineChartOptions): Buffer {
+  const series = options.series
+    .map(line => ({ ...line, points: [...line.points].sort((a, b) => a.timestamp - b.timestamp) }))
+    .filter(line => line.points.length);
+  if (!series.length) {
+    throw new ValidationError('A line chart needs at least one point');
+  }
+
+  const { raster, theme, plot } = createFrame(options);
+  const colorOf = (i: number) => series[i].color || theme.palette[i % theme.palette.length];
+
+  const points = series.flatMap(line => line.points);
+  const markers = options.markers || [];
+  const { min, max } = priceRange([
+    ...points.map(point => point.value),
+    ...markers.map(marker => marker.price).filter((price): price is number => price !== undefined)
+  ]);
+  const yOf = scale(min, max, plot);
+  drawPriceAxis(raster, theme, plot, min, max);
+
+  const timestamps = [...new Set(points.map(point => point.timestamp))].sort((a, b) => a - b);
+  const start = timestamps[0];
+  const span = Math.max(1, timestamps[timestamps.length - 1] - start);
+  const xOfTime = (timestamp: number) => plot.left + ((timestamp - start) / span) * plot.width;
+  drawTimeAxis(raster, theme, plot, timestamps, i => xOfTime(timestamps[i]));
+
+  series.forEach((line, i) => {
+    const color = colorOf(i);
+    line.points.forEach((point, j) => {
+      if (j === 0) {
+        raster.fillRect(xOfTime(point.timestamp) - 1, yOf(point.value) - 1, 3, 3, color);
+        return;
+      }
+      const previous = line.points[j - 1];
+      raster.line(xOfTime(previous.timestamp), yOf(previous.value), xOfTime(point.timestamp), yOf(point.value), color, 2);
+    });
+  });
+
+  // Legend along the top of the plot
+  let legendX = plot.left + 8;
+  series.forEach((line, i) => {
+    raster.fillRect(legendX, plot.top + 8, 14, 14, colorOf(i));
+    raster.text(legendX + 22, plot.top + 8, line.label, theme.text, 2);
+    legendX += 22 + Raster.textWidth(line.label, 2) + 24;
+  });
+
+  const first = series[0].points;
+  for (const marker of markers) {
+    if (marker.timestamp < start || marker.timestamp > start + span) continue;
+    const price = marker.price ?? first[nearestIndex(first.map(point => point.timestamp), marker.timestamp)].value;
+    drawMarker(raster, theme, marker, xOfTime(marker.timestamp), yOf(price));
+  }
+
+  return raster.toPng();
+}
+
+/**
+ * Portfolio allocation as a pie with a percentage legend, as a PNG.
+ */
+export function renderPieChart(options: PieChartOptions): Buffer {
+  const slices = options.slices.filter(slice => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  if (!total) {
+    throw new ValidationError('A pie chart needs at least one positive slice');
+  }
+
+  const { raster, theme, plot } = createFrame(options);
+  const radius = Math.floor(Math.min(plot.height, plot.width / 2) / 2) - 8;
+  const cx = plot.left + radius + 24;
+  const cy = plot.top + plot.height / 2;
+
+  let angle = 0;
+  slices.forEach((slice, i) => {
+    const color = slice.color || theme.palette[i % theme.palette.length];
+    const sweep = (slice.value / total) * Math.PI * 2;
+    raster.fillSector(cx, cy, radius, angle, angle + sweep, color);
+    angle += sweep;
+
+    const rowY = plot.top + 16 + i * 36;
+    if (rowY + 20 > plot.top + plot.height) return;
+    const legendX = cx + radius + 64;
+    raster.fillRect(legendX, rowY, 20, 20, color);
+    raster.text(legendX + 32, rowY + 3, slice.label, theme.text, 2);
+    raster.text(raster.width - PADDING, rowY + 3, `${((slice.value / total) * 100).toFixed(1)}%`, theme.mutedText, 2, 'right');
+  });
+
+  drawHeadline(raster, theme, `$${formatPrice(total)}`, theme.text);
+  return raster.toPng();
+}
+
+/**
+ * Price label that stays short on the axis, from meme coin fractions to
+ * billions.
+ */
+export function formatPrice(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  if (abs >= 1) return value.toFixed(2);
+  if (abs === 0) return '0';
+  if (abs < 1e-6) return value.toExponential(2);
+  return Number(value.toPrecision(4)).toString();
+}
+
+function createFrame(options: ChartOptions): Frame {
+  const theme = { ...DEFAULT_CHART_THEME, ...options.theme };
+  const raster = new Raster(options.width ?? DEFAULT_WIDTH, options.height ?? DEFAULT_HEIGHT, theme.background);
+  if (options.title) {
+    raster.text(PADDING, PADDING, options.title, theme.text, 3);
+  }
+  return {
+    raster,
+    theme,
+    plot: {
+      left: PADDING,
+      top: HEADER_HEIGHT,
+      width: raster.width - PADDING - AXIS_WIDTH,
+      height: raster.height - HEADER_HEIGHT - TIME_AXIS_HEIGHT
+    }
+  };
+}
+
+function drawHeadline(raster: Raster, theme: ChartTheme, text: string, color: Color): void {
+  raster.text(raster.width - PADDING, PADDING, text, color, 3, 'right');
+}
+
+function priceRange(values: number[]): { min: number; max: number } {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // Flat series still get a visible range
+  const pad = min === max ? Math.abs(min) * 0.01 || 1 : (max - min) * 0.05;
+  return { min: min - pad, max: max + pad };
+}
+
+function scale(min: number, max: number, plot: Plot): (value: number) => number {
+  return value => Math.round(plot.top + ((max - value) / (max - min)) * plot.height);
+}
+
+function drawPriceAxis(raster: Raster, theme: ChartTheme, plot: Plot, min: number, max: number): void {
+  const right = plot.left + plot.width;
+  for (let i = 0; i <= GRID_LINES; i++) {
+    const value = max - ((max - min) * i) / GRID_LINES;
+    const y = Math.round(plot.top + (plot.height * i) / GRID_LINES);
+    raster.line(plot.left, y, right, y, theme.grid, 1, 4);
+    raster.text(right + 10, y - Raster.textHeight(2) / 2, formatPrice(value), theme.mutedText, 2);
+  }
+}
+
+function drawTimeAxis(
+  raster: Raster,
+  theme: ChartTheme,
+  plot: Plot,
+  timestamps: number[],
+  xOf: (index: number) => number
+): void {
+  const span = timestamps[timestamps.length - 1] - timestamps[0];
+  const format = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return span > 2 * 24 * 60 * 60 * 1000
+      ? `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}`
+      : `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+  };
+
+  const step = Math.max(1, Math.ceil(timestamps.length / TIME_LABELS));
+  const y = plot.top + plot.height + 12;
+  for (let i = 0; i < timestamps.length; i += step) {
+    const x = Math.round(xOf(i));
+    raster.line(x, plot.top, x, plot.top + plot.height, theme.grid, 1, 4);
+    const label = format(timestamps[i]);
+    // Keep the first label inside the image
+    raster.text(Math.max(x, PADDING + Raster.textWidth(label, 2) / 2), y, label, theme.mutedText, 2, 'center');
+  }
+}
+
+function drawLastPrice(raster: Raster, theme: ChartTheme, plot: Plot, y: number, price: number, color: Color): void {
+  const right = plot.left + plot.width;
+  raster.line(plot.left, y, right, y, color, 1, 6);
+  const height = Raster.textHeight(2) + 8;
+  raster.fillRect(right + 4, y - height / 2, AXIS_WIDTH - 8, height, color);
+  raster.text(right + 10, y - Raster.textHeight(2) / 2, formatPrice(price), theme.background, 2);
+}
+
+function drawMarker(raster: Raster, theme: ChartTheme, marker: ChartMarker, x: number, y: number): void {
+  const x0 = Math.round(x);
+  const labelHeight = Raster.textHeight(2);
+  if (marker.type === 'buy') {
+    // Arrow under the bar pointing up at the entry
+    raster.fillArrow(x0, y + 4, MARKER_SIZE, 'up', theme.buy);
+    if (marker.label) raster.text(x0, y + MARKER_SIZE + 10, marker.label, theme.buy, 2, 'center');
+  } else if (marker.type === 'sell') {
+    raster.fillArrow(x0, y - 4, MARKER_SIZE, 'down', theme.sell);
+    if (marker.label) raster.text(x0, y - MARKER_SIZE - 10 - labelHeight, marker.label, theme.sell, 2, 'center');
+  } else {
+    raster.fillCircle(x0, y, MARKER_SIZE / 2 + 1, theme.background);
+    raster.fillCircle(x0, y, MARKER_SIZE / 2 - 1, theme.signal);
+    if (marker.label) raster.text(x0 + MARKER_SIZE, y - labelHeight / 2, marker.label, theme.signal, 2);
+  }
+}
+
+function nearestIndex(timestamps: number[], timestamp: number): number {
+  let best = 0;
+  timestamps.forEach((value, i) => {
+    if (Math.abs(value - timestamp) < Math.abs(timestamps[best] - timestamp)) best = i;
+  });
+  return best;
+}
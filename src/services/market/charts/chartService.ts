@@ -0,0 +1,114 @@
+// src/services/market/charts/chartService.ts
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { elizaLogger } from "@ai16z/eliza";
+import { candleStore, CandleResolution, CandleStore } from '../data/candleStore.js';
+import { signalPerformance, SignalPerformanceTracker } from '../signals/signalPerformance.js';
+import {
+  ChartMarker,
+  PieSlice,
+  renderCandlestickChart,
+  renderPieChart
+} from './chartRenderer.js';
+
+export interface TokenChartOptions {
+  resolution?: CandleResolution;
+  count?: number;
+  title?: string;
+  /** Trades or positions to draw, on top of the recorded signals for the token */
+  markers?: ChartMarker[];
+  /** Draw the token's recorded buy and sell signals, on by default */
+  includeSignals?: boolean;
+}
+
+export interface ChartServiceOptions {
+  outputDir?: string;
+  candles?: Pick<CandleStore, 'getCandles'>;
+  signals?: Pick<SignalPerformanceTracker, 'getOutcomes'>;
+}
+
+/**
+ * Renders charts to PNG files that tweets, Discord embeds and Telegram
+ * replies can attach.
+ */
+export class ChartService {
+  private readonly outputDir: string;
+  private readonly candles: Pick<CandleStore, 'getCandles'>;
+  private readonly signals: Pick<SignalPerformanceTracker, 'getOutcomes'>;
+  private readonly MAX_FILE_AGE = 24 * 60 * 60 * 1000; // Charts are only needed until they are posted
+  private readonly MIN_CANDLES = 2;
+
+  constructor(options: ChartServiceOptions = {}) {
+    this.outputDir = options.outputDir || process.env.CHART_OUTPUT_DIR || join(tmpdir(), 'meme-agent-charts');
+    this.candles = options.candles || candleStore;
+    this.signals = options.signals || signalPerformance;
+  }
+
+  /**
+   * Candlestick chart of a token's recent candles. Resolves to null when
+   * there is not enough history to draw.
+   */
+  public async renderTokenChart(token: string, options: TokenChartOptions = {}): Promise<string | null> {
+    const resolution = options.resolution || '1h';
+    const candles = await this.candles.getCandles(token, resolution, options.count ?? 48);
+    if (candles.length < this.MIN_CANDLES) {
+      elizaLogger.warn(`Not enough ${resolution} candles to chart ${token}`);
+      return null;
+    }
+
+    const markers = [...(options.markers || [])];
+    if (options.includeSignals ?? true) {
+      markers.push(...(await this.getSignalMarkers(token)));
+    }
+
+    const png = renderCandlestickChart({
+      title: options.title || `${token.length > 12 ? `${token.slice(0, 4)}...${token.slice(-4)}` : token} ${resolution}`,
+      candles,
+      markers
+    });
+    return this.save(png, `${token}-${resolution}`);
+  }
+
+  public async renderPortfolioChart(slices: PieSlice[], title = 'Portfolio'): Promise<string> {
+    return this.save(renderPieChart({ title, slices }), 'portfolio');
+  }
+
+  /**
+   * Write a PNG to the output directory and return its path.
+   */
+  public async save(png: Buffer, name: string): Promise<string> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await this.prune();
+    const file = join(this.outputDir, `${name.replace(/[^a-zA-Z0-9_-]+/g, '-')}-${Date.now()}.png`);
+    await fs.writeFile(file, png);
+    return file;
+  }
+
+  private async getSignalMarkers(token: string): Promise<ChartMarker[]> {
+    try {
+      return (await this.signals.getOutcomes())
+        .filter(outcome => outcome.token === token)
+        .map(outcome => ({ timestamp: outcome.emittedAt, type: outcome.action, price: outcome.entryPrice }));
+    } catch (error) {
+      elizaLogger.warn(`Failed to load signals for ${token}:`, error);
+      return [];
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.MAX_FILE_AGE;
+    for (const file of await fs.readdir(this.outputDir)) {
+      if (!file.endsWith('.png')) continue;
+      const path = join(this.outputDir, file);
+      try {
+        if ((await fs.stat(path)).mtimeMs < cutoff) await fs.unlink(path);
+      } catch {
+        // Another process got there first
+      }
+    }
+  }
+}
+
+export const chartService = new ChartService();
@@ -0,0 +1,272 @@
+// src/services/market/charts/raster.ts
+
+import { deflateSync } from 'zlib';
+
+/** `#rrggbb` */
+export type Color = string;
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+
+// 5x7 glyphs, one number per row with the leftmost pixel in bit 4. Letters
+// are upper case only, text is upper cased before drawing.
+const GLYPHS: Record<string, number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  'A': [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  'G': [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  'H': [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'I': [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  'J': [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  'K': [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  'L': [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  'M': [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  'N': [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  'O': [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'P': [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  'Q': [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  'R': [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'V': [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  'W': [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  'X': [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  'Y': [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  'Z': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  ' ': [0, 0, 0, 0, 0, 0, 0],
+  '.': [0, 0, 0, 0, 0, 0x0c, 0x0c],
+  ',': [0, 0, 0, 0, 0x0c, 0x04, 0x08],
+  ':': [0, 0x0c, 0x0c, 0, 0x0c, 0x0c, 0],
+  '-': [0, 0, 0, 0x1f, 0, 0, 0],
+  '+': [0, 0x04, 0x04, 0x1f, 0x04, 0x04, 0],
+  '/': [0, 0x01, 0x02, 0x04, 0x08, 0x10, 0],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  '$': [0x04, 0x0f, 0x14, 0x0e, 0x05, 0x1e, 0x04],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  "'": [0x0c, 0x04, 0x08, 0, 0, 0, 0],
+  '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0, 0x04],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0, 0x04],
+  '=': [0, 0, 0x1f, 0, 0x1f, 0, 0],
+  '_': [0, 0, 0, 0, 0, 0, 0x1f],
+  '<': [0x02, 0x04, 0x08, 0x10, 0x08, 0x04, 0x02],
+  '>': [0x08, 0x04, 0x02, 0x01, 0x02, 0x04, 0x08],
+  '@': [0x0e, 0x11, 0x01, 0x0d, 0x15, 0x15, 0x0e],
+  '&': [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+  '*': [0, 0x04, 0x15, 0x0e, 0x15, 0x04, 0]
+};
+
+export function parseColor(color: Color): [number, number, number] {
+  const hex = color.replace('#', '');
+  const value = parseInt(hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex, 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Mix two colors, `amount` 0 keeps `color` and 1 gives `other`.
+ */
+export function mixColor(color: Color, other: Color, amount: number): Color {
+  const a = parseColor(color);
+  const b = parseColor(other);
+  return '#' + a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * amount).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * An RGB pixel buffer with the few primitives the charts need.
+ */
+export class Raster {
+  public readonly pixels: Buffer;
+
+  constructor(public readonly width: number, public readonly height: number, background: Color = '#000000') {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  public setPixel(x: number, y: number, color: Color): void {
+    x = Math.round(x);
+    y = Math.round(y);
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const [r, g, b] = parseColor(color);
+    const offset = (y * this.width + x) * 3;
+    this.pixels[offset] = r;
+    this.pixels[offset + 1] = g;
+    this.pixels[offset + 2] = b;
+  }
+
+  public getPixel(x: number, y: number): Color {
+    const offset = (y * this.width + x) * 3;
+    return '#' + [0, 1, 2].map(i => this.pixels[offset + i].toString(16).padStart(2, '0')).join('');
+  }
+
+  public fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+    const [r, g, b] = parseColor(color);
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        const offset = (py * this.width + px) * 3;
+        this.pixels[offset] = r;
+        this.pixels[offset + 1] = g;
+        this.pixels[offset + 2] = b;
+      }
+    }
+  }
+
+  /**
+   * Straight line, `dash` draws that many pixels on and off.
+   */
+  public line(x0: number, y0: number, x1: number, y1: number, color: Color, thickness = 1, dash = 0): void {
+    const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+    const offset = Math.floor((thickness - 1) / 2);
+    for (let i = 0; i <= steps; i++) {
+      if (dash > 0 && Math.floor(i / dash) % 2 === 1) continue;
+      const x = Math.round(x0 + ((x1 - x0) * i) / steps);
+      const y = Math.round(y0 + ((y1 - y0) * i) / steps);
+      this.fillRect(x - offset, y - offset, thickness, thickness, color);
+    }
+  }
+
+  public fillCircle(cx: number, cy: number, radius: number, color: Color): void {
+    this.fillSector(cx, cy, radius, 0, Math.PI * 2, color);
+  }
+
+  /**
+   * Pie wedge from `start` to `end` radians, clockwise from twelve o'clock.
+   */
+  public fillSector(cx: number, cy: number, radius: number, start: number, end: number, color: Color): void {
+    const full = end - start >= Math.PI * 2;
+    for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+      for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+        const dx = x - cx;
+        const dy = y - cy;
+        if (dx * dx + dy * dy > radius * radius) continue;
+        if (!full) {
+          const angle = (Math.atan2(dx, -dy) + Math.PI * 2) % (Math.PI * 2);
+          if (angle < start || angle >= end) continue;
+        }
+        this.setPixel(x, y, color);
+      }
+    }
+  }
+
+  /**
+   * Triangle with its tip at (x, y), pointing up or down.
+   */
+  public fillArrow(x: number, y: number, size: number, direction: 'up' | 'down', color: Color): void {
+    for (let row = 0; row <= size; row++) {
+      const py = direction === 'up' ? y + row : y - row;
+      const half = Math.round(row * 0.6);
+      this.fillRect(x - half, py, half * 2 + 1, 1, color);
+    }
+  }
+
+  /**
+   * Draw text with the bitmap font, `y` is the top of the glyphs.
+   */
+  public text(x: number, y: number, text: string, color: Color, scale = 2, align: TextAlign = 'left'): void {
+    const chars = text.toUpperCase().split('');
+    const width = Raster.textWidth(text, scale);
+    let cursor = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    cursor = Math.round(cursor);
+
+    for (const char of chars) {
+      const glyph = GLYPHS[char] || GLYPHS['?'];
+      glyph.forEach((row, gy) => {
+        for (let gx = 0; gx < GLYPH_WIDTH; gx++) {
+          if (row & (1 << (GLYPH_WIDTH - 1 - gx))) {
+            this.fillRect(cursor + gx * scale, y + gy * scale, scale, scale, color);
+          }
+        }
+      });
+      cursor += (GLYPH_WIDTH + 1) * scale;
+    }
+  }
+
+  public static textWidth(text: string, scale = 2): number {
+    return text.length ? (text.length * (GLYPH_WIDTH + 1) - 1) * scale : 0;
+  }
+
+  public static textHeight(scale = 2): number {
+    return GLYPH_HEIGHT * scale;
+  }
+
+  public toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode 8 bit RGB pixels as a PNG.
+ */
+export function encodePng(width: number, height: number, rgb: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor
+  header[10] = 0; // deflate
+  header[11] = 0; // adaptive filtering
+  header[12] = 0; // no interlace
+
+  // Every scanline starts with its filter type, 0 leaves the row as is
+  const stride = width * 3;
+  const scanlines = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgb.copy(scanlines, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(scanlines)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
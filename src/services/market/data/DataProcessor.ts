@@ -10,6 +10,7 @@ import { PriceData } from '../../../types/market.js';
 import { TokenProvider } from '../../../providers/token.js';
 import { WalletProvider } from '../../../providers/wallet.js';
 import { RedisService } from './RedisCache.js';
+import { CandleResolution, CandleStore, RESOLUTION_MS, candleStore } from './candleStore.js';
 import { Connection, PublicKey } from '@solana/web3.js';
 import bs58 from 'bs58';
 
@@ -47,6 +48,8 @@ export class MarketDataProcessor {
   private readonly heliusService: HeliusService;
   private readonly jupiterService: JupiterPriceV2Service;
   private readonly jupiterV2: JupiterPriceV2;
+  private readonly candles: CandleStore;
+  private readonly candleResolution: CandleResolution;
   
   private readonly CACHE_PREFIX = 'market:';
   private readonly DEFAULT_CACHE_TTL = 60; // 1 minute
@@ -60,12 +63,16 @@ export class MarketDataProcessor {
   constructor(
     heliusApiKey: string,
     _jupiterPriceUrl: string,
-    _defaultPublicKey: string = process.env.SOLANA_PUBLIC_KEY?.trim() || 'C7DjuqwXZ2kZ2D9RMDXv5HjiR7PVkLFJgnX7PKraPDaM' // Default public key parameter
+    _defaultPublicKey: string = process.env.SOLANA_PUBLIC_KEY?.trim() || 'C7DjuqwXZ2kZ2D9RMDXv5HjiR7PVkLFJgnX7PKraPDaM', // Default public key parameter
+    candles: CandleStore = candleStore
   ) {
     this.redis = this.configureRedis();
     this.heliusService = new HeliusService(heliusApiKey);
     this.jupiterService = this.configureJupiterService();
     this.jupiterV2 = new JupiterPriceV2();
+    this.candles = candles;
+    const resolution = process.env.CANDLE_RESOLUTION as CandleResolution;
+    this.candleResolution = resolution in RESOLUTION_MS ? resolution : '1h';
 
     console.log('SOLANA_PUBLIC_KEY:', process.env.SOLANA_PUBLIC_KEY);
 
@@ -260,17 +267,46 @@ export class MarketDataProcessor {
     return marketData.price;
   }
 
-  public async getHistoricalPrices(_token: string, _window: number): Promise<PriceData[]> {
-    return [];
+  /**
+   * The last `window` candles for a token, oldest first. Resolution defaults
+   * to CANDLE_RESOLUTION (1h).
+   */
+  public async getHistoricalPrices(
+    token: string,
+    window: number,
+    resolution: CandleResolution = this.candleResolution
+  ): Promise<PriceData[]> {
+    try {
+      const candles = await this.candles.getCandles(token, resolution, window);
+      return candles.map(candle => ({
+        price: candle.close,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+        timestamp: candle.timestamp
+      }));
+    } catch (error) {
+      elizaLogger.error(`Error fetching historical prices for ${token}:`, error);
+      return [];
+    }
+  }
+
+  public getCandleResolution(): CandleResolution {
+    return this.candleResolution;
   }
 
   public async getAverageVolatility(token: string): Promise<number> {
-    const window = 30; // Example window size of 30 days
-    return await this.calculateAverageVolatility(token, window);
+    const window = 30; // 30 daily candles
+    return await this.calculateAverageVolatility(token, window, '1d');
   }
 
-  public async calculateAverageVolatility(tokenAddress: string, window: number): Promise<number> {
-    const historicalPrices = await this.getHistoricalPrices(tokenAddress, window);
+  public async calculateAverageVolatility(
+    tokenAddress: string,
+    window: number,
+    resolution: CandleResolution = this.candleResolution
+  ): Promise<number> {
+    const historicalPrices = await this.getHistoricalPrices(tokenAddress, window, resolution);
     if (historicalPrices.length < 2) return 0;
 
     let sumVolatility = 0;
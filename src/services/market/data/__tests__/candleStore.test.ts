@@ -0,0 +1,155 @@
+import { describe, test, expect } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { Candle, CandleResolution, CandleStorage, CandleStore } from '../candleStore.js';
+import type { PriceMonitor } from '../../analysis/priceMonitor.js';
+
+const TOKEN = 'So11111111111111111111111111111111111111112';
+const MINUTE = 60 * 1000;
+
+const memoryStorage = (): CandleStorage & { candles: Map<string, Candle[]> } => {
+  const candles = new Map<string, Candle[]>();
+  const list = (token: string, resolution: CandleResolution) => candles.get(`${token}:${resolution}`) || [];
+  return {
+    candles,
+    async upsert(token, resolution, updates) {
+      const merged = list(token, resolution).filter(c => !updates.some(u => u.timestamp === c.timestamp));
+      candles.set(`${token}:${resolution}`, [...merged, ...updates].sort((a, b) => a.timestamp - b.timestamp));
+    },
+    async range(token, resolution, from, to) {
+      return list(token, resolution).filter(c => c.timestamp >= from && c.timestamp <= to);
+    },
+    async latest(token, resolution) {
+      return list(token, resolution).slice(-1)[0] || null;
+    },
+    async prune(token, resolution, before) {
+      candles.set(`${token}:${resolution}`, list(token, resolution).filter(c => c.timestamp >= before));
+    }
+  };
+};
+
+describe('CandleStore', () => {
+  test('aggregates ticks into OHLCV buckets per resolution', async () => {
+    const storage = memoryStorage();
+    const store = new CandleStore({ storage, backfillSource: null, resolutions: ['1m', '5m'] });
+    const start = Math.floor(Date.now() / (5 * MINUTE)) * 5 * MINUTE - 5 * MINUTE;
+
+    const closed: Candle[] = [];
+    store.on('candleClosed', ({ resolution, candle }) => {
+      if (resolution === '1m') closed.push(candle);
+    });
+
+    await store.addTick({ token: TOKEN, price: 100, volume: 1, timestamp: start + 1000 });
+    await store.addTick({ token: TOKEN, price: 104, volume: 2, timestamp: start + 20000 });
+    await store.addTick({ token: TOKEN, price: 98, timestamp: start + 40000 });
+    await store.addTick({ token: TOKEN, price: 101, volume: 1, timestamp: start + MINUTE + 1000 });
+
+    const minutes = await store.getCandles(TOKEN, '1m', 10);
+    expect(minutes).toHaveLength(2);
+    expect(minutes[0]).toEqual({ timestamp: start, open: 100, high: 104, low: 98, close: 98, volume: 3 });
+    expect(minutes[1].open).toBe(101);
+    expect(closed).toHaveLength(1);
+
+    const [fiveMinutes] = await store.getCandles(TOKEN, '5m', 2);
+    expect(fiveMinutes).toEqual({ timestamp: start, open: 100, high: 104, low: 98, close: 101, volume: 4 });
+  });
+
+  test('closes buckets once their time has passed and ignores late ticks', async () => {
+    const storage = memoryStorage();
+    const store = new CandleStore({ storage, backfillSource: null, resolutions: ['1m'] });
+    const start = Math.floor(Date.now() / MINUTE) * MINUTE - 2 * MINUTE;
+    const closed: Candle[] = [];
+    store.on('candleClosed', ({ candle }) => closed.push(candle));
+
+    await store.addTick({ token: TOKEN, price: 100, timestamp: start + 1000 });
+    store.closeExpired(start + MINUTE - 1);
+    expect(closed).toEqual([]);
+
+    // No later tick is needed to close the bucket
+    store.closeExpired(start + MINUTE);
+    expect(closed.map(candle => candle.timestamp)).toEqual([start]);
+
+    await store.addTick({ token: TOKEN, price: 90, timestamp: start + 30000 });
+    expect((await store.getCandles(TOKEN, '1m', 5)).map(candle => candle.close)).toEqual([100]);
+  });
+
+  test('records each price once however often a monitor is attached', async () => {
+    const storage = memoryStorage();
+    const store = new CandleStore({ storage, backfillSource: null, resolutions: ['1m'] });
+    const monitor = new EventEmitter() as unknown as PriceMonitor;
+    store.attachPriceMonitor(monitor);
+    store.attachPriceMonitor(monitor);
+    // A second monitor sees the same price point
+    const other = new EventEmitter() as unknown as PriceMonitor;
+    store.attachPriceMonitor(other);
+
+    const ticks: number[] = [];
+    const addTick = store.addTick.bind(store);
+    store.addTick = async tick => {
+      ticks.push(tick.price);
+      return addTick(tick);
+    };
+
+    try {
+      const pricePoint = { price: 5, volume: 100, timestamp: Date.now() };
+      monitor.emit('priceUpdated', { tokenAddress: TOKEN, pricePoint });
+      other.emit('priceUpdated', { tokenAddress: TOKEN, pricePoint });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(ticks).toEqual([5, 5]);
+      const [candle] = await store.getCandles(TOKEN, '1m', 1);
+      expect(candle).toMatchObject({ open: 5, close: 5, volume: 0 });
+      expect(storage.candles.get(`${TOKEN}:1m`)).toHaveLength(1);
+    } finally {
+      store.stop();
+    }
+  });
+
+  test('keeps a stored candle it could not load instead of starting it afresh', async () => {
+    const storage = memoryStorage();
+    const start = Math.floor(Date.now() / MINUTE) * MINUTE;
+    await storage.upsert(TOKEN, '1m', [{ timestamp: start, open: 90, high: 110, low: 90, close: 100, volume: 7 }]);
+
+    const range = storage.range;
+    let failures = 1;
+    storage.range = async (...args) => {
+      if (failures-- > 0) throw new Error('redis down');
+      return range(...args);
+    };
+    const store = new CandleStore({ storage, backfillSource: null, resolutions: ['1m'] });
+
+    await store.addTick({ token: TOKEN, price: 50, timestamp: start + 1000 });
+    expect(storage.candles.get(`${TOKEN}:1m`)).toEqual([
+      { timestamp: start, open: 90, high: 110, low: 90, close: 100, volume: 7 }
+    ]);
+
+    await store.addTick({ token: TOKEN, price: 120, timestamp: start + 2000 });
+    expect(storage.candles.get(`${TOKEN}:1m`)).toEqual([
+      { timestamp: start, open: 90, high: 120, low: 90, close: 120, volume: 7 }
+    ]);
+  });
+
+  test('backfills from the newest stored candle', async () => {
+    const storage = memoryStorage();
+    const requests: number[] = [];
+    const now = Math.floor(Date.now() / MINUTE) * MINUTE;
+    await storage.upsert(TOKEN, '1m', [
+      { timestamp: now - 3 * MINUTE, open: 1, high: 1, low: 1, close: 1, volume: 0 }
+    ]);
+
+    const store = new CandleStore({
+      storage,
+      resolutions: ['1m'],
+      backfillSource: {
+        async fetchCandles(_token, _resolution, from) {
+          requests.push(from);
+          return [1, 2].map(i => ({ timestamp: now - (3 - i) * MINUTE, open: 2, high: 2, low: 2, close: 2, volume: 5 }));
+        }
+      }
+    });
+    await store.backfill(TOKEN);
+
+    expect(requests).toEqual([now - 3 * MINUTE]);
+    const candles = await store.getCandles(TOKEN, '1m', 4);
+    expect(candles.map(c => c.close)).toEqual([1, 2, 2]);
+  });
+});
@@ -0,0 +1,402 @@
+// src/services/market/data/candleStore.ts
+
+import { EventEmitter } from 'events';
+import axios from 'axios';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import type { JupiterPriceV2 } from '../../blockchain/defi/jupiterPriceV2.js';
+import type { PriceMonitor, PricePoint } from '../analysis/priceMonitor.js';
+
+export type CandleResolution = '1m' | '5m' | '1h' | '1d';
+
+export const CANDLE_RESOLUTIONS: CandleResolution[] = ['1m', '5m', '1h', '1d'];
+
+export const RESOLUTION_MS: Record<CandleResolution, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+/** How long candles are kept per resolution */
+export const DEFAULT_RETENTION_MS: Record<CandleResolution, number> = {
+  '1m': 2 * 24 * 60 * 60 * 1000, // 2 days
+  '5m': 14 * 24 * 60 * 60 * 1000, // 2 weeks
+  '1h': 180 * 24 * 60 * 60 * 1000, // ~6 months
+  '1d': 2 * 365 * 24 * 60 * 60 * 1000 // 2 years
+};
+
+export interface Candle {
+  /** Start of the bucket */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface PriceTick {
+  token: string;
+  price: number;
+  /** Traded volume since the previous tick, when the source knows it */
+  volume?: number;
+  timestamp: number;
+}
+
+export interface CandleStorage {
+  /** Insert or replace the candle starting at `candle.timestamp` */
+  upsert(token: string, resolution: CandleResolution, candles: Candle[]): Promise<void>;
+  /** Candles with from <= timestamp <= to, oldest first */
+  range(token: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]>;
+  latest(token: string, resolution: CandleResolution): Promise<Candle | null>;
+  prune(token: string, resolution: CandleResolution, before: number): Promise<void>;
+}
+
+/**
+ * Candles in one sorted set per token and resolution, scored by bucket start.
+ */
+export class RedisCandleStorage implements CandleStorage {
+  private readonly prefix: string;
+
+  constructor(prefix = 'candles') {
+    this.prefix = prefix;
+  }
+
+  public async upsert(token: string, resolution: CandleResolution, candles: Candle[]): Promise<void> {
+    if (!candles.length) return;
+
+    const key = this.key(token, resolution);
+    const pipeline = redisService.client.pipeline();
+    for (const candle of candles) {
+      pipeline.zremrangebyscore(key, candle.timestamp, candle.timestamp);
+      pipeline.zadd(key, candle.timestamp, JSON.stringify(candle));
+    }
+    await pipeline.exec();
+  }
+
+  public async range(token: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+    const members = await redisService.client.zrangebyscore(this.key(token, resolution), from, to);
+    return members.map((member: string) => JSON.parse(member) as Candle);
+  }
+
+  public async latest(token: string, resolution: CandleResolution): Promise<Candle | null> {
+    const [member] = await redisService.client.zrevrange(this.key(token, resolution), 0, 0);
+    return member ? JSON.parse(member) as Candle : null;
+  }
+
+  public async prune(token: string, resolution: CandleResolution, before: number): Promise<void> {
+    await redisService.client.zremrangebyscore(this.key(token, resolution), '-inf', `(${before}`);
+  }
+
+  private key(token: string, resolution: CandleResolution): string {
+    return `${this.prefix}:${token}:${resolution}`;
+  }
+}
+
+/**
+ * Historical bars used to fill gaps, e.g. after a restart.
+ */
+export interface CandleBackfillSource {
+  fetchCandles(token: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]>;
+}
+
+export class BirdeyeCandleSource implements CandleBackfillSource {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly TYPES: Record<CandleResolution, string> = {
+    '1m': '1m',
+    '5m': '5m',
+    '1h': '1H',
+    '1d': '1D'
+  };
+
+  constructor(apiKey: string = process.env.BIRDEYE_API_KEY || '', baseUrl: string = 'https://public-api.birdeye.so') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  public async fetchCandles(token: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]> {
+    if (!this.apiKey) return [];
+
+    const response = await axios.get(`${this.baseUrl}/defi/ohlcv`, {
+      headers: { 'X-API-KEY': this.apiKey, 'x-chain': 'solana' },
+      params: {
+        address: token,
+        type: this.TYPES[resolution],
+        time_from: Math.floor(from / 1000),
+        time_to: Math.floor(to / 1000)
+      }
+    });
+
+    const items: Array<{ unixTime: number; o: number; h: number; l: number; c: number; v: number }> =
+      response.data?.data?.items || [];
+    return items.map(item => ({
+      timestamp: item.unixTime * 1000,
+      open: item.o,
+      high: item.h,
+      low: item.l,
+      close: item.c,
+      volume: item.v
+    }));
+  }
+}
+
+export interface CandleStoreOptions {
+  storage?: CandleStorage;
+  backfillSource?: CandleBackfillSource | null;
+  resolutions?: CandleResolution[];
+  retention?: Partial<Record<CandleResolution, number>>;
+}
+
+/**
+ * Aggregates price ticks into OHLCV candles at several resolutions. The
+ * open bucket is written through on every tick so readers always see it,
+ * and is closed by a timer once its time has passed.
+ */
+export class CandleStore extends EventEmitter {
+  private readonly storage: CandleStorage;
+  private readonly backfillSource: CandleBackfillSource | null;
+  private readonly resolutions: CandleResolution[];
+  private readonly retention: Record<CandleResolution, number>;
+  private readonly openCandles: Map<string, Candle>;
+  /** Start of the last closed bucket per token and resolution */
+  private readonly closedBuckets: Map<string, number>;
+  /** Timestamp of the last recorded tick per token */
+  private readonly lastTicks: Map<string, number>;
+  private readonly pollers: Map<string, NodeJS.Timeout>;
+  private readonly monitors = new WeakSet<PriceMonitor>();
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private closeTimer: NodeJS.Timeout | null = null;
+
+  private readonly PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+  private readonly CLOSE_INTERVAL = 1000; // 1 second
+  private readonly DEFAULT_POLL_INTERVAL = 10000; // 10 seconds
+
+  constructor(options: CandleStoreOptions = {}) {
+    super();
+    this.storage = options.storage || new RedisCandleStorage();
+    this.backfillSource = options.backfillSource === undefined ? new BirdeyeCandleSource() : options.backfillSource;
+    this.resolutions = options.resolutions || CANDLE_RESOLUTIONS;
+    this.retention = { ...DEFAULT_RETENTION_MS, ...options.retention };
+    this.openCandles = new Map();
+    this.closedBuckets = new Map();
+    this.lastTicks = new Map();
+    this.pollers = new Map();
+  }
+
+  /**
+   * Backfill the given tokens and start closing and pruning candles.
+   */
+  public async initialize(tokens: string[] = []): Promise<void> {
+    for (const token of tokens) {
+      await this.backfill(token);
+    }
+
+    this.startTimers();
+  }
+
+  public stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = null;
+    }
+    this.pollers.forEach(poller => clearInterval(poller));
+    this.pollers.clear();
+  }
+
+  public async addTick(tick: PriceTick): Promise<void> {
+    if (!Number.isFinite(tick.price) || tick.price <= 0) return;
+    // The same price seen through several sources is recorded once
+    if (tick.timestamp <= (this.lastTicks.get(tick.token) ?? -Infinity)) return;
+    this.lastTicks.set(tick.token, tick.timestamp);
+
+    for (const resolution of this.resolutions) {
+      const bucket = Math.floor(tick.timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+      const key = `${tick.token}:${resolution}`;
+      let candle = this.openCandles.get(key);
+
+      if ((candle && bucket < candle.timestamp) || bucket <= (this.closedBuckets.get(key) ?? -Infinity)) {
+        // Late tick for a bucket that has already closed
+        continue;
+      }
+
+      if (!candle || bucket > candle.timestamp) {
+        if (candle) {
+          this.close(tick.token, resolution, candle);
+        }
+        let stored: Candle | undefined;
+        if (!candle) {
+          // Resume a bucket persisted before a restart. Starting it afresh
+          // would overwrite the stored candle, so the tick is skipped instead.
+          try {
+            [stored] = await this.storage.range(tick.token, resolution, bucket, bucket);
+          } catch (error) {
+            elizaLogger.error(`Failed to load ${resolution} candle for ${tick.token}:`, error);
+            continue;
+          }
+        }
+        candle = stored || {
+          timestamp: bucket,
+          open: tick.price,
+          high: tick.price,
+          low: tick.price,
+          close: tick.price,
+          volume: 0
+        };
+        this.openCandles.set(key, candle);
+      }
+
+      candle.high = Math.max(candle.high, tick.price);
+      candle.low = Math.min(candle.low, tick.price);
+      candle.close = tick.price;
+      candle.volume += tick.volume || 0;
+
+      try {
+        await this.storage.upsert(tick.token, resolution, [{ ...candle }]);
+      } catch (error) {
+        elizaLogger.error(`Failed to store ${resolution} candle for ${tick.token}:`, error);
+      }
+    }
+  }
+
+  /**
+   * The last `count` candles at `resolution`, oldest first.
+   */
+  public async getCandles(token: string, resolution: CandleResolution, count: number): Promise<Candle[]> {
+    const now = Date.now();
+    const from = Math.floor(now / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution] -
+      (count - 1) * RESOLUTION_MS[resolution];
+    const candles = await this.storage.range(token, resolution, from, now);
+    return candles.slice(-count);
+  }
+
+  /**
+   * Close of the finest stored candle whose bucket holds `timestamp`, null
+   * when no resolution has one.
+   */
+  public async getPriceAt(token: string, timestamp: number): Promise<number | null> {
+    const finestFirst = [...this.resolutions].sort((a, b) => RESOLUTION_MS[a] - RESOLUTION_MS[b]);
+    for (const resolution of finestFirst) {
+      const bucket = Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution];
+      const [candle] = await this.storage.range(token, resolution, bucket, bucket);
+      if (candle) return candle.close;
+    }
+    return null;
+  }
+
+  /**
+   * Fill each resolution from its newest stored candle (or the retention
+   * horizon) up to now.
+   */
+  public async backfill(token: string): Promise<void> {
+    if (!this.backfillSource) return;
+
+    const now = Date.now();
+    for (const resolution of this.resolutions) {
+      try {
+        const latest = await this.storage.latest(token, resolution);
+        const from = latest ? latest.timestamp : now - this.retention[resolution];
+        const candles = await this.backfillSource.fetchCandles(token, resolution, from, now);
+        await this.storage.upsert(token, resolution, candles);
+        elizaLogger.info(`Backfilled ${candles.length} ${resolution} candles for ${token}`);
+      } catch (error) {
+        elizaLogger.warn(`Failed to backfill ${resolution} candles for ${token}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close every open candle whose bucket has ended, whether or not a later
+   * tick arrived.
+   */
+  public closeExpired(now: number = Date.now()): void {
+    for (const [key, candle] of this.openCandles) {
+      const [token, resolution] = key.split(':') as [string, CandleResolution];
+      if (candle.timestamp + RESOLUTION_MS[resolution] <= now) {
+        this.close(token, resolution, candle);
+      }
+    }
+  }
+
+  /**
+   * Record every price the monitor sees. A monitor is only attached once.
+   */
+  public attachPriceMonitor(monitor: PriceMonitor): void {
+    if (this.monitors.has(monitor)) return;
+    this.monitors.add(monitor);
+
+    const onPrice = ({ tokenAddress, pricePoint }: { tokenAddress: string; pricePoint: PricePoint }) => {
+      // PricePoint.volume is a rolling 24h figure, not the volume of this tick
+      this.addTick({ token: tokenAddress, price: pricePoint.price, timestamp: pricePoint.timestamp })
+        .catch(error => elizaLogger.error(`Failed to record price for ${tokenAddress}:`, error));
+    };
+    monitor.on('tokenAdded', onPrice);
+    monitor.on('priceUpdated', onPrice);
+    this.startTimers();
+  }
+
+  /**
+   * Poll Jupiter prices for tokens nobody else is monitoring.
+   */
+  public trackJupiterPrices(
+    jupiter: JupiterPriceV2,
+    tokens: string[],
+    interval: number = this.DEFAULT_POLL_INTERVAL
+  ): void {
+    const key = tokens.join(',');
+    if (this.pollers.has(key)) return;
+
+    const poll = async () => {
+      try {
+        const response = await jupiter.getPrices(tokens);
+        const timestamp = Date.now();
+        for (const [token, price] of Object.entries(response.data)) {
+          await this.addTick({ token, price: Number(price.price), timestamp });
+        }
+      } catch (error) {
+        elizaLogger.warn('Failed to poll Jupiter prices for candles:', error);
+      }
+    };
+
+    poll();
+    this.pollers.set(key, setInterval(poll, interval));
+    this.startTimers();
+  }
+
+  private close(token: string, resolution: CandleResolution, candle: Candle): void {
+    const key = `${token}:${resolution}`;
+    this.openCandles.delete(key);
+    this.closedBuckets.set(key, candle.timestamp);
+    this.emit('candleClosed', { token, resolution, candle });
+  }
+
+  private startTimers(): void {
+    if (!this.pruneTimer) {
+      this.pruneTimer = setInterval(() => this.pruneAll(), this.PRUNE_INTERVAL);
+    }
+    if (!this.closeTimer) {
+      this.closeTimer = setInterval(() => this.closeExpired(), this.CLOSE_INTERVAL);
+    }
+  }
+
+  private async pruneAll(): Promise<void> {
+    const now = Date.now();
+
+    for (const token of this.lastTicks.keys()) {
+      for (const resolution of this.resolutions) {
+        try {
+          await this.storage.prune(token, resolution, now - this.retention[resolution]);
+        } catch (error) {
+          elizaLogger.warn(`Failed to prune ${resolution} candles for ${token}:`, error);
+        }
+      }
+    }
+  }
+}
+
+export const candleStore = new CandleStore();
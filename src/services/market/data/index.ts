@@ -1 +1,2 @@
 export * from './DataProcessor.js';
+export * from './candleStore.js';
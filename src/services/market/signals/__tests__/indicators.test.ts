@@ -0,0 +1,62 @@
+import { describe, test, expect } from '@jest/globals';
+import { PriceData } from '../../../../types/market.js';
+import { IndicatorStream, computeIndicators, rsi, sma, toSignalIndicators } from '../indicators.js';
+
+const HOUR = 60 * 60 * 1000;
+
+const createBars = (closes: number[]): PriceData[] =>
+  closes.map((close, i) => ({
+    price: close,
+    high: close * 1.01,
+    low: close * 0.99,
+    close,
+    volume: 100 + (i % 7) * 10,
+    timestamp: i * HOUR
+  }));
+
+// Deterministic wave with an upward drift
+const closes = Array.from({ length: 120 }, (_, i) => 100 + i * 0.2 + Math.sin(i / 3) * 4);
+
+describe('indicators', () => {
+  test('streaming updates match the batch computation', () => {
+    const bars = createBars(closes);
+    const stream = new IndicatorStream();
+    bars.forEach(bar => stream.update(bar));
+
+    const batch = computeIndicators(bars)!;
+    const streamed = stream.current()!;
+
+    expect(streamed.rsi).toBeCloseTo(batch.rsi!, 8);
+    expect(streamed.macd!.histogram).toBeCloseTo(batch.macd!.histogram, 8);
+    expect(streamed.emaCross!.fast).toBeCloseTo(batch.emaCross!.fast, 8);
+    expect(streamed.smaCross!.slow).toBeCloseTo(batch.smaCross!.slow, 8);
+    expect(streamed.bollinger!.percentB).toBeCloseTo(batch.bollinger!.percentB, 6);
+    expect(streamed.vwap).toBeCloseTo(batch.vwap!, 8);
+    expect(streamed.obv).toBe(batch.obv);
+    expect(streamed.atr).toBeCloseTo(batch.atr!, 8);
+
+    // Previewing a tick leaves the committed state alone
+    const next = createBars([...closes, 130]).slice(-1)[0];
+    const preview = stream.preview(next);
+    expect(preview.price).toBe(130);
+    expect(stream.current()!.price).toBe(closes[closes.length - 1]);
+    expect(stream.bars).toBe(closes.length);
+  });
+
+  test('scores a falling market as oversold with bearish averages', () => {
+    const falling = createBars(Array.from({ length: 60 }, (_, i) => 100 * Math.pow(0.98, i)));
+    expect(rsi(falling)).toBe(0);
+    expect(sma([1, 2, 3, 4], 2)).toEqual([1.5, 2.5, 3.5]);
+
+    const values = computeIndicators(falling)!;
+    const [rsiIndicator] = toSignalIndicators(values, 'momentum');
+    expect(rsiIndicator.name).toBe('RSI');
+    expect(rsiIndicator.contribution).toBeCloseTo(rsiIndicator.weight, 8);
+
+    const technical = toSignalIndicators(values, 'technical');
+    expect(technical).toHaveLength(3);
+    technical
+      .filter(indicator => indicator.name !== 'MACD')
+      .forEach(indicator => expect(indicator.contribution).toBeLessThan(0));
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  SignalOutcome,
+  SignalPerformanceStore,
+  SignalPerformanceTracker,
+  SignalStatsRecord,
+  summarizeStats
+} from '../signalPerformance.js';
+import { SignalTimeframe, SignalType, TradingSignal } from '../tradingSignals.js';
+
+const HOUR = 60 * 60 * 1000;
+const TOKEN = 'So11111111111111111111111111111111111111112';
+
+const memoryStore = (): SignalPerformanceStore => {
+  let outcomes: SignalOutcome[] = [];
+  let stats: SignalStatsRecord = { types: {}, indicators: {} };
+  return {
+    loadOutcomes: async () => outcomes.map(outcome => ({ ...outcome })),
+    saveOutcomes: async saved => { outcomes = saved; },
+    loadStats: async () => JSON.parse(JSON.stringify(stats)),
+    saveStats: async saved => { stats = saved; }
+  };
+};
+
+const createSignal = (id: string, action: 'buy' | 'sell', timestamp: number): TradingSignal => ({
+  id,
+  type: SignalType.MOMENTUM,
+  action,
+  strength: 0.5,
+  confidence: 0.8,
+  timeframe: SignalTimeframe.SCALP,
+  indicators: [
+    { name: 'RSI', value: 25, weight: 0.4, contribution: 0.2 },
+    { name: 'VWAP', value: 101, weight: 0.3, contribution: -0.1 }
+  ],
+  metadata: { token: TOKEN, price: 100 },
+  timestamp
+});
+
+describe('SignalPerformanceTracker', () => {
+  test('scores signals and indicators once their timeframe has passed', async () => {
+    let price = 110;
+    const tracker = new SignalPerformanceTracker(memoryStore(), { getPrice: async () => price });
+    const emittedAt = Date.now() - HOUR - 60000;
+
+    await tracker.record(createSignal('winner', 'buy', emittedAt));
+    await tracker.record(createSignal('loser', 'sell', emittedAt));
+    await tracker.record(createSignal('pending', 'buy', Date.now()));
+
+    const resolved = await tracker.evaluate();
+    expect(resolved.map(o => o.signalId)).toEqual(['winner', 'loser']);
+    expect(resolved[0].signedReturn).toBeCloseTo(0.1, 8);
+    expect(resolved[1].signedReturn).toBeCloseTo(-0.1, 8);
+
+    const leaderboard = await tracker.getLeaderboard();
+    const momentum = leaderboard.find(s => s.kind === 'type' && s.key === SignalType.MOMENTUM)!;
+    expect(momentum.samples).toBe(2);
+    expect(momentum.hitRate).toBe(0.5);
+
+    // RSI voted buy, VWAP voted sell, and the price went up
+    const rsi = leaderboard.find(s => s.key === 'RSI')!;
+    const vwap = leaderboard.find(s => s.key === 'VWAP')!;
+    expect(rsi.hitRate).toBe(1);
+    expect(vwap.hitRate).toBe(0);
+
+    const outcomes = await tracker.getOutcomes();
+    expect(outcomes.filter(o => !o.resolvedAt).map(o => o.signalId)).toEqual(['pending']);
+  });
+
+  test('scores late evaluations at the horizon price and expires those without one', async () => {
+    const historical: Record<string, number> = {};
+    const tracker = new SignalPerformanceTracker(memoryStore(), {
+      getPrice: async () => 150,
+      getPriceAt: async (_token, timestamp) => historical[timestamp] ?? null
+    });
+    // Evaluated a day after the 1 hour horizon, e.g. after downtime
+    const emittedAt = Date.now() - 25 * HOUR;
+    historical[emittedAt + HOUR] = 95;
+
+    await tracker.record(createSignal('priced', 'sell', emittedAt));
+    await tracker.record(createSignal('unpriced', 'buy', emittedAt - 1));
+
+    const resolved = await tracker.evaluate();
+    expect(resolved.map(o => [o.signalId, o.exitPrice])).toEqual([['priced', 95]]);
+    expect(resolved[0].signedReturn).toBeCloseTo(0.05, 8);
+
+    const outcomes = await tracker.getOutcomes();
+    expect(outcomes.find(o => o.signalId === 'unpriced')).toMatchObject({ expired: true });
+    expect(outcomes.every(o => o.resolvedAt)).toBe(true);
+    expect(tracker.getStats().find(s => s.kind === 'type')!.samples).toBe(1);
+  });
+
+  test('only moves weights away from 1 with enough samples', () => {
+    expect(summarizeStats('type', 'momentum', { samples: 5, hits: 5, totalReturn: 0.5 }).weight).toBe(1);
+    expect(summarizeStats('type', 'momentum', { samples: 30, hits: 24, totalReturn: 1.5 }).weight).toBeCloseTo(1.3, 8);
+    expect(summarizeStats('type', 'momentum', { samples: 30, hits: 24, totalReturn: -1 }).weight).toBe(1);
+    expect(summarizeStats('type', 'momentum', { samples: 30, hits: 6, totalReturn: -1 }).weight).toBeCloseTo(0.7, 8);
+  });
+});
@@ -0,0 +1,633 @@
+// src/services/market/signals/indicators.ts
+
+import { PriceData } from '../../../types/market.js';
+import type { SignalIndicator } from './tradingSignals.js';
+
+export interface IndicatorConfig {
+  rsiPeriod: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+  emaFast: number;
+  emaSlow: number;
+  smaFast: number;
+  smaSlow: number;
+  bollingerPeriod: number;
+  bollingerStdDev: number;
+  vwapPeriod: number;
+  obvSignalPeriod: number;
+  atrPeriod: number;
+}
+
+export const DEFAULT_INDICATOR_CONFIG: IndicatorConfig = {
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  emaFast: 9,
+  emaSlow: 21,
+  smaFast: 20,
+  smaSlow: 50,
+  bollingerPeriod: 20,
+  bollingerStdDev: 2,
+  vwapPeriod: 24,
+  obvSignalPeriod: 20,
+  atrPeriod: 14
+};
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerBandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  /** Position of the price within the bands, 0 at the lower and 1 at the upper band */
+  percentB: number;
+  /** Band width relative to the middle band */
+  bandwidth: number;
+}
+
+export interface MovingAverageCross {
+  fast: number;
+  slow: number;
+  /** Set on the bar where the fast average crosses the slow one */
+  crossed: 'bullish' | 'bearish' | null;
+}
+
+export interface IndicatorValues {
+  price: number;
+  previousClose: number | null;
+  timestamp: number;
+  rsi: number | null;
+  macd: MACDValue | null;
+  emaCross: MovingAverageCross | null;
+  smaCross: MovingAverageCross | null;
+  bollinger: BollingerBandsValue | null;
+  vwap: number | null;
+  obv: number;
+  /** EMA of OBV, the reference for the OBV trend */
+  obvSignal: number | null;
+  /** EMA of per-bar volume, used to scale OBV moves */
+  averageVolume: number | null;
+  atr: number | null;
+}
+
+export type IndicatorGroup = 'technical' | 'momentum' | 'volatility';
+
+/**
+ * Bars needed before every indicator has a value.
+ */
+export const indicatorWarmup = (config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG): number =>
+  Math.max(
+    config.rsiPeriod + 1,
+    config.macdSlow + config.macdSignal - 1,
+    config.emaSlow + 1,
+    config.smaSlow + 1,
+    config.bollingerPeriod,
+    config.vwapPeriod,
+    config.obvSignalPeriod,
+    config.atrPeriod + 1
+  );
+
+// ---------------------------------------------------------------------------
+// Batch indicators over a full window, oldest bar first
+// ---------------------------------------------------------------------------
+
+const closes = (prices: PriceData[]): number[] => prices.map(p => p.close);
+
+/**
+ * Simple moving average; element i covers values[i .. i + period - 1].
+ */
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result.push(sum / period);
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period` values.
+ */
+export function ema(values: number[], period: number): number[] {
+  if (values.length < period) return [];
+
+  const k = 2 / (period + 1);
+  const result = [values.slice(0, period).reduce((sum, v) => sum + v, 0) / period];
+  for (let i = period; i < values.length; i++) {
+    result.push(values[i] * k + result[result.length - 1] * (1 - k));
+  }
+  return result;
+}
+
+/**
+ * Wilder's RSI of the last bar.
+ */
+export function rsi(prices: PriceData[], period: number = DEFAULT_INDICATOR_CONFIG.rsiPeriod): number | null {
+  const values = closes(prices);
+  if (values.length <= period) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+  }
+
+  return rsiFromAverages(avgGain, avgLoss);
+}
+
+export function macd(
+  prices: PriceData[],
+  fast: number = DEFAULT_INDICATOR_CONFIG.macdFast,
+  slow: number = DEFAULT_INDICATOR_CONFIG.macdSlow,
+  signalPeriod: number = DEFAULT_INDICATOR_CONFIG.macdSignal
+): MACDValue | null {
+  const values = closes(prices);
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  // Align the fast series with the slow one, which starts later
+  const line = slowEma.map((value, i) => fastEma[i + slow - fast] - value);
+  const signal = ema(line, signalPeriod);
+  if (!signal.length) return null;
+
+  const macdValue = line[line.length - 1];
+  const signalValue = signal[signal.length - 1];
+  return { macd: macdValue, signal: signalValue, histogram: macdValue - signalValue };
+}
+
+export function emaCrossover(
+  prices: PriceData[],
+  fast: number = DEFAULT_INDICATOR_CONFIG.emaFast,
+  slow: number = DEFAULT_INDICATOR_CONFIG.emaSlow
+): MovingAverageCross | null {
+  const values = closes(prices);
+  return crossOf(ema(values, fast), ema(values, slow));
+}
+
+export function smaCrossover(
+  prices: PriceData[],
+  fast: number = DEFAULT_INDICATOR_CONFIG.smaFast,
+  slow: number = DEFAULT_INDICATOR_CONFIG.smaSlow
+): MovingAverageCross | null {
+  const values = closes(prices);
+  return crossOf(sma(values, fast), sma(values, slow));
+}
+
+export function bollingerBands(
+  prices: PriceData[],
+  period: number = DEFAULT_INDICATOR_CONFIG.bollingerPeriod,
+  stdDev: number = DEFAULT_INDICATOR_CONFIG.bollingerStdDev
+): BollingerBandsValue | null {
+  const values = closes(prices).slice(-period);
+  if (values.length < period) return null;
+
+  const sum = values.reduce((total, v) => total + v, 0);
+  const sumSquares = values.reduce((total, v) => total + v * v, 0);
+  return bandsFromSums(sum, sumSquares, period, stdDev, values[values.length - 1]);
+}
+
+/**
+ * Rolling VWAP over the last `period` bars using the typical price.
+ */
+export function vwap(prices: PriceData[], period: number = DEFAULT_INDICATOR_CONFIG.vwapPeriod): number | null {
+  const window = prices.slice(-period);
+  if (window.length < period) return null;
+
+  const volume = window.reduce((sum, p) => sum + p.volume, 0);
+  if (volume <= 0) return null;
+  return window.reduce((sum, p) => sum + typicalPrice(p) * p.volume, 0) / volume;
+}
+
+/**
+ * On-balance volume for every bar, starting at 0.
+ */
+export function obv(prices: PriceData[]): number[] {
+  const result: number[] = [];
+  let total = 0;
+  for (let i = 0; i < prices.length; i++) {
+    if (i > 0) total += Math.sign(prices[i].close - prices[i - 1].close) * prices[i].volume;
+    result.push(total);
+  }
+  return result;
+}
+
+/**
+ * Wilder's average true range of the last bar.
+ */
+export function atr(prices: PriceData[], period: number = DEFAULT_INDICATOR_CONFIG.atrPeriod): number | null {
+  if (prices.length <= period) return null;
+
+  let value = 0;
+  for (let i = 1; i < prices.length; i++) {
+    const tr = trueRange(prices[i], prices[i - 1].close);
+    value = i <= period ? value + tr / period : (value * (period - 1) + tr) / period;
+  }
+  return value;
+}
+
+/**
+ * Every indicator for the last bar of `prices`.
+ */
+export function computeIndicators(
+  prices: PriceData[],
+  config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG
+): IndicatorValues | null {
+  if (!prices.length) return null;
+
+  const last = prices[prices.length - 1];
+  const obvSeries = obv(prices);
+  const obvSignal = ema(obvSeries, config.obvSignalPeriod);
+  const averageVolume = ema(prices.map(p => p.volume), config.obvSignalPeriod);
+
+  return {
+    price: last.close,
+    previousClose: prices.length > 1 ? prices[prices.length - 2].close : null,
+    timestamp: last.timestamp,
+    rsi: rsi(prices, config.rsiPeriod),
+    macd: macd(prices, config.macdFast, config.macdSlow, config.macdSignal),
+    emaCross: emaCrossover(prices, config.emaFast, config.emaSlow),
+    smaCross: smaCrossover(prices, config.smaFast, config.smaSlow),
+    bollinger: bollingerBands(prices, config.bollingerPeriod, config.bollingerStdDev),
+    vwap: vwap(prices, config.vwapPeriod),
+    obv: obvSeries[obvSeries.length - 1],
+    obvSignal: obvSignal.length ? obvSignal[obvSignal.length - 1] : null,
+    averageVolume: averageVolume.length ? averageVolume[averageVolume.length - 1] : null,
+    atr: atr(prices, config.atrPeriod)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Streaming indicators, updated in O(1) per bar
+// ---------------------------------------------------------------------------
+
+interface EmaState {
+  period: number;
+  count: number;
+  value: number;
+}
+
+interface WindowState {
+  period: number;
+  values: number[];
+  sum: number;
+}
+
+interface StreamState {
+  bars: number;
+  previousClose: number | null;
+  rsiGain: number;
+  rsiLoss: number;
+  atr: number;
+  macdFast: EmaState;
+  macdSlow: EmaState;
+  macdSignal: EmaState;
+  emaFast: EmaState;
+  emaSlow: EmaState;
+  previousEma: { fast: number; slow: number } | null;
+  smaFast: WindowState;
+  smaSlow: WindowState;
+  previousSma: { fast: number; slow: number } | null;
+  bollinger: WindowState;
+  bollingerSquares: WindowState;
+  vwapVolume: WindowState;
+  vwapNotional: WindowState;
+  obv: number;
+  obvSignal: EmaState;
+  averageVolume: EmaState;
+}
+
+const emaState = (period: number): EmaState => ({ period, count: 0, value: 0 });
+const windowState = (period: number): WindowState => ({ period, values: [], sum: 0 });
+
+function pushEma(state: EmaState, value: number): number | null {
+  state.count++;
+  if (state.count <= state.period) {
+    state.value += value / state.period;
+  } else {
+    const k = 2 / (state.period + 1);
+    state.value = value * k + state.value * (1 - k);
+  }
+  return state.count >= state.period ? state.value : null;
+}
+
+function pushWindow(state: WindowState, value: number): boolean {
+  state.values.push(value);
+  state.sum += value;
+  if (state.values.length > state.period) {
+    state.sum -= state.values.shift()!;
+  }
+  return state.values.length === state.period;
+}
+
+/**
+ * Incremental indicator state for one token. `update` commits a closed bar;
+ * `preview` evaluates a still-forming bar without changing the state, so
+ * live ticks can be scored without recomputing the window.
+ */
+export class IndicatorStream {
+  private readonly config: IndicatorConfig;
+  private state: StreamState;
+  private latest: IndicatorValues | null = null;
+
+  constructor(config: Partial<IndicatorConfig> = {}) {
+    this.config = { ...DEFAULT_INDICATOR_CONFIG, ...config };
+    this.state = this.createState();
+  }
+
+  public get bars(): number {
+    return this.state.bars;
+  }
+
+  public update(bar: PriceData): IndicatorValues {
+    this.latest = this.advance(this.state, bar);
+    return this.latest;
+  }
+
+  public preview(bar: PriceData): IndicatorValues {
+    return this.advance(structuredClone(this.state), bar);
+  }
+
+  /** Values as of the last committed bar */
+  public current(): IndicatorValues | null {
+    return this.latest;
+  }
+
+  public reset(): void {
+    this.state = this.createState();
+    this.latest = null;
+  }
+
+  private createState(): StreamState {
+    const config = this.config;
+    return {
+      bars: 0,
+      previousClose: null,
+      rsiGain: 0,
+      rsiLoss: 0,
+      atr: 0,
+      macdFast: emaState(config.macdFast),
+      macdSlow: emaState(config.macdSlow),
+      macdSignal: emaState(config.macdSignal),
+      emaFast: emaState(config.emaFast),
+      emaSlow: emaState(config.emaSlow),
+      previousEma: null,
+      smaFast: windowState(config.smaFast),
+      smaSlow: windowState(config.smaSlow),
+      previousSma: null,
+      bollinger: windowState(config.bollingerPeriod),
+      bollingerSquares: windowState(config.bollingerPeriod),
+      vwapVolume: windowState(config.vwapPeriod),
+      vwapNotional: windowState(config.vwapPeriod),
+      obv: 0,
+      obvSignal: emaState(config.obvSignalPeriod),
+      averageVolume: emaState(config.obvSignalPeriod)
+    };
+  }
+
+  private advance(state: StreamState, bar: PriceData): IndicatorValues {
+    const config = this.config;
+    const close = bar.close;
+    const previousClose = state.previousClose;
+    state.bars++;
+
+    // RSI and ATR both start from the first price change
+    let rsiValue: number | null = null;
+    let atrValue: number | null = null;
+    if (previousClose !== null) {
+      const change = close - previousClose;
+      const changes = state.bars - 1;
+      const tr = trueRange(bar, previousClose);
+      if (changes <= config.rsiPeriod) {
+        state.rsiGain += Math.max(change, 0) / config.rsiPeriod;
+        state.rsiLoss += Math.max(-change, 0) / config.rsiPeriod;
+      } else {
+        state.rsiGain = (state.rsiGain * (config.rsiPeriod - 1) + Math.max(change, 0)) / config.rsiPeriod;
+        state.rsiLoss = (state.rsiLoss * (config.rsiPeriod - 1) + Math.max(-change, 0)) / config.rsiPeriod;
+      }
+      if (changes >= config.rsiPeriod) rsiValue = rsiFromAverages(state.rsiGain, state.rsiLoss);
+
+      state.atr = changes <= config.atrPeriod
+        ? state.atr + tr / config.atrPeriod
+        : (state.atr * (config.atrPeriod - 1) + tr) / config.atrPeriod;
+      if (changes >= config.atrPeriod) atrValue = state.atr;
+
+      state.obv += Math.sign(change) * bar.volume;
+    }
+    state.previousClose = close;
+
+    const fast = pushEma(state.macdFast, close);
+    const slow = pushEma(state.macdSlow, close);
+    let macdValue: MACDValue | null = null;
+    if (fast !== null && slow !== null) {
+      const line = fast - slow;
+      const signal = pushEma(state.macdSignal, line);
+      if (signal !== null) macdValue = { macd: line, signal, histogram: line - signal };
+    }
+
+    const emaFast = pushEma(state.emaFast, close);
+    const emaSlow = pushEma(state.emaSlow, close);
+    let emaCross: MovingAverageCross | null = null;
+    if (emaFast !== null && emaSlow !== null) {
+      emaCross = crossFrom(state.previousEma, emaFast, emaSlow);
+      state.previousEma = { fast: emaFast, slow: emaSlow };
+    }
+
+    const smaFastReady = pushWindow(state.smaFast, close);
+    const smaSlowReady = pushWindow(state.smaSlow, close);
+    let smaCross: MovingAverageCross | null = null;
+    if (smaFastReady && smaSlowReady) {
+      const smaFast = state.smaFast.sum / config.smaFast;
+      const smaSlow = state.smaSlow.sum / config.smaSlow;
+      smaCross = crossFrom(state.previousSma, smaFast, smaSlow);
+      state.previousSma = { fast: smaFast, slow: smaSlow };
+    }
+
+    pushWindow(state.bollingerSquares, close * close);
+    const bollinger = pushWindow(state.bollinger, close)
+      ? bandsFromSums(
+        state.bollinger.sum,
+        state.bollingerSquares.sum,
+        config.bollingerPeriod,
+        config.bollingerStdDev,
+        close
+      )
+      : null;
+
+    pushWindow(state.vwapNotional, typicalPrice(bar) * bar.volume);
+    const vwapReady = pushWindow(state.vwapVolume, bar.volume);
+    const vwapValue = vwapReady && state.vwapVolume.sum > 0
+      ? state.vwapNotional.sum / state.vwapVolume.sum
+      : null;
+
+    return {
+      price: close,
+      previousClose,
+      timestamp: bar.timestamp,
+      rsi: rsiValue,
+      macd: macdValue,
+      emaCross,
+      smaCross,
+      bollinger,
+      vwap: vwapValue,
+      obv: state.obv,
+      obvSignal: pushEma(state.obvSignal, state.obv),
+      averageVolume: pushEma(state.averageVolume, bar.volume),
+      atr: atrValue
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Signal indicators
+// ---------------------------------------------------------------------------
+
+const INDICATOR_WEIGHTS: Record<IndicatorGroup, Record<string, number>> = {
+  technical: { MACD: 0.4, EMACross: 0.35, SMACross: 0.25 },
+  momentum: { RSI: 0.4, OBV: 0.3, VWAP: 0.3 },
+  volatility: { BollingerPercentB: 0.5, ATRBreakout: 0.5, BollingerBandwidth: 0 }
+};
+
+/**
+ * Turn indicator values into weighted `SignalIndicator` entries for one
+ * signal group. Each contribution is a score in [-1, 1] (positive is
+ * bullish) times the weight. Indicators without a value yet are left out.
+ */
+export function toSignalIndicators(values: IndicatorValues, group: IndicatorGroup): SignalIndicator[] {
+  const weights = INDICATOR_WEIGHTS[group];
+  const indicators: SignalIndicator[] = [];
+  const add = (name: string, value: number, score: number) => {
+    const weight = weights[name];
+    indicators.push({ name, value, weight, contribution: clamp(score) * weight });
+  };
+  const price = values.price;
+
+  switch (group) {
+    case 'technical':
+      if (values.macd) {
+        // Histogram relative to 0.5% of the price
+        add('MACD', values.macd.histogram, Math.tanh(values.macd.histogram / (price * 0.005)));
+      }
+      if (values.emaCross) add('EMACross', values.emaCross.fast - values.emaCross.slow, crossScore(values.emaCross));
+      if (values.smaCross) add('SMACross', values.smaCross.fast - values.smaCross.slow, crossScore(values.smaCross));
+      break;
+
+    case 'momentum':
+      if (values.rsi !== null) add('RSI', values.rsi, rsiScore(values.rsi));
+      if (values.obvSignal !== null && values.averageVolume) {
+        add('OBV', values.obv, Math.tanh((values.obv - values.obvSignal) / (values.averageVolume * 5)));
+      }
+      if (values.vwap !== null) {
+        // Distance from VWAP relative to 2%
+        add('VWAP', values.vwap, Math.tanh((price - values.vwap) / values.vwap / 0.02));
+      }
+      break;
+
+    case 'volatility':
+      if (values.bollinger) {
+        // Mean reversion: buy near the lower band, sell near the upper one
+        add('BollingerPercentB', values.bollinger.percentB, 1 - 2 * values.bollinger.percentB);
+        add('BollingerBandwidth', values.bollinger.bandwidth, 0);
+      }
+      if (values.atr && values.previousClose !== null) {
+        // A move larger than the average range is a breakout
+        add('ATRBreakout', values.atr, (price - values.previousClose) / values.atr);
+      }
+      break;
+  }
+
+  return indicators;
+}
+
+function rsiScore(value: number): number {
+  if (value < 30) return 1 - value / 30;
+  if (value > 70) return -((value - 70) / 30);
+  return 0;
+}
+
+function crossScore(cross: MovingAverageCross): number {
+  if (cross.crossed === 'bullish') return 1;
+  if (cross.crossed === 'bearish') return -1;
+  // Spread between the averages relative to 2%
+  return Math.tanh((cross.fast - cross.slow) / cross.slow / 0.02);
+}
+
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+function crossOf(fast: number[], slow: number[]): MovingAverageCross | null {
+  if (!fast.length || !slow.length) return null;
+
+  const lastFast = fast[fast.length - 1];
+  const lastSlow = slow[slow.length - 1];
+  const previous = slow.length > 1
+    ? { fast: fast[fast.length - 2], slow: slow[slow.length - 2] }
+    : null;
+  return crossFrom(previous, lastFast, lastSlow);
+}
+
+function crossFrom(
+  previous: { fast: number; slow: number } | null,
+  fast: number,
+  slow: number
+): MovingAverageCross {
+  let crossed: MovingAverageCross['crossed'] = null;
+  if (previous) {
+    if (previous.fast <= previous.slow && fast > slow) crossed = 'bullish';
+    else if (previous.fast >= previous.slow && fast < slow) crossed = 'bearish';
+  }
+  return { fast, slow, crossed };
+}
+
+function bandsFromSums(
+  sum: number,
+  sumSquares: number,
+  period: number,
+  stdDev: number,
+  price: number
+): BollingerBandsValue {
+  const middle = sum / period;
+  const deviation = Math.sqrt(Math.max(sumSquares / period - middle * middle, 0));
+  const upper = middle + stdDev * deviation;
+  const lower = middle - stdDev * deviation;
+  return {
+    upper,
+    middle,
+    lower,
+    percentB: upper === lower ? 0.5 : (price - lower) / (upper - lower),
+    bandwidth: middle === 0 ? 0 : (upper - lower) / middle
+  };
+}
+
+function trueRange(bar: PriceData, previousClose: number): number {
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  );
+}
+
+function typicalPrice(bar: PriceData): number {
+  return (bar.high + bar.low + bar.close) / 3;
+}
+
+function clamp(value: number, min: number = -1, max: number = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,372 @@
+// src/services/market/signals/signalPerformance.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import { JupiterPriceV2 } from '../../blockchain/defi/jupiterPriceV2.js';
+import { CandleStore, candleStore } from '../data/candleStore.js';
+import type { SignalTimeframe, SignalType, TradingSignal } from './tradingSignals.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long after emission a signal is judged, per timeframe */
+export const SIGNAL_HORIZON_MS: Record<SignalTimeframe, number> = {
+  scalp: HOUR_MS,
+  intraday: 24 * HOUR_MS,
+  swing: 7 * 24 * HOUR_MS,
+  position: 30 * 24 * HOUR_MS
+};
+
+/**
+ * One emitted signal and, once its horizon has passed, the price reaction.
+ */
+export interface SignalOutcome {
+  signalId: string;
+  token: string;
+  type: SignalType;
+  action: 'buy' | 'sell';
+  timeframe: SignalTimeframe;
+  indicators: Array<{ name: string; contribution: number }>;
+  entryPrice: number;
+  emittedAt: number;
+  evaluateAt: number;
+  exitPrice?: number;
+  /** Price change over the horizon, signed in the signal's direction */
+  signedReturn?: number;
+  resolvedAt?: number;
+  /** No price at the horizon was found, the outcome is not scored */
+  expired?: boolean;
+}
+
+interface StatsAccumulator {
+  samples: number;
+  hits: number;
+  totalReturn: number;
+}
+
+export interface SignalStatsRecord {
+  types: Record<string, StatsAccumulator>;
+  indicators: Record<string, StatsAccumulator>;
+}
+
+export interface PerformanceStats {
+  kind: 'type' | 'indicator';
+  key: string;
+  samples: number;
+  hitRate: number;
+  /** Average signed return per signal */
+  expectancy: number;
+  /** Multiplier applied to new signals, 1 until there are enough samples */
+  weight: number;
+}
+
+export interface SignalWeights {
+  types: Record<string, number>;
+  indicators: Record<string, number>;
+}
+
+export interface SignalPerformanceStore {
+  loadOutcomes(): Promise<SignalOutcome[]>;
+  saveOutcomes(outcomes: SignalOutcome[]): Promise<void>;
+  loadStats(): Promise<SignalStatsRecord>;
+  saveStats(stats: SignalStatsRecord): Promise<void>;
+}
+
+export class RedisSignalPerformanceStore implements SignalPerformanceStore {
+  private readonly prefix: string;
+
+  constructor(prefix = 'signals:performance') {
+    this.prefix = prefix;
+  }
+
+  public async loadOutcomes(): Promise<SignalOutcome[]> {
+    return (await redisService.get<SignalOutcome[]>(`${this.prefix}:outcomes`)) || [];
+  }
+
+  public async saveOutcomes(outcomes: SignalOutcome[]): Promise<void> {
+    await redisService.set(`${this.prefix}:outcomes`, outcomes);
+  }
+
+  public async loadStats(): Promise<SignalStatsRecord> {
+    return (await redisService.get<SignalStatsRecord>(`${this.prefix}:stats`)) || { types: {}, indicators: {} };
+  }
+
+  public async saveStats(stats: SignalStatsRecord): Promise<void> {
+    await redisService.set(`${this.prefix}:stats`, stats);
+  }
+}
+
+export interface SignalPriceSource {
+  getPrice(token: string): Promise<number | null>;
+  /** Historical price, used for outcomes evaluated late */
+  getPriceAt?(token: string, timestamp: number): Promise<number | null>;
+}
+
+/**
+ * Current prices from Jupiter, past prices from the recorded candles.
+ */
+export class JupiterSignalPriceSource implements SignalPriceSource {
+  private readonly jupiter: JupiterPriceV2;
+  private readonly candles: Pick<CandleStore, 'getPriceAt'>;
+
+  constructor(
+    jupiter: JupiterPriceV2 = new JupiterPriceV2(),
+    candles: Pick<CandleStore, 'getPriceAt'> = candleStore
+  ) {
+    this.jupiter = jupiter;
+    this.candles = candles;
+  }
+
+  public async getPrice(token: string): Promise<number | null> {
+    const price = Number((await this.jupiter.getPrice(token)).price);
+    return Number.isFinite(price) && price > 0 ? price : null;
+  }
+
+  public async getPriceAt(token: string, timestamp: number): Promise<number | null> {
+    return this.candles.getPriceAt(token, timestamp);
+  }
+}
+
+/**
+ * Turn accumulated outcomes into a hit rate, expectancy and weight. Weights
+ * move away from 1 as samples accumulate and never reward a negative
+ * expectancy.
+ */
+export function summarizeStats(
+  kind: PerformanceStats['kind'],
+  key: string,
+  stats: StatsAccumulator,
+  minSamples: number = 10,
+  priorSamples: number = 30
+): PerformanceStats {
+  const hitRate = stats.samples ? stats.hits / stats.samples : 0;
+  const expectancy = stats.samples ? stats.totalReturn / stats.samples : 0;
+
+  let weight = 1;
+  if (stats.samples >= minSamples) {
+    const confidence = stats.samples / (stats.samples + priorSamples);
+    weight = 1 + 2 * (hitRate - 0.5) * confidence;
+    if (expectancy <= 0) weight = Math.min(weight, 1);
+    weight = Math.min(2, Math.max(0.25, weight));
+  }
+
+  return { kind, key, samples: stats.samples, hitRate, expectancy, weight };
+}
+
+/**
+ * Records every emitted trading signal, checks the price once its timeframe
+ * has elapsed and keeps hit rate and expectancy per signal type and
+ * indicator. The derived weights are read back by the TradingSignalGenerator.
+ */
+export class SignalPerformanceTracker extends EventEmitter {
+  private readonly store: SignalPerformanceStore;
+  private readonly priceSource: SignalPriceSource;
+  private stats: PerformanceStats[] = [];
+  private weights: SignalWeights = { types: {}, indicators: {} };
+  private timer: NodeJS.Timeout | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private readonly EVALUATION_INTERVAL = 60000; // 1 minute
+  private readonly MAX_RESOLVED_OUTCOMES = 1000;
+  private readonly MAX_PENDING_OUTCOMES = 5000;
+  // Later than this the current price no longer stands for the horizon price
+  private readonly MAX_EVALUATION_DELAY = 5 * 60 * 1000; // 5 minutes
+
+  constructor(
+    store: SignalPerformanceStore = new RedisSignalPerformanceStore(),
+    priceSource: SignalPriceSource = new JupiterSignalPriceSource()
+  ) {
+    super();
+    this.store = store;
+    this.priceSource = priceSource;
+  }
+
+  public start(interval: number = this.EVALUATION_INTERVAL): void {
+    if (this.timer) return;
+    this.refresh();
+    this.timer = setInterval(() => this.evaluate(), interval);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Start tracking a signal. Hold signals and signals without a token are
+   * ignored since there is nothing to score.
+   */
+  public record(signal: TradingSignal): Promise<SignalOutcome | null> {
+    return this.serialize(async () => {
+      const token: string | undefined = signal.metadata.token;
+      if (!token || signal.action === 'hold') return null;
+
+      try {
+        const entryPrice = Number(signal.metadata.price) || await this.priceSource.getPrice(token);
+        if (!entryPrice) return null;
+
+        const outcome: SignalOutcome = {
+          signalId: signal.id,
+          token,
+          type: signal.type,
+          action: signal.action,
+          timeframe: signal.timeframe,
+          indicators: signal.indicators.map(({ name, contribution }) => ({ name, contribution })),
+          entryPrice,
+          emittedAt: signal.timestamp,
+          evaluateAt: signal.timestamp + SIGNAL_HORIZON_MS[signal.timeframe]
+        };
+
+        const outcomes = await this.store.loadOutcomes();
+        outcomes.push(outcome);
+        await this.store.saveOutcomes(this.capPending(outcomes));
+        this.emit('signalRecorded', outcome);
+        return outcome;
+      } catch (error) {
+        elizaLogger.error(`Failed to record signal ${signal.id}:`, error);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Score every signal whose horizon has passed. Signals judged more than
+   * MAX_EVALUATION_DELAY late, e.g. after downtime, are scored on the price
+   * at their horizon, or expire unscored when there is none.
+   */
+  public evaluate(now: number = Date.now()): Promise<SignalOutcome[]> {
+    return this.serialize(async () => {
+      const resolved: SignalOutcome[] = [];
+      try {
+        const outcomes = await this.store.loadOutcomes();
+        const due = outcomes.filter(o => !o.resolvedAt && o.evaluateAt <= now);
+        if (!due.length) return resolved;
+
+        const stats = await this.store.loadStats();
+        const prices = new Map<string, number | null>();
+
+        for (const outcome of due) {
+          const late = now - outcome.evaluateAt > this.MAX_EVALUATION_DELAY;
+          let exitPrice: number | null | undefined;
+          if (late) {
+            exitPrice = await this.priceSource.getPriceAt?.(outcome.token, outcome.evaluateAt).catch(() => null);
+          } else {
+            if (!prices.has(outcome.token)) {
+              prices.set(outcome.token, await this.priceSource.getPrice(outcome.token).catch(() => null));
+            }
+            exitPrice = prices.get(outcome.token);
+          }
+          if (!exitPrice) {
+            if (late) {
+              outcome.expired = true;
+              outcome.resolvedAt = now;
+            }
+            continue;
+          }
+
+          const priceReturn = (exitPrice - outcome.entryPrice) / outcome.entryPrice;
+          outcome.exitPrice = exitPrice;
+          outcome.signedReturn = (outcome.action === 'buy' ? 1 : -1) * priceReturn;
+          outcome.resolvedAt = now;
+
+          accumulate(stats.types, outcome.type, outcome.signedReturn);
+          for (const indicator of outcome.indicators) {
+            // Each indicator is judged on the direction it voted for
+            const direction = Math.sign(indicator.contribution);
+            if (direction !== 0) accumulate(stats.indicators, indicator.name, direction * priceReturn);
+          }
+          resolved.push(outcome);
+        }
+
+        const pending = outcomes.filter(o => !o.resolvedAt);
+        const done = outcomes.filter(o => o.resolvedAt).slice(-this.MAX_RESOLVED_OUTCOMES);
+        await this.store.saveOutcomes(this.capPending([...done, ...pending]));
+        await this.store.saveStats(stats);
+        this.applyStats(stats);
+
+        resolved.forEach(outcome => this.emit('signalResolved', outcome));
+      } catch (error) {
+        elizaLogger.error('Failed to evaluate signal outcomes:', error);
+      }
+      return resolved;
+    });
+  }
+
+  /**
+   * Reload stats and weights from the store.
+   */
+  public async refresh(): Promise<void> {
+    try {
+      this.applyStats(await this.store.loadStats());
+    } catch (error) {
+      elizaLogger.warn('Failed to load signal performance stats:', error);
+    }
+  }
+
+  /** Latest weights, without touching the store */
+  public getWeights(): SignalWeights {
+    return this.weights;
+  }
+
+  /** Latest stats, without touching the store */
+  public getStats(): PerformanceStats[] {
+    return this.stats;
+  }
+
+  /**
+   * Signal types and indicators ranked by expectancy.
+   */
+  public async getLeaderboard(): Promise<PerformanceStats[]> {
+    await this.refresh();
+    return [...this.stats].sort((a, b) => b.expectancy - a.expectancy);
+  }
+
+  public async getOutcomes(): Promise<SignalOutcome[]> {
+    return this.store.loadOutcomes();
+  }
+
+  /**
+   * Drop the oldest pending outcomes beyond MAX_PENDING_OUTCOMES
+   */
+  private capPending(outcomes: SignalOutcome[]): SignalOutcome[] {
+    const pending = outcomes.filter(o => !o.resolvedAt);
+    if (pending.length <= this.MAX_PENDING_OUTCOMES) return outcomes;
+
+    const dropped = new Set(
+      [...pending].sort((a, b) => a.emittedAt - b.emittedAt).slice(0, pending.length - this.MAX_PENDING_OUTCOMES)
+    );
+    elizaLogger.warn(`Dropping ${dropped.size} pending signal outcomes over the ${this.MAX_PENDING_OUTCOMES} limit`);
+    return outcomes.filter(o => !dropped.has(o));
+  }
+
+  private applyStats(stats: SignalStatsRecord): void {
+    const types = Object.entries(stats.types).map(([key, s]) => summarizeStats('type', key, s));
+    const indicators = Object.entries(stats.indicators).map(([key, s]) => summarizeStats('indicator', key, s));
+
+    this.stats = [...types, ...indicators];
+    this.weights = {
+      types: Object.fromEntries(types.map(s => [s.key, s.weight])),
+      indicators: Object.fromEntries(indicators.map(s => [s.key, s.weight]))
+    };
+  }
+
+  /**
+   * Outcomes and stats are read-modify-write records, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function accumulate(bucket: Record<string, StatsAccumulator>, key: string, signedReturn: number): void {
+  const stats = bucket[key] || (bucket[key] = { samples: 0, hits: 0, totalReturn: 0 });
+  stats.samples++;
+  if (signedReturn > 0) stats.hits++;
+  stats.totalReturn += signedReturn;
+}
+
+export const signalPerformance = new SignalPerformanceTracker();
@@ -2,8 +2,11 @@
 
 import { EventEmitter } from 'events';
 import { AIService } from '../../ai/ai.js';
+import { PriceData } from '../../../types/market.js';
+import { IndicatorGroup, IndicatorValues, computeIndicators, toSignalIndicators } from './indicators.js';
+import { SignalPerformanceTracker, signalPerformance } from './signalPerformance.js';
 
-interface TradingSignal {
+export interface TradingSignal {
   id: string;
   type: SignalType;
   action: 'buy' | 'sell' | 'hold';
@@ -15,14 +18,14 @@ interface TradingSignal {
   timestamp: number;
 }
 
-interface SignalIndicator {
+export interface SignalIndicator {
   name: string;
   value: number;
   weight: number;
   contribution: number;
 }
 
-enum SignalType {
+export enum SignalType {
   TECHNICAL = 'technical',
   FUNDAMENTAL = 'fundamental',
   MOMENTUM = 'momentum',
@@ -30,34 +33,48 @@ enum SignalType {
   SENTIMENT = 'sentiment'
 }
 
-enum SignalTimeframe {
+export enum SignalTimeframe {
   SCALP = 'scalp',      // < 1 hour
   INTRADAY = 'intraday', // < 1 day
   SWING = 'swing',      // 1-7 days
   POSITION = 'position'  // > 7 days
 }
 
+export interface SignalMarketData {
+  price: number;
+  volume: number;
+  timestamp: number;
+  indicators: Record<string, number>;
+  token?: string;
+  /** Recent bars, oldest first, for the indicator library */
+  history?: PriceData[];
+  /** Precomputed values, e.g. from a PriceMonitor indicator stream */
+  indicatorValues?: IndicatorValues | null;
+}
+
 export class TradingSignalGenerator extends EventEmitter {
   private aiService: AIService;
   private activeSignals: Map<string, TradingSignal>;
+  private performance: SignalPerformanceTracker;
   private readonly CONFIDENCE_THRESHOLD = 0.7;
   private readonly SIGNAL_EXPIRY = 3600000; // 1 hour
   private readonly MINIMUM_INDICATORS = 3;
+  private signalSequence = 0;
 
-  constructor(aiService: AIService) {
+  constructor(
+    aiService: AIService,
+    performance: SignalPerformanceTracker = signalPerformance
+  ) {
     super();
     this.aiService = aiService;
     this.activeSignals = new Map();
+    // Outcomes of past signals re-weight new ones, the tracker is started once from main
+    this.performance = performance;
     this.startSignalMaintenance();
   }
 
   public async generateSignals(
-    marketData: {
-      price: number;
-      volume: number;
-      timestamp: number;
-      indicators: Record<string, number>;
-    },
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
     try {
@@ -85,14 +102,28 @@ export class TradingSignalGenerator extends EventEmitter {
         ...sentimentSignals
       ];
 
+      allSignals.forEach(signal => {
+        signal.metadata.token = signal.metadata.token || marketData.token;
+        signal.metadata.price = signal.metadata.price || marketData.price;
+        this.applyPerformanceWeights(signal);
+      });
+
       // Filter and validate signals
       const validSignals = allSignals.filter(signal =>
         this.validateSignal(signal)
       );
 
-      // Update active signals
+      // Update active signals and track how they play out. A newer signal from
+      // the same analysis of a token replaces the previous one, and is only
+      // scored again when it changes direction
       validSignals.forEach(signal => {
-        this.activeSignals.set(signal.id, signal);
+        const key = this.activeKey(signal);
+        const previous = this.activeSignals.get(key);
+        this.activeSignals.set(key, signal);
+        if (!previous || previous.action !== signal.action) {
+          this.performance.record(signal);
+        }
+        this.emit('signalGenerated', signal);
       });
 
       return validSignals;
@@ -103,7 +134,7 @@ export class TradingSignalGenerator extends EventEmitter {
   }
 
   private async generateTechnicalSignals(
-    marketData: any,
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
     const signals: TradingSignal[] = [];
@@ -120,11 +151,15 @@ export class TradingSignalGenerator extends EventEmitter {
     const macdSignal = this.analyzeMACD(marketData);
     if (macdSignal) signals.push(macdSignal);
 
+    // Trend indicators computed from price history
+    const trendSignal = this.analyzeIndicators(marketData, 'technical', SignalType.TECHNICAL, timeframe);
+    if (trendSignal) signals.push(trendSignal);
+
     return signals;
   }
 
   private async generateFundamentalSignals(
-    marketData: any,
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
     // Implement fundamental signal generation logic
@@ -132,30 +167,30 @@ export class TradingSignalGenerator extends EventEmitter {
   }
 
   private async generateMomentumSignals(
-    marketData: any,
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
-    // Implement momentum signal generation logic
-    return [];
+    const signal = this.analyzeIndicators(marketData, 'momentum', SignalType.MOMENTUM, timeframe);
+    return signal ? [signal] : [];
   }
 
   private async generateVolatilitySignals(
-    marketData: any,
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
-    // Implement volatility signal generation logic
-    return [];
+    const signal = this.analyzeIndicators(marketData, 'volatility', SignalType.VOLATILITY, timeframe);
+    return signal ? [signal] : [];
   }
 
   private async generateSentimentSignals(
-    marketData: any,
+    marketData: SignalMarketData,
     timeframe: SignalTimeframe
   ): Promise<TradingSignal[]> {
     // Implement sentiment signal generation logic
     return [];
   }
 
-  private analyzeMAs(marketData: any): TradingSignal | null {
+  private analyzeMAs(marketData: SignalMarketData): TradingSignal | null {
     const { ma20, ma50, ma200 } = marketData.indicators;
     if (!ma20 || !ma50 || !ma200) return null;
 
@@ -193,7 +228,7 @@ export class TradingSignalGenerator extends EventEmitter {
     );
 
     return {
-      id: `ma-${Date.now()}`,
+      id: this.signalId('ma', marketData.token),
       type: SignalType.TECHNICAL,
       action: totalContribution > 0 ? 'buy' : 'sell',
       strength: Math.abs(totalContribution),
@@ -208,7 +243,7 @@ export class TradingSignalGenerator extends EventEmitter {
     };
   }
 
-  private analyzeRSI(marketData: any): TradingSignal | null {
+  private analyzeRSI(marketData: SignalMarketData): TradingSignal | null {
     const { rsi } = marketData.indicators;
     if (!rsi) return null;
 
@@ -229,7 +264,7 @@ export class TradingSignalGenerator extends EventEmitter {
     indicators[0].contribution = contribution;
 
     return {
-      id: `rsi-${Date.now()}`,
+      id: this.signalId('rsi', marketData.token),
       type: SignalType.TECHNICAL,
       action: contribution > 0 ? 'buy' : 'sell',
       strength: Math.abs(contribution),
@@ -244,7 +279,7 @@ export class TradingSignalGenerator extends EventEmitter {
     };
   }
 
-  private analyzeMACD(marketData: any): TradingSignal | null {
+  private analyzeMACD(marketData: SignalMarketData): TradingSignal | null {
     const { macd, signal, histogram } = marketData.indicators;
     if (!macd || !signal || !histogram) return null;
 
@@ -281,7 +316,7 @@ export class TradingSignalGenerator extends EventEmitter {
     );
 
     return {
-      id: `macd-${Date.now()}`,
+      id: this.signalId('macd', marketData.token),
       type: SignalType.TECHNICAL,
       action: totalContribution > 0 ? 'buy' : 'sell',
       strength: Math.abs(totalContribution),
@@ -298,15 +333,92 @@ export class TradingSignalGenerator extends EventEmitter {
     };
   }
 
+  private analyzeIndicators(
+    marketData: SignalMarketData,
+    group: IndicatorGroup,
+    type: SignalType,
+    timeframe: SignalTimeframe
+  ): TradingSignal | null {
+    const values: IndicatorValues | null = marketData.indicatorValues ||
+      (marketData.history?.length ? computeIndicators(marketData.history) : null);
+    if (!values) return null;
+
+    const indicators = toSignalIndicators(values, group);
+    if (!indicators.length) return null;
+
+    const totalContribution = indicators.reduce(
+      (sum, ind) => sum + ind.contribution,
+      0
+    );
+
+    return {
+      id: this.signalId(group, marketData.token),
+      type,
+      action: totalContribution > 0 ? 'buy' : totalContribution < 0 ? 'sell' : 'hold',
+      strength: Math.abs(totalContribution),
+      confidence: this.calculateConfidence(indicators),
+      timeframe,
+      indicators,
+      metadata: {
+        token: marketData.token,
+        price: values.price,
+        timestamp: Date.now()
+      },
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Scale indicator contributions and the signal as a whole by how well they
+   * have predicted price moves so far.
+   */
+  private applyPerformanceWeights(signal: TradingSignal): void {
+    const weights = this.performance.getWeights();
+    const typeWeight = weights.types[signal.type] ?? 1;
+
+    signal.indicators.forEach(indicator => {
+      indicator.contribution *= weights.indicators[indicator.name] ?? 1;
+    });
+
+    const totalContribution = signal.indicators.reduce(
+      (sum, ind) => sum + ind.contribution,
+      0
+    );
+
+    signal.action = totalContribution > 0 ? 'buy' : totalContribution < 0 ? 'sell' : 'hold';
+    signal.strength = Math.abs(totalContribution) * typeWeight;
+    signal.confidence = Math.min(1, this.calculateConfidence(signal.indicators) * typeWeight);
+    signal.metadata.performanceWeight = typeWeight;
+  }
+
+  /**
+   * Unique across tokens and signals generated in the same millisecond
+   */
+  private signalId(prefix: string, token?: string): string {
+    return `${prefix}-${token || 'market'}-${Date.now()}-${++this.signalSequence}`;
+  }
+
+  /**
+   * Key of the analysis a signal came from, e.g. `momentum:<token>`
+   */
+  private activeKey(signal: TradingSignal): string {
+    return `${signal.id.split('-')[0]}:${signal.metadata.token || 'market'}`;
+  }
+
   private calculateConfidence(indicators: SignalIndicator[]): number {
     if (indicators.length < this.MINIMUM_INDICATORS) {
       return Math.min(0.5, indicators.length / this.MINIMUM_INDICATORS);
     }
 
+    // Contributions are weighted scores, so full agreement of every
+    // indicator gives a confidence of 1
+    const totalWeight = indicators.reduce((sum, ind) => sum + ind.weight, 0);
+    if (totalWeight <= 0) return 0;
+
     const weightedConfidence = indicators.reduce(
-      (sum, ind) => sum + (Math.abs(ind.contribution) * ind.weight),
+      (sum, ind) => sum + Math.abs(ind.contribution),
       0
-    );
+    ) / totalWeight;
 
     return Math.min(1, weightedConfidence);
   }
@@ -322,7 +434,7 @@ export class TradingSignalGenerator extends EventEmitter {
   private startSignalMaintenance(): void {
     setInterval(() => {
       this.cleanupExpiredSignals();
-    }, this.SIGNAL_EXPIRY);
+    }, this.SIGNAL_EXPIRY).unref();
   }
 
   private cleanupExpiredSignals(): void {
@@ -367,7 +479,16 @@ export class TradingSignalGenerator extends EventEmitter {
         platform: ''
       });
 
-      return JSON.parse(analysis);
+      const result = JSON.parse(analysis);
+
+      // Discount combinations of signal types with a poor track record
+      const typeWeights = this.performance.getWeights().types;
+      const averageWeight = signals.length
+        ? signals.reduce((sum, s) => sum + (typeWeights[s.type] ?? 1), 0) / signals.length
+        : 1;
+      result.confidence = Math.min(1, Math.max(0, Number(result.confidence) * averageWeight));
+
+      return result;
     } catch (error) {
       console.error('Error validating signal combination:', error);
       return {
@@ -379,6 +500,15 @@ export class TradingSignalGenerator extends EventEmitter {
   }
 
   private buildSignalAnalysisPrompt(signals: TradingSignal[]): string {
+    const stats = this.performance.getStats();
+    const trackRecord = (type: SignalType) => {
+      const typeStats = stats.find(s => s.kind === 'type' && s.key === type);
+      return typeStats && typeStats.samples
+        ? `${(typeStats.hitRate * 100).toFixed(0)}% hit rate over ${typeStats.samples} signals, ` +
+          `expectancy ${(typeStats.expectancy * 100).toFixed(2)}%`
+        : 'no history yet';
+    };
+
     return `
       Analyze the following trading signals:
       ${signals.map(s => `
@@ -387,6 +517,7 @@ export class TradingSignalGenerator extends EventEmitter {
         Strength: ${s.strength}
         Confidence: ${s.confidence}
         Timeframe: ${s.timeframe}
+        Track record: ${trackRecord(s.type)}
       `).join('\n')}
 
       Provide analysis in JSON format including:
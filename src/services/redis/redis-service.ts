@@ -209,6 +209,21 @@ export class RedisService {
     }
   }
 
+  /**
+   * Set a key only when it does not exist yet. Returns false when it did.
+   */
+  async setIfAbsent(key: string, value: any, ttlSeconds: number): Promise<boolean> {
+    try {
+      this.commandCount++;
+      const result = await this.client.set(key, JSON.stringify(value), 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      this.failedCommandCount++;
+      this.logger.error(`Failed to set key if absent: ${key}`, error);
+      throw error;
+    }
+  }
+
   async delete(key: string): Promise<void> {
     try {
       this.commandCount++;
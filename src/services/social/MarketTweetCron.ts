@@ -12,6 +12,9 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import { TokenProvider } from '@/providers/token.js';
 import { WalletProvider } from '@/providers/wallet.js';
 import { RedisService } from '../market/data/RedisCache.js';
+import { ThreadPublisher, ThreadRecord, ThreadSegment, composeThread } from './engagement/threadComposer.js';
+import { chartService, ChartService } from '../market/charts/chartService.js';
+import type { CandleResolution } from '../market/data/candleStore.js';
 
 
 
@@ -20,6 +23,10 @@ interface MarketTweetOptions {
   interval?: number;
   maxRetries?: number;
   retryDelay?: number;
+  /** Post a recap thread every day at this UTC hour */
+  dailyRecapHourUtc?: number;
+  /** Charts or images for the first part of the recap, the token's chart by default */
+  recapMedia?: (marketData: MarketData) => Promise<string[]>;
 }
 
 export class MarketTweetCron {
@@ -29,8 +36,12 @@ export class MarketTweetCron {
   private jupiterService: JupiterPriceV2Service;
   private heliusService: HeliusService;
   private intervalId?: NodeJS.Timeout;
+  private recapTimer?: NodeJS.Timeout;
+  private threadPublisher: ThreadPublisher;
+  private charts: ChartService;
 
   private readonly DEFAULT_INTERVAL = 1800000; // 30 minutes
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 5000; // 5 seconds
 
@@ -38,11 +49,16 @@ export class MarketTweetCron {
     tweetGenerator: TweetGenerator,
     tradingService: TradingService,
     twitterClient: AgentTwitterClientService,
-    heliusApiKey: string
+    heliusApiKey: string,
+    threadPublisher?: ThreadPublisher,
+    charts: ChartService = chartService
   ) {
     this.tweetGenerator = tweetGenerator;
     this.tradingService = tradingService;
     this.twitterClient = twitterClient;
+    this.threadPublisher = threadPublisher ||
+      new ThreadPublisher((text, options) => this.twitterClient.publishTweet(text, options));
+    this.charts = charts;
     
     // Ensure environment variables are defined
     const redisHost = process.env.REDIS_HOST || 'localhost';
@@ -92,6 +108,10 @@ export class MarketTweetCron {
         options.interval || this.DEFAULT_INTERVAL
       );
 
+      if (options.dailyRecapHourUtc !== undefined) {
+        this.scheduleDailyRecap(options);
+      }
+
       elizaLogger.info(`Market tweet cron started with ${options.interval || this.DEFAULT_INTERVAL}ms interval`);
     } catch (error) {
       elizaLogger.error('Failed to start market tweet cron:', error);
@@ -118,60 +138,114 @@ export class MarketTweetCron {
       this.intervalId = undefined;
       elizaLogger.info('Market tweet cron stopped');
     }
+    if (this.recapTimer) {
+      clearTimeout(this.recapTimer);
+      this.recapTimer = undefined;
+    }
   }
 
-  private async postMarketUpdate(tokenAddress: string): Promise<void> {
-    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+  /**
+   * Post the day's recap as a thread. Each day has one thread, so calling
+   * this again resumes a recap that failed part way and leaves a finished
+   * one alone.
+   */
+  public async publishDailyRecap(
+    tokenAddress: string,
+    options: Pick<MarketTweetOptions, 'recapMedia'> = {},
+    date: Date = new Date()
+  ): Promise<ThreadRecord> {
+    const id = `recap:${tokenAddress}:${date.toISOString().slice(0, 10)}`;
+    if (await this.threadPublisher.getThread(id)) {
+      return this.threadPublisher.resume(id);
+    }
+
+    const marketData = await this.collectMarketData(tokenAddress);
+    const tweets = await this.tweetGenerator.generateThreadFromMarketUpdate(marketData);
+    const media = options.recapMedia
+      ? await options.recapMedia(marketData)
+      : await this.renderChart(tokenAddress, '1h', 24);
+    const segments: ThreadSegment[] = tweets.map((text, i) => ({
+      text,
+      mediaUrls: i === 0 && media.length ? media : undefined
+    }));
+
+    return this.threadPublisher.publish(composeThread(segments), { id });
+  }
+
+  private scheduleDailyRecap(options: MarketTweetOptions): void {
+    const next = new Date();
+    next.setUTCHours(options.dailyRecapHourUtc!, 0, 0, 0);
+    if (next.getTime() <= Date.now()) {
+      next.setTime(next.getTime() + this.DAY_MS);
+    }
+
+    this.recapTimer = setTimeout(async () => {
       try {
-        elizaLogger.info('Fetching market data...');
-        
-        // Get base market data
-        const baseMarketData = await this.tradingService.getMarketData(tokenAddress);
-        
-        // Get holder information
-        const holderInfo = await this.heliusService.getHoldersClassification(tokenAddress);
-        if (!holderInfo) {
-          throw new Error('Failed to fetch holder information');
-        }
+        await this.publishDailyRecap(options.tokenAddress, options);
+      } catch (error) {
+        elizaLogger.error('Failed to publish daily recap thread:', error);
+      }
+      this.scheduleDailyRecap(options);
+    }, next.getTime() - Date.now());
+  }
 
-        // Get Jupiter price data
-        const tokenPrice = await this.jupiterService.getTokenPrice(tokenAddress);
-        if (!tokenPrice) {
-          throw new Error('Failed to fetch Jupiter price data');
-        }
+  private async collectMarketData(tokenAddress: string): Promise<MarketData> {
+    elizaLogger.info('Fetching market data...');
+    
+    // Get base market data
+    const baseMarketData = await this.tradingService.getMarketData(tokenAddress);
+    
+    // Get holder information
+    const holderInfo = await this.heliusService.getHoldersClassification(tokenAddress);
+    if (!holderInfo) {
+      throw new Error('Failed to fetch holder information');
+    }
 
-        // Get recent transactions
-        const [recentTransactions, recentSwaps] = await Promise.all([
-          this.heliusService.getTransactions(tokenAddress, { limit: 100 }),
-          this.heliusService.getJupiterSwaps(tokenAddress, { limit: 100 })
-        ]);
-
-        // Enhance market data
-        const enhancedMarketData: MarketData = {
-          ...baseMarketData,
-          tokenAddress,
-          price: Number(tokenPrice.price),
-          volume24h: tokenPrice.extraInfo?.quotedPrice?.buyPrice 
-            ? Number(tokenPrice.extraInfo.quotedPrice.buyPrice) * baseMarketData.volume24h 
-            : baseMarketData.volume24h,
-          holders: {
-            total: holderInfo.totalHolders,
-            top: holderInfo.topHolders.slice(0, 5).map(holder => ({
-              address: holder.owner,
-              balance: holder.balance,
-              percentage: (holder.balance / holderInfo.totalSupply) * 100
-            }))
-          },
-          onChainActivity: {
-            transactions: recentTransactions.length,
-            swaps: recentSwaps.length,
-            uniqueTraders: new Set(recentSwaps.map((swap: JupiterSwap) => swap.data.author_id)).size
-          },
-          confidence: tokenPrice.extraInfo?.confidenceLevel || 'medium',
-          lastUpdate: Date.now()
-        };
+    // Get Jupiter price data
+    const tokenPrice = await this.jupiterService.getTokenPrice(tokenAddress);
+    if (!tokenPrice) {
+      throw new Error('Failed to fetch Jupiter price data');
+    }
+
+    // Get recent transactions
+    const [recentTransactions, recentSwaps] = await Promise.all([
+      this.heliusService.getTransactions(tokenAddress, { limit: 100 }),
+      this.heliusService.getJupiterSwaps(tokenAddress, { limit: 100 })
+    ]);
+
+    // Enhance market data
+    const enhancedMarketData: MarketData = {
+      ...baseMarketData,
+      tokenAddress,
+      price: Number(tokenPrice.price),
+      volume24h: tokenPrice.extraInfo?.quotedPrice?.buyPrice 
+        ? Number(tokenPrice.extraInfo.quotedPrice.buyPrice) * baseMarketData.volume24h 
+        : baseMarketData.volume24h,
+      holders: {
+        total: holderInfo.totalHolders,
+        top: holderInfo.topHolders.slice(0, 5).map(holder => ({
+          address: holder.owner,
+          balance: holder.balance,
+          percentage: (holder.balance / holderInfo.totalSupply) * 100
+        }))
+      },
+      onChainActivity: {
+        transactions: recentTransactions.length,
+        swaps: recentSwaps.length,
+        uniqueTraders: new Set(recentSwaps.map((swap: JupiterSwap) => swap.data.author_id)).size
+      },
+      confidence: tokenPrice.extraInfo?.confidenceLevel || 'medium',
+      lastUpdate: Date.now()
+    };
+
+    elizaLogger.info('Enhanced market data:', enhancedMarketData);
+    return enhancedMarketData;
+  }
 
-        elizaLogger.info('Enhanced market data:', enhancedMarketData);
+  private async postMarketUpdate(tokenAddress: string): Promise<void> {
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        const enhancedMarketData = await this.collectMarketData(tokenAddress);
 
         // Generate and post tweet
         const tweet = await this.tweetGenerator.generateTweetContent({
@@ -188,9 +262,8 @@ export class MarketTweetCron {
           }
         });
 
-        await this.twitterClient.postTweet(tweet.content, {
-          replyToTweetId: undefined
-        });
+        const mediaUrls = await this.renderChart(tokenAddress, '1h', 48);
+        await this.twitterClient.publishTweet(tweet.content, { mediaUrls });
         elizaLogger.success('Market update tweet posted successfully:', tweet.content);
         
         return;
@@ -208,6 +281,20 @@ export class MarketTweetCron {
     }
   }
 
+  /**
+   * Chart of the token's recent candles, or nothing so the tweet still goes
+   * out as text when there is no history or rendering fails.
+   */
+  private async renderChart(tokenAddress: string, resolution: CandleResolution, count: number): Promise<string[]> {
+    try {
+      const chart = await this.charts.renderTokenChart(tokenAddress, { resolution, count });
+      return chart ? [chart] : [];
+    } catch (error) {
+      elizaLogger.warn('Failed to render market chart, posting without it:', error);
+      return [];
+    }
+  }
+
   private determineMarketTone(marketData: MarketData): 'bullish' | 'bearish' | 'neutral' {
     if (!marketData.priceChange24h) return 'neutral';
 
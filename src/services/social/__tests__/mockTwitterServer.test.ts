@@ -0,0 +1,86 @@
+import { describe, test, expect } from '@jest/globals';
+import { ApiResponseError, ETwitterStreamEvent } from 'twitter-api-v2';
+import { MockTwitterServer } from '../mockTwitterServer.js';
+import { AgentTwitterClientService } from '../agentTwitterClient.js';
+import { AIService } from '../../ai/ai.js';
+
+// Sentiment prompts get a score, everything else a reply
+const aiService = {
+  generateResponse: async ({ channel, content }: { channel?: string; content: string }) =>
+    channel === 'sentiment'
+      ? JSON.stringify({ sentiment_score: content.includes('love') ? 0.9 : -0.4, magnitude: 1, confidence: 0.9 })
+      : 'thanks fren'
+} as unknown as AIService;
+
+describe('MockTwitterServer', () => {
+  test('runs scripted mentions through the scraper client and stream handler', async () => {
+    const server = new MockTwitterServer({ agent: { username: 'meme_agent' } });
+    const client = new AgentTwitterClientService('@meme_agent', 'password', 'agent@example.com', aiService, () =>
+      server.createScraper()
+    );
+    await client.initialize();
+
+    const old = server.mention('early_bird', 'gm');
+    await client.startMentionMonitoring(60 * 60 * 1000);
+
+    const liked = server.mention('degen', 'I love this token');
+    server.mention('bear', 'this token is dead');
+    expect(await client.pollMentions()).toBe(2);
+    expect(await client.pollMentions()).toBe(0);
+
+    // Only the positive mention gets a reply, threaded under it
+    const [reply] = server.getPosted({ replies: true });
+    expect(reply).toMatchObject({ text: '@degen thanks fren', inReplyToId: liked.id, conversationId: liked.id });
+    expect(server.getReplies(old.id)).toEqual([]);
+
+    await client.likeTweet(liked.id);
+    await client.retweet(liked.id);
+    expect(server.getTweet(liked.id)).toMatchObject({
+      likedBy: [server.agent.id],
+      retweetedBy: [server.agent.id]
+    });
+
+    await client.cleanup();
+  });
+
+  test('serves the v2 API with a filtered stream, rate limit headers and Twitter errors', async () => {
+    let now = 1_700_000_000_000;
+    const server = new MockTwitterServer({ rateLimits: { tweet: 2 }, now: () => now });
+    const api = server.createApiClient();
+
+    const me = await api.v2.me();
+    await api.v2.updateStreamRules({ add: [{ value: `@${me.data.username}`, tag: 'mentions' }] });
+    const stream = await api.v2.searchStream();
+    const received: any[] = [];
+    stream.on(ETwitterStreamEvent.Data, (tweet: any) => received.push(tweet));
+
+    const mention = server.mention('degen', 'wen moon?');
+    await server.createApiClient('someone_else').v2.tweet('unrelated chatter');
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      data: { id: mention.id, author_id: server.addUser('degen').id },
+      matching_rules: [{ tag: 'mentions' }]
+    });
+
+    const posted = await api.v2.tweet({ text: 'soon', reply: { in_reply_to_tweet_id: mention.id } });
+    expect(server.getPosted().map(tweet => [tweet.id, tweet.inReplyToId])).toEqual([[posted.data.id, mention.id]]);
+    expect(server.getRateLimitHeaders('tweet')).toEqual({
+      'x-rate-limit-limit': '2',
+      'x-rate-limit-remaining': '1',
+      'x-rate-limit-reset': String((now + 15 * 60 * 1000) / 1000)
+    });
+
+    const duplicate = await api.v2.tweet('soon').catch(error => error);
+    expect(duplicate).toBeInstanceOf(ApiResponseError);
+    expect(duplicate.code).toBe(403);
+
+    const limited = await api.v2.tweet('later').catch(error => error);
+    expect(limited).toMatchObject({ code: 429, rateLimitError: true, rateLimit: { remaining: 0 } });
+    expect(limited.headers['x-rate-limit-remaining']).toBe('0');
+
+    // The window resets after 15 minutes
+    now += 15 * 60 * 1000;
+    await api.v2.tweet('later');
+    expect(server.getPosted().map(tweet => tweet.text)).toEqual(['soon', 'later']);
+  });
+});
@@ -1,6 +1,9 @@
 import { Scraper } from 'agent-twitter-client';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
 import { TwitterStreamHandler } from './TwitterStreamHandler.js';
 import { AIService } from '../ai/ai.js';
+import { mockTwitterServer } from './mockTwitterServer.js';
 
 export class AgentTwitterClientService {
   private scraper: Scraper | null = null;
@@ -8,12 +11,17 @@ export class AgentTwitterClientService {
   private monitoringInterval: NodeJS.Timeout | null = null;
   private isMonitoring = false;
   private streamHandler: TwitterStreamHandler | null = null;
+  private seenMentions = new Set<string>();
+  private readonly MAX_SEEN_MENTIONS = 1000;
 
   constructor(
     private username: string,
     private readonly password: string,
     private readonly email: string,
-    private readonly aiService: AIService
+    private readonly aiService: AIService,
+    // TWITTER_MOCK_MODE swaps the scraper for the in-process mock server
+    private readonly createScraper: () => Scraper = () =>
+      process.env.TWITTER_MOCK_MODE === 'true' ? mockTwitterServer.createScraper(username) : new Scraper()
   ) {
     // Remove @ from username if present
     this.username = this.username.startsWith('@') ? this.username.substring(1) : this.username;
@@ -145,7 +153,7 @@ export class AgentTwitterClientService {
         return;
       }
 
-      this.scraper = new Scraper();
+      this.scraper = this.createScraper();
       
       const hasCookies = await this.loadCookies();
       if (!hasCookies) {
@@ -214,7 +222,7 @@ export class AgentTwitterClientService {
       }
 
       // Send tweet with validated content
-      await this.scraper.sendTweet(content);
+      await this.scraper.sendTweet(content, p0?.replyToTweetId);
       return { success: true };
     } catch (error) {
       console.error('Error sending tweet:', error);
@@ -222,6 +230,51 @@ export class AgentTwitterClientService {
     }
   }
 
+  /**
+   * Post a tweet with optional images and return its id. Unlike postTweet
+   * this throws on failure, and long content is rejected rather than cut.
+   */
+  public async publishTweet(
+    content: string,
+    options: { replyToTweetId?: string; mediaUrls?: string[] } = {}
+  ): Promise<string> {
+    this.ensureInitialized();
+    if (content.length > 280) {
+      throw new Error('Tweet exceeds 280 characters');
+    }
+
+    const mediaData = await Promise.all((options.mediaUrls || []).slice(0, 4).map(url => this.loadMedia(url)));
+    const response = await this.scraper!.sendTweet(content, options.replyToTweetId, mediaData);
+    const body: any = await response.json();
+    const tweetId = body?.data?.create_tweet?.tweet_results?.result?.rest_id;
+    if (!tweetId) {
+      throw new Error(`Tweet was not created: ${JSON.stringify(body?.errors || body)}`);
+    }
+    return tweetId;
+  }
+
+  private async loadMedia(url: string): Promise<{ data: Buffer; mediaType: string }> {
+    const mediaTypes: Record<string, string> = {
+      '.png': 'image/png',
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.gif': 'image/gif',
+      '.webp': 'image/webp'
+    };
+
+    if (/^https?:\/\//.test(url)) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to download media ${url}: ${response.status}`);
+      }
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        mediaType: response.headers.get('content-type') || mediaTypes[extname(new URL(url).pathname)] || 'image/png'
+      };
+    }
+    return { data: await readFile(url), mediaType: mediaTypes[extname(url).toLowerCase()] || 'image/png' };
+  }
+
   public async getProfile(username: string): Promise<any> {
     try {
       this.ensureInitialized();
@@ -242,14 +295,13 @@ export class AgentTwitterClientService {
       if (!this.scraper) {
         throw new Error('Twitter client not initialized');
       }
-      // For replies, we'll construct the tweet with a mention
-      // This is a workaround since direct reply functionality isn't available
+      // Mention the author so the reply also shows up in their notifications
       const tweet = await this.scraper.getTweet(tweetId);
       if (!tweet) {
         throw new Error('Could not fetch original tweet');
       }
       const replyContent = `@${tweet.username} ${content}`;
-      await this.scraper.sendTweet(replyContent);
+      await this.scraper.sendTweet(replyContent, tweetId);
       return { success: true };
     } catch (error) {
       console.error('Error replying to tweet:', error);
@@ -269,6 +321,57 @@ export class AgentTwitterClientService {
     await this.scraper.retweet(tweetId);
   }
 
+  /**
+   * Hand mentions of the account that have not been seen yet to the stream
+   * handler. Returns how many were new.
+   */
+  public async pollMentions(respond = true): Promise<number> {
+    this.ensureInitialized();
+    if (!this.scraper || !this.streamHandler) return 0;
+
+    const handle = `@${this.getSanitizedUsername()}`.toLowerCase();
+    const mentions = (await this.scraper.search(handle, 'LATEST'))
+      .filter(tweet =>
+        !this.seenMentions.has(tweet.id) &&
+        tweet.username.toLowerCase() !== handle.substring(1) &&
+        tweet.text.toLowerCase().includes(handle)
+      )
+      .reverse();
+
+    for (const tweet of mentions) {
+      this.seenMentions.add(tweet.id);
+      if (!respond) continue;
+      await this.streamHandler.handleTweetEvent({
+        id: tweet.id,
+        text: tweet.text,
+        author_id: tweet.authorId,
+        author: { id: tweet.authorId, username: tweet.username },
+        created_at: new Date(tweet.createdAt).toISOString(),
+        referenced_tweets: tweet.referencedTweets
+      });
+    }
+
+    if (this.seenMentions.size > this.MAX_SEEN_MENTIONS) {
+      const oldest = Array.from(this.seenMentions).slice(0, this.seenMentions.size - this.MAX_SEEN_MENTIONS);
+      oldest.forEach(id => this.seenMentions.delete(id));
+    }
+    return mentions.length;
+  }
+
+  public async startMentionMonitoring(intervalMs = 60000): Promise<void> {
+    if (this.isMonitoring) return;
+    this.isMonitoring = true;
+    // Mentions from before monitoring started are not answered
+    await this.pollMentions(false);
+    this.monitoringInterval = setInterval(() => {
+      this.pollMentions().catch(error => console.error('Error polling mentions:', error));
+    }, intervalMs);
+  }
+
+  public getStreamHandler(): TwitterStreamHandler | null {
+    return this.streamHandler;
+  }
+
   public async cleanup(): Promise<void> {
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
@@ -4,13 +4,19 @@ import {
   Message, 
   TextChannel, 
   EmbedBuilder,
+  AttachmentBuilder,
   Interaction,
   ApplicationCommandType,
+  ApplicationCommandOptionType,
   ChatInputCommandInteraction
 } from 'discord.js';
+import { basename } from 'path';
 import { PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
 import { IAIService } from '../ai/types.js';
 import { WalletService, TokenService } from '../blockchain/types.js';
+import { PostQueue, PostStatus, QueuedPost } from './engagement/postQueue.js';
+import { chartService, ChartService } from '../market/charts/chartService.js';
 
 interface DiscordConfig {
   token: string;
@@ -18,11 +24,32 @@ interface DiscordConfig {
   aiService: IAIService;
   walletService?: WalletService;
   tokenService?: TokenService;
+  postQueue?: PostQueue;
+  /** Discord user ids allowed to approve posts, defaults to DISCORD_APPROVER_IDS */
+  approverIds?: string[];
+  /** Channel that approval requests are posted to, defaults to DISCORD_APPROVAL_CHANNEL_ID */
+  approvalChannelId?: string;
+  charts?: ChartService;
+}
+
+interface EmbedContent {
+  title: string;
+  description: string;
+  fields: { name: string; value: string; inline: boolean; }[];
+  /** Path of a PNG, such as a rendered chart, shown as the embed image */
+  image?: string;
+}
+
+interface CommandOption {
+  name: string;
+  description: string;
+  required?: boolean;
 }
 
 interface CommandHandler {
   name: string;
   description: string;
+  options?: CommandOption[];
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
 }
 
@@ -33,6 +60,10 @@ export class DiscordService {
   private aiService: IAIService;
   private walletService?: WalletService;
   private tokenService?: TokenService;
+  private postQueue?: PostQueue;
+  private approverIds: Set<string>;
+  private approvalChannelId?: string;
+  private charts: ChartService;
 
   constructor(config: DiscordConfig) {
     this.discordClient = new DiscordClient({
@@ -48,9 +79,17 @@ export class DiscordService {
     this.aiService = config.aiService;
     this.walletService = config.walletService;
     this.tokenService = config.tokenService;
+    this.postQueue = config.postQueue;
+    this.approverIds = new Set(
+      config.approverIds ||
+      (process.env.DISCORD_APPROVER_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+    );
+    this.approvalChannelId = config.approvalChannelId || process.env.DISCORD_APPROVAL_CHANNEL_ID;
+    this.charts = config.charts || chartService;
     this.commands = new Map();
 
     this.initializeCommands();
+    this.initializeApprovalCommands();
     this.setupEventHandlers();
   }
 
@@ -60,7 +99,7 @@ export class DiscordService {
       console.log('Discord bot is online!');
       await this.registerCommands();
     } catch (error) {
-      console.error('Failed to start Discord bot:', error);
+      elizaLogger.error('Failed to start Discord bot:', error);
       throw error;
     }
   }
@@ -99,6 +138,84 @@ export class DiscordService {
     });
   }
 
+  private initializeApprovalCommands(): void {
+    if (!this.postQueue) return;
+
+    const postId = { name: 'post', description: 'Queued post id', required: true };
+    this.commands.set('queue', {
+      name: 'queue',
+      description: 'List posts waiting for approval',
+      execute: async (interaction) => {
+        await this.handleQueueCommand(interaction);
+      }
+    });
+
+    this.commands.set('approve', {
+      name: 'approve',
+      description: 'Approve a queued post',
+      options: [postId, { name: 'note', description: 'Note for the audit trail' }],
+      execute: async (interaction) => {
+        await this.handleApprovalCommand(interaction, (queue, approver) =>
+          queue.approve(interaction.options.getString('post', true), approver, {
+            note: interaction.options.getString('note') || undefined
+          })
+        );
+      }
+    });
+
+    this.commands.set('edit', {
+      name: 'edit',
+      description: 'Rewrite a post waiting for approval',
+      options: [postId, { name: 'content', description: 'New post text', required: true }],
+      execute: async (interaction) => {
+        await this.handleApprovalCommand(interaction, (queue, approver) =>
+          queue.edit(
+            interaction.options.getString('post', true),
+            approver,
+            interaction.options.getString('content', true)
+          )
+        );
+      }
+    });
+
+    this.commands.set('reject', {
+      name: 'reject',
+      description: 'Reject a queued post',
+      options: [postId, { name: 'reason', description: 'Why the post was rejected' }],
+      execute: async (interaction) => {
+        await this.handleApprovalCommand(interaction, (queue, approver) =>
+          queue.reject(
+            interaction.options.getString('post', true),
+            approver,
+            interaction.options.getString('reason') || undefined
+          )
+        );
+      }
+    });
+
+    this.commands.set('approvals', {
+      name: 'approvals',
+      description: 'Show recent approval decisions',
+      options: [{ name: 'post', description: 'Only decisions for this post' }],
+      execute: async (interaction) => {
+        await this.handleApprovalsCommand(interaction);
+      }
+    });
+
+    this.postQueue.on('approvalRequested', (post: QueuedPost) => {
+      if (!this.approvalChannelId) return;
+      this.sendMessage(this.approvalChannelId, {
+        title: 'Post awaiting approval',
+        description: post.content,
+        fields: [
+          { name: 'Post', value: post.id, inline: true },
+          { name: 'Category', value: post.metadata.category, inline: true },
+          { name: 'Scheduled', value: new Date(post.scheduledTime).toISOString(), inline: true }
+        ]
+      }).catch(error => elizaLogger.error('Error sending approval request:', error));
+    });
+  }
+
   private setupEventHandlers(): void {
     this.discordClient.on('ready', () => {
       console.log(`Logged in as ${this.discordClient.user?.tag}!`);
@@ -113,7 +230,7 @@ export class DiscordService {
       try {
         await command.execute(interaction);
       } catch (error) {
-        console.error('Error executing command:', error);
+        elizaLogger.error('Error executing command:', error);
         await interaction.reply({
           content: 'There was an error executing this command!',
           ephemeral: true
@@ -133,13 +250,17 @@ export class DiscordService {
       const commandData = Array.from(this.commands.values()).map(cmd => ({
         name: cmd.name,
         description: cmd.description,
-        type: ApplicationCommandType.ChatInput
+        type: ApplicationCommandType.ChatInput,
+        options: cmd.options?.map(option => ({
+          ...option,
+          type: ApplicationCommandOptionType.String
+        }))
       }));
 
       await guild.commands.set(commandData as any);
       console.log('Commands registered successfully!');
     } catch (error) {
-      console.error('Error registering commands:', error);
+      elizaLogger.error('Error registering commands:', error);
       throw error;
     }
   }
@@ -163,17 +284,21 @@ export class DiscordService {
         await message.reply({ embeds: [embed] });
       }
     } catch (error) {
-      console.error('Error handling message:', error);
+      elizaLogger.error('Error handling message:', error);
     }
   }
 
   private async handlePriceCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     await interaction.deferReply();
     try {
+      const token = this.configuredToken();
+      if (!token) {
+        await interaction.editReply('No token is configured, set TOKEN_ADDRESS to a mint address.');
+        return;
+      }
+
       // Get token price info
-      const tokenInfo = await this.tokenService?.getTokenInfo(
-        new PublicKey(process.env.TOKEN_ADDRESS!)
-      );
+      const tokenInfo = await this.tokenService?.getTokenInfo(token);
 
       const price = tokenInfo?.metadata?.price || 'N/A';
       const marketCap = tokenInfo?.metadata?.marketCap || 'N/A';
@@ -188,13 +313,37 @@ export class DiscordService {
           { name: '24h Volume', value: `$${volume24h}`, inline: true }
         );
 
-      await interaction.editReply({ embeds: [embed] });
+      const chart = await this.charts.renderTokenChart(token.toBase58())
+        .catch(error => {
+          elizaLogger.error('Error rendering price chart:', error);
+          return null;
+        });
+      const files = chart ? [this.attachImage(embed, chart)] : [];
+
+      await interaction.editReply({ embeds: [embed], files });
     } catch (error) {
-      console.error('Error handling price command:', error);
+      elizaLogger.error('Error handling price command:', error);
       await interaction.editReply('Error fetching price information!');
     }
   }
 
+  /**
+   * The token from TOKEN_ADDRESS, or null when it is missing or not a valid mint address.
+   */
+  private configuredToken(): PublicKey | null {
+    const address = process.env.TOKEN_ADDRESS;
+    if (!address) {
+      elizaLogger.warn('TOKEN_ADDRESS is not set');
+      return null;
+    }
+    try {
+      return new PublicKey(address);
+    } catch {
+      elizaLogger.warn(`TOKEN_ADDRESS is not a valid mint address: ${address}`);
+      return null;
+    }
+  }
+
   private async handleWalletCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     await interaction.deferReply({ ephemeral: true });
     try {
@@ -213,7 +362,7 @@ export class DiscordService {
 
       await interaction.editReply({ embeds: [embed] });
     } catch (error) {
-      console.error('Error handling wallet command:', error);
+      elizaLogger.error('Error handling wallet command:', error);
       await interaction.editReply('Error creating wallet!');
     }
   }
@@ -231,7 +380,7 @@ export class DiscordService {
 
       await interaction.editReply({ embeds: [embed] });
     } catch (error) {
-      console.error('Error handling market command:', error);
+      elizaLogger.error('Error handling market command:', error);
       await interaction.editReply('Error generating market analysis!');
     }
   }
@@ -252,12 +401,81 @@ export class DiscordService {
 
       await interaction.editReply({ embeds: [embed] });
     } catch (error) {
-      console.error('Error handling airdrop command:', error);
+      elizaLogger.error('Error handling airdrop command:', error);
       await interaction.editReply('Error processing airdrop!');
     }
   }
 
-  async sendMessage(channelId: string, content: string | { title: string; description: string; fields: { name: string; value: string; inline: boolean; }[]; }): Promise<void> {
+  private async handleQueueCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply({ ephemeral: true });
+    try {
+      const posts = await this.postQueue!.getPostsByStatus(PostStatus.AWAITING_APPROVAL);
+      const embed = new EmbedBuilder()
+        .setColor('#0099ff')
+        .setTitle('Posts Awaiting Approval')
+        .setDescription(posts.length ? `${posts.length} post(s) waiting` : 'Nothing to approve')
+        .addFields(posts.slice(0, 25).map(post => ({
+          name: post.id,
+          value: post.content.slice(0, 1024)
+        })));
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      elizaLogger.error('Error handling queue command:', error);
+      await interaction.editReply('Error fetching the post queue!');
+    }
+  }
+
+  private async handleApprovalCommand(
+    interaction: ChatInputCommandInteraction,
+    decide: (queue: PostQueue, approver: { id: string; channel: string }) => Promise<QueuedPost>
+  ): Promise<void> {
+    if (!this.approverIds.has(interaction.user.id)) {
+      await interaction.reply({ content: 'You are not allowed to approve posts.', ephemeral: true });
+      return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+    try {
+      const post = await decide(this.postQueue!, { id: interaction.user.tag, channel: 'discord' });
+      const embed = new EmbedBuilder()
+        .setColor(post.status === PostStatus.REJECTED ? '#ff0000' : '#00ff00')
+        .setTitle(`Post ${post.status.replace('_', ' ')}`)
+        .setDescription(post.content)
+        .setFooter({ text: post.id });
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      elizaLogger.error('Error handling approval command:', error);
+      await interaction.editReply(error instanceof Error ? error.message : 'Error updating the post!');
+    }
+  }
+
+  private async handleApprovalsCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply({ ephemeral: true });
+    try {
+      const entries = await this.postQueue!.getAuditTrail({
+        postId: interaction.options.getString('post') || undefined,
+        limit: 25
+      });
+      const embed = new EmbedBuilder()
+        .setColor('#0099ff')
+        .setTitle('Approval Audit Trail')
+        .setDescription(entries.length ? `${entries.length} decision(s)` : 'No decisions recorded')
+        .addFields(entries.map(entry => ({
+          name: `${entry.postId} ${entry.action}`,
+          value: `${entry.actor} via ${entry.channel}, ${new Date(entry.timestamp).toISOString()}` +
+            (entry.note ? `\n${entry.note}` : '')
+        })));
+
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      elizaLogger.error('Error handling approvals command:', error);
+      await interaction.editReply('Error fetching the audit trail!');
+    }
+  }
+
+  async sendMessage(channelId: string, content: string | EmbedContent): Promise<void> {
     try {
       const channel = await this.discordClient.channels.fetch(channelId) as TextChannel;
       if (!channel) throw new Error('Channel not found');
@@ -269,20 +487,30 @@ export class DiscordService {
           .setTitle(content.title)
           .setDescription(content.description)
           .addFields(content.fields);
+        const files = content.image ? [this.attachImage(embed, content.image)] : [];
 
-        await channel.send({ embeds: [embed] });
+        await channel.send({ embeds: [embed], files });
       }
     } catch (error) {
-      console.error('Error sending message:', error);
+      elizaLogger.error('Error sending message:', error);
       throw error;
     }
   }
 
+  /**
+   * Upload a local image with the message and show it inside the embed.
+   */
+  private attachImage(embed: EmbedBuilder, path: string): AttachmentBuilder {
+    const name = basename(path);
+    embed.setImage(`attachment://${name}`);
+    return new AttachmentBuilder(path, { name });
+  }
+
   async cleanup(): Promise<void> {
     try {
       await this.discordClient.destroy();
     } catch (error) {
-      console.error('Error cleaning up Discord service:', error);
+      elizaLogger.error('Error cleaning up Discord service:', error);
     }
   }
 }
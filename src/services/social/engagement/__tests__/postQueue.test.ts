@@ -0,0 +1,209 @@
+import { describe, test, expect } from '@jest/globals';
+import type { ClientRequest, IncomingMessage } from 'http';
+import { ApiResponseError } from 'twitter-api-v2';
+import { PostQueue, PostQueueState, PostQueueStore, PostStatus } from '../postQueue.js';
+import type { TwitterService } from '../../twitter.js';
+import { Platform } from '../../../../personality/traits/responsePatterns.js';
+import { IAIService } from '../../../ai/types.js';
+
+const createStore = () => {
+  let saved: PostQueueState = { posts: [], audit: [] };
+  const claims = new Set<string>();
+  const store: PostQueueStore = {
+    load: async () => JSON.parse(JSON.stringify(saved)),
+    save: async state => { saved = JSON.parse(JSON.stringify(state)); },
+    claim: async key => {
+      if (claims.has(key)) return false;
+      claims.add(key);
+      return true;
+    },
+    release: async key => { claims.delete(key); }
+  };
+  return store;
+};
+
+const apiError = (code: number) => new ApiResponseError(`Request failed with code ${code}`, {
+  code,
+  data: { title: 'Error', detail: 'Error', type: 'about:blank', status: code },
+  headers: {},
+  request: {} as ClientRequest,
+  response: { statusCode: code } as IncomingMessage
+});
+
+/** Throws the given errors on the first calls, then publishes */
+const createTwitter = (...errors: Error[]) => {
+  const tweets: string[] = [];
+  const service: Pick<TwitterService, 'tweet'> = {
+    tweet: async content => {
+      const error = errors.shift();
+      if (error) throw error;
+      tweets.push(content);
+      return { data: { id: `tweet-${tweets.length}`, text: content } };
+    }
+  };
+  return { tweets, service };
+};
+
+const aiService = { generateResponse: async () => 'generated gm' } as unknown as IAIService;
+
+const post = (content: string, extra: Record<string, unknown> = {}) => ({
+  content,
+  platform: Platform.TWITTER,
+  priority: 1,
+  scheduledTime: Date.now(),
+  metadata: { type: 'update', category: 'general', tags: [] },
+  ...extra
+});
+
+describe('PostQueue', () => {
+  test('survives restarts and never publishes an idempotency key twice', async () => {
+    const store = createStore();
+    const twitter = createTwitter(apiError(429));
+    const first = new PostQueue({ aiService, twitterService: twitter.service, store, autoStart: false });
+
+    const id = await first.addToQueue(post('gm', { idempotencyKey: 'daily-gm' }));
+    expect(await first.addToQueue(post('gm again', { idempotencyKey: 'daily-gm' }))).toBe(id);
+
+    // The first attempt is rate limited and retried later
+    await first.processQueue();
+    await first.processQueue();
+    const retrying = await first.getPost(id);
+    expect(retrying).toMatchObject({ status: PostStatus.SCHEDULED, retryCount: 1, lastError: 'Request failed with code 429' });
+
+    // A new queue on the same store picks the post up
+    const queue = new PostQueue({ aiService, twitterService: twitter.service, store, autoStart: false });
+    await queue.processQueue(retrying!.scheduledTime);
+    expect(await queue.getPost(id)).toMatchObject({ status: PostStatus.COMPLETED, externalId: 'tweet-1' });
+
+    // A crash after publishing leaves the post processing, the claimed key stops a second tweet
+    const state = await store.load();
+    state.posts[0].status = PostStatus.PROCESSING;
+    await store.save(state);
+    const restarted = new PostQueue({ aiService, twitterService: twitter.service, store, autoStart: false });
+    await restarted.processQueue(retrying!.scheduledTime);
+    expect(await restarted.getPost(id)).toMatchObject({ status: PostStatus.FAILED });
+    expect(twitter.tweets).toEqual(['gm']);
+  });
+
+  test('holds posts for approval and records every decision', async () => {
+    const twitter = createTwitter();
+    const queue = new PostQueue({ aiService, twitterService: twitter.service, store: createStore(), requireApproval: true, autoStart: false });
+    const requested: string[] = [];
+    queue.on('approvalRequested', post => requested.push(post.id));
+
+    const approved = await queue.addToQueue(post('wen moon'));
+    const rejected = await queue.addToQueue(post('buy now!!!'));
+    await queue.processQueue();
+
+    expect(requested).toEqual([approved, rejected]);
+    expect((await queue.getAwaitingApproval()).map(p => p.id)).toEqual([approved, rejected]);
+    expect(twitter.tweets).toEqual([]);
+
+    const cli = { id: 'alice', channel: 'cli' };
+    const discord = { id: 'bob#0001', channel: 'discord' };
+    await expect(queue.edit(approved, cli, 'x'.repeat(281))).rejects.toThrow('exceeds 280');
+    await queue.edit(approved, cli, 'wen moon? soon', 'softer');
+    await queue.approve(approved, discord);
+    await queue.reject(rejected, discord, 'financial advice');
+    await expect(queue.approve(rejected, cli)).rejects.toThrow('not awaiting approval');
+
+    await queue.processQueue();
+    expect(twitter.tweets).toEqual(['wen moon? soon']);
+    expect(await queue.getPost(rejected)).toMatchObject({ status: PostStatus.REJECTED });
+
+    const trail = await queue.getAuditTrail({ postId: approved });
+    expect(trail.map(entry => [entry.action, entry.actor, entry.channel])).toEqual([
+      ['approved', 'bob#0001', 'discord'],
+      ['edited', 'alice', 'cli'],
+      ['requested', 'system', 'queue']
+    ]);
+    expect(trail[1]).toMatchObject({ previousContent: 'wen moon', content: 'wen moon? soon', note: 'softer' });
+    expect((await queue.getAuditTrail({ actor: 'bob#0001', action: 'rejected' }))[0]).toMatchObject({
+      postId: rejected,
+      note: 'financial advice'
+    });
+  });
+
+  test('keeps the idempotency claim when the publish outcome is unknown', async () => {
+    const store = createStore();
+    const twitter = createTwitter(new Error('socket hang up'), apiError(503));
+    const queue = new PostQueue({ aiService, twitterService: twitter.service, store, autoStart: false });
+    const uncertain: string[] = [];
+    queue.on('postUncertain', post => uncertain.push(post.id));
+
+    const lost = await queue.addToQueue(post('gm', { idempotencyKey: 'daily-gm' }));
+    const serverError = await queue.addToQueue(post('gn', { idempotencyKey: 'daily-gn' }));
+    await queue.processQueue();
+
+    expect(uncertain).toEqual([lost, serverError]);
+    expect(await queue.getPost(lost)).toMatchObject({ status: PostStatus.FAILED, retryCount: 0 });
+    expect((await queue.getPost(lost))!.lastError).toContain('outcome unknown');
+    // Both keys stay claimed, re-queueing them can't publish
+    expect(await store.claim('daily-gm', 'again', 60)).toBe(false);
+    expect(await store.claim('daily-gn', 'again', 60)).toBe(false);
+    expect(twitter.tweets).toEqual([]);
+  });
+
+  test('fails instead of overwriting the stored queue when loading it fails', async () => {
+    const store = createStore();
+    const twitter = createTwitter();
+    const queued = await new PostQueue({ aiService, twitterService: twitter.service, store, autoStart: false })
+      .addToQueue(post('gm'));
+
+    let failures = 1;
+    const flaky: PostQueueStore = {
+      ...store,
+      load: async () => {
+        if (failures-- > 0) throw new Error('Redis unavailable');
+        return store.load();
+      }
+    };
+    const queue = new PostQueue({ aiService, twitterService: twitter.service, store: flaky, autoStart: false });
+
+    await expect(queue.addToQueue(post('gn'))).rejects.toThrow('Redis unavailable');
+    await queue.addToQueue(post('gn'));
+    const { posts } = await store.load();
+    expect(posts.map(saved => saved.content)).toEqual(['gm', 'gn']);
+    expect(posts[0].id).toBe(queued);
+  });
+
+  test('puts a post back on the schedule when its idempotency key cannot be claimed', async () => {
+    const store = createStore();
+    const twitter = createTwitter();
+    let failures = 1;
+    const flaky: PostQueueStore = {
+      ...store,
+      claim: async (key, postId, ttlSeconds) => {
+        if (failures-- > 0) throw new Error('Redis unavailable');
+        return store.claim(key, postId, ttlSeconds);
+      }
+    };
+    const queue = new PostQueue({ aiService, twitterService: twitter.service, store: flaky, autoStart: false });
+
+    const id = await queue.addToQueue(post('gm', { idempotencyKey: 'daily-gm' }));
+    await queue.processQueue();
+    const retrying = await queue.getPost(id);
+    expect(retrying).toMatchObject({ status: PostStatus.SCHEDULED, retryCount: 1, lastError: 'Redis unavailable' });
+    expect(twitter.tweets).toEqual([]);
+
+    await queue.processQueue(retrying!.scheduledTime);
+    expect(await queue.getPost(id)).toMatchObject({ status: PostStatus.COMPLETED, externalId: 'tweet-1' });
+  });
+
+  test('publishes quotes as quote tweets', async () => {
+    const quoted: Array<string | undefined> = [];
+    const twitterService: Pick<TwitterService, 'tweet'> = {
+      tweet: async (content, options) => {
+        quoted.push(options?.quoteTweetId);
+        return { data: { id: 'tweet-1', text: content } };
+      }
+    };
+    const queue = new PostQueue({ aiService, twitterService, store: createStore(), autoStart: false });
+
+    const id = await queue.addToQueue(post('worth a read', { quoteTweetId: 'tweet-0' }));
+    await queue.processQueue();
+
+    expect(quoted).toEqual(['tweet-0']);
+    expect(await queue.getPost(id)).toMatchObject({ status: PostStatus.COMPLETED, quoteTweetId: 'tweet-0' });
+  });
+});
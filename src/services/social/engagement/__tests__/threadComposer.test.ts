@@ -0,0 +1,76 @@
+import { describe, test, expect } from '@jest/globals';
+import { ThreadPublisher, ThreadRecord, ThreadStore, composeThread } from '../threadComposer.js';
+import { MockTwitterServer } from '../../mockTwitterServer.js';
+
+const createStore = (): ThreadStore => {
+  let saved: ThreadRecord[] = [];
+  return {
+    load: async () => JSON.parse(JSON.stringify(saved)),
+    save: async threads => { saved = JSON.parse(JSON.stringify(threads)); }
+  };
+};
+
+describe('composeThread', () => {
+  test('packs sentences under the limit, numbers the parts and keeps media with its block', () => {
+    const sentence = (n: number) => `Sentence ${n} covers volume, holders and momentum in some detail.`;
+    const report = Array.from({ length: 12 }, (_, i) => sentence(i + 1)).join(' ');
+    const parts = composeThread([
+      `1/ ${report}`,
+      { text: 'Chart of the day (2/5)', mediaUrls: ['charts/sol-1h.png'] },
+      'x'.repeat(300)
+    ]);
+
+    expect(parts.every(part => part.text.length <= 280)).toBe(true);
+    expect(parts.map(part => part.text.match(/ (\d+)\/(\d+)$/)!.slice(1).map(Number)))
+      .toEqual(parts.map((_, i) => [i + 1, parts.length]));
+
+    // Report parts end on a sentence boundary and lose the generator's numbering
+    const chart = parts.findIndex(part => part.mediaUrls);
+    const reportParts = parts.slice(0, chart);
+    expect(reportParts.length).toBeGreaterThan(1);
+    expect(reportParts.every(part => /momentum in some detail\. \d+\/\d+$/.test(part.text))).toBe(true);
+    expect(reportParts.map(part => part.text.replace(/ \d+\/\d+$/, '')).join(' ')).toBe(report);
+
+    expect(parts[chart]).toEqual({
+      index: chart,
+      text: `Chart of the day ${chart + 1}/${parts.length}`,
+      mediaUrls: ['charts/sol-1h.png']
+    });
+    expect(parts.slice(chart + 1).map(part => part.text.replace(/ \d+\/\d+$/, '')).join('')).toBe('x'.repeat(300));
+    expect(composeThread('gm')).toEqual([{ index: 0, text: 'gm' }]);
+  });
+});
+
+describe('ThreadPublisher', () => {
+  test('posts a reply chain and resumes from the failed part', async () => {
+    let now = Date.now();
+    const server = new MockTwitterServer({ rateLimits: { tweet: 2 }, now: () => now });
+    const api = server.createApiClient();
+    const publisher = new ThreadPublisher(
+      async (text, options) => (await api.v2.tweet({
+        text,
+        ...(options.replyToTweetId && { reply: { in_reply_to_tweet_id: options.replyToTweetId } })
+      })).data.id,
+      { store: createStore(), partDelayMs: 0 }
+    );
+
+    const parts = composeThread(['Markets recap.', 'Volume up.', 'Holders up.']);
+    await expect(publisher.publish(parts, { id: 'recap:2024-01-01' })).rejects.toThrow('429');
+    const [failed] = await publisher.getFailedThreads();
+    expect(failed).toMatchObject({ id: 'recap:2024-01-01', status: 'failed' });
+    expect(failed.tweetIds).toHaveLength(2);
+
+    now += 15 * 60 * 1000;
+    const thread = await publisher.publish(parts, { id: 'recap:2024-01-01' });
+    expect(thread.status).toBe('completed');
+
+    const posted = server.getPosted();
+    expect(posted.map(tweet => tweet.text)).toEqual(['Markets recap. 1/3', 'Volume up. 2/3', 'Holders up. 3/3']);
+    expect(posted.map(tweet => tweet.inReplyToId)).toEqual([undefined, posted[0].id, posted[1].id]);
+    expect(thread.tweetIds).toEqual(posted.map(tweet => tweet.id));
+
+    // A finished thread is not posted again
+    await publisher.publish(parts, { id: 'recap:2024-01-01' });
+    expect(server.getPosted()).toHaveLength(3);
+  });
+});
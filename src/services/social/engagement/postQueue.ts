@@ -1,16 +1,25 @@
 // src/services/social/engagement/postQueue.ts
 
 import { EventEmitter } from 'events';
+import { ApiResponseError } from 'twitter-api-v2';
+import { elizaLogger } from "@ai16z/eliza";
 import { Platform } from '../../../personality/traits/responsePatterns.js';
-import { IAIService, ChatResponse } from '../../ai/types.js';
+import { IAIService } from '../../ai/types.js';
 import { TwitterService } from '../twitter.js';
+import { redisService } from '../../redis/redis-service.js';
+import { ValidationError } from '../../../utils/error-handler.js';
 
 interface PostQueueConfig {
   aiService: IAIService;
-  twitterService: TwitterService;
+  twitterService: Pick<TwitterService, 'tweet'>;
+  store?: PostQueueStore;
+  /** Hold every post for a human approver. Defaults to POST_APPROVAL_REQUIRED */
+  requireApproval?: boolean;
+  /** Start the processing loop from the constructor, on by default */
+  autoStart?: boolean;
 }
 
-interface QueuedPost {
+export interface QueuedPost {
   id: string;
   content: string;
   platform: Platform;
@@ -25,151 +34,340 @@ interface QueuedPost {
   };
   status: PostStatus;
   createdAt: number;
+  /** Posts sharing a key are only ever published once */
+  idempotencyKey: string;
+  requiresApproval: boolean;
+  /** Tweet this post quotes */
+  quoteTweetId?: string;
+  /** Id of the published tweet */
+  externalId?: string;
+  lastError?: string;
+  updatedAt: number;
 }
 
-enum PostStatus {
+export type NewPost = Omit<QueuedPost,
+  'id' | 'status' | 'createdAt' | 'retryCount' | 'idempotencyKey' | 'requiresApproval' | 'externalId' | 'lastError' | 'updatedAt'
+> & {
+  idempotencyKey?: string;
+  requiresApproval?: boolean;
+};
+
+export enum PostStatus {
   PENDING = 'pending',
+  AWAITING_APPROVAL = 'awaiting_approval',
   SCHEDULED = 'scheduled',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
+  REJECTED = 'rejected',
   FAILED = 'failed'
 }
 
+export type ApprovalAction = 'requested' | 'approved' | 'edited' | 'rejected';
+
+export interface ApprovalAuditEntry {
+  id: string;
+  postId: string;
+  action: ApprovalAction;
+  /** Approver name or id, 'system' for approval requests */
+  actor: string;
+  /** Where the decision was made, such as cli or discord */
+  channel: string;
+  timestamp: number;
+  note?: string;
+  previousContent?: string;
+  content?: string;
+}
+
+export interface AuditQuery {
+  postId?: string;
+  actor?: string;
+  action?: ApprovalAction;
+  since?: number;
+  limit?: number;
+}
+
+export interface Approver {
+  id: string;
+  channel: string;
+}
+
+export interface PostQueueState {
+  posts: QueuedPost[];
+  audit: ApprovalAuditEntry[];
+}
+
+export interface PostQueueStore {
+  load(): Promise<PostQueueState>;
+  save(state: PostQueueState): Promise<void>;
+  /**
+   * Claim an idempotency key before publishing. Returns false when the key
+   * was already claimed, by an earlier attempt or another instance.
+   */
+  claim(key: string, postId: string, ttlSeconds: number): Promise<boolean>;
+  /** Give a claim back after a publish that definitely failed */
+  release(key: string): Promise<void>;
+}
+
+export class RedisPostQueueStore implements PostQueueStore {
+  private readonly key: string;
+
+  constructor(key = 'social:postQueue') {
+    this.key = key;
+  }
+
+  public async load(): Promise<PostQueueState> {
+    return (await redisService.get<PostQueueState>(this.key)) || { posts: [], audit: [] };
+  }
+
+  public async save(state: PostQueueState): Promise<void> {
+    await redisService.set(this.key, state);
+  }
+
+  public claim(key: string, postId: string, ttlSeconds: number): Promise<boolean> {
+    return redisService.setIfAbsent(`${this.key}:published:${key}`, postId, ttlSeconds);
+  }
+
+  public async release(key: string): Promise<void> {
+    await redisService.delete(`${this.key}:published:${key}`);
+  }
+}
+
+/**
+ * Whether a publish error proves the post never went out: it was refused
+ * before sending, or the API answered with a client error. Timeouts, lost
+ * responses and server errors may hide a published tweet.
+ */
+function isRejected(error: unknown): boolean {
+  if (error instanceof ValidationError) return true;
+  return error instanceof ApiResponseError && error.code >= 400 && error.code < 500 && error.code !== 408;
+}
+
+/**
+ * Persistent queue of social posts. Posts move from PENDING to SCHEDULED,
+ * through AWAITING_APPROVAL when they need a human approver, and are
+ * published once due. Each post carries an idempotency key that is claimed
+ * before publishing, so retries, restarts and a second instance never post
+ * it twice. The claim is only given back when the API rejected the post; a
+ * publish with an unknown outcome fails the post and emits postUncertain.
+ * Approvals, edits and rejections are kept as an audit trail.
+ */
 export class PostQueue extends EventEmitter {
-  private queue: Map<string, QueuedPost>;
+  private state?: PostQueueState;
   private processingQueue: Set<string>;
+  private processingTimer?: NodeJS.Timeout;
+  private writes: Promise<unknown> = Promise.resolve();
   private readonly MAX_RETRY_COUNT = 3;
   private readonly MAX_QUEUE_SIZE = 1000;
+  private readonly MAX_AUDIT_ENTRIES = 5000;
+  private readonly MAX_TWEET_LENGTH = 280;
   private readonly PROCESSING_INTERVAL = 1000; // 1 second
+  private readonly CLAIM_TTL_SECONDS = 7 * 24 * 60 * 60; // Keys outlive the cleanup of their posts
 
   private aiService: IAIService;
-  private twitterService: TwitterService;
+  private twitterService: Pick<TwitterService, 'tweet'>;
+  private store: PostQueueStore;
+  private requireApproval: boolean;
 
   constructor(config: PostQueueConfig) {
     super();
-    this.queue = new Map();
     this.processingQueue = new Set();
     this.aiService = config.aiService;
     this.twitterService = config.twitterService;
-    this.startProcessingLoop();
-  }
-
-  public async addToQueue(post: Omit<QueuedPost, 'id' | 'status' | 'createdAt' | 'retryCount'>): Promise<string> {
-    if (this.queue.size >= this.MAX_QUEUE_SIZE) {
-      throw new Error('Queue is at maximum capacity');
+    this.store = config.store || new RedisPostQueueStore();
+    this.requireApproval = config.requireApproval ?? process.env.POST_APPROVAL_REQUIRED === 'true';
+    if (config.autoStart !== false) {
+      this.startProcessingLoop();
     }
+  }
 
-    const id = `post-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const queuedPost: QueuedPost = {
-      ...post,
-      id,
-      status: PostStatus.PENDING,
-      createdAt: Date.now(),
-      retryCount: 0
-    };
+  /**
+   * Queue a post. A post whose idempotency key is already queued is not
+   * added again, and the id of the existing post is returned.
+   */
+  public async addToQueue(post: NewPost): Promise<string> {
+    this.validateContent(post.platform, post.content);
+
+    return this.serialize(async () => {
+      const state = await this.load();
+      if (post.idempotencyKey) {
+        const existing = state.posts.find(p => p.idempotencyKey === post.idempotencyKey);
+        if (existing) return existing.id;
+      }
+      if (state.posts.length >= this.MAX_QUEUE_SIZE) {
+        throw new Error('Queue is at maximum capacity');
+      }
 
-    this.queue.set(id, queuedPost);
-    this.emit('postAdded', queuedPost);
+      const now = Date.now();
+      const id = `post-${now}-${Math.random().toString(36).substr(2, 9)}`;
+      const queuedPost: QueuedPost = {
+        ...post,
+        id,
+        status: PostStatus.PENDING,
+        createdAt: now,
+        updatedAt: now,
+        retryCount: 0,
+        idempotencyKey: post.idempotencyKey || id,
+        requiresApproval: post.requiresApproval ?? this.requireApproval
+      };
+
+      state.posts.push(queuedPost);
+      await this.save();
+      this.emit('postAdded', { ...queuedPost });
+      return id;
+    });
+  }
 
-    // Sort queue by priority and scheduled time
-    this.sortQueue();
+  public removeFromQueue(postId: string): Promise<void> {
+    return this.serialize(async () => {
+      const state = await this.load();
+      const index = state.posts.findIndex(p => p.id === postId);
+      if (index === -1) {
+        throw new ValidationError('Post not found in queue');
+      }
 
-    return id;
+      const [post] = state.posts.splice(index, 1);
+      await this.save();
+      this.emit('postRemoved', post);
+    });
   }
 
-  public async removeFromQueue(postId: string): Promise<void> {
-    const post = this.queue.get(postId);
-    if (!post) {
-      throw new Error('Post not found in queue');
-    }
-
-    this.queue.delete(postId);
-    this.emit('postRemoved', post);
+  public updatePost(
+    postId: string,
+    updates: Partial<Omit<QueuedPost, 'id' | 'createdAt' | 'idempotencyKey'>>
+  ): Promise<QueuedPost> {
+    return this.serialize(async () => {
+      const post = this.findPost(await this.load(), postId);
+      Object.assign(post, updates, { updatedAt: Date.now() });
+      await this.save();
+      this.emit('postUpdated', { ...post });
+      return { ...post };
+    });
   }
 
-  public async updatePost(
+  /**
+   * Approve a post waiting for approval. It is published at its scheduled
+   * time, or straight away when that has passed.
+   */
+  public approve(
     postId: string,
-    updates: Partial<Omit<QueuedPost, 'id' | 'createdAt'>>
+    approver: Approver,
+    options: { note?: string; scheduledTime?: number } = {}
   ): Promise<QueuedPost> {
-    const post = this.queue.get(postId);
-    if (!post) {
-      throw new Error('Post not found in queue');
+    return this.decide(postId, approver, 'approved', options.note, post => {
+      if (options.scheduledTime !== undefined) {
+        post.scheduledTime = options.scheduledTime;
+      }
+      post.status = PostStatus.SCHEDULED;
+    });
+  }
+
+  /**
+   * Change the text of a post waiting for approval. It still needs approving.
+   */
+  public async edit(postId: string, approver: Approver, content: string, note?: string): Promise<QueuedPost> {
+    if (!content.trim()) {
+      throw new ValidationError('Edited post is empty');
     }
+    return this.decide(postId, approver, 'edited', note, (post, entry) => {
+      this.validateContent(post.platform, content);
+      entry.previousContent = post.content;
+      entry.content = content;
+      post.content = content;
+    });
+  }
+
+  public reject(postId: string, approver: Approver, reason?: string): Promise<QueuedPost> {
+    return this.decide(postId, approver, 'rejected', reason, post => {
+      post.status = PostStatus.REJECTED;
+    });
+  }
 
-    const updatedPost = {
-      ...post,
-      ...updates
-    };
+  /**
+   * Approval decisions, newest first.
+   */
+  public async getAuditTrail(query: AuditQuery = {}): Promise<ApprovalAuditEntry[]> {
+    return (await this.load()).audit
+      .filter(entry =>
+        (!query.postId || entry.postId === query.postId) &&
+        (!query.actor || entry.actor === query.actor) &&
+        (!query.action || entry.action === query.action) &&
+        (query.since === undefined || entry.timestamp >= query.since)
+      )
+      .slice(-(query.limit || 50))
+      .reverse()
+      .map(entry => ({ ...entry }));
+  }
 
-    this.queue.set(postId, updatedPost);
-    this.emit('postUpdated', updatedPost);
+  public async getPost(postId: string): Promise<QueuedPost | undefined> {
+    const post = (await this.load()).posts.find(p => p.id === postId);
+    return post && { ...post };
+  }
 
-    // Re-sort queue if priority or scheduled time changed
-    if (updates.priority !== undefined || updates.scheduledTime !== undefined) {
-      this.sortQueue();
-    }
+  public async getQueueStatus(): Promise<Record<PostStatus, number> & { total: number }> {
+    const posts = (await this.load()).posts;
+    const counts = Object.fromEntries(
+      Object.values(PostStatus).map(status => [status, posts.filter(p => p.status === status).length])
+    ) as Record<PostStatus, number>;
+    return { total: posts.length, ...counts };
+  }
 
-    return updatedPost;
-  }
-
-  public getQueueStatus(): {
-    total: number;
-    pending: number;
-    scheduled: number;
-    processing: number;
-    completed: number;
-    failed: number;
-  } {
-    const posts = Array.from(this.queue.values());
-    return {
-      total: posts.length,
-      pending: posts.filter(p => p.status === PostStatus.PENDING).length,
-      scheduled: posts.filter(p => p.status === PostStatus.SCHEDULED).length,
-      processing: posts.filter(p => p.status === PostStatus.PROCESSING).length,
-      completed: posts.filter(p => p.status === PostStatus.COMPLETED).length,
-      failed: posts.filter(p => p.status === PostStatus.FAILED).length
-    };
-  }
-
-  public getPostsByStatus(status: PostStatus): QueuedPost[] {
-    return Array.from(this.queue.values())
+  public async getPostsByStatus(status: PostStatus): Promise<QueuedPost[]> {
+    return (await this.load()).posts
       .filter(post => post.status === status)
-      .sort((a, b) => b.priority - a.priority || a.scheduledTime - b.scheduledTime);
+      .sort((a, b) => b.priority - a.priority || a.scheduledTime - b.scheduledTime)
+      .map(post => ({ ...post }));
   }
 
-  public getPendingPosts(): QueuedPost[] {
+  public getPendingPosts(): Promise<QueuedPost[]> {
     return this.getPostsByStatus(PostStatus.PENDING);
   }
 
-  public getScheduledPosts(): QueuedPost[] {
+  public getAwaitingApproval(): Promise<QueuedPost[]> {
+    return this.getPostsByStatus(PostStatus.AWAITING_APPROVAL);
+  }
+
+  public getScheduledPosts(): Promise<QueuedPost[]> {
     return this.getPostsByStatus(PostStatus.SCHEDULED);
   }
 
-  public getFailedPosts(): QueuedPost[] {
+  public getFailedPosts(): Promise<QueuedPost[]> {
     return this.getPostsByStatus(PostStatus.FAILED);
   }
 
-  private sortQueue(): void {
-    const sortedEntries = Array.from(this.queue.entries())
-      .sort(([, a], [, b]) => {
-        // Sort by priority (high to low) and then by scheduled time (early to late)
-        return b.priority - a.priority || a.scheduledTime - b.scheduledTime;
-      });
-
-    this.queue = new Map(sortedEntries);
+  public startProcessingLoop(): void {
+    if (this.processingTimer) return;
+    this.processingTimer = setInterval(() => {
+      this.processQueue().catch(error => elizaLogger.error('Post queue processing failed:', error));
+    }, this.PROCESSING_INTERVAL);
   }
 
-  private startProcessingLoop(): void {
-    setInterval(() => {
-      this.processQueue();
-    }, this.PROCESSING_INTERVAL);
+  public stop(): void {
+    if (this.processingTimer) {
+      clearInterval(this.processingTimer);
+      this.processingTimer = undefined;
+    }
   }
 
-  private async processQueue(): Promise<void> {
-    const now = Date.now();
-    const readyPosts = Array.from(this.queue.values())
-      .filter(post => 
-        post.status === PostStatus.PENDING &&
+  /**
+   * Prepare pending posts for approval or scheduling, then publish the
+   * scheduled posts that are due.
+   */
+  public async processQueue(now: number = Date.now()): Promise<void> {
+    const state = await this.load();
+
+    // Written posts go to approval straight away, generated ones when due
+    const pending = state.posts.filter(post =>
+      post.status === PostStatus.PENDING &&
+      (post.content || post.scheduledTime <= now) &&
+      !this.processingQueue.has(post.id)
+    );
+    for (const post of pending) {
+      await this.preparePost(post);
+    }
+
+    const readyPosts = state.posts
+      .filter(post =>
+        post.status === PostStatus.SCHEDULED &&
         post.scheduledTime <= now &&
         !this.processingQueue.has(post.id)
       )
@@ -180,79 +378,266 @@ export class PostQueue extends EventEmitter {
     }
   }
 
+  public cleanup(): Promise<void> {
+    // Remove finished posts older than 24 hours. Their idempotency claims stay.
+    const cutoff = Date.now() - (24 * 60 * 60 * 1000);
+    const finished = [PostStatus.COMPLETED, PostStatus.FAILED, PostStatus.REJECTED];
+
+    return this.serialize(async () => {
+      const state = await this.load();
+      state.posts = state.posts.filter(post => !(finished.includes(post.status) && post.createdAt < cutoff));
+      await this.save();
+    });
+  }
+
+  /**
+   * Generate missing content, then hold the post for approval or schedule it.
+   */
+  private async preparePost(post: QueuedPost): Promise<void> {
+    this.processingQueue.add(post.id);
+    try {
+      let content = post.content;
+      if (!content && post.platform === Platform.TWITTER) {
+        try {
+          content = await this.generateContent(post);
+        } catch (error) {
+          elizaLogger.error(`Error generating content for post ${post.id}:`, error);
+        }
+      }
+
+      await this.serialize(async () => {
+        if (post.status !== PostStatus.PENDING) return;
+        post.content = content;
+        post.updatedAt = Date.now();
+        if (!content) {
+          this.retryOrFail(post, new Error('No content available for post'));
+        } else if (post.requiresApproval) {
+          post.status = PostStatus.AWAITING_APPROVAL;
+          this.recordAudit(post, 'requested', { id: 'system', channel: 'queue' }, undefined, content);
+          this.emit('approvalRequested', { ...post });
+        } else {
+          post.status = PostStatus.SCHEDULED;
+          this.emit('postScheduled', { ...post });
+        }
+        await this.save();
+      });
+    } finally {
+      this.processingQueue.delete(post.id);
+    }
+  }
+
   private async processPost(post: QueuedPost): Promise<void> {
     if (this.processingQueue.has(post.id)) {
       return; // Already processing
     }
 
     this.processingQueue.add(post.id);
-    post.status = PostStatus.PROCESSING;
-    this.emit('postProcessing', post);
-
     try {
+      await this.serialize(async () => {
+        post.status = PostStatus.PROCESSING;
+        post.updatedAt = Date.now();
+        await this.save();
+      });
+      this.emit('postProcessing', { ...post });
+
+      let claimed: boolean;
+      try {
+        claimed = await this.store.claim(post.idempotencyKey, post.id, this.CLAIM_TTL_SECONDS);
+      } catch (error) {
+        // Nothing was published, so the post goes back to the schedule
+        elizaLogger.error(`Failed to claim idempotency key ${post.idempotencyKey}:`, error);
+        await this.serialize(async () => {
+          this.retryOrFail(post, error);
+          await this.save();
+        });
+        return;
+      }
+      if (!claimed) {
+        await this.serialize(async () => {
+          post.status = PostStatus.FAILED;
+          post.lastError = `Idempotency key ${post.idempotencyKey} was already published or is being published`;
+          post.updatedAt = Date.now();
+          await this.save();
+        });
+        elizaLogger.warn(`Not publishing post ${post.id}: ${post.lastError}`);
+        this.emit('postDuplicate', { ...post });
+        return;
+      }
+
       try {
-        // Generate content if needed
-        let content = post.content;
-        if (!content && post.platform === 'twitter') {
-          const prompt = `Generate a fun, tweet-ready message about ${post.metadata.category}` + 
-            (post.metadata.tags.length ? ` including tags: ${post.metadata.tags.join(', ')}` : '') +
-            (post.metadata.campaign ? ` for campaign: ${post.metadata.campaign}` : '');
-
-          content = await this.aiService.generateResponse({
-            content: prompt,
-            author: 'system',
-            platform: 'twitter',
-            channel: post.id
+        const externalId = await this.publish(post);
+        await this.serialize(async () => {
+          post.status = PostStatus.COMPLETED;
+          post.externalId = externalId;
+          post.lastError = undefined;
+          post.updatedAt = Date.now();
+          await this.save();
+        });
+        this.emit('postCompleted', { ...post });
+      } catch (error) {
+        elizaLogger.error(`Error processing post ${post.id}:`, error);
+        if (!isRejected(error)) {
+          // The tweet may have gone out, keep the claim so it can't go out twice
+          await this.serialize(async () => {
+            post.status = PostStatus.FAILED;
+            post.lastError = `Publish outcome unknown, keeping idempotency key ${post.idempotencyKey}: ` +
+              (error instanceof Error ? error.message : String(error));
+            post.updatedAt = Date.now();
+            await this.save();
           });
+          this.emit('postUncertain', { ...post }, error);
+          return;
         }
 
-        if (!content) {
-          throw new Error('No content available for post');
-        }
+        // The post did not go out, so a retry may claim the key again
+        await this.store.release(post.idempotencyKey).catch(releaseError =>
+          elizaLogger.error(`Failed to release idempotency key ${post.idempotencyKey}:`, releaseError)
+        );
+        await this.serialize(async () => {
+          this.retryOrFail(post, error);
+          await this.save();
+        });
+      }
+    } finally {
+      this.processingQueue.delete(post.id);
+    }
+  }
 
-        // Post to appropriate platform
-        switch (post.platform) {
-          case 'twitter':
-            this.twitterService.tweet(content, { replyToTweetId: undefined });
-            break;
-          default:
-            throw new Error(`Unsupported platform: ${post.platform}`);
-        }
-      } catch (error) {
-        console.error(`Error processing post ${post.id}:`, error);
-        throw error; // Re-throw to be handled by the outer try-catch
+  private async publish(post: QueuedPost): Promise<string | undefined> {
+    switch (post.platform) {
+      case Platform.TWITTER: {
+        const result = await this.twitterService.tweet(post.content, { quoteTweetId: post.quoteTweetId });
+        return result?.data?.id;
       }
+      default:
+        throw new ValidationError(`Unsupported platform: ${post.platform}`);
+    }
+  }
 
-      post.status = PostStatus.COMPLETED;
-      this.emit('postCompleted', post);
-    } catch (error) {
-      console.error(`Error processing post ${post.id}:`, error);
-      
-      if (post.retryCount < this.MAX_RETRY_COUNT) {
-        post.retryCount++;
-        post.status = PostStatus.PENDING;
-        post.scheduledTime = Date.now() + (post.retryCount * 60000); // Retry after 1, 2, 3 minutes
-        this.emit('postRetrying', post);
-      } else {
-        post.status = PostStatus.FAILED;
-        this.emit('postFailed', post, error);
+  private generateContent(post: QueuedPost): Promise<string> {
+    const prompt = `Generate a fun, tweet-ready message about ${post.metadata.category}` +
+      (post.metadata.tags.length ? ` including tags: ${post.metadata.tags.join(', ')}` : '') +
+      (post.metadata.campaign ? ` for campaign: ${post.metadata.campaign}` : '');
+
+    return this.aiService.generateResponse({
+      content: prompt,
+      author: 'system',
+      platform: 'twitter',
+      channel: post.id
+    });
+  }
+
+  private retryOrFail(post: QueuedPost, error: unknown): void {
+    post.lastError = error instanceof Error ? error.message : String(error);
+    post.updatedAt = Date.now();
+    if (post.retryCount < this.MAX_RETRY_COUNT) {
+      post.retryCount++;
+      // Posts with content go straight back to the schedule, approval is not asked again
+      post.status = post.content ? PostStatus.SCHEDULED : PostStatus.PENDING;
+      post.scheduledTime = Date.now() + (post.retryCount * 60000); // Retry after 1, 2, 3 minutes
+      this.emit('postRetrying', { ...post });
+    } else {
+      post.status = PostStatus.FAILED;
+      this.emit('postFailed', { ...post }, error);
+    }
+  }
+
+  private decide(
+    postId: string,
+    approver: Approver,
+    action: Exclude<ApprovalAction, 'requested'>,
+    note: string | undefined,
+    apply: (post: QueuedPost, entry: Partial<ApprovalAuditEntry>) => void
+  ): Promise<QueuedPost> {
+    return this.serialize(async () => {
+      const post = this.findPost(await this.load(), postId);
+      if (post.status !== PostStatus.AWAITING_APPROVAL) {
+        throw new ValidationError(`Post ${postId} is ${post.status}, not awaiting approval`);
       }
-    } finally {
-      this.processingQueue.delete(post.id);
+
+      const entry: Partial<ApprovalAuditEntry> = {};
+      apply(post, entry);
+      post.updatedAt = Date.now();
+      this.recordAudit(post, action, approver, note, entry.content, entry.previousContent);
+      await this.save();
+
+      elizaLogger.info(`Post ${postId} ${action} by ${approver.id} via ${approver.channel}`);
+      this.emit(`post${action.charAt(0).toUpperCase()}${action.slice(1)}`, { ...post });
+      return { ...post };
+    });
+  }
+
+  private recordAudit(
+    post: QueuedPost,
+    action: ApprovalAction,
+    actor: Approver,
+    note?: string,
+    content?: string,
+    previousContent?: string
+  ): void {
+    const audit = this.state!.audit;
+    audit.push({
+      id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      postId: post.id,
+      action,
+      actor: actor.id,
+      channel: actor.channel,
+      timestamp: Date.now(),
+      note,
+      previousContent,
+      content
+    });
+    if (audit.length > this.MAX_AUDIT_ENTRIES) {
+      audit.splice(0, audit.length - this.MAX_AUDIT_ENTRIES);
     }
   }
 
-  public cleanup(): void {
-    // Remove completed and failed posts older than 24 hours
-    const cutoff = Date.now() - (24 * 60 * 60 * 1000);
-    
-    for (const [id, post] of this.queue.entries()) {
-      if (
-        (post.status === PostStatus.COMPLETED || post.status === PostStatus.FAILED) &&
-        post.createdAt < cutoff
-      ) {
-        this.queue.delete(id);
+  private validateContent(platform: Platform, content: string): void {
+    if (platform === Platform.TWITTER && content.length > this.MAX_TWEET_LENGTH) {
+      throw new ValidationError(`Tweet exceeds ${this.MAX_TWEET_LENGTH} characters`);
+    }
+  }
+
+  private findPost(state: PostQueueState, postId: string): QueuedPost {
+    const post = state.posts.find(p => p.id === postId);
+    if (!post) {
+      throw new ValidationError('Post not found in queue');
+    }
+    return post;
+  }
+
+  /**
+   * Posts left PROCESSING by a crash go back to the schedule. Their
+   * idempotency claim decides whether they were already published.
+   *
+   * Load errors propagate and the next call tries again; starting empty would
+   * let the next save overwrite the queue and its audit trail.
+   */
+  private async load(): Promise<PostQueueState> {
+    if (!this.state) {
+      const loaded = await this.store.load();
+      this.state = { posts: loaded.posts || [], audit: loaded.audit || [] };
+      for (const post of this.state.posts.filter(p => p.status === PostStatus.PROCESSING)) {
+        post.status = PostStatus.SCHEDULED;
       }
     }
+    return this.state;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.store.save(this.state || { posts: [], audit: [] });
+    } catch (error) {
+      elizaLogger.error('Failed to persist post queue:', error);
+    }
+  }
+
+  /**
+   * The queue is a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
   }
 }
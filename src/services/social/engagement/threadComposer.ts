@@ -0,0 +1,348 @@
+// src/services/social/engagement/threadComposer.ts
+
+import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
+import { redisService } from '../../redis/redis-service.js';
+import { ValidationError } from '../../../utils/error-handler.js';
+
+export interface ThreadPart {
+  index: number;
+  text: string;
+  /** Images or rendered charts, as file paths or URLs */
+  mediaUrls?: string[];
+}
+
+/**
+ * A block of thread content. Blocks never share a part, and media is
+ * attached to the first part of its block.
+ */
+export interface ThreadSegment {
+  text: string;
+  mediaUrls?: string[];
+}
+
+export type ThreadInput = string | Array<string | ThreadSegment>;
+
+export interface ComposeOptions {
+  maxLength?: number;
+  /** Append " 2/5" style numbers to every part, on by default */
+  numbered?: boolean;
+}
+
+export interface PostOptions {
+  replyToTweetId?: string;
+  mediaUrls?: string[];
+}
+
+/**
+ * Posts a single tweet and returns its id.
+ */
+export type ThreadPoster = (text: string, options: PostOptions) => Promise<string>;
+
+export type ThreadStatus = 'pending' | 'posting' | 'completed' | 'failed';
+
+export interface ThreadRecord {
+  id: string;
+  parts: ThreadPart[];
+  /** Ids of the parts posted so far, in order */
+  tweetIds: string[];
+  /** Tweet the first part replies to, if any */
+  replyToTweetId?: string;
+  status: ThreadStatus;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ThreadStore {
+  load(): Promise<ThreadRecord[]>;
+  save(threads: ThreadRecord[]): Promise<void>;
+}
+
+export class RedisThreadStore implements ThreadStore {
+  private readonly key: string;
+
+  constructor(key = 'social:threads') {
+    this.key = key;
+  }
+
+  public async load(): Promise<ThreadRecord[]> {
+    return (await redisService.get<ThreadRecord[]>(this.key)) || [];
+  }
+
+  public async save(threads: ThreadRecord[]): Promise<void> {
+    await redisService.set(this.key, threads);
+  }
+}
+
+const MAX_TWEET_LENGTH = 280;
+const MAX_MEDIA_PER_TWEET = 4;
+
+// Numbers the generators already put on their tweets, such as "1/" or "(2/5)"
+const LEADING_NUMBER = /^\s*(?:\d+\s*\/\s*\d*|\d+[.):])\s*/;
+const TRAILING_NUMBER = /\s*\(?\d+\s*\/\s*\d+\)?\s*$/;
+
+/**
+ * Split content into numbered parts that fit a tweet, breaking on sentence
+ * boundaries and only falling back to words when a sentence is too long.
+ */
+export function composeThread(input: ThreadInput, options: ComposeOptions = {}): ThreadPart[] {
+  const maxLength = options.maxLength ?? MAX_TWEET_LENGTH;
+  const numbered = options.numbered ?? true;
+  const segments = toSegments(input);
+  if (!segments.length) {
+    throw new ValidationError('Thread content is empty');
+  }
+
+  const oversized = segments.find(segment => (segment.mediaUrls?.length || 0) > MAX_MEDIA_PER_TWEET);
+  if (oversized) {
+    throw new ValidationError(`A thread part can carry at most ${MAX_MEDIA_PER_TWEET} media items`);
+  }
+
+  // The numbering eats into every part, so pack again if the part count gains a digit
+  let total = segments.length;
+  for (;;) {
+    const room = numbered ? maxLength - ` ${total}/${total}`.length : maxLength;
+    const parts = segments.flatMap(segment =>
+      splitText(segment.text, room).map((text, i) => ({
+        text,
+        mediaUrls: i === 0 && segment.mediaUrls?.length ? [...segment.mediaUrls] : undefined
+      }))
+    );
+
+    if (numbered && String(parts.length).length > String(total).length) {
+      total = parts.length;
+      continue;
+    }
+
+    return parts.map((part, index) => ({
+      index,
+      text: numbered && parts.length > 1
+        ? [part.text, `${index + 1}/${parts.length}`].filter(Boolean).join(' ')
+        : part.text,
+      ...(part.mediaUrls && { mediaUrls: part.mediaUrls })
+    }));
+  }
+}
+
+function toSegments(input: ThreadInput): ThreadSegment[] {
+  const blocks = typeof input === 'string' ? [input] : input;
+  return blocks
+    .map(block => (typeof block === 'string' ? { text: block } : block))
+    .map(block => ({
+      ...block,
+      text: block.text.replace(LEADING_NUMBER, '').replace(TRAILING_NUMBER, '').trim()
+    }))
+    .filter(block => block.text || block.mediaUrls?.length);
+}
+
+function splitText(text: string, room: number): string[] {
+  const sentences = text
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (candidate.length <= room) {
+      current = candidate;
+      continue;
+    }
+    if (current) parts.push(current);
+    current = '';
+
+    if (sentence.length <= room) {
+      current = sentence;
+      continue;
+    }
+    // A sentence longer than a tweet breaks between words
+    for (const word of sentence.split(/\s+/)) {
+      const next = current ? `${current} ${word}` : word;
+      if (next.length <= room) {
+        current = next;
+      } else {
+        if (current) parts.push(current);
+        current = word;
+        while (current.length > room) {
+          parts.push(current.slice(0, room));
+          current = current.slice(room);
+        }
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts.length ? parts : [''];
+}
+
+export interface ThreadPublisherOptions {
+  store?: ThreadStore;
+  /** Pause between parts, so the chain reads in order */
+  partDelayMs?: number;
+}
+
+/**
+ * Posts threads as reply chains. Progress is saved after every part, so a
+ * thread that fails part way resumes from the failed part instead of being
+ * posted again.
+ */
+export class ThreadPublisher extends EventEmitter {
+  private store: ThreadStore;
+  private threads?: ThreadRecord[];
+  private writes: Promise<unknown> = Promise.resolve();
+  private readonly partDelayMs: number;
+  private readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Finished threads are kept a week
+
+  constructor(private readonly post: ThreadPoster, options: ThreadPublisherOptions = {}) {
+    super();
+    this.store = options.store || new RedisThreadStore();
+    this.partDelayMs = options.partDelayMs ?? 2000;
+  }
+
+  /**
+   * Publish a thread. Publishing an id that is already known resumes that
+   * thread, and a completed thread is returned without posting anything.
+   */
+  public async publish(
+    parts: ThreadPart[],
+    options: { id?: string; replyToTweetId?: string } = {}
+  ): Promise<ThreadRecord> {
+    if (!parts.length) {
+      throw new ValidationError('Thread has no parts');
+    }
+
+    const id = options.id || `thread-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const existing = await this.getThread(id);
+    if (existing) {
+      return this.resume(id);
+    }
+
+    const now = Date.now();
+    await this.serialize(async () => {
+      const threads = await this.load();
+      threads.push({
+        id,
+        parts: parts.map(part => ({ ...part })),
+        tweetIds: [],
+        replyToTweetId: options.replyToTweetId,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now
+      });
+      this.prune(threads);
+      await this.persist();
+    });
+    return this.resume(id);
+  }
+
+  /**
+   * Post the remaining parts of a thread, starting after the last part
+   * that went out.
+   */
+  public async resume(id: string): Promise<ThreadRecord> {
+    const thread = (await this.load()).find(record => record.id === id);
+    if (!thread) {
+      throw new ValidationError(`Thread ${id} not found`);
+    }
+    if (thread.status === 'completed' || thread.status === 'posting') {
+      return { ...thread };
+    }
+
+    await this.update(thread, { status: 'posting', lastError: undefined });
+    for (let i = thread.tweetIds.length; i < thread.parts.length; i++) {
+      const part = thread.parts[i];
+      const replyToTweetId = i > 0 ? thread.tweetIds[i - 1] : thread.replyToTweetId;
+
+      try {
+        if (i > 0 && this.partDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.partDelayMs));
+        }
+        const tweetId = await this.post(part.text, { replyToTweetId, mediaUrls: part.mediaUrls });
+        await this.update(thread, { tweetIds: [...thread.tweetIds, tweetId] });
+        this.emit('partPosted', { threadId: id, index: i, tweetId });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        elizaLogger.error(`Thread ${id} failed at part ${i + 1}/${thread.parts.length}:`, message);
+        await this.update(thread, { status: 'failed', lastError: message });
+        this.emit('threadFailed', { ...thread });
+        throw error;
+      }
+    }
+
+    await this.update(thread, { status: 'completed' });
+    elizaLogger.success(`Thread ${id} posted in ${thread.parts.length} parts`);
+    this.emit('threadPublished', { ...thread });
+    return { ...thread };
+  }
+
+  public async getThread(id: string): Promise<ThreadRecord | undefined> {
+    const thread = (await this.load()).find(record => record.id === id);
+    return thread && { ...thread, parts: thread.parts.map(part => ({ ...part })), tweetIds: [...thread.tweetIds] };
+  }
+
+  /**
+   * Threads waiting to be resumed, most recent first.
+   */
+  public async getFailedThreads(): Promise<ThreadRecord[]> {
+    return (await this.load())
+      .filter(thread => thread.status === 'failed')
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(thread => ({ ...thread }));
+  }
+
+  private update(thread: ThreadRecord, changes: Partial<ThreadRecord>): Promise<void> {
+    return this.serialize(async () => {
+      Object.assign(thread, changes, { updatedAt: Date.now() });
+      await this.persist();
+    });
+  }
+
+  private prune(threads: ThreadRecord[]): void {
+    const cutoff = Date.now() - this.RETENTION_MS;
+    const kept = threads.filter(thread => thread.status !== 'completed' || thread.updatedAt >= cutoff);
+    threads.splice(0, threads.length, ...kept);
+  }
+
+  /**
+   * Load errors propagate and the next call tries again; starting empty would
+   * let the next save drop every thread still waiting to resume.
+   */
+  private async load(): Promise<ThreadRecord[]> {
+    if (!this.threads) {
+      this.threads = await this.store.load();
+      // A crash mid-thread leaves it posting, it resumes like a failed one
+      this.threads
+        .filter(thread => thread.status === 'posting')
+        .forEach(thread => { thread.status = 'failed'; });
+    }
+    return this.threads;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.threads || []);
+    } catch (error) {
+      elizaLogger.error('Failed to persist threads:', error);
+    }
+  }
+
+  /**
+   * The threads are a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Post through TwitterService.tweet.
+ */
+export function createTwitterServicePoster(
+  twitterService: { tweet(content: string, options?: PostOptions): Promise<{ data: { id: string } }> }
+): ThreadPoster {
+  return async (text, options) => (await twitterService.tweet(text, options)).data.id;
+}
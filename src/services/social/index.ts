@@ -1,5 +1,6 @@
 import { TwitterService } from './twitter';
 import { DiscordService } from './discord';
+import { TelegramService } from './telegram';
 import { MarketDataProcessor } from '../market/data/DataProcessor';
 import { JupiterPriceV2Service, JupiterService } from '../blockchain/defi/JupiterPriceV2Service';
 import { elizaLogger } from "@ai16z/eliza";
@@ -7,6 +8,10 @@ import { RedisService as RedisCacheService } from '../../services/market/data/Re
 import { TokenProvider } from '../../providers/token';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { WalletProvider } from '../../providers/wallet';
+import { PostQueue } from './engagement/postQueue';
+import { Platform } from '../../personality/traits/responsePatterns';
+import { ThreadPublisher, createTwitterServicePoster } from './engagement/threadComposer';
+import { ContentAmplifier } from './viral/contentAmplifier';
 
 export interface SocialMetrics {
   followers: number;
@@ -21,6 +26,17 @@ export interface SocialConfig {
   discord?: {
     token: string;
     guildId: string;
+    approverIds?: string[];
+    approvalChannelId?: string;
+  };
+  telegram?: {
+    botToken: string;
+  };
+  postQueue?: PostQueue;
+  /** Amplify tweets that outperform, needs twitter */
+  amplifier?: {
+    discordChannelId?: string;
+    telegramChatId?: string;
   };
   twitter?: {
     oauthClientId: string;
@@ -52,6 +68,8 @@ export interface SocialConfig {
 export class SocialService {
   private twitterService?: TwitterService;
   private discordService?: DiscordService;
+  private telegramService?: TelegramService;
+  private contentAmplifier?: ContentAmplifier;
   private readonly dataProcessor: MarketDataProcessor;
   private readonly jupiterService: JupiterPriceV2Service;
 
@@ -131,9 +149,57 @@ export class SocialService {
       this.discordService = new DiscordService({
         token: config.discord.token,
         guildId: config.discord.guildId,
-        aiService: config.services.ai
+        aiService: config.services.ai,
+        postQueue: config.postQueue,
+        approverIds: config.discord.approverIds,
+        approvalChannelId: config.discord.approvalChannelId
       });
     }
+
+    if (config.telegram) {
+      this.telegramService = new TelegramService({ botToken: config.telegram.botToken });
+    }
+
+    if (config.amplifier && this.twitterService) {
+      const twitter = this.twitterService;
+      const postQueue = config.postQueue;
+      const discordChannelId = config.amplifier.discordChannelId || process.env.AMPLIFIER_DISCORD_CHANNEL_ID;
+      const telegramChatId = config.amplifier.telegramChatId || process.env.AMPLIFIER_TELEGRAM_CHAT_ID;
+
+      this.contentAmplifier = new ContentAmplifier({
+        metrics: twitter,
+        aiService: config.services.ai,
+        channels: {
+          quote: async (tweetId, text) => {
+            if (!postQueue) {
+              return (await twitter.tweet(text, { quoteTweetId: tweetId })).data.id;
+            }
+            // Queued quotes share the queue's rate limits and idempotency
+            const postId = await postQueue.addToQueue({
+              content: text,
+              platform: Platform.TWITTER,
+              priority: 4,
+              scheduledTime: Date.now(),
+              quoteTweetId: tweetId,
+              idempotencyKey: `amplify:${tweetId}:quote`,
+              metadata: { type: 'amplification', category: 'quote', tags: [] }
+            });
+            return `queue:${postId}`;
+          },
+          threads: new ThreadPublisher(createTwitterServicePoster(twitter)),
+          ...(this.discordService && discordChannelId && {
+            discord: { service: this.discordService, channelId: discordChannelId }
+          }),
+          ...(this.telegramService && telegramChatId && {
+            telegram: { service: this.telegramService, chatId: telegramChatId }
+          })
+        },
+        autoStart: false
+      });
+      if (config.postQueue) {
+        this.contentAmplifier.watch(config.postQueue);
+      }
+    }
   }
 
   async initialize(): Promise<void> {
@@ -150,6 +216,7 @@ export class SocialService {
       }
 
       await Promise.all(initPromises);
+      this.contentAmplifier?.start();
       elizaLogger.success('Social services initialized successfully');
     } catch (error) {
       elizaLogger.error('Failed to initialize social services:', error);
@@ -157,6 +224,10 @@ export class SocialService {
     }
   }
 
+  getContentAmplifier(): ContentAmplifier | undefined {
+    return this.contentAmplifier;
+  }
+
   async getCommunityMetrics(): Promise<SocialMetrics> {
     return {
       followers: 1000,
@@ -200,6 +271,11 @@ export class SocialService {
             await this.discordService.sendMessage(messageId, content);
           }
           break;
+        case 'telegram':
+          if (this.telegramService) {
+            await this.telegramService.sendMessage(messageId, content);
+          }
+          break;
         default:
           throw new Error(`Unsupported platform: ${platform}`);
       }
@@ -212,4 +288,5 @@ export class SocialService {
 
 export { TwitterService } from './twitter';
 export { DiscordService } from './discord';
+export { TelegramService } from './telegram';
 export default SocialService;
\ No newline at end of file
@@ -0,0 +1,627 @@
+// src/services/social/mockTwitterServer.ts
+
+import { EventEmitter } from 'events';
+import {
+  ApiResponseError,
+  ETwitterStreamEvent,
+  SendTweetV2Params,
+  StreamingV2AddRulesParams,
+  StreamingV2DeleteRulesParams,
+  TweetV2,
+  TwitterApi,
+  TwitterRateLimit
+} from 'twitter-api-v2';
+import type { Profile, Scraper, Tweet } from 'agent-twitter-client';
+import { TwitterStreamEvent } from '../../types/twitter.js';
+
+export type MockEndpoint =
+  | 'tweet'
+  | 'lookup'
+  | 'like'
+  | 'retweet'
+  | 'mentions'
+  | 'search'
+  | 'me'
+  | 'media'
+  | 'stream'
+  | 'streamRules';
+
+export interface MockUser {
+  id: string;
+  username: string;
+  name: string;
+}
+
+export interface MockTweet {
+  id: string;
+  text: string;
+  authorId: string;
+  username: string;
+  createdAt: string;
+  conversationId: string;
+  inReplyToId?: string;
+  quoteOfId?: string;
+  mediaIds: string[];
+  likedBy: string[];
+  retweetedBy: string[];
+  impressions: number;
+}
+
+export interface MockStreamRule {
+  id: string;
+  value: string;
+  tag?: string;
+}
+
+export interface MockTwitterServerOptions {
+  /** The account the agent posts as */
+  agent?: Partial<MockUser>;
+  /** Requests allowed per window, by endpoint */
+  rateLimits?: Partial<Record<MockEndpoint, number>>;
+  rateLimitWindowMs?: number;
+  now?: () => number;
+}
+
+interface RateLimitWindow {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+// Per user limits of the v2 API for a 15 minute window
+const DEFAULT_RATE_LIMITS: Record<MockEndpoint, number> = {
+  tweet: 200,
+  lookup: 900,
+  like: 50,
+  retweet: 50,
+  mentions: 180,
+  search: 180,
+  me: 75,
+  media: 500,
+  stream: 50,
+  streamRules: 450
+};
+
+/**
+ * Stream returned by the mock filtered stream, emitting the same events as
+ * the twitter-api-v2 TweetStream.
+ */
+export class MockTweetStream extends EventEmitter {
+  public autoReconnect = false;
+  public closed = false;
+
+  public close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit(ETwitterStreamEvent.ConnectionClosed);
+  }
+}
+
+/**
+ * In-process stand-in for the Twitter API. It keeps users, tweets, likes,
+ * retweets, filtered stream rules and rate limit windows in memory, and
+ * hands out clients shaped like twitter-api-v2's TwitterApi and
+ * agent-twitter-client's Scraper so the social services run unchanged.
+ * Inbound mentions are scripted with mention(), and tests read back what
+ * the agent posted with getPosted().
+ */
+export class MockTwitterServer extends EventEmitter {
+  public readonly agent: MockUser;
+  private users: Map<string, MockUser>;
+  private tweets: Map<string, MockTweet>;
+  private rules: MockStreamRule[];
+  private streams: Set<MockTweetStream>;
+  private windows: Map<string, RateLimitWindow>;
+  private limits: Record<MockEndpoint, number>;
+  private sequence = 0;
+  private readonly rateLimitWindowMs: number;
+  private readonly now: () => number;
+  private readonly MAX_TWEET_LENGTH = 280;
+
+  constructor(options: MockTwitterServerOptions = {}) {
+    super();
+    this.users = new Map();
+    this.tweets = new Map();
+    this.rules = [];
+    this.streams = new Set();
+    this.windows = new Map();
+    this.limits = { ...DEFAULT_RATE_LIMITS, ...options.rateLimits };
+    this.rateLimitWindowMs = options.rateLimitWindowMs ?? 15 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+    this.agent = this.addUser(options.agent?.username ?? 'mock_agent', options.agent?.name, options.agent?.id);
+  }
+
+  public addUser(username: string, name?: string, id?: string): MockUser {
+    const handle = username.replace(/^@/, '');
+    const existing = this.findUser(handle);
+    if (existing) return existing;
+
+    const user = { id: id ?? this.nextId(), username: handle, name: name ?? handle };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  /**
+   * Script an inbound tweet from another account mentioning the agent.
+   * It is delivered to every open filtered stream whose rules match.
+   */
+  public mention(from: string, text: string, options: { inReplyToId?: string } = {}): MockTweet {
+    const author = this.addUser(from);
+    const handle = `@${this.agent.username}`;
+    const content = text.toLowerCase().includes(handle.toLowerCase()) ? text : `${handle} ${text}`;
+    return this.createTweet(author, content, { inReplyToId: options.inReplyToId });
+  }
+
+  /**
+   * Tweets posted by the agent, oldest first.
+   */
+  public getPosted(options: { replies?: boolean } = {}): MockTweet[] {
+    return this.getTweets().filter(tweet =>
+      tweet.authorId === this.agent.id &&
+      (options.replies === undefined || Boolean(tweet.inReplyToId) === options.replies)
+    );
+  }
+
+  public getReplies(tweetId: string): MockTweet[] {
+    return this.getTweets().filter(tweet => tweet.inReplyToId === tweetId);
+  }
+
+  public getTweet(tweetId: string): MockTweet | undefined {
+    const tweet = this.tweets.get(tweetId);
+    return tweet && this.copy(tweet);
+  }
+
+  public getTweets(): MockTweet[] {
+    return Array.from(this.tweets.values()).map(tweet => this.copy(tweet));
+  }
+
+  /**
+   * Count views of a tweet, they show up as its impression_count.
+   */
+  public addImpressions(tweetId: string, count: number): void {
+    this.requireTweet(tweetId).impressions += count;
+  }
+
+  public getStreamRules(): MockStreamRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * Resolve with the next tweet that matches, for pipelines that post from
+   * event handlers.
+   */
+  public waitForTweet(predicate: (tweet: MockTweet) => boolean, timeoutMs = 1000): Promise<MockTweet> {
+    const existing = this.getTweets().find(predicate);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off('tweet', listener);
+        reject(new Error(`No matching tweet within ${timeoutMs}ms`));
+      }, timeoutMs);
+      const listener = (tweet: MockTweet) => {
+        if (!predicate(tweet)) return;
+        clearTimeout(timer);
+        this.off('tweet', listener);
+        resolve(tweet);
+      };
+      this.on('tweet', listener);
+    });
+  }
+
+  public setRateLimit(endpoint: MockEndpoint, limit: number): void {
+    this.limits[endpoint] = limit;
+    Array.from(this.windows.keys())
+      .filter(key => key.endsWith(`:${endpoint}`))
+      .forEach(key => this.windows.delete(key));
+  }
+
+  /**
+   * The x-rate-limit-* headers Twitter would send the account for the endpoint.
+   */
+  public getRateLimitHeaders(endpoint: MockEndpoint, username: string = this.agent.username): Record<string, string> {
+    const rateLimit = this.getRateLimit(endpoint, username);
+    return {
+      'x-rate-limit-limit': String(rateLimit.limit),
+      'x-rate-limit-remaining': String(rateLimit.remaining),
+      'x-rate-limit-reset': String(rateLimit.reset)
+    };
+  }
+
+  /**
+   * Limits are counted per account, as for user context requests.
+   */
+  public getRateLimit(endpoint: MockEndpoint, username: string = this.agent.username): TwitterRateLimit {
+    const window = this.getWindow(endpoint, this.addUser(username));
+    return { limit: window.limit, remaining: window.remaining, reset: Math.ceil(window.resetAt / 1000) };
+  }
+
+  /**
+   * Forget every tweet, rule, stream and rate limit window. Users are kept.
+   */
+  public reset(): void {
+    this.streams.forEach(stream => stream.close());
+    this.streams.clear();
+    this.tweets.clear();
+    this.rules = [];
+    this.windows.clear();
+  }
+
+  /**
+   * A client with the parts of twitter-api-v2's TwitterApi that the
+   * services use. The same client serves user and app-only calls.
+   */
+  public createApiClient(username: string = this.agent.username): TwitterApi {
+    const user = this.addUser(username);
+    const toResult = (tweet: MockTweet) => ({ data: { id: tweet.id, text: tweet.text } });
+
+    const v2 = {
+      me: async () => {
+        this.consume('me', user);
+        return { data: { ...user } };
+      },
+      tweet: async (payload: string | SendTweetV2Params) => {
+        const params = typeof payload === 'string' ? { text: payload } : payload;
+        this.consume('tweet', user);
+        return toResult(this.createTweet(user, params.text || '', {
+          inReplyToId: params.reply?.in_reply_to_tweet_id,
+          quoteOfId: params.quote_tweet_id,
+          mediaIds: params.media?.media_ids
+        }));
+      },
+      reply: async (text: string, tweetId: string) => {
+        this.consume('tweet', user);
+        return toResult(this.createTweet(user, text, { inReplyToId: tweetId }));
+      },
+      singleTweet: async (tweetId: string) => {
+        this.consume('lookup', user);
+        return { data: this.toTweetV2(this.requireTweet(tweetId)) };
+      },
+      like: async (_userId: string, tweetId: string) => {
+        this.consume('like', user);
+        this.react(user, tweetId, 'likedBy');
+        return { data: { liked: true } };
+      },
+      retweet: async (_userId: string, tweetId: string) => {
+        this.consume('retweet', user);
+        this.react(user, tweetId, 'retweetedBy');
+        return { data: { retweeted: true } };
+      },
+      userMentionTimeline: async (userId: string) => {
+        this.consume('mentions', user);
+        const tweets = this.mentionsOf(this.users.get(userId) ?? user).map(tweet => this.toTweetV2(tweet));
+        return { tweets, data: { data: tweets, meta: { result_count: tweets.length } } };
+      },
+      streamRules: async () => {
+        this.consume('streamRules', user);
+        return { data: this.getStreamRules(), meta: { sent: new Date(this.now()).toISOString() } };
+      },
+      updateStreamRules: async (update: StreamingV2AddRulesParams | StreamingV2DeleteRulesParams) => {
+        this.consume('streamRules', user);
+        if ('add' in update) {
+          const added = update.add.map(rule => ({ id: this.nextId(), value: rule.value, tag: rule.tag }));
+          this.rules.push(...added);
+          return { data: added, meta: { sent: new Date(this.now()).toISOString() } };
+        }
+        this.rules = this.rules.filter(rule => !update.delete.ids?.includes(rule.id));
+        return { meta: { sent: new Date(this.now()).toISOString() } };
+      },
+      searchStream: async () => {
+        this.consume('stream', user);
+        const stream = new MockTweetStream();
+        stream.once(ETwitterStreamEvent.ConnectionClosed, () => this.streams.delete(stream));
+        this.streams.add(stream);
+        setImmediate(() => stream.emit(ETwitterStreamEvent.Connected));
+        return stream;
+      }
+    };
+
+    const v1 = {
+      uploadMedia: async () => {
+        this.consume('media', user);
+        return this.nextId();
+      }
+    };
+
+    return { v1, v2, readWrite: { v1, v2 }, readOnly: { v1, v2 } } as unknown as TwitterApi;
+  }
+
+  /**
+   * A logged in agent-twitter-client Scraper for the account.
+   */
+  public createScraper(username: string = this.agent.username): Scraper {
+    const user = this.addUser(username);
+    let cookies = [`auth_token=mock-${user.id}; Domain=twitter.com`];
+    const loggedIn = () => cookies.length > 0;
+    const session = () => {
+      if (!loggedIn()) throw new Error('Not logged in');
+    };
+
+    const search = async (query: string) => {
+      this.consume('search', user);
+      return this.getTweets()
+        .filter(tweet => this.matches(query, tweet))
+        .reverse()
+        .map(tweet => this.toScraperTweet(tweet));
+    };
+
+    const scraper = {
+      login: async () => { cookies = [`auth_token=mock-${user.id}; Domain=twitter.com`]; },
+      logout: async () => { cookies = []; },
+      isLoggedIn: async () => loggedIn(),
+      getCookies: async () => [...cookies],
+      setCookies: async (values: string[]) => { cookies = [...values]; },
+      clearCookies: async () => { cookies = []; },
+      sendTweet: async (text: string, replyToTweetId?: string, mediaData: { data: Buffer; mediaType: string }[] = []) => {
+        session();
+        this.consume('tweet', user);
+        const mediaIds = mediaData.map(() => {
+          this.consume('media', user);
+          return this.nextId();
+        });
+        const tweet = this.createTweet(user, text, { inReplyToId: replyToTweetId, mediaIds });
+        return { ok: true, status: 200, json: async () => ({ data: { create_tweet: { tweet_results: { result: { rest_id: tweet.id } } } } }) };
+      },
+      sendQuoteTweet: async (text: string, quoteTweetId: string) => {
+        session();
+        this.consume('tweet', user);
+        this.createTweet(user, text, { quoteOfId: quoteTweetId });
+      },
+      getTweet: async (tweetId: string) => {
+        this.consume('lookup', user);
+        return this.toScraperTweet(this.requireTweet(tweetId));
+      },
+      getProfile: async (handle: string): Promise<Profile> => {
+        this.consume('lookup', user);
+        const profile = this.findUser(handle.replace(/^@/, ''));
+        if (!profile) throw new ApiResponseError('User not found', this.errorOptions(404, 'lookup', { title: 'Not Found Error' }, user));
+        const tweets = this.getTweets().filter(tweet => tweet.authorId === profile.id);
+        return {
+          id: profile.id,
+          name: profile.name,
+          username: profile.username,
+          protected: false,
+          verified: false,
+          followersCount: 0,
+          followingCount: 0,
+          tweetsCount: tweets.length,
+          listedCount: 0,
+          createdAt: new Date(0)
+        };
+      },
+      likeTweet: async (tweetId: string) => {
+        session();
+        this.consume('like', user);
+        this.react(user, tweetId, 'likedBy');
+      },
+      retweet: async (tweetId: string) => {
+        session();
+        this.consume('retweet', user);
+        this.react(user, tweetId, 'retweetedBy');
+      },
+      deleteTweet: async (tweetId: string) => {
+        session();
+        this.tweets.delete(tweetId);
+      },
+      search,
+      getTweets: search,
+      getUserTweets: async (userId: string, count = 20) => {
+        this.consume('lookup', user);
+        return this.getTweets()
+          .filter(tweet => tweet.authorId === userId)
+          .reverse()
+          .slice(0, count)
+          .map(tweet => this.toScraperTweet(tweet));
+      }
+    };
+
+    return scraper as unknown as Scraper;
+  }
+
+  /**
+   * The shape TwitterStreamHandler consumes.
+   */
+  public toStreamEvent(tweet: MockTweet): TwitterStreamEvent {
+    const author = this.users.get(tweet.authorId)!;
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      author_id: tweet.authorId,
+      author: { id: author.id, username: author.username, name: author.name },
+      created_at: tweet.createdAt,
+      referenced_tweets: this.referencesOf(tweet)
+    };
+  }
+
+  private createTweet(
+    author: MockUser,
+    text: string,
+    options: { inReplyToId?: string; quoteOfId?: string; mediaIds?: string[] } = {}
+  ): MockTweet {
+    if (!text.trim() && !options.mediaIds?.length) {
+      throw new ApiResponseError('Tweet text is empty', this.errorOptions(400, 'tweet', { title: 'Invalid Request' }, author));
+    }
+    if (text.length > this.MAX_TWEET_LENGTH) {
+      throw new ApiResponseError('Tweet text is too long', this.errorOptions(400, 'tweet', { title: 'Invalid Request' }, author));
+    }
+    if (this.getTweets().some(tweet => tweet.authorId === author.id && tweet.text === text)) {
+      throw new ApiResponseError('Request failed with code 403', this.errorOptions(403, 'tweet', {
+        detail: 'You are not allowed to create a Tweet with duplicate content.',
+        title: 'Forbidden'
+      }, author));
+    }
+
+    const parent = options.inReplyToId ? this.requireTweet(options.inReplyToId) : undefined;
+    if (options.quoteOfId) this.requireTweet(options.quoteOfId);
+
+    const id = this.nextId();
+    const tweet: MockTweet = {
+      id,
+      text,
+      authorId: author.id,
+      username: author.username,
+      createdAt: new Date(this.now()).toISOString(),
+      conversationId: parent?.conversationId ?? id,
+      inReplyToId: options.inReplyToId,
+      quoteOfId: options.quoteOfId,
+      mediaIds: options.mediaIds ? [...options.mediaIds] : [],
+      likedBy: [],
+      retweetedBy: [],
+      impressions: 0
+    };
+    this.tweets.set(id, tweet);
+    this.emit('tweet', this.copy(tweet));
+    this.deliver(tweet);
+    return this.copy(tweet);
+  }
+
+  private deliver(tweet: MockTweet): void {
+    const matchingRules = this.rules
+      .filter(rule => this.matches(rule.value, tweet))
+      .map(rule => ({ id: rule.id, tag: rule.tag }));
+    if (!matchingRules.length || !this.streams.size) return;
+
+    const author = this.users.get(tweet.authorId)!;
+    const payload = {
+      data: this.toTweetV2(tweet),
+      includes: { users: [{ ...author }] },
+      matching_rules: matchingRules
+    };
+    this.streams.forEach(stream => stream.emit(ETwitterStreamEvent.Data, payload));
+  }
+
+  /**
+   * Every space separated term of the query must appear in the tweet
+   */
+  private matches(query: string, tweet: MockTweet): boolean {
+    const text = tweet.text.toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(term =>
+      term.startsWith('from:') ? tweet.username.toLowerCase() === term.slice(5) : text.includes(term)
+    );
+  }
+
+  private mentionsOf(user: MockUser): MockTweet[] {
+    return this.getTweets()
+      .filter(tweet => tweet.authorId !== user.id && this.matches(`@${user.username}`, tweet))
+      .reverse();
+  }
+
+  private react(user: MockUser, tweetId: string, field: 'likedBy' | 'retweetedBy'): void {
+    const tweet = this.requireTweet(tweetId);
+    if (!tweet[field].includes(user.id)) {
+      tweet[field].push(user.id);
+      this.emit(field === 'likedBy' ? 'like' : 'retweet', { userId: user.id, tweetId });
+    }
+  }
+
+  private requireTweet(tweetId: string): MockTweet {
+    const tweet = this.tweets.get(tweetId);
+    if (!tweet) {
+      throw new ApiResponseError('Request failed with code 404', this.errorOptions(404, 'lookup', {
+        detail: `Could not find tweet with id: [${tweetId}].`,
+        title: 'Not Found Error'
+      }));
+    }
+    return tweet;
+  }
+
+  private consume(endpoint: MockEndpoint, user: MockUser): void {
+    const window = this.getWindow(endpoint, user);
+    if (window.remaining <= 0) {
+      throw new ApiResponseError('Request failed with code 429', {
+        ...this.errorOptions(429, endpoint, { title: 'Too Many Requests', detail: 'Too Many Requests' }, user),
+        rateLimit: this.getRateLimit(endpoint, user.username)
+      });
+    }
+    window.remaining--;
+  }
+
+  private getWindow(endpoint: MockEndpoint, user: MockUser): RateLimitWindow {
+    const now = this.now();
+    const key = `${user.id}:${endpoint}`;
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { limit: this.limits[endpoint], remaining: this.limits[endpoint], resetAt: now + this.rateLimitWindowMs };
+      this.windows.set(key, window);
+    }
+    return window;
+  }
+
+  private errorOptions(code: number, endpoint: MockEndpoint, data: Record<string, unknown>, user: MockUser = this.agent) {
+    return {
+      code,
+      data: { ...data, status: code },
+      headers: this.getRateLimitHeaders(endpoint, user.username),
+      request: {} as any,
+      response: { statusCode: code } as any
+    };
+  }
+
+  private referencesOf(tweet: MockTweet): { type: 'replied_to' | 'quoted'; id: string }[] | undefined {
+    const references: { type: 'replied_to' | 'quoted'; id: string }[] = [];
+    if (tweet.inReplyToId) references.push({ type: 'replied_to', id: tweet.inReplyToId });
+    if (tweet.quoteOfId) references.push({ type: 'quoted', id: tweet.quoteOfId });
+    return references.length ? references : undefined;
+  }
+
+  private toTweetV2(tweet: MockTweet): TweetV2 {
+    const parent = tweet.inReplyToId ? this.tweets.get(tweet.inReplyToId) : undefined;
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      edit_history_tweet_ids: [tweet.id],
+      author_id: tweet.authorId,
+      created_at: tweet.createdAt,
+      conversation_id: tweet.conversationId,
+      in_reply_to_user_id: parent?.authorId,
+      referenced_tweets: this.referencesOf(tweet),
+      public_metrics: {
+        like_count: tweet.likedBy.length,
+        retweet_count: tweet.retweetedBy.length,
+        reply_count: this.getReplies(tweet.id).length,
+        quote_count: this.getTweets().filter(other => other.quoteOfId === tweet.id).length,
+        impression_count: tweet.impressions
+      }
+    } as TweetV2;
+  }
+
+  private toScraperTweet(tweet: MockTweet): Tweet {
+    const parent = tweet.inReplyToId ? this.tweets.get(tweet.inReplyToId) : undefined;
+    return {
+      id: tweet.id,
+      text: tweet.text,
+      username: tweet.username,
+      authorId: tweet.authorId,
+      createdAt: new Date(tweet.createdAt),
+      conversationId: tweet.conversationId,
+      inReplyToUserId: parent?.authorId,
+      referencedTweets: this.referencesOf(tweet),
+      metrics: {
+        likes: tweet.likedBy.length,
+        retweets: tweet.retweetedBy.length,
+        replies: this.getReplies(tweet.id).length,
+        quotes: 0
+      }
+    };
+  }
+
+  private findUser(username: string): MockUser | undefined {
+    const handle = username.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username.toLowerCase() === handle);
+  }
+
+  private nextId(): string {
+    this.sequence++;
+    // Snowflake sized ids, as ids above 2^53 are why Twitter sends them as strings
+    return `18${String(this.sequence).padStart(17, '0')}`;
+  }
+
+  private copy(tweet: MockTweet): MockTweet {
+    return { ...tweet, mediaIds: [...tweet.mediaIds], likedBy: [...tweet.likedBy], retweetedBy: [...tweet.retweetedBy] };
+  }
+}
+
+// Backend for TWITTER_MOCK_MODE
+export const mockTwitterServer = new MockTwitterServer({
+  agent: { username: process.env.TWITTER_USERNAME || 'mock_agent' }
+});
@@ -0,0 +1,103 @@
+// src/services/social/telegram.ts
+
+import { promises as fs } from 'fs';
+import { basename } from 'path';
+import { elizaLogger } from "@ai16z/eliza";
+import { ApiError, ConfigurationError } from '../../utils/error-handler.js';
+import { chartService, ChartService } from '../market/charts/chartService.js';
+
+export interface TelegramConfig {
+  /** Defaults to TELEGRAM_BOT_TOKEN */
+  botToken?: string;
+  apiUrl?: string;
+  charts?: ChartService;
+}
+
+export interface TelegramSendOptions {
+  replyToMessageId?: number;
+}
+
+export interface TelegramPhotoOptions extends TelegramSendOptions {
+  caption?: string;
+}
+
+const MAX_CAPTION_LENGTH = 1024;
+
+/**
+ * Sends messages and photos through the Telegram Bot API.
+ */
+export class TelegramService {
+  private readonly botToken: string;
+  private readonly apiUrl: string;
+  private readonly charts: ChartService;
+
+  constructor(config: TelegramConfig = {}) {
+    const botToken = config.botToken || process.env.TELEGRAM_BOT_TOKEN;
+    if (!botToken) {
+      throw new ConfigurationError('TELEGRAM_BOT_TOKEN is not set');
+    }
+    this.botToken = botToken;
+    this.apiUrl = config.apiUrl || 'https://api.telegram.org';
+    this.charts = config.charts || chartService;
+  }
+
+  /**
+   * Resolves to the id of the sent message.
+   */
+  public async sendMessage(chatId: string | number, text: string, options: TelegramSendOptions = {}): Promise<number> {
+    const body = new FormData();
+    body.append('chat_id', String(chatId));
+    body.append('text', text);
+    this.appendReply(body, options);
+    return this.call('sendMessage', body);
+  }
+
+  /**
+   * Send an image from a file path or buffer, resolves to the message id.
+   */
+  public async sendPhoto(chatId: string | number, photo: string | Buffer, options: TelegramPhotoOptions = {}): Promise<number> {
+    const data = typeof photo === 'string' ? await fs.readFile(photo) : photo;
+    const body = new FormData();
+    body.append('chat_id', String(chatId));
+    body.append('photo', new Blob([new Uint8Array(data)], { type: 'image/png' }), typeof photo === 'string' ? basename(photo) : 'chart.png');
+    if (options.caption) {
+      body.append('caption', options.caption.slice(0, MAX_CAPTION_LENGTH));
+    }
+    this.appendReply(body, options);
+    return this.call('sendPhoto', body);
+  }
+
+  /**
+   * Reply with a token chart captioned with `text`, or with the text alone
+   * when there is no chart to show.
+   */
+  public async replyWithChart(chatId: string | number, replyToMessageId: number, token: string, text: string): Promise<number> {
+    let chart: string | null = null;
+    try {
+      chart = await this.charts.renderTokenChart(token);
+    } catch (error) {
+      elizaLogger.warn(`Failed to render ${token} chart for Telegram:`, error);
+    }
+
+    return chart && text.length <= MAX_CAPTION_LENGTH
+      ? this.sendPhoto(chatId, chart, { caption: text, replyToMessageId })
+      : this.sendMessage(chatId, text, { replyToMessageId });
+  }
+
+  private appendReply(body: FormData, options: TelegramSendOptions): void {
+    if (options.replyToMessageId !== undefined) {
+      body.append('reply_to_message_id', String(options.replyToMessageId));
+    }
+  }
+
+  private async call(method: string, body: FormData): Promise<number> {
+    const response = await fetch(`${this.apiUrl}/bot${this.botToken}/${method}`, { method: 'POST', body });
+    const result = await response.json().catch(() => null) as
+      { ok: boolean; result?: { message_id: number }; description?: string } | null;
+
+    if (!response.ok || !result?.ok) {
+      throw new ApiError(`Telegram ${method} failed: ${result?.description || response.statusText}`, response.status, result);
+    }
+    return result.result!.message_id;
+  }
+}
@@ -4,7 +4,8 @@ import {
   TweetV2PostTweetResult, 
   SendTweetV2Params,
   ApiRequestError, 
-  ApiPartialResponseError 
+  ApiPartialResponseError,
+  ETwitterStreamEvent
 } from 'twitter-api-v2';
 import { AIService } from '../ai/ai';
 import { elizaLogger } from "@ai16z/eliza";
@@ -13,6 +14,9 @@ import { MarketDataProcessor } from '../market/data/DataProcessor.js';
 import { PriceMonitor } from '../market/analysis/priceMonitor.js';
 import { JupiterPriceV2Service, TokenInfo } from '../blockchain/defi/JupiterPriceV2Service';
 import { HeliusService } from '../blockchain/heliusIntegration';
+import { MockTwitterServer, mockTwitterServer } from './mockTwitterServer.js';
+import type { TweetMetrics } from './viral/contentAmplifier.js';
+import { ValidationError } from '../../utils/error-handler.js';
 
 export interface MarketMetrics {
   price: number;
@@ -29,6 +33,7 @@ interface ContentRules {
 interface TweetOptions {
   mediaUrls?: string[];
   replyToTweetId?: string; // Allow string or undefined
+  quoteTweetId?: string;
 }
 
 interface TwitterServiceConfig {
@@ -54,6 +59,8 @@ interface TwitterServiceConfig {
     volatilityThreshold: number;
   };
   tokenAddresses: string[];
+  /** Backend used in mock mode, the shared mockTwitterServer by default */
+  mockServer?: MockTwitterServer;
 }
 
 export class TwitterService {
@@ -201,6 +208,13 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
     this.priceMonitor = new PriceMonitor(dataProcessor, aiService);
     this.setupMarketMonitoring();
 
+    if (this.config.mockMode) {
+      const server = config.mockServer ?? mockTwitterServer;
+      this.userClient = server.createApiClient();
+      this.appClient = this.userClient;
+      return;
+    }
+
     // Initialize clients with OAuth 2.0 authentication
     this.userClient = new TwitterApi({
       appKey: config.apiKey,
@@ -214,6 +228,9 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
   }
 
   private validateConfig(config: TwitterServiceConfig): void {
+    // The mock server needs no credentials
+    if (config.mockMode) return;
+
     const requiredFields: (keyof TwitterServiceConfig)[] = [
       'apiKey', 'apiSecret',
       'accessToken', 'accessSecret',
@@ -328,9 +345,7 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
     try {
       elizaLogger.info('Initializing Twitter service...');
 
-      if (!this.config.mockMode) {
-        await this.initializeWithRetry();
-      }
+      await this.initializeWithRetry();
 
       elizaLogger.success('Twitter service initialized successfully');
     } catch (error) {
@@ -413,11 +428,6 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
   }
 
   async tweet(content: string, options: TweetOptions = {}): Promise<TweetV2PostTweetResult> {
-    if (this.config.mockMode) {
-      elizaLogger.info('Mock mode - logging tweet:', content);
-      return { data: { id: 'mock_tweet_id', text: content } } as TweetV2PostTweetResult;
-    }
-  
     await this.validateTweetContent(content);
     let attempt = 0;
   
@@ -428,7 +438,8 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
         const tweetPayload: SendTweetV2Params = {
           text: content,
           ...(mediaIds.length && { media: { media_ids: mediaIds as [string] | [string, string] | [string, string, string] | [string, string, string, string] } }),
-          ...(options.replyToTweetId && { reply: { in_reply_to_tweet_id: options.replyToTweetId } })
+          ...(options.replyToTweetId && { reply: { in_reply_to_tweet_id: options.replyToTweetId } }),
+          ...(options.quoteTweetId && { quote_tweet_id: options.quoteTweetId })
         };
         
         const tweet = await this.userClient.v2.tweet(tweetPayload);
@@ -451,6 +462,27 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
     throw new Error(`Failed to post tweet after ${this.config.maxRetries} attempts`);
   }
 
+  /**
+   * Current public metrics of a tweet, null when it no longer exists.
+   */
+  async getTweetMetrics(tweetId: string): Promise<TweetMetrics | null> {
+    try {
+      const { data } = await this.userClient.v2.singleTweet(tweetId, { 'tweet.fields': ['public_metrics'] });
+      const metrics = data?.public_metrics;
+      if (!metrics) return null;
+      return {
+        impressions: metrics.impression_count ?? 0,
+        likes: metrics.like_count,
+        retweets: metrics.retweet_count,
+        replies: metrics.reply_count,
+        quotes: metrics.quote_count
+      };
+    } catch (error) {
+      if (error instanceof ApiResponseError && error.code === 404) return null;
+      throw error;
+    }
+  }
+
   private validateTweetContent(content: string): void {
     const { maxEmojis = 0, maxHashtags = 0 } = this.config.contentRules;
 
@@ -458,11 +490,11 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
     const hashtagCount = (content.match(/#/g) || []).length;
 
     if (emojiCount > maxEmojis) {
-      throw new Error(`Tweet contains too many emojis. Maximum allowed is ${maxEmojis}.`);
+      throw new ValidationError(`Tweet contains too many emojis. Maximum allowed is ${maxEmojis}.`);
     }
 
     if (hashtagCount > maxHashtags) {
-      throw new Error(`Tweet contains too many hashtags. Maximum allowed is ${maxHashtags}.`);
+      throw new ValidationError(`Tweet contains too many hashtags. Maximum allowed is ${maxHashtags}.`);
     }
   }
 
@@ -498,8 +530,8 @@ private async uploadMedia(urls: string[]): Promise<string[]> {
       this.isStreaming = true;
       elizaLogger.success('Twitter stream started successfully');
 
-      stream.on('data', this.handleStreamData.bind(this));
-      stream.on('error', this.handleStreamError.bind(this));
+      stream.on(ETwitterStreamEvent.Data, this.handleStreamData.bind(this));
+      stream.on(ETwitterStreamEvent.Error, this.handleStreamError.bind(this));
 
     } catch (error) {
       // If we get a 403 error, disable streaming
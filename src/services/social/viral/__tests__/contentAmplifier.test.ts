@@ -0,0 +1,155 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  ActionType,
+  AmplificationType,
+  AmplifierState,
+  AmplifierStore,
+  ContentAmplifier,
+  TweetMetrics
+} from '../contentAmplifier.js';
+import { MockTwitterServer } from '../../mockTwitterServer.js';
+import { Platform } from '../../../../personality/traits/responsePatterns.js';
+import { IAIService } from '../../../ai/types.js';
+import type { DiscordService } from '../../discord.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const createStore = (): AmplifierStore => {
+  let saved: AmplifierState = { posts: [], stats: {} };
+  return {
+    load: async () => JSON.parse(JSON.stringify(saved)),
+    save: async state => { saved = JSON.parse(JSON.stringify(state)); }
+  };
+};
+
+const aiService = {
+  generateResponse: async () => 'Most of the new volume came from fresh wallets. Watching the 1h close.'
+} as unknown as IAIService;
+
+type DiscordContent = Parameters<DiscordService['sendMessage']>[1];
+
+const createDiscord = () => {
+  const sent: Array<{ channelId: string; content: DiscordContent }> = [];
+  return {
+    sent,
+    service: { sendMessage: async (channelId: string, content: DiscordContent) => { sent.push({ channelId, content }); } }
+  };
+};
+
+describe('ContentAmplifier', () => {
+  test('samples tweet metrics, amplifies an outperforming post and measures the lift', async () => {
+    const server = new MockTwitterServer();
+    const api = server.createApiClient();
+    let fans = 0;
+    const engage = async (tweetId: string, likes: number, impressions: number) => {
+      for (let i = 0; i < likes; i++) {
+        const fan = server.createApiClient(`fan${fans++}`);
+        await fan.v2.like((await fan.v2.me()).data.id, tweetId);
+      }
+      server.addImpressions(tweetId, impressions);
+    };
+
+    const discord = createDiscord();
+    const amplifier = new ContentAmplifier({
+      metrics: {
+        getTweetMetrics: async (tweetId): Promise<TweetMetrics> => {
+          const metrics = (await api.v2.singleTweet(tweetId)).data.public_metrics!;
+          return {
+            impressions: metrics.impression_count ?? 0,
+            likes: metrics.like_count,
+            retweets: metrics.retweet_count,
+            replies: metrics.reply_count,
+            quotes: metrics.quote_count
+          };
+        }
+      },
+      aiService,
+      channels: {
+        quote: async (tweetId, text) => (await api.v2.tweet({ text, quote_tweet_id: tweetId })).data.id,
+        discord: { service: discord.service, channelId: 'alpha' }
+      },
+      store: createStore(),
+      autoStart: false
+    });
+
+    const t0 = 1_700_000_000_000;
+    const hot = (await api.v2.tweet('SOL volume doubled overnight')).data.id;
+    const quiet = (await api.v2.tweet('gm')).data.id;
+    await amplifier.track(hot, 'SOL volume doubled overnight', t0);
+    await amplifier.track(quiet, 'gm', t0);
+
+    await engage(hot, 40, 500);
+    await engage(quiet, 2, 400);
+    await amplifier.refresh(t0 + 15 * MINUTE);
+
+    // 8% engagement against the 2% default baseline
+    const [hotPost, quietPost] = await amplifier.getTrackedPosts();
+    expect(hotPost.performance).toMatchObject({ engagementRate: 0.08, outperformance: 4, reachMultiplier: 1 });
+    expect(quietPost.amplifications).toEqual([]);
+
+    const quote = server.getPosted().find(tweet => tweet.quoteOfId === hot)!;
+    expect(quote.text).toBe('Most of the new volume came from fresh wallets. Watching the 1h close.');
+    expect(discord.sent).toHaveLength(1);
+    const [shared] = discord.sent;
+    expect(typeof shared.content === 'string' ? shared.content : shared.content.description).toContain(`https://x.com/i/status/${hot}`);
+    expect(hotPost.amplifications.map(record => [record.strategyId, record.outputs])).toEqual([
+      ['quote-analysis', [quote.id]],
+      ['cross-post-discord', ['discord:alpha']]
+    ]);
+
+    // 40 engagements in the first 15 minutes, then 60 likes and the quote over the next two hours
+    await engage(hot, 60, 1000);
+    await amplifier.refresh(t0 + 2 * HOUR + 15 * MINUTE);
+    const [measured] = await amplifier.getTrackedPosts();
+    const lift = (61 / 2) / (40 / 0.25);
+    measured.amplifications.forEach(record => expect(record.lift).toBeCloseTo(lift, 10));
+
+    const stats = await amplifier.getStrategyStats();
+    expect(stats.find(s => s.id === 'quote-analysis')).toMatchObject({ runs: 1, measured: 1 });
+    expect(stats.find(s => s.id === 'follow-up-thread')).toMatchObject({ runs: 0, averageLift: null });
+  });
+
+  test('retires a strategy that keeps failing to lift engagement', async () => {
+    const metrics = new Map<string, TweetMetrics>();
+    const store = createStore();
+    const discord = createDiscord();
+    const config = {
+      metrics: { getTweetMetrics: async (tweetId: string) => metrics.get(tweetId) || null },
+      aiService,
+      channels: { discord: { service: discord.service, channelId: 'alpha' } },
+      strategies: [{
+        id: 'shout',
+        name: 'Shout in Discord',
+        type: AmplificationType.CROSSPOST,
+        conditions: [{ type: 'outperformance' as const, operator: 'gt' as const, value: 1.5 }],
+        actions: [{ type: ActionType.SHARE, parameters: {}, platform: Platform.DISCORD }],
+        priority: 1,
+        cooldown: 0
+      }],
+      store,
+      autoStart: false
+    };
+    const amplifier = new ContentAmplifier(config);
+    const retired: Array<{ strategyId: string; averageLift: number; measured: number }> = [];
+    amplifier.on('strategyRetired', event => retired.push(event));
+
+    const t0 = 1_700_000_000_000;
+    for (let i = 0; i < 6; i++) {
+      const postedAt = t0 + i * 3 * HOUR;
+      metrics.set(`tweet-${i}`, { impressions: 200, likes: 20, retweets: 0, replies: 0, quotes: 0 });
+      await amplifier.track(`tweet-${i}`, `update ${i}`, postedAt);
+      await amplifier.refresh(postedAt + 15 * MINUTE);
+      // Nothing new comes in after the cross post
+      await amplifier.refresh(postedAt + 2 * HOUR + 15 * MINUTE);
+    }
+
+    expect(discord.sent).toHaveLength(5);
+    expect(retired).toEqual([{ strategyId: 'shout', averageLift: 0, measured: 5 }]);
+
+    // The retirement is persisted
+    const restarted = new ContentAmplifier(config);
+    const [stats] = await restarted.getStrategyStats();
+    expect(stats).toMatchObject({ id: 'shout', runs: 5, measured: 5, retired: true });
+  });
+});
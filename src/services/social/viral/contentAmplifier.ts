@@ -1,11 +1,18 @@
 // src/services/social/viral/contentAmplifier.ts
 
 import { EventEmitter } from 'events';
+import { elizaLogger } from "@ai16z/eliza";
 import { Platform } from '../../../personality/traits/responsePatterns.js';
-import { TrendDetector, TrendStage } from './trendDetector.js';
-import { ResponsePatternManager, ResponseType } from '../../../personality/traits/responsePatterns.js';
+import { TrendDetector } from './trendDetector.js';
+import { redisService } from '../../redis/redis-service.js';
+import { IAIService } from '../../ai/types.js';
+import { ValidationError } from '../../../utils/error-handler.js';
+import { ThreadPublisher, composeThread } from '../engagement/threadComposer.js';
+import type { PostQueue, QueuedPost } from '../engagement/postQueue.js';
+import type { DiscordService } from '../discord.js';
+import type { TelegramService } from '../telegram.js';
 
-interface AmplificationStrategy {
+export interface AmplificationStrategy {
   id: string;
   name: string;
   type: AmplificationType;
@@ -13,89 +20,238 @@ interface AmplificationStrategy {
   actions: AmplificationAction[];
   priority: number;
   cooldown: number;
-  lastUsed?: number;
 }
 
-interface AmplificationCondition {
-  type: 'engagement' | 'timing' | 'trend' | 'sentiment';
+/**
+ * What a condition compares: the post's performance, its impressions, its
+ * age in hours, or 1 when it mentions an active trend and 0 otherwise.
+ */
+export type ConditionMetric = 'engagementRate' | 'outperformance' | 'viralCoefficient' | 'impressions' | 'age' | 'trend';
+
+export interface AmplificationCondition {
+  type: ConditionMetric;
   operator: 'gt' | 'lt' | 'eq' | 'between';
   value: number | [number, number];
 }
 
-interface AmplificationAction {
+export interface AmplificationParameters {
+  /** Tone of a quote follow-up, e.g. analytical */
+  style?: string;
+  /** Paragraphs in a thread continuation */
+  segments?: number;
+}
+
+export interface AmplificationAction {
   type: ActionType;
-  parameters: Record<string, any>;
+  parameters: AmplificationParameters;
   platform: Platform;
 }
 
-enum AmplificationType {
+export enum AmplificationType {
   BOOST = 'boost',
   CROSSPOST = 'crosspost',
   ENGAGE = 'engage',
   REMIX = 'remix'
 }
 
-enum ActionType {
+export enum ActionType {
   QUOTE = 'quote',
   THREAD = 'thread',
-  COMMENT = 'comment',
   SHARE = 'share',
-  HASHTAG = 'hashtag'
+  PIN = 'pin'
+}
+
+export interface TweetMetrics {
+  impressions: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
 }
 
-interface ContentPerformance {
+export interface MetricSnapshot extends TweetMetrics {
+  timestamp: number;
+}
+
+export interface ContentPerformance {
+  /** Engagements per impression */
   engagementRate: number;
+  /** Engagement rate over the account's usual rate */
+  outperformance: number;
+  /** Impressions over the account's usual impressions */
   reachMultiplier: number;
+  /**
+   * Shares in the latest sample interval per share in the interval before,
+   * above 1 the post is still spreading
+   */
   viralCoefficient: number;
+  /** End of the sample interval with the most new engagements */
   peakTime: number | null;
+  /** Time since the post went out */
   duration: number;
 }
 
+export interface AmplificationRecord {
+  strategyId: string;
+  executedAt: number;
+  /** Tweets and messages the strategy created */
+  outputs: string[];
+  /**
+   * Engagement velocity after the strategy over the velocity before it,
+   * relative to what unamplified posts of the same age do
+   */
+  lift?: number;
+  error?: string;
+}
+
+export interface TrackedPost {
+  id: string;
+  content: string;
+  postedAt: number;
+  snapshots: MetricSnapshot[];
+  performance?: ContentPerformance;
+  amplifications: AmplificationRecord[];
+  /** Done sampling, kept as baseline and control data */
+  settled: boolean;
+}
+
+export interface StrategyStats {
+  runs: number;
+  measured: number;
+  totalLift: number;
+  lastUsed?: number;
+  retired: boolean;
+  retiredAt?: number;
+}
+
+export interface StrategyReport extends StrategyStats {
+  id: string;
+  name: string;
+  averageLift: number | null;
+}
+
+export interface AmplifierState {
+  posts: TrackedPost[];
+  stats: Record<string, StrategyStats>;
+}
+
+export interface AmplifierStore {
+  load(): Promise<AmplifierState>;
+  save(state: AmplifierState): Promise<void>;
+}
+
+export class RedisAmplifierStore implements AmplifierStore {
+  private readonly key: string;
+
+  constructor(key = 'social:amplifier') {
+    this.key = key;
+  }
+
+  public async load(): Promise<AmplifierState> {
+    return (await redisService.get<AmplifierState>(this.key)) || { posts: [], stats: {} };
+  }
+
+  public async save(state: AmplifierState): Promise<void> {
+    await redisService.set(this.key, state);
+  }
+}
+
+export interface TweetMetricsSource {
+  /** Resolves to null once the tweet is gone */
+  getTweetMetrics(tweetId: string): Promise<TweetMetrics | null>;
+}
+
+/**
+ * Where strategies can act. A strategy whose channel is missing is skipped.
+ */
+export interface AmplifierChannels {
+  /** Quote a tweet and resolve to the new tweet's id, or the queued post's */
+  quote?: (tweetId: string, text: string) => Promise<string>;
+  threads?: ThreadPublisher;
+  /** Twitter's public API cannot pin, so this needs a client that can */
+  pin?: (tweetId: string) => Promise<void>;
+  discord?: { service: Pick<DiscordService, 'sendMessage'>; channelId: string };
+  telegram?: { service: Pick<TelegramService, 'sendMessage'>; chatId: string | number };
+}
+
+export interface ContentAmplifierConfig {
+  metrics: TweetMetricsSource;
+  aiService: IAIService;
+  channels: AmplifierChannels;
+  trendDetector?: TrendDetector;
+  store?: AmplifierStore;
+  /** Replaces the default strategies */
+  strategies?: AmplificationStrategy[];
+  /** Used until enough organic posts have settled */
+  baseline?: { engagementRate: number; impressions: number };
+  autoStart?: boolean;
+}
+
+type ConditionContext = Record<ConditionMetric, number>;
+
+const HOUR = 60 * 60 * 1000;
+
 export class ContentAmplifier extends EventEmitter {
-  private trendDetector: TrendDetector;
-  private responseManager: ResponsePatternManager;
+  private readonly metrics: TweetMetricsSource;
+  private readonly aiService: IAIService;
+  private readonly channels: AmplifierChannels;
+  private readonly trendDetector?: TrendDetector;
+  private readonly store: AmplifierStore;
+  private readonly defaultBaseline: { engagementRate: number; impressions: number };
   private strategies: Map<string, AmplificationStrategy>;
-  private activeAmplifications: Map<string, ContentPerformance>;
+  private state?: AmplifierState;
+  private writes: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+
+  private readonly REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly SAMPLE_INTERVAL = 15 * 60 * 1000; // Metrics are re-fetched every 15 minutes
+  private readonly TRACKING_WINDOW = 24 * HOUR; // Posts are sampled for a day
+  private readonly LIFT_WINDOW = 2 * HOUR; // Engagement is compared 2 hours either side of a strategy
+  private readonly OUTPERFORM_RATIO = 1.5; // Engagement rate over the baseline that counts as outperforming
+  private readonly MIN_IMPRESSIONS = 100; // Rates on fewer impressions are noise
   private readonly MAX_CONCURRENT_AMPLIFICATIONS = 5;
-  private readonly AMPLIFICATION_TIMEOUT = 3600000; // 1 hour
+  private readonly MIN_LIFT_SAMPLES = 5;
+  private readonly RETIRE_BELOW_LIFT = 1; // Strategies that do not beat organic engagement are retired
+  private readonly MIN_BASELINE_POSTS = 5;
+  private readonly MIN_CONTROL_POSTS = 3;
+  private readonly MAX_SETTLED_POSTS = 50;
+  private readonly MIN_VELOCITY = 1 / HOUR; // One engagement an hour
 
-  constructor(
-    trendDetector: TrendDetector,
-    responseManager: ResponsePatternManager
-  ) {
+  constructor(config: ContentAmplifierConfig) {
     super();
-    this.trendDetector = trendDetector;
-    this.responseManager = responseManager;
+    this.metrics = config.metrics;
+    this.aiService = config.aiService;
+    this.channels = config.channels;
+    this.trendDetector = config.trendDetector;
+    this.store = config.store || new RedisAmplifierStore();
+    this.defaultBaseline = config.baseline || { engagementRate: 0.02, impressions: 500 };
     this.strategies = new Map();
-    this.activeAmplifications = new Map();
-    this.initializeDefaultStrategies();
+    if (config.strategies) {
+      config.strategies.forEach(strategy => this.addStrategy(strategy));
+    } else {
+      this.initializeDefaultStrategies();
+    }
+
+    if (config.autoStart ?? true) {
+      this.start();
+    }
   }
 
   private initializeDefaultStrategies(): void {
-    // Viral content boost strategy
+    // Follow-up analysis quoting the post while it is hot
     this.addStrategy({
-      id: 'viral-boost',
-      name: 'Viral Content Boost',
+      id: 'quote-analysis',
+      name: 'Quote With Follow-up Analysis',
       type: AmplificationType.BOOST,
       conditions: [
-        { type: 'engagement', operator: 'gt', value: 0.7 },
-        { type: 'sentiment', operator: 'gt', value: 0.6 }
+        { type: 'outperformance', operator: 'gt', value: 1.5 },
+        { type: 'age', operator: 'lt', value: 6 }
       ],
       actions: [
         {
           type: ActionType.QUOTE,
-          parameters: {
-            timing: 'peak',
-            style: 'enthusiastic'
-          },
-          platform: Platform.TWITTER
-        },
-        {
-          type: ActionType.THREAD,
-          parameters: {
-            segments: 3,
-            includeMetrics: true
-          },
+          parameters: { style: 'analytical' },
           platform: Platform.TWITTER
         }
       ],
@@ -105,94 +261,549 @@ export class ContentAmplifier extends EventEmitter {
 
     // Cross-platform amplification
     this.addStrategy({
-      id: 'cross-platform',
-      name: 'Cross-Platform Amplification',
+      id: 'cross-post-discord',
+      name: 'Cross-Post to Discord',
+      type: AmplificationType.CROSSPOST,
+      conditions: [{ type: 'outperformance', operator: 'gt', value: 1.5 }],
+      actions: [{ type: ActionType.SHARE, parameters: {}, platform: Platform.DISCORD }],
+      priority: 2,
+      cooldown: 3600000 // 1 hour
+    });
+
+    this.addStrategy({
+      id: 'cross-post-telegram',
+      name: 'Cross-Post to Telegram',
       type: AmplificationType.CROSSPOST,
+      conditions: [{ type: 'outperformance', operator: 'gt', value: 1.5 }],
+      actions: [{ type: ActionType.SHARE, parameters: {}, platform: Platform.TELEGRAM }],
+      priority: 2,
+      cooldown: 3600000 // 1 hour
+    });
+
+    // Posts that keep spreading get a thread under them
+    this.addStrategy({
+      id: 'follow-up-thread',
+      name: 'Follow-up Thread',
+      type: AmplificationType.REMIX,
       conditions: [
-        { type: 'engagement', operator: 'gt', value: 0.5 },
-        { type: 'trend', operator: 'eq', value: 1 }
+        { type: 'outperformance', operator: 'gt', value: 2 },
+        { type: 'viralCoefficient', operator: 'gt', value: 1 }
       ],
       actions: [
         {
-          type: ActionType.SHARE,
-          parameters: {
-            adaptContent: true,
-            trackOriginal: true
-          },
-          platform: Platform.DISCORD
+          type: ActionType.THREAD,
+          parameters: { segments: 3 },
+          platform: Platform.TWITTER
         }
       ],
-      priority: 2,
-      cooldown: 3600000 // 1 hour
+      priority: 3,
+      cooldown: 7200000 // 2 hours
     });
+
+    this.addStrategy({
+      id: 'pin',
+      name: 'Pin to Profile',
+      type: AmplificationType.BOOST,
+      conditions: [{ type: 'outperformance', operator: 'gt', value: 3 }],
+      actions: [{ type: ActionType.PIN, parameters: {}, platform: Platform.TWITTER }],
+      priority: 4,
+      cooldown: 86400000 // 1 day
+    });
+  }
+
+  public start(interval: number = this.REFRESH_INTERVAL): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => elizaLogger.error('Content amplifier refresh failed:', error));
+    }, interval);
   }
 
-  public async amplifyContent(
-    contentId: string,
-    content: string,
-    platform: Platform,
-    metrics: Record<string, any>
-  ): Promise<void> {
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Start sampling a published tweet.
+   */
+  public track(tweetId: string, content: string, postedAt: number = Date.now()): Promise<void> {
+    if (!tweetId) {
+      throw new ValidationError('Tweet id is required');
+    }
+    return this.serialize(async () => {
+      const state = await this.load();
+      if (state.posts.some(post => post.id === tweetId)) return;
+      state.posts.push({ id: tweetId, content, postedAt, snapshots: [], amplifications: [], settled: false });
+      await this.persist();
+      this.emit('tracking', { tweetId, content });
+    });
+  }
+
+  /**
+   * Track every tweet the queue publishes.
+   */
+  public watch(queue: Pick<PostQueue, 'on'>): void {
+    queue.on('postCompleted', (post: QueuedPost) => {
+      // Quotes made by a strategy are amplifications, not posts to amplify
+      if (post.platform !== Platform.TWITTER || !post.externalId || post.quoteTweetId) return;
+      this.track(post.externalId, post.content).catch(error =>
+        elizaLogger.error(`Failed to track post ${post.id}:`, error)
+      );
+    });
+  }
+
+  /**
+   * Sample the posts that are due, run strategies on the ones that
+   * outperform and measure the lift of earlier runs.
+   */
+  public async refresh(now: number = Date.now()): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
     try {
-      if (this.activeAmplifications.size >= this.MAX_CONCURRENT_AMPLIFICATIONS) {
-        this.pruneActiveAmplifications();
-      }
+      const state = await this.load();
+      for (const post of state.posts.filter(post => !post.settled)) {
+        const last = post.snapshots[post.snapshots.length - 1];
+        if (last && now - last.timestamp < this.SAMPLE_INTERVAL) continue;
+        if (now - post.postedAt > this.TRACKING_WINDOW && !this.hasPendingLift(post)) continue;
 
-      const applicableStrategies = this.findApplicableStrategies(metrics);
-      if (applicableStrategies.length === 0) return;
+        let metrics: TweetMetrics | null;
+        try {
+          metrics = await this.metrics.getTweetMetrics(post.id);
+        } catch (error) {
+          elizaLogger.warn(`Failed to fetch metrics for ${post.id}:`, error);
+          continue;
+        }
+
+        if (!metrics) {
+          // Deleted posts cannot be measured any more
+          post.amplifications
+            .filter(record => record.lift === undefined && !record.error)
+            .forEach(record => { record.error = 'Post deleted before the lift was measured'; });
+          post.settled = true;
+          continue;
+        }
 
-      const performance = await this.trackContentPerformance(contentId, metrics);
-      this.activeAmplifications.set(contentId, performance);
+        post.snapshots.push({ timestamp: now, ...metrics });
+        post.performance = this.computePerformance(post, now);
+        this.emit('performanceUpdated', { tweetId: post.id, performance: { ...post.performance } });
 
-      for (const strategy of applicableStrategies) {
-        await this.executeStrategy(strategy, content, platform, performance);
+        if (this.isOutperforming(post)) {
+          await this.amplify(post, now);
+        }
       }
 
-    } catch (error) {
-      console.error('Error amplifying content:', error);
+      this.measureLifts(now);
+      this.settle(now);
+      await this.serialize(() => this.persist());
+    } finally {
+      this.refreshing = false;
     }
   }
 
+  public async getTrackedPosts(): Promise<TrackedPost[]> {
+    return (await this.load()).posts.map(post => JSON.parse(JSON.stringify(post)));
+  }
+
+  public async getStrategyStats(): Promise<StrategyReport[]> {
+    await this.load();
+    return Array.from(this.strategies.values()).map(strategy => {
+      const stats = this.statsFor(strategy.id);
+      return {
+        id: strategy.id,
+        name: strategy.name,
+        ...stats,
+        averageLift: stats.measured ? stats.totalLift / stats.measured : null
+      };
+    });
+  }
+
+  /**
+   * Put a retired strategy back in rotation with a clean record.
+   */
+  public reinstate(strategyId: string): Promise<void> {
+    if (!this.strategies.has(strategyId)) {
+      throw new ValidationError(`Unknown strategy ${strategyId}`);
+    }
+    return this.serialize(async () => {
+      const state = await this.load();
+      state.stats[strategyId] = { runs: 0, measured: 0, totalLift: 0, retired: false };
+      await this.persist();
+    });
+  }
+
   private addStrategy(strategy: AmplificationStrategy): void {
     this.strategies.set(strategy.id, strategy);
   }
 
-  private pruneActiveAmplifications(): void {
-    const now = Date.now();
-    for (const [contentId, performance] of this.activeAmplifications) {
-      if (performance.peakTime && (now - performance.peakTime) > this.AMPLIFICATION_TIMEOUT) {
-        this.activeAmplifications.delete(contentId);
+  private async amplify(post: TrackedPost, now: number): Promise<void> {
+    const state = await this.load();
+    const active = state.posts.filter(other => other !== post && this.hasPendingLift(other)).length;
+    if (active >= this.MAX_CONCURRENT_AMPLIFICATIONS) return;
+
+    const context = this.conditionContext(post, now);
+    const strategies = Array.from(this.strategies.values())
+      .filter(strategy => !this.statsFor(strategy.id).retired)
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const strategy of strategies) {
+      const stats = this.statsFor(strategy.id);
+      if (post.amplifications.some(record => record.strategyId === strategy.id)) continue;
+      if (stats.lastUsed && now - stats.lastUsed < strategy.cooldown) continue;
+      if (!this.canExecute(strategy) || !this.meetsConditions(strategy.conditions, context)) continue;
+
+      const record: AmplificationRecord = { strategyId: strategy.id, executedAt: now, outputs: [] };
+      try {
+        record.outputs = await this.executeStrategy(strategy, post);
+        stats.runs++;
+        elizaLogger.info(`Amplified ${post.id} with ${strategy.name}`);
+        this.emit('amplified', { tweetId: post.id, strategyId: strategy.id, outputs: record.outputs });
+      } catch (error) {
+        record.error = error instanceof Error ? error.message : String(error);
+        elizaLogger.error(`Strategy ${strategy.id} failed for ${post.id}:`, record.error);
       }
+      stats.lastUsed = now;
+      post.amplifications.push(record);
+      await this.serialize(() => this.persist());
     }
   }
 
-  private findApplicableStrategies(metrics: Record<string, any>): AmplificationStrategy[] {
-    const applicableStrategies: AmplificationStrategy[] = [];
-    for (const strategy of this.strategies.values()) {
-      if (this.meetsConditions(strategy.conditions, metrics)) {
-        applicableStrategies.push(strategy);
+  private meetsConditions(conditions: AmplificationCondition[], context: ConditionContext): boolean {
+    return conditions.every(condition => {
+      const value = context[condition.type];
+      switch (condition.operator) {
+        case 'gt':
+          return value > (condition.value as number);
+        case 'lt':
+          return value < (condition.value as number);
+        case 'eq':
+          return value === condition.value;
+        case 'between': {
+          const [min, max] = condition.value as [number, number];
+          return value >= min && value <= max;
+        }
+        default:
+          return false;
+      }
+    });
+  }
+
+  private conditionContext(post: TrackedPost, now: number): ConditionContext {
+    const performance = post.performance!;
+    const content = post.content.toLowerCase();
+    const trending = this.trendDetector
+      ? Array.from(this.trendDetector.getActiveTrends().values())
+        .some(trend => trend.topic && content.includes(trend.topic.toLowerCase()))
+      : false;
+
+    return {
+      engagementRate: performance.engagementRate,
+      outperformance: performance.outperformance,
+      viralCoefficient: performance.viralCoefficient,
+      impressions: post.snapshots[post.snapshots.length - 1].impressions,
+      age: (now - post.postedAt) / HOUR,
+      trend: trending ? 1 : 0
+    };
+  }
+
+  private computePerformance(post: TrackedPost, now: number): ContentPerformance {
+    const points = this.engagementPoints(post);
+    const latest = post.snapshots[post.snapshots.length - 1];
+    const baseline = this.getBaseline();
+    const engagementRate = latest.impressions ? engagementsOf(latest) / latest.impressions : 0;
+
+    // Shares gained in each of the last two sample intervals
+    const shares = [{ retweets: 0, quotes: 0 }, ...post.snapshots].map(point => point.retweets + point.quotes);
+    const latestGain = shares[shares.length - 1] - shares[shares.length - 2];
+    const previousGain = shares.length > 2 ? shares[shares.length - 2] - shares[shares.length - 3] : 0;
+
+    let peakTime: number | null = null;
+    let peakGain = 0;
+    for (let i = 1; i < points.length; i++) {
+      const gain = points[i].engagements - points[i - 1].engagements;
+      if (gain > peakGain) {
+        peakGain = gain;
+        peakTime = points[i].timestamp;
       }
     }
-    return applicableStrategies;
+
+    return {
+      engagementRate,
+      outperformance: engagementRate / baseline.engagementRate,
+      reachMultiplier: latest.impressions / baseline.impressions,
+      viralCoefficient: previousGain > 0 ? latestGain / previousGain : 0,
+      peakTime,
+      duration: now - post.postedAt
+    };
   }
 
-  private meetsConditions(conditions: AmplificationCondition[], metrics: Record<string, any>): boolean {
-    // Implement condition checking logic
-    return true;
+  private isOutperforming(post: TrackedPost): boolean {
+    const latest = post.snapshots[post.snapshots.length - 1];
+    return latest.impressions >= this.MIN_IMPRESSIONS &&
+      (post.performance?.outperformance ?? 0) >= this.OUTPERFORM_RATIO;
   }
 
-  private async trackContentPerformance(contentId: string, metrics: Record<string, any>): Promise<ContentPerformance> {
-    // Implement performance tracking logic
+  /**
+   * Median rate and reach of settled posts that were left alone, amplified
+   * posts would inflate it.
+   */
+  private getBaseline(): { engagementRate: number; impressions: number } {
+    const organic = (this.state?.posts || [])
+      .filter(post => post.settled && !post.amplifications.length && post.snapshots.length);
+    if (organic.length < this.MIN_BASELINE_POSTS) {
+      return this.defaultBaseline;
+    }
+
+    const finals = organic.map(post => post.snapshots[post.snapshots.length - 1]);
     return {
-      engagementRate: metrics.engagementRate,
-      reachMultiplier: metrics.reachMultiplier,
-      viralCoefficient: metrics.viralCoefficient,
-      peakTime: Date.now(),
-      duration: 3600
+      engagementRate: median(finals.map(s => (s.impressions ? engagementsOf(s) / s.impressions : 0))) ||
+        this.defaultBaseline.engagementRate,
+      impressions: median(finals.map(s => s.impressions)) || this.defaultBaseline.impressions
     };
   }
 
-  private async executeStrategy(strategy: AmplificationStrategy, content: string, platform: Platform, performance: ContentPerformance): Promise<void> {
-    // Implement strategy execution logic
+  private canExecute(strategy: AmplificationStrategy): boolean {
+    return strategy.actions.every(action => {
+      switch (action.type) {
+        case ActionType.QUOTE:
+          return Boolean(this.channels.quote);
+        case ActionType.THREAD:
+          return Boolean(this.channels.threads);
+        case ActionType.PIN:
+          return Boolean(this.channels.pin);
+        case ActionType.SHARE:
+          return action.platform === Platform.DISCORD
+            ? Boolean(this.channels.discord)
+            : action.platform === Platform.TELEGRAM && Boolean(this.channels.telegram);
+        default:
+          return false;
+      }
+    });
+  }
+
+  private async executeStrategy(strategy: AmplificationStrategy, post: TrackedPost): Promise<string[]> {
+    const outputs: string[] = [];
+    for (const action of strategy.actions) {
+      outputs.push(...(await this.executeAction(action, post)));
+    }
+    return outputs;
+  }
+
+  private async executeAction(action: AmplificationAction, post: TrackedPost): Promise<string[]> {
+    const performance = post.performance!;
+    const stats = `${(performance.engagementRate * 100).toFixed(1)}% engagement on ` +
+      `${post.snapshots[post.snapshots.length - 1].impressions} impressions`;
+    const link = `https://x.com/i/status/${post.id}`;
+
+    switch (action.type) {
+      case ActionType.QUOTE: {
+        const analysis = await this.generate(
+          `This post is outperforming (${stats}). Write a ${action.parameters.style || 'short'} follow-up ` +
+          `analysis to quote it with. Add something new instead of repeating it, stay under 250 characters ` +
+          `and use no hashtags.\n\nPost: ${post.content}`,
+          post
+        );
+        const text = composeThread(analysis, { numbered: false })[0].text;
+        return [await this.channels.quote!(post.id, text)];
+      }
+
+      case ActionType.THREAD: {
+        const segments = action.parameters.segments || 3;
+        const body = await this.generate(
+          `This post is outperforming (${stats}). Continue it as a thread of ${segments} short paragraphs ` +
+          `separated by blank lines, each one adding detail or data.\n\nPost: ${post.content}`,
+          post
+        );
+        const paragraphs = body.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean).slice(0, segments);
+        const thread = await this.channels.threads!.publish(composeThread(paragraphs), {
+          id: `amplify:${post.id}`,
+          replyToTweetId: post.id
+        });
+        return thread.tweetIds;
+      }
+
+      case ActionType.SHARE:
+        if (action.platform === Platform.DISCORD) {
+          const { service, channelId } = this.channels.discord!;
+          await service.sendMessage(channelId, {
+            title: 'Trending on X',
+            description: `${post.content}\n\n${link}`,
+            fields: [{ name: 'Performance', value: stats, inline: true }]
+          });
+          return [`discord:${channelId}`];
+        } else {
+          const { service, chatId } = this.channels.telegram!;
+          const messageId = await service.sendMessage(chatId, `${post.content}\n\n${link}`);
+          return [`telegram:${messageId}`];
+        }
+
+      case ActionType.PIN:
+        await this.channels.pin!(post.id);
+        return [`pin:${post.id}`];
+
+      default:
+        throw new ValidationError(`Unsupported amplification action ${action.type}`);
+    }
   }
-}
\ No newline at end of file
+
+  private generate(prompt: string, post: TrackedPost): Promise<string> {
+    return this.aiService.generateResponse({
+      content: prompt,
+      author: 'system',
+      platform: 'twitter',
+      channel: post.id,
+      context: { metrics: post.performance }
+    });
+  }
+
+  /**
+   * Score the strategies whose lift window has passed. Strategies that ran
+   * on a post together share its lift.
+   */
+  private measureLifts(now: number): void {
+    for (const post of this.state?.posts || []) {
+      for (const record of post.amplifications) {
+        if (record.lift !== undefined || record.error) continue;
+        if (now < record.executedAt + this.LIFT_WINDOW) continue;
+
+        const observed = this.velocityRatio(post, record.executedAt);
+        if (observed === null) continue;
+
+        record.lift = observed / this.organicRatio(record.executedAt - post.postedAt);
+        const stats = this.statsFor(record.strategyId);
+        stats.measured++;
+        stats.totalLift += record.lift;
+        this.emit('liftMeasured', { tweetId: post.id, strategyId: record.strategyId, lift: record.lift });
+        this.review(record.strategyId, now);
+      }
+    }
+  }
+
+  private review(strategyId: string, now: number): void {
+    const stats = this.statsFor(strategyId);
+    if (stats.retired || stats.measured < this.MIN_LIFT_SAMPLES) return;
+
+    const averageLift = stats.totalLift / stats.measured;
+    if (averageLift < this.RETIRE_BELOW_LIFT) {
+      stats.retired = true;
+      stats.retiredAt = now;
+      elizaLogger.warn(`Retiring amplification strategy ${strategyId}, average lift ${averageLift.toFixed(2)}`);
+      this.emit('strategyRetired', { strategyId, averageLift, measured: stats.measured });
+    }
+  }
+
+  /**
+   * Engagement velocity in the window after `at` over the window before it,
+   * or null while the post has not been sampled past the window.
+   */
+  private velocityRatio(post: TrackedPost, at: number): number | null {
+    const points = this.engagementPoints(post);
+    const end = at + this.LIFT_WINDOW;
+    const before = Math.min(this.LIFT_WINDOW, at - post.postedAt);
+    if (before <= 0 || points[points.length - 1].timestamp < end) return null;
+
+    const beforeVelocity = (engagementsAt(points, at) - engagementsAt(points, at - before)) / before;
+    const afterVelocity = (engagementsAt(points, end) - engagementsAt(points, at)) / this.LIFT_WINDOW;
+    return afterVelocity / Math.max(beforeVelocity, this.MIN_VELOCITY);
+  }
+
+  /**
+   * Engagement decays on its own, so lift is measured against what settled
+   * organic posts did at the same age.
+   */
+  private organicRatio(age: number): number {
+    const ratios = (this.state?.posts || [])
+      .filter(post => post.settled && !post.amplifications.length)
+      .map(post => this.velocityRatio(post, post.postedAt + age))
+      .filter((ratio): ratio is number => ratio !== null);
+
+    return ratios.length >= this.MIN_CONTROL_POSTS ? median(ratios) || 1 : 1;
+  }
+
+  private settle(now: number): void {
+    const state = this.state!;
+    for (const post of state.posts) {
+      if (!post.settled && now - post.postedAt > this.TRACKING_WINDOW && !this.hasPendingLift(post)) {
+        post.settled = true;
+      }
+    }
+
+    const settled = state.posts
+      .filter(post => post.settled)
+      .sort((a, b) => b.postedAt - a.postedAt);
+    const dropped = new Set(settled.slice(this.MAX_SETTLED_POSTS));
+    state.posts = state.posts.filter(post => !dropped.has(post));
+  }
+
+  private hasPendingLift(post: TrackedPost): boolean {
+    return post.amplifications.some(record => record.lift === undefined && !record.error);
+  }
+
+  private engagementPoints(post: TrackedPost): Array<{ timestamp: number; engagements: number }> {
+    return [
+      { timestamp: post.postedAt, engagements: 0 },
+      ...post.snapshots.map(snapshot => ({ timestamp: snapshot.timestamp, engagements: engagementsOf(snapshot) }))
+    ];
+  }
+
+  private statsFor(strategyId: string): StrategyStats {
+    const stats = this.state!.stats;
+    if (!stats[strategyId]) {
+      stats[strategyId] = { runs: 0, measured: 0, totalLift: 0, retired: false };
+    }
+    return stats[strategyId];
+  }
+
+  /**
+   * Load errors propagate and the next call tries again; starting empty would
+   * let the next save drop tracked posts and strategy retirements.
+   */
+  private async load(): Promise<AmplifierState> {
+    if (!this.state) {
+      this.state = await this.store.load();
+    }
+    return this.state;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.state || { posts: [], stats: {} });
+    } catch (error) {
+      elizaLogger.error('Failed to persist amplifier state:', error);
+    }
+  }
+
+  /**
+   * The state is a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+function engagementsOf(metrics: TweetMetrics): number {
+  return metrics.likes + metrics.retweets + metrics.replies + metrics.quotes;
+}
+
+// Linear between samples, flat after the last one
+function engagementsAt(points: Array<{ timestamp: number; engagements: number }>, timestamp: number): number {
+  if (timestamp <= points[0].timestamp) return points[0].engagements;
+  for (let i = 1; i < points.length; i++) {
+    if (timestamp <= points[i].timestamp) {
+      const previous = points[i - 1];
+      const span = points[i].timestamp - previous.timestamp;
+      return previous.engagements + ((points[i].engagements - previous.engagements) * (timestamp - previous.timestamp)) / span;
+    }
+  }
+  return points[points.length - 1].engagements;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,211 @@
+import { describe, test, expect } from '@jest/globals';
+import { Keypair } from '@solana/web3.js';
+import { CopyTradeExecutor, CopyTrader, CopyTraderState, startCopyTrading } from '../copyTrader.js';
+import { RiskEngine } from '../riskEngine.js';
+import { RiskLimitError, ValidationError } from '../../../utils/error-handler.js';
+import type { TradeParams } from '../../blockchain/defi/tradingEngine.js';
+import type { SwapTransaction } from '../../transaction-viewer.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const MEME = 'MemeMint111111111111111111111111111111111111';
+const RUG = 'RugMint1111111111111111111111111111111111111';
+const LEADER = Keypair.generate().publicKey.toBase58();
+
+let signatures = 0;
+const swap = (tokenIn: [string, number], tokenOut: [string, number]): SwapTransaction => {
+  const signature = `sig${++signatures}`;
+  return {
+    signature,
+    timestamp: Math.floor(Date.now() / 1000),
+    tokenIn: { symbol: '', address: tokenIn[0], amount: tokenIn[1] },
+    tokenOut: { symbol: '', address: tokenOut[0], amount: tokenOut[1] },
+    dex: 'JUPITER',
+    txHash: signature,
+    status: 'success',
+    price: tokenIn[1] / tokenOut[1],
+    priceImpact: 0
+  };
+};
+
+/**
+ * Fills every trade at the price table and keeps wallet balances, rejecting
+ * buys of RUG the way the risk engine rejects tokens failing the rug scan.
+ */
+function createExecutor(prices: Record<string, number>): CopyTradeExecutor & { trades: TradeParams[] } {
+  const balances: Record<string, number> = { [SOL]: 100 };
+  const trades: TradeParams[] = [];
+  return {
+    trades,
+    getTokenBalance: async mint => balances[mint] || 0,
+    executeTrade: async params => {
+      if (params.outputToken === RUG) {
+        throw new RiskLimitError(`${RUG} scored 20/100, minimum is ${params.minTokenScore}`, 'tokenSafety');
+      }
+      trades.push(params);
+      const outputAmount = (params.amount * prices[params.inputToken]) / prices[params.outputToken];
+      balances[params.inputToken] = (balances[params.inputToken] || 0) - params.amount;
+      balances[params.outputToken] = (balances[params.outputToken] || 0) + outputAmount;
+      return {
+        id: `trade${trades.length}`,
+        inputToken: params.inputToken,
+        outputToken: params.outputToken,
+        inputAmount: params.amount,
+        outputAmount,
+        executionPrice: 0,
+        slippage: 0,
+        priceImpact: 0,
+        fee: 0,
+        route: [],
+        timestamp: Date.now()
+      };
+    }
+  };
+}
+
+function createTrader(
+  prices: Record<string, number>,
+  leaderSwaps: SwapTransaction[],
+  options: { walletScore?: number; minLeaderScore?: number; priceSource?: (mint: string) => Promise<number> } = {}
+) {
+  const store = {
+    saved: null as CopyTraderState | null,
+    load: async () => store.saved && JSON.parse(JSON.stringify(store.saved)),
+    save: async (state: CopyTraderState) => { store.saved = JSON.parse(JSON.stringify(state)); }
+  };
+  const executor = createExecutor(prices);
+  const risk = new RiskEngine({
+    limits: { maxTokenExposurePct: 0.2, maxMemecoinExposurePct: 0.5 },
+    portfolioProvider: async () => ({ totalValueUsd: 10000, holdings: [{ mint: USDC, amount: 10000, valueUsd: 10000 }] }),
+    stateKey: `risk:test:${Math.random()}`
+  });
+  const trader = new CopyTrader(executor, {
+    config: { maxTradeUsd: 500, minLeaderScore: options.minLeaderScore ?? 0 },
+    store,
+    swapSource: async () => [...leaderSwaps].reverse(),
+    priceSource: options.priceSource || (async mint => prices[mint]),
+    leaderScorer: async () => options.walletScore ?? 70,
+    risk
+  });
+  return { trader, executor, store };
+}
+
+describe('CopyTrader', () => {
+  test('mirrors buys by ratio, sells the same share and compares PnL', async () => {
+    const prices: Record<string, number> = { [SOL]: 100, [MEME]: 0.01 };
+    const leaderSwaps = [swap([SOL, 5], [MEME, 50000])];
+    const { trader, executor } = createTrader(prices, leaderSwaps);
+
+    // Swaps made before following are not copied
+    await trader.addLeader(LEADER, { ratio: 0.5 });
+    expect(await trader.poll()).toEqual([]);
+
+    // $2000 leader buy at half size is capped at the $500 max trade
+    leaderSwaps.push(swap([SOL, 20], [MEME, 200000]));
+    const [buy] = await trader.poll();
+    expect(buy).toMatchObject({ side: 'buy', status: 'executed', leaderValueUsd: 2000, followerValueUsd: 500 });
+    expect(executor.trades[0]).toMatchObject({ inputToken: SOL, outputToken: MEME, amount: 5, minTokenScore: 60 });
+
+    // Leader sells half of the 200k booked since we followed at double the price
+    prices[MEME] = 0.02;
+    leaderSwaps.push(swap([MEME, 100000], [SOL, 20]));
+    const [sell] = await trader.poll();
+    expect(sell).toMatchObject({ side: 'sell', status: 'executed', followerTokens: 25000 });
+
+    const performance = await trader.getPerformance(LEADER);
+    expect(performance.leader).toMatchObject({ investedUsd: 2000, realizedUsd: 1000, unrealizedUsd: 1000, returnPct: 1 });
+    expect(performance.follower).toMatchObject({ investedUsd: 500, realizedUsd: 250, unrealizedUsd: 250, winRate: 1 });
+    expect(performance.trackingGapPct).toBe(0);
+    expect(performance.score).toBe(100);
+  });
+
+  test('skips tokens failing safety checks and swaps we cannot mirror', async () => {
+    const prices: Record<string, number> = { [SOL]: 100, [RUG]: 1, [MEME]: 0.01 };
+    const { trader, executor } = createTrader(prices, []);
+    await trader.addLeader(LEADER);
+
+    const rejected = await trader.processSwap(LEADER, swap([SOL, 1], [RUG, 100]));
+    expect(rejected).toMatchObject({ status: 'skipped', side: 'buy' });
+    expect(rejected?.reason).toContain('scored 20/100');
+
+    const unheld = await trader.processSwap(LEADER, swap([MEME, 1000], [SOL, 0.1]));
+    expect(unheld).toMatchObject({ status: 'skipped', reason: 'No mirrored position to sell' });
+
+    const stale = { ...swap([SOL, 1], [MEME, 10000]), timestamp: Math.floor(Date.now() / 1000) - 600 };
+    expect((await trader.processSwap(LEADER, stale))?.reason).toContain('old');
+    expect(await trader.processSwap(LEADER, stale)).toBeNull();
+
+    expect(executor.trades).toHaveLength(0);
+    expect((await trader.getHistory(LEADER)).map(record => record.status)).toEqual(['skipped', 'skipped', 'skipped']);
+  });
+
+  test('only follows leaders with a good enough wallet score', async () => {
+    const { trader } = createTrader({}, [], { walletScore: 40, minLeaderScore: 50 });
+    await expect(trader.addLeader(LEADER)).rejects.toThrow(ValidationError);
+    expect(await trader.listLeaders()).toEqual([]);
+
+    const { trader: scored } = createTrader({ [SOL]: 100 }, [], { walletScore: 65, minLeaderScore: 50 });
+    expect(await scored.addLeader(LEADER)).toMatchObject({ wallet: LEADER, walletScore: 65 });
+    expect((await scored.getPerformance(LEADER)).walletScore).toBe(65);
+  });
+
+  test('persists a swap as seen before copying it', async () => {
+    const prices: Record<string, number> = { [SOL]: 100, [MEME]: 0.01 };
+    const { trader, executor, store } = createTrader(prices, []);
+    await trader.addLeader(LEADER);
+
+    const leaderSwap = swap([SOL, 1], [MEME, 10000]);
+    const execute = executor.executeTrade;
+    let seenAtExecution: string[] = [];
+    executor.executeTrade = async params => {
+      seenAtExecution = store.saved!.seen[LEADER];
+      return execute(params);
+    };
+
+    expect(await trader.processSwap(LEADER, leaderSwap)).toMatchObject({ status: 'executed' });
+    expect(seenAtExecution).toContain(leaderSwap.signature);
+  });
+
+  test('records a swap it cannot price as failed', async () => {
+    const { trader, executor } = createTrader({}, [], {
+      priceSource: async () => { throw new Error('price unavailable'); }
+    });
+    await trader.addLeader(LEADER);
+    const failed: unknown[] = [];
+    trader.on('copyTradeFailed', record => failed.push(record));
+
+    const leaderSwap = swap([SOL, 1], [MEME, 10000]);
+    expect(await trader.processSwap(LEADER, leaderSwap)).toMatchObject({ status: 'failed', leaderValueUsd: 0 });
+    expect((await trader.getHistory(LEADER))[0].reason).toContain('price unavailable');
+    expect(failed).toHaveLength(1);
+
+    // Already seen, so it is not retried
+    expect(await trader.processSwap(LEADER, leaderSwap)).toBeNull();
+    expect(executor.trades).toHaveLength(0);
+  });
+
+  test('starts without following removed or unlisted leaders again', async () => {
+    const OTHER = Keypair.generate().publicKey.toBase58();
+    const { store } = createTrader({}, []);
+    const executor = createExecutor({});
+    const start = (leaders: Array<{ wallet: string }>) => startCopyTrading(executor, {
+      store,
+      swapSource: async () => [],
+      priceSource: async () => 1,
+      leaderScorer: async () => 70,
+      leaders
+    });
+
+    const first = await start([{ wallet: LEADER }, { wallet: OTHER }]);
+    await first.removeLeader(LEADER);
+    first.stop();
+
+    const second = await start([{ wallet: LEADER }]);
+    second.stop();
+    const leaders = await second.listLeaders();
+    expect(leaders.map(({ wallet, enabled }) => ({ wallet, enabled }))).toEqual([
+      { wallet: LEADER, enabled: false },
+      { wallet: OTHER, enabled: false }
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  ExecutionSchedule,
+  ExecutionScheduler,
+  ScheduleStore,
+  SliceOrder,
+  createTradingServiceExecutor
+} from '../executionScheduler.js';
+import type { SwapOptions, TradingService } from '../trading-service.js';
+import { RiskLimitError } from '../../../utils/error-handler.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const MINUTE = 60 * 1000;
+
+const createStore = (): ScheduleStore => {
+  let saved: ExecutionSchedule[] = [];
+  return {
+    load: async () => JSON.parse(JSON.stringify(saved)),
+    save: async schedules => { saved = JSON.parse(JSON.stringify(schedules)); }
+  };
+};
+
+describe('ExecutionScheduler', () => {
+  test('DCA buys a fixed amount per interval, skipping slices outside the price band', async () => {
+    const prices: Record<string, number> = { [BONK]: 0.00002 };
+    const orders: SliceOrder[] = [];
+    const scheduler = new ExecutionScheduler(
+      async order => {
+        orders.push(order);
+        return { outputAmount: (order.amount * 100) / prices[BONK], signature: `sig${orders.length}` };
+      },
+      { store: createStore(), priceSource: async mint => prices[mint] }
+    );
+
+    const start = Date.now();
+    const schedule = await scheduler.createDca({
+      inputMint: SOL,
+      outputMint: BONK,
+      amountPerOrder: 0.5,
+      intervalMinutes: 60,
+      orders: 3,
+      priceBand: { max: 0.00003 },
+      startAt: start
+    });
+
+    await scheduler.tick(start);
+    // Not due yet
+    await scheduler.tick(start + 30 * MINUTE);
+
+    prices[BONK] = 0.00004;
+    await scheduler.tick(start + 60 * MINUTE);
+    expect((await scheduler.getReport(schedule.id)).skippedSlices).toBe(1);
+
+    prices[BONK] = 0.000025;
+    await scheduler.tick(start + 120 * MINUTE);
+    await scheduler.tick(start + 180 * MINUTE);
+
+    expect(orders.map(order => order.amount)).toEqual([0.5, 0.5, 0.5]);
+    const report = await scheduler.getReport(schedule.id);
+    expect(report).toMatchObject({ status: 'completed', fills: 3, filledAmount: 1.5, remainingAmount: 0, nextRunAt: null });
+    // 1.5 SOL for 2.5M + 2M + 2M BONK
+    expect(report.averagePrice).toBeCloseTo(1.5 / 6500000, 12);
+  });
+
+  test('TWAP catches up skipped slices, survives restarts and can be paused', async () => {
+    const store = createStore();
+    let rejectNext = true;
+    const executor = async (order: SliceOrder) => {
+      if (rejectNext) {
+        rejectNext = false;
+        throw new RiskLimitError('Trading halted by kill switch: test', 'killSwitch');
+      }
+      return { outputAmount: order.amount * 150 };
+    };
+
+    const start = Date.now();
+    const first = new ExecutionScheduler(executor, { store });
+    const schedule = await first.createTwap({
+      inputMint: SOL,
+      outputMint: USDC,
+      totalAmount: 40,
+      durationMinutes: 40,
+      slices: 4,
+      startAt: start
+    });
+    await first.tick(start);
+
+    // A new scheduler on the same store picks the schedule up
+    const scheduler = new ExecutionScheduler(executor, { store });
+    await scheduler.tick(start + 10 * MINUTE);
+    let report = await scheduler.getReport(schedule.id);
+    expect(report).toMatchObject({ skippedSlices: 1, filledAmount: 40 / 3 });
+    expect(report.lastError).toBeUndefined();
+
+    await scheduler.pause(schedule.id);
+    await scheduler.tick(start + 20 * MINUTE);
+    expect((await scheduler.getReport(schedule.id)).fills).toBe(1);
+
+    await scheduler.resume(schedule.id);
+    await scheduler.tick(start + 30 * MINUTE);
+    report = await scheduler.getReport(schedule.id);
+    expect(report).toMatchObject({ status: 'completed', fills: 2, remainingAmount: 0 });
+    expect(report.receivedAmount).toBeCloseTo(6000, 6);
+    expect(report.averagePrice).toBeCloseTo(1 / 150, 9);
+    await expect(scheduler.cancel(schedule.id)).rejects.toThrow('is completed');
+  });
+
+  test('passes the schedule slippage through to the swap', async () => {
+    const swaps: Array<[string, string, number, SwapOptions]> = [];
+    const service = {
+      isPaperTrading: () => true,
+      executeSwap: async (inputMint: string, outputMint: string, amount: number, _wallet: unknown, options: SwapOptions) => {
+        swaps.push([inputMint, outputMint, amount, options]);
+        return { status: 'success', signature: 'paper-1', outputAmount: 150 };
+      }
+    } as unknown as TradingService;
+
+    const executor = createTradingServiceExecutor(service);
+    const fill = await executor({ scheduleId: 'schedule-1', inputMint: SOL, outputMint: USDC, amount: 1, slippageBps: 300 });
+
+    expect(fill).toEqual({ outputAmount: 150, signature: 'paper-1' });
+    expect(swaps).toEqual([[SOL, USDC, 1, { slippageBps: 300 }]]);
+  });
+
+  test('does not overwrite stored schedules when loading them fails', async () => {
+    const store = createStore();
+    const executor = async () => ({ outputAmount: 1 });
+    const params = { inputMint: SOL, outputMint: USDC, amountPerOrder: 1, intervalMinutes: 60, orders: 2 };
+    const existing = await new ExecutionScheduler(executor, { store }).createDca(params);
+
+    let failures = 1;
+    const flaky: ScheduleStore = {
+      load: async () => {
+        if (failures-- > 0) throw new Error('Redis unavailable');
+        return store.load();
+      },
+      save: schedules => store.save(schedules)
+    };
+    const scheduler = new ExecutionScheduler(executor, { store: flaky });
+
+    await expect(scheduler.createDca(params)).rejects.toThrow('Redis unavailable');
+    await scheduler.createDca(params);
+    expect((await store.load()).map(schedule => schedule.id)).toContain(existing.id);
+    expect(await store.load()).toHaveLength(2);
+  });
+
+  test('starts without the store, skips schedules without a price and never sends a slice twice', async () => {
+    const store = createStore();
+    let storeDown = true;
+    let saveFailures = 0;
+    let failSaveAfterFill = false;
+    const flaky: ScheduleStore = {
+      load: async () => {
+        if (storeDown) throw new Error('Redis unavailable');
+        return store.load();
+      },
+      save: async schedules => {
+        if (saveFailures-- > 0) throw new Error('Redis unavailable');
+        return store.save(schedules);
+      }
+    };
+    const stored: (ExecutionSchedule | undefined)[] = [];
+    const executor = async (order: SliceOrder) => {
+      stored.push((await store.load()).find(schedule => schedule.id === order.scheduleId));
+      if (failSaveAfterFill) saveFailures = 1;
+      return { outputAmount: order.amount * 100, signature: `sig-${stored.length}` };
+    };
+    const scheduler = new ExecutionScheduler(executor, {
+      store: flaky,
+      tickMs: 60 * MINUTE,
+      priceSource: async mint => {
+        if (mint === BONK) throw new Error('No price for BONK');
+        return 150;
+      }
+    });
+
+    await scheduler.start();
+    scheduler.stop();
+    storeDown = false;
+
+    const params = { inputMint: USDC, amountPerOrder: 1, intervalMinutes: 60, orders: 3, priceBand: { max: 200 } };
+    const bonk = await scheduler.createDca({ ...params, outputMint: BONK });
+    const sol = await scheduler.createDca({ ...params, outputMint: SOL });
+
+    // One schedule without a price does not hold up the others
+    const [fill] = await scheduler.tick();
+    expect(fill.signature).toBe('sig-1');
+    expect((await scheduler.get(bonk.id))!.lastError).toBe('Price unavailable: No price for BONK');
+    expect(stored[0]!.inFlight!.amount).toBe(1);
+    expect((await store.load()).every(schedule => !schedule.inFlight)).toBe(true);
+
+    // A fill that cannot be stored leaves the marker behind
+    const unsaved: unknown[] = [];
+    scheduler.on('fillNotSaved', event => unsaved.push(event));
+    failSaveAfterFill = true;
+    await scheduler.tick(Date.now() + 61 * MINUTE);
+    expect(unsaved).toHaveLength(1);
+    expect(stored).toHaveLength(2);
+
+    // A restart pauses the schedule instead of sending the slice again
+    failSaveAfterFill = false;
+    const restarted = new ExecutionScheduler(executor, { store, priceSource: async () => 150 });
+    const paused = await restarted.get(sol.id);
+    expect(paused!.status).toBe('paused');
+    expect(paused!.lastError).toContain('may have filled without being recorded');
+    expect(await restarted.tick(Date.now() + 200 * MINUTE)).toHaveLength(1);
+    expect(stored).toHaveLength(3);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { PaperTradingBackend, parsePaperBalances } from '../paperTrading.js';
+import { InsufficientFundsError, ValidationError } from '../../../utils/error-handler.js';
+import { TradeResult } from '../../blockchain/defi/tradingEngine.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const MEME = 'MemeMint111111111111111111111111111111111111';
+
+describe('PaperTradingBackend', () => {
+  let prices: Record<string, number>;
+  let backend: PaperTradingBackend;
+
+  beforeEach(() => {
+    prices = { [SOL]: 100, [USDC]: 1 };
+    backend = new PaperTradingBackend({
+      initialBalances: { [SOL]: 10, [USDC]: 1000 },
+      feeBps: 25,
+      slippageBps: 10,
+      priceSource: async mint => {
+        if (prices[mint] === undefined) throw new Error(`No price for ${mint}`);
+        return prices[mint];
+      }
+    });
+  });
+
+  test('fills at recorded prices after fees and slippage and moves the balances', async () => {
+    const trades: TradeResult[] = [];
+    backend.on('trade', (trade: TradeResult) => trades.push(trade));
+
+    const result = await backend.fill({ inputMint: SOL, outputMint: USDC, amount: 2 });
+
+    // 0.25% fee on the input, then 0.1% slippage on the output
+    expect(result.outputAmount).toBeCloseTo(1.995 * 100 * 0.999, 10);
+    expect(result).toMatchObject({ inputToken: SOL, outputToken: USDC, inputAmount: 2, fee: 0.005, route: ['paper'] });
+    expect(backend.getBalance(SOL)).toBe(8);
+    expect(backend.getBalance(USDC)).toBeCloseTo(1000 + result.outputAmount, 10);
+    expect(backend.getTrades()).toEqual([result]);
+    expect(trades).toEqual([result]);
+  });
+
+  test('fills at the quoted output when there is one', async () => {
+    const result = await backend.fill({
+      inputMint: USDC,
+      outputMint: MEME,
+      amount: 100,
+      expectedOutput: 5000,
+      priceImpact: 0.02,
+      route: ['Raydium']
+    });
+
+    // Quotes already include pool fees, only slippage applies and no price is needed
+    expect(result).toMatchObject({ outputAmount: 4995, fee: 0, priceImpact: 0.02, route: ['Raydium'] });
+    expect(backend.getBalances()).toEqual({ [SOL]: 10, [USDC]: 900, [MEME]: 4995 });
+  });
+
+  test('settles raw quotes and reports raw units', async () => {
+    const result = await backend.fillRaw({ inputMint: SOL, outputMint: USDC, inAmount: 1e9, outAmount: 100e6 });
+
+    expect(result.inputAmount).toBe(1e9);
+    expect(result.outputAmount).toBeCloseTo(99.9e6, 4);
+    expect(result.executionPrice).toBeCloseTo(0.0999, 10);
+    expect(backend.getBalance(SOL)).toBe(9);
+    expect(backend.getBalance(USDC)).toBeCloseTo(1099.9, 10);
+  });
+
+  test('rejects fills it cannot settle without touching the balances', async () => {
+    await expect(backend.fill({ inputMint: SOL, outputMint: USDC, amount: 11 })).rejects.toThrow(InsufficientFundsError);
+    await expect(backend.fill({ inputMint: SOL, outputMint: SOL, amount: 1 })).rejects.toThrow(ValidationError);
+    await expect(backend.fill({ inputMint: SOL, outputMint: USDC, amount: 0 })).rejects.toThrow('Invalid amount');
+    await expect(backend.fill({ inputMint: SOL, outputMint: MEME, amount: 1 })).rejects.toThrow('No price available');
+
+    expect(backend.getBalances()).toEqual({ [SOL]: 10, [USDC]: 1000 });
+    expect(backend.getTrades()).toEqual([]);
+  });
+
+  test('values the balances against the starting balances at current prices', async () => {
+    expect(await backend.getPnL()).toEqual({ initialValue: 2000, currentValue: 2000, pnl: 0, pnlPct: 0 });
+
+    const sold = await backend.fill({ inputMint: SOL, outputMint: USDC, amount: 2 });
+    await backend.fill({ inputMint: USDC, outputMint: MEME, amount: 100, expectedOutput: 5000 });
+
+    // SOL rallies after the sale, the unpriced MEME counts for nothing
+    prices[SOL] = 120;
+    const pnl = await backend.getPnL();
+    expect(pnl.initialValue).toBe(2200);
+    expect(pnl.currentValue).toBeCloseTo(8 * 120 + 900 + sold.outputAmount, 10);
+    expect(pnl.pnl).toBeCloseTo(pnl.currentValue - 2200, 10);
+    expect(pnl.pnlPct).toBeCloseTo(pnl.pnl / 2200, 10);
+
+    backend.reset();
+    expect(backend.getBalances()).toEqual({ [SOL]: 10, [USDC]: 1000 });
+    expect(backend.getTrades()).toEqual([]);
+  });
+
+  test('parses starting balances from the environment format', () => {
+    expect(parsePaperBalances(`${SOL}:5, ${USDC}:250,broken`)).toEqual({ [SOL]: 5, [USDC]: 250 });
+    expect(parsePaperBalances()).toEqual({ [SOL]: 10, [USDC]: 1000 });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect } from '@jest/globals';
+import { PortfolioSnapshot, RiskEngine, RiskEngineConfig } from '../riskEngine.js';
+import { RiskLimitError } from '../../../utils/error-handler.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const MEME = 'MemeMint111111111111111111111111111111111111';
+
+const createEngine = (
+  portfolio: PortfolioSnapshot,
+  maxConcurrentPositions = 5,
+  tokenScanner?: RiskEngineConfig['tokenScanner']
+) => new RiskEngine({
+  limits: { maxTokenExposurePct: 0.1, maxMemecoinExposurePct: 0.3, maxDailyLossPct: 0.15, maxConcurrentPositions },
+  portfolioProvider: async () => portfolio,
+  priceSource: async mint => (mint === SOL ? 100 : 1),
+  tokenScanner,
+  stateKey: `risk:test:${Math.random()}`
+});
+
+const rejection = async (promise: Promise<void>): Promise<RiskLimitError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as RiskLimitError;
+  }
+  throw new Error('Expected the trade to be rejected');
+};
+
+describe('RiskEngine', () => {
+  const portfolio: PortfolioSnapshot = {
+    totalValueUsd: 1000,
+    holdings: [
+      { mint: USDC, amount: 900, valueUsd: 900 },
+      { mint: MEME, amount: 1000, valueUsd: 50 },
+      { mint: 'OtherMeme', amount: 1000, valueUsd: 50 }
+    ]
+  };
+
+  test('allows trades within limits', async () => {
+    await createEngine(portfolio).checkTrade({ inputMint: USDC, outputMint: MEME, amount: 40 });
+  });
+
+  test('rejects trades above the per token limit', async () => {
+    const error = await rejection(
+      createEngine(portfolio).checkTrade({ inputMint: SOL, outputMint: MEME, amount: 1 })
+    );
+    expect(error).toBeInstanceOf(RiskLimitError);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.limit).toBe('tokenExposure');
+    expect(error.details.exposureUsd).toBe(150);
+  });
+
+  test('rejects new positions over the concurrent position limit', async () => {
+    const error = await rejection(
+      createEngine(portfolio, 2).checkTrade({ inputMint: USDC, outputMint: 'NewMeme', amount: 10 })
+    );
+    expect(error.limit).toBe('concurrentPositions');
+  });
+
+  test('trips the kill switch on the daily loss limit but still allows exits', async () => {
+    const snapshot = { ...portfolio };
+    const engine = createEngine(snapshot);
+    await engine.checkTrade({ inputMint: USDC, outputMint: MEME, amount: 10 });
+
+    snapshot.totalValueUsd = 800;
+    const error = await rejection(engine.checkTrade({ inputMint: USDC, outputMint: MEME, amount: 10 }));
+    expect(error.limit).toBe('dailyLoss');
+    expect((await engine.getKillSwitch()).active).toBe(true);
+
+    const halted = await rejection(engine.checkTrade({ inputMint: USDC, outputMint: MEME, amount: 1 }));
+    expect(halted.limit).toBe('killSwitch');
+
+    await engine.checkTrade({ inputMint: MEME, outputMint: USDC, amount: 100 });
+  });
+
+  test('rejects buys of tokens scoring below the minimum token score', async () => {
+    const engine = createEngine(portfolio, 5, {
+      scan: async mint => ({
+        mint,
+        score: 35,
+        level: 'high',
+        checks: [{ category: 'mintAuthority', status: 'fail', penalty: 30, message: 'Dev can mint more supply at any time' }],
+        tokenProgram: 'TokenkegQfeYrJZ9xEQPxrRxJdSV1r2Wc5DUKNiAAKm',
+        decimals: 6,
+        supply: '1000',
+        scannedAt: Date.now()
+      })
+    });
+
+    await engine.checkTrade({ inputMint: USDC, outputMint: MEME, amount: 10 });
+
+    const error = await rejection(engine.checkTrade({ inputMint: USDC, outputMint: MEME, amount: 10, minTokenScore: 50 }));
+    expect(error.limit).toBe('tokenSafety');
+    expect(error.details).toEqual({ score: 35, minScore: 50 });
+    expect(error.message).toContain('Dev can mint more supply');
+  });
+});
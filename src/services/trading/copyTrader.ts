@@ -0,0 +1,691 @@
+// src/services/trading/copyTrader.ts
+
+import { EventEmitter } from 'events';
+import { PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { JupiterPriceV2 } from '../blockchain/defi/jupiterPriceV2.js';
+import type { TradeParams, TradeResult } from '../blockchain/defi/tradingEngine.js';
+import { redisService } from '../redis/redis-service.js';
+import { HeliusEnhancedTransaction, SwapTransaction, TransactionViewer, parseHeliusSwap } from '../transaction-viewer.js';
+import { ScoringWalletKit } from '../analysis/walletScoring.js';
+import { RiskLimitError, ValidationError } from '../../utils/error-handler.js';
+import { RiskEngine, riskEngine } from './riskEngine.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+
+export interface LeaderConfig {
+  wallet: string;
+  label?: string;
+  /** Share of the leader's trade value we mirror */
+  ratio: number;
+  /** Cap on one mirrored buy, overrides the trader's maxTradeUsd */
+  maxTradeUsd?: number;
+  enabled: boolean;
+  addedAt: number;
+  /** 0-100 wallet score when the leader was added */
+  walletScore?: number;
+  /** Followed because COPY_TRADING_LEADERS listed it, rather than added at runtime */
+  configured?: boolean;
+}
+
+/**
+ * Running position in one token, valued in USD at trade time. Sells realize
+ * PnL against the average cost.
+ */
+export interface PositionBook {
+  tokens: number;
+  costUsd: number;
+  investedUsd: number;
+  realizedUsd: number;
+  closedTrades: number;
+  winningTrades: number;
+}
+
+export interface CopyPosition {
+  leader: PositionBook;
+  follower: PositionBook;
+}
+
+export type CopyTradeSide = 'buy' | 'sell';
+
+export interface CopyTradeRecord {
+  signature: string;
+  leader: string;
+  side: CopyTradeSide;
+  token: string;
+  /** When the leader's swap landed */
+  timestamp: number;
+  leaderValueUsd: number;
+  status: 'executed' | 'skipped' | 'failed';
+  reason?: string;
+  followerTokens?: number;
+  followerValueUsd?: number;
+  tradeId?: string;
+  processedAt: number;
+}
+
+export interface CopyTraderState {
+  leaders: LeaderConfig[];
+  /** Leader wallet, then token mint */
+  positions: Record<string, Record<string, CopyPosition>>;
+  /** Recently processed swap signatures per leader */
+  seen: Record<string, string[]>;
+  history: CopyTradeRecord[];
+}
+
+export interface CopyTraderStore {
+  load(): Promise<CopyTraderState | null>;
+  save(state: CopyTraderState): Promise<void>;
+}
+
+export class RedisCopyTraderStore implements CopyTraderStore {
+  private readonly key: string;
+
+  constructor(key = 'copytrading:state') {
+    this.key = key;
+  }
+
+  public async load(): Promise<CopyTraderState | null> {
+    return redisService.get<CopyTraderState>(this.key);
+  }
+
+  public async save(state: CopyTraderState): Promise<void> {
+    await redisService.set(this.key, state);
+  }
+}
+
+/** Recent swaps of a wallet, newest first */
+export type SwapSource = (wallet: string) => Promise<SwapTransaction[]>;
+
+/** 0-100 score of a wallet's trading record */
+export type LeaderScorer = (wallet: string) => Promise<number>;
+
+/** The part of TradingEngine the copy trader executes through */
+export interface CopyTradeExecutor {
+  executeTrade(params: TradeParams): Promise<TradeResult>;
+  /** Balance in UI units */
+  getTokenBalance(mint: string): Promise<number>;
+}
+
+export interface CopyTraderConfig {
+  /** Token our mirrored buys are paid with and sells are paid out in */
+  quoteMint: string;
+  defaultRatio: number;
+  maxTradeUsd: number;
+  minTradeUsd: number;
+  /** Rug scan score a token needs before we follow a leader into it */
+  minTokenScore: number;
+  slippageBps: number;
+  pollIntervalMs: number;
+  /** Leader swaps older than this are tracked but not mirrored */
+  maxSwapAgeMs: number;
+  /** Wallet score a leader needs to be followed, 0 follows anyone */
+  minLeaderScore: number;
+  /** Transactions the wallet score is computed from */
+  leaderScoreTransactions: number;
+}
+
+export const DEFAULT_COPY_TRADER_CONFIG: CopyTraderConfig = {
+  quoteMint: SOL_MINT,
+  defaultRatio: 0.1,
+  maxTradeUsd: 100,
+  minTradeUsd: 1,
+  minTokenScore: 60,
+  slippageBps: 300,
+  pollIntervalMs: 15000,
+  maxSwapAgeMs: 120000,
+  minLeaderScore: 0,
+  leaderScoreTransactions: 100
+};
+
+export interface CopyTraderOptions {
+  config?: Partial<CopyTraderConfig>;
+  store?: CopyTraderStore;
+  swapSource?: SwapSource;
+  priceSource?: (mint: string) => Promise<number>;
+  /** Defaults to ScoringWalletKit on SOLANA_RPC_URL */
+  leaderScorer?: LeaderScorer;
+  risk?: RiskEngine;
+}
+
+export interface PnLSummary {
+  investedUsd: number;
+  realizedUsd: number;
+  unrealizedUsd: number;
+  /** (realized + unrealized) / invested */
+  returnPct: number;
+  closedTrades: number;
+  winRate: number;
+  openPositions: number;
+}
+
+export interface LeaderPerformance {
+  wallet: string;
+  label?: string;
+  leader: PnLSummary;
+  follower: PnLSummary;
+  /** Leader return minus ours, what following costs in slippage, skips and timing */
+  trackingGapPct: number;
+  /** 0-100 from the leader's win rate and return, null before any closed trade */
+  score: number | null;
+  /** 0-100 wallet score when the leader was added */
+  walletScore?: number;
+  mirrored: number;
+  skipped: number;
+}
+
+const emptyBook = (): PositionBook => ({
+  tokens: 0,
+  costUsd: 0,
+  investedUsd: 0,
+  realizedUsd: 0,
+  closedTrades: 0,
+  winningTrades: 0
+});
+
+/**
+ * Mirrors the swaps of leader wallets. Buys are sized as a ratio of the
+ * leader's trade value, capped per trade and by the risk engine's exposure
+ * headroom, and only go through for tokens that pass the rug scan. Sells
+ * exit the same share of our position as the leader sold of theirs.
+ *
+ * Swaps arrive by polling the Helius transactions API or from a Helius
+ * webhook through handleWebhook. Both the leader's and our position are
+ * booked so the two can be compared.
+ */
+export class CopyTrader extends EventEmitter {
+  private readonly executor: CopyTradeExecutor;
+  private readonly config: CopyTraderConfig;
+  private readonly store: CopyTraderStore;
+  private readonly swapSource: SwapSource;
+  private readonly priceSource: (mint: string) => Promise<number>;
+  private readonly leaderScorer: LeaderScorer;
+  private readonly riskEngine: RiskEngine;
+  private readonly coreTokens = new Set([SOL_MINT, USDC_MINT, USDT_MINT]);
+  private state?: CopyTraderState;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private readonly MAX_SEEN = 500; // Signatures remembered per leader
+  private readonly MAX_HISTORY = 1000;
+
+  constructor(executor: CopyTradeExecutor, options: CopyTraderOptions = {}) {
+    super();
+    this.executor = executor;
+    this.config = { ...DEFAULT_COPY_TRADER_CONFIG, ...options.config };
+    this.store = options.store || new RedisCopyTraderStore();
+    this.riskEngine = options.risk || riskEngine;
+
+    if (options.swapSource) {
+      this.swapSource = options.swapSource;
+    } else {
+      const viewer = new TransactionViewer();
+      this.swapSource = wallet => viewer.getSwapTransactions(wallet, 20, false);
+    }
+
+    if (options.priceSource) {
+      this.priceSource = options.priceSource;
+    } else {
+      const jupiterPriceV2 = new JupiterPriceV2();
+      this.priceSource = async mint => Number((await jupiterPriceV2.getPrice(mint)).price);
+    }
+
+    this.leaderScorer = options.leaderScorer || (async wallet => {
+      const scoring = new ScoringWalletKit(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+      await scoring.fetchTx(new PublicKey(wallet), this.config.leaderScoreTransactions);
+      return Math.round(scoring.calcFinalScore() * 100);
+    });
+  }
+
+  public async start(): Promise<void> {
+    await this.loadState();
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => elizaLogger.error('Copy trading poll failed:', error));
+    }, this.config.pollIntervalMs);
+    elizaLogger.info(`Copy trader following ${(await this.listLeaders()).filter(l => l.enabled).length} leaders`);
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Follow a wallet. It is scored with ScoringWalletKit first and rejected
+   * below minLeaderScore. Its existing swaps are marked as seen so only
+   * trades made from now on are mirrored.
+   */
+  public async addLeader(
+    wallet: string,
+    options: Partial<Pick<LeaderConfig, 'label' | 'ratio' | 'maxTradeUsd' | 'configured'>> = {}
+  ): Promise<LeaderConfig> {
+    try {
+      new PublicKey(wallet);
+    } catch {
+      throw new ValidationError(`Invalid leader wallet: ${wallet}`);
+    }
+    const ratio = options.ratio ?? this.config.defaultRatio;
+    if (!(ratio > 0)) {
+      throw new ValidationError('Copy ratio must be positive');
+    }
+
+    let walletScore: number | undefined;
+    try {
+      walletScore = await this.leaderScorer(wallet);
+    } catch (error) {
+      if (this.config.minLeaderScore > 0) {
+        throw new ValidationError(`Could not score leader ${wallet}: ${error instanceof Error ? error.message : error}`);
+      }
+      elizaLogger.warn(`Could not score leader ${wallet}:`, error);
+    }
+    if (walletScore !== undefined && walletScore < this.config.minLeaderScore) {
+      throw new ValidationError(`Leader ${wallet} scored ${walletScore}/100, minimum is ${this.config.minLeaderScore}`);
+    }
+
+    const existing = await this.swapSource(wallet).catch(error => {
+      elizaLogger.warn(`Could not load existing swaps of ${wallet}:`, error);
+      return [] as SwapTransaction[];
+    });
+
+    return this.serialize(async () => {
+      const state = await this.loadState();
+      let leader = state.leaders.find(l => l.wallet === wallet);
+      if (leader) {
+        Object.assign(leader, { ...options, ratio, enabled: true, walletScore });
+      } else {
+        leader = { wallet, ...options, ratio, enabled: true, addedAt: Date.now(), walletScore };
+        state.leaders.push(leader);
+      }
+      state.seen[wallet] = [...existing.map(swap => swap.signature), ...(state.seen[wallet] || [])]
+        .slice(0, this.MAX_SEEN);
+      await this.saveState();
+      this.emit('leaderAdded', leader);
+      return { ...leader };
+    });
+  }
+
+  public removeLeader(wallet: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const state = await this.loadState();
+      const leader = state.leaders.find(l => l.wallet === wallet);
+      if (!leader || !leader.enabled) return false;
+      // Positions and history stay for PnL reporting
+      leader.enabled = false;
+      await this.saveState();
+      this.emit('leaderRemoved', leader);
+      return true;
+    });
+  }
+
+  public async listLeaders(): Promise<LeaderConfig[]> {
+    return (await this.loadState()).leaders.map(leader => ({ ...leader }));
+  }
+
+  public async getHistory(leader?: string): Promise<CopyTradeRecord[]> {
+    const history = (await this.loadState()).history;
+    return leader ? history.filter(record => record.leader === leader) : [...history];
+  }
+
+  /**
+   * Fetch new swaps of every leader and mirror them, oldest first.
+   */
+  public async poll(): Promise<CopyTradeRecord[]> {
+    if (this.polling) return [];
+    this.polling = true;
+    try {
+      const records: CopyTradeRecord[] = [];
+      for (const leader of (await this.loadState()).leaders.filter(l => l.enabled)) {
+        let swaps: SwapTransaction[];
+        try {
+          swaps = await this.swapSource(leader.wallet);
+        } catch (error) {
+          elizaLogger.warn(`Failed to fetch swaps of ${leader.wallet}:`, error);
+          continue;
+        }
+        for (const swap of [...swaps].reverse()) {
+          const record = await this.processSwap(leader.wallet, swap);
+          if (record) records.push(record);
+        }
+      }
+      return records;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Mirror swaps pushed by a Helius enhanced transaction webhook.
+   */
+  public async handleWebhook(transactions: HeliusEnhancedTransaction[]): Promise<CopyTradeRecord[]> {
+    const leaders = new Set((await this.loadState()).leaders.filter(l => l.enabled).map(l => l.wallet));
+    const records: CopyTradeRecord[] = [];
+    for (const transaction of transactions) {
+      if (!leaders.has(transaction.feePayer)) continue;
+      const swap = parseHeliusSwap(transaction, transaction.feePayer);
+      if (!swap) continue;
+      const record = await this.processSwap(transaction.feePayer, swap);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  /**
+   * Book a leader's swap and mirror it. Null for swaps already processed,
+   * failed on chain, or between two non-core tokens.
+   */
+  public processSwap(wallet: string, swap: SwapTransaction): Promise<CopyTradeRecord | null> {
+    return this.serialize(() => this.mirror(wallet, swap));
+  }
+
+  public async getPerformance(wallet: string): Promise<LeaderPerformance> {
+    const state = await this.loadState();
+    const leader = state.leaders.find(l => l.wallet === wallet);
+    const positions = Object.entries(state.positions[wallet] || {});
+    const prices = new Map<string, number>();
+    for (const [mint, position] of positions) {
+      if (position.leader.tokens > 0 || position.follower.tokens > 0) {
+        prices.set(mint, await this.priceSource(mint).catch(() => 0));
+      }
+    }
+
+    const summarize = (side: keyof CopyPosition): PnLSummary => {
+      const books = positions.map(([mint, position]) => ({ book: position[side], price: prices.get(mint) || 0 }));
+      const investedUsd = books.reduce((sum, { book }) => sum + book.investedUsd, 0);
+      const realizedUsd = books.reduce((sum, { book }) => sum + book.realizedUsd, 0);
+      const unrealizedUsd = books.reduce((sum, { book, price }) => sum + (book.tokens > 0 ? book.tokens * price - book.costUsd : 0), 0);
+      const closedTrades = books.reduce((sum, { book }) => sum + book.closedTrades, 0);
+      const winningTrades = books.reduce((sum, { book }) => sum + book.winningTrades, 0);
+      return {
+        investedUsd,
+        realizedUsd,
+        unrealizedUsd,
+        returnPct: investedUsd > 0 ? (realizedUsd + unrealizedUsd) / investedUsd : 0,
+        closedTrades,
+        winRate: closedTrades > 0 ? winningTrades / closedTrades : 0,
+        openPositions: books.filter(({ book }) => book.tokens > 0).length
+      };
+    };
+
+    const leaderPnL = summarize('leader');
+    const followerPnL = summarize('follower');
+    const records = state.history.filter(record => record.leader === wallet);
+
+    return {
+      wallet,
+      label: leader?.label,
+      leader: leaderPnL,
+      follower: followerPnL,
+      trackingGapPct: leaderPnL.returnPct - followerPnL.returnPct,
+      score: leaderPnL.closedTrades > 0
+        ? Math.round(100 * (0.5 * leaderPnL.winRate + 0.5 * Math.min(Math.max(0.5 + leaderPnL.returnPct, 0), 1)))
+        : null,
+      walletScore: leader?.walletScore,
+      mirrored: records.filter(record => record.status === 'executed').length,
+      skipped: records.filter(record => record.status === 'skipped').length
+    };
+  }
+
+  private async mirror(wallet: string, swap: SwapTransaction): Promise<CopyTradeRecord | null> {
+    const state = await this.loadState();
+    const leader = state.leaders.find(l => l.wallet === wallet);
+    const seen = state.seen[wallet] || [];
+    if (!leader || swap.status !== 'success' || seen.includes(swap.signature)) return null;
+    // Persisted before trading, a crash mid-trade must not copy the swap twice
+    state.seen[wallet] = [swap.signature, ...seen].slice(0, this.MAX_SEEN);
+    await this.saveState();
+
+    const buying = this.coreTokens.has(swap.tokenIn.address) && !this.coreTokens.has(swap.tokenOut.address);
+    const selling = !this.coreTokens.has(swap.tokenIn.address) && this.coreTokens.has(swap.tokenOut.address);
+    if (!buying && !selling) return null;
+
+    const side: CopyTradeSide = buying ? 'buy' : 'sell';
+    const token = buying ? swap.tokenOut.address : swap.tokenIn.address;
+    const quoteLeg = buying ? swap.tokenIn : swap.tokenOut;
+    const tokenAmount = buying ? swap.tokenOut.amount : swap.tokenIn.amount;
+
+    const record: CopyTradeRecord = {
+      signature: swap.signature,
+      leader: wallet,
+      side,
+      token,
+      timestamp: swap.timestamp * 1000,
+      leaderValueUsd: 0,
+      status: 'skipped',
+      processedAt: Date.now()
+    };
+
+    let leaderValueUsd: number;
+    try {
+      leaderValueUsd = quoteLeg.amount * await this.priceSource(quoteLeg.address);
+    } catch (error) {
+      // The swap is already marked as seen, so it is recorded rather than retried
+      record.status = 'failed';
+      record.reason = `Could not price ${quoteLeg.address}: ${error instanceof Error ? error.message : error}`;
+      return this.recordTrade(state, record);
+    }
+    record.leaderValueUsd = leaderValueUsd;
+
+    const positions = state.positions[wallet] = state.positions[wallet] || {};
+    const position = positions[token] = positions[token] || { leader: emptyBook(), follower: emptyBook() };
+    // Share of their position the leader exits, before booking the sell
+    const soldShare = position.leader.tokens > 0 ? Math.min(1, tokenAmount / position.leader.tokens) : 1;
+    if (buying) {
+      this.bookBuy(position.leader, tokenAmount, leaderValueUsd);
+    } else {
+      this.bookSell(position.leader, tokenAmount, leaderValueUsd);
+    }
+
+    if (!leader.enabled) {
+      record.reason = 'Leader is no longer followed';
+    } else if (Date.now() - record.timestamp > this.config.maxSwapAgeMs) {
+      record.reason = `Leader swap is ${Math.round((Date.now() - record.timestamp) / 1000)}s old`;
+    } else {
+      try {
+        if (buying) {
+          await this.mirrorBuy(leader, token, leaderValueUsd, position.follower, record);
+        } else {
+          await this.mirrorSell(token, soldShare, position.follower, record);
+        }
+      } catch (error) {
+        record.status = error instanceof RiskLimitError ? 'skipped' : 'failed';
+        record.reason = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return this.recordTrade(state, record);
+  }
+
+  private async recordTrade(state: CopyTraderState, record: CopyTradeRecord): Promise<CopyTradeRecord> {
+    state.history = [record, ...state.history].slice(0, this.MAX_HISTORY);
+    await this.saveState();
+
+    const { side, token, leader } = record;
+    if (record.status === 'executed') {
+      elizaLogger.info(`Copied ${side} of ${token} from ${leader} for $${record.followerValueUsd?.toFixed(2)}`);
+    } else {
+      elizaLogger.info(`Did not copy ${side} of ${token} from ${leader}: ${record.reason}`);
+    }
+    this.emit(`copyTrade${record.status.charAt(0).toUpperCase()}${record.status.slice(1)}`, record);
+    return record;
+  }
+
+  private async mirrorBuy(
+    leader: LeaderConfig,
+    token: string,
+    leaderValueUsd: number,
+    book: PositionBook,
+    record: CopyTradeRecord
+  ): Promise<void> {
+    const headroomUsd = await this.riskEngine.getBuyHeadroomUsd(token);
+    const valueUsd = Math.min(
+      leaderValueUsd * leader.ratio,
+      leader.maxTradeUsd ?? this.config.maxTradeUsd,
+      headroomUsd
+    );
+    if (valueUsd < this.config.minTradeUsd) {
+      record.reason = headroomUsd < this.config.minTradeUsd
+        ? `Risk limits leave $${headroomUsd.toFixed(2)} for ${token}`
+        : `Mirrored size of $${valueUsd.toFixed(2)} is below the $${this.config.minTradeUsd} minimum`;
+      return;
+    }
+
+    const quotePrice = await this.priceSource(this.config.quoteMint);
+    const before = await this.executor.getTokenBalance(token);
+    const result = await this.executor.executeTrade({
+      inputToken: this.config.quoteMint,
+      outputToken: token,
+      amount: valueUsd / quotePrice,
+      slippageBps: this.config.slippageBps,
+      minTokenScore: this.config.minTokenScore,
+      source: 'CopyTrader'
+    });
+    const received = (await this.executor.getTokenBalance(token)) - before;
+
+    this.bookBuy(book, received, valueUsd);
+    Object.assign(record, {
+      status: 'executed',
+      followerTokens: received,
+      followerValueUsd: valueUsd,
+      tradeId: result.id
+    });
+  }
+
+  private async mirrorSell(
+    token: string,
+    soldShare: number,
+    book: PositionBook,
+    record: CopyTradeRecord
+  ): Promise<void> {
+    const balance = await this.executor.getTokenBalance(token);
+    const amount = Math.min(book.tokens * soldShare, balance);
+    if (amount <= 0) {
+      record.reason = 'No mirrored position to sell';
+      return;
+    }
+
+    const price = await this.priceSource(token);
+    const result = await this.executor.executeTrade({
+      inputToken: token,
+      outputToken: this.config.quoteMint,
+      amount,
+      slippageBps: this.config.slippageBps,
+      source: 'CopyTrader'
+    });
+    const sold = balance - (await this.executor.getTokenBalance(token));
+    const proceedsUsd = sold * price;
+
+    this.bookSell(book, sold, proceedsUsd);
+    Object.assign(record, {
+      status: 'executed',
+      followerTokens: sold,
+      followerValueUsd: proceedsUsd,
+      tradeId: result.id
+    });
+  }
+
+  private bookBuy(book: PositionBook, tokens: number, costUsd: number): void {
+    book.tokens += tokens;
+    book.costUsd += costUsd;
+    book.investedUsd += costUsd;
+  }
+
+  /**
+   * Sells of tokens bought before we started following have no cost basis
+   * and are not booked.
+   */
+  private bookSell(book: PositionBook, tokens: number, proceedsUsd: number): void {
+    if (book.tokens <= 0 || tokens <= 0) return;
+    const share = Math.min(1, tokens / book.tokens);
+    const cost = book.costUsd * share;
+    const pnl = (proceedsUsd * Math.min(tokens, book.tokens)) / tokens - cost;
+
+    book.realizedUsd += pnl;
+    book.closedTrades++;
+    if (pnl > 0) book.winningTrades++;
+    book.tokens = share >= 1 ? 0 : book.tokens - tokens;
+    book.costUsd -= cost;
+  }
+
+  /**
+   * Load errors propagate and the next call tries again; starting fresh would
+   * let the next save wipe the followed leaders and their positions.
+   */
+  private async loadState(): Promise<CopyTraderState> {
+    if (!this.state) {
+      this.state = (await this.store.load()) || { leaders: [], positions: {}, seen: {}, history: [] };
+    }
+    return this.state;
+  }
+
+  private async saveState(): Promise<void> {
+    try {
+      await this.store.save(this.state!);
+    } catch (error) {
+      elizaLogger.error('Failed to persist copy trading state:', error);
+    }
+  }
+
+  /**
+   * State is a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Parse COPY_TRADING_LEADERS, comma separated wallets with an optional copy
+ * ratio, e.g. "wallet1:0.2,wallet2".
+ */
+export function parseLeaders(value = process.env.COPY_TRADING_LEADERS || ''): Array<{ wallet: string; ratio?: number }> {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [wallet, ratio] = entry.split(':').map(part => part.trim());
+      return ratio && Number(ratio) > 0 ? { wallet, ratio: Number(ratio) } : { wallet };
+    });
+}
+
+/**
+ * Start mirroring through the engine and follow the configured leaders.
+ * Leaders that fail validation or scoring are logged and skipped. Leaders
+ * already known are left as they are, so one removed at runtime stays
+ * removed, and configured leaders no longer listed are unfollowed.
+ */
+export async function startCopyTrading(
+  executor: CopyTradeExecutor,
+  options: CopyTraderOptions & { leaders?: Array<{ wallet: string; ratio?: number }> } = {}
+): Promise<CopyTrader> {
+  const trader = new CopyTrader(executor, options);
+  await trader.start();
+  const configured = options.leaders || parseLeaders();
+  const known = await trader.listLeaders();
+
+  for (const leader of known.filter(l => l.configured && l.enabled)) {
+    if (!configured.some(({ wallet }) => wallet === leader.wallet)) {
+      await trader.removeLeader(leader.wallet);
+      elizaLogger.info(`Unfollowed ${leader.wallet}, it is no longer configured`);
+    }
+  }
+
+  for (const { wallet, ratio } of configured) {
+    if (known.some(leader => leader.wallet === wallet)) continue;
+    try {
+      const leader = await trader.addLeader(wallet, { ratio, configured: true });
+      elizaLogger.info(`Following ${wallet}, wallet score ${leader.walletScore ?? 'unknown'}`);
+    } catch (error) {
+      elizaLogger.warn(`Not following ${wallet}:`, error);
+    }
+  }
+  return trader;
+}
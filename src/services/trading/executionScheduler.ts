@@ -0,0 +1,621 @@
+// src/services/trading/executionScheduler.ts
+
+import { EventEmitter } from 'events';
+import { Connection, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { JupiterPriceV2 } from '../blockchain/defi/jupiterPriceV2.js';
+import { redisService } from '../redis/redis-service.js';
+import { RiskLimitError, TransactionError, ValidationError } from '../../utils/error-handler.js';
+import { WalletRegistry, walletRegistry } from '../wallet/walletRegistry.js';
+import type { TradingService } from './trading-service.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const MINUTE_MS = 60 * 1000;
+
+export type ScheduleAlgorithm = 'dca' | 'twap';
+
+export type ScheduleStatus = 'active' | 'paused' | 'completed' | 'expired' | 'cancelled' | 'failed';
+
+/**
+ * Slices only execute while the USD price of the traded token is inside the
+ * band. The traded token is the output mint, or the input mint when selling
+ * into SOL or a stablecoin.
+ */
+export interface PriceBand {
+  min?: number;
+  max?: number;
+}
+
+export interface ScheduleFill {
+  timestamp: number;
+  inputAmount: number;
+  outputAmount: number;
+  signature?: string;
+}
+
+export interface ExecutionSchedule {
+  id: string;
+  algorithm: ScheduleAlgorithm;
+  inputMint: string;
+  outputMint: string;
+  /** Input to spend over the whole schedule, in UI units */
+  totalAmount: number;
+  /** Input per slice. TWAP slices are resized to finish by endAt */
+  sliceAmount: number;
+  intervalMs: number;
+  /** TWAP deadline */
+  endAt?: number;
+  nextRunAt: number;
+  priceBand?: PriceBand;
+  slippageBps?: number;
+  status: ScheduleStatus;
+  filledAmount: number;
+  receivedAmount: number;
+  fills: ScheduleFill[];
+  skippedSlices: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  /** Stored before a slice is sent and cleared once its result is stored */
+  inFlight?: { amount: number; startedAt: number };
+  source?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DcaScheduleParams {
+  inputMint: string;
+  outputMint: string;
+  amountPerOrder: number;
+  intervalMinutes: number;
+  orders: number;
+  priceBand?: PriceBand;
+  slippageBps?: number;
+  startAt?: number;
+  source?: string;
+}
+
+export interface TwapScheduleParams {
+  inputMint: string;
+  outputMint: string;
+  totalAmount: number;
+  durationMinutes: number;
+  /** Defaults to one slice per 5 minutes, between 2 and 24 slices */
+  slices?: number;
+  priceBand?: PriceBand;
+  slippageBps?: number;
+  startAt?: number;
+  source?: string;
+}
+
+export interface ScheduleReport {
+  id: string;
+  algorithm: ScheduleAlgorithm;
+  status: ScheduleStatus;
+  inputMint: string;
+  outputMint: string;
+  totalAmount: number;
+  filledAmount: number;
+  remainingAmount: number;
+  receivedAmount: number;
+  /** Input paid per unit of output, null before the first fill */
+  averagePrice: number | null;
+  fills: number;
+  skippedSlices: number;
+  progress: number;
+  nextRunAt: number | null;
+  lastError?: string;
+}
+
+export interface SliceOrder {
+  scheduleId: string;
+  inputMint: string;
+  outputMint: string;
+  amount: number;
+  slippageBps?: number;
+}
+
+/** Executes one slice and returns the output received, in UI units */
+export type SliceExecutor = (order: SliceOrder) => Promise<{ outputAmount: number; signature?: string }>;
+
+export interface ScheduleStore {
+  load(): Promise<ExecutionSchedule[]>;
+  save(schedules: ExecutionSchedule[]): Promise<void>;
+}
+
+export class RedisScheduleStore implements ScheduleStore {
+  private readonly key: string;
+
+  constructor(key = 'execution:schedules') {
+    this.key = key;
+  }
+
+  public async load(): Promise<ExecutionSchedule[]> {
+    return (await redisService.get<ExecutionSchedule[]>(this.key)) || [];
+  }
+
+  public async save(schedules: ExecutionSchedule[]): Promise<void> {
+    await redisService.set(this.key, schedules);
+  }
+}
+
+export interface ExecutionSchedulerOptions {
+  store?: ScheduleStore;
+  priceSource?: (mint: string) => Promise<number>;
+  tickMs?: number;
+}
+
+/**
+ * Wallet TradingService.executeSwap can sign with, backed by a local keypair.
+ */
+export function createKeypairWallet(connection: Connection, keypair: Keypair) {
+  return {
+    publicKey: keypair.publicKey,
+    signAndSendTransaction: async (transaction: VersionedTransaction): Promise<string> => {
+      transaction.sign([keypair]);
+      const latest = await connection.getLatestBlockhash();
+      const signature = await connection.sendTransaction(transaction, { maxRetries: 3 });
+      const confirmation = await connection.confirmTransaction({ signature, ...latest }, 'confirmed');
+      if (confirmation.value.err) {
+        throw new TransactionError(`Swap failed: ${JSON.stringify(confirmation.value.err)}`, signature);
+      }
+      return signature;
+    }
+  };
+}
+
+/**
+ * Runs slices through TradingService.executeSwap, so each one passes the risk
+ * engine and fills on paper when paper trading is on. Live slices are signed
+ * by the registry's trading wallet and count against its budget, unless a
+ * wallet is given.
+ */
+export function createTradingServiceExecutor(
+  service?: TradingService,
+  wallet?: ReturnType<typeof createKeypairWallet>,
+  registry: WalletRegistry = walletRegistry
+): SliceExecutor {
+  return async order => {
+    const trading = service || (await import('./trading-service.js')).tradingService;
+    const swap = async (signer?: ReturnType<typeof createKeypairWallet>) => {
+      const result = await trading.executeSwap(order.inputMint, order.outputMint, order.amount, signer, {
+        slippageBps: order.slippageBps
+      });
+      if (result.status !== 'success' || result.outputAmount === undefined) {
+        throw new TransactionError(`Slice swap failed: ${result.message || 'no output'}`, result.signature);
+      }
+      return { outputAmount: result.outputAmount, signature: result.signature };
+    };
+
+    if (wallet || trading.isPaperTrading()) {
+      return swap(wallet);
+    }
+    const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+    return registry.useWallet(
+      'trading',
+      'swap',
+      { mint: order.inputMint, amount: order.amount },
+      keypair => swap(createKeypairWallet(connection, keypair)),
+      `schedule:${order.scheduleId}`
+    );
+  };
+}
+
+/**
+ * DCA and TWAP schedules for breaking large orders into slices.
+ *
+ * DCA spends a fixed amount every interval until the total is spent. TWAP
+ * spreads the total over a window, resizing slices so that amounts skipped
+ * by the price band are caught up before the deadline. A slice rejected by
+ * the risk engine counts as skipped; other errors count as failures, and
+ * MAX_CONSECUTIVE_FAILURES of them in a row fail the schedule.
+ */
+export class ExecutionScheduler extends EventEmitter {
+  private readonly executor: SliceExecutor;
+  private readonly store: ScheduleStore;
+  private readonly priceSource: (mint: string) => Promise<number>;
+  private readonly tickMs: number;
+  private readonly coreTokens = new Set([SOL_MINT, USDC_MINT, USDT_MINT]);
+  private schedules?: ExecutionSchedule[];
+  private timer?: NodeJS.Timeout;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private readonly DUST = 1e-9; // Remaining input treated as fully spent
+
+  constructor(executor: SliceExecutor = createTradingServiceExecutor(), options: ExecutionSchedulerOptions = {}) {
+    super();
+    this.executor = executor;
+    this.store = options.store || new RedisScheduleStore();
+    this.tickMs = options.tickMs || 15000;
+
+    if (options.priceSource) {
+      this.priceSource = options.priceSource;
+    } else {
+      const jupiterPriceV2 = new JupiterPriceV2();
+      this.priceSource = async mint => Number((await jupiterPriceV2.getPrice(mint)).price);
+    }
+  }
+
+  /**
+   * Start the timer. When the store is unreachable, e.g. while Redis is down,
+   * every tick tries to load the schedules again.
+   */
+  public async start(): Promise<void> {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => elizaLogger.error('Execution scheduler tick failed:', error));
+    }, this.tickMs);
+
+    try {
+      const schedules = await this.load();
+      elizaLogger.info(`Execution scheduler started with ${schedules.filter(s => s.status === 'active').length} active schedules`);
+    } catch (error) {
+      elizaLogger.warn('Execution scheduler started, its schedules load once the store is reachable:', error);
+    }
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  public async createDca(params: DcaScheduleParams): Promise<ExecutionSchedule> {
+    if (!(params.amountPerOrder > 0) || !(params.intervalMinutes > 0) || !(params.orders >= 1)) {
+      throw new ValidationError('DCA needs a positive amount per order, interval and number of orders');
+    }
+    const startAt = params.startAt ?? Date.now();
+    return this.create({
+      algorithm: 'dca',
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      totalAmount: params.amountPerOrder * Math.floor(params.orders),
+      sliceAmount: params.amountPerOrder,
+      intervalMs: params.intervalMinutes * MINUTE_MS,
+      nextRunAt: startAt,
+      priceBand: params.priceBand,
+      slippageBps: params.slippageBps,
+      source: params.source
+    });
+  }
+
+  public async createTwap(params: TwapScheduleParams): Promise<ExecutionSchedule> {
+    if (!(params.totalAmount > 0) || !(params.durationMinutes > 0)) {
+      throw new ValidationError('TWAP needs a positive total amount and duration');
+    }
+    const slices = Math.floor(params.slices ?? Math.min(Math.max(Math.round(params.durationMinutes / 5), 2), 24));
+    if (slices < 1) {
+      throw new ValidationError('TWAP needs at least one slice');
+    }
+    const startAt = params.startAt ?? Date.now();
+    const intervalMs = (params.durationMinutes * MINUTE_MS) / slices;
+    return this.create({
+      algorithm: 'twap',
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      totalAmount: params.totalAmount,
+      sliceAmount: params.totalAmount / slices,
+      intervalMs,
+      // Last slice runs at the start of the final interval
+      endAt: startAt + intervalMs * (slices - 1),
+      nextRunAt: startAt,
+      priceBand: params.priceBand,
+      slippageBps: params.slippageBps,
+      source: params.source
+    });
+  }
+
+  public pause(id: string): Promise<ExecutionSchedule> {
+    return this.transition(id, ['active'], 'paused', 'schedulePaused');
+  }
+
+  /**
+   * Resume a paused schedule. A TWAP keeps its deadline, so the remaining
+   * amount is spread over the time left.
+   */
+  public resume(id: string): Promise<ExecutionSchedule> {
+    return this.transition(id, ['paused'], 'active', 'scheduleResumed');
+  }
+
+  public cancel(id: string): Promise<ExecutionSchedule> {
+    return this.transition(id, ['active', 'paused'], 'cancelled', 'scheduleCancelled');
+  }
+
+  public async get(id: string): Promise<ExecutionSchedule | undefined> {
+    const schedule = (await this.load()).find(s => s.id === id);
+    return schedule && { ...schedule, fills: [...schedule.fills] };
+  }
+
+  public async list(statuses?: ScheduleStatus[]): Promise<ExecutionSchedule[]> {
+    return (await this.load())
+      .filter(schedule => !statuses || statuses.includes(schedule.status))
+      .map(schedule => ({ ...schedule, fills: [...schedule.fills] }));
+  }
+
+  public async getReport(id: string): Promise<ScheduleReport> {
+    const schedule = await this.get(id);
+    if (!schedule) {
+      throw new ValidationError(`Unknown schedule: ${id}`);
+    }
+    return createScheduleReport(schedule);
+  }
+
+  /**
+   * Run every slice that is due. Called on a timer after start().
+   */
+  public tick(now: number = Date.now()): Promise<ScheduleFill[]> {
+    return this.serialize(async () => {
+      const fills: ScheduleFill[] = [];
+      for (const schedule of await this.load()) {
+        if (schedule.status !== 'active' || schedule.nextRunAt > now) continue;
+        const fill = await this.runSlice(schedule, now);
+        if (fill) fills.push(fill);
+        if (!(await this.save()) && fill) {
+          // The stored in-flight marker pauses the schedule on restart
+          elizaLogger.error(`Schedule ${schedule.id} filled ${fill.signature || 'a slice'} but could not store it`);
+          this.emit('fillNotSaved', { schedule, fill });
+        }
+      }
+      return fills;
+    });
+  }
+
+  private async runSlice(schedule: ExecutionSchedule, now: number): Promise<ScheduleFill | null> {
+    const remaining = schedule.totalAmount - schedule.filledAmount;
+    const slicesLeft = schedule.endAt !== undefined
+      ? Math.max(1, Math.floor((schedule.endAt - now) / schedule.intervalMs) + 1)
+      : 1;
+    const amount = schedule.algorithm === 'twap' ? remaining / slicesLeft : Math.min(schedule.sliceAmount, remaining);
+
+    schedule.updatedAt = now;
+    schedule.nextRunAt = now + schedule.intervalMs;
+
+    let fill: ScheduleFill | null = null;
+    const skipReason = await this.checkPriceBand(schedule) || await this.markInFlight(schedule, amount, now);
+    if (skipReason) {
+      this.skip(schedule, skipReason);
+    } else {
+      try {
+        const result = await this.executor({
+          scheduleId: schedule.id,
+          inputMint: schedule.inputMint,
+          outputMint: schedule.outputMint,
+          amount,
+          slippageBps: schedule.slippageBps
+        });
+        fill = { timestamp: now, inputAmount: amount, outputAmount: result.outputAmount, signature: result.signature };
+        schedule.fills.push(fill);
+        schedule.filledAmount += amount;
+        schedule.receivedAmount += result.outputAmount;
+        schedule.consecutiveFailures = 0;
+        schedule.lastError = undefined;
+        elizaLogger.info(`Schedule ${schedule.id} filled ${amount} ${schedule.inputMint} -> ${result.outputAmount} ${schedule.outputMint}`);
+        this.emit('sliceFilled', { schedule, fill });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof RiskLimitError) {
+          this.skip(schedule, message);
+        } else {
+          schedule.consecutiveFailures++;
+          schedule.lastError = message;
+          elizaLogger.warn(`Schedule ${schedule.id} slice failed: ${message}`);
+          this.emit('sliceFailed', { schedule, error: message });
+          if (schedule.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+            this.finish(schedule, 'failed');
+            return null;
+          }
+        }
+      } finally {
+        schedule.inFlight = undefined;
+      }
+    }
+
+    if (schedule.totalAmount - schedule.filledAmount <= this.DUST) {
+      this.finish(schedule, 'completed');
+    } else if (schedule.endAt !== undefined && now >= schedule.endAt) {
+      this.finish(schedule, 'expired');
+    }
+    return fill;
+  }
+
+  private async checkPriceBand(schedule: ExecutionSchedule): Promise<string | null> {
+    const band = schedule.priceBand;
+    if (!band || (band.min === undefined && band.max === undefined)) return null;
+
+    const mint = this.coreTokens.has(schedule.outputMint) ? schedule.inputMint : schedule.outputMint;
+    let price: number;
+    try {
+      price = await this.priceSource(mint);
+    } catch (error) {
+      return `Price unavailable: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    if (!Number.isFinite(price)) return `Price unavailable for ${mint}`;
+    if (band.min !== undefined && price < band.min) return `Price $${price} is below the $${band.min} band`;
+    if (band.max !== undefined && price > band.max) return `Price $${price} is above the $${band.max} band`;
+    return null;
+  }
+
+  /**
+   * Store the slice as in flight before it is sent, so a crash before its
+   * result is stored cannot send it twice. The slice is skipped when the
+   * marker cannot be stored.
+   */
+  private async markInFlight(schedule: ExecutionSchedule, amount: number, now: number): Promise<string | null> {
+    schedule.inFlight = { amount, startedAt: now };
+    if (await this.save()) return null;
+    schedule.inFlight = undefined;
+    return 'Slice not sent, the schedule could not be stored';
+  }
+
+  private skip(schedule: ExecutionSchedule, reason: string): void {
+    schedule.skippedSlices++;
+    schedule.lastError = reason;
+    elizaLogger.info(`Schedule ${schedule.id} skipped a slice: ${reason}`);
+    this.emit('sliceSkipped', { schedule, reason });
+  }
+
+  private finish(schedule: ExecutionSchedule, status: ScheduleStatus): void {
+    schedule.status = status;
+    elizaLogger.info(`Schedule ${schedule.id} ${status}`);
+    this.emit(`schedule${status.charAt(0).toUpperCase()}${status.slice(1)}`, createScheduleReport(schedule));
+  }
+
+  private async create(
+    fields: Omit<ExecutionSchedule, 'id' | 'status' | 'filledAmount' | 'receivedAmount' | 'fills' |
+      'skippedSlices' | 'consecutiveFailures' | 'createdAt' | 'updatedAt'>
+  ): Promise<ExecutionSchedule> {
+    for (const mint of [fields.inputMint, fields.outputMint]) {
+      try {
+        new PublicKey(mint);
+      } catch {
+        throw new ValidationError(`Invalid token mint: ${mint}`);
+      }
+    }
+    if (fields.inputMint === fields.outputMint) {
+      throw new ValidationError('Input and output tokens must differ');
+    }
+    const band = fields.priceBand;
+    if (band && band.min !== undefined && band.max !== undefined && band.min > band.max) {
+      throw new ValidationError('Price band minimum is above its maximum');
+    }
+
+    return this.serialize(async () => {
+      const now = Date.now();
+      const schedule: ExecutionSchedule = {
+        ...fields,
+        id: `${fields.algorithm}-${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        status: 'active',
+        filledAmount: 0,
+        receivedAmount: 0,
+        fills: [],
+        skippedSlices: 0,
+        consecutiveFailures: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+      (await this.load()).push(schedule);
+      await this.save();
+      elizaLogger.info(`Created ${schedule.algorithm.toUpperCase()} schedule ${schedule.id}`);
+      this.emit('scheduleCreated', schedule);
+      return { ...schedule };
+    });
+  }
+
+  private transition(
+    id: string,
+    from: ScheduleStatus[],
+    to: ScheduleStatus,
+    event: string
+  ): Promise<ExecutionSchedule> {
+    return this.serialize(async () => {
+      const schedule = (await this.load()).find(s => s.id === id);
+      if (!schedule) {
+        throw new ValidationError(`Unknown schedule: ${id}`);
+      }
+      if (!from.includes(schedule.status)) {
+        throw new ValidationError(`Schedule ${id} is ${schedule.status}`);
+      }
+      schedule.status = to;
+      schedule.updatedAt = Date.now();
+      if (to === 'active') {
+        schedule.nextRunAt = Math.max(schedule.nextRunAt, Date.now());
+      }
+      await this.save();
+      this.emit(event, schedule);
+      return { ...schedule };
+    });
+  }
+
+  /**
+   * Load errors propagate and the next call tries again; starting empty would
+   * let the next save overwrite every stored schedule. A slice still in flight
+   * may have filled, so its schedule is paused until someone checks.
+   */
+  private async load(): Promise<ExecutionSchedule[]> {
+    if (!this.schedules) {
+      this.schedules = await this.store.load();
+      for (const schedule of this.schedules) {
+        if (!schedule.inFlight) continue;
+        const { amount, startedAt } = schedule.inFlight;
+        schedule.inFlight = undefined;
+        if (schedule.status === 'active') {
+          schedule.status = 'paused';
+        }
+        schedule.lastError = `A slice of ${amount} sent at ${new Date(startedAt).toISOString()} ` +
+          'may have filled without being recorded, check the wallet before resuming';
+        elizaLogger.warn(`Schedule ${schedule.id}: ${schedule.lastError}`);
+        this.emit('schedulePaused', schedule);
+      }
+    }
+    return this.schedules;
+  }
+
+  /**
+   * False when the store is unreachable; the schedules stay in memory and the
+   * next save writes them
+   */
+  private async save(): Promise<boolean> {
+    try {
+      await this.store.save(this.schedules || []);
+      return true;
+    } catch (error) {
+      elizaLogger.error('Failed to persist execution schedules:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Schedules are a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export function createScheduleReport(schedule: ExecutionSchedule): ScheduleReport {
+  const remainingAmount = Math.max(0, schedule.totalAmount - schedule.filledAmount);
+  return {
+    id: schedule.id,
+    algorithm: schedule.algorithm,
+    status: schedule.status,
+    inputMint: schedule.inputMint,
+    outputMint: schedule.outputMint,
+    totalAmount: schedule.totalAmount,
+    filledAmount: schedule.filledAmount,
+    remainingAmount,
+    receivedAmount: schedule.receivedAmount,
+    averagePrice: schedule.receivedAmount > 0 ? schedule.filledAmount / schedule.receivedAmount : null,
+    fills: schedule.fills.length,
+    skippedSlices: schedule.skippedSlices,
+    progress: schedule.totalAmount > 0 ? schedule.filledAmount / schedule.totalAmount : 0,
+    nextRunAt: schedule.status === 'active' || schedule.status === 'paused' ? schedule.nextRunAt : null,
+    lastError: schedule.lastError
+  };
+}
+
+/**
+ * One-line summary for chat.
+ */
+export function formatScheduleReport(report: ScheduleReport, symbols: Record<string, string> = {}): string {
+  const name = (mint: string) => symbols[mint] || `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+  const parts = [
+    `${report.id} [${report.status}]`,
+    `${report.algorithm.toUpperCase()} ${name(report.inputMint)} -> ${name(report.outputMint)}`,
+    `filled ${report.filledAmount.toFixed(4)}/${report.totalAmount.toFixed(4)} (${(report.progress * 100).toFixed(0)}%)`,
+    `remaining ${report.remainingAmount.toFixed(4)}`,
+    `received ${report.receivedAmount.toFixed(4)}`,
+    `avg price ${report.averagePrice === null ? '-' : report.averagePrice.toPrecision(6)}`,
+    `${report.fills} fills, ${report.skippedSlices} skipped`
+  ];
+  if (report.nextRunAt) parts.push(`next ${new Date(report.nextRunAt).toISOString()}`);
+  if (report.lastError) parts.push(`last issue: ${report.lastError}`);
+  return parts.join(' | ');
+}
+
+// Shared instance for the chat commands and agent tools
+export const executionScheduler = new ExecutionScheduler();
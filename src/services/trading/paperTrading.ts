@@ -0,0 +1,332 @@
+// src/services/trading/paperTrading.ts
+
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { JupiterPriceV2 } from '../blockchain/defi/jupiterPriceV2.js';
+import { TradeResult } from '../blockchain/defi/tradingEngine.js';
+import { TradeAnalysis } from '../../infrastructure/database/schemas/TradeAnalysis.schema.js';
+import { InsufficientFundsError, ValidationError } from '../../utils/error-handler.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const KNOWN_DECIMALS: Record<string, number> = {
+  [SOL_MINT]: 9,
+  [USDC_MINT]: 6
+};
+
+/**
+ * Returns the USD price of a token. Defaults to Jupiter Price V2, but can be
+ * pointed at recorded prices (e.g. a backtest fixture) for fully offline demos.
+ */
+export type PaperPriceSource = (mint: string) => Promise<number>;
+
+export interface PaperTradingConfig {
+  initialBalances?: Record<string, number>;
+  feeBps?: number;
+  slippageBps?: number;
+  priceSource?: PaperPriceSource;
+  agentId?: string;
+  rpcUrl?: string;
+}
+
+export interface PaperFillRequest {
+  inputMint: string;
+  outputMint: string;
+  /** Amount of inputMint to sell, in UI units */
+  amount: number;
+  /** Quoted output in UI units. Filled from the price source when omitted */
+  expectedOutput?: number;
+  priceImpact?: number;
+  route?: string[];
+}
+
+export interface PaperRawFillRequest {
+  inputMint: string;
+  outputMint: string;
+  /** Raw base-unit amounts, as found in Jupiter quotes and routes */
+  inAmount: number;
+  outAmount: number;
+  priceImpact?: number;
+  route?: string[];
+}
+
+export interface PaperPnL {
+  /** USD value of the starting balances, at current prices */
+  initialValue: number;
+  /** USD value of the current balances */
+  currentValue: number;
+  pnl: number;
+  /** PnL as a fraction of the initial value */
+  pnlPct: number;
+}
+
+export function isPaperTradingEnabled(): boolean {
+  return process.env.PAPER_TRADING === 'true';
+}
+
+/**
+ * Parse balances written as `mint:amount,mint:amount` (UI units)
+ */
+export function parsePaperBalances(value?: string): Record<string, number> {
+  if (!value) {
+    return { [SOL_MINT]: 10, [USDC_MINT]: 1000 };
+  }
+
+  return value.split(',').reduce((balances, entry) => {
+    const [mint, amount] = entry.split(':').map(part => part.trim());
+    if (mint && Number.isFinite(Number(amount))) {
+      balances[mint] = Number(amount);
+    }
+    return balances;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Simulated execution backend. Keeps virtual balances per token and settles
+ * swaps against quotes or recorded prices, producing the same TradeResult and
+ * TradeAnalysis records as real trades so the rest of the stack can't tell the
+ * difference.
+ */
+export class PaperTradingBackend extends EventEmitter {
+  private readonly balances: Map<string, number> = new Map();
+  private readonly initialBalances: Record<string, number>;
+  private readonly trades: TradeResult[] = [];
+  private readonly decimalsCache: Map<string, number> = new Map(Object.entries(KNOWN_DECIMALS));
+  private readonly feeBps: number;
+  private readonly slippageBps: number;
+  private readonly priceSource: PaperPriceSource;
+  private readonly agentId: string;
+  private readonly rpcUrl: string;
+  private connection?: Connection;
+
+  constructor(config: PaperTradingConfig = {}) {
+    super();
+    this.initialBalances = config.initialBalances || parsePaperBalances(process.env.PAPER_TRADING_BALANCES);
+    this.feeBps = config.feeBps ?? 25;
+    this.slippageBps = config.slippageBps ?? 10;
+    this.agentId = config.agentId || 'paper-trader';
+    this.rpcUrl = config.rpcUrl || process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+    if (config.priceSource) {
+      this.priceSource = config.priceSource;
+    } else {
+      const jupiterPriceV2 = new JupiterPriceV2();
+      this.priceSource = async (mint: string) => Number((await jupiterPriceV2.getPrice(mint)).price);
+    }
+
+    this.reset();
+  }
+
+  public reset(): void {
+    this.balances.clear();
+    Object.entries(this.initialBalances).forEach(([mint, amount]) => {
+      this.balances.set(mint, amount);
+    });
+    this.trades.length = 0;
+    this.emit('reset', this.getBalances());
+  }
+
+  public getBalance(mint: string): number {
+    return this.balances.get(mint) || 0;
+  }
+
+  public getBalances(): Record<string, number> {
+    return Object.fromEntries(this.balances.entries());
+  }
+
+  public getTrades(): TradeResult[] {
+    return [...this.trades];
+  }
+
+  /**
+   * Value of the current balances against the starting balances, both at
+   * current prices. Tokens without a price are left out of both sides.
+   */
+  public async getPnL(): Promise<PaperPnL> {
+    const mints = [...new Set([...Object.keys(this.initialBalances), ...this.balances.keys()])];
+    const prices = new Map(await Promise.all(
+      mints.map(async mint => [mint, await this.safePrice(mint)] as const)
+    ));
+    const value = (balances: Record<string, number>) => Object.entries(balances)
+      .reduce((total, [mint, amount]) => total + amount * (prices.get(mint) || 0), 0);
+
+    const initialValue = value(this.initialBalances);
+    const currentValue = value(this.getBalances());
+    const pnl = currentValue - initialValue;
+    return { initialValue, currentValue, pnl, pnlPct: initialValue > 0 ? pnl / initialValue : 0 };
+  }
+
+  public async fill(request: PaperFillRequest): Promise<TradeResult> {
+    const { inputMint, outputMint, amount } = request;
+    if (!inputMint || !outputMint || inputMint === outputMint) {
+      throw new ValidationError('Invalid tokens');
+    }
+    if (!(amount > 0)) {
+      throw new ValidationError('Invalid amount');
+    }
+
+    const balance = this.getBalance(inputMint);
+    if (balance < amount) {
+      throw new InsufficientFundsError(
+        `Insufficient paper balance for ${inputMint}: have ${balance}, need ${amount}`
+      );
+    }
+
+    const [inputPrice, outputPrice] = await Promise.all([
+      this.safePrice(inputMint),
+      this.safePrice(outputMint)
+    ]);
+
+    const fee = amount * this.feeBps / 10000;
+    const slippage = this.slippageBps / 10000;
+    let outputAmount: number;
+    if (request.expectedOutput !== undefined) {
+      // Quotes already include pool fees, only apply slippage
+      outputAmount = request.expectedOutput * (1 - slippage);
+    } else {
+      if (!inputPrice || !outputPrice) {
+        throw new ValidationError(`No price available to fill ${inputMint} -> ${outputMint}`);
+      }
+      outputAmount = ((amount - fee) * inputPrice / outputPrice) * (1 - slippage);
+    }
+
+    this.balances.set(inputMint, balance - amount);
+    this.balances.set(outputMint, this.getBalance(outputMint) + outputAmount);
+
+    const result: TradeResult = {
+      id: `paper-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      inputToken: inputMint,
+      outputToken: outputMint,
+      inputAmount: amount,
+      outputAmount,
+      executionPrice: outputAmount / amount,
+      slippage,
+      priceImpact: request.priceImpact || 0,
+      fee: request.expectedOutput !== undefined ? 0 : fee,
+      route: request.route?.length ? request.route : ['paper'],
+      timestamp: Date.now()
+    };
+
+    this.trades.push(result);
+    this.emit('trade', result);
+    elizaLogger.info(`Paper trade ${result.id}: ${amount} ${inputMint} -> ${outputAmount} ${outputMint}`);
+
+    await this.recordAnalysis(result, inputPrice, outputPrice);
+    return result;
+  }
+
+  /**
+   * Settle a quote or route expressed in raw base units. The returned
+   * TradeResult keeps raw units, like the live TradingEngine does.
+   */
+  public async fillRaw(request: PaperRawFillRequest): Promise<TradeResult> {
+    const [inputDecimals, outputDecimals] = await Promise.all([
+      this.getDecimals(request.inputMint),
+      this.getDecimals(request.outputMint)
+    ]);
+
+    const result = await this.fill({
+      inputMint: request.inputMint,
+      outputMint: request.outputMint,
+      amount: request.inAmount / 10 ** inputDecimals,
+      expectedOutput: request.outAmount / 10 ** outputDecimals,
+      priceImpact: request.priceImpact,
+      route: request.route
+    });
+
+    return {
+      ...result,
+      inputAmount: request.inAmount,
+      outputAmount: result.outputAmount * 10 ** outputDecimals,
+      executionPrice: (result.outputAmount * 10 ** outputDecimals) / request.inAmount
+    };
+  }
+
+  public async getDecimals(mint: string): Promise<number> {
+    const cached = this.decimalsCache.get(mint);
+    if (cached !== undefined) return cached;
+
+    if (!this.connection) {
+      this.connection = new Connection(this.rpcUrl);
+    }
+    const info = await this.connection.getParsedAccountInfo(new PublicKey(mint));
+    const data = info.value?.data;
+    const decimals = data && 'parsed' in data ? data.parsed.info.decimals : undefined;
+    if (typeof decimals !== 'number') {
+      throw new ValidationError(`Could not resolve decimals for ${mint}`);
+    }
+
+    this.decimalsCache.set(mint, decimals);
+    return decimals;
+  }
+
+  private async safePrice(mint: string): Promise<number | null> {
+    try {
+      return await this.priceSource(mint);
+    } catch (error) {
+      elizaLogger.warn(`Paper trading price unavailable for ${mint}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the fill as an executed TradeAnalysis when MongoDB is connected.
+   */
+  private async recordAnalysis(
+    result: TradeResult,
+    inputPrice: number | null,
+    outputPrice: number | null
+  ): Promise<void> {
+    if (mongoose.connection.readyState !== 1) return;
+
+    try {
+      await TradeAnalysis.create({
+        signature: result.id,
+        timestamp: new Date(result.timestamp),
+        inputToken: {
+          mint: result.inputToken,
+          symbol: '',
+          amount: result.inputAmount.toString(),
+          usdValue: result.inputAmount * (inputPrice || 0)
+        },
+        outputToken: {
+          mint: result.outputToken,
+          symbol: '',
+          amount: result.outputAmount.toString(),
+          usdValue: result.outputAmount * (outputPrice || 0)
+        },
+        priceImpact: result.priceImpact,
+        slippage: result.slippage,
+        route: {
+          marketInfos: result.route.map(label => ({
+            amm: label,
+            label,
+            inAmount: result.inputAmount.toString(),
+            outAmount: result.outputAmount.toString(),
+            priceImpact: result.priceImpact
+          }))
+        },
+        metadata: {
+          marketConditions: 'paper'
+        },
+        agentId: this.agentId,
+        status: 'EXECUTED',
+        executionResult: {
+          success: true,
+          signature: result.id,
+          gasUsed: 0,
+          actualSlippage: result.slippage,
+          simulated: true
+        }
+      });
+    } catch (error) {
+      elizaLogger.error('Failed to record paper trade analysis:', error);
+    }
+  }
+}
+
+// Shared instance so every component in paper mode sees the same balances
+export const paperTrading = new PaperTradingBackend();
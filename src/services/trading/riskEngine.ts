@@ -0,0 +1,410 @@
+// src/services/trading/riskEngine.ts
+
+import { EventEmitter } from 'events';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import { JupiterPriceV2 } from '../blockchain/defi/jupiterPriceV2.js';
+import { redisService } from '../redis/redis-service.js';
+import { ConfigurationError, RiskLimit, RiskLimitError } from '../../utils/error-handler.js';
+import { PaperTradingBackend, isPaperTradingEnabled, paperTrading } from './paperTrading.js';
+import { RugRiskReport, RugRiskScanner } from '../analysis/rugScanner.js';
+import { walletRegistry } from '../wallet/walletRegistry.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeYrJZ9xEQPxrRxJdSV1r2Wc5DUKNiAAKm');
+
+export interface RiskLimits {
+  maxTokenExposurePct: number; // Share of portfolio value in a single memecoin
+  maxMemecoinExposurePct: number; // Share of portfolio value in all memecoins together
+  maxDailyLossPct: number; // Drawdown from the day's opening value that trips the kill switch
+  maxConcurrentPositions: number;
+  minTokenScore: number; // Rug scan score a token needs before it can be bought, 0 turns the scan off
+}
+
+export interface PortfolioHolding {
+  mint: string;
+  amount: number;
+  valueUsd: number;
+}
+
+export interface PortfolioSnapshot {
+  totalValueUsd: number;
+  holdings: PortfolioHolding[];
+}
+
+export type PortfolioProvider = () => Promise<PortfolioSnapshot>;
+
+export interface TradeRiskRequest {
+  inputMint: string;
+  outputMint: string;
+  /** Amount of inputMint, in UI units */
+  amount: number;
+  /** Notional value of the trade. Priced from inputMint when omitted */
+  valueUsd?: number;
+  source?: string;
+  /** Overrides the minTokenScore limit for this trade */
+  minTokenScore?: number;
+}
+
+export interface KillSwitchState {
+  active: boolean;
+  reason?: string;
+  activatedAt?: number;
+}
+
+interface RiskState {
+  day: string;
+  openingValueUsd: number;
+  killSwitch: KillSwitchState;
+}
+
+export interface RiskEngineConfig {
+  limits?: Partial<RiskLimits>;
+  portfolioProvider?: PortfolioProvider;
+  priceSource?: (mint: string) => Promise<number>;
+  tokenScanner?: Pick<RugRiskScanner, 'scan'>;
+  coreTokens?: string[];
+  stateKey?: string;
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxTokenExposurePct: 0.1,
+  maxMemecoinExposurePct: 0.5,
+  maxDailyLossPct: 0.15,
+  maxConcurrentPositions: 5,
+  minTokenScore: 0
+};
+
+export function loadRiskLimitsFromEnv(): Partial<RiskLimits> {
+  const read = (name: string): number | undefined => {
+    const value = process.env[name];
+    return value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+
+  const limits: Partial<RiskLimits> = {
+    maxTokenExposurePct: read('RISK_MAX_TOKEN_EXPOSURE'),
+    maxMemecoinExposurePct: read('RISK_MAX_MEMECOIN_EXPOSURE'),
+    maxDailyLossPct: read('RISK_MAX_DAILY_LOSS'),
+    maxConcurrentPositions: read('RISK_MAX_POSITIONS'),
+    minTokenScore: read('RISK_MIN_TOKEN_SCORE')
+  };
+  return Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== undefined)
+  ) as Partial<RiskLimits>;
+}
+
+/**
+ * Portfolio of a wallet: SOL plus every SPL token account, valued with Jupiter prices.
+ */
+export function createWalletPortfolioProvider(
+  connection: Connection,
+  owner: PublicKey,
+  jupiterPriceV2: JupiterPriceV2 = new JupiterPriceV2()
+): PortfolioProvider {
+  return async () => {
+    const [lamports, accounts] = await Promise.all([
+      connection.getBalance(owner),
+      connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID })
+    ]);
+
+    const amounts: Record<string, number> = { [SOL_MINT]: lamports / 1e9 };
+    for (const account of accounts.value) {
+      const info = account.account.data.parsed.info;
+      const amount = info.tokenAmount.uiAmount || 0;
+      if (amount > 0) {
+        amounts[info.mint] = (amounts[info.mint] || 0) + amount;
+      }
+    }
+
+    return valueHoldings(amounts, jupiterPriceV2);
+  };
+}
+
+/**
+ * Portfolio made of the paper trading backend's virtual balances.
+ */
+export function createPaperPortfolioProvider(
+  backend: PaperTradingBackend,
+  jupiterPriceV2: JupiterPriceV2 = new JupiterPriceV2()
+): PortfolioProvider {
+  return async () => valueHoldings(backend.getBalances(), jupiterPriceV2);
+}
+
+async function valueHoldings(
+  amounts: Record<string, number>,
+  jupiterPriceV2: JupiterPriceV2
+): Promise<PortfolioSnapshot> {
+  const mints = Object.keys(amounts).filter(mint => amounts[mint] > 0);
+  const { data } = mints.length ? await jupiterPriceV2.getPrices(mints) : { data: {} as Record<string, any> };
+
+  const holdings = mints.map(mint => ({
+    mint,
+    amount: amounts[mint],
+    valueUsd: amounts[mint] * (Number(data[mint]?.price) || 0)
+  }));
+
+  return {
+    totalValueUsd: holdings.reduce((sum, holding) => sum + holding.valueUsd, 0),
+    holdings
+  };
+}
+
+/**
+ * Portfolio-level risk checks shared by every execution path.
+ *
+ * Trades into a core token (SOL and stablecoins by default) reduce risk and
+ * are always allowed, even with the kill switch active, so positions can
+ * still be exited. Any other trade is treated as opening memecoin exposure
+ * and has to pass the exposure, position count and daily loss limits, then
+ * the rug scan when a minimum token score is set.
+ */
+export class RiskEngine extends EventEmitter {
+  private readonly limits: RiskLimits;
+  private readonly coreTokens: Set<string>;
+  private readonly stateKey: string;
+  private portfolioProvider?: PortfolioProvider;
+  private priceSource?: (mint: string) => Promise<number>;
+  private tokenScanner?: Pick<RugRiskScanner, 'scan'>;
+  private state?: RiskState;
+
+  private readonly DUST_VALUE_USD = 1; // Holdings below this don't count as positions
+
+  constructor(config: RiskEngineConfig = {}) {
+    super();
+    this.limits = { ...DEFAULT_RISK_LIMITS, ...config.limits };
+    this.coreTokens = new Set(config.coreTokens || [SOL_MINT, USDC_MINT, USDT_MINT]);
+    this.stateKey = config.stateKey || 'risk:state';
+    this.portfolioProvider = config.portfolioProvider;
+    this.priceSource = config.priceSource;
+    this.tokenScanner = config.tokenScanner;
+  }
+
+  public getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  public isCoreToken(mint: string): boolean {
+    return this.coreTokens.has(mint);
+  }
+
+  /**
+   * Throws a RiskLimitError naming the limit the trade would break.
+   */
+  public async checkTrade(request: TradeRiskRequest): Promise<void> {
+    // Exits into core tokens pass without touching the store, so they still
+    // work while it is unreachable
+    if (this.isCoreToken(request.outputMint)) return;
+
+    const state = await this.loadState();
+    if (state.killSwitch.active) {
+      this.reject(request, 'killSwitch',
+        `Trading halted by kill switch: ${state.killSwitch.reason || 'manually activated'}`,
+        { activatedAt: state.killSwitch.activatedAt || 0 });
+    }
+
+    const portfolio = await this.getPortfolioProvider()();
+    await this.checkDailyLoss(state, portfolio, request);
+
+    const total = portfolio.totalValueUsd;
+    const tradeValue = request.valueUsd ?? request.amount * await this.getPrice(request.inputMint);
+    const memecoins = portfolio.holdings.filter(holding => !this.isCoreToken(holding.mint));
+
+    const tokenExposure = (memecoins.find(holding => holding.mint === request.outputMint)?.valueUsd || 0) + tradeValue;
+    if (total <= 0 || tokenExposure > total * this.limits.maxTokenExposurePct) {
+      this.reject(request, 'tokenExposure',
+        `Exposure to ${request.outputMint} would be $${tokenExposure.toFixed(2)}, limit is ` +
+        `${(this.limits.maxTokenExposurePct * 100).toFixed(1)}% of $${total.toFixed(2)}`,
+        { exposureUsd: tokenExposure, portfolioUsd: total, limitPct: this.limits.maxTokenExposurePct });
+    }
+
+    // Swapping one memecoin for another moves exposure rather than adding to it
+    const released = this.isCoreToken(request.inputMint) ? 0 : tradeValue;
+    const memecoinExposure = memecoins.reduce((sum, holding) => sum + holding.valueUsd, 0) + tradeValue - released;
+    if (memecoinExposure > total * this.limits.maxMemecoinExposurePct) {
+      this.reject(request, 'memecoinExposure',
+        `Total memecoin exposure would be $${memecoinExposure.toFixed(2)}, limit is ` +
+        `${(this.limits.maxMemecoinExposurePct * 100).toFixed(1)}% of $${total.toFixed(2)}`,
+        { exposureUsd: memecoinExposure, portfolioUsd: total, limitPct: this.limits.maxMemecoinExposurePct });
+    }
+
+    const positions = memecoins.filter(holding => holding.valueUsd >= this.DUST_VALUE_USD);
+    const isNewPosition = !positions.some(holding => holding.mint === request.outputMint);
+    if (isNewPosition && positions.length >= this.limits.maxConcurrentPositions) {
+      this.reject(request, 'concurrentPositions',
+        `Already holding ${positions.length} positions, limit is ${this.limits.maxConcurrentPositions}`,
+        { positions: positions.length, limit: this.limits.maxConcurrentPositions });
+    }
+
+    await this.checkTokenSafety(request);
+  }
+
+  /**
+   * Largest buy of `mint` with a core token, in USD, that stays within the
+   * exposure limits. Zero while the kill switch is active.
+   */
+  public async getBuyHeadroomUsd(mint: string): Promise<number> {
+    const state = await this.loadState();
+    if (state.killSwitch.active) return 0;
+
+    const portfolio = await this.getPortfolioProvider()();
+    const total = portfolio.totalValueUsd;
+    const memecoins = portfolio.holdings.filter(holding => !this.isCoreToken(holding.mint));
+    const tokenValue = memecoins.find(holding => holding.mint === mint)?.valueUsd || 0;
+    const memecoinValue = memecoins.reduce((sum, holding) => sum + holding.valueUsd, 0);
+
+    return Math.max(0, Math.min(
+      total * this.limits.maxTokenExposurePct - tokenValue,
+      total * this.limits.maxMemecoinExposurePct - memecoinValue
+    ));
+  }
+
+  public async getKillSwitch(): Promise<KillSwitchState> {
+    return { ...(await this.loadState()).killSwitch };
+  }
+
+  public async activateKillSwitch(reason: string): Promise<void> {
+    const state = await this.loadState();
+    state.killSwitch = { active: true, reason, activatedAt: Date.now() };
+    await this.saveState(state);
+    elizaLogger.warn(`Risk kill switch activated: ${reason}`);
+    this.emit('killSwitchActivated', state.killSwitch);
+  }
+
+  public async resetKillSwitch(): Promise<void> {
+    const state = await this.loadState();
+    state.killSwitch = { active: false };
+    await this.saveState(state);
+    elizaLogger.info('Risk kill switch reset');
+    this.emit('killSwitchReset');
+  }
+
+  public setPortfolioProvider(provider: PortfolioProvider): void {
+    this.portfolioProvider = provider;
+  }
+
+  private async checkDailyLoss(
+    state: RiskState,
+    portfolio: PortfolioSnapshot,
+    request: TradeRiskRequest
+  ): Promise<void> {
+    if (state.openingValueUsd <= 0) {
+      state.openingValueUsd = portfolio.totalValueUsd;
+      await this.saveState(state);
+      return;
+    }
+
+    const loss = (state.openingValueUsd - portfolio.totalValueUsd) / state.openingValueUsd;
+    if (loss >= this.limits.maxDailyLossPct) {
+      await this.activateKillSwitch(
+        `Daily loss of ${(loss * 100).toFixed(1)}% exceeded the ${(this.limits.maxDailyLossPct * 100).toFixed(1)}% limit`
+      );
+      this.reject(request, 'dailyLoss',
+        `Portfolio is down ${(loss * 100).toFixed(1)}% today, limit is ${(this.limits.maxDailyLossPct * 100).toFixed(1)}%`,
+        { lossPct: loss, openingValueUsd: state.openingValueUsd, currentValueUsd: portfolio.totalValueUsd });
+    }
+  }
+
+  private async checkTokenSafety(request: TradeRiskRequest): Promise<void> {
+    const minScore = request.minTokenScore ?? this.limits.minTokenScore;
+    if (minScore <= 0) return;
+
+    let report: RugRiskReport;
+    try {
+      report = await this.getTokenScanner().scan(request.outputMint);
+    } catch (error) {
+      this.reject(request, 'tokenSafety',
+        `Could not scan ${request.outputMint}: ${error instanceof Error ? error.message : String(error)}`,
+        { minScore });
+    }
+
+    if (report.score < minScore) {
+      const risks = report.checks
+        .filter(check => check.status === 'fail' || check.status === 'warn')
+        .map(check => check.message);
+      this.reject(request, 'tokenSafety',
+        `${request.outputMint} scored ${report.score}/100, minimum is ${minScore}` +
+        (risks.length ? `: ${risks.join('; ')}` : ''),
+        { score: report.score, minScore });
+    }
+  }
+
+  private reject(
+    request: TradeRiskRequest,
+    limit: RiskLimit,
+    message: string,
+    details: Record<string, number | string>
+  ): never {
+    const error = new RiskLimitError(message, limit, details);
+    elizaLogger.warn(`Trade rejected by risk engine (${limit})${request.source ? ` from ${request.source}` : ''}: ${message}`);
+    this.emit('tradeRejected', { request, limit, message, details });
+    throw error;
+  }
+
+  private getPortfolioProvider(): PortfolioProvider {
+    if (!this.portfolioProvider) {
+      if (isPaperTradingEnabled()) {
+        this.portfolioProvider = createPaperPortfolioProvider(paperTrading);
+      } else {
+        if (!walletRegistry.has('trading')) {
+          throw new ConfigurationError('No portfolio to check trades against, no trading wallet is configured');
+        }
+        const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+        this.portfolioProvider = createWalletPortfolioProvider(connection, walletRegistry.getPublicKey('trading'));
+      }
+    }
+    return this.portfolioProvider;
+  }
+
+  private getTokenScanner(): Pick<RugRiskScanner, 'scan'> {
+    if (!this.tokenScanner) {
+      const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+      this.tokenScanner = new RugRiskScanner(connection);
+    }
+    return this.tokenScanner;
+  }
+
+  private async getPrice(mint: string): Promise<number> {
+    if (!this.priceSource) {
+      const jupiterPriceV2 = new JupiterPriceV2();
+      this.priceSource = async (token: string) => Number((await jupiterPriceV2.getPrice(token)).price);
+    }
+    return this.priceSource(mint);
+  }
+
+  /**
+   * Current risk state, rolled over at UTC midnight. The kill switch survives
+   * the rollover and restarts, it has to be reset explicitly.
+   */
+  private async loadState(): Promise<RiskState> {
+    const today = new Date().toISOString().slice(0, 10);
+
+    // Load errors propagate, a fresh state would drop an active kill switch
+    if (!this.state) {
+      this.state = (await redisService.get<RiskState>(this.stateKey)) || undefined;
+    }
+
+    if (!this.state || this.state.day !== today) {
+      this.state = {
+        day: today,
+        openingValueUsd: 0,
+        killSwitch: this.state?.killSwitch || { active: false }
+      };
+      await this.saveState(this.state);
+    }
+    return this.state;
+  }
+
+  private async saveState(state: RiskState): Promise<void> {
+    this.state = state;
+    try {
+      await redisService.set(this.stateKey, state);
+    } catch (error) {
+      elizaLogger.error('Failed to persist risk state:', error);
+    }
+  }
+}
+
+// Shared instance so limits and the kill switch apply across every execution path
+export const riskEngine = new RiskEngine({ limits: loadRiskLimitsFromEnv() });
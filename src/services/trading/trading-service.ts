@@ -1,5 +1,7 @@
 import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { z } from 'zod';
+import { PaperTradingBackend, isPaperTradingEnabled, paperTrading } from './paperTrading.js';
+import { RiskEngine, riskEngine } from './riskEngine.js';
 
 // Constants
 export const TOKENS = {
@@ -21,7 +23,7 @@ const swapQuoteSchema = z.object({
   inAmount: z.string(),
   outAmount: z.string(),
   priceImpactPct: z.string(),
-  marketInfos: z.array(z.any()),
+  marketInfos: z.array(z.unknown()).optional(),
   swapMode: z.string(),
   otherAmountThreshold: z.string(),
   routePlan: z.array(z.object({
@@ -39,6 +41,13 @@ const swapQuoteSchema = z.object({
   }))
 });
 
+type SwapQuote = z.infer<typeof swapQuoteSchema>;
+
+export interface SwapOptions {
+  /** Defaults to 50, or 1000 when buying IBRLC */
+  slippageBps?: number;
+}
+
 export interface TradeAnalysis {
   priceImpact: number;
   expectedOutput: number;
@@ -59,6 +68,13 @@ export interface TradeAnalysis {
 export class TradingService {
   private readonly heliusUrl: string;
   private readonly connection: Connection;
+  private readonly paperTrading?: PaperTradingBackend;
+  private readonly riskEngine: RiskEngine;
+  private readonly decimals = new Map<string, number>([
+    [TOKENS.USDC, 6],
+    [TOKENS.SOL, 9],
+    [TOKENS.IBRLC, 9]
+  ]);
 
   // Used for RPC calls and blockchain interactions
   private async getBlockchainData(mintAddress: string) {
@@ -74,13 +90,15 @@ export class TradingService {
     }
   }
   
-  constructor() {
+  constructor(paperTradingBackend?: PaperTradingBackend, risk: RiskEngine = riskEngine) {
     const apiKey = process.env.NEXT_PUBLIC_HELIUS_API_KEY;
     if (!apiKey) {
       throw new Error('HELIUS_API_KEY is not configured');
     }
     this.heliusUrl = `https://mainnet.helius-rpc.com/?api-key=${apiKey}`;
     this.connection = new Connection(this.heliusUrl);
+    this.paperTrading = paperTradingBackend || (isPaperTradingEnabled() ? paperTrading : undefined);
+    this.riskEngine = risk;
   }
 
   // Token Information
@@ -151,7 +169,7 @@ export class TradingService {
     const route = validatedQuote.routePlan.map(r => r.swapInfo.label);
     
     const priceImpact = parseFloat(validatedQuote.priceImpactPct);
-    const expectedOutput = parseInt(validatedQuote.outAmount) / this.getTokenDecimals(outputMint);
+    const expectedOutput = parseInt(validatedQuote.outAmount) / 10 ** await this.getTokenDecimals(outputMint);
     const slippage = 0.005; // 0.5%
     const minimumOutput = expectedOutput * (1 - slippage);
 
@@ -181,15 +199,23 @@ export class TradingService {
     inputMint: string,
     outputMint: string,
     amount: number,
-    wallet: any // Replace with your wallet type
+    wallet: any, // Replace with your wallet type
+    options: SwapOptions = {}
   ) {
     // Validate inputs
     if (amount <= 0) throw new Error('Invalid amount');
+    await this.riskEngine.checkTrade({ inputMint, outputMint, amount, source: 'TradingService' });
+    if (this.paperTrading) {
+      return this.executePaperSwap(inputMint, outputMint, amount, options);
+    }
     if (!wallet) throw new Error('Wallet not connected');
 
     // Get quote
-    const quote = await this.getSwapQuote(amount, inputMint, outputMint);
+    const quote = await this.getSwapQuote(amount, inputMint, outputMint, options.slippageBps);
     if (!quote) throw new Error('Failed to get swap quote');
+    // Resolved up front: once the swap is sent, a lookup failure would report
+    // a landed swap as an error and callers would retry it
+    const outputDecimals = await this.getTokenDecimals(outputMint);
 
     // Prepare transaction
     const tx = await this.prepareSwapTransaction(quote, wallet.publicKey);
@@ -197,7 +223,8 @@ export class TradingService {
     // Sign and send
     try {
       const signature = await wallet.signAndSendTransaction(tx);
-      return { status: 'success', signature, quote };
+      const outputAmount = parseInt(quote.outAmount) / 10 ** outputDecimals;
+      return { status: 'success', signature, quote, outputAmount };
     } catch (error) {
       console.error('Swap execution error:', error);
       return { 
@@ -208,22 +235,57 @@ export class TradingService {
     }
   }
 
+  isPaperTrading(): boolean {
+    return !!this.paperTrading;
+  }
+
   // Private helper methods
-  private getTokenDecimals(mint: string): number {
-    switch (mint) {
-      case TOKENS.USDC: return 1e6;  // 6 decimals
-      case TOKENS.IBRLC: return 1e9; // 9 decimals
-      default: return 1e9;           // Default 9 decimals (SOL)
+  private async executePaperSwap(inputMint: string, outputMint: string, amount: number, options: SwapOptions) {
+    // Fill at the live quote when Jupiter answers, otherwise at current prices
+    const parsed = swapQuoteSchema.safeParse(await this.getSwapQuote(amount, inputMint, outputMint, options.slippageBps));
+    const quote: SwapQuote | null = parsed.success ? parsed.data : null;
+    try {
+      const result = await this.paperTrading!.fill({
+        inputMint,
+        outputMint,
+        amount,
+        expectedOutput: quote
+          ? parseInt(quote.outAmount) / 10 ** await this.getTokenDecimals(outputMint)
+          : undefined,
+        priceImpact: quote ? parseFloat(quote.priceImpactPct) : 0,
+        route: quote?.routePlan.map(r => r.swapInfo.label)
+      });
+      return { status: 'success', signature: result.id, quote, outputAmount: result.outputAmount, simulated: true, result };
+    } catch (error) {
+      console.error('Paper swap error:', error);
+      return {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'paper_fill_failed',
+        quote,
+        simulated: true
+      };
+    }
+  }
+
+  private async getTokenDecimals(mint: string): Promise<number> {
+    if (!this.decimals.has(mint)) {
+      const account = await this.connection.getParsedAccountInfo(new PublicKey(mint));
+      const decimals = (account.value?.data as any)?.parsed?.info?.decimals;
+      if (typeof decimals !== 'number') {
+        throw new Error(`Unknown token mint: ${mint}`);
+      }
+      this.decimals.set(mint, decimals);
     }
+    return this.decimals.get(mint)!;
   }
 
   private async getSwapQuote(
     amount: number,
     inputMint: string = TOKENS.SOL,
-    outputMint: string = TOKENS.USDC
+    outputMint: string = TOKENS.USDC,
+    slippageBps: number = outputMint === TOKENS.IBRLC ? 1000 : 50
   ) {
-    const inputAmount = (amount * this.getTokenDecimals(inputMint)).toString();
-    const slippageBps = outputMint === TOKENS.IBRLC ? 1000 : 50;
+    const inputAmount = Math.floor(amount * 10 ** await this.getTokenDecimals(inputMint)).toString();
 
     const params = new URLSearchParams({
       inputMint,
@@ -3,7 +3,9 @@ import { Logger } from '../utils/logger.js';
 import axios from 'axios';
 import { redis } from '../infrastructure/database/redis.config.js';
 
-interface SwapTransaction {
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface SwapTransaction {
   signature: string;
   timestamp: number;
   tokenIn: {
@@ -23,6 +25,54 @@ interface SwapTransaction {
   priceImpact: number;
 }
 
+interface HeliusTokenBalanceChange {
+  userAccount: string;
+  mint: string;
+  rawTokenAmount: {
+    tokenAmount: string;
+    decimals: number;
+  };
+}
+
+interface HeliusNativeBalanceChange {
+  account: string;
+  amount: string;
+}
+
+/**
+ * The fields of a Helius enhanced transaction that swaps are read from. The
+ * transactions API and webhooks send the same shape.
+ */
+export interface HeliusEnhancedTransaction {
+  signature: string;
+  /** Unix seconds */
+  timestamp: number;
+  feePayer: string;
+  source?: string;
+  transactionError?: unknown;
+  events?: {
+    swap?: {
+      nativeInput?: HeliusNativeBalanceChange | null;
+      nativeOutput?: HeliusNativeBalanceChange | null;
+      tokenInputs?: HeliusTokenBalanceChange[];
+      tokenOutputs?: HeliusTokenBalanceChange[];
+    };
+  };
+  tokenTransfers?: Array<{
+    fromUserAccount: string;
+    toUserAccount: string;
+    mint: string;
+    /** UI units */
+    tokenAmount: number;
+  }>;
+  nativeTransfers?: Array<{
+    fromUserAccount: string;
+    toUserAccount: string;
+    /** Lamports */
+    amount: number;
+  }>;
+}
+
 interface TokenInfo {
   address: string;
   symbol: string;
@@ -56,29 +106,26 @@ export class TransactionViewer {
     this.birdeyeEndpoint = 'https://public-api.birdeye.so';
   }
 
-  async getSwapTransactions(walletAddress: string, limit: number = 50): Promise<SwapTransaction[]> {
+  async getSwapTransactions(walletAddress: string, limit: number = 50, useCache: boolean = true): Promise<SwapTransaction[]> {
     try {
       const cacheKey = `swaps:${walletAddress}:${limit}`;
-      const cachedData = await redis.get(cacheKey);
+      const cachedData = useCache ? await redis.get(cacheKey) : null;
       
       if (cachedData) {
         return JSON.parse(cachedData);
       }
 
-      const response = await axios.post(`${this.heliusEndpoint}/v0/addresses/${walletAddress}/transactions`, {
-        query: {
-          types: ['SWAP'],
-        },
-        options: {
-          limit,
-        }
-      }, {
-        headers: {
-          'Authorization': `Bearer ${process.env.HELIUS_API_KEY}`
+      const response = await axios.get<HeliusEnhancedTransaction[]>(`${this.heliusEndpoint}/v0/addresses/${walletAddress}/transactions`, {
+        params: {
+          'api-key': process.env.HELIUS_API_KEY,
+          type: 'SWAP',
+          limit
         }
       });
 
-      const swaps: SwapTransaction[] = response.data.map(this.parseSwapTransaction);
+      const swaps: SwapTransaction[] = response.data
+        .map(tx => parseHeliusSwap(tx, walletAddress))
+        .filter((swap): swap is SwapTransaction => swap !== null);
       
       await redis.setex(cacheKey, 300, JSON.stringify(swaps)); // Cache for 5 minutes
       return swaps;
@@ -167,26 +214,58 @@ export class TransactionViewer {
       throw error;
     }
   }
+}
 
-  private parseSwapTransaction(tx: any): SwapTransaction {
-    return {
-      signature: tx.signature,
-      timestamp: tx.timestamp,
-      tokenIn: {
-        symbol: tx.tokenIn.symbol,
-        address: tx.tokenIn.address,
-        amount: tx.tokenIn.amount
-      },
-      tokenOut: {
-        symbol: tx.tokenOut.symbol,
-        address: tx.tokenOut.address,
-        amount: tx.tokenOut.amount
-      },
-      dex: tx.dex,
-      txHash: tx.signature,
-      status: tx.status,
-      price: tx.price,
-      priceImpact: tx.priceImpact
-    };
+/**
+ * Swap made by `walletAddress` in a Helius enhanced transaction, as returned
+ * by the transactions API and sent by webhooks. Uses the swap event when
+ * Helius decoded one, otherwise the wallet's own transfers. Null when the
+ * wallet did not both send and receive something.
+ */
+export function parseHeliusSwap(tx: HeliusEnhancedTransaction, walletAddress: string): SwapTransaction | null {
+  const swap = tx.events?.swap;
+  const tokenAmount = (token: HeliusTokenBalanceChange) =>
+    Number(token.rawTokenAmount.tokenAmount) / 10 ** token.rawTokenAmount.decimals;
+
+  let tokenIn: { address: string; amount: number } | undefined;
+  let tokenOut: { address: string; amount: number } | undefined;
+
+  if (swap) {
+    if (swap.nativeInput) tokenIn = { address: SOL_MINT, amount: Number(swap.nativeInput.amount) / 1e9 };
+    else if (swap.tokenInputs?.[0]) tokenIn = { address: swap.tokenInputs[0].mint, amount: tokenAmount(swap.tokenInputs[0]) };
+    if (swap.nativeOutput) tokenOut = { address: SOL_MINT, amount: Number(swap.nativeOutput.amount) / 1e9 };
+    else if (swap.tokenOutputs?.[0]) tokenOut = { address: swap.tokenOutputs[0].mint, amount: tokenAmount(swap.tokenOutputs[0]) };
+  } else {
+    const transfers = tx.tokenTransfers || [];
+    const sent = transfers.find(transfer => transfer.fromUserAccount === walletAddress);
+    const received = transfers.find(transfer => transfer.toUserAccount === walletAddress);
+    const lamports = (tx.nativeTransfers || []).reduce((sum, transfer) => {
+      if (transfer.fromUserAccount === walletAddress) return sum - transfer.amount;
+      if (transfer.toUserAccount === walletAddress) return sum + transfer.amount;
+      return sum;
+    }, 0);
+
+    tokenIn = sent
+      ? { address: sent.mint, amount: sent.tokenAmount }
+      : lamports < 0 ? { address: SOL_MINT, amount: -lamports / 1e9 } : undefined;
+    tokenOut = received
+      ? { address: received.mint, amount: received.tokenAmount }
+      : lamports > 0 ? { address: SOL_MINT, amount: lamports / 1e9 } : undefined;
+  }
+
+  if (!tokenIn || !tokenOut || tokenIn.address === tokenOut.address || !tokenIn.amount || !tokenOut.amount) {
+    return null;
   }
-} 
\ No newline at end of file
+
+  return {
+    signature: tx.signature,
+    timestamp: tx.timestamp,
+    tokenIn: { symbol: '', ...tokenIn },
+    tokenOut: { symbol: '', ...tokenOut },
+    dex: tx.source || 'UNKNOWN',
+    txHash: tx.signature,
+    status: tx.transactionError ? 'failed' : 'success',
+    price: tokenIn.amount / tokenOut.amount,
+    priceImpact: 0
+  };
+}
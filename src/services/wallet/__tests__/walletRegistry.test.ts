@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { WalletActivity, WalletRegistry, loadWalletConfigs, parseSecretKey } from '../walletRegistry.js';
+import { ConfigurationError, RiskLimitError } from '../../../utils/error-handler.js';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('WalletRegistry', () => {
+  test('loads a wallet per role, falling back to SOLANA_PRIVATE_KEY', () => {
+    const legacy = Keypair.generate();
+    const launch = Keypair.generate();
+    const configs = loadWalletConfigs({
+      SOLANA_PRIVATE_KEY: JSON.stringify(Array.from(legacy.secretKey)),
+      LAUNCH_WALLET_PRIVATE_KEY: bs58.encode(launch.secretKey),
+      LAUNCH_WALLET_ACTIONS: 'launch',
+      LAUNCH_WALLET_DAILY_BUDGET_USD: '500',
+      TREASURY_WALLET_PRIVATE_KEY: Buffer.from(Keypair.generate().secretKey).toString('base64')
+    });
+
+    expect(configs.map(config => config.role)).toEqual(['trading', 'launch', 'treasury']);
+    expect(configs[0].keypair.publicKey.equals(legacy.publicKey)).toBe(true);
+    expect(configs[1]).toMatchObject({ allowedActions: ['launch'], budget: { dailyUsd: 500 } });
+    expect(configs[1].keypair.publicKey.equals(launch.publicKey)).toBe(true);
+    expect(configs[2].allowedActions).toBeUndefined();
+
+    expect(() => parseSecretKey('not a key')).toThrow(ConfigurationError);
+    expect(() => loadWalletConfigs({ TRADING_WALLET_PRIVATE_KEY: bs58.encode(legacy.secretKey), TRADING_WALLET_ACTIONS: 'swap,yolo' }))
+      .toThrow('Unknown actions in TRADING_WALLET_ACTIONS: yolo');
+  });
+
+  test('enforces allowed actions and budgets, and reports activity per wallet', async () => {
+    let saved: WalletActivity[] = [];
+    const registry = new WalletRegistry({
+      wallets: [
+        { role: 'trading', keypair: Keypair.generate(), budget: { dailyUsd: 1000, perActionUsd: 600 } },
+        { role: 'treasury', keypair: Keypair.generate() }
+      ],
+      store: { load: async () => saved, save: async activity => { saved = activity; } },
+      priceSource: async mint => (mint === SOL ? 100 : 1),
+      balanceSource: async () => ({ totalValueUsd: 700, holdings: [{ mint: SOL, amount: 7, valueUsd: 700 }] })
+    });
+
+    await expect(registry.authorize('treasury', 'swap')).rejects.toThrow('The treasury wallet is not allowed to swap');
+    await expect(registry.authorize('launch', 'launch')).rejects.toThrow(ConfigurationError);
+    await expect(registry.authorize('trading', 'swap', { mint: SOL, amount: 7 })).rejects.toThrow('per action budget');
+
+    // A pending spend holds its budget, a failed one releases it
+    const pending = await registry.authorize('trading', 'swap', { mint: SOL, amount: 5 });
+    const error = await registry.authorize('trading', 'transfer', { mint: USDC, amount: 600 }).catch(e => e);
+    expect(error).toBeInstanceOf(RiskLimitError);
+    expect(error).toMatchObject({ limit: 'walletBudget', details: { spentUsd: 500, dailyUsd: 1000 } });
+    await registry.complete(pending.activityId, { error: new Error('Slippage exceeded') });
+
+    const signature = await registry.useWallet('trading', 'transfer', { mint: USDC, amount: 600 }, async keypair => {
+      expect(keypair.publicKey.equals(registry.getPublicKey('trading'))).toBe(true);
+      return 'sig1';
+    });
+    expect(signature).toBe('sig1');
+
+    const [report] = await registry.getReport('trading');
+    expect(report).toMatchObject({
+      solBalance: 7,
+      totalValueUsd: 700,
+      spentTodayUsd: 600,
+      remainingTodayUsd: 400,
+      actionsToday: { transfer: 1 },
+      failuresToday: 1
+    });
+    expect((await registry.getActivity('trading')).map(entry => [entry.action, entry.status, entry.signature]))
+      .toEqual([['transfer', 'success', 'sig1'], ['swap', 'failed', undefined]]);
+    expect(saved).toHaveLength(2);
+  });
+});
@@ -0,0 +1,541 @@
+// src/services/wallet/walletRegistry.ts
+
+import { EventEmitter } from 'events';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { elizaLogger } from "@ai16z/eliza";
+import { JupiterPriceV2 } from '../blockchain/defi/jupiterPriceV2.js';
+import { redisService } from '../redis/redis-service.js';
+import { ConfigurationError, RiskLimitError } from '../../utils/error-handler.js';
+import type { PortfolioHolding, PortfolioSnapshot } from '../trading/riskEngine.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WalletRole = 'trading' | 'launch' | 'treasury';
+
+export type WalletAction = 'swap' | 'transfer' | 'launch' | 'liquidity' | 'reward';
+
+export const WALLET_ROLES: WalletRole[] = ['trading', 'launch', 'treasury'];
+
+export const WALLET_ACTIONS: WalletAction[] = ['swap', 'transfer', 'launch', 'liquidity', 'reward'];
+
+export const DEFAULT_WALLET_ACTIONS: Record<WalletRole, WalletAction[]> = {
+  trading: ['swap', 'transfer', 'liquidity'],
+  launch: ['launch', 'swap'],
+  treasury: ['transfer', 'reward']
+};
+
+export interface WalletBudget {
+  dailyUsd?: number; // Spend allowed over a rolling 24 hours
+  perActionUsd?: number;
+}
+
+export interface WalletConfig {
+  role: WalletRole;
+  keypair: Keypair;
+  /** Defaults to DEFAULT_WALLET_ACTIONS for the role */
+  allowedActions?: WalletAction[];
+  budget?: WalletBudget;
+}
+
+export interface WalletInfo {
+  role: WalletRole;
+  publicKey: string;
+  allowedActions: WalletAction[];
+  budget: WalletBudget;
+}
+
+/** What an action takes out of the wallet, in UI units */
+export interface WalletSpend {
+  mint: string;
+  amount: number;
+}
+
+export type WalletActivityStatus = 'pending' | 'success' | 'failed';
+
+export interface WalletActivity {
+  id: string;
+  role: WalletRole;
+  publicKey: string;
+  action: WalletAction;
+  mint?: string;
+  amount?: number;
+  valueUsd: number;
+  status: WalletActivityStatus;
+  signature?: string;
+  error?: string;
+  source?: string;
+  timestamp: number;
+  completedAt?: number;
+}
+
+export interface WalletAuthorization {
+  activityId: string;
+  role: WalletRole;
+  keypair: Keypair;
+}
+
+export interface WalletReport extends WalletInfo {
+  solBalance: number;
+  totalValueUsd: number;
+  holdings: PortfolioHolding[];
+  spentTodayUsd: number;
+  /** Null when the wallet has no daily budget */
+  remainingTodayUsd: number | null;
+  /** Successful actions over the last 24 hours */
+  actionsToday: Partial<Record<WalletAction, number>>;
+  failuresToday: number;
+  lastActivityAt?: number;
+  /** Set when the balance could not be fetched */
+  balanceError?: string;
+}
+
+export interface WalletActivityStore {
+  load(): Promise<WalletActivity[]>;
+  save(activity: WalletActivity[]): Promise<void>;
+}
+
+export class RedisWalletActivityStore implements WalletActivityStore {
+  private readonly key: string;
+
+  constructor(key = 'wallets:activity') {
+    this.key = key;
+  }
+
+  public async load(): Promise<WalletActivity[]> {
+    return (await redisService.get<WalletActivity[]>(this.key)) || [];
+  }
+
+  public async save(activity: WalletActivity[]): Promise<void> {
+    await redisService.set(this.key, activity);
+  }
+}
+
+export interface WalletRegistryOptions {
+  /** Defaults to loadWalletConfigs() on first use */
+  wallets?: WalletConfig[];
+  store?: WalletActivityStore;
+  priceSource?: (mint: string) => Promise<number>;
+  balanceSource?: (owner: PublicKey) => Promise<PortfolioSnapshot>;
+}
+
+/**
+ * Reads a secret key stored as a JSON byte array, base58 or base64.
+ */
+export function parseSecretKey(value: string): Keypair {
+  const secret = value.trim();
+  let bytes: Uint8Array;
+  if (secret.startsWith('[')) {
+    bytes = Uint8Array.from(JSON.parse(secret));
+  } else {
+    try {
+      bytes = bs58.decode(secret);
+    } catch {
+      bytes = Buffer.from(secret, 'base64');
+    }
+    if (bytes.length !== 64) {
+      bytes = Buffer.from(secret, 'base64');
+    }
+  }
+  if (bytes.length !== 64) {
+    throw new ConfigurationError('Wallet secret keys must be 64 bytes, as a JSON array, base58 or base64');
+  }
+  return Keypair.fromSecretKey(bytes);
+}
+
+/**
+ * Wallets from <ROLE>_WALLET_PRIVATE_KEY, _ACTIONS, _DAILY_BUDGET_USD and
+ * _MAX_ACTION_USD. Roles without their own key use SOLANA_PRIVATE_KEY, so a
+ * single key setup keeps working with a budget per role.
+ */
+export function loadWalletConfigs(env: NodeJS.ProcessEnv = process.env): WalletConfig[] {
+  const readNumber = (name: string): number | undefined => {
+    const value = env[name];
+    return value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  };
+
+  const configs: WalletConfig[] = [];
+  for (const role of WALLET_ROLES) {
+    const prefix = `${role.toUpperCase()}_WALLET`;
+    const secret = env[`${prefix}_PRIVATE_KEY`] || env.SOLANA_PRIVATE_KEY;
+    if (!secret) continue;
+
+    let keypair: Keypair;
+    try {
+      keypair = parseSecretKey(secret);
+    } catch (error) {
+      const source = env[`${prefix}_PRIVATE_KEY`] ? `${prefix}_PRIVATE_KEY` : 'SOLANA_PRIVATE_KEY';
+      throw new ConfigurationError(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const actions = env[`${prefix}_ACTIONS`]
+      ?.split(',')
+      .map(action => action.trim())
+      .filter(Boolean);
+    const unknown = actions?.filter(action => !WALLET_ACTIONS.includes(action as WalletAction));
+    if (unknown?.length) {
+      throw new ConfigurationError(`Unknown actions in ${prefix}_ACTIONS: ${unknown.join(', ')}`);
+    }
+
+    configs.push({
+      role,
+      keypair,
+      allowedActions: actions?.length ? actions as WalletAction[] : undefined,
+      budget: {
+        dailyUsd: readNumber(`${prefix}_DAILY_BUDGET_USD`),
+        perActionUsd: readNumber(`${prefix}_MAX_ACTION_USD`)
+      }
+    });
+  }
+  return configs;
+}
+
+interface RegisteredWallet extends WalletInfo {
+  keypair: Keypair;
+}
+
+/**
+ * Holds the agent's keypairs by role. Services ask for the wallet of a role
+ * and action instead of reading keys from the environment. Spending actions
+ * go through authorize() and complete(), or useWallet(), which check the
+ * action is allowed for the role, hold the spend against the wallet's
+ * budget while it runs and keep an activity log for reports.
+ */
+export class WalletRegistry extends EventEmitter {
+  private readonly wallets = new Map<WalletRole, RegisteredWallet>();
+  private readonly store: WalletActivityStore;
+  private readonly priceSource: (mint: string) => Promise<number>;
+  private readonly balanceSource: (owner: PublicKey) => Promise<PortfolioSnapshot>;
+  private readonly configs?: WalletConfig[];
+  private loaded = false;
+  private activity?: WalletActivity[];
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private readonly MAX_ACTIVITY = 1000;
+
+  constructor(options: WalletRegistryOptions = {}) {
+    super();
+    this.configs = options.wallets;
+    this.store = options.store || new RedisWalletActivityStore();
+
+    if (options.priceSource) {
+      this.priceSource = options.priceSource;
+    } else {
+      const jupiterPriceV2 = new JupiterPriceV2();
+      this.priceSource = async mint => Number((await jupiterPriceV2.getPrice(mint)).price);
+    }
+
+    if (options.balanceSource) {
+      this.balanceSource = options.balanceSource;
+    } else {
+      const connection = new Connection(process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com');
+      this.balanceSource = async owner => {
+        const { createWalletPortfolioProvider } = await import('../trading/riskEngine.js');
+        return createWalletPortfolioProvider(connection, owner)();
+      };
+    }
+  }
+
+  /**
+   * Add a wallet, replacing any wallet already registered for its role.
+   */
+  public register(config: WalletConfig): WalletInfo {
+    this.ensureLoaded();
+    const wallet: RegisteredWallet = {
+      role: config.role,
+      publicKey: config.keypair.publicKey.toBase58(),
+      allowedActions: config.allowedActions || DEFAULT_WALLET_ACTIONS[config.role],
+      budget: { ...config.budget },
+      keypair: config.keypair
+    };
+    this.wallets.set(config.role, wallet);
+    elizaLogger.info(`Registered ${config.role} wallet ${wallet.publicKey}`);
+    return this.toInfo(wallet);
+  }
+
+  public has(role: WalletRole): boolean {
+    this.ensureLoaded();
+    return this.wallets.has(role);
+  }
+
+  public list(): WalletInfo[] {
+    this.ensureLoaded();
+    return [...this.wallets.values()].map(wallet => this.toInfo(wallet));
+  }
+
+  public getPublicKey(role: WalletRole): PublicKey {
+    return this.getWallet(role).keypair.publicKey;
+  }
+
+  /**
+   * Keypair of a role for signing. Spending actions should go through
+   * authorize() or useWallet() so they count against the budget.
+   */
+  public getKeypair(role: WalletRole): Keypair {
+    return this.getWallet(role).keypair;
+  }
+
+  /**
+   * Check the wallet of a role may take an action and that the spend fits
+   * its budget, then record it as pending. Pending spends count against the
+   * budget until complete() marks them failed.
+   */
+  public async authorize(
+    role: WalletRole,
+    action: WalletAction,
+    spend?: WalletSpend,
+    source?: string
+  ): Promise<WalletAuthorization> {
+    const wallet = this.getWallet(role);
+    if (!wallet.allowedActions.includes(action)) {
+      throw new ConfigurationError(`The ${role} wallet is not allowed to ${action}`);
+    }
+
+    return this.serialize(async () => {
+      const activity = await this.loadActivity();
+      const now = Date.now();
+      const valueUsd = spend ? await this.valueSpend(wallet, spend) : 0;
+
+      const { dailyUsd, perActionUsd } = wallet.budget;
+      if (perActionUsd !== undefined && valueUsd > perActionUsd) {
+        this.rejectSpend(wallet, action, `$${valueUsd.toFixed(2)} is above the $${perActionUsd} per action budget of the ${role} wallet`, {
+          valueUsd,
+          perActionUsd
+        });
+      }
+      if (dailyUsd !== undefined) {
+        const spentUsd = this.spentSince(activity, role, now - DAY_MS);
+        if (spentUsd + valueUsd > dailyUsd) {
+          this.rejectSpend(wallet, action, `$${valueUsd.toFixed(2)} would take the ${role} wallet past its $${dailyUsd} daily budget ($${spentUsd.toFixed(2)} spent)`, {
+            valueUsd,
+            spentUsd,
+            dailyUsd
+          });
+        }
+      }
+
+      const entry: WalletActivity = {
+        id: `${role}-${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        role,
+        publicKey: wallet.publicKey,
+        action,
+        mint: spend?.mint,
+        amount: spend?.amount,
+        valueUsd,
+        status: 'pending',
+        source,
+        timestamp: now
+      };
+      activity.push(entry);
+      await this.saveActivity();
+      return { activityId: entry.id, role, keypair: wallet.keypair };
+    });
+  }
+
+  /**
+   * Record how an authorized action went. Failed actions release their spend.
+   */
+  public complete(activityId: string, outcome: { signature?: string; error?: unknown } = {}): Promise<void> {
+    return this.serialize(async () => {
+      const entry = (await this.loadActivity()).find(a => a.id === activityId);
+      if (!entry || entry.status !== 'pending') return;
+
+      entry.status = outcome.error === undefined ? 'success' : 'failed';
+      entry.signature = outcome.signature;
+      if (outcome.error !== undefined) {
+        entry.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+      }
+      entry.completedAt = Date.now();
+      await this.saveActivity();
+      this.emit('walletActivity', { ...entry });
+    });
+  }
+
+  /**
+   * Authorize an action, run it with the wallet's keypair and record the
+   * outcome. A string result, or a result with a signature, is kept as the
+   * transaction signature.
+   */
+  public async useWallet<T>(
+    role: WalletRole,
+    action: WalletAction,
+    spend: WalletSpend | undefined,
+    task: (keypair: Keypair) => Promise<T>,
+    source?: string
+  ): Promise<T> {
+    const { activityId, keypair } = await this.authorize(role, action, spend, source);
+    try {
+      const result = await task(keypair);
+      const signature = typeof result === 'string'
+        ? result
+        : (result as { signature?: unknown } | undefined)?.signature;
+      await this.complete(activityId, { signature: typeof signature === 'string' ? signature : undefined });
+      return result;
+    } catch (error) {
+      await this.complete(activityId, { error });
+      throw error;
+    }
+  }
+
+  public async getActivity(role?: WalletRole, limit = 20): Promise<WalletActivity[]> {
+    return (await this.loadActivity())
+      .filter(entry => !role || entry.role === role)
+      .slice(-limit)
+      .reverse()
+      .map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Balances, budget use and action counts of every wallet, or one role.
+   */
+  public async getReport(role?: WalletRole): Promise<WalletReport[]> {
+    this.ensureLoaded();
+    const wallets = role ? [this.getWallet(role)] : [...this.wallets.values()];
+    const activity = await this.loadActivity();
+    const since = Date.now() - DAY_MS;
+
+    return Promise.all(wallets.map(async wallet => {
+      let snapshot: PortfolioSnapshot = { totalValueUsd: 0, holdings: [] };
+      let balanceError: string | undefined;
+      try {
+        snapshot = await this.balanceSource(wallet.keypair.publicKey);
+      } catch (error) {
+        balanceError = error instanceof Error ? error.message : String(error);
+        elizaLogger.warn(`Could not load balances of the ${wallet.role} wallet:`, error);
+      }
+
+      const recent = activity.filter(entry => entry.role === wallet.role && entry.timestamp >= since);
+      const actionsToday: Partial<Record<WalletAction, number>> = {};
+      for (const entry of recent.filter(e => e.status === 'success')) {
+        actionsToday[entry.action] = (actionsToday[entry.action] || 0) + 1;
+      }
+      const spentTodayUsd = this.spentSince(activity, wallet.role, since);
+      const last = activity.filter(entry => entry.role === wallet.role).pop();
+
+      return {
+        ...this.toInfo(wallet),
+        solBalance: snapshot.holdings.find(holding => holding.mint === SOL_MINT)?.amount || 0,
+        totalValueUsd: snapshot.totalValueUsd,
+        holdings: snapshot.holdings,
+        spentTodayUsd,
+        remainingTodayUsd: wallet.budget.dailyUsd === undefined ? null : Math.max(0, wallet.budget.dailyUsd - spentTodayUsd),
+        actionsToday,
+        failuresToday: recent.filter(entry => entry.status === 'failed').length,
+        lastActivityAt: last?.timestamp,
+        balanceError
+      };
+    }));
+  }
+
+  private getWallet(role: WalletRole): RegisteredWallet {
+    this.ensureLoaded();
+    const wallet = this.wallets.get(role);
+    if (!wallet) {
+      throw new ConfigurationError(`No ${role} wallet configured, set ${role.toUpperCase()}_WALLET_PRIVATE_KEY or SOLANA_PRIVATE_KEY`);
+    }
+    return wallet;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    const configs = this.configs || loadWalletConfigs();
+    this.loaded = true;
+    for (const config of configs) {
+      this.register(config);
+    }
+  }
+
+  private async valueSpend(wallet: RegisteredWallet, spend: WalletSpend): Promise<number> {
+    try {
+      return spend.amount * await this.priceSource(spend.mint);
+    } catch (error) {
+      if (wallet.budget.dailyUsd === undefined && wallet.budget.perActionUsd === undefined) {
+        return 0;
+      }
+      throw new RiskLimitError(`Could not value ${spend.mint} against the ${wallet.role} wallet budget`, 'walletBudget', {
+        mint: spend.mint,
+        amount: spend.amount
+      });
+    }
+  }
+
+  private spentSince(activity: WalletActivity[], role: WalletRole, since: number): number {
+    return activity
+      .filter(entry => entry.role === role && entry.timestamp >= since && entry.status !== 'failed')
+      .reduce((total, entry) => total + entry.valueUsd, 0);
+  }
+
+  private rejectSpend(
+    wallet: RegisteredWallet,
+    action: WalletAction,
+    message: string,
+    details: Record<string, number | string>
+  ): never {
+    elizaLogger.warn(`Wallet budget rejected ${action}: ${message}`);
+    this.emit('budgetExceeded', { role: wallet.role, action, message, details });
+    throw new RiskLimitError(message, 'walletBudget', details);
+  }
+
+  private toInfo(wallet: RegisteredWallet): WalletInfo {
+    return {
+      role: wallet.role,
+      publicKey: wallet.publicKey,
+      allowedActions: [...wallet.allowedActions],
+      budget: { ...wallet.budget }
+    };
+  }
+
+  /**
+   * Load errors propagate and the next call tries again; starting empty would
+   * reset spent budgets and let the next save drop the activity log.
+   */
+  private async loadActivity(): Promise<WalletActivity[]> {
+    if (!this.activity) {
+      this.activity = await this.store.load();
+    }
+    return this.activity;
+  }
+
+  private async saveActivity(): Promise<void> {
+    if (!this.activity) return;
+    if (this.activity.length > this.MAX_ACTIVITY) {
+      this.activity.splice(0, this.activity.length - this.MAX_ACTIVITY);
+    }
+    try {
+      await this.store.save(this.activity);
+    } catch (error) {
+      elizaLogger.error('Failed to persist wallet activity:', error);
+    }
+  }
+
+  /**
+   * Activity is a single read-modify-write record, so updates run one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Multi-line summary for chat.
+ */
+export function formatWalletReport(report: WalletReport): string {
+  const budget = report.budget.dailyUsd === undefined
+    ? 'no daily budget'
+    : `$${report.spentTodayUsd.toFixed(2)}/$${report.budget.dailyUsd} spent today`;
+  const actions = Object.entries(report.actionsToday).map(([action, count]) => `${count} ${action}`).join(', ');
+  const lines = [
+    `${report.role} ${report.publicKey}`,
+    `  ${report.balanceError ? `balance unavailable: ${report.balanceError}` : `${report.solBalance.toFixed(4)} SOL, $${report.totalValueUsd.toFixed(2)} total`}`,
+    `  ${budget}${report.budget.perActionUsd !== undefined ? `, $${report.budget.perActionUsd} per action` : ''}`,
+    `  allowed: ${report.allowedActions.join(', ')}`,
+    `  last 24h: ${actions || 'no actions'}${report.failuresToday ? `, ${report.failuresToday} failed` : ''}`
+  ];
+  return lines.join('\n');
+}
+
+// Shared instance for actions, agents and services
+export const walletRegistry = new WalletRegistry();
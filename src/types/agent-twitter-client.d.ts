@@ -61,7 +61,11 @@ declare module 'agent-twitter-client' {
     getUserTweets(userId: string, count?: number): Promise<Tweet[]>;
     search(query: string, mode?: keyof SearchMode): Promise<Tweet[]>;
     getTweet(tweetId: string): Promise<Tweet>;
-    sendTweet(content: string, replyToTweetId?: string): Promise<unknown>;
+    sendTweet(
+      content: string,
+      replyToTweetId?: string,
+      mediaData?: Array<{ data: Buffer; mediaType: string }>
+    ): Promise<Response>;
     sendQuoteTweet(content: string, quoteTweetId: string): Promise<void>;
     likeTweet(tweetId: string): Promise<void>;
     retweet(tweetId: string): Promise<void>;
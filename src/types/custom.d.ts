@@ -1,2 +0,0 @@
-declare module '@orca-so/whirlpool-sdk';
-declare module '@meteora/sdk';
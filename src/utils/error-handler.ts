@@ -16,6 +16,25 @@ export class ValidationError extends BaseError {
   }
 }
 
+export type RiskLimit =
+  | 'killSwitch'
+  | 'tokenExposure'
+  | 'memecoinExposure'
+  | 'dailyLoss'
+  | 'concurrentPositions'
+  | 'tokenSafety'
+  | 'walletBudget';
+
+export class RiskLimitError extends ValidationError {
+  constructor(
+    message: string,
+    public readonly limit: RiskLimit,
+    public readonly details: Record<string, number | string> = {}
+  ) {
+    super(message);
+  }
+}
+
 export class NetworkError extends BaseError {
   constructor(message: string) {
     super(message, 'NETWORK_ERROR');
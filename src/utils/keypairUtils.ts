@@ -2,6 +2,7 @@ import { Keypair, PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
 import * as fs from 'fs';
 import { elizaLogger } from "@ai16z/eliza";
+import { WalletRole, walletRegistry } from "../services/wallet/walletRegistry.js";
 
 export interface KeypairResult {
     keypair?: Keypair;
@@ -12,10 +13,13 @@ export interface KeypairConfig {
     requirePrivateKey: boolean;
     keyPath?: string;
     publicKeyString?: string;
+    /** Registry wallet used when no key path or public key is given, defaults to trading */
+    role?: WalletRole;
 }
 
 /**
- * Gets either a keypair or public key based on configuration
+ * Gets either a keypair or public key based on configuration. New code should
+ * use walletRegistry directly so spends count against the wallet's budget.
  * @param config Configuration options for keypair generation/loading
  * @returns KeypairResult containing either keypair or public key
  */
@@ -23,13 +27,14 @@ export async function getWalletKey(runtime: unknown, p0: boolean, config: Keypai
     try {
         if (config.requirePrivateKey) {
             if (!config.keyPath) {
-                throw new Error('Keypair path required when requirePrivateKey is true');
+                const keypair = walletRegistry.getKeypair(config.role || 'trading');
+                return { keypair, publicKey: keypair.publicKey };
             }
             const keypair = await loadKeypairFromFile(config.keyPath);
             return { keypair, publicKey: keypair.publicKey };
         } else {
             if (!config.publicKeyString) {
-                throw new Error('Public key string required when requirePrivateKey is false');
+                return { publicKey: walletRegistry.getPublicKey(config.role || 'trading') };
             }
             const publicKey = new PublicKey(config.publicKeyString);
             return { publicKey };
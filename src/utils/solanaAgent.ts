@@ -1,67 +1,116 @@
-import { SolanaAgentKit, createSolanaTools } from "solana-agent-kit";
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
-import { elizaLogger } from "@ai16z/eliza";
-import { CONFIG } from '../config/settings.js';
-
-export const agentKit = new SolanaAgentKit(
-  process.env.SOLANA_PRIVATE_KEY!,
-  process.env.RPC_URL!,
-  { OPENAI_API_KEY: process.env.OPENAI_API_KEY! },
-);
-
-export class SolanaAgentUtils {
-  private connection: Connection;
-  private keypair: Keypair;
-
-  constructor() {
-    this.connection = new Connection(CONFIG.SOLANA.RPC_URL);
-    this.keypair = this.initializeKeypair();
-  }
-
-  private initializeKeypair(): Keypair {
-    try {
-      if (!process.env.SOLANA_PRIVATE_KEY) {
-        throw new Error('SOLANA_PRIVATE_KEY not found in environment');
-      }
-
-      const privateKeyArray = JSON.parse(process.env.SOLANA_PRIVATE_KEY);
-      return Keypair.fromSecretKey(Uint8Array.from(privateKeyArray));
-    } catch (error) {
-      elizaLogger.error('Error initializing Solana keypair:', error);
-      throw error;
-    }
-  }
-
-  async getBalance(pubkey?: string): Promise<number> {
-    try {
-      const address = pubkey ? new PublicKey(pubkey) : this.keypair.publicKey;
-      const balance = await this.connection.getBalance(address);
-      return balance / 1e9; // Convert lamports to SOL
-    } catch (error) {
-      elizaLogger.error('Error getting balance:', error);
-      throw error;
-    }
-  }
-
-  async validateTransaction(signature: string) {
-    try {
-      const result = await this.connection.confirmTransaction(signature);
-      return result.value;
-    } catch (error) {
-      elizaLogger.error('Error validating transaction:', error);
-      throw error;
-    }
-  }
-
-  getConnection(): Connection {
-    return this.connection;
-  }
-
-  getKeypair(): Keypair {
-    return this.keypair;
-  }
-}
-
-// Export singleton instance
-export const solanaUtils = new SolanaAgentUtils();
+import { PumpFunTokenOptions, PumpfunLaunchResponse, SolanaAgentKit, createSolanaTools } from "solana-agent-kit";
+import { Connection, PublicKey, Keypair } from '@solana/web3.js';
+import { elizaLogger } from "@ai16z/eliza";
+import bs58 from "bs58";
+import { CONFIG } from '../config/settings.js';
+import { WalletAction, WalletRole, WalletSpend, walletRegistry } from '../services/wallet/walletRegistry.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+/**
+ * SolanaAgentKit on a registry wallet. Its spending methods, which the agent
+ * kit tools call, run through walletRegistry.useWallet so they are checked
+ * against the wallet's allowed actions and budgets like every other spend.
+ */
+export class BudgetedSolanaAgentKit extends SolanaAgentKit {
+  private readonly role: WalletRole;
+
+  constructor(role: WalletRole, rpcUrl: string, openAiApiKey: string = process.env.OPENAI_API_KEY!) {
+    super(bs58.encode(walletRegistry.getKeypair(role).secretKey), rpcUrl, { OPENAI_API_KEY: openAiApiKey });
+    this.role = role;
+  }
+
+  async trade(outputMint: PublicKey, inputAmount: number, inputMint?: PublicKey, slippageBps?: number): Promise<string> {
+    return this.spend(
+      'swap',
+      { mint: inputMint?.toBase58() || USDC_MINT, amount: inputAmount },
+      () => super.trade(outputMint, inputAmount, inputMint, slippageBps)
+    );
+  }
+
+  async transfer(to: PublicKey, amount: number, mint?: PublicKey): Promise<string> {
+    return this.spend('transfer', { mint: mint?.toBase58() || SOL_MINT, amount }, () => super.transfer(to, amount, mint));
+  }
+
+  async stake(amount: number): Promise<string> {
+    return this.spend('swap', { mint: SOL_MINT, amount }, () => super.stake(amount));
+  }
+
+  async lendAssets(amount: number): Promise<string> {
+    return this.spend('liquidity', { mint: USDC_MINT, amount }, () => super.lendAssets(amount));
+  }
+
+  async launchPumpFunToken(
+    tokenName: string,
+    tokenTicker: string,
+    description: string,
+    imageUrl: string,
+    options?: PumpFunTokenOptions
+  ): Promise<PumpfunLaunchResponse> {
+    return this.spend(
+      'launch',
+      { mint: SOL_MINT, amount: options?.initialLiquiditySOL ?? 0.0001 },
+      () => super.launchPumpFunToken(tokenName, tokenTicker, description, imageUrl, options)
+    );
+  }
+
+  private spend<T>(action: WalletAction, spend: WalletSpend, task: () => Promise<T>): Promise<T> {
+    return walletRegistry.useWallet(this.role, action, spend, () => task(), 'agentKit');
+  }
+}
+
+// Agent tools trade from the trading wallet
+export const agentKit = new BudgetedSolanaAgentKit('trading', process.env.RPC_URL!);
+
+export class SolanaAgentUtils {
+  private connection: Connection;
+  private keypair: Keypair;
+
+  constructor(role: WalletRole = 'trading') {
+    this.connection = new Connection(CONFIG.SOLANA.RPC_URL);
+    this.keypair = this.initializeKeypair(role);
+  }
+
+  private initializeKeypair(role: WalletRole): Keypair {
+    try {
+      return walletRegistry.getKeypair(role);
+    } catch (error) {
+      elizaLogger.error('Error initializing Solana keypair:', error);
+      throw error;
+    }
+  }
+
+  async getBalance(pubkey?: string): Promise<number> {
+    try {
+      const address = pubkey ? new PublicKey(pubkey) : this.keypair.publicKey;
+      const balance = await this.connection.getBalance(address);
+      return balance / 1e9; // Convert lamports to SOL
+    } catch (error) {
+      elizaLogger.error('Error getting balance:', error);
+      throw error;
+    }
+  }
+
+  async validateTransaction(signature: string) {
+    try {
+      const result = await this.connection.confirmTransaction(signature);
+      return result.value;
+    } catch (error) {
+      elizaLogger.error('Error validating transaction:', error);
+      throw error;
+    }
+  }
+
+  getConnection(): Connection {
+    return this.connection;
+  }
+
+  getKeypair(): Keypair {
+    return this.keypair;
+  }
+}
+
+// Export singleton instance
+export const solanaUtils = new SolanaAgentUtils();
 export const solanaTools = createSolanaTools(agentKit);
\ No newline at end of file